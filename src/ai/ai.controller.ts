@@ -15,10 +15,16 @@ import {
   MessageEvent as NestMessageEvent,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 import { AiService, DigitParity, Tick } from './ai.service';
 import { CreateAiTradeLogDto } from './dto/create-ai-trade-log.dto';
 import { PerformanceService } from './performance.service';
 import { TradeEventsService } from './trade-events.service';
+import { BacktestService } from './backtest/backtest.service';
+import { StrategyManagerService } from './strategies/strategy-manager.service';
+import { RunBacktestDto } from './dto/run-backtest.dto';
 import { Observable } from 'rxjs';
 
 @Controller('ai')
@@ -29,6 +35,8 @@ export class AiController {
     private readonly aiService: AiService,
     private readonly tradeEventsService: TradeEventsService,
     private readonly performanceService: PerformanceService,
+    private readonly backtestService: BacktestService,
+    private readonly strategyManager: StrategyManagerService,
   ) { }
 
   @Post('start')
@@ -297,6 +305,8 @@ export class AiController {
   // ========== ENDPOINTS PARA IA EM BACKGROUND ==========
 
   @Post('init-tables')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
   async initTables() {
     try {
       await this.aiService.initializeTables();
@@ -538,6 +548,14 @@ export class AiController {
     }
   }
 
+  @Get('strategies')
+  getStrategies() {
+    return {
+      success: true,
+      data: this.strategyManager.getStrategiesMetadata(),
+    };
+  }
+
   @Get('trading-params')
   async getTradingParams() {
     try {
@@ -756,5 +774,27 @@ export class AiController {
       );
     }
   }
-}
 
+  @Post('backtest')
+  @UseGuards(AuthGuard('jwt'))
+  async runBacktest(@Body() body: RunBacktestDto) {
+    try {
+      const ticks = [...body.ticks].sort((a, b) => a.epoch - b.epoch);
+      const report = await this.backtestService.run({ ...body, ticks });
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Erro ao executar backtest',
+          error: error.message,
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
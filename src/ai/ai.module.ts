@@ -15,6 +15,7 @@ import { ApolloStrategy } from './strategies/apollo.strategy';
 import { TitanStrategy } from './strategies/titan.strategy';
 import { NexusStrategy } from './strategies/nexus.strategy';
 import { TradeEventsService } from './trade-events.service';
+import { BacktestService } from './backtest/backtest.service';
 import { AutonomousAgentModule } from '../autonomous-agent/autonomous-agent.module';
 import { CopyTradingModule } from '../copy-trading/copy-trading.module';
 import { PlansModule } from '../plans/plans.module';
@@ -40,6 +41,7 @@ import { PlansModule } from '../plans/plans.module';
     NexusStrategy,
     PerformanceService,
     TradeEventsService,
+    BacktestService,
   ],
   exports: [AiService, StrategyManagerService, TradeEventsService, OrionStrategy], // ✅ Exportar OrionStrategy para uso no agente autônomo
 })
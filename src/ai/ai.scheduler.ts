@@ -9,6 +9,7 @@ export class AiScheduler {
   // ✅ OTIMIZAÇÃO: Flags para evitar execuções simultâneas
   private isProcessingBackground = false;
   private isProcessingFastMode = false;
+  private isResettingDailySessions = false;
 
   constructor(private readonly aiService: AiService) {}
 
@@ -65,6 +66,28 @@ export class AiScheduler {
       this.isProcessingFastMode = false;
     }
   }
+
+  /**
+   * Virada de dia por fuso horário do usuário (user_settings.timezone)
+   * A cada 15 minutos cobre todos os buckets de fuso, inclusive offsets de 30/45 minutos
+   */
+  @Cron('*/15 * * * *', {
+    name: 'reset-daily-ai-sessions',
+  })
+  async handleResetDailySessions() {
+    if (this.isResettingDailySessions) {
+      return;
+    }
+
+    this.isResettingDailySessions = true;
+    try {
+      await this.aiService.resetDailyAiSessions();
+    } catch (error) {
+      this.logger.error('❌ [Scheduler] Erro ao resetar sessões diárias das IAs:', error);
+    } finally {
+      this.isResettingDailySessions = false;
+    }
+  }
 }
 
 
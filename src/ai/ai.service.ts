@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef, ForbiddenException, NotFoundException } from '@nestjs/common';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from '../broker/deriv-endpoint';
 import { DataSource, Repository } from 'typeorm';
 import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
 import { AiTradeLogEntity } from '../infrastructure/database/entities/ai-trade-log.entity';
@@ -9,9 +10,17 @@ import { StatsIAsService } from './stats-ias.service';
 
 import { StrategyManagerService } from './strategies/strategy-manager.service';
 import { LogQueueService } from '../utils/log-queue.service';
+import { TickStoreService } from '../utils/tick-store.service';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import { DerivAccountResolver } from '../broker/deriv-account-resolver.service';
+import { DerivAccountResolutionError } from '../broker/deriv-account-resolver.types';
 import { AutonomousAgentService } from '../autonomous-agent/autonomous-agent.service';
 import { PlanPermissionsService } from '../plans/plan-permissions.service';
 import { getMinStakeByCurrency, formatCurrency } from '../utils/currency.utils';
+import { NotificationEventsService } from '../notifications/notification-events.service';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../trade-ledger/trade-ledger';
+import { endOfDayInTimeZone, groupByTimeZone, resolveTimeZone, startOfDayInTimeZone } from '../utils/timezone.utils';
 
 export type DigitParity = 'PAR' | 'IMPAR';
 
@@ -532,6 +541,8 @@ export class AiService implements OnModuleInit {
   constructor(
     @InjectDataSource() private dataSource: DataSource,
     private readonly statsIAsService: StatsIAsService,
+    private readonly tokenEncryption: TokenEncryptionService, // ✅ Tokens da Deriv são cifrados no banco
+    private readonly derivAccountResolver: DerivAccountResolver, // ✅ Escolha de conta/token da Deriv
     @Inject(forwardRef(() => StrategyManagerService))
     private readonly strategyManager?: StrategyManagerService, // ✅ Injetar StrategyManager
     @Inject(forwardRef(() => AutonomousAgentService))
@@ -542,6 +553,9 @@ export class AiService implements OnModuleInit {
     @InjectRepository(UserEntity)
     private readonly userRepository?: Repository<UserEntity>,
     private readonly planPermissionsService?: PlanPermissionsService,
+    private readonly tickStore?: TickStoreService, // ✅ Histórico persistente de ticks por símbolo
+    private readonly notificationEvents?: NotificationEventsService, // ✅ Notificações de stop (e-mail, in-app, webhook)
+    private readonly tradeLedger?: TradeLedgerService, // ✅ Livro único de operações
   ) {
     this.appId = process.env.DERIV_APP_ID || '111346';
   }
@@ -562,11 +576,15 @@ export class AiService implements OnModuleInit {
       );
 
       // 2. Marcar trades pendentes como erro (pois conexão websocket foi perdida)
+      const pendingTrades: { id: number }[] = await this.dataSource.query(
+        `SELECT id FROM ai_trades WHERE status = 'PENDING'`
+      );
       await this.dataSource.query(
         `UPDATE ai_trades 
          SET status = 'ERROR', error_message = 'Server Restart - Connection Lost', closed_at = NOW() 
          WHERE status = 'PENDING'`
       );
+      this.tradeLedger?.sync('ai', pendingTrades.map((trade) => trade.id));
 
       // 3. Encerrar sessões de copy trading ativas
       await this.dataSource.query(
@@ -611,7 +629,7 @@ export class AiService implements OnModuleInit {
     return new Promise<void>((resolve, reject) => {
       this.logger.log(`🔌 Inicializando conexão com Deriv API (app_id: ${this.appId})...`);
 
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       this.ws = new WebSocket.WebSocket(endpoint);
 
       this.ws.on('open', async () => {
@@ -955,6 +973,8 @@ export class AiService implements OnModuleInit {
       parity,
     };
 
+    this.tickStore?.record(tickSymbol, value, newTick.epoch);
+
     // ✅ Manter ticks separados por símbolo (apenas para R_100 manter no array principal para compatibilidade)
     if (tickSymbol === 'R_100') {
       this.ticks.push(newTick);
@@ -1242,7 +1262,7 @@ export class AiService implements OnModuleInit {
     contractType: 'DIGITEVEN' | 'DIGITODD',
   ): Promise<number> {
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket(endpoint);
       let isCompleted = false;
 
@@ -1439,11 +1459,12 @@ export class AiService implements OnModuleInit {
       [state.userId, this.symbol, contractType, stakeAmount],
     );
     const tradeId = insertResult.insertId;
+    this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
     this.logger.log(`[Veloz] Iniciando trade ${tradeId} | ${proposal} | ${formatCurrency(stakeAmount, state.currency)} | entrada=${entry}`);
 
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket(endpoint);
 
       let contractId: string | null = null;
@@ -1495,6 +1516,7 @@ export class AiService implements OnModuleInit {
               'UPDATE ai_trades SET status = ?, error_message = ? WHERE id = ?',
               ['ERROR', msg.error.message || 'Erro da Deriv', tradeId],
             );
+            this.tradeLedger?.sync('ai', tradeId);
             finalize(new Error(msg.error.message || 'Erro da Deriv'));
             return;
           }
@@ -1562,6 +1584,7 @@ export class AiService implements OnModuleInit {
                WHERE id = ?`,
               [contractId, entrySpot, tradeId],
             );
+            this.tradeLedger?.sync('ai', tradeId);
 
             this.logger.log(`[Veloz] ✅ entry_price atualizado no banco | tradeId=${tradeId} | entryPrice=${entrySpot}`);
 
@@ -1598,6 +1621,7 @@ export class AiService implements OnModuleInit {
                WHERE id = ?`,
               [exitPrice, profit, status, tradeId],
             );
+            this.tradeLedger?.sync('ai', tradeId);
 
             // Removido lógica de CopyTrading (vazio)
 
@@ -1637,7 +1661,7 @@ export class AiService implements OnModuleInit {
     userId: string; // ✅ Adicionado userId
   }): Promise<DigitTradeResult> {
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket(endpoint);
       let isCompleted = false;
       let contractId = '';
@@ -1714,6 +1738,7 @@ export class AiService implements OnModuleInit {
                  WHERE id = ?`,
               [contractId, entrySpot, params.tradeId],
             );
+            this.tradeLedger?.sync('ai', params.tradeId, ledgerContextFromCurrency(params.currency));
 
             ws.send(JSON.stringify({
               proposal_open_contract: 1,
@@ -1734,6 +1759,7 @@ export class AiService implements OnModuleInit {
                  WHERE id = ?`,
                 [exitPrice, profit, status, params.tradeId],
               );
+              this.tradeLedger?.sync('ai', params.tradeId);
 
               // ✅ LOG NA TABELA AI_TRADE_LOGS
               await this.logTradeResult(params.userId, params.stakeAmount, profit + params.stakeAmount, status);
@@ -2193,6 +2219,9 @@ export class AiService implements OnModuleInit {
 
         // ✅ OTIMIZAÇÃO: Invalidar cache após mudança de configuração
         this.invalidateUserConfigCache(userId);
+        this.notificationEvents?.emitSessionStop(userId, 'ai', sessionStatus, deactivationReason, {
+          sessionBalance,
+        });
 
         // Parar imediatamente qualquer trade em andamento
         // Remover do mapa de usuários ativos para impedir novos trades
@@ -2333,6 +2362,9 @@ export class AiService implements OnModuleInit {
 
         // ✅ OTIMIZAÇÃO: Invalidar cache após mudança de configuração
         this.invalidateUserConfigCache(userId);
+        this.notificationEvents?.emitSessionStop(userId, 'ai', 'stopped_blindado', deactivationReason, {
+          profitProtected: lucroProtegido,
+        });
 
         // Remover usuário dos mapas ativos (todos os modos)
         if (this.velozUsers.has(userId)) {
@@ -2694,7 +2726,7 @@ export class AiService implements OnModuleInit {
        WHERE is_active = TRUE
          AND LOWER(mode) = 'veloz'
          AND (strategy IS NULL OR strategy = '' OR LOWER(strategy) = 'orion')`,
-    );
+    ).then((rows) => this.decryptConfigTokens(rows));
 
     if (configs.length > 0) {
       this.logger.log(
@@ -2757,7 +2789,7 @@ export class AiService implements OnModuleInit {
          FROM ai_user_config
          WHERE is_active = TRUE
            AND LOWER(strategy) = 'atlas'`,
-      );
+      ).then((rows) => this.decryptConfigTokens(rows));
     } catch (error: any) {
       this.logger.error(`[SyncAtlas] Erro ao buscar usuários no banco:`, error);
       return;
@@ -2789,7 +2821,7 @@ export class AiService implements OnModuleInit {
           this.logger.warn(`[SyncAtlas] 🔄 Atualizando token no banco para user ${config.userId} | Antigo: ${config.derivToken?.substring(0, 10)}... | Novo: ${finalToken?.substring(0, 10)}...`);
           await this.dataSource.query(
             `UPDATE ai_user_config SET deriv_token = ? WHERE user_id = ? AND is_active = TRUE`,
-            [finalToken, config.userId]
+            [this.tokenEncryption.encrypt(finalToken), config.userId]
           );
         }
 
@@ -3362,6 +3394,7 @@ export class AiService implements OnModuleInit {
       [state.userId, this.symbol, contractType, stakeAmount],
     );
     const tradeId = insertResult.insertId;
+    this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
     // Executar a operação (que irá atualizar o trade criado acima)
     try {
@@ -3381,19 +3414,23 @@ export class AiService implements OnModuleInit {
         'UPDATE ai_trades SET status = ?, error_message = ? WHERE id = ?',
         ['ERROR', error.message || 'Erro ao executar operação', tradeId],
       );
+      this.tradeLedger?.sync('ai', tradeId);
       throw error;
     }
   }
 
   async getSessionStats(userId: string) {
-    // Buscar todas as trades do usuário do dia atual (timezone America/Sao_Paulo)
+    // Buscar todas as trades do usuário do dia atual (no fuso do usuário, user_settings.timezone)
     this.logger.log(`[GetSessionStats] 📊 Buscando estatísticas do dia para userId=${userId}`);
 
-    // Pegar data atual no timezone do Brasil
+    const settings = await this.dataSource.query(
+      `SELECT timezone FROM user_settings WHERE user_id = ? LIMIT 1`,
+      [userId],
+    );
+    const timeZone = resolveTimeZone(settings?.[0]?.timezone);
     const now = new Date();
-    const brazilTime = new Date(now.toLocaleString('en-US', { timeZone: 'America/Sao_Paulo' }));
-    const startOfDay = new Date(brazilTime.getFullYear(), brazilTime.getMonth(), brazilTime.getDate(), 0, 0, 0);
-    const endOfDay = new Date(brazilTime.getFullYear(), brazilTime.getMonth(), brazilTime.getDate(), 23, 59, 59);
+    const startOfDay = startOfDayInTimeZone(now, timeZone);
+    const endOfDay = endOfDayInTimeZone(now, timeZone);
 
     this.logger.log(`[GetSessionStats] 🕐 Filtrando trades do dia: ${startOfDay.toISOString()} até ${endOfDay.toISOString()}`);
 
@@ -3919,116 +3956,41 @@ export class AiService implements OnModuleInit {
   }
 
   /**
-   * ✅ ZENIX v2.0: Resolve Conta Deriv (Prioriza Demo se Real zerada)
-   * Busca deriv_raw do banco e decide qual conta usar baseada no saldo E nas configurações do usuário
+   * ✅ Decifra o derivToken das linhas de ai_user_config
+   */
+  private decryptConfigTokens(rows: any[]): any[] {
+    return rows.map((row) => ({ ...row, derivToken: this.tokenEncryption.decrypt(row.derivToken) }));
+  }
+
+  /**
+   * ✅ ZENIX v2.0: Resolve Conta Deriv conforme trade_currency do usuário (DerivAccountResolver)
+   * Sem conta correspondente no banco, mantém o token enviado pelo frontend
    */
   private async resolveDerivAccount(
     userId: string,
     providedToken: string,
     requestedCurrency: string
   ): Promise<{ token: string; currency: string; loginid: string, isVirtual: boolean }> {
-    this.logger.log(`[ResolveDeriv] ====== INÍCIO DA RESOLUÇÃO ======`);
-    this.logger.log(`[ResolveDeriv] 📥 Parâmetros: userId=${userId}, providedToken=${providedToken.substring(0, 10)}..., requestedCurrency=${requestedCurrency}`);
+    // ✅ O token das configs pode chegar cifrado (lido de ai_user_config)
+    providedToken = this.tokenEncryption.decrypt(providedToken);
+    const fallback = { token: providedToken, currency: requestedCurrency, loginid: 'UNKNOWN', isVirtual: false };
 
     try {
-      // 1. Buscar configurações do usuário (trade_currency) E dados raw E tokens dedicados
-      const userResult = await this.dataSource.query(
-        `SELECT u.deriv_raw, u.token_demo, u.token_real, s.trade_currency 
-         FROM users u
-         LEFT JOIN user_settings s ON u.id = s.user_id
-         WHERE u.id = ?`,
-        [userId]
-      );
-
-      this.logger.log(`[ResolveDeriv] 📊 Resultado da query: ${userResult?.length || 0} registros`);
-
-      if (!userResult || userResult.length === 0) {
-        this.logger.warn(`[ResolveDeriv] ⚠️ Usuário não encontrado: ${userId}`);
-        return { token: providedToken, currency: requestedCurrency, loginid: 'UNKNOWN', isVirtual: false };
-      }
-
-      const row = userResult[0];
-      const userPreferredCurrency = (row.trade_currency || 'USD').toUpperCase();
-      const dbTokenDemo = row.token_demo;
-      const dbTokenReal = row.token_real;
-      const derivRaw = typeof row.deriv_raw === 'string' ? JSON.parse(row.deriv_raw) : row.deriv_raw;
-
-      this.logger.log(`[ResolveDeriv] 📊 trade_currency: "${userPreferredCurrency}"`);
-      this.logger.log(`[ResolveDeriv] 📊 Tokens DB: Demo=${!!dbTokenDemo}, Real=${!!dbTokenReal}`);
-
-      // 🚨 Mapear tokens para moedas se deriv_raw estiver disponível
-      const tokens = derivRaw?.tokensByLoginId || {};
-      const accountList = derivRaw?.authorize?.account_list || [];
-      const tokenToAccount = new Map();
-      const currencyToAccounts = new Map();
-
-      accountList.forEach((acc: any) => {
-        const loginid = acc.loginid;
-        const cur = (acc.currency || '').toUpperCase();
-        const tk = tokens[loginid];
-        const info = { loginid, currency: cur, token: tk, isDemo: !!acc.is_virtual, balance: parseFloat(acc.balance || 0) };
-
-        tokenToAccount.set(loginid, info);
-        if (cur) {
-          if (!currencyToAccounts.has(cur)) currencyToAccounts.set(cur, []);
-          currencyToAccounts.get(cur).push(info);
-        }
-      });
-
-      let wantsDemo = userPreferredCurrency === 'DEMO';
-      if (userPreferredCurrency === 'USD' && derivRaw?.loginid?.toString().toUpperCase().startsWith('VRTC')) {
-        wantsDemo = true;
-      }
-      this.logger.log(`[ResolveDeriv] 🎯 Usuário quer DEMO? ${wantsDemo}`);
-
-      if (wantsDemo) {
-        // --- MODO DEMO ---
-        // 1. Tentar encontrar qualquer conta Demo com token
-        const demoAccounts = Array.from(tokenToAccount.values()).filter(a => a.isDemo && a.token);
-        if (demoAccounts.length > 0) {
-          // Priorizar USD na Demo se disponível
-          const usdDemo = demoAccounts.find(a => a.currency === 'USD') || demoAccounts[0];
-          this.logger.log(`[ResolveDeriv] ✅ Usando TOKEN DEMO (${usdDemo.loginid} | ${usdDemo.currency})`);
-          return { token: usdDemo.token, currency: usdDemo.currency, loginid: usdDemo.loginid, isVirtual: true };
-        }
-
-        if (dbTokenDemo) {
-          return { token: dbTokenDemo, currency: 'USD', loginid: 'DEMO_USER', isVirtual: true };
-        }
+      const resolved = await this.derivAccountResolver.resolve(userId);
+      this.logger.log(`[ResolveDeriv] ✅ Usando TOKEN ${resolved.isDemo ? 'DEMO' : 'REAL'} (${resolved.loginid ?? resolved.source} | ${resolved.currency})`);
+      return {
+        token: resolved.token,
+        currency: resolved.currency,
+        loginid: resolved.loginid ?? 'UNKNOWN',
+        isVirtual: resolved.isDemo,
+      };
+    } catch (error) {
+      if (error instanceof DerivAccountResolutionError) {
+        this.logger.warn(`[ResolveDeriv] ⚠️ ${error.message}. Usando token fornecido.`);
       } else {
-        // --- MODO REAL ---
-        const realAccounts = Array.from(tokenToAccount.values()).filter(a => !a.isDemo && a.token);
-
-        if (realAccounts.length > 0) {
-          // 1. Priorizar conta que combine com userPreferredCurrency
-          const preferredMatch = realAccounts.find(a => a.currency === userPreferredCurrency);
-          if (preferredMatch) {
-            this.logger.log(`[ResolveDeriv] ✅ Usando TOKEN REAL correspondente à preferência (${preferredMatch.loginid} | ${preferredMatch.currency})`);
-            return { token: preferredMatch.token, currency: preferredMatch.currency, loginid: preferredMatch.loginid, isVirtual: false };
-          }
-
-          // 2. Priorizar qualquer conta que tenha SALDO
-          const withBalance = realAccounts.find(a => a.balance > 0);
-          if (withBalance) {
-            this.logger.log(`[ResolveDeriv] ✅ Usando TOKEN REAL com saldo (${withBalance.loginid} | ${withBalance.currency})`);
-            return { token: withBalance.token, currency: withBalance.currency, loginid: withBalance.loginid, isVirtual: false };
-          }
-
-          // 3. Fallback para a primeira conta real com token
-          const firstReal = realAccounts[0];
-          this.logger.log(`[ResolveDeriv] ✅ Usando TOKEN REAL fallback (${firstReal.loginid} | ${firstReal.currency})`);
-          return { token: firstReal.token, currency: firstReal.currency, loginid: firstReal.loginid, isVirtual: false };
-        }
-
-        if (dbTokenReal) {
-          return { token: dbTokenReal, currency: userPreferredCurrency, loginid: 'REAL_USER', isVirtual: false };
-        }
+        this.logger.error(`[ResolveDeriv] ❌ Erro crítico na resolução:`, error);
       }
-
-      return { token: providedToken, currency: requestedCurrency, loginid: 'UNKNOWN', isVirtual: false };
-    } catch (error) {
-      this.logger.error(`[ResolveDeriv] ❌ Erro crítico na resolução:`, error);
-      return { token: providedToken, currency: requestedCurrency, loginid: 'UNKNOWN', isVirtual: false };
+      return fallback;
     }
   }
 
@@ -4047,17 +4009,18 @@ export class AiService implements OnModuleInit {
     symbol?: string, // ✅ ZENIX v2.0: Símbolo/Ativo (opcional)
   ): Promise<void> {
     // ✅ PASSO -1: VERIFICAR PERMISSÕES DO PLANO
+    let planUser: UserEntity | null = null;
     if (this.userRepository && this.planPermissionsService) {
-      const user = await this.userRepository.findOne({
+      planUser = await this.userRepository.findOne({
         where: { id: userId },
         relations: ['plan'],
       });
 
-      if (!user) {
+      if (!planUser) {
         throw new NotFoundException('Usuário não encontrado');
       }
 
-      if (!this.planPermissionsService.canActivateStrategy(user, strategy)) {
+      if (!this.planPermissionsService.canActivateStrategy(planUser, strategy)) {
         this.logger.warn(`[ActivateAI] 🚫 Usuário ${userId} tentou ativar estratégia restrita: ${strategy}`);
         throw new ForbiddenException(`Seu plano atual não inclui a estratégia ${strategy}.`);
       }
@@ -4066,6 +4029,16 @@ export class AiService implements OnModuleInit {
     // ✅ PASSO 0: RESOLVER CONTA (Evitar Insufficient Balance)
     const resolvedAccount = await this.resolveDerivAccount(userId, derivToken, currency);
 
+    // ✅ Limites do plano (produtos simultâneos, stake, ativo e tipo de conta)
+    if (planUser && this.planPermissionsService) {
+      await this.planPermissionsService.assertActivationAllowed(planUser, {
+        product: 'ai',
+        stake: entryValue ?? null,
+        symbol: symbol ?? null,
+        accountType: resolvedAccount.isVirtual || (currency || '').toUpperCase() === 'DEMO' ? 'demo' : 'real',
+      });
+    }
+
     // Atualizar variáveis com valores resolvidos
     const finalToken = resolvedAccount.token;
     // ✅ [ZENIX v3.4] Usar a moeda resolvida (pode ser BTC, ETH, etc) em vez de forçar USD
@@ -4145,11 +4118,11 @@ export class AiService implements OnModuleInit {
 
         // Determinar token e amount baseado na conta padrão
         if (tradeCurrency === 'DEMO') {
-          tokenDeriv = accountInfo[0]?.token_demo;
+          tokenDeriv = this.tokenEncryption.decrypt(accountInfo[0]?.token_demo);
           initialAmountDeriv = parseFloat(accountInfo[0]?.demo_amount || 0);
         } else {
           // Para USD, BTC ou outras contas reais
-          tokenDeriv = accountInfo[0]?.token_real;
+          tokenDeriv = this.tokenEncryption.decrypt(accountInfo[0]?.token_real);
           initialAmountDeriv = parseFloat(accountInfo[0]?.real_amount || 0);
 
           // Se o deriv_raw estiver disponível, pegar o amount específico da moeda
@@ -4187,13 +4160,17 @@ export class AiService implements OnModuleInit {
     // ✅ Append '_ V2' to strategy name as requested
     const strategyName = strategy ? `${strategy} _ V2` : strategy;
 
+    // ✅ Tokens gravados cifrados em ai_user_config
+    const storedToken = this.tokenEncryption.encrypt(finalToken);
+    const storedTokenDeriv = this.tokenEncryption.encrypt(tokenDeriv);
+
     // ✅ Adicionar entry_value e stop_blindado_percent se as colunas existirem
     try {
       await this.dataSource.query(
         `INSERT INTO ai_user_config 
          (user_id, is_active, session_status, session_balance, stake_amount, entry_value, deriv_token, token_deriv, amount_deriv, currency, mode, modo_martingale, strategy, profit_target, loss_limit, stop_blindado_percent, symbol, next_trade_at, created_at, updated_at) 
          VALUES (?, TRUE, 'active', 0.00, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), CURRENT_TIMESTAMP)`,
-        [userId, stakeAmount, entryValue || getMinStakeByCurrency(normalizedCurrency), finalToken, tokenDeriv, initialAmountDeriv, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, stopBlindadoPercent, symbol, nextTradeAt],
+        [userId, stakeAmount, entryValue || getMinStakeByCurrency(normalizedCurrency), storedToken, storedTokenDeriv, initialAmountDeriv, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, stopBlindadoPercent, symbol, nextTradeAt],
       );
     } catch (error: any) {
       // Se alguma coluna não existir, tentar inserir sem ela
@@ -4208,7 +4185,7 @@ export class AiService implements OnModuleInit {
               `INSERT INTO ai_user_config 
                (user_id, is_active, session_status, session_balance, stake_amount, entry_value, deriv_token, currency, mode, modo_martingale, strategy, profit_target, loss_limit, next_trade_at, created_at, updated_at) 
                VALUES (?, TRUE, 'active', 0.00, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), CURRENT_TIMESTAMP)`,
-              [userId, stakeAmount, entryValue || getMinStakeByCurrency(normalizedCurrency), finalToken, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, nextTradeAt],
+              [userId, stakeAmount, entryValue || getMinStakeByCurrency(normalizedCurrency), storedToken, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, nextTradeAt],
             );
           } catch (error2: any) {
             // Se entry_value também não existir
@@ -4217,7 +4194,7 @@ export class AiService implements OnModuleInit {
                 `INSERT INTO ai_user_config 
                  (user_id, is_active, session_status, session_balance, stake_amount, deriv_token, currency, mode, modo_martingale, strategy, profit_target, loss_limit, next_trade_at, created_at, updated_at) 
                  VALUES (?, TRUE, 'active', 0.00, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), CURRENT_TIMESTAMP)`,
-                [userId, stakeAmount, finalToken, normalizedCurrency, mode, modoMartingale, strategy, profitTarget || null, lossLimit || null, nextTradeAt],
+                [userId, stakeAmount, storedToken, normalizedCurrency, mode, modoMartingale, strategy, profitTarget || null, lossLimit || null, nextTradeAt],
               );
             } else {
               throw error2;
@@ -4230,7 +4207,7 @@ export class AiService implements OnModuleInit {
               `INSERT INTO ai_user_config 
                (user_id, is_active, session_status, session_balance, stake_amount, deriv_token, currency, mode, modo_martingale, strategy, profit_target, loss_limit, stop_blindado_percent, next_trade_at, created_at, updated_at) 
                VALUES (?, TRUE, 'active', 0.00, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), CURRENT_TIMESTAMP)`,
-              [userId, stakeAmount, finalToken, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, stopBlindadoPercent, nextTradeAt],
+              [userId, stakeAmount, storedToken, normalizedCurrency, mode, modoMartingale, strategyName, profitTarget || null, lossLimit || null, stopBlindadoPercent, nextTradeAt],
             );
           } catch (error2: any) {
             // Se stop_blindado_percent também não existir
@@ -4239,7 +4216,7 @@ export class AiService implements OnModuleInit {
                 `INSERT INTO ai_user_config 
                  (user_id, is_active, session_status, session_balance, stake_amount, deriv_token, currency, mode, modo_martingale, strategy, profit_target, loss_limit, next_trade_at, created_at, updated_at) 
                  VALUES (?, TRUE, 'active', 0.00, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), CURRENT_TIMESTAMP)`,
-                [userId, stakeAmount, finalToken, normalizedCurrency, mode, modoMartingale, strategy, profitTarget || null, lossLimit || null, nextTradeAt],
+                [userId, stakeAmount, storedToken, normalizedCurrency, mode, modoMartingale, strategy, profitTarget || null, lossLimit || null, nextTradeAt],
               );
             } else {
               throw error2;
@@ -4269,7 +4246,7 @@ export class AiService implements OnModuleInit {
       );
 
       if (savedConfig && savedConfig.length > 0) {
-        const tokenDeriv = savedConfig[0].token_deriv;
+        const tokenDeriv = this.tokenEncryption.decrypt(savedConfig[0].token_deriv);
         const savedAmountDeriv = savedConfig[0].amount_deriv;
 
         if (tokenDeriv) {
@@ -4404,6 +4381,94 @@ export class AiService implements OnModuleInit {
     this.logger.log(`IA desativada com sucesso para o usuário ${userId} em todos os módulos.`);
   }
 
+  /**
+   * Virada de dia no fuso do usuário (user_settings.timezone)
+   * IAs que seguem ativas desde antes da meia-noite local começam um novo dia: o saldo da sessão
+   * (base da meta de lucro e do limite de perda diários) e o pico do Stop Blindado voltam a zero
+   * e a estratégia é reativada para zerar o estado em memória.
+   */
+  async resetDailyAiSessions(): Promise<void> {
+    try {
+      const candidates = await this.dataSource.query(
+        `SELECT c.id, c.user_id, c.created_at, c.daily_reset_at, s.timezone
+         FROM ai_user_config c
+         LEFT JOIN user_settings s ON s.user_id = c.user_id
+         WHERE c.is_active = TRUE
+           AND (c.session_status IS NULL OR c.session_status = 'active')`,
+      );
+
+      const now = new Date();
+      let resetCount = 0;
+      for (const [timeZone, sessions] of groupByTimeZone(candidates, (row: any) => row.timezone)) {
+        const startOfToday = startOfDayInTimeZone(now, timeZone);
+
+        for (const session of sessions) {
+          const dayStartedAt = new Date(session.daily_reset_at || session.created_at);
+          if (dayStartedAt.getTime() >= startOfToday.getTime()) continue;
+
+          await this.resetAiDailyWindow(session.id, session.user_id, timeZone);
+          resetCount++;
+        }
+      }
+
+      if (resetCount > 0) {
+        this.logger.log(`[ResetDailyAI] ✅ ${resetCount} sessões de IA iniciaram um novo dia`);
+      }
+    } catch (error) {
+      this.logger.error('[ResetDailyAI] Erro ao verificar virada de dia das IAs:', error);
+    }
+  }
+
+  private async resetAiDailyWindow(configId: number, userId: string, timeZone: string): Promise<void> {
+    this.logger.log(`[ResetDailyAI] Resetando meta/limite diários do usuário ${userId} (fuso ${timeZone})`);
+
+    await this.dataSource.query(
+      `UPDATE ai_user_config
+       SET session_balance = 0,
+           profit_peak = 0,
+           daily_reset_at = NOW(),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND is_active = TRUE`,
+      [configId],
+    );
+    this.invalidateUserConfigCache(userId);
+
+    this.saveLogAsync(userId, 'info', 'Novo dia iniciado: meta de lucro e limite de perda diários zerados (Reset Automático)', {
+      resetType: 'midnight',
+      timezone: timeZone,
+    });
+
+    if (!this.strategyManager) return;
+
+    const [config] = await this.dataSource.query(
+      `SELECT stake_amount, entry_value, deriv_token, token_deriv, currency, mode, modo_martingale,
+              strategy, profit_target, loss_limit, stop_blindado_percent, symbol
+       FROM ai_user_config
+       WHERE id = ? AND is_active = TRUE`,
+      [configId],
+    );
+    if (!config?.strategy) return;
+
+    // Reativar para garantir o reset do lucro acumulado em memória da estratégia
+    try {
+      await this.strategyManager.deactivateUser(userId);
+      await this.strategyManager.activateUser(userId, config.strategy, {
+        mode: config.mode || 'veloz',
+        stakeAmount: parseFloat(config.stake_amount) || 0,
+        entryValue: parseFloat(config.entry_value) || getMinStakeByCurrency(config.currency || 'USD'),
+        derivToken: this.tokenEncryption.decrypt(config.token_deriv || config.deriv_token),
+        currency: config.currency || 'USD',
+        modoMartingale: config.modo_martingale || 'conservador',
+        profitTarget: parseFloat(config.profit_target) || null,
+        lossLimit: parseFloat(config.loss_limit) || null,
+        stopLossBlindado: config.stop_blindado_percent !== null && config.stop_blindado_percent !== undefined,
+        symbol: config.symbol || null,
+      });
+    } catch (error) {
+      this.logger.error(`[ResetDailyAI] Erro ao reativar estratégia ${config.strategy} do usuário ${userId}:`, error);
+    }
+  }
+
   /**
    * Atualiza configuração da IA de um usuário
    * ⚠️ ZENIX v2.0: BLOQUEIA mudanças durante sessão ativa!
@@ -4611,7 +4676,7 @@ export class AiService implements OnModuleInit {
              WHERE is_active = TRUE 
              AND LOWER(mode) IN ('fast', 'veloz')
              AND (strategy IS NULL OR strategy = '' OR LOWER(strategy) IN ('fast', 'veloz'))`
-      );
+      ).then((rows) => this.decryptConfigTokens(rows));
 
       this.logger.debug(`[Fast Mode] Encontrados ${fastModeUsers.length} usuários ativos`);
 
@@ -4662,7 +4727,7 @@ export class AiService implements OnModuleInit {
              AND (next_trade_at IS NULL OR next_trade_at <= NOW())
              AND (strategy IS NULL OR strategy = '')
              LIMIT 10`
-      );
+      ).then((rows) => this.decryptConfigTokens(rows));
 
       if (usersToProcess.length > 0) {
         this.logger.log(
@@ -4857,7 +4922,8 @@ export class AiService implements OnModuleInit {
         entryPrice: this.ticks[this.ticks.length - 1]?.value || 0,
         duration: params.duration || 1,
         durationUnit: params.duration_unit || 't',
-        contractId: result.contract_id
+        contractId: result.contract_id,
+        currency: params.currency,
       });
 
       // Iniciar monitoramento do contrato
@@ -4885,7 +4951,8 @@ export class AiService implements OnModuleInit {
           entryPrice: this.ticks[this.ticks.length - 1]?.value || 0,
           error: errorMessage.substring(0, 255),
           duration: params.duration || 1,
-          durationUnit: params.duration_unit || 't'
+          durationUnit: params.duration_unit || 't',
+          currency: params.currency,
         });
       } catch (dbError) {
         this.logger.error(`[${tradeId}] Falha ao registrar erro no banco de dados: ${dbError.message}`);
@@ -4900,7 +4967,7 @@ export class AiService implements OnModuleInit {
 
   private async executeTradeViaWebSocket(token: string, contractParams: any, tradeId: string): Promise<{ contract_id?: string; error?: string }> {
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket.WebSocket(endpoint, {
         headers: {
           Origin: 'https://app.deriv.com',
@@ -5124,12 +5191,14 @@ export class AiService implements OnModuleInit {
 
     // TypeORM pode retornar array ou objeto direto
     const result = Array.isArray(insertResult) ? insertResult[0] : insertResult;
-    return result?.insertId || null;
+    const tradeId = result?.insertId || null;
+    this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(trade.currency));
+    return tradeId;
   }
 
   private async monitorContract(contractId: string, tradeId: number, token: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket.WebSocket(endpoint, {
         headers: {
           Origin: 'https://app.deriv.com',
@@ -5217,6 +5286,7 @@ export class AiService implements OnModuleInit {
                 status,
                 tradeId
               ]);
+              this.tradeLedger?.sync('ai', tradeId);
 
               this.logger.log(`[Monitor] ✅ exit_price atualizado no banco | tradeId=${tradeId} | exitPrice=${exitPrice}`);
 
@@ -5377,7 +5447,7 @@ export class AiService implements OnModuleInit {
    */
   async getDerivBalance(derivToken: string): Promise<any> {
     return new Promise((resolve, reject) => {
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       const ws = new WebSocket.WebSocket(endpoint);
 
       const timeout = setTimeout(() => {
@@ -6067,6 +6137,7 @@ export class AiService implements OnModuleInit {
       stakeAmount,
       currentPrice,
     );
+    this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
     this.logger.log(
       `[Moderado][${state.userId}] Enviando operação ${proposal} | stake=${stakeAmount} | entrada=${entry}`,
@@ -6102,6 +6173,7 @@ export class AiService implements OnModuleInit {
         'UPDATE ai_trades SET status = ?, error_message = ? WHERE id = ?',
         ['ERROR', error.message || 'Unknown error', tradeId],
       );
+      this.tradeLedger?.sync('ai', tradeId);
       throw error;
     }
   }
@@ -6645,7 +6717,7 @@ export class AiService implements OnModuleInit {
          WHERE is_active = TRUE
            AND LOWER(mode) = 'moderado'
            AND (strategy IS NULL OR strategy = '' OR LOWER(strategy) = 'moderado')`,
-      );
+      ).then((rows) => this.decryptConfigTokens(rows));
 
       this.logger.log(`[SyncModerado] Sincronizando ${activeUsers.length} usuários do banco`);
 
@@ -7019,6 +7091,7 @@ export class AiService implements OnModuleInit {
       stakeAmount,
       currentPrice,
     );
+    this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
     this.logger.log(
       `[Preciso][${state.userId}] Enviando operação ${proposal} | stake=${stakeAmount} | entrada=${entry}`,
@@ -7051,6 +7124,7 @@ export class AiService implements OnModuleInit {
         'UPDATE ai_trades SET status = ?, error_message = ? WHERE id = ?',
         ['ERROR', error.message || 'Unknown error', tradeId],
       );
+      this.tradeLedger?.sync('ai', tradeId);
       throw error;
     }
   }
@@ -7443,7 +7517,7 @@ export class AiService implements OnModuleInit {
          WHERE is_active = TRUE
            AND LOWER(mode) = 'preciso'
            AND (strategy IS NULL OR strategy = '' OR LOWER(strategy) = 'preciso')`,
-      );
+      ).then((rows) => this.decryptConfigTokens(rows));
 
       this.logger.log(`[SyncPreciso] Sincronizando ${activeUsers.length} usuários do banco`);
 
@@ -0,0 +1,117 @@
+import { readStrategyLevels, summarizeBacktestTrades } from './backtest-report';
+import { BacktestTrade } from './backtest.types';
+
+describe('backtest-report', () => {
+  let seq = 0;
+  const trade = (
+    status: BacktestTrade['status'],
+    stake: number,
+    profit: number,
+    balanceAfter: number,
+    levels: Pick<BacktestTrade, 'martingaleLevel' | 'sorosLevel'> = {},
+  ): BacktestTrade => ({
+    contractId: String(++seq),
+    contractType: 'DIGITEVEN',
+    stake,
+    profit,
+    status,
+    entrySpot: 1000,
+    exitSpot: 1000,
+    exitDigit: 0,
+    buyEpoch: seq,
+    sellEpoch: seq + 1,
+    balanceAfter,
+    ...levels,
+  });
+
+  it('lê martingale e Soros do estado de cada estratégia', () => {
+    // Orion: martingaleStep e vitoriasConsecutivas
+    expect(
+      readStrategyLevels({ martingaleStep: 3, vitoriasConsecutivas: 0 }),
+    ).toEqual({ martingaleLevel: 3, sorosLevel: 0 });
+    expect(
+      readStrategyLevels({ martingaleStep: 0, vitoriasConsecutivas: 1 }),
+    ).toEqual({ martingaleLevel: 0, sorosLevel: 1 });
+
+    // Atlas: consecutiveLosses prevalece sobre martingaleStep (que só é zerado)
+    expect(
+      readStrategyLevels({
+        martingaleStep: 0,
+        consecutiveLosses: 2,
+        isInSoros: false,
+      }),
+    ).toEqual({ martingaleLevel: 2, sorosLevel: 0 });
+    expect(
+      readStrategyLevels({
+        martingaleStep: 0,
+        consecutiveLosses: 0,
+        vitoriasConsecutivas: 2,
+        isInSoros: true,
+      }),
+    ).toEqual({ martingaleLevel: 0, sorosLevel: 1 });
+
+    // Apollo: Soros na entrada após a segunda vitória seguida
+    const apollo = {
+      consecutiveLosses: 0,
+      consecutiveWins: 2,
+      lastResultWin: true,
+      skipSorosNext: false,
+    };
+    expect(readStrategyLevels(apollo).sorosLevel).toBe(1);
+    expect(
+      readStrategyLevels({ ...apollo, skipSorosNext: true }).sorosLevel,
+    ).toBe(0);
+
+    // Titan: perdas ficam fora do estado
+    expect(
+      readStrategyLevels({ vitoriasConsecutivas: 1, sorosActive: true }),
+    ).toEqual({ martingaleLevel: null, sorosLevel: 1 });
+    expect(readStrategyLevels(null)).toEqual({
+      martingaleLevel: null,
+      sorosLevel: 0,
+    });
+  });
+
+  it('calcula acertos, drawdown e níveis atingidos', () => {
+    const trades = [
+      trade('WON', 1, 0.95, 100.95),
+      trade('WON', 1.95, 1.85, 102.8, { martingaleLevel: 0, sorosLevel: 1 }),
+      trade('LOST', 1, -1, 101.8, { martingaleLevel: 0, sorosLevel: 0 }),
+      trade('LOST', 2.1, -2.1, 99.7, { martingaleLevel: 1, sorosLevel: 0 }),
+      trade('LOST', 4.4, -4.4, 95.3, { martingaleLevel: 2, sorosLevel: 0 }),
+      trade('WON', 9.2, 8.74, 104.04, { martingaleLevel: 3, sorosLevel: 0 }),
+    ];
+
+    expect(summarizeBacktestTrades(trades, 100)).toEqual({
+      wins: 3,
+      losses: 3,
+      winRate: 50,
+      maxDrawdown: 7.5, // pico 102.80 -> vale 95.30
+      maxDrawdownPercent: 7.3,
+      maxMartingaleDepth: 3,
+      martingaleDepthHits: { 1: 1, 2: 1, 3: 1 },
+      maxSorosLevel: 1,
+      sorosLevelsHit: { 1: 1 },
+    });
+    expect(trades[0]).toMatchObject({ martingaleLevel: 0, sorosLevel: 0 });
+  });
+
+  it('sem nível no estado usa as perdas consecutivas anteriores', () => {
+    const trades = [
+      trade('LOST', 1, -1, 99),
+      trade('LOST', 2, -2, 97),
+      trade('WON', 4, 3.8, 100.8),
+      trade('WON', 1, 0.95, 101.75),
+    ];
+
+    const stats = summarizeBacktestTrades(trades, 100);
+    expect(trades.map((t) => t.martingaleLevel)).toEqual([0, 1, 2, 0]);
+    expect(stats.martingaleDepthHits).toEqual({ 1: 1, 2: 1 });
+    expect(stats.maxDrawdown).toBe(3);
+    expect(stats.maxDrawdownPercent).toBe(3);
+    expect(summarizeBacktestTrades([], 100)).toMatchObject({
+      winRate: 0,
+      maxDrawdown: 0,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { BacktestReport, BacktestTrade } from './backtest.types';
+
+export interface StrategyLevels {
+  martingaleLevel: number | null; // null: a estratégia não expõe o nível no estado
+  sorosLevel: number;
+}
+
+export type BacktestTradeStats = Pick<
+  BacktestReport,
+  | 'wins'
+  | 'losses'
+  | 'winRate'
+  | 'maxDrawdown'
+  | 'maxDrawdownPercent'
+  | 'maxMartingaleDepth'
+  | 'martingaleDepthHits'
+  | 'maxSorosLevel'
+  | 'sorosLevelsHit'
+>;
+
+/** Campos de getUserState que indicam martingale e Soros, conforme a estratégia. */
+export interface StrategyLevelState {
+  consecutiveLosses?: number;
+  martingaleStep?: number;
+  consecutiveWins?: number;
+  lastResultWin?: boolean;
+  skipSorosNext?: boolean;
+  sorosActive?: boolean;
+  isInSoros?: boolean;
+  vitoriasConsecutivas?: number;
+}
+
+const asLevel = (value: unknown): number | null =>
+  typeof value === 'number' && value >= 0 ? value : null;
+
+/**
+ * Níveis de martingale e Soros vigentes no estado da estratégia (getUserState) no momento da compra.
+ * Cada estratégia guarda isso com nomes próprios:
+ * - martingale: consecutiveLosses (Atlas, Apollo) ou martingaleStep (Orion). Titan e Nexus
+ *   contam as perdas no RiskManager, fora do estado (null).
+ * - Soros (nível 1): sorosActive (Titan), isInSoros (Atlas), segunda vitória seguida sem
+ *   skipSorosNext (Apollo) ou vitoriasConsecutivas (Orion e Nexus, zerado ao fechar o ciclo).
+ */
+export function readStrategyLevels(
+  state: StrategyLevelState | null | undefined,
+): StrategyLevels {
+  if (!state) return { martingaleLevel: null, sorosLevel: 0 };
+
+  const martingaleLevel =
+    asLevel(state.consecutiveLosses) ?? asLevel(state.martingaleStep);
+  if (martingaleLevel) return { martingaleLevel, sorosLevel: 0 };
+
+  let sorosLevel: number;
+  if (typeof state.sorosActive === 'boolean') {
+    sorosLevel = state.sorosActive ? 1 : 0;
+  } else if (typeof state.isInSoros === 'boolean') {
+    sorosLevel = state.isInSoros ? 1 : 0;
+  } else if (typeof state.skipSorosNext === 'boolean') {
+    sorosLevel =
+      state.lastResultWin && !state.skipSorosNext && state.consecutiveWins === 2
+        ? 1
+        : 0;
+  } else {
+    sorosLevel = asLevel(state.vitoriasConsecutivas) ?? 0;
+  }
+
+  return { martingaleLevel, sorosLevel };
+}
+
+/**
+ * Estatísticas do relatório a partir das operações liquidadas (em ordem de liquidação).
+ * Operações sem nível de martingale registrado usam as perdas consecutivas anteriores.
+ */
+export function summarizeBacktestTrades(
+  trades: BacktestTrade[],
+  initialBalance: number,
+): BacktestTradeStats {
+  let wins = 0;
+  let losses = 0;
+  let lossStreak = 0;
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  const martingaleDepthHits: Record<number, number> = {};
+  const sorosLevelsHit: Record<number, number> = {};
+
+  for (const trade of trades) {
+    trade.martingaleLevel ??= lossStreak;
+    trade.sorosLevel ??= 0;
+    if (trade.martingaleLevel > 0) {
+      martingaleDepthHits[trade.martingaleLevel] =
+        (martingaleDepthHits[trade.martingaleLevel] || 0) + 1;
+    }
+    if (trade.sorosLevel > 0) {
+      sorosLevelsHit[trade.sorosLevel] =
+        (sorosLevelsHit[trade.sorosLevel] || 0) + 1;
+    }
+
+    if (trade.status === 'WON') {
+      wins++;
+      lossStreak = 0;
+    } else {
+      losses++;
+      lossStreak++;
+    }
+
+    if (trade.balanceAfter > peak) peak = trade.balanceAfter;
+    const drawdown = peak - trade.balanceAfter;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const maxLevel = (hits: Record<number, number>) =>
+    Object.keys(hits).reduce((max, level) => Math.max(max, Number(level)), 0);
+
+  return {
+    wins,
+    losses,
+    winRate: trades.length > 0 ? round((wins / trades.length) * 100) : 0,
+    maxDrawdown: round(maxDrawdown),
+    maxDrawdownPercent: round(maxDrawdownPercent),
+    maxMartingaleDepth: maxLevel(martingaleDepthHits),
+    martingaleDepthHits,
+    maxSorosLevel: maxLevel(sorosLevelsHit),
+    sorosLevelsHit,
+  };
+}
@@ -0,0 +1,355 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { Tick } from '../ai.service';
+import { IStrategy } from '../strategies/common.types';
+import { TradeEventsService } from '../trade-events.service';
+import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { IBrokerGateway } from '../../broker/broker-gateway.types';
+import { buildTick } from '../../utils/tick.utils';
+import { StrategyRegistryService } from '../../strategies/registry/strategy-registry.service';
+import { SimulatedBroker } from './simulated-broker';
+import { readStrategyLevels, summarizeBacktestTrades } from './backtest-report';
+import {
+  BacktestOptions,
+  BacktestReport,
+  BacktestTrade,
+} from './backtest.types';
+
+type StrategyConstructor = new (
+  dataSource: DataSource,
+  tradeEvents: TradeEventsService,
+  copyTradingService: CopyTradingService,
+  brokerGateway: IBrokerGateway,
+) => IStrategy;
+
+export const MAX_BACKTEST_TICKS = 100000;
+
+interface BacktestSession {
+  initialBalance: number;
+  profitTarget: number;
+  lossLimit: number;
+  stopLossBlindado: boolean;
+  active: boolean;
+  stopReason: string | null;
+}
+
+/**
+ * DataSource em memória: INSERTs recebem um insertId sequencial, a linha de
+ * ai_user_config é emulada a partir da corretora simulada (as estratégias
+ * reconferem limites no "banco" antes de cada entrada) e os demais SELECTs
+ * retornam vazio.
+ */
+class BacktestDataSource {
+  private insertSeq = 0;
+
+  constructor(
+    private readonly session: BacktestSession,
+    private readonly broker: SimulatedBroker,
+  ) {}
+
+  query(sql: string, params: any[] = []): Promise<any> {
+    return Promise.resolve(this.execute(sql, params));
+  }
+
+  private execute(sql: string, params: any[]): any {
+    if (/^\s*INSERT/i.test(sql)) {
+      return { insertId: ++this.insertSeq, affectedRows: 1 };
+    }
+
+    const touchesConfig = /ai_user_config/i.test(sql);
+    if (/^\s*UPDATE/i.test(sql)) {
+      if (touchesConfig && /is_active\s*=\s*0/i.test(sql)) {
+        this.session.active = false;
+        const literal = sql.match(/session_status\s*=\s*'([a-z_]+)'/i)?.[1];
+        const param = params.find(
+          (p) => typeof p === 'string' && p.startsWith('stopped_'),
+        );
+        this.session.stopReason =
+          this.session.stopReason || literal || param || 'stopped';
+      }
+      return { affectedRows: touchesConfig ? 1 : 0 };
+    }
+
+    if (/^\s*SELECT/i.test(sql) && touchesConfig && this.session.active) {
+      return [this.buildConfigRow()];
+    }
+    return [];
+  }
+
+  private buildConfigRow() {
+    const { initialBalance, profitTarget, lossLimit, stopLossBlindado } =
+      this.session;
+    const sessionBalance = this.broker.getRealizedProfit();
+    const profitPeak = this.broker.getProfitPeak();
+    const stopBlindadoPercent = stopLossBlindado ? 50 : null;
+
+    return {
+      lossLimit,
+      profitTarget,
+      sessionBalance,
+      capitalInicial: initialBalance,
+      profitPeak,
+      stopBlindadoPercent,
+      isMasterTrader: 0,
+      loss_limit: lossLimit,
+      profit_target: profitTarget,
+      session_balance: sessionBalance,
+      stake_amount: initialBalance,
+      profit_peak: profitPeak,
+      stop_blindado_percent: stopBlindadoPercent,
+      is_active: 1,
+    };
+  }
+}
+
+/**
+ * ✅ Backtest offline das estratégias de IA
+ * - Instancia uma cópia isolada da estratégia (sem DB, sem copy trading, sem Deriv).
+ * - Reproduz a série de ticks gravada e liquida os contratos pela SimulatedBroker.
+ * - Intervalos em segundos (Moderado/Atlas) seguem o epoch dos ticks via advanceStrategyClock.
+ */
+@Injectable()
+export class BacktestService {
+  private readonly logger = new Logger(BacktestService.name);
+
+  constructor(private readonly strategyRegistry: StrategyRegistryService) {}
+
+  async run(options: BacktestOptions): Promise<BacktestReport> {
+    const startedAt = Date.now();
+    const registered = this.strategyRegistry.getStrategy(
+      'ai',
+      options.strategy,
+    );
+    if (!registered) {
+      throw new BadRequestException(
+        `Estratégia '${options.strategy}' não encontrada. Disponíveis: ${this.strategyRegistry.getStrategyNames('ai').join(', ')}`,
+      );
+    }
+
+    const strategyName = registered.metadata.name;
+    // Mercado padrão: primeiro símbolo declarado no @RegisterStrategy
+    const symbol = options.symbol || registered.metadata.symbols[0];
+    const mode = options.mode || 'veloz';
+    const modoMartingale = options.modoMartingale || 'conservador';
+    const currency = options.currency || 'USD';
+    const entryValue = options.entryValue || 0.35;
+    const userId = `backtest-${randomUUID()}`;
+    const ticks = options.ticks.map((tick) =>
+      tick.digit !== undefined && tick.parity
+        ? (tick as Tick)
+        : buildTick(Number(tick.value), Number(tick.epoch), symbol),
+    );
+
+    const broker = new SimulatedBroker(
+      options.initialBalance,
+      symbol,
+      currency,
+      options.payouts,
+    );
+    const session: BacktestSession = {
+      initialBalance: options.initialBalance,
+      profitTarget: options.profitTarget || 0,
+      lossLimit: options.lossLimit || 0,
+      stopLossBlindado: options.stopLossBlindado !== false,
+      active: true,
+      stopReason: null,
+    };
+    const stopEvents: string[] = [];
+    const strategy = this.createSandboxedStrategy(
+      registered.strategyClass as StrategyConstructor,
+      broker,
+      session,
+      stopEvents,
+    );
+    broker.setLevelProbe(() =>
+      readStrategyLevels(strategy.getUserState(userId)),
+    );
+
+    await strategy.initialize();
+    await strategy.activateUser(userId, {
+      mode,
+      stakeAmount: options.initialBalance,
+      entryValue,
+      derivToken: `backtest-token-${userId}`,
+      currency,
+      modoMartingale,
+      profitTarget: options.profitTarget,
+      lossLimit: options.lossLimit,
+      stopLossBlindado: options.stopLossBlindado,
+      useBlindado: options.stopLossBlindado,
+      symbol,
+    });
+
+    this.logger.log(
+      `[Backtest] ▶️ ${strategyName.toUpperCase()} | ${symbol} | Modo: ${mode} | Ticks: ${ticks.length}`,
+    );
+
+    const pending = new Set<Promise<void>>();
+    let ticksProcessed = 0;
+
+    let previousTick: Tick | null = null;
+    let previousWallTime = Date.now();
+
+    for (const tick of ticks) {
+      if (!session.active || !this.isUserActive(strategy, userId)) break;
+
+      // Relógio virtual: envelhecer os timestamps do estado pelo tempo entre ticks
+      const wallTime = Date.now();
+      if (previousTick) {
+        const tickElapsedMs = (tick.epoch - previousTick.epoch) * 1000;
+        const wallElapsedMs = wallTime - previousWallTime;
+        this.advanceStrategyClock(
+          strategy.getUserState(userId),
+          tickElapsedMs - wallElapsedMs,
+        );
+      }
+      previousTick = tick;
+      previousWallTime = wallTime;
+
+      broker.onTick(tick);
+      await this.drain();
+
+      const processing = strategy.processTick(tick, symbol).catch((error) => {
+        this.logger.error(
+          `[Backtest] Erro ao processar tick: ${error.message}`,
+        );
+      });
+      pending.add(processing);
+      void processing.finally(() => pending.delete(processing));
+
+      // Se a estratégia comprou, o processTick fica aguardando a liquidação:
+      // seguimos alimentando ticks para a corretora simulada liquidar o contrato.
+      await Promise.race([processing, broker.waitForContractOpened()]);
+      await this.drain();
+      ticksProcessed++;
+    }
+
+    // Aguardar operações que já foram liquidadas terminarem seu pós-processamento
+    if (!broker.hasOpenContracts()) {
+      await Promise.all(Array.from(pending));
+    }
+
+    await strategy.deactivateUser(userId).catch(() => undefined);
+
+    const report = this.buildReport({
+      options,
+      symbol,
+      mode,
+      modoMartingale,
+      ticksProcessed,
+      broker,
+      stopReason: stopEvents[0] || session.stopReason,
+      durationMs: Date.now() - startedAt,
+    });
+
+    this.logger.log(
+      `[Backtest] ⏹️ ${strategyName.toUpperCase()} | Trades: ${report.totalTrades} | Win rate: ${report.winRate}% | Lucro: ${report.netProfit}`,
+    );
+
+    return report;
+  }
+
+  private createSandboxedStrategy(
+    StrategyClass: StrategyConstructor,
+    broker: SimulatedBroker,
+    session: BacktestSession,
+    stopEvents: string[],
+  ): IStrategy {
+    const tradeEvents = new TradeEventsService();
+    const originalEmit = tradeEvents.emit.bind(tradeEvents);
+    tradeEvents.emit = (event) => {
+      if (event.type.startsWith('stopped_')) stopEvents.push(event.type);
+      originalEmit(event);
+    };
+
+    // Replicação para copiadores é desligada no backtest
+    const copyTradingStub = new Proxy({} as CopyTradingService, {
+      get: () => () => Promise.resolve(undefined),
+    });
+
+    // Todas as estratégias compram via BrokerGateway: injetar a corretora simulada
+    return new StrategyClass(
+      new BacktestDataSource(session, broker) as unknown as DataSource,
+      tradeEvents,
+      copyTradingStub,
+      broker,
+    );
+  }
+
+  private isUserActive(strategy: IStrategy, userId: string): boolean {
+    const state = strategy.getUserState(userId);
+    return !!state && !state.isStopped;
+  }
+
+  /**
+   * As estratégias controlam intervalos/pausas com Date.now(). Como o backtest
+   * reproduz a série mais rápido que o tempo real, os campos de tempo do estado
+   * (Date ou epoch em ms: lastOperationTimestamp, creationCooldownUntil,
+   * pauseUntilTs...) são deslocados para o passado pelo tempo decorrido entre ticks.
+   */
+  private advanceStrategyClock(state: any, shiftMs: number): void {
+    if (!state || shiftMs <= 0) return;
+
+    for (const key of Object.keys(state)) {
+      const value = state[key];
+      if (value instanceof Date) {
+        state[key] = new Date(value.getTime() - shiftMs);
+      } else if (
+        typeof value === 'number' &&
+        value > 1e12 &&
+        /(Ts|Until|Timestamp|Time|At)$/.test(key)
+      ) {
+        state[key] = value - shiftMs;
+      }
+    }
+  }
+
+  /**
+   * Libera a fila de microtasks/IO para a estratégia reagir à liquidação.
+   */
+  private drain(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  private buildReport(params: {
+    options: BacktestOptions;
+    symbol: string;
+    mode: string;
+    modoMartingale: BacktestReport['modoMartingale'];
+    ticksProcessed: number;
+    broker: SimulatedBroker;
+    stopReason: string | null;
+    durationMs: number;
+  }): BacktestReport {
+    const { options, broker } = params;
+    const trades: BacktestTrade[] = broker
+      .getSettledTrades()
+      .map((t) => ({ ...t }));
+    const initialBalance = options.initialBalance;
+    const stats = summarizeBacktestTrades(trades, initialBalance);
+
+    const finalBalance = broker.getBalance();
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      strategy: options.strategy,
+      symbol: params.symbol,
+      mode: params.mode,
+      modoMartingale: params.modoMartingale,
+      ticksProcessed: params.ticksProcessed,
+      startEpoch: options.ticks[0]?.epoch ?? null,
+      endEpoch:
+        options.ticks[Math.max(params.ticksProcessed - 1, 0)]?.epoch ?? null,
+      initialBalance,
+      finalBalance: round(finalBalance),
+      netProfit: round(finalBalance - initialBalance),
+      totalTrades: trades.length,
+      ...stats,
+      stopReason: params.stopReason,
+      openContracts: broker.getOpenContractsCount(),
+      durationMs: params.durationMs,
+      trades: options.includeTrades ? trades : undefined,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { Tick } from '../ai.service';
+import { ModoMartingale } from '../strategies/common.types';
+
+export interface BacktestOptions {
+  strategy: string; // Nome registrado via @RegisterStrategy({ kind: 'ai' })
+  symbol?: string;
+  ticks: Array<Pick<Tick, 'value' | 'epoch'> & Partial<Tick>>; // Dígito/paridade recalculados quando ausentes
+  mode?: string;
+  modoMartingale?: ModoMartingale;
+  initialBalance: number;
+  entryValue?: number;
+  profitTarget?: number;
+  lossLimit?: number;
+  stopLossBlindado?: boolean;
+  currency?: string;
+  payouts?: Record<string, number>; // Sobrescreve o payout simulado por tipo de contrato
+  includeTrades?: boolean;
+}
+
+export interface BacktestTrade {
+  contractId: string;
+  contractType: string;
+  barrier?: string | number;
+  stake: number;
+  profit: number;
+  status: 'WON' | 'LOST';
+  entrySpot: number;
+  exitSpot: number;
+  exitDigit: number;
+  buyEpoch: number;
+  sellEpoch: number;
+  balanceAfter: number;
+  martingaleLevel?: number; // Nível de martingale no estado da estratégia na compra (sem ele, perdas consecutivas anteriores)
+  sorosLevel?: number; // Nível de Soros no estado da estratégia na compra (0 = não aplicado)
+}
+
+export interface BacktestReport {
+  strategy: string;
+  symbol: string;
+  mode: string;
+  modoMartingale: ModoMartingale;
+  ticksProcessed: number;
+  startEpoch: number | null;
+  endEpoch: number | null;
+  initialBalance: number;
+  finalBalance: number;
+  netProfit: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  maxMartingaleDepth: number;
+  martingaleDepthHits: Record<number, number>;
+  maxSorosLevel: number;
+  sorosLevelsHit: Record<number, number>;
+  stopReason: string | null;
+  openContracts: number;
+  durationMs: number;
+  trades?: BacktestTrade[];
+}
@@ -0,0 +1,136 @@
+import { buildTick } from '../../utils/tick.utils';
+import { SimulatedBroker } from './simulated-broker';
+
+interface ProposalResponse {
+  proposal: { id: string; payout: number };
+}
+
+interface BuyResponse {
+  buy: { contract_id: string; payout: number };
+}
+
+interface ErrorResponse {
+  msg_type: string;
+  error: { code: string };
+}
+
+describe('SimulatedBroker', () => {
+  const symbol = 'R_100';
+  let epoch: number;
+  const tick = (value: number) => buildTick(value, ++epoch, symbol);
+
+  beforeEach(() => {
+    epoch = 1700000000;
+  });
+
+  it('liquida contratos de dígito no tick seguinte à compra com o payout da proposta', async () => {
+    const broker = new SimulatedBroker(100, symbol);
+    const connection = await broker.getConnection();
+    broker.setLevelProbe(() => ({ martingaleLevel: 2, sorosLevel: 0 }));
+    broker.onTick(tick(1000.11));
+
+    const { proposal } = (await connection.sendRequest({
+      proposal: 1,
+      amount: 10,
+      contract_type: 'DIGITEVEN',
+      duration: 1,
+    })) as ProposalResponse;
+    // PAR/ÍMPAR: 5 dígitos vencedores com margem de 2.5% -> 95% de lucro
+    expect(proposal.payout).toBe(19.5);
+
+    const { buy } = (await connection.sendRequest({
+      buy: proposal.id,
+    })) as BuyResponse;
+    expect(buy).toMatchObject({
+      buy_price: 10,
+      payout: 19.5,
+      balance_after: 90,
+    });
+    expect(broker.getOpenContractsCount()).toBe(1);
+
+    const messages: { proposal_open_contract: { contract_id: string } }[] = [];
+    await connection.subscribe(
+      { proposal_open_contract: 1, contract_id: buy.contract_id },
+      (msg) => messages.push(msg as (typeof messages)[number]),
+      buy.contract_id,
+    );
+    broker.onTick(tick(1000.24)); // dígito 4: par
+
+    expect(broker.hasOpenContracts()).toBe(false);
+    expect(broker.getBalance()).toBe(109.5);
+    expect(broker.getRealizedProfit()).toBe(9.5);
+    expect(messages[0].proposal_open_contract).toMatchObject({
+      contract_id: buy.contract_id,
+      is_sold: 1,
+      status: 'won',
+      profit: 9.5,
+      sell_price: 19.5,
+    });
+    expect(broker.getSettledTrades()[0]).toMatchObject({
+      status: 'WON',
+      exitDigit: 4,
+      balanceAfter: 109.5,
+      martingaleLevel: 2,
+      sorosLevel: 0,
+    });
+  });
+
+  it('CALL com barreira relativa usa o primeiro tick após a compra como entrada', async () => {
+    const broker = new SimulatedBroker(50, symbol);
+    const connection = await broker.getConnection();
+    broker.onTick(tick(1000));
+
+    // Compra direta (buy: 1 + parameters), como o Titan faz
+    const { buy } = (await connection.sendRequest({
+      buy: 1,
+      price: 5,
+      parameters: {
+        amount: 5,
+        contract_type: 'CALL',
+        barrier: '+0.15',
+        duration: 1,
+      },
+    })) as BuyResponse;
+    expect(buy.payout).toBe(7.8); // barreira: 56% de lucro
+
+    broker.onTick(tick(1000.5)); // entrada
+    expect(broker.hasOpenContracts()).toBe(true);
+    broker.onTick(tick(1000.6)); // saída abaixo de 1000.65
+
+    expect(broker.getSettledTrades()[0]).toMatchObject({
+      status: 'LOST',
+      entrySpot: 1000.5,
+      exitSpot: 1000.6,
+      profit: -5,
+      balanceAfter: 45,
+    });
+    expect(broker.getProfitPeak()).toBe(0);
+  });
+
+  it('recusa stake inválida e saldo insuficiente', async () => {
+    const broker = new SimulatedBroker(3, symbol);
+    const connection = await broker.getConnection();
+    broker.onTick(tick(1000));
+
+    const invalid = (await connection.sendRequest({
+      buy: 1,
+      parameters: { amount: 0, contract_type: 'DIGITODD', duration: 1 },
+    })) as ErrorResponse;
+    expect(invalid).toMatchObject({
+      msg_type: 'buy',
+      error: { code: 'ContractBuyValidationError' },
+    });
+
+    const { proposal } = (await connection.sendRequest({
+      proposal: 1,
+      amount: 5,
+      contract_type: 'DIGITODD',
+      duration: 1,
+    })) as ProposalResponse;
+    const insufficient = (await connection.sendRequest({
+      buy: proposal.id,
+    })) as ErrorResponse;
+    expect(insufficient.error.code).toBe('InsufficientBalance');
+    expect(broker.getBalance()).toBe(3);
+  });
+});
@@ -0,0 +1,465 @@
+import { Tick } from '../ai.service';
+import {
+  BrokerConnection,
+  IBrokerGateway,
+} from '../../broker/broker-gateway.types';
+import { BacktestTrade } from './backtest.types';
+import { StrategyLevels } from './backtest-report';
+
+/**
+ * Payout (lucro por unidade de stake) usado quando a estratégia não informa um.
+ * Contratos de dígito usam a probabilidade real do dígito com margem de 2.5%,
+ * equivalente ao que a Deriv paga em PAR/ÍMPAR (~95%) e OVER 2 (~39%).
+ */
+const HOUSE_MARGIN = 0.975;
+const DEFAULT_BARRIER_PAYOUT = 0.56; // CALL/PUT com barreira (Nexus)
+const DEFAULT_RISE_FALL_PAYOUT = 0.95;
+
+interface SimulatedProposal {
+  id: string;
+  ask_price: number;
+  payout: number;
+  contract_type: string;
+  barrier?: string | number;
+  duration: number;
+  stake: number;
+  payoutRate: number;
+}
+
+interface OpenContract {
+  contractId: string;
+  contractType: string;
+  barrier?: string | number;
+  stake: number;
+  payout: number;
+  duration: number;
+  buyTickIndex: number;
+  buyEpoch: number;
+  entrySpot?: number;
+  levels?: StrategyLevels;
+}
+
+/**
+ * ✅ Corretora simulada para backtest
+ * - Implementa IBrokerGateway: as estratégias recebem a corretora simulada no lugar
+ *   do BrokerGateway (sendRequest / subscribe / removeSubscription).
+ * - Liquida contratos com os ticks posteriores à compra (duração em ticks).
+ * - Não faz nenhuma chamada de rede.
+ */
+export class SimulatedBroker implements IBrokerGateway {
+  private balance: number;
+  private contractSeq = 0;
+  private proposalSeq = 0;
+  private tickIndex = -1;
+  private ticks: Tick[] = [];
+  private proposals = new Map<string, SimulatedProposal>();
+  private openContracts = new Map<string, OpenContract>();
+  private subscriptions = new Map<string, (msg: any) => void>();
+  private settledTrades: BacktestTrade[] = [];
+  private realizedProfit = 0;
+  private profitPeak = 0;
+  private contractOpened: {
+    promise: Promise<void>;
+    resolve: () => void;
+  } | null = null;
+  private levelProbe: (() => StrategyLevels) | null = null;
+
+  constructor(
+    initialBalance: number,
+    private readonly symbol: string,
+    private readonly currency: string = 'USD',
+    private readonly payoutOverrides: Record<string, number> = {},
+  ) {
+    this.balance = initialBalance;
+  }
+
+  /**
+   * Conexão simulada; o token é ignorado (uma única conta por backtest).
+   */
+  getConnection(): Promise<BrokerConnection> {
+    return Promise.resolve({
+      currency: this.currency,
+      sendRequest: (payload: any) =>
+        Promise.resolve(this.handleRequest(payload)),
+      subscribe: (payload: any, callback: (msg: any) => void, subId: string) =>
+        Promise.resolve(this.handleSubscribe(payload, callback, subId)),
+      removeSubscription: (subId: string) => {
+        this.subscriptions.delete(String(subId));
+      },
+    });
+  }
+
+  releaseConnection(): void {
+    // Nada a liberar: não há conexão real
+  }
+
+  /**
+   * Lê os níveis de martingale/Soros da estratégia a cada compra (gravados na operação liquidada)
+   */
+  setLevelProbe(probe: () => StrategyLevels): void {
+    this.levelProbe = probe;
+  }
+
+  /**
+   * Avança o relógio da corretora e liquida os contratos que expiraram neste tick.
+   */
+  onTick(tick: Tick): void {
+    this.ticks.push(tick);
+    this.tickIndex++;
+
+    for (const contract of Array.from(this.openContracts.values())) {
+      const elapsed = this.tickIndex - contract.buyTickIndex;
+
+      // Entrada é sempre o primeiro tick após a compra (igual à Deriv)
+      if (elapsed === 1) {
+        contract.entrySpot = tick.value;
+      }
+
+      const isDigit = contract.contractType.startsWith('DIGIT');
+      const exitAt = isDigit ? contract.duration : contract.duration + 1;
+      if (elapsed >= exitAt) {
+        this.settle(contract, tick);
+      }
+    }
+  }
+
+  /**
+   * Resolve assim que a próxima compra for confirmada.
+   */
+  waitForContractOpened(): Promise<void> {
+    if (!this.contractOpened) {
+      let resolve: () => void = () => undefined;
+      const promise = new Promise<void>((r) => (resolve = r));
+      this.contractOpened = { promise, resolve };
+    }
+    return this.contractOpened.promise;
+  }
+
+  hasOpenContracts(): boolean {
+    return this.openContracts.size > 0;
+  }
+
+  getOpenContractsCount(): number {
+    return this.openContracts.size;
+  }
+
+  getBalance(): number {
+    return this.balance;
+  }
+
+  getRealizedProfit(): number {
+    return Math.round(this.realizedProfit * 100) / 100;
+  }
+
+  getProfitPeak(): number {
+    return Math.round(this.profitPeak * 100) / 100;
+  }
+
+  getSettledTrades(): BacktestTrade[] {
+    return this.settledTrades;
+  }
+
+  private handleRequest(payload: any): any {
+    if (payload.proposal) {
+      return this.createProposal(payload);
+    }
+
+    if (payload.buy) {
+      // Titan compra direto (buy: 1 + parameters), demais via proposal_id
+      let proposal: SimulatedProposal | undefined;
+      if (payload.buy === 1 && payload.parameters) {
+        const created = this.createProposal(payload.parameters);
+        if ('error' in created) {
+          return this.error('buy', created.error.code, created.error.message);
+        }
+        proposal = created.proposal;
+      } else {
+        proposal = this.proposals.get(String(payload.buy));
+      }
+
+      if (!proposal) {
+        return this.error(
+          'buy',
+          'InvalidContractProposal',
+          'Proposta não encontrada',
+        );
+      }
+      return this.buy(proposal);
+    }
+
+    if (payload.balance) {
+      return {
+        msg_type: 'balance',
+        balance: { balance: this.balance, currency: this.currency },
+      };
+    }
+
+    if (payload.authorize) {
+      return {
+        msg_type: 'authorize',
+        authorize: {
+          loginid: 'VRTC0000000',
+          currency: this.currency,
+          balance: this.balance,
+          is_virtual: 1,
+        },
+      };
+    }
+
+    const msgType =
+      Object.keys(payload).find((key) => key !== 'req_id') || 'unknown';
+    return { msg_type: msgType, echo_req: payload, [msgType]: 1 };
+  }
+
+  private createProposal(params: any) {
+    const stake = Number(params.amount);
+    if (!stake || stake <= 0 || isNaN(stake)) {
+      return this.error(
+        'proposal',
+        'ContractBuyValidationError',
+        'Stake inválida',
+      );
+    }
+
+    const id = `bt-proposal-${++this.proposalSeq}`;
+    const payoutRate = this.resolvePayout(params.contract_type, params.barrier);
+    const proposal: SimulatedProposal = {
+      id,
+      ask_price: stake,
+      payout: Math.round(stake * (1 + payoutRate) * 100) / 100,
+      contract_type: params.contract_type,
+      barrier: params.barrier,
+      duration: Number(params.duration) || 1,
+      stake,
+      payoutRate,
+    };
+    this.proposals.set(id, proposal);
+
+    return { msg_type: 'proposal', echo_req: params, proposal };
+  }
+
+  private buy(proposal: SimulatedProposal) {
+    if (proposal.stake > this.balance) {
+      return this.error(
+        'buy',
+        'InsufficientBalance',
+        `Your account balance (${this.balance.toFixed(2)} ${this.currency}) is insufficient to buy this contract (${proposal.stake.toFixed(2)}).`,
+      );
+    }
+
+    this.proposals.delete(proposal.id);
+    this.balance -= proposal.stake;
+
+    const contractId = String(1000000 + ++this.contractSeq);
+    const lastTick = this.ticks[this.ticks.length - 1];
+    this.openContracts.set(contractId, {
+      contractId,
+      contractType: proposal.contract_type,
+      barrier: proposal.barrier,
+      stake: proposal.stake,
+      payout: proposal.payoutRate,
+      duration: proposal.duration,
+      buyTickIndex: this.tickIndex,
+      buyEpoch: lastTick?.epoch ?? 0,
+      levels: this.levelProbe?.(),
+    });
+
+    if (this.contractOpened) {
+      this.contractOpened.resolve();
+      this.contractOpened = null;
+    }
+
+    return {
+      msg_type: 'buy',
+      buy: {
+        contract_id: contractId,
+        buy_price: proposal.stake,
+        price: proposal.stake,
+        payout: proposal.payout,
+        balance_after: this.balance,
+        longcode: `[BACKTEST] ${proposal.contract_type} ${this.symbol} (${proposal.duration}t)`,
+        start_time: lastTick?.epoch,
+      },
+    };
+  }
+
+  private handleSubscribe(
+    payload: any,
+    callback: (msg: any) => void,
+    subId: string,
+  ): void {
+    const contractId = String(payload.contract_id ?? subId);
+    this.subscriptions.set(String(subId), callback);
+
+    // Contrato já liquidado antes da inscrição: entregar o resultado imediatamente
+    const settled = this.settledTrades.find((t) => t.contractId === contractId);
+    if (settled) {
+      callback(this.toOpenContractMessage(settled));
+    }
+  }
+
+  private settle(contract: OpenContract, exitTick: Tick): void {
+    const entrySpot = contract.entrySpot ?? exitTick.value;
+    const won = this.isWinner(contract, entrySpot, exitTick);
+    const profit = won
+      ? Math.round(contract.stake * contract.payout * 100) / 100
+      : -contract.stake;
+
+    this.balance += contract.stake + profit;
+    this.realizedProfit += profit;
+    this.profitPeak = Math.max(this.profitPeak, this.realizedProfit);
+    this.openContracts.delete(contract.contractId);
+
+    const trade: BacktestTrade = {
+      contractId: contract.contractId,
+      contractType: contract.contractType,
+      barrier: contract.barrier,
+      stake: contract.stake,
+      profit,
+      status: won ? 'WON' : 'LOST',
+      entrySpot,
+      exitSpot: exitTick.value,
+      exitDigit: exitTick.digit,
+      buyEpoch: contract.buyEpoch,
+      sellEpoch: exitTick.epoch,
+      balanceAfter: Math.round(this.balance * 100) / 100,
+      martingaleLevel: contract.levels?.martingaleLevel ?? undefined,
+      sorosLevel: contract.levels?.sorosLevel,
+    };
+    this.settledTrades.push(trade);
+
+    const callback =
+      this.subscriptions.get(contract.contractId) ||
+      this.subscriptions.get(String(Number(contract.contractId)));
+    if (callback) {
+      callback(this.toOpenContractMessage(trade));
+    }
+  }
+
+  private isWinner(
+    contract: OpenContract,
+    entrySpot: number,
+    exitTick: Tick,
+  ): boolean {
+    const digit = exitTick.digit;
+    const barrierDigit = Number(contract.barrier);
+
+    switch (contract.contractType) {
+      case 'DIGITEVEN':
+        return digit % 2 === 0;
+      case 'DIGITODD':
+        return digit % 2 !== 0;
+      case 'DIGITOVER':
+        return digit > barrierDigit;
+      case 'DIGITUNDER':
+        return digit < barrierDigit;
+      case 'DIGITMATCH':
+        return digit === barrierDigit;
+      case 'DIGITDIFF':
+        return digit !== barrierDigit;
+      case 'CALL':
+      case 'CALLE':
+        return (
+          exitTick.value >
+            this.resolvePriceBarrier(contract.barrier, entrySpot) ||
+          (contract.contractType === 'CALLE' &&
+            exitTick.value ===
+              this.resolvePriceBarrier(contract.barrier, entrySpot))
+        );
+      case 'PUT':
+      case 'PUTE':
+        return (
+          exitTick.value <
+            this.resolvePriceBarrier(contract.barrier, entrySpot) ||
+          (contract.contractType === 'PUTE' &&
+            exitTick.value ===
+              this.resolvePriceBarrier(contract.barrier, entrySpot))
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Barreira relativa ("+0.15" / "-0.15") é somada ao spot de entrada; absoluta é usada como está.
+   */
+  private resolvePriceBarrier(
+    barrier: string | number | undefined,
+    entrySpot: number,
+  ): number {
+    if (barrier === undefined || barrier === null || barrier === '')
+      return entrySpot;
+    const raw = String(barrier);
+    const numeric = Number(raw);
+    if (isNaN(numeric)) return entrySpot;
+    return raw.startsWith('+') || raw.startsWith('-')
+      ? entrySpot + numeric
+      : numeric;
+  }
+
+  private resolvePayout(
+    contractType: string,
+    barrier?: string | number,
+  ): number {
+    if (this.payoutOverrides[contractType] !== undefined) {
+      return this.payoutOverrides[contractType];
+    }
+
+    const barrierDigit = Number(barrier);
+    let winningDigits: number | null = null;
+    switch (contractType) {
+      case 'DIGITEVEN':
+      case 'DIGITODD':
+        winningDigits = 5;
+        break;
+      case 'DIGITOVER':
+        winningDigits = 9 - barrierDigit;
+        break;
+      case 'DIGITUNDER':
+        winningDigits = barrierDigit;
+        break;
+      case 'DIGITMATCH':
+        winningDigits = 1;
+        break;
+      case 'DIGITDIFF':
+        winningDigits = 9;
+        break;
+    }
+
+    if (winningDigits !== null) {
+      if (isNaN(winningDigits) || winningDigits <= 0) return 0;
+      return (
+        Math.round(((10 / winningDigits) * HOUSE_MARGIN - 1) * 10000) / 10000
+      );
+    }
+
+    return barrier !== undefined && barrier !== null && barrier !== ''
+      ? DEFAULT_BARRIER_PAYOUT
+      : DEFAULT_RISE_FALL_PAYOUT;
+  }
+
+  private toOpenContractMessage(trade: BacktestTrade) {
+    return {
+      msg_type: 'proposal_open_contract',
+      proposal_open_contract: {
+        contract_id: trade.contractId,
+        contract_type: trade.contractType,
+        is_sold: 1,
+        status: trade.status === 'WON' ? 'won' : 'lost',
+        profit: trade.profit,
+        buy_price: trade.stake,
+        sell_price: trade.status === 'WON' ? trade.stake + trade.profit : 0,
+        entry_tick: trade.entrySpot,
+        entry_spot: trade.entrySpot,
+        exit_tick: trade.exitSpot,
+        exit_spot: trade.exitSpot,
+        current_spot: trade.exitSpot,
+        sell_time: trade.sellEpoch,
+      },
+    };
+  }
+
+  private error(msgType: string, code: string, message: string) {
+    return { msg_type: msgType, error: { code, message } };
+  }
+}
@@ -0,0 +1,80 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_BACKTEST_TICKS } from '../backtest/backtest.service';
+
+export class BacktestTickDto {
+  @IsNumber()
+  value: number;
+
+  @IsNumber()
+  epoch: number;
+}
+
+export class RunBacktestDto {
+  @IsString()
+  strategy: string;
+
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BACKTEST_TICKS)
+  @ValidateNested({ each: true })
+  @Type(() => BacktestTickDto)
+  ticks: BacktestTickDto[];
+
+  @IsOptional()
+  @IsString()
+  mode?: string;
+
+  @IsOptional()
+  @IsEnum(['conservador', 'moderado', 'agressivo'])
+  modoMartingale?: 'conservador' | 'moderado' | 'agressivo';
+
+  @IsNumber()
+  @Min(0.35)
+  initialBalance: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.35)
+  entryValue?: number;
+
+  @IsOptional()
+  @IsNumber()
+  profitTarget?: number;
+
+  @IsOptional()
+  @IsNumber()
+  lossLimit?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  stopLossBlindado?: boolean;
+
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @IsOptional()
+  @IsObject()
+  payouts?: Record<string, number>; // Ex: { "DIGITOVER": 0.35 }
+
+  @IsOptional()
+  @IsBoolean()
+  includeTrades?: boolean;
+}
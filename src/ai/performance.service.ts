@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
 
 export interface WeeklyStats {
     period: {
@@ -28,7 +29,10 @@ export interface WeeklyStats {
 export class PerformanceService {
     private readonly logger = new Logger(PerformanceService.name);
 
-    constructor(private readonly dataSource: DataSource) { }
+    constructor(
+        private readonly dataSource: DataSource,
+        private readonly tradeLedger: TradeLedgerService,
+    ) { }
 
     /**
      * Obtém estatísticas de desempenho da última semana para um usuário
@@ -44,54 +48,18 @@ export class PerformanceService {
         startDate.setDate(diff);
         startDate.setHours(0, 0, 0, 0);
 
-        const startDateStr = startDate.toISOString().split('T')[0];
-        const endDateStr = endDate.toISOString().split('T')[0];
-
         try {
-            // 1. IA Statistics (ai_trades)
-            const aiStats = await this.dataSource.query(`
-        SELECT SUM(profit_loss) as total
-        FROM ai_trades
-        WHERE user_id = ? 
-          AND status IN ('WON', 'LOST')
-          AND DATE(created_at) BETWEEN ? AND ?
-      `, [userId, startDateStr, endDateStr]);
-
-            // 2. Autonomous Agent Statistics (autonomous_agent_trades)
-            const agentStats = await this.dataSource.query(`
-        SELECT SUM(profit_loss) as total
-        FROM autonomous_agent_trades
-        WHERE user_id = ?
-          AND status IN ('WON', 'LOST')
-          AND DATE(created_at) BETWEEN ? AND ?
-      `, [userId, startDateStr, endDateStr]);
-
-            // 3. Copy Trading Statistics (copy_trading_operations)
-            const copyStats = await this.dataSource.query(`
-        SELECT SUM(profit) as total
-        FROM copy_trading_operations
-        WHERE user_id = ?
-          AND result IN ('win', 'loss')
-          AND DATE(executed_at) BETWEEN ? AND ?
-      `, [userId, startDateStr, endDateStr]);
-
-            // 4. Manual/Signal Statistics (trades)
-            const manualStats = await this.dataSource.query(`
-        SELECT SUM(profit) as total
-        FROM trades
-        WHERE user_id = ?
-          AND status IN ('won', 'lost')
-          AND DATE(created_at) BETWEEN ? AND ?
-      `, [userId, startDateStr, endDateStr]);
+            // 1. Lucro por produto (IA, agente, copy e manual) a partir do livro único de operações
+            const ledgerStats = await this.tradeLedger.getStats(userId, { from: startDate, to: endDate });
 
-            const aiProfit = parseFloat(aiStats[0]?.total) || 0;
-            const agentProfit = parseFloat(agentStats[0]?.total) || 0;
-            const copyProfit = parseFloat(copyStats[0]?.total) || 0;
-            const manualProfit = parseFloat(manualStats[0]?.total) || 0;
+            const aiProfit = ledgerStats.bySource.ai.profit;
+            const agentProfit = ledgerStats.bySource.agent.profit;
+            const copyProfit = ledgerStats.bySource.copy.profit;
+            const manualProfit = ledgerStats.bySource.manual.profit;
 
-            const netResult = aiProfit + agentProfit + copyProfit + manualProfit;
+            const netResult = ledgerStats.profit;
 
-            // 5. Weekly Balance History (user_balances) - Get the FIRST record of the week
+            // 2. Weekly Balance History (user_balances) - Get the FIRST record of the week
             // This is used to calculate the percentage accurately as requested
             const balanceHistory = await this.dataSource.query(`
                 SELECT real_balance, demo_balance, created_at
@@ -102,7 +70,7 @@ export class PerformanceService {
                 LIMIT 1
             `, [userId, startDate.toISOString(), endDate.toISOString()]);
 
-            // 6. Current Balance from user table
+            // 3. Current Balance from user table
             const currentUser = await this.dataSource.query(`
                 SELECT real_amount, demo_amount
                 FROM users
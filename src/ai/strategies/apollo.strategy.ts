@@ -1,9 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import { Tick } from '../ai.service';
-import { IStrategy, ModoMartingale } from './common.types';
+import { IStrategy, ModoMartingale, AI_STRATEGY_CONFIG_SCHEMA } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 import { TradeEventsService } from '../trade-events.service';
 import { formatCurrency } from '../../utils/currency.utils';
 
@@ -81,6 +85,16 @@ export interface ApolloUserState {
   processing?: boolean; // ✅ Concurrency Guard
 }
 
+@RegisterStrategy({
+  kind: 'ai',
+  name: 'apollo',
+  symbols: ['R_10', 'R_25', 'R_100', '1HZ10V'],
+  contractTypes: ['DIGITUNDER'],
+  configSchema: {
+    ...AI_STRATEGY_CONFIG_SCHEMA,
+    mode: { type: 'string', enum: ['veloz', 'normal', 'lento', 'preciso'], default: 'veloz' },
+  },
+})
 @Injectable()
 export class ApolloStrategy implements IStrategy {
   name = 'apollo';
@@ -91,18 +105,6 @@ export class ApolloStrategy implements IStrategy {
   private lastLogTimeNodes = new Map<string, number>(); // ✅ Heartbeat per symbol
   private lastRejectionLog = new Map<string, number>(); // ✅ Throttling for rejection logs
   private defaultSymbol = 'R_10';
-  private appId: string;
-
-  // WebSocket Pool
-  private wsConnections: Map<string, {
-    ws: WebSocket;
-    authorized: boolean;
-    authorizedCurrency: string | null;
-    keepAliveInterval: NodeJS.Timeout | null;
-    requestIdCounter: number;
-    pendingRequests: Map<number, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-    subscriptions: Map<string, (msg: any) => void>;
-  }> = new Map();
 
   // ============================================
   // 🎨 HELPERS DE LOG PADRÃO ZENIX v3.0 (APOLLO REFINED)
@@ -310,10 +312,10 @@ Status: Alta Escalabilidade`;
     private dataSource: DataSource,
     private tradeEvents: TradeEventsService,
     private readonly copyTradingService: CopyTradingService,
-
-  ) {
-    this.appId = process.env.DERIV_APP_ID || '111346';
-  }
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+    private readonly planPermissions?: PlanPermissionsService,
+    private readonly tradeLedger?: TradeLedgerService,
+  ) { }
 
   async initialize(): Promise<void> {
     this.logger.log('🛡️ [APOLLO] Oficial v1.0 Strategy Initialized (Price Action)');
@@ -685,7 +687,7 @@ Status: Alta Escalabilidade`;
         barrier: barrier,
         amount: stake,
         currency: state.currency || 'USD'
-      }, state.userId, async (contractId, entryPrice) => {
+      }, state.userId, async (contractId, entryPrice, buy) => {
         // ✅ [APOLLO] Master Trader Replication - IMMEDIATE (at entry)
         try {
           const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
@@ -717,21 +719,23 @@ Status: Alta Escalabilidade`;
 
             // 2. Chamar serviço de cópia para execução imediata
             if (this.copyTradingService) {
-              await this.copyTradingService.replicateManualOperation(
-                state.userId,
-                {
-                  contractId: contractId || '',
-                  contractType: contractType,
-                  symbol: state.symbol,
-                  duration: 1,
-                  durationUnit: 't',
-                  stakeAmount: stake,
-                  percent: percent,
-                  entrySpot: entryPrice || 0,
-                  entryTime: unixTimestamp,
-                  barrier: Number(barrier)
-                },
-              );
+              this.copyTradingService.replicateTradeToFollowers(state.userId, {
+                traderOperationId: String(tradeId),
+                contractId: contractId || '',
+                contractType: contractType,
+                symbol: state.symbol,
+                duration: 1,
+                durationUnit: 't',
+                barrier: Number(barrier),
+                stakeAmount: stake,
+                buyPrice: Number(buy.buy_price) || stake,
+                payout: Number(buy.payout) || null,
+                spot: entryPrice || null,
+                stakePercent: percent,
+                filledAt: new Date(unixTimestamp * 1000),
+              }).catch((error: any) => {
+                this.logger.error(`[APOLLO] Erro ao replicar operação para copiadores: ${error.message}`);
+              });
             }
           }
         } catch (repError) {
@@ -741,23 +745,6 @@ Status: Alta Escalabilidade`;
 
       if (result) {
         await this.processResult(state, result, stake, tradeId);
-
-        // ✅ [APOLLO] Master Trader Result Update
-        try {
-          const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
-          if (userMaster && userMaster.length > 0 && userMaster[0].trader_mestre === 1 && this.copyTradingService) {
-            const resMap = result.profit > 0 ? 'win' : 'loss';
-            await this.copyTradingService.updateCopyTradingOperationsResult(
-              state.userId,
-              result.contractId,
-              resMap,
-              result.profit,
-              stake
-            );
-          }
-        } catch (resError) {
-          this.logger.error(`[APOLLO] Erro ao atualizar resultados do Copy Trading:`, resError);
-        }
       } else {
         state.isOperationActive = false;
       }
@@ -783,6 +770,7 @@ Status: Alta Escalabilidade`;
         `UPDATE ai_trades SET status = ?, profit_loss = ?, exit_price = ?, closed_at = NOW() WHERE id = ?`,
         [win ? 'WON' : 'LOST', profit, result.exitSpot, tradeId]
       );
+      this.tradeLedger?.sync('ai', tradeId);
 
     } catch (e) { console.error(e); }
 
@@ -1223,7 +1211,9 @@ Ação: IA DESATIVADA`
     };
 
     this.users.set(userId, initialState);
-    this.getOrCreateWebSocketConnection(config.derivToken);
+    this.brokerGateway
+      .getConnection(config.derivToken, { owner: 'apollo', label: userId })
+      .catch((error) => this.logger.warn(`[APOLLO] ⚠️ Falha ao pré-aquecer conexão: ${error.message}`));
 
     // ✅ LOGS PADRONIZADOS V2
     this.logInitialConfigV2(
@@ -1238,7 +1228,13 @@ Ação: IA DESATIVADA`
   }
 
   async deactivateUser(userId: string): Promise<void> {
+    const token = this.users.get(userId)?.derivToken;
     this.users.delete(userId);
+
+    // ✅ Liberar a conexão no gateway quando nenhum usuário APOLLO usar mais o token
+    if (token && !Array.from(this.users.values()).some((state) => state.derivToken === token)) {
+      this.brokerGateway.releaseConnection(token, 'apollo');
+    }
   }
 
   getUserState(userId: string) { return this.users.get(userId); }
@@ -1287,6 +1283,7 @@ Ação: IA DESATIVADA`
         [state.userId, direction, 0, stake, 'PENDING', 1, `Apollo Digit - ${direction}`, direction, JSON.stringify(analysisData), state.symbol, 'apollo']
       );
       const tradeId = result.insertId;
+      this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
       return tradeId;
     } catch (e) {
       this.logger.error(`[APOLLO] DB Insert Error: ${e}`);
@@ -1301,9 +1298,25 @@ Ação: IA DESATIVADA`
     token: string,
     params: any,
     userId: string,
-    onBuy?: (contractId: string, entryPrice: number) => Promise<void>
+    onBuy?: (contractId: string, entryPrice: number, buy: { buy_price: number; payout: number }) => Promise<void>
   ): Promise<{ contractId: string, profit: number, exitSpot: any, entrySpot: any } | null> {
-    const conn = await this.getOrCreateWebSocketConnection(token);
+    // ✅ Limites do plano no momento da operação
+    const planBlock = await this.planPermissions?.checkTrade(userId, {
+      product: 'ai',
+      stake: params.amount,
+      symbol: this.users.get(userId)?.symbol || this.defaultSymbol,
+    });
+    if (planBlock) {
+      this.saveLog(userId, 'alerta', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+      return null;
+    }
+
+    const conn = await this.brokerGateway
+      .getConnection(token, { owner: 'apollo', label: userId })
+      .catch((error) => {
+        this.logger.error(`[APOLLO] ❌ Falha fatal ao criar conexão: ${error.message}`);
+        return null;
+      });
     if (!conn) {
       this.saveLog(userId, 'erro', `Falha ao conectar na Deriv (Timeout ou Auth). Verifique logs do sistema.`);
       return null;
@@ -1440,7 +1453,7 @@ Ação: IA DESATIVADA`
 
       // ✅ Chamar callback onBuy IMEDIATAMENTE (Replication)
       if (onBuy) {
-        onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price).catch(err => {
+        onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price, buyResponse.buy).catch(err => {
           this.logger.error(`[APOLLO] Erro no callback onBuy: ${err.message}`);
         });
       }
@@ -1518,299 +1531,4 @@ Ação: IA DESATIVADA`
       return null;
     }
   }
-
-  /**
-   * ✅ APOLLO (Refatorado): Obtém ou cria conexão WebSocket reutilizável por token
-   * Mantém uma conexão por token para evitar criar nova conexão a cada trade
-   */
-  private async getOrCreateWebSocketConnection(token: string, userId?: string): Promise<{
-    ws: WebSocket;
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  } | null> {
-    // ✅ Verificar se já existe conexão ativa para este token
-    const existing = this.wsConnections.get(token);
-
-    // ✅ Logs de diagnóstico
-    this.logger.debug(`[APOLLO] 🔍 [${userId || 'SYSTEM'}] Verificando conexão existente para token ${token.substring(0, 8)}...`);
-
-    if (existing) {
-      const readyState = existing.ws.readyState;
-      const readyStateText = readyState === WebSocket.OPEN ? 'OPEN' :
-        readyState === WebSocket.CONNECTING ? 'CONNECTING' :
-          readyState === WebSocket.CLOSING ? 'CLOSING' :
-            readyState === WebSocket.CLOSED ? 'CLOSED' : 'UNKNOWN';
-
-      this.logger.debug(`[APOLLO]  [${userId || 'SYSTEM'}] Conexão encontrada: readyState=${readyStateText}, authorized=${existing.authorized}`);
-
-      if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-        this.logger.debug(`[APOLLO] ♻️ [${userId || 'SYSTEM'}] ✅ Reutilizando conexão WebSocket existente`);
-
-        return {
-          ws: existing.ws,
-          sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-          subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-            this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-          removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-      } else {
-        this.logger.warn(`[APOLLO] ⚠️ [${userId || 'SYSTEM'}] Conexão existente não está pronta. Fechando e recriando.`);
-        if (existing.keepAliveInterval) {
-          clearInterval(existing.keepAliveInterval);
-        }
-        try { existing.ws.close(); } catch (e) { }
-        this.wsConnections.delete(token);
-      }
-    }
-
-    // ✅ Criar nova conexão
-    this.logger.debug(`[APOLLO] 🔌 [${userId || 'SYSTEM'}] Criando nova conexão WebSocket para token`);
-    const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-
-    try {
-      const ws = await new Promise<WebSocket>((resolve, reject) => {
-        const socket = new WebSocket(endpoint, {
-          headers: { Origin: 'https://app.deriv.com' },
-        });
-
-        let authResolved = false;
-        const connectionTimeout = setTimeout(() => {
-          if (!authResolved) {
-            this.logger.error(`[APOLLO] ❌ [${userId || 'SYSTEM'}] Timeout na autorização após 20s. Estado: readyState=${socket.readyState}`);
-            try { socket.close(); } catch (e) { }
-            this.wsConnections.delete(token);
-            reject(new Error('Timeout ao conectar e autorizar WebSocket (20s)'));
-          }
-        }, 20000);
-
-        // ✅ Listener de mensagens para capturar autorização e outras respostas
-        socket.on('message', (data: any) => {
-          try {
-            const msg = JSON.parse(data.toString());
-
-            // ✅ Ignorar ping/pong
-            if (msg.msg_type === 'ping' || msg.msg_type === 'pong' || msg.ping || msg.pong) {
-              return;
-            }
-
-            const conn = this.wsConnections.get(token);
-            if (!conn) {
-              // Se conexão não existe (ex: durante auth ainda não foi adicionada ou foi removida), não faz nada.
-              // Mas durante o setup (dentro desta Promise), nós tratamos o auth especificamente aqui.
-            }
-
-            // ✅ Processar autorização (apenas durante inicialização)
-            if (msg.msg_type === 'authorize' && !authResolved) {
-              this.logger.debug(`[APOLLO] 🔐 [${userId || 'SYSTEM'}] Processando resposta de autorização...`);
-              authResolved = true;
-              clearTimeout(connectionTimeout);
-
-              if (msg.error || (msg.authorize && msg.authorize.error)) {
-                const errorMsg = msg.error?.message || msg.authorize?.error?.message || 'Erro desconhecido na autorização';
-                this.logger.error(`[APOLLO] ❌ [${userId || 'SYSTEM'}] Erro na autorização: ${errorMsg}`);
-                this.wsConnections.delete(token); // Limpar token inválido
-                reject(new Error(errorMsg));
-              } else {
-                this.logger.log(`[APOLLO] ✅ [${userId || 'SYSTEM'}] WebSocket Autorizado com Sucesso!`);
-                // Configurar Keep-Alive
-                const keepAlive = setInterval(() => {
-                  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ ping: 1 }));
-                }, 30000);
-
-                // Salvar conexão no pool
-                this.wsConnections.set(token, {
-                  ws: socket,
-                  authorized: true,
-                  authorizedCurrency: msg.authorize?.currency || null,
-                  pendingRequests: new Map(),
-                  subscriptions: new Map(),
-                  keepAliveInterval: keepAlive,
-                  requestIdCounter: 0
-                });
-
-                resolve(socket);
-              }
-              return;
-            }
-
-            // ✅ Roteamento normal de mensagens para conexões ativas
-            if (conn) {
-              // 1. Tentar casar com req_id se existir (Prioridade Alta)
-              const msgReqId = msg.req_id ? Number(msg.req_id) : null;
-              if (msgReqId !== null && conn.pendingRequests.has(msgReqId)) {
-                const pending = conn.pendingRequests.get(msgReqId);
-                if (pending) {
-                  clearTimeout(pending.timeout);
-                  conn.pendingRequests.delete(msgReqId);
-                  if (msg.error) pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                  else pending.resolve(msg);
-                }
-                return;
-              }
-
-              // Fallback legado (FIFO) - Menos seguro mas mantém compatibilidade para msgs sem req_id
-              if (msg.proposal || msg.buy || (msg.error && !msg.proposal_open_contract)) {
-                const firstKey = conn.pendingRequests.keys().next().value;
-                if (firstKey) {
-                  const pending = conn.pendingRequests.get(firstKey);
-                  if (pending) {
-                    clearTimeout(pending.timeout);
-                    conn.pendingRequests.delete(firstKey);
-                    if (msg.error) {
-                      pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                    } else {
-                      pending.resolve(msg);
-                    }
-                  }
-                  return;
-                }
-              }
-
-              // 3. Subscriptions (Proposal Open Contract, Ticks)
-              if (msg.proposal_open_contract) {
-                const id = msg.proposal_open_contract.contract_id;
-                const callback = conn.subscriptions.get(id);
-                if (callback) {
-                  callback(msg);
-                  return;
-                }
-              }
-              if (msg.tick) {
-                const id = msg.tick.id;
-                const callback = conn.subscriptions.get(id);
-                if (callback) callback(msg);
-              }
-            }
-
-          } catch (e) {
-            // JSON parse error or logic error
-          }
-        });
-
-        socket.on('error', (err) => {
-          if (!authResolved) {
-            clearTimeout(connectionTimeout);
-            reject(err);
-          }
-          this.logger.error(`[APOLLO] ❌ WS Error: ${err.message}`);
-        });
-
-        socket.on('close', () => {
-          this.logger.warn(`[APOLLO] 🔌 WS Closed`);
-          this.wsConnections.delete(token); // Limpar ao fechar
-        });
-
-        // Enviar Authorize logo após abrir
-        socket.on('open', () => {
-          this.logger.debug(`[APOLLO] 📤 [${userId || 'SYSTEM'}] Enviando solicitação de autorização...`);
-          socket.send(JSON.stringify({ authorize: token }));
-        });
-      });
-
-      return {
-        ws,
-        sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-        subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-          this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-        removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-      };
-
-    } catch (e) {
-      this.logger.error(`[APOLLO] ❌ Falha fatal ao criar conexão: ${e instanceof Error ? e.message : e}`);
-      return null;
-    }
-  }
-
-  /**
-   * ✅ Envia requisição via conexão existente
-   */
-  private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    return new Promise((resolve, reject) => {
-      // ✅ APOLLO: Usar req_id INTEIRO (1 a 2^31 - 1) para compliance com Deriv API
-      const requestId = ++conn.requestIdCounter;
-
-      const timeout = setTimeout(() => {
-        conn.pendingRequests.delete(requestId);
-        reject(new Error(`Timeout após ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      try {
-        const finalPayload = { ...payload, req_id: requestId };
-        conn.ws.send(JSON.stringify(finalPayload));
-      } catch (e) {
-        clearTimeout(timeout);
-        conn.pendingRequests.delete(requestId);
-        reject(e);
-      }
-    });
-  }
-
-  /**
-   * ✅ Inscreve-se para atualizações via conexão existente
-   */
-  private async subscribeViaConnection(
-    token: string,
-    payload: any,
-    callback: (msg: any) => void,
-    subId: string,
-    timeoutMs: number,
-  ): Promise<void> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    // ✅ Aguardar primeira resposta para confirmar subscription
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        conn.subscriptions.delete(subId);
-        reject(new Error(`Timeout ao inscrever ${subId}`));
-      }, timeoutMs);
-
-      // ✅ Callback wrapper que confirma subscription na primeira mensagem
-      const wrappedCallback = (msg: any) => {
-        // ✅ Primeira mensagem confirma subscription
-        if (msg.proposal_open_contract || msg.tick || msg.error) {
-          clearTimeout(timeout);
-          if (msg.error) {
-            conn.subscriptions.delete(subId);
-            reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-            return;
-          }
-          // ✅ Subscription confirmada, substituir por callback original
-          conn.subscriptions.set(subId, callback);
-          resolve();
-          // ✅ Chamar callback original com primeira mensagem
-          callback(msg);
-          return;
-        }
-        // ✅ Se não for primeira mensagem, já deve estar usando callback original (mas por segurança chamamos)
-        try { callback(msg); } catch (e) { }
-      };
-
-      conn.subscriptions.set(subId, wrappedCallback);
-      conn.ws.send(JSON.stringify(payload));
-    });
-  }
-
-  /**
-   * ✅ Remove subscription da conexão
-   */
-  private removeSubscriptionFromConnection(token: string, subId: string): void {
-    const conn = this.wsConnections.get(token);
-    if (conn) {
-      conn.subscriptions.delete(subId);
-      // Optional: Send forget request? 
-      // Deriv API 'forget' { forget: subId } if subId is stream ID. 
-      // Not strictly necessary for client-side cleanup but good for server resources.
-    }
-  }
 }
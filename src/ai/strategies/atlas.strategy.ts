@@ -1,11 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, BrokerGatewayError, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import { Tick, DigitParity, CONFIGS_MARTINGALE } from '../ai.service';
 import { TradeEventsService } from '../trade-events.service';
 
-import { IStrategy, ModeConfig, ATLAS_VELOZ_CONFIG, ATLAS_NORMAL_CONFIG, ATLAS_LENTO_CONFIG, ModoMartingale } from './common.types';
+import { IStrategy, ModeConfig, ATLAS_VELOZ_CONFIG, ATLAS_NORMAL_CONFIG, ATLAS_LENTO_CONFIG, ModoMartingale, AI_STRATEGY_CONFIG_SCHEMA } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 import { getMinStakeByCurrency, formatCurrency } from '../../utils/currency.utils';
 
 // ✅ [ZENIX v3.4] Suporte para moedas dinâmicas (BTC, etc)
@@ -117,6 +121,17 @@ export interface AtlasUserState {
   ultimaDirecaoOp?: string;
 }
 
+@RegisterStrategy({
+  kind: 'ai',
+  name: 'atlas',
+  symbols: ['R_50', 'R_10', 'R_25', 'R_100', '1HZ10V', '1HZ100V'],
+  contractTypes: ['DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'DIGITUNDER', 'CALL', 'PUT'],
+  configSchema: {
+    ...AI_STRATEGY_CONFIG_SCHEMA,
+    mode: { type: 'string', enum: ['veloz', 'normal', 'lento'], default: 'veloz' },
+  },
+  planFeatureFlag: 'atlas_ai',
+})
 @Injectable()
 export class AtlasStrategy implements IStrategy {
   name = 'atlas';
@@ -139,7 +154,6 @@ export class AtlasStrategy implements IStrategy {
       '1HZ100V': [],
     };
 
-  private appId: number;
   private maxTicks = 50; // ✅ ATLAS: Buffer menor para análise ultrarrápida
 
   // ✅ Sistema de logs (similar à Trinity)
@@ -154,30 +168,16 @@ export class AtlasStrategy implements IStrategy {
   private coletaLogsEnviados = new Map<string, Set<string>>();
   private intervaloLogsEnviados = new Map<string, boolean>();
 
-  // ✅ Pool de conexões WebSocket (reutilização)
-  private wsConnections: Map<
-    string,
-    {
-      ws: WebSocket;
-      authorized: boolean;
-      authorizedCurrency: string | null;
-      keepAliveInterval: NodeJS.Timeout | null;
-      requestIdCounter: number;
-      pendingRequests: Map<number, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-      subscriptions: Map<string, (msg: any) => void>;
-      lastLatency: number; // ✅ ATLAS: Rastrear latência
-    }
-  > = new Map();
   private lastActivationLog: Map<string, number> = new Map();
 
   constructor(
     private readonly dataSource: DataSource,
     private readonly tradeEvents: TradeEventsService,
     private readonly copyTradingService: CopyTradingService,
-
-  ) {
-    this.appId = Number(process.env.DERIV_APP_ID || 1089);
-  }
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+    private readonly planPermissions?: PlanPermissionsService,
+    private readonly tradeLedger?: TradeLedgerService,
+  ) { }
 
   async initialize(): Promise<void> {
     this.logger.log('[ATLAS] Estratégia ATLAS v2.0 (EHF) inicializada');
@@ -341,7 +341,13 @@ Status: Analisando padrões...`);
   }
 
   async deactivateUser(userId: string): Promise<void> {
+    const token = this.atlasUsers.get(userId)?.derivToken;
     this.atlasUsers.delete(userId);
+
+    // ✅ Liberar a conexão no gateway quando nenhum usuário ATLAS usar mais o token
+    if (token && !Array.from(this.atlasUsers.values()).some((state) => state.derivToken === token)) {
+      this.brokerGateway.releaseConnection(token, 'atlas');
+    }
     this.logger.log(`[ATLAS] Usuário ${userId} desativado`);
   }
 
@@ -881,6 +887,7 @@ Entrada: DIGIT OVER 2`
           stakeAmount,
           operation,
           mode: state.mode,
+          currency: state.currency,
         });
 
         // ✅ ATLAS v3.2: Alinhamento com Orion - Usar token do estado (já resolvido pelo AiService)
@@ -906,7 +913,7 @@ Entrada: DIGIT OVER 2`
             duration: 1,
             duration_unit: 't',
           },
-          async (contractId, entryPrice) => {
+          async (contractId, entryPrice, buy) => {
             // ✅ [ATLAS] Master Trader Replication - IMMEDIATE (at entry)
             try {
               const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
@@ -938,21 +945,23 @@ Entrada: DIGIT OVER 2`
 
                 // 2. Chamar serviço de cópia para execução imediata
                 if (this.copyTradingService) {
-                  await this.copyTradingService.replicateManualOperation(
-                    state.userId,
-                    {
-                      contractId: contractId || '',
-                      contractType: contractType,
-                      symbol: symbol,
-                      duration: 1,
-                      durationUnit: 't',
-                      stakeAmount: stakeAmount,
-                      percent: percent,
-                      entrySpot: entryPrice || 0,
-                      entryTime: unixTimestamp,
-                      barrier: (contractType === 'DIGITOVER' || contractType === 'DIGITUNDER') ? 3 : undefined,
-                    },
-                  );
+                  this.copyTradingService.replicateTradeToFollowers(state.userId, {
+                    traderOperationId: String(tradeId),
+                    contractId: contractId || '',
+                    contractType: contractType,
+                    symbol: symbol,
+                    duration: 1,
+                    durationUnit: 't',
+                    barrier: (contractType === 'DIGITOVER' || contractType === 'DIGITUNDER') ? 3 : undefined,
+                    stakeAmount: stakeAmount,
+                    buyPrice: Number(buy.buy_price) || stakeAmount,
+                    payout: Number(buy.payout) || null,
+                    spot: entryPrice || null,
+                    stakePercent: percent,
+                    filledAt: new Date(unixTimestamp * 1000),
+                  }).catch((error: any) => {
+                    this.logger.error(`[ATLAS] Erro ao replicar operação para copiadores: ${error.message}`);
+                  });
                 }
               }
             } catch (repError) {
@@ -983,25 +992,6 @@ Entrada: DIGIT OVER 2`
 
         await this.processAtlasResult(state, symbol, confirmedStatus === 'WON', stakeAmount, operation, profit, exitPrice, tradeId);
 
-        if (confirmedStatus === 'WON' || confirmedStatus === 'LOST') {
-          // ✅ [ATLAS] Master Trader Result Update
-          try {
-            const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
-            if (userMaster && userMaster.length > 0 && userMaster[0].trader_mestre === 1 && this.copyTradingService) {
-              const resMap = confirmedStatus === 'WON' ? 'win' : 'loss';
-              await this.copyTradingService.updateCopyTradingOperationsResult(
-                state.userId,
-                contractId,
-                resMap,
-                profit,
-                stakeAmount
-              );
-            }
-          } catch (resError) {
-            this.logger.error(`[ATLAS] Erro ao atualizar resultados do Copy Trading:`, resError);
-          }
-        }
-
 
       } catch (error) {
         this.logger.error(`[ATLAS][${symbol}] Erro ao executar operação (Interno):`, error);
@@ -1164,10 +1154,33 @@ Entrada: DIGIT OVER 2`
     symbol: 'R_10' | 'R_25' | 'R_50' | 'R_100' | '1HZ10V' | '1HZ100V',
     token: string,
     contractParams: any,
-    onBuy?: (contractId: string, entryPrice: number) => Promise<void>
+    onBuy?: (contractId: string, entryPrice: number, buy: { buy_price: number; payout: number }) => Promise<void>
   ): Promise<{ contractId: string; profit: number; exitSpot: any } | null> {
     try {
-      const connection = await this.getOrCreateWebSocketConnection(token, userId, symbol);
+      // ✅ Limites do plano no momento da operação
+      const planBlock = await this.planPermissions?.checkTrade(userId, {
+        product: 'ai',
+        stake: contractParams.amount,
+        symbol: symbol,
+      });
+      if (planBlock) {
+        this.saveAtlasLog(userId, symbol, 'alerta', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+        return null;
+      }
+
+      const connection = await this.brokerGateway
+        .getConnection(token, { owner: 'atlas', label: `${symbol}][${userId}` })
+        .catch((error: BrokerGatewayError) => {
+          if (error.code === 'AppIdInvalid' || error.message?.includes('app ID')) {
+            this.saveAtlasLog(
+              userId,
+              'SISTEMA',
+              'erro',
+              `❌ ERRO DE AUTENTICAÇÃO: Os tokens atuais não são válidos para o novo APP_ID configurado. Por favor, reconecte sua conta Deriv nas configurações para gerar novos tokens.`
+            );
+          }
+          throw error;
+        });
 
       const proposalStartTime = Date.now();
       // ✅ ATLAS: Para DIGITOVER/DIGITUNDER, é necessário o parâmetro barrier (dígito de comparação)
@@ -1177,7 +1190,7 @@ Entrada: DIGIT OVER 2`
         amount: contractParams.amount,
         basis: 'stake',
         contract_type: contractParams.contract_type,
-        currency: connection.authorizedCurrency || contractParams.currency || 'USD',
+        currency: connection.currency || contractParams.currency || 'USD',
         duration: 1,
         duration_unit: 't',
         symbol: contractParams.symbol,
@@ -1214,12 +1227,6 @@ Entrada: DIGIT OVER 2`
 
       const proposalDuration = Date.now() - proposalStartTime;
 
-      // ✅ ATLAS: Atualizar latência
-      const conn = this.wsConnections.get(token);
-      if (conn) {
-        conn.lastLatency = proposalDuration;
-      }
-
       const buyStartTime = Date.now();
       let buyResponse: any;
       try {
@@ -1249,11 +1256,11 @@ Entrada: DIGIT OVER 2`
         // Se o erro é de saldo insuficiente e o saldo reportado é muito baixo (< $1), 
         // provavelmente o token está apontando para a conta errada (Real vs Demo)
         if (isInsufficientBalance && reportedBalanceValue !== null && reportedBalanceValue < 1.00) {
-          this.logger.error(`[ATLAS][${symbol}] ⚠️ POSSÍVEL TOKEN MISMATCH: Esperava conta com saldo alto, mas API reportou ${formatCurrency(reportedBalanceValue, connection.authorizedCurrency || 'USD')}`);
+          this.logger.error(`[ATLAS][${symbol}] ⚠️ POSSÍVEL TOKEN MISMATCH: Esperava conta com saldo alto, mas API reportou ${formatCurrency(reportedBalanceValue, connection.currency || 'USD')}`);
           this.saveAtlasLog(userId, symbol, 'erro',
             `⚠️ ERRO DE CONFIGURAÇÃO DE CONTA\n` +
             `• O token salvo pode estar incorreto.\n` +
-            `• Saldo reportado: ${formatCurrency(reportedBalanceValue, connection.authorizedCurrency || 'USD')}\n` +
+            `• Saldo reportado: ${formatCurrency(reportedBalanceValue, connection.currency || 'USD')}\n` +
             `• SOLUÇÃO: Reconecte sua conta Deriv nas Configurações.`);
         } else {
           this.saveAtlasLog(userId, symbol, 'erro',
@@ -1284,7 +1291,7 @@ Entrada: DIGIT OVER 2`
 
       // ✅ Chamar callback onBuy IMEDIATAMENTE (Replication)
       if (onBuy) {
-        onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price).catch(err => {
+        onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price, buyResponse.buy).catch(err => {
           this.logger.error(`[ATLAS] Erro no callback onBuy: ${err.message}`);
         });
       }
@@ -1897,6 +1904,7 @@ Ação: IA DESATIVADA`
     stakeAmount: number;
     operation: 'OVER' | 'UNDER' | 'CALL' | 'PUT' | 'EVEN' | 'ODD';
     mode: string;
+    currency?: string;
   }): Promise<number | null> {
     try {
       const analysisData = {
@@ -1958,6 +1966,7 @@ Ação: IA DESATIVADA`
       const tradeId = result?.insertId || null;
 
       if (tradeId) {
+        this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(trade.currency));
 
 
         this.tradeEvents.emit({
@@ -2028,6 +2037,7 @@ Ação: IA DESATIVADA`
         `UPDATE ai_trades SET ${updates.join(', ')} WHERE id = ?`,
         values
       );
+      this.tradeLedger?.sync('ai', tradeId);
 
 
 
@@ -2535,295 +2545,6 @@ Status Final: ${summary.result.replace('_', ' ')}`;
     }
   }
 
-  /**
-   * ✅ ATLAS: Obtém ou cria conexão WebSocket reutilizável
-   */
-  private async getOrCreateWebSocketConnection(token: string, userId?: string, symbol?: string): Promise<{
-    ws: WebSocket;
-    authorizedCurrency: string | null;
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  }> {
-    const existing = this.wsConnections.get(token);
-    if (existing && existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-      return {
-        ws: existing.ws,
-        authorizedCurrency: existing.authorizedCurrency,
-        sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-        subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-          this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-        removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-      };
-    }
-
-    const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-    this.logger.log(`[ATLAS][${symbol || 'POOL'}] 🔌 Abrindo WebSocket reutilizável`);
-
-    const socket = new WebSocket(endpoint, {
-      headers: { Origin: 'https://app.deriv.com' },
-    });
-
-    let authResolved = false;
-    let connectionTimeout: NodeJS.Timeout | null = null;
-    let authPromiseResolve: (() => void) | null = null;
-    let authPromiseReject: ((error: Error) => void) | null = null;
-
-    const connInit = {
-      ws: socket,
-      authorized: false,
-      authorizedCurrency: null as string | null,
-      keepAliveInterval: null as NodeJS.Timeout | null,
-      requestIdCounter: 0,
-      pendingRequests: new Map(),
-      subscriptions: new Map(),
-      lastLatency: 0,
-    };
-    this.wsConnections.set(token, connInit);
-
-    // ✅ Promise para aguardar autorização
-    const authPromise = new Promise<void>((resolve, reject) => {
-      authPromiseResolve = resolve;
-      authPromiseReject = reject;
-    });
-
-    connectionTimeout = setTimeout(() => {
-      if (!authResolved) {
-        authResolved = true;
-        socket.close();
-        this.wsConnections.delete(token);
-        if (authPromiseReject) {
-          authPromiseReject(new Error('Timeout ao aguardar autorização'));
-        }
-      }
-    }, 30000);
-
-    socket.on('message', (data: Buffer) => {
-      try {
-        const msg = JSON.parse(data.toString());
-        const conn = this.wsConnections.get(token);
-        if (!conn) return;
-
-        if (msg.msg_type === 'authorize' && !authResolved) {
-          authResolved = true;
-          if (connectionTimeout) clearTimeout(connectionTimeout);
-
-          if (msg.error || (msg.authorize && msg.authorize.error)) {
-            const errorMsg = msg.error?.message || msg.authorize?.error?.message || 'Erro desconhecido';
-            const isAppIdError = errorMsg.includes('app ID') || msg.error?.code === 'AppIdInvalid';
-
-            if (isAppIdError) {
-              this.logger.error(`[ATLAS][${symbol || 'POOL'}] ❌ Token Inválido: O token não pertence ao APP_ID atual.`);
-              if (userId) {
-                this.saveAtlasLog(
-                  userId,
-                  'SISTEMA',
-                  'erro',
-                  `❌ ERRO DE AUTENTICAÇÃO: Os tokens atuais não são válidos para o novo APP_ID configurado. Por favor, reconecte sua conta Deriv nas configurações para gerar novos tokens.`
-                );
-              }
-            } else {
-              this.logger.error(`[ATLAS][${symbol || 'POOL'}] ❌ Erro na autorização: ${errorMsg}`);
-            }
-
-            socket.close();
-            this.wsConnections.delete(token);
-            if (authPromiseReject) {
-              authPromiseReject(new Error(errorMsg));
-            }
-            return;
-          }
-
-          conn.authorized = true;
-          conn.authorizedCurrency = msg.authorize?.currency || null;
-          this.logger.log(`[ATLAS][${symbol || 'POOL'}] ✅ Autorizado | Moeda: ${conn.authorizedCurrency}`);
-
-          conn.keepAliveInterval = setInterval(() => {
-            if (socket.readyState === WebSocket.OPEN) {
-              try {
-                socket.send(JSON.stringify({ ping: 1 }));
-              } catch {
-                // ignorar
-              }
-            }
-          }, 90000);
-
-          // ✅ Resolver promise de autorização
-          if (authPromiseResolve) {
-            authPromiseResolve();
-          }
-          return;
-        }
-
-        if (msg.proposal_open_contract) {
-          const contractId = msg.proposal_open_contract.contract_id;
-          if (contractId && conn.subscriptions.has(contractId)) {
-            const callback = conn.subscriptions.get(contractId)!;
-            callback(msg);
-            return;
-          }
-        }
-
-        // ✅ Processar respostas de requisições (ROTEAMENDO POR REQ_ID) - PRIORIDADE 2
-        const msgReqId = msg.req_id ? Number(msg.req_id) : null;
-        if (msgReqId !== null && conn.pendingRequests.has(msgReqId)) {
-          const pending = conn.pendingRequests.get(msgReqId);
-          if (pending) {
-            clearTimeout(pending.timeout);
-            conn.pendingRequests.delete(msgReqId);
-            if (msg.error) {
-              pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-            } else {
-              pending.resolve(msg);
-            }
-          }
-          return;
-        }
-
-        // ✅ FALLBACK: Processar por tipo se não tiver reqId (Apenas para garantir compatibilidade)
-        if (msg.proposal || msg.buy || (msg.error && !msg.proposal_open_contract)) {
-          const firstKey = conn.pendingRequests.keys().next().value;
-          if (firstKey) {
-            const pending = conn.pendingRequests.get(firstKey);
-            if (pending) {
-              clearTimeout(pending.timeout);
-              conn.pendingRequests.delete(firstKey);
-              if (msg.error) {
-                pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-              } else {
-                pending.resolve(msg);
-              }
-            }
-          }
-          return;
-        }
-      } catch {
-        // Ignorar erros de parse
-      }
-    });
-
-    socket.on('open', () => {
-      const conn = this.wsConnections.get(token)!;
-      socket.send(JSON.stringify({ authorize: token }));
-    });
-
-    socket.on('error', (error) => {
-      if (!authResolved) {
-        if (connectionTimeout) clearTimeout(connectionTimeout);
-        authResolved = true;
-        this.wsConnections.delete(token);
-        if (authPromiseReject) {
-          authPromiseReject(new Error(`Erro no WebSocket: ${error.message || 'Erro desconhecido'}`));
-        }
-      }
-    });
-
-    socket.on('close', () => {
-      const conn = this.wsConnections.get(token);
-      if (conn) {
-        if (conn.keepAliveInterval) clearInterval(conn.keepAliveInterval);
-        conn.pendingRequests.forEach((pending) => {
-          clearTimeout(pending.timeout);
-          pending.reject(new Error('WebSocket fechado'));
-        });
-        conn.subscriptions.clear();
-      }
-      this.wsConnections.delete(token);
-      if (!authResolved) {
-        if (connectionTimeout) clearTimeout(connectionTimeout);
-        authResolved = true;
-        if (authPromiseReject) {
-          authPromiseReject(new Error('WebSocket fechado antes da autorização'));
-        }
-      }
-    });
-
-    // ✅ Aguardar autorização antes de retornar
-    try {
-      await authPromise;
-    } catch (error) {
-      throw new Error(`Falha ao autorizar conexão WebSocket: ${error.message}`);
-    }
-
-    const conn = this.wsConnections.get(token)!;
-    return {
-      ws: conn.ws,
-      authorizedCurrency: conn.authorizedCurrency,
-      sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-      subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-        this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-      removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-    };
-  }
-
-  /**
-   * ✅ ATLAS: Envia requisição via conexão
-   */
-  private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    return new Promise((resolve, reject) => {
-      // ✅ Deriv API req_id deve ser um INTEIRO (1 a 2^31 - 1)
-      const requestId = ++conn.requestIdCounter;
-      const timeout = setTimeout(() => {
-        conn.pendingRequests.delete(requestId);
-        reject(new Error(`Timeout após ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      // ✅ [ZENIX v3.0] Injetar req_id E passthrough para redundância de roteamento
-      const finalPayload = {
-        ...payload,
-        req_id: requestId,
-        passthrough: {
-          ...payload.passthrough,
-          req_id: requestId
-        }
-      };
-      conn.ws.send(JSON.stringify(finalPayload));
-    });
-  }
-
-  /**
-   * ✅ ATLAS: Inscreve-se para atualizações
-   */
-  private async subscribeViaConnection(
-    token: string,
-    payload: any,
-    callback: (msg: any) => void,
-    subId: string,
-    timeoutMs: number,
-  ): Promise<void> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    const timeout = setTimeout(() => {
-      conn.subscriptions.delete(subId);
-    }, timeoutMs);
-
-    conn.subscriptions.set(subId, (msg: any) => {
-      clearTimeout(timeout);
-      callback(msg);
-    });
-
-    conn.ws.send(JSON.stringify(payload));
-  }
-
-  /**
-   * ✅ ATLAS: Remove subscription
-   */
-  private removeSubscriptionFromConnection(token: string, subId: string): void {
-    const conn = this.wsConnections.get(token);
-    if (conn) {
-      conn.subscriptions.delete(subId);
-    }
-  }
 
   // Getters
   getTicks(symbol: 'R_10' | 'R_25' | 'R_100' | '1HZ100V'): Tick[] {
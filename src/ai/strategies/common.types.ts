@@ -1,4 +1,5 @@
 import { DigitParity, Tick } from '../ai.service';
+import { StrategyConfigSchema } from '../../strategies/registry/strategy-registry.types';
 
 // Tipos comuns para estratégias
 export type ModoMartingale = 'conservador' | 'moderado' | 'agressivo';
@@ -35,6 +36,20 @@ export interface IStrategy {
   getUserState(userId: string): any;
 }
 
+// Campos de ativação comuns às IAs (POST /ai/activate); cada estratégia define os modos aceitos
+export const AI_STRATEGY_CONFIG_SCHEMA: StrategyConfigSchema = {
+  stakeAmount: { type: 'number', required: true, min: 0, description: 'Capital total da conta' },
+  entryValue: { type: 'number', min: 0.35, default: 0.35, description: 'Valor de entrada por operação' },
+  derivToken: { type: 'string', required: true },
+  currency: { type: 'string', required: true },
+  mode: { type: 'string', default: 'veloz' },
+  modoMartingale: { type: 'string', enum: ['conservador', 'moderado', 'agressivo'], default: 'conservador' },
+  profitTarget: { type: 'number', min: 0 },
+  lossLimit: { type: 'number', min: 0 },
+  stopLossBlindado: { type: 'boolean', default: false },
+  symbol: { type: 'string' },
+};
+
 // Configurações exportadas
 // ✅ CORRIGIDO conforme documentação TRINITY:
 // - Modo VELOZ: Amostra 10 ticks, intervalo 3 ticks, desequilíbrio ≥50%, confiança ≥50%
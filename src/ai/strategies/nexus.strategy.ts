@@ -1,9 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import { Tick, DigitParity } from '../ai.service';
-import { IStrategy, ModoMartingale } from './common.types';
+import { IStrategy, ModoMartingale, AI_STRATEGY_CONFIG_SCHEMA } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 import { formatCurrency } from '../../utils/currency.utils';
 import { TradeEventsService } from '../trade-events.service';
 
@@ -13,18 +17,6 @@ import { TradeEventsService } from '../trade-events.service';
  * Price Action + Dynamic Barriers + Zenix Pro Standards.
  */
 
-/**
- * ✅ Interface para Conexão WebSocket reutilizável
- */
-interface WsConnection {
-    ws: WebSocket;
-    authorized: boolean;
-    keepAliveInterval: NodeJS.Timeout | null;
-    requestIdCounter: number;
-    pendingRequests: Map<string, { resolve: (data: any) => void; reject: (err: any) => void; timeout: NodeJS.Timeout }>;
-    subscriptions: Map<string, (msg: any) => void>;
-}
-
 class RiskManager {
     private initialBalance: number;
     private stopLossLimit: number;
@@ -256,6 +248,17 @@ interface NexusUserState {
     dynamicBarrier?: number; // ✅ Barreira dinâmica calculada na análise principal
 }
 
+@RegisterStrategy({
+    kind: 'ai',
+    name: 'nexus',
+    symbols: ['R_25'],
+    contractTypes: ['CALL', 'PUT'],
+    configSchema: {
+        ...AI_STRATEGY_CONFIG_SCHEMA,
+        mode: { type: 'string', enum: ['veloz', 'normal', 'lento'], default: 'veloz' },
+    },
+    planFeatureFlag: 'nexus_ai',
+})
 @Injectable()
 export class NexusStrategy implements IStrategy {
     name = 'nexus';
@@ -264,9 +267,6 @@ export class NexusStrategy implements IStrategy {
     private riskManagers = new Map<string, RiskManager>();
     private ticks: Tick[] = [];
     private symbol = 'R_25'; // ✅ NEXUS: Mercado oficial R_25 (Volatility 25)
-    private appId: string;
-
-    private wsConnections: Map<string, WsConnection> = new Map();
     private logQueue: any[] = [];
     private logProcessing = false;
 
@@ -274,9 +274,10 @@ export class NexusStrategy implements IStrategy {
         private dataSource: DataSource,
         private tradeEvents: TradeEventsService,
         private readonly copyTradingService: CopyTradingService,
-    ) {
-        this.appId = (process as any).env.DERIV_APP_ID || '111346';
-    }
+        @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+        private readonly planPermissions?: PlanPermissionsService,
+        private readonly tradeLedger?: TradeLedgerService,
+    ) { }
 
     async initialize(): Promise<void> {
         this.logger.log('[NEXUS] Estratégia NEXUS inicializada');
@@ -627,8 +628,14 @@ export class NexusStrategy implements IStrategy {
     }
 
     async deactivateUser(userId: string): Promise<void> {
+        const token = this.users.get(userId)?.derivToken;
         this.users.delete(userId);
         this.riskManagers.delete(userId);
+
+        // ✅ Liberar a conexão no gateway quando nenhum usuário NEXUS usar mais o token
+        if (token && !Array.from(this.users.values()).some((state) => state.derivToken === token)) {
+            this.brokerGateway.releaseConnection(token, 'nexus');
+        }
     }
 
     getUserState(userId: string) { return this.users.get(userId); }
@@ -739,7 +746,7 @@ export class NexusStrategy implements IStrategy {
                 amount: stake,
                 currency: state.currency,
                 barrier: barrier
-            }, state.userId, async (contractId, entryPrice) => {
+            }, state.userId, async (contractId, entryPrice, buy) => {
                 // ✅ [NEXUS] Master Trader Replication - IMMEDIATE (at entry)
                 try {
                     const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
@@ -771,21 +778,23 @@ export class NexusStrategy implements IStrategy {
 
                         // 2. Chamar serviço de cópia para execução imediata
                         if (this.copyTradingService) {
-                            await this.copyTradingService.replicateManualOperation(
-                                state.userId,
-                                {
-                                    contractId: contractId || '',
-                                    contractType: direction === 'PAR' ? 'CALL' : 'PUT',
-                                    symbol: this.symbol,
-                                    duration: 1,
-                                    durationUnit: 't',
-                                    stakeAmount: stake,
-                                    percent: percent,
-                                    entrySpot: entryPrice || 0,
-                                    entryTime: unixTimestamp,
-                                    barrier: barrier ? parseFloat(barrier) : undefined,
-                                },
-                            );
+                            this.copyTradingService.replicateTradeToFollowers(state.userId, {
+                                traderOperationId: String(tradeId),
+                                contractId: contractId || '',
+                                contractType: direction === 'PAR' ? 'CALL' : 'PUT',
+                                symbol: this.symbol,
+                                duration: 1,
+                                durationUnit: 't',
+                                barrier: barrier ? parseFloat(barrier) : undefined,
+                                stakeAmount: stake,
+                                buyPrice: Number(buy.buy_price) || stake,
+                                payout: Number(buy.payout) || null,
+                                spot: entryPrice || null,
+                                stakePercent: percent,
+                                filledAt: new Date(unixTimestamp * 1000),
+                            }).catch((error: any) => {
+                                this.logger.error(`[NEXUS] Erro ao replicar operação para copiadores: ${error.message}`);
+                            });
                         }
                     }
                 } catch (repError) {
@@ -864,6 +873,7 @@ export class NexusStrategy implements IStrategy {
                 }
 
                 await this.dataSource.query(`UPDATE ai_trades SET status = ?, profit_loss = ?, exit_price = ?, closed_at = NOW() WHERE id = ?`, [status, result.profit, result.exitSpot, tradeId]);
+                this.tradeLedger?.sync('ai', tradeId);
 
                 this.tradeEvents.emit({ userId: state.userId, type: 'updated', tradeId, status, strategy: 'nexus', profitLoss: result.profit });
 
@@ -880,29 +890,13 @@ export class NexusStrategy implements IStrategy {
                 // ✅ [ATLAS LOGIC] Check protection limits after updating balance
                 await this.checkNexusLimits(state.userId);
 
-                // ✅ [NEXUS] Master Trader Result Update
-                try {
-                    const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
-                    if (userMaster && userMaster.length > 0 && userMaster[0].trader_mestre === 1 && this.copyTradingService) {
-                        const resMap = result.profit >= 0 ? 'win' : 'loss';
-                        await this.copyTradingService.updateCopyTradingOperationsResult(
-                            state.userId,
-                            result.contractId,
-                            resMap,
-                            result.profit,
-                            stake
-                        );
-                    }
-                } catch (resError) {
-                    this.logger.error(`[NEXUS] Erro ao atualizar resultados do Copy Trading:`, resError);
-                }
-
 
                 if (state.ultimoLucro > 0 && (state.capital - riskManager.getInitialBalance()) >= riskManager.getProfitTarget()) {
                     await this.stopUser(state, 'stopped_profit');
                 }
             } else {
                 await this.dataSource.query(`UPDATE ai_trades SET status = 'ERROR' WHERE id = ?`, [tradeId]);
+                this.tradeLedger?.sync('ai', tradeId);
             }
         } catch (e) {
             this.logger.error(`[NEXUS][ERR] ${e.message}`);
@@ -1006,6 +1000,7 @@ export class NexusStrategy implements IStrategy {
             [state.userId, signalLabel, entryPrice, stake, signalLabel.toUpperCase(), JSON.stringify(analysisData), this.symbol]
         );
         const tradeId = r.insertId || r[0]?.insertId;
+        this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
 
 
@@ -1016,10 +1011,21 @@ export class NexusStrategy implements IStrategy {
         token: string,
         params: any,
         userId: string,
-        onBuy?: (contractId: string, entryPrice: number) => Promise<void>
+        onBuy?: (contractId: string, entryPrice: number, buy: { buy_price: number; payout: number }) => Promise<void>
     ): Promise<{ contractId: string, profit: number, exitSpot: any } | null> {
         try {
-            const connection = await this.getOrCreateWebSocketConnection(token, userId);
+            // ✅ Limites do plano no momento da operação
+            const planBlock = await this.planPermissions?.checkTrade(userId, {
+                product: 'ai',
+                stake: params.amount,
+                symbol: this.symbol,
+            });
+            if (planBlock) {
+                this.saveNexusLog(userId, this.symbol, 'alerta', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+                return null;
+            }
+
+            const connection = await this.brokerGateway.getConnection(token, { owner: 'nexus', label: userId });
 
             const proposalResponse: any = await connection.sendRequest({
                 proposal: 1,
@@ -1061,7 +1067,7 @@ export class NexusStrategy implements IStrategy {
 
             // ✅ Chamar callback onBuy IMEDIATAMENTE (Replication)
             if (onBuy) {
-                onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price).catch(err => {
+                onBuy(contractId, buyResponse.buy.entry_tick || buyResponse.buy.price, buyResponse.buy).catch(err => {
                     this.logger.error(`[NEXUS] Erro no callback onBuy: ${err.message}`);
                 });
             }
@@ -1115,195 +1121,6 @@ export class NexusStrategy implements IStrategy {
         }
     }
 
-    private async getOrCreateWebSocketConnection(token: string, userId?: string): Promise<{
-        ws: WebSocket;
-        sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-        subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-        removeSubscription: (subId: string) => void;
-    }> {
-        const existing = this.wsConnections.get(token);
-
-        if (existing) {
-            if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-                return {
-                    ws: existing.ws,
-                    sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-                    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-                        this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-                    removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-                };
-            } else {
-                if (existing.keepAliveInterval) clearInterval(existing.keepAliveInterval);
-                existing.ws.close();
-                this.wsConnections.delete(token);
-            }
-        }
-
-        const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-        const ws = await new Promise<WebSocket>((resolve, reject) => {
-            const socket = new WebSocket(endpoint, { headers: { Origin: 'https://app.deriv.com' } });
-            let authResolved = false;
-
-            const connectionTimeout = setTimeout(() => {
-                if (!authResolved) {
-                    socket.close();
-                    this.wsConnections.delete(token);
-                    reject(new Error('Timeout ao conectar (20s)'));
-                }
-            }, 20000);
-
-            socket.on('message', (data: WebSocket.RawData) => {
-                try {
-                    const msg = JSON.parse(data.toString());
-                    if (msg.msg_type === 'ping' || msg.msg_type === 'pong' || msg.ping || msg.pong) return;
-
-                    const conn = this.wsConnections.get(token);
-                    if (!conn) return;
-
-                    if (msg.msg_type === 'authorize' && !authResolved) {
-                        authResolved = true;
-                        clearTimeout(connectionTimeout);
-
-                        if (msg.error) {
-                            socket.close();
-                            this.wsConnections.delete(token);
-                            reject(new Error(msg.error.message));
-                            return;
-                        }
-
-                        conn.authorized = true;
-                        conn.keepAliveInterval = setInterval(() => {
-                            if (socket.readyState === WebSocket.OPEN) {
-                                try { socket.send(JSON.stringify({ ping: 1 })); } catch (e) { }
-                            }
-                        }, 30000);
-
-                        resolve(socket);
-                        return;
-                    }
-
-                    if (msg.proposal_open_contract) {
-                        const contractId = msg.proposal_open_contract.contract_id;
-                        if (contractId && conn.subscriptions.has(contractId)) {
-                            conn.subscriptions.get(contractId)!(msg);
-                            return;
-                        }
-                    }
-
-                    const firstKey = conn.pendingRequests.keys().next().value;
-                    if (firstKey) {
-                        const pending = conn.pendingRequests.get(firstKey);
-                        if (pending) {
-                            clearTimeout(pending.timeout);
-                            conn.pendingRequests.delete(firstKey);
-                            if (msg.error) pending.reject(new Error(msg.error.message));
-                            else pending.resolve(msg);
-                        }
-                    }
-                } catch (e) { }
-            });
-
-            socket.on('open', () => {
-                const conn: WsConnection = {
-                    ws: socket,
-                    authorized: false,
-                    keepAliveInterval: null,
-                    requestIdCounter: 0,
-                    pendingRequests: new Map(),
-                    subscriptions: new Map(),
-                };
-                this.wsConnections.set(token, conn);
-                socket.send(JSON.stringify({ authorize: token }));
-            });
-
-            socket.on('error', (err) => {
-                if (!authResolved) {
-                    clearTimeout(connectionTimeout);
-                    authResolved = true;
-                    this.wsConnections.delete(token);
-                    reject(err);
-                }
-            });
-
-            socket.on('close', () => {
-                const conn = this.wsConnections.get(token);
-                if (conn) {
-                    if (conn.keepAliveInterval) clearInterval(conn.keepAliveInterval as any);
-                    conn.pendingRequests.forEach(p => { clearTimeout(p.timeout); p.reject(new Error('WS closed')); });
-                    conn.subscriptions.clear();
-                }
-                this.wsConnections.delete(token);
-                if (!authResolved) {
-                    clearTimeout(connectionTimeout);
-                    reject(new Error('WS closed before auth'));
-                }
-            });
-        });
-
-        return {
-            ws: ws,
-            sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-            subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-                this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-            removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-    }
-
-    private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-        const conn = this.wsConnections.get(token);
-        if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-            throw new Error('Conexão WebSocket indisponível');
-        }
-
-        return new Promise((resolve, reject) => {
-            const requestId = `req_${++conn.requestIdCounter}_${Date.now()}`;
-            const timeout = setTimeout(() => {
-                conn.pendingRequests.delete(requestId);
-                reject(new Error(`Timeout ${timeoutMs}ms`));
-            }, timeoutMs);
-            conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-            conn.ws.send(JSON.stringify(payload));
-        });
-    }
-
-    private async subscribeViaConnection(token: string, payload: any, callback: (msg: any) => void, subId: string, timeoutMs: number): Promise<void> {
-        const conn = this.wsConnections.get(token);
-        if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-            throw new Error('Conexão WebSocket indisponível');
-        }
-
-        await new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-                conn.subscriptions.delete(subId);
-                reject(new Error(`Timeout ao inscrever ${subId}`));
-            }, timeoutMs);
-
-            const wrappedCallback = (msg: any) => {
-                if (msg.proposal_open_contract || msg.error) {
-                    clearTimeout(timeout);
-                    if (msg.error) {
-                        conn.subscriptions.delete(subId);
-                        reject(new Error(msg.error.message));
-                        return;
-                    }
-                    conn.subscriptions.set(subId, callback);
-                    resolve();
-                    callback(msg);
-                    return;
-                }
-                callback(msg);
-            };
-
-            conn.subscriptions.set(subId, wrappedCallback);
-            conn.ws.send(JSON.stringify(payload));
-        });
-    }
-
-    private removeSubscriptionFromConnection(token: string, subId: string): void {
-        const conn = this.wsConnections.get(token);
-        if (conn) conn.subscriptions.delete(subId);
-    }
-
     // ------------------------------------------------------------------
     // ✅ LOGS PADRONIZADOS ZENIX v2.0 (Helpers)
     // ------------------------------------------------------------------
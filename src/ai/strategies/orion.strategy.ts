@@ -1,13 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import { Tick, DigitParity } from '../ai.service';
-import { IStrategy, ModeConfig, VELOZ_CONFIG, MODERADO_CONFIG, PRECISO_CONFIG, LENTA_CONFIG, ModoMartingale } from './common.types';
+import { IStrategy, ModeConfig, VELOZ_CONFIG, MODERADO_CONFIG, PRECISO_CONFIG, LENTA_CONFIG, ModoMartingale, AI_STRATEGY_CONFIG_SCHEMA } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { TradeEventsService } from '../trade-events.service';
 import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 
 import { gerarSinalZenix } from './signal-generator';
-// ✅ REMOVIDO: DerivWebSocketPoolService - usando WebSocket direto conforme documentação Deriv
 
 // Estados ORION
 export type OrionPhase = 'ATAQUE' | 'DEFESA';
@@ -463,6 +466,17 @@ class RiskManager {
   }
 }
 
+@RegisterStrategy({
+  kind: 'ai',
+  name: 'orion',
+  symbols: ['1HZ100V'],
+  contractTypes: ['DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'CALL', 'PUT'],
+  configSchema: {
+    ...AI_STRATEGY_CONFIG_SCHEMA,
+    mode: { type: 'string', enum: ['veloz', 'moderado', 'preciso', 'lenta'], default: 'veloz' },
+  },
+  planFeatureFlag: 'orion_ai',
+})
 @Injectable()
 export class OrionStrategy implements IStrategy {
   name = 'orion';
@@ -825,29 +839,16 @@ Status: Proteção Ativada`;
     details?: any;
   }> = [];
   private logProcessing = false;
-  private appId: string;
   private symbol = '1HZ100V'; // Volatility 100 (1s) Index
-  private wsConnections: Map<
-    string,
-    {
-      ws: WebSocket;
-      authorized: boolean;
-      authorizedCurrency: string | null;
-      keepAliveInterval: NodeJS.Timeout | null;
-      requestIdCounter: number;
-      pendingRequests: Map<number, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-      subscriptions: Map<string, (msg: any) => void>;
-    }
-  > = new Map();
 
   constructor(
     private dataSource: DataSource,
     private tradeEvents: TradeEventsService,
     private copyTradingService: CopyTradingService,
-
-  ) {
-    this.appId = process.env.DERIV_APP_ID || '1089';
-  }
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+    private readonly planPermissions?: PlanPermissionsService,
+    private readonly tradeLedger?: TradeLedgerService,
+  ) { }
 
   async initialize(): Promise<void> {
     this.logger.log('[ORION] Estratégia ORION inicializada - v2.0.1 (Conservative Doubling Fixed)');
@@ -1013,10 +1014,17 @@ Status: Proteção Ativada`;
   }
 
   async deactivateUser(userId: string): Promise<void> {
+    const token = this.getUserState(userId)?.derivToken;
     this.velozUsers.delete(userId);
     this.moderadoUsers.delete(userId);
     this.precisoUsers.delete(userId);
     this.lentaUsers.delete(userId);
+
+    // ✅ Liberar a conexão no gateway quando nenhum usuário ORION usar mais o token
+    const remaining = [...this.velozUsers.values(), ...this.moderadoUsers.values(), ...this.precisoUsers.values(), ...this.lentaUsers.values()];
+    if (token && !remaining.some((state) => state.derivToken === token)) {
+      this.brokerGateway.releaseConnection(token, 'orion');
+    }
     this.logger.log(`[ORION] Usuário ${userId} desativado`);
   }
 
@@ -2828,6 +2836,7 @@ Status: Proteção Ativada`;
         stakeAmount,
         mode,
       );
+      this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
       // ✅ Executar trade E monitorar no MESMO WebSocket (mais rápido para contratos de 1 tick)
       // ✅ Garantir arredondamento final antes de enviar (requisito da Deriv: máximo 2 casas decimais)
@@ -2878,6 +2887,7 @@ Status: Proteção Ativada`;
           `UPDATE ai_trades SET status = 'ERROR', error_message = ? WHERE id = ?`,
           ['Não foi possível criar/monitorar contrato', tradeId],
         );
+        this.tradeLedger?.sync('ai', tradeId);
         this.saveOrionLog(state.userId, this.symbol, 'erro', `Erro ao executar operação | Não foi possível criar contrato`);
         return;
       }
@@ -2910,21 +2920,23 @@ Status: Proteção Ativada`;
 
           // 2. Chamar serviço de cópia para execução imediata
           if (this.copyTradingService) {
-            await this.copyTradingService.replicateManualOperation(
-              state.userId,
-              {
-                contractId: result.contractId || '', // ID do contrato do mestre
-                contractType: operation === 'DIGITOVER' ? 'DIGITOVER' : (operation === 'PAR' ? 'DIGITEVEN' : (operation === 'IMPAR' ? 'DIGITODD' : (typeof operation === 'string' ? operation : 'CALL'))),
-                symbol: this.symbol,
-                duration: 1,
-                durationUnit: 't',
-                stakeAmount: stakeAmount,
-                percent: percent,
-                entrySpot: result.entrySpot || 0,
-                entryTime: unixTimestamp,
-                barrier: operation === 'DIGITOVER' ? 3 : undefined,
-              }
-            );
+            this.copyTradingService.replicateTradeToFollowers(state.userId, {
+              traderOperationId: String(tradeId),
+              contractId: result.contractId || '',
+              contractType: operation === 'DIGITOVER' ? 'DIGITOVER' : (operation === 'PAR' ? 'DIGITEVEN' : (operation === 'IMPAR' ? 'DIGITODD' : (typeof operation === 'string' ? operation : 'CALL'))),
+              symbol: this.symbol,
+              duration: 1,
+              durationUnit: 't',
+              barrier: operation === 'DIGITOVER' ? 3 : undefined,
+              stakeAmount: stakeAmount,
+              buyPrice: result.buyPrice,
+              payout: result.payout,
+              spot: result.entrySpot || null,
+              stakePercent: percent,
+              filledAt: new Date(unixTimestamp * 1000),
+            }).catch((error: any) => {
+              this.logger.error(`[ORION] Erro ao replicar operação para copiadores: ${error.message}`);
+            });
           }
         }
       } catch (repError) {
@@ -2944,6 +2956,7 @@ Status: Proteção Ativada`;
          WHERE id = ?`,
         [contractId, exitPrice, entryPrice, profit, confirmedStatus, tradeId],
       );
+      this.tradeLedger?.sync('ai', tradeId);
 
       // Emitir evento de atualização
       this.tradeEvents.emit({
@@ -2958,22 +2971,6 @@ Status: Proteção Ativada`;
 
       this.logger.log(`[ORION][${mode}] ${confirmedStatus} | User: ${state.userId} | P&L: $${profit.toFixed(2)}`);
 
-      // ✅ [ORION] Master Trader Result Update
-      try {
-        if (isMasterTraderFlag && this.copyTradingService) {
-          const resMap = confirmedStatus === 'WON' ? 'win' : 'loss';
-          await this.copyTradingService.updateCopyTradingOperationsResult(
-            state.userId,
-            contractId,
-            resMap,
-            profit,
-            stakeAmount
-          );
-        }
-      } catch (resError) {
-        this.logger.error(`[ORION] Erro ao atualizar resultados do Copy Trading:`, resError);
-      }
-
       // ✅ Processar resultado (Soros/Martingale)
       await this.processOrionResult(state, stakeAmount, operation, profit, mode);
     } catch (error) {
@@ -2991,6 +2988,7 @@ Status: Proteção Ativada`;
         ).catch(err => {
           this.logger.error(`[ORION] Erro ao atualizar trade com status ERROR:`, err);
         });
+        this.tradeLedger?.sync('ai', tradeId);
       }
       // ✅ Log de erro com detalhes completos
       this.saveOrionLog(state.userId, this.symbol, 'erro', `Erro ao executar operação: ${error.message || 'Erro desconhecido'} | Detalhes: ${errorResponse}`);
@@ -3074,325 +3072,6 @@ Status: Proteção Ativada`;
     return tradeId;
   }
 
-  /**
-   * ✅ ORION: Obtém ou cria conexão WebSocket reutilizável por token
-   * Mantém uma conexão por token para evitar criar nova conexão a cada trade
-   */
-  private async getOrCreateWebSocketConnection(token: string, userId?: string): Promise<{
-    ws: WebSocket;
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  }> {
-    // ✅ Verificar se já existe conexão ativa para este token
-    const existing = this.wsConnections.get(token);
-
-    // ✅ Logs de diagnóstico
-    this.logger.debug(`[ORION] 🔍 [${userId || 'SYSTEM'}] Verificando conexão existente para token ${token.substring(0, 8)}...`);
-    this.logger.debug(`[ORION] 🔍 [${userId || 'SYSTEM'}] Total de conexões no pool: ${this.wsConnections.size}`);
-
-    if (existing) {
-      const readyState = existing.ws.readyState;
-      const readyStateText = readyState === WebSocket.OPEN ? 'OPEN' :
-        readyState === WebSocket.CONNECTING ? 'CONNECTING' :
-          readyState === WebSocket.CLOSING ? 'CLOSING' :
-            readyState === WebSocket.CLOSED ? 'CLOSED' : 'UNKNOWN';
-
-      this.logger.debug(`[ORION] 🔍 [${userId || 'SYSTEM'}] Conexão encontrada: readyState=${readyStateText}, authorized=${existing.authorized}`);
-
-      if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-        this.logger.debug(`[ORION] ♻️ [${userId || 'SYSTEM'}] ✅ Reutilizando conexão WebSocket existente`);
-
-        return {
-          ws: existing.ws,
-          sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-          subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-            this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-          removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-      } else {
-        this.logger.warn(`[ORION] ⚠️ [${userId || 'SYSTEM'}] Conexão existente não está pronta (readyState=${readyStateText}, authorized=${existing.authorized}). Fechando e recriando.`);
-        if (existing.keepAliveInterval) {
-          clearInterval(existing.keepAliveInterval);
-        }
-        existing.ws.close();
-        this.wsConnections.delete(token);
-      }
-    } else {
-      this.logger.debug(`[ORION] 🔍 [${userId || 'SYSTEM'}] Nenhuma conexão existente encontrada para token ${token.substring(0, 8)}`);
-    }
-
-    // ✅ Criar nova conexão
-    this.logger.debug(`[ORION] 🔌 [${userId || 'SYSTEM'}] Criando nova conexão WebSocket para token`);
-    const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-
-    const ws = await new Promise<WebSocket>((resolve, reject) => {
-      const socket = new WebSocket(endpoint, {
-        headers: { Origin: 'https://app.deriv.com' },
-      });
-
-      let authResolved = false;
-      const connectionTimeout = setTimeout(() => {
-        if (!authResolved) {
-          this.logger.error(`[ORION] ❌ [${userId || 'SYSTEM'}] Timeout na autorização após 20s. Estado: readyState=${socket.readyState}`);
-          socket.close();
-          this.wsConnections.delete(token);
-          reject(new Error('Timeout ao conectar e autorizar WebSocket (20s)'));
-        }
-      }, 20000); // ✅ Aumentado de 15s para 20s
-
-      // ✅ Listener de mensagens para capturar autorização e outras respostas
-      socket.on('message', (data: WebSocket.RawData) => {
-        try {
-          const msg = JSON.parse(data.toString());
-
-          // ✅ Log de todas as mensagens recebidas durante autorização
-          if (!authResolved) {
-            this.logger.debug(`[ORION] 📥 [${userId || 'SYSTEM'}] Mensagem recebida durante autorização: ${JSON.stringify(Object.keys(msg))}`);
-          }
-
-          // ✅ Ignorar ping/pong
-          if (msg.msg_type === 'ping' || msg.msg_type === 'pong' || msg.ping || msg.pong) {
-            return;
-          }
-
-          const conn = this.wsConnections.get(token);
-          if (!conn) {
-            this.logger.warn(`[ORION] ⚠️ [${userId || 'SYSTEM'}] Mensagem recebida mas conexão não encontrada no pool para token ${token.substring(0, 8)}`);
-            return;
-          }
-
-          // ✅ Processar autorização (apenas durante inicialização)
-          // A API Deriv retorna msg.msg_type === 'authorize' com dados em msg.authorize
-          if (msg.msg_type === 'authorize' && !authResolved) {
-            this.logger.debug(`[ORION] 🔐 [${userId || 'SYSTEM'}] Processando resposta de autorização...`);
-            authResolved = true;
-            clearTimeout(connectionTimeout);
-
-            if (msg.error || (msg.authorize && msg.authorize.error)) {
-              const errorMsg = msg.error?.message || msg.authorize?.error?.message || 'Erro desconhecido na autorização';
-              this.logger.error(`[ORION] ❌ [${userId || 'SYSTEM'}] Erro na autorização: ${errorMsg}`);
-              socket.close();
-              this.wsConnections.delete(token);
-              reject(new Error(`Erro na autorização: ${errorMsg}`));
-              return;
-            }
-
-            conn.authorized = true;
-            conn.authorizedCurrency = msg.authorize?.currency || null;
-            this.logger.log(`[ORION] ✅ [${userId || 'SYSTEM'}] Autorizado com sucesso | LoginID: ${msg.authorize?.loginid || 'N/A'} | Moeda: ${conn.authorizedCurrency}`);
-
-            // ✅ Iniciar keep-alive
-            conn.keepAliveInterval = setInterval(() => {
-              if (socket.readyState === WebSocket.OPEN) {
-                try {
-                  socket.send(JSON.stringify({ ping: 1 }));
-                  this.logger.debug(`[ORION][KeepAlive][${token.substring(0, 8)}] Ping enviado`);
-                } catch (error) {
-                  // Ignorar erros
-                }
-              }
-            }, 90000);
-
-            resolve(socket);
-            return;
-          }
-
-          // ✅ Processar mensagens de subscription (proposal_open_contract) - PRIORIDADE 1
-          if (msg.proposal_open_contract) {
-            const contractId = msg.proposal_open_contract.contract_id;
-            const callback = conn.subscriptions.get(contractId);
-            if (callback) {
-              callback(msg);
-              return;
-            }
-          }
-
-          // ✅ Processar respostas de requisições (proposal, buy, etc.) - PRIORIDADE 2
-          // 2.1. Tentar casar por req_id (Mais robusto)
-          const msgReqId = msg.req_id ? Number(msg.req_id) : null;
-          if (msgReqId !== null && conn.pendingRequests.has(msgReqId)) {
-            const pending = conn.pendingRequests.get(msgReqId);
-            if (pending) {
-              clearTimeout(pending.timeout);
-              conn.pendingRequests.delete(msgReqId);
-              if (msg.error) {
-                pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-              } else {
-                pending.resolve(msg);
-              }
-            }
-            return;
-          }
-
-          if (msg.proposal || msg.buy || (msg.error && !msg.proposal_open_contract)) {
-            // Processar primeira requisição pendente (FIFO)
-            const firstKey = conn.pendingRequests.keys().next().value;
-            if (firstKey) {
-              const pending = conn.pendingRequests.get(firstKey);
-              if (pending) {
-                clearTimeout(pending.timeout);
-                conn.pendingRequests.delete(firstKey);
-                if (msg.error) {
-                  pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                } else {
-                  pending.resolve(msg);
-                }
-              }
-            }
-          }
-        } catch (error) {
-          // Continuar processando
-        }
-      });
-
-      socket.on('open', () => {
-        this.logger.log(`[ORION] ✅ [${userId || 'SYSTEM'}] WebSocket conectado, enviando autorização...`);
-
-        // ✅ Criar entrada no pool
-        const conn = {
-          ws: socket,
-          authorized: false,
-          authorizedCurrency: null as string | null,
-          keepAliveInterval: null as NodeJS.Timeout | null,
-          requestIdCounter: 0,
-          pendingRequests: new Map(),
-          subscriptions: new Map(),
-        };
-        this.wsConnections.set(token, conn);
-
-        // ✅ Enviar autorização
-        const authPayload = { authorize: token };
-        this.logger.debug(`[ORION] 📤 [${userId || 'SYSTEM'}] Enviando autorização: ${JSON.stringify({ authorize: token.substring(0, 8) + '...' })}`);
-        socket.send(JSON.stringify(authPayload));
-      });
-
-      socket.on('error', (error) => {
-        if (!authResolved) {
-          clearTimeout(connectionTimeout);
-          authResolved = true;
-          this.wsConnections.delete(token);
-          reject(error);
-        }
-      });
-
-      socket.on('close', () => {
-        this.logger.debug(`[ORION] 🔌 [${userId || 'SYSTEM'}] WebSocket fechado`);
-        const conn = this.wsConnections.get(token);
-        if (conn) {
-          if (conn.keepAliveInterval) {
-            clearInterval(conn.keepAliveInterval);
-          }
-          // Rejeitar todas as requisições pendentes
-          conn.pendingRequests.forEach(pending => {
-            clearTimeout(pending.timeout);
-            pending.reject(new Error('WebSocket fechado'));
-          });
-          conn.subscriptions.clear();
-        }
-        this.wsConnections.delete(token);
-
-        if (!authResolved) {
-          clearTimeout(connectionTimeout);
-          authResolved = true;
-          reject(new Error('WebSocket fechado antes da autorização'));
-        }
-      });
-    });
-
-    const conn = this.wsConnections.get(token)!;
-    return {
-      ws: conn.ws,
-      sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-      subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-        this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-      removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-    };
-  }
-
-  /**
-   * ✅ Envia requisição via conexão existente
-   */
-  private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    return new Promise((resolve, reject) => {
-      // ✅ ORION: Usar req_id INTEIRO (1 a 2^31 - 1) para compliance com Deriv API
-      const requestId = ++conn.requestIdCounter;
-      const timeout = setTimeout(() => {
-        conn.pendingRequests.delete(requestId);
-        reject(new Error(`Timeout após ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      // ✅ Injetar req_id no payload para pareamento preciso
-      const finalPayload = { ...payload, req_id: requestId };
-      conn.ws.send(JSON.stringify(finalPayload));
-    });
-  }
-
-  /**
-   * ✅ Inscreve-se para atualizações via conexão existente
-   */
-  private async subscribeViaConnection(
-    token: string,
-    payload: any,
-    callback: (msg: any) => void,
-    subId: string,
-    timeoutMs: number,
-  ): Promise<void> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    // ✅ Aguardar primeira resposta para confirmar subscription
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        conn.subscriptions.delete(subId);
-        reject(new Error(`Timeout ao inscrever ${subId}`));
-      }, timeoutMs);
-
-      // ✅ Callback wrapper que confirma subscription na primeira mensagem
-      const wrappedCallback = (msg: any) => {
-        // ✅ Primeira mensagem confirma subscription
-        if (msg.proposal_open_contract || msg.error) {
-          clearTimeout(timeout);
-          if (msg.error) {
-            conn.subscriptions.delete(subId);
-            reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-            return;
-          }
-          // ✅ Subscription confirmada, substituir por callback original
-          conn.subscriptions.set(subId, callback);
-          resolve();
-          // ✅ Chamar callback original com primeira mensagem
-          callback(msg);
-          return;
-        }
-        // ✅ Se não for primeira mensagem, já deve estar usando callback original
-        callback(msg);
-      };
-
-      conn.subscriptions.set(subId, wrappedCallback);
-      conn.ws.send(JSON.stringify(payload));
-    });
-  }
-
-  /**
-   * ✅ Remove subscription da conexão
-   */
-  private removeSubscriptionFromConnection(token: string, subId: string): void {
-    const conn = this.wsConnections.get(token);
-    if (conn) {
-      conn.subscriptions.delete(subId);
-    }
-  }
-
   /**
    * ✅ ORION: Executa trade via WebSocket REUTILIZÁVEL (pool por token) E monitora resultado no MESMO WebSocket
    * Retorna o resultado completo (contractId, profit, exitSpot) ou null se falhar
@@ -3406,10 +3085,23 @@ Status: Proteção Ativada`;
       currency: string;
     },
     userId?: string,
-  ): Promise<{ contractId: string; profit: number; exitSpot: any; entrySpot: any } | null> {
+  ): Promise<{ contractId: string; profit: number; exitSpot: any; entrySpot: any; buyPrice: number; payout: number | null } | null> {
     try {
-      // ✅ PASSO 1: Obter ou criar conexão WebSocket reutilizável
-      const connection = await this.getOrCreateWebSocketConnection(token, userId);
+      // ✅ Limites do plano no momento da operação
+      const planBlock = userId
+        ? await this.planPermissions?.checkTrade(userId, {
+          product: 'ai',
+          stake: contractParams.amount,
+          symbol: this.symbol,
+        })
+        : null;
+      if (planBlock) {
+        this.saveOrionLog(userId!, this.symbol, 'alerta', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+        return null;
+      }
+
+      // ✅ PASSO 1: Obter conexão reutilizável do gateway
+      const connection = await this.brokerGateway.getConnection(token, { owner: 'orion', label: userId });
 
       // ✅ PASSO 2: Solicitar proposta
       const proposalStartTime = Date.now();
@@ -3565,6 +3257,9 @@ Status: Proteção Ativada`;
         return null;
       }
 
+      const buyPrice = Number(buyResponse.buy.buy_price) || contractParams.amount;
+      const payout = Number(buyResponse.buy.payout) || null;
+
       const buyDuration = Date.now() - buyStartTime;
       this.logger.log(`[ORION] ✅ [${userId || 'SYSTEM'}] Contrato criado em ${buyDuration}ms | ContractId: ${contractId} | Monitorando...`);
       if (userId) {
@@ -3720,7 +3415,7 @@ Status: Proteção Ativada`;
                 }
 
                 connection.removeSubscription(contractId);
-                resolve({ contractId, profit, exitSpot, entrySpot });
+                resolve({ contractId, profit, exitSpot, entrySpot, buyPrice, payout });
               }
             } catch (error) {
               if (!hasResolved) {
@@ -4205,360 +3900,6 @@ Status: Proteção Ativada`;
     return Number.isNaN(digit) ? 0 : digit;
   }
 
-  /**
-   * ✅ ORION: Monitora contrato e processa resultado (LEGADO - não mais usado)
-   */
-  private async monitorOrionContract(
-    contractId: string,
-    state: VelozUserState | ModeradoUserState | PrecisoUserState,
-    stakeAmount: number,
-    operation: DigitParity,
-    tradeId: number,
-    mode: string,
-  ): Promise<void> {
-    return new Promise((resolve) => {
-      this.logger.log(`[ORION][${mode}] 🔍 Iniciando monitoramento do contrato ${contractId} (tradeId: ${tradeId})`);
-
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-      const ws = new WebSocket(endpoint, {
-        headers: {
-          Origin: 'https://app.deriv.com',
-        },
-      });
-
-      const timeout = setTimeout(async () => {
-        ws.close();
-        state.isOperationActive = false;
-        this.logger.warn(`[ORION][${mode}] ⏱️ Timeout ao monitorar contrato ${contractId}`);
-
-        // ✅ Marcar trade como ERROR no banco de dados
-        await this.dataSource.query(
-          `UPDATE ai_trades SET status = 'ERROR', error_message = ? WHERE id = ?`,
-          [`Timeout ao monitorar contrato ${contractId} (15s)`, tradeId],
-        ).catch(err => {
-          this.logger.error(`[ORION] Erro ao atualizar trade com status ERROR (timeout):`, err);
-        });
-
-        // ✅ Log de erro com informações do timeout
-        this.saveOrionLog(state.userId, this.symbol, 'erro', `⏱️ Timeout ao monitorar contrato ${contractId} após 15 segundos - Operação cancelada | Contrato não finalizou no tempo esperado`);
-
-        // ✅ NÃO incrementar perdaAcumulada quando for erro
-        // ✅ Resetar contador de ticks para permitir nova tentativa
-        if ('ticksDesdeUltimaOp' in state) {
-          state.ticksDesdeUltimaOp = 0;
-        }
-
-        resolve();
-      }, 15000); // ✅ 15 segundos (contrato dura apenas 1 segundo, então 15s é mais que suficiente)
-
-      ws.on('open', () => {
-        this.logger.debug(`[ORION][${mode}] 🔌 WebSocket aberto para monitoramento do contrato ${contractId}`);
-        ws.send(JSON.stringify({ authorize: state.derivToken }));
-      });
-
-      ws.on('message', async (data: Buffer) => {
-        try {
-          const msg = JSON.parse(data.toString());
-
-          if (msg.authorize) {
-            this.logger.debug(`[ORION][${mode}] ✅ Autorizado, inscrevendo no contrato ${contractId}`);
-            ws.send(JSON.stringify({
-              proposal_open_contract: 1,
-              contract_id: contractId,
-              subscribe: 1,
-            }));
-            return;
-          }
-
-          if (msg.proposal_open_contract) {
-            const contract = msg.proposal_open_contract;
-            this.logger.debug(`[ORION][${mode}] 📊 Atualização do contrato ${contractId}: is_sold=${contract.is_sold} (tipo: ${typeof contract.is_sold}), status=${contract.status}, profit=${contract.profit}`);
-
-            // ✅ Verificar se contrato foi rejeitado, cancelado ou expirado
-            if (contract.status === 'rejected' || contract.status === 'cancelled' || contract.status === 'expired') {
-              clearTimeout(timeout);
-              ws.close();
-              state.isOperationActive = false;
-
-              const errorMsg = `Contrato ${contract.status}: ${contract.error_message || 'Sem mensagem de erro'}`;
-              const errorResponse = JSON.stringify(contract);
-              this.logger.error(`[ORION][${mode}] ❌ Contrato ${contractId} foi ${contract.status}:`, errorMsg);
-
-              // ✅ Marcar trade como ERROR no banco de dados
-              await this.dataSource.query(
-                `UPDATE ai_trades SET status = 'ERROR', error_message = ? WHERE id = ?`,
-                [errorMsg, tradeId],
-              ).catch(err => {
-                this.logger.error(`[ORION] Erro ao atualizar trade com status ERROR (${contract.status}):`, err);
-              });
-
-              // ✅ Log de erro com resposta completa da API
-              this.saveOrionLog(state.userId, this.symbol, 'erro', `❌ Contrato ${contractId} foi ${contract.status} - Operação cancelada | Resposta Deriv: ${errorResponse}`);
-
-              // ✅ NÃO incrementar perdaAcumulada quando for erro
-              // ✅ Resetar contador de ticks para permitir nova tentativa
-              if ('ticksDesdeUltimaOp' in state) {
-                state.ticksDesdeUltimaOp = 0;
-              }
-
-              resolve();
-              return;
-            }
-
-            // Verificar se contrato foi finalizado
-            // Aceitar tanto is_sold (1 ou true) quanto status ('won', 'lost', 'sold')
-            const isFinalized = contract.is_sold === 1 || contract.is_sold === true ||
-              contract.status === 'won' || contract.status === 'lost' || contract.status === 'sold';
-
-            if (isFinalized) {
-              clearTimeout(timeout);
-              ws.close();
-
-              const profit = Number(contract.profit || 0);
-              const exitPrice = Number(contract.exit_spot || contract.current_spot || contract.exit_tick || 0);
-              const status = profit >= 0 ? 'WON' : 'LOST';
-
-              this.logger.log(`[ORION][${mode}] ✅ Contrato ${contractId} finalizado: ${status} | P&L: $${profit.toFixed(2)} | Exit: ${exitPrice}`);
-
-              // Atualizar trade no banco
-              await this.dataSource.query(
-                `UPDATE ai_trades
-                 SET exit_price = ?, profit_loss = ?, status = ?, closed_at = NOW()
-                 WHERE id = ?`,
-                [exitPrice, profit, status, tradeId],
-              );
-
-              // Emitir evento de atualização
-              this.tradeEvents.emit({
-                userId: state.userId,
-                type: 'updated',
-                tradeId,
-                status,
-                strategy: 'orion',
-                profitLoss: profit,
-                exitPrice,
-              });
-
-              // Atualizar estado do usuário
-              state.isOperationActive = false;
-              state.capital += profit;
-
-              if (profit > 0) {
-                // ✅ CORREÇÃO: Verificar se estava em martingale ANTES de processar Soros
-                const estavaEmMartingale = (state.perdaAcumulada || 0) > 0;
-
-                // ✅ Resetar martingale primeiro (antes de qualquer processamento de Soros)
-                if ('perdaAcumulada' in state) {
-                  state.perdaAcumulada = 0;
-                }
-                if ('ultimaDirecaoMartingale' in state) {
-                  state.ultimaDirecaoMartingale = null;
-                }
-                if ('martingaleStep' in state) {
-                  state.martingaleStep = 0;
-                }
-                if ('ultimaApostaUsada' in state) {
-                  state.ultimaApostaUsada = 0;
-                }
-
-                if (estavaEmMartingale) {
-                  // ✅ Se estava em martingale, NÃO aplicar Soros
-                  // Resetar tudo e aguardar próxima vitória (sem martingale) para iniciar Soros
-                  if ('vitoriasConsecutivas' in state) {
-                    state.vitoriasConsecutivas = 0; // Resetar contador de vitórias
-                  }
-                  if ('ultimoLucro' in state) {
-                    state.ultimoLucro = 0; // Resetar lucro anterior
-                  }
-                  if ('apostaBase' in state) {
-                    state.apostaBase = state.apostaInicial || state.capital || 0.35; // Resetar para aposta inicial
-                  }
-
-                  this.logger.log(
-                    `[ORION][${mode}][${state.userId}] ✅ Recuperou perdas do martingale! Resetando tudo. Próxima vitória (sem martingale) iniciará Soros.`,
-                  );
-                  this.saveOrionLog(state.userId, this.symbol, 'resultado', `✅ Recuperou perdas do martingale! Resetando aposta para: $${(state.apostaBase || state.apostaInicial || 0.35).toFixed(2)}`);
-                  this.saveOrionLog(state.userId, this.symbol, 'resultado', `Próxima aposta: $${(state.apostaBase || state.apostaInicial || 0.35).toFixed(2)} (entrada inicial - aguardando próxima vitória para iniciar Soros)`);
-                } else {
-                  // ✅ NÃO estava em martingale: aplicar Soros normalmente
-                  // Incrementar vitórias consecutivas
-                  const vitoriasAntes = state.vitoriasConsecutivas || 0;
-                  if ('vitoriasConsecutivas' in state) {
-                    state.vitoriasConsecutivas = vitoriasAntes + 1;
-                  }
-
-                  // ✅ DEBUG: Log do estado antes de processar Soros
-                  this.logger.debug(
-                    `[ORION][${mode}][${state.userId}] ✅ VITÓRIA | Stake: $${stakeAmount.toFixed(2)} | Lucro: $${profit.toFixed(2)} | Vitórias consecutivas: ${state.vitoriasConsecutivas} | ApostaBase: $${(state.apostaBase || state.apostaInicial || 0.35).toFixed(2)}`,
-                  );
-
-                  // ✅ ZENIX v2.0: Se completou Soros nível 3 (4 vitórias consecutivas), reiniciar tudo
-                  if (state.vitoriasConsecutivas === 4) {
-                    this.logger.log(
-                      `[ORION][${mode}][${state.userId}] 🎉 SOROS CICLO PERFEITO! 4 vitórias consecutivas (até nível 3). Reiniciando para entrada inicial.`,
-                    );
-                    this.saveOrionLog(state.userId, this.symbol, 'resultado', `🎉 SOROS CICLO PERFEITO! 4 vitórias consecutivas (até nível 3)`);
-                    this.saveOrionLog(state.userId, this.symbol, 'resultado', `Reiniciando para entrada inicial: $${(state.apostaBase || state.apostaInicial || 0.35).toFixed(2)}`);
-
-                    // Resetar tudo
-                    state.vitoriasConsecutivas = 0;
-                    state.ultimoLucro = 0;
-                    state.apostaBase = state.apostaInicial || state.capital || 0.35;
-                  } else {
-                    // Atualizar lucro e aposta base para próximo Soros
-                    if ('ultimoLucro' in state) {
-                      state.ultimoLucro = profit;
-                    }
-                    if ('apostaBase' in state) {
-                      // Atualizar apostaBase com o valor da aposta atual para próximo Soros
-                      state.apostaBase = stakeAmount;
-                    }
-
-                    // ✅ DEBUG: Log do estado após vitória
-                    this.logger.debug(
-                      `[ORION][${mode}][${state.userId}] ✅ Estado após vitória | Vitórias consecutivas: ${state.vitoriasConsecutivas} | ApostaBase: $${state.apostaBase.toFixed(2)} | UltimoLucro: $${state.ultimoLucro.toFixed(2)}`,
-                    );
-
-                    // Log do Soros
-                    if (state.vitoriasConsecutivas > 0 && state.vitoriasConsecutivas <= SOROS_MAX_NIVEL) {
-                      const proximaApostaSoros = calcularApostaComSoros(stakeAmount, profit, state.vitoriasConsecutivas);
-                      if (proximaApostaSoros !== null) {
-                        this.logger.log(
-                          `[ORION][${mode}][${state.userId}] 💰 SOROS Nível ${state.vitoriasConsecutivas} | Próxima aposta: $${proximaApostaSoros.toFixed(2)}`,
-                        );
-                        this.saveOrionLog(state.userId, this.symbol, 'resultado', `💰 SOROS Nível ${state.vitoriasConsecutivas} | Próxima aposta: $${proximaApostaSoros.toFixed(2)}`);
-                      } else {
-                        this.logger.warn(
-                          `[ORION][${mode}][${state.userId}] ⚠️ calcularApostaComSoros retornou null | Vitórias: ${state.vitoriasConsecutivas} | Stake: $${stakeAmount.toFixed(2)} | Lucro: $${profit.toFixed(2)}`,
-                        );
-                      }
-                    } else {
-                      // Se não está mais no Soros, logar próxima aposta inicial
-                      this.saveOrionLog(state.userId, this.symbol, 'resultado', `Próxima aposta: $${(state.apostaBase || state.apostaInicial || 0.35).toFixed(2)} (entrada inicial)`);
-                    }
-                  }
-                }
-              } else {
-                // ❌ PERDA: Resetar Soros e ativar martingale
-                const entryNumber = (state.martingaleStep || 0) + 1;
-
-                // ✅ ZENIX v2.0: Se perder em qualquer entrada do Soros (1, 2 ou 3), resetar Soros
-                if (entryNumber <= 3 && state.perdaAcumulada === stakeAmount) {
-                  // Perdeu no Soros: resetar Soros e entrar em recuperação
-                  if (state.vitoriasConsecutivas > 0) {
-                    this.logger.log(
-                      `[ORION][${mode}][${state.userId}] ❌ Soros Nível ${state.vitoriasConsecutivas} falhou! Entrando em recuperação (martingale)`,
-                    );
-                    this.saveOrionLog(state.userId, this.symbol, 'resultado', `❌ Soros Nível ${state.vitoriasConsecutivas} falhou! Entrando em recuperação`);
-                  } else {
-                    this.logger.log(
-                      `[ORION][${mode}][${state.userId}] ❌ Entrada 1 falhou! Entrando em recuperação (martingale)`,
-                    );
-                  }
-                  state.vitoriasConsecutivas = 0;
-                  state.ultimoLucro = 0;
-                  // perdaAcumulada já será incrementada abaixo
-                } else if (entryNumber === 1) {
-                  // Perda na primeira entrada (não estava no Soros)
-                  state.vitoriasConsecutivas = 0;
-                  state.ultimoLucro = 0;
-                }
-
-                // Ativar martingale
-                if ('perdaAcumulada' in state) {
-                  // ✅ CORREÇÃO: Somar o stakeAmount (valor apostado), não o profit
-                  state.perdaAcumulada = (state.perdaAcumulada || 0) + stakeAmount;
-                }
-                if ('ultimaDirecaoMartingale' in state) {
-                  state.ultimaDirecaoMartingale = operation; // ✅ CORREÇÃO: Salvar direção para continuar martingale
-                }
-                // ✅ CORREÇÃO: Incrementar martingaleStep após perda
-                if ('martingaleStep' in state) {
-                  state.martingaleStep = (state.martingaleStep || 0) + 1;
-                }
-
-                // ✅ Log do martingale
-                this.logger.log(
-                  `[ORION][${mode}][${state.userId}] ❌ PERDA | Stake: $${stakeAmount.toFixed(2)} | Perda acumulada: $${state.perdaAcumulada.toFixed(2)} | Próxima entrada: ${(state.martingaleStep || 0) + 1}`,
-                );
-              }
-
-              // Logs do resultado
-              const logType = status === 'WON' ? 'resultado' : 'erro';
-              this.saveOrionLog(state.userId, this.symbol, logType,
-                `${status === 'WON' ? '✅ GANHOU' : '❌ PERDEU'} | ${operation} | P&L: $${profit >= 0 ? '+' : ''}${profit.toFixed(2)}`);
-
-              this.logger.log(
-                `[ORION][${mode}] ${status} | User: ${state.userId} | P&L: $${profit.toFixed(2)}`,
-              );
-
-              resolve();
-            }
-          }
-        } catch (error) {
-          this.logger.error(`[ORION][${mode}] Erro ao monitorar contrato:`, error);
-
-          // ✅ Se houver erro no processamento, marcar trade como ERROR
-          clearTimeout(timeout);
-          ws.close();
-          state.isOperationActive = false;
-
-          const errorResponse = error instanceof Error ? error.stack || error.message : JSON.stringify(error);
-
-          // ✅ Marcar trade como ERROR no banco de dados
-          await this.dataSource.query(
-            `UPDATE ai_trades SET status = 'ERROR', error_message = ? WHERE id = ?`,
-            [`Erro ao processar mensagem: ${error.message || 'Erro desconhecido'}`, tradeId],
-          ).catch(err => {
-            this.logger.error(`[ORION] Erro ao atualizar trade com status ERROR (catch):`, err);
-          });
-
-          // ✅ Log de erro com resposta completa
-          this.saveOrionLog(state.userId, this.symbol, 'erro', `❌ Erro ao processar contrato ${contractId}: ${error.message || 'Erro desconhecido'} - Operação cancelada | Detalhes: ${errorResponse}`);
-
-          // ✅ NÃO incrementar perdaAcumulada quando for erro
-          // ✅ Resetar contador de ticks para permitir nova tentativa
-          if ('ticksDesdeUltimaOp' in state) {
-            state.ticksDesdeUltimaOp = 0;
-          }
-
-          resolve();
-        }
-      });
-
-      ws.on('error', async (error) => {
-        clearTimeout(timeout);
-        this.logger.error(`[ORION][${mode}] ❌ Erro no WebSocket de monitoramento do contrato ${contractId}:`, error);
-        state.isOperationActive = false;
-
-        const errorResponse = error instanceof Error ? error.stack || error.message : JSON.stringify(error);
-
-        // ✅ Marcar trade como ERROR no banco de dados
-        await this.dataSource.query(
-          `UPDATE ai_trades SET status = 'ERROR', error_message = ? WHERE id = ?`,
-          [`Erro no WebSocket: ${error.message || 'Erro desconhecido'}`, tradeId],
-        ).catch(err => {
-          this.logger.error(`[ORION] Erro ao atualizar trade com status ERROR (websocket):`, err);
-        });
-
-        // ✅ Log de erro com detalhes completos
-        this.saveOrionLog(state.userId, this.symbol, 'erro', `❌ Erro no WebSocket ao monitorar contrato ${contractId} - Operação cancelada | Detalhes: ${errorResponse}`);
-
-        // ✅ NÃO incrementar perdaAcumulada quando for erro
-        // ✅ Resetar contador de ticks para permitir nova tentativa
-        if ('ticksDesdeUltimaOp' in state) {
-          state.ticksDesdeUltimaOp = 0;
-        }
-
-        resolve();
-      });
-
-      ws.on('close', () => {
-        this.logger.debug(`[ORION][${mode}] 🔌 WebSocket fechado para contrato ${contractId}`);
-      });
-    });
-  }
-
   private upsertVelozUserState(params: {
     userId: string;
     stakeAmount: number; // Capital total da conta
@@ -1,91 +1,61 @@
-import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
-import { DataSource } from 'typeorm';
-import { InjectDataSource } from '@nestjs/typeorm';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Tick } from '../ai.service';
 import { IStrategy } from './common.types';
 import { OrionStrategy } from './orion.strategy';
 import { AtlasStrategy } from './atlas.strategy';
 import { ApolloStrategy } from './apollo.strategy';
-import { TitanStrategy } from './titan.strategy';
-import { NexusStrategy } from './nexus.strategy';
-
+import { StrategyRegistryService } from '../../strategies/registry/strategy-registry.service';
+import { RegisteredStrategy, StrategyMetadata } from '../../strategies/registry/strategy-registry.types';
+
+/**
+ * Gerencia as estratégias de IA registradas com @RegisterStrategy({ kind: 'ai', ... })
+ *
+ * Novas estratégias não precisam ser adicionadas aqui: basta declarar o decorator e registrar o provider no AiModule.
+ */
 @Injectable()
 export class StrategyManagerService implements OnModuleInit {
   private readonly logger = new Logger(StrategyManagerService.name);
   private strategies = new Map<string, IStrategy>();
+  private subscribersBySymbol = new Map<string, RegisteredStrategy<IStrategy>[]>();
 
   constructor(
-    @InjectDataSource() private dataSource: DataSource,
-    private orionStrategy: OrionStrategy,
-    private atlasStrategy: AtlasStrategy,
-    private apolloStrategy: ApolloStrategy,
-    private titanStrategy: TitanStrategy,
-    private nexusStrategy: NexusStrategy,
+    private readonly strategyRegistry: StrategyRegistryService,
   ) { }
 
   async onModuleInit() {
-    // Registrar estratégias
-    this.strategies.set('orion', this.orionStrategy);
-    this.strategies.set('atlas', this.atlasStrategy);
-    this.strategies.set('apollo', this.apolloStrategy);
-    this.strategies.set('titan', this.titanStrategy);
-    this.strategies.set('nexus', this.nexusStrategy);
+    // Registrar estratégias descobertas no boot
+    for (const { metadata, instance } of this.strategyRegistry.getStrategies<IStrategy>('ai')) {
+      this.strategies.set(metadata.name, instance);
+    }
+    this.subscribersBySymbol = this.strategyRegistry.buildSymbolIndex<IStrategy>('ai');
 
     // Inicializar estratégias
-    await this.orionStrategy.initialize();
-    await this.atlasStrategy.initialize();
-    await this.apolloStrategy.initialize();
-    await this.titanStrategy.initialize();
-    await this.nexusStrategy.initialize();
+    for (const strategy of this.strategies.values()) {
+      await strategy.initialize();
+    }
 
     this.logger.log(`[StrategyManager] ✅ ${this.strategies.size} estratégias registradas: ${Array.from(this.strategies.keys()).join(', ')} `);
   }
 
   /**
-   * Processa um tick para todas as estratégias ativas
+   * Processa um tick nas estratégias inscritas no símbolo
    * ✅ OTIMIZADO: Processa estratégias em paralelo para reduzir latência
    */
   async processTick(tick: Tick, symbol?: string): Promise<void> {
-    const promises: Promise<void>[] = [];
-
-    // ✅ FIX: Sempre enviar ticks para TODAS as estratégias
-    // Cada estratégia filtra internamente qual symbol ela processa
-
-    // ORION, TITAN: Processam 1HZ100V (filtro interno)
-    // NEXUS: Processa R_25
-    promises.push(
-      this.orionStrategy.processTick(tick, symbol || 'R_100').catch(error => {
-        this.logger.error('[StrategyManager][Orion] Erro:', error);
-      }),
-      // ✅ FIX: Titan configurado para R_75
-      this.titanStrategy.processTick(tick, symbol || 'R_75').catch(error => {
-        this.logger.error('[StrategyManager][Titan] Erro:', error);
-      }),
-      this.nexusStrategy.processTick(tick, symbol || 'R_25').catch(error => {
-        this.logger.error('[StrategyManager][Nexus] Erro:', error);
-      })
-    );
-
-    // ATLAS: Processa R_10, R_25, R_100 e 1HZ100V
-    if (symbol) {
-      promises.push(
-        this.atlasStrategy.processTick(tick, symbol).catch(error => {
-          this.logger.error('[StrategyManager][Atlas] Erro:', error);
-        })
-      );
-    }
-
-    // APOLLO: Suporta múltiplos mercados
-    if (symbol) {
-      promises.push(
-        this.apolloStrategy.processTick(tick, symbol).catch(error => {
-          this.logger.error('[StrategyManager][Apollo] Erro:', error);
-        })
-      );
+    const tickSymbol = symbol || 'R_100';
+    const subscribers = this.subscribersBySymbol.get(tickSymbol);
+    if (!subscribers || subscribers.length === 0) {
+      return;
     }
 
     // Processar todas as estratégias em paralelo
-    await Promise.all(promises);
+    await Promise.all(
+      subscribers.map(({ metadata, instance }) =>
+        instance.processTick(tick, tickSymbol).catch(error => {
+          this.logger.error(`[StrategyManager][${metadata.name}] Erro:`, error);
+        }),
+      ),
+    );
   }
 
   /**
@@ -141,6 +111,13 @@ export class StrategyManagerService implements OnModuleInit {
     return this.strategies;
   }
 
+  /**
+   * Metadados (símbolos, contratos e schema de configuração) das estratégias registradas
+   */
+  getStrategiesMetadata(): StrategyMetadata[] {
+    return this.strategyRegistry.getMetadata('ai');
+  }
+
   /**
    * Verifica se uma estratégia está registrada
    */
@@ -150,15 +127,14 @@ export class StrategyManagerService implements OnModuleInit {
 
   // Getters para acesso direto às estratégias
   getOrionStrategy(): OrionStrategy {
-    return this.orionStrategy;
+    return this.getStrategy('orion') as OrionStrategy;
   }
 
   getAtlasStrategy(): AtlasStrategy {
-    return this.atlasStrategy;
+    return this.getStrategy('atlas') as AtlasStrategy;
   }
 
   getApolloStrategy(): ApolloStrategy {
-    return this.apolloStrategy;
+    return this.getStrategy('apollo') as ApolloStrategy;
   }
 }
-
@@ -1,9 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import { Tick, DigitParity } from '../ai.service';
-import { IStrategy, ModoMartingale } from './common.types';
+import { IStrategy, ModoMartingale, AI_STRATEGY_CONFIG_SCHEMA } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { CopyTradingService } from '../../copy-trading/copy-trading.service';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 import { TradeEventsService } from '../trade-events.service';
 import { formatCurrency } from '../../utils/currency.utils';
 
@@ -474,6 +478,16 @@ interface TitanUserState {
     lastOperationStart?: number;
 }
 
+@RegisterStrategy({
+    kind: 'ai',
+    name: 'titan',
+    symbols: ['R_75'],
+    contractTypes: ['DIGITEVEN', 'DIGITODD', 'CALL', 'PUT'],
+    configSchema: {
+        ...AI_STRATEGY_CONFIG_SCHEMA,
+        mode: { type: 'string', enum: ['veloz', 'normal', 'preciso'], default: 'veloz' },
+    },
+})
 @Injectable()
 export class TitanStrategy implements IStrategy {
     name = 'titan';
@@ -482,20 +496,6 @@ export class TitanStrategy implements IStrategy {
     private riskManagers = new Map<string, RiskManager>();
     private ticks: Tick[] = [];
     private symbol = 'R_75';
-    private appId: string;
-
-    // ✅ Pool de conexões WebSocket por token
-    private wsConnections: Map<
-        string,
-        {
-            ws: WebSocket;
-            authorized: boolean;
-            keepAliveInterval: NodeJS.Timeout | null;
-            requestIdCounter: number;
-            pendingRequests: Map<string, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-            subscriptions: Map<string, (msg: any) => void>;
-        }
-    > = new Map();
 
     private logQueue: Array<{
         userId: string;
@@ -512,10 +512,10 @@ export class TitanStrategy implements IStrategy {
         private dataSource: DataSource,
         private tradeEvents: TradeEventsService,
         private readonly copyTradingService: CopyTradingService,
-
-    ) {
-        this.appId = process.env.DERIV_APP_ID || '111346';
-    }
+        @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+        private readonly planPermissions?: PlanPermissionsService,
+        private readonly tradeLedger?: TradeLedgerService,
+    ) { }
 
     async initialize(): Promise<void> {
         this.logger.log('[TITAN] Estratégia TITAN Master inicializada');
@@ -722,8 +722,14 @@ export class TitanStrategy implements IStrategy {
     }
 
     async deactivateUser(userId: string): Promise<void> {
+        const token = this.users.get(userId)?.derivToken;
         this.users.delete(userId);
         this.riskManagers.delete(userId);
+
+        // ✅ Liberar a conexão no gateway quando nenhum usuário TITAN usar mais o token
+        if (token && !Array.from(this.users.values()).some((state) => state.derivToken === token)) {
+            this.brokerGateway.releaseConnection(token, 'titan');
+        }
     }
 
     getUserState(userId: string) { return this.users.get(userId); }
@@ -971,7 +977,7 @@ export class TitanStrategy implements IStrategy {
                 contract_type: direction === 'PAR' ? 'DIGITEVEN' : 'DIGITODD',
                 amount: stake,
                 currency: state.currency,
-            }, state.userId, async (contractId, entryPrice) => {
+            }, state.userId, async (contractId, entryPrice, buy) => {
                 // ✅ [TITAN] Master Trader Replication - IMMEDIATE (at entry)
                 try {
                     const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
@@ -1003,21 +1009,23 @@ export class TitanStrategy implements IStrategy {
 
                         // 2. Chamar serviço de cópia para execução imediata
                         if (this.copyTradingService) {
-                            await this.copyTradingService.replicateManualOperation(
-                                state.userId,
-                                {
-                                    contractId: contractId || '',
-                                    contractType: direction === 'PAR' ? 'DIGITEVEN' : 'DIGITODD',
-                                    symbol: this.symbol,
-                                    duration: 5,
-                                    durationUnit: 't',
-                                    stakeAmount: stake,
-                                    percent: percent,
-                                    entrySpot: entryPrice || 0,
-                                    entryTime: unixTimestamp,
-                                    barrier: 3,
-                                },
-                            );
+                            this.copyTradingService.replicateTradeToFollowers(state.userId, {
+                                traderOperationId: String(tradeId),
+                                contractId: contractId || '',
+                                contractType: direction === 'PAR' ? 'DIGITEVEN' : 'DIGITODD',
+                                symbol: this.symbol,
+                                duration: 5,
+                                durationUnit: 't',
+                                barrier: 3,
+                                stakeAmount: stake,
+                                buyPrice: Number(buy.buy_price) || stake,
+                                payout: Number(buy.payout) || null,
+                                spot: entryPrice || null,
+                                stakePercent: percent,
+                                filledAt: new Date(unixTimestamp * 1000),
+                            }).catch((error: any) => {
+                                this.logger.error(`[TITAN] Erro ao replicar operação para copiadores: ${error.message}`);
+                            });
                         }
                     }
                 } catch (repError) {
@@ -1031,23 +1039,6 @@ export class TitanStrategy implements IStrategy {
                 state.capital += result.profit;
                 state.ultimoLucro = result.profit;
 
-                // ✅ [TITAN] Master Trader Result Update
-                try {
-                    const userMaster = await this.dataSource.query('SELECT trader_mestre FROM users WHERE id = ?', [state.userId]);
-                    if (userMaster && userMaster.length > 0 && userMaster[0].trader_mestre === 1 && this.copyTradingService) {
-                        const resMap = result.profit >= 0 ? 'win' : 'loss';
-                        await this.copyTradingService.updateCopyTradingOperationsResult(
-                            state.userId,
-                            result.contractId,
-                            resMap,
-                            result.profit,
-                            stake
-                        );
-                    }
-                } catch (resError) {
-                    this.logger.error(`[TITAN] Erro ao atualizar resultados do Copy Trading:`, resError);
-                }
-
 
                 // ✅ Atualizar session_balance no banco de dados para sincronia com o frontend e RiskManager
                 const lucroSessao = state.capital - state.capitalInicial;
@@ -1116,6 +1107,7 @@ export class TitanStrategy implements IStrategy {
                 }
 
                 await this.dataSource.query(`UPDATE ai_trades SET status = ?, profit_loss = ?, exit_price = ?, closed_at = NOW() WHERE id = ?`, [status, result.profit, result.exitSpot, tradeId]);
+                this.tradeLedger?.sync('ai', tradeId);
 
 
 
@@ -1124,6 +1116,7 @@ export class TitanStrategy implements IStrategy {
                 // Se falhou ao executar, marcar como falha ou remover o trade pendente
                 this.logger.warn(`[TITAN][${state.userId}] Trade ${tradeId} falhou na execução.`);
                 await this.dataSource.query(`UPDATE ai_trades SET status = 'ERROR' WHERE id = ?`, [tradeId]);
+                this.tradeLedger?.sync('ai', tradeId);
             }
         } catch (e) {
             this.logger.error(`[TITAN][ERR] ${e.message}`);
@@ -1140,6 +1133,7 @@ export class TitanStrategy implements IStrategy {
             [state.userId, direction, entryPrice, stake, direction === 'PAR' ? 'DIGITEVEN' : 'DIGITODD', JSON.stringify(analysisData), this.symbol, 1]
         );
         const tradeId = r.insertId || r[0]?.insertId;
+        this.tradeLedger?.sync('ai', tradeId, ledgerContextFromCurrency(state.currency));
 
 
 
@@ -1150,12 +1144,23 @@ export class TitanStrategy implements IStrategy {
         token: string,
         params: { contract_type: string; amount: number; currency: string },
         userId: string,
-        onBuy?: (contractId: string, entryPrice: number) => Promise<void>
+        onBuy?: (contractId: string, entryPrice: number, buy: { buy_price: number; payout: number }) => Promise<void>
     ): Promise<{ contractId: string; profit: number; exitSpot: number; entrySpot: number } | null> {
+        // ✅ Limites do plano no momento da operação
+        const planBlock = await this.planPermissions?.checkTrade(userId, {
+            product: 'ai',
+            stake: params.amount,
+            symbol: this.symbol,
+        });
+        if (planBlock) {
+            this.saveTitanLog(userId, this.symbol, 'alerta', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+            return null;
+        }
+
         return new Promise(async (resolve, reject) => {
             try {
-                const conn = await this.getOrCreateWebSocketConnection(token, userId);
-                const { ws, sendRequest, subscribe, removeSubscription } = conn;
+                const conn = await this.brokerGateway.getConnection(token, { owner: 'titan', label: userId });
+                const { sendRequest, subscribe, removeSubscription } = conn;
 
                 // 1. Enviar Ordem de Compra
                 const buyReq = {
@@ -1184,7 +1189,7 @@ export class TitanStrategy implements IStrategy {
 
                 // ✅ Chamar callback onBuy IMEDIATAMENTE (Replication)
                 if (onBuy) {
-                    onBuy(contractId, buyRes.buy.entry_tick || buyRes.buy.price).catch(err => {
+                    onBuy(contractId, buyRes.buy.entry_tick || buyRes.buy.price, buyRes.buy).catch(err => {
                         this.logger.error(`[TITAN] Erro no callback onBuy: ${err.message}`);
                     });
                 }
@@ -1244,161 +1249,6 @@ export class TitanStrategy implements IStrategy {
         });
     }
 
-    // ===================================
-    // WEBSOCKET REUTILIZÁVEL (POOL)
-    // ===================================
-    private async getOrCreateWebSocketConnection(token: string, userId: string): Promise<any> {
-        // Se já existe e está conectada/autorizada, retorna
-        const existing = this.wsConnections.get(token);
-        if (existing && existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-            return existing;
-        }
-
-        // Se existe mas caiu, fecha e remove para recriar
-        if (existing) {
-            try {
-                existing.ws.terminate();
-            } catch (e) { }
-            if (existing.keepAliveInterval) clearInterval(existing.keepAliveInterval);
-            this.wsConnections.delete(token);
-        }
-
-        this.logger.debug(`[TITAN] 🔌 Criando nova conexão WebSocket para Token ${token.substring(0, 8)}...`);
-
-        // Cria nova
-        const ws = new WebSocket('wss://ws.derivws.com/websockets/v3?app_id=' + this.appId);
-
-        const connectionObj = {
-            ws,
-            authorized: false,
-            keepAliveInterval: null as NodeJS.Timeout | null,
-            requestIdCounter: 0,
-            pendingRequests: new Map(),
-            subscriptions: new Map(),
-            sendRequest: (req: any, timeoutMs = 30000) => {
-                return new Promise((resolve, reject) => {
-                    const reqId = ++connectionObj.requestIdCounter;
-                    req.req_id = reqId;
-
-                    const timer = setTimeout(() => {
-                        if (connectionObj.pendingRequests.has(reqId.toString())) {
-                            connectionObj.pendingRequests.delete(reqId.toString());
-                            reject(new Error('Timeout'));
-                        }
-                    }, timeoutMs);
-
-                    connectionObj.pendingRequests.set(reqId.toString(), { resolve, reject, timeout: timer });
-                    ws.send(JSON.stringify(req));
-                });
-            },
-            subscribe: (req: any, callback: (msg: any) => void, subscriptionIdKey: string) => {
-                return new Promise((resolve, reject) => {
-                    const reqId = ++connectionObj.requestIdCounter;
-                    req.req_id = reqId;
-
-                    // Registra callback temporário para pegar o ID da subscription
-                    const tempResolve = (response: any) => {
-                        if (response.error) {
-                            reject(response.error);
-                            return;
-                        }
-                        // Armazena callback oficial
-                        connectionObj.subscriptions.set(subscriptionIdKey, callback);
-                        resolve(response);
-                    };
-
-                    const timer = setTimeout(() => {
-                        if (connectionObj.pendingRequests.has(reqId.toString())) {
-                            connectionObj.pendingRequests.delete(reqId.toString());
-                            reject(new Error('Timeout subscribe'));
-                        }
-                    }, 10000);
-
-                    connectionObj.pendingRequests.set(reqId.toString(), { resolve: tempResolve, reject, timeout: timer });
-                    ws.send(JSON.stringify(req));
-                });
-            },
-            removeSubscription: (subscriptionIdKey: string) => {
-                connectionObj.subscriptions.delete(subscriptionIdKey);
-            }
-        };
-
-        this.wsConnections.set(token, connectionObj);
-
-        return new Promise((resolve, reject) => {
-            ws.on('open', async () => {
-                this.logger.debug(`[TITAN] 🟢 Conectado ao Deriv WS. Autenticando...`);
-                try {
-                    const authRes: any = await connectionObj.sendRequest({ authorize: token });
-                    if (authRes.error) {
-                        this.logger.error(`[TITAN] ❌ Erro Auth: ${authRes.error.message}`);
-                        this.wsConnections.delete(token); // Remove se falhar auth
-                        reject(authRes.error);
-                    } else {
-                        this.logger.log(`[TITAN] ✅ Autenticado com sucesso! Conta: ${authRes.authorize.loginid}`);
-                        connectionObj.authorized = true;
-
-                        // Keep Alive
-                        connectionObj.keepAliveInterval = setInterval(() => {
-                            if (ws.readyState === WebSocket.OPEN) {
-                                ws.send(JSON.stringify({ ping: 1 }));
-                            }
-                        }, 30000);
-
-                        resolve(connectionObj);
-                    }
-                } catch (e) {
-                    reject(e);
-                }
-            });
-
-            ws.on('message', (data) => {
-                try {
-                    const msg = JSON.parse(data.toString());
-
-                    // Resposta direta a req_id
-                    if (msg.req_id) {
-                        const pending = connectionObj.pendingRequests.get(msg.req_id.toString());
-                        if (pending) {
-                            clearTimeout(pending.timeout);
-                            connectionObj.pendingRequests.delete(msg.req_id.toString());
-                            pending.resolve(msg);
-                        }
-                    }
-
-                    // Mensagens de subscription (contract update)
-                    // msg.proposal_open_contract -> verificar contract_id
-                    if (msg.msg_type === 'proposal_open_contract') {
-                        const contractId = msg.proposal_open_contract.contract_id;
-                        // Procura se tem callback registrado para esse contrato
-                        // Converter para string pois as chaves do Map são strings
-                        const subKey = String(contractId);
-
-                        if (connectionObj.subscriptions.has(subKey)) {
-                            // this.logger.debug(`[TITAN] 📨 Update para contrato ${contractId}`);
-                            connectionObj.subscriptions.get(subKey)(msg);
-                        }
-                    }
-
-                } catch (err) {
-                    this.logger.error(`[TITAN] Erro processar msg WS: ${err}`);
-                }
-            });
-
-            ws.on('error', (err) => {
-                this.logger.error(`[TITAN] ❌ Erro WS: ${err.message}`);
-                connectionObj.authorized = false;
-            });
-
-            ws.on('close', () => {
-                this.logger.warn(`[TITAN] 🔌 Conexão fechada.`);
-                connectionObj.authorized = false;
-                if (connectionObj.keepAliveInterval) clearInterval(connectionObj.keepAliveInterval);
-                this.wsConnections.delete(token);
-            });
-        });
-    }
-
     // ------------------------------------------------------------------
     // ✅ PROTEÇÃO DE LIMITES (Stop Blindado, Meta, Stop Loss)
     // ------------------------------------------------------------------
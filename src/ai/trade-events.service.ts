@@ -1,6 +1,7 @@
-import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Injectable, Logger, MessageEvent, Optional } from '@nestjs/common';
 import { Observable, Subject } from 'rxjs';
 import { filter, map } from 'rxjs/operators';
+import { NotificationEventsService } from '../notifications/notification-events.service';
 
 interface TradeEventPayload {
   userId: string;
@@ -38,8 +39,28 @@ export class TradeEventsService {
   private readonly logger = new Logger(TradeEventsService.name);
   private readonly stream$ = new Subject<TradeEventPayload>();
 
+  constructor(
+    // Opcional: o backtest instancia o serviço sem DI e não deve notificar ninguém
+    @Optional() private readonly notificationEvents?: NotificationEventsService,
+  ) { }
+
   emit(event: TradeEventPayload): void {
     this.stream$.next(event);
+
+    // ✅ Paradas por meta / stop loss / Stop Blindado viram notificação para o usuário
+    if (this.notificationEvents && event.type.startsWith('stopped_')) {
+      const strategy = event.strategy ? event.strategy.toUpperCase() : 'IA';
+      const amount = event.profitProtected ?? event.profitLoss;
+      this.notificationEvents.emitSessionStop(
+        event.userId,
+        'ai',
+        event.type,
+        amount !== undefined && amount !== null
+          ? `${strategy} encerrou a sessão. Resultado: ${amount >= 0 ? '+' : '-'}$${Math.abs(amount).toFixed(2)}`
+          : `${strategy} encerrou a sessão.`,
+        { strategy: event.strategy || null, symbol: event.symbol || null, profitLoss: amount ?? null },
+      );
+    }
   }
 
   emitLog(event: LogEventPayload): void {
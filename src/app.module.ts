@@ -10,6 +10,7 @@ import { CoursesModule } from './courses/courses.module';
 import { SupportModule } from './support/support.module';
 import { SettingsModule } from './settings/settings.module';
 import { PlansModule } from './plans/plans.module';
+import { PlanExpirationModule } from './plans/plan-expiration.module';
 import { TradesModule } from './trades/trades.module';
 import { GeminiModule } from './gemini/gemini.module';
 import { AiModule } from './ai/ai.module';
@@ -20,17 +21,23 @@ import { ExpertsModule } from './experts/experts.module';
 import { WebhookModule } from './webhook/webhook.module';
 import { AutonomousAgentModule } from './autonomous-agent/autonomous-agent.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { NotificationEventsModule } from './notifications/notification-events.module';
+import { TradeLedgerModule } from './trade-ledger/trade-ledger.module';
 import { UtilsModule } from './utils/utils.module';
 import { KiwifyModule } from './kiwify/kiwify.module';
 import { MarkupModule } from './markup/markup.module';
 import { MarketsModule } from './markets/markets.module';
 import { StrategiesModule } from './strategies/strategies.module';
+import { StrategyRegistryModule } from './strategies/registry/strategy-registry.module';
 
 @Module({
   imports: [
     ScheduleModule.forRoot(),
     DatabaseModule,
-    UtilsModule, // Módulo global para utilitários (LogQueueService) 
+    UtilsModule, // Módulo global para utilitários (LogQueueService, TickStoreService, TokenEncryptionService)
+    NotificationEventsModule, // Módulo global com o barramento de eventos de notificação
+    StrategyRegistryModule, // Módulo global: registro de estratégias (@RegisterStrategy)
+    TradeLedgerModule, // Módulo global: livro único de operações (trade_ledger)
     UserModule,
     AuthModule,
     BrokerModule,
@@ -38,6 +45,7 @@ import { StrategiesModule } from './strategies/strategies.module';
     SupportModule,
     SettingsModule,
     PlansModule,
+    PlanExpirationModule,
     TradesModule,
     GeminiModule,
     AiModule,
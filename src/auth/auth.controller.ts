@@ -1,6 +1,6 @@
 import { Body, Controller, HttpCode, HttpStatus, Post, Get, Req, UseGuards } from '@nestjs/common';
 import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
-import { AuthService } from './auth.service';
+import { AuthService, LoginClient, SessionTokens } from './auth.service';
 import { SettingsService } from '../settings/settings.service';
 import { JwtAuthGuard } from './jwt-auth.guard';
 import { CoursesService } from '../courses/courses.service';
@@ -14,6 +14,28 @@ class LoginDto {
   password: string;
 }
 
+class LoginTwoFactorDto {
+  @IsString()
+  @IsNotEmpty()
+  preAuthToken: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
+
+class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
+
+class UnlockAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
 class RegisterDto {
   @IsString()
   @IsNotEmpty()
@@ -78,44 +100,86 @@ export class AuthController {
   @Post('login')
   @HttpCode(HttpStatus.OK)
   async login(@Body() body: LoginDto, @Req() req: any) {
-    const result = await this.authService.login(body.email, body.password);
-    const token = result.token;
+    const result = await this.authService.login(body.email, body.password, this.getLoginClient(req));
+    if ('requiresTwoFactor' in result) {
+      return result;
+    }
 
-    // ✅ OTIMIZAÇÃO: Criar sessão e log de atividade de forma não-bloqueante
+    this.registerLogin(result.userId, req);
+    return this.toTokenResponse(result);
+  }
+
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactor(@Body() body: LoginTwoFactorDto, @Req() req: any) {
+    const result = await this.authService.loginWithTwoFactor(body.preAuthToken, body.code, this.getLoginClient(req));
+
+    this.registerLogin(result.userId, req, 'Realizou login no sistema (verificação em duas etapas)');
+    return this.toTokenResponse(result);
+  }
+
+  /**
+   * Renova o access token. O refresh token enviado deixa de valer e um novo é devolvido.
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() body: RefreshTokenDto) {
+    const result = await this.authService.refreshSession(body.refreshToken);
+    return this.toTokenResponse(result);
+  }
+
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async logout(@Req() req: any) {
+    return await this.authService.logout(req.user.userId, req.user.sessionId);
+  }
+
+  private toTokenResponse(result: SessionTokens) {
+    return {
+      token: result.token,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
+      refreshExpiresAt: result.refreshExpiresAt,
+    };
+  }
+
+  private getLoginClient(req: any): LoginClient {
+    return {
+      device: req.headers['user-agent']?.includes('Mobile') ? 'Mobile' : 'Desktop',
+      // req.ip já resolve X-Forwarded-For pelos saltos confiáveis (trust proxy em main.ts)
+      ipAddress: req.ip || req.socket?.remoteAddress || 'unknown',
+      userAgent: req.headers['user-agent'] || 'unknown',
+    };
+  }
+
+  private registerLogin(userId: string, req: any, description = 'Realizou login no sistema') {
+    // ✅ OTIMIZAÇÃO: Log de atividade de forma não-bloqueante (a sessão já foi criada no login)
     // Isso evita que o login trave esperando operações de banco de dados
     setImmediate(async () => {
       try {
-        // Buscar usuário pelo email para pegar o ID
-        const user = await this.authService.findUserByEmail(body.email);
-        if (user) {
-          const device = req.headers['user-agent']?.includes('Mobile') ? 'Mobile' : 'Desktop';
-          const ipAddress = req.ip || req.headers['x-forwarded-for']?.split(',')[0]?.trim() || req.connection?.remoteAddress || 'unknown';
-          const userAgent = req.headers['user-agent'] || 'unknown';
-
-          await this.settingsService.createSession(user.id, token, device, userAgent, ipAddress);
-          await this.authService.updateLastLoginAt(user.id);
-          await this.settingsService.logActivity(
-            user.id,
-            'LOGIN',
-            'Realizou login no sistema',
-            ipAddress,
-            userAgent
-          );
-        }
+        const { ipAddress, userAgent } = this.getLoginClient(req);
+
+        await this.authService.updateLastLoginAt(userId);
+        await this.settingsService.logActivity(
+          userId,
+          'LOGIN',
+          description,
+          ipAddress,
+          userAgent
+        );
       } catch (err) {
-        console.warn('Erro ao criar sessão:', err);
-        // Não falhar o login se a criação de sessão falhar
+        console.warn('Erro ao registrar login:', err);
+        // Não falhar o login se o registro falhar
       }
     });
-
-    return { token };
   }
 
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
   async forgotPassword(@Body() body: { email: string }, @Req() req: any) {
     const frontendUrl = process.env.FRONTEND_URL || req.headers.origin || 'https://iazenix.com';
-    return await this.authService.forgotPassword(body.email, frontendUrl);
+    return await this.authService.forgotPassword(body.email, frontendUrl, this.getLoginClient(req).ipAddress);
   }
 
   @Post('reset-password')
@@ -126,8 +190,17 @@ export class AuthController {
 
   @Post('confirm-account')
   @HttpCode(HttpStatus.OK)
-  async confirmAccount(@Body() body: { token: string }) {
-    return await this.authService.confirmAccount(body.token);
+  async confirmAccount(@Body() body: { token: string }, @Req() req: any) {
+    return await this.authService.confirmAccount(body.token, this.getLoginClient(req).ipAddress);
+  }
+
+  /**
+   * Desbloqueio da conta pelo link enviado por e-mail após excesso de tentativas de login
+   */
+  @Post('unlock-account')
+  @HttpCode(HttpStatus.OK)
+  async unlockAccount(@Body() body: UnlockAccountDto) {
+    return await this.authService.unlockAccount(body.token);
   }
 }
 
@@ -10,6 +10,7 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
 import { EmailService } from './email.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { CoursesModule } from '../courses/courses.module';
 
 @Module({
@@ -34,7 +35,7 @@ import { CoursesModule } from '../courses/courses.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, EmailService],
+  providers: [AuthService, JwtStrategy, EmailService, LoginThrottleService],
   exports: [AuthService, EmailService],
 })
 export class AuthModule { }
@@ -12,6 +12,39 @@ import { EmailService } from './email.service';
 import { randomBytes } from 'crypto';
 import { validateBrazilianPhone } from '../utils/phone.validator';
 import { NotificationsService } from '../notifications/notifications.service';
+import { TwoFactorService } from '../settings/two-factor.service';
+import { SettingsService } from '../settings/settings.service';
+import { PRE_AUTH_TOKEN_TYPE } from './jwt.strategy';
+import { ConfigService } from '@nestjs/config';
+import { parseAccessTokenTtlSeconds } from './session-tokens';
+import { LoginThrottleService } from './login-throttle.service';
+import { NotificationEventsService } from '../notifications/notification-events.service';
+
+const PRE_AUTH_TOKEN_TTL = '5m';
+
+/**
+ * Dispositivo de onde o login foi feito (gravado na sessão)
+ */
+export interface LoginClient {
+  device?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Access token de curta duração (jti = id da sessão) + refresh token rotativo
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Segundos até o access token expirar
+  refreshExpiresAt: Date;
+  userId: string;
+}
+
+export type LoginResult =
+  | SessionTokens
+  | { requiresTwoFactor: true; preAuthToken: string };
 
 @Injectable()
 export class AuthService {
@@ -22,8 +55,13 @@ export class AuthService {
     @Inject(USER_REPOSITORY_TOKEN) private readonly userRepository: UserRepository,
     @InjectDataSource() private readonly dataSource: DataSource,
     private readonly emailService: EmailService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly settingsService: SettingsService,
+    private readonly configService: ConfigService,
+    private readonly loginThrottle: LoginThrottleService,
     @Inject(forwardRef(() => NotificationsService))
     private readonly notificationsService?: NotificationsService,
+    private readonly notificationEvents?: NotificationEventsService,
   ) { }
 
   async register(payload: CreateUserDto, frontendUrl?: string): Promise<{ message: string }> {
@@ -93,13 +131,18 @@ export class AuthService {
     return { message: 'Cadastro realizado com sucesso! Verifique seu e-mail para confirmar a conta.' };
   }
 
-  async login(email: string, password: string): Promise<{ token: string }> {
+  async login(email: string, password: string, client: LoginClient = {}): Promise<LoginResult> {
+    const subjects = { account: email, ip: client.ipAddress };
+    await this.loginThrottle.assertAllowed('login', subjects);
+
     const user = await this.userRepository.findByEmail(email);
     if (!user) {
+      await this.loginThrottle.recordFailure('login', subjects);
       throw new UnauthorizedException('Credenciais inválidas');
     }
     const valid = await bcrypt.compare(password, user.password);
     if (!valid) {
+      await this.registerFailedLogin(user, client, 'Tentativa de login com senha incorreta');
       throw new UnauthorizedException('Credenciais inválidas');
     }
     // Verificar se o usuário está ativo
@@ -110,9 +153,94 @@ export class AuthService {
     if (!userStatus || userStatus.length === 0 || !userStatus[0].is_active) {
       throw new UnauthorizedException('Sua conta ainda não foi confirmada. Verifique seu e-mail para confirmar a conta.');
     }
+
+    // Com 2FA ativo, a senha só libera um token de curta duração para o segundo passo
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      const preAuthToken = await this.jwtService.signAsync(
+        { sub: user.id, typ: PRE_AUTH_TOKEN_TYPE },
+        { expiresIn: PRE_AUTH_TOKEN_TTL },
+      );
+      return { requiresTwoFactor: true, preAuthToken };
+    }
+
+    // O contador só zera no login completo, senão quem sabe a senha poderia testar códigos 2FA à vontade
+    await this.loginThrottle.reset('login', subjects);
+
     const userRole = userStatus[0].role || 'user';
-    const token = await this.signToken(user.id, user.email, user.name, userRole);
+    await this.notifyIfNewDevice(user.id, client);
+    const session = await this.settingsService.createSession(user.id, client.device, client.userAgent, client.ipAddress);
+    const tokens = await this.issueTokens(user.id, user.email, user.name, userRole, session);
+    this.prefetchLoginSummary(user.id);
+
+    return tokens;
+  }
+
+  /**
+   * Segundo passo do login com 2FA: troca o token de pré-autenticação + código TOTP
+   * (ou código de recuperação) pelo token de acesso.
+   */
+  async loginWithTwoFactor(preAuthToken: string, code: string, client: LoginClient = {}): Promise<SessionTokens> {
+    let payload: { sub?: string; typ?: string };
+    try {
+      payload = await this.jwtService.verifyAsync(preAuthToken);
+    } catch {
+      throw new UnauthorizedException('Sessão de login expirada. Faça login novamente.');
+    }
+    if (payload.typ !== PRE_AUTH_TOKEN_TYPE || !payload.sub) {
+      throw new UnauthorizedException('Token de pré-autenticação inválido');
+    }
+
+    const user = await this.userRepository.findById(payload.sub);
+    const userStatus = user
+      ? await this.dataSource.query('SELECT is_active, role FROM users WHERE id = ?', [user.id])
+      : [];
+    if (!user || !userStatus?.length || !userStatus[0].is_active) {
+      throw new UnauthorizedException('Credenciais inválidas');
+    }
+
+    await this.loginThrottle.assertAllowed('login', { account: user.email, ip: client.ipAddress });
+    if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      await this.registerFailedLogin(user, client, 'Código de verificação em duas etapas incorreto');
+      throw new UnauthorizedException('Código de verificação inválido');
+    }
+    await this.loginThrottle.reset('login', { account: user.email });
+
+    await this.notifyIfNewDevice(user.id, client);
+    const session = await this.settingsService.createSession(user.id, client.device, client.userAgent, client.ipAddress);
+    const tokens = await this.issueTokens(user.id, user.email, user.name, userStatus[0].role || 'user', session);
+    this.prefetchLoginSummary(user.id);
+
+    return tokens;
+  }
 
+  /**
+   * Troca o refresh token por um novo par de tokens. Role e status são relidos do banco, então
+   * mudanças de permissão valem a partir da próxima renovação.
+   */
+  async refreshSession(refreshToken: string): Promise<SessionTokens> {
+    const session = await this.settingsService.rotateSessionRefreshToken(refreshToken);
+
+    const user = await this.userRepository.findById(session.userId);
+    const userStatus = user
+      ? await this.dataSource.query('SELECT is_active, role FROM users WHERE id = ?', [user.id])
+      : [];
+    if (!user || !userStatus?.length || !userStatus[0].is_active) {
+      await this.settingsService.revokeAllSessions(session.userId, 'user_inactive');
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+
+    return this.issueTokens(user.id, user.email, user.name, userStatus[0].role || 'user', session);
+  }
+
+  /**
+   * Logout: revoga a sessão do token atual
+   */
+  async logout(userId: string, sessionId: string): Promise<{ message: string }> {
+    await this.settingsService.revokeSession(userId, sessionId);
+    return { message: 'Sessão encerrada' };
+  }
+
+  private prefetchLoginSummary(userId: string) {
     // ✅ OTIMIZAÇÃO: Buscar notificações de forma não-bloqueante (fire-and-forget)
     // Isso evita que o login trave esperando queries ao banco de dados
     if (this.notificationsService) {
@@ -121,8 +249,8 @@ export class AuthService {
       setImmediate(async () => {
         try {
           if (notificationsService) {
-            this.logger.log(`[Login] Buscando notificações para usuário ${user.id}...`);
-            await notificationsService.getLoginSummary(user.id);
+            this.logger.log(`[Login] Buscando notificações para usuário ${userId}...`);
+            await notificationsService.getLoginSummary(userId);
           }
         } catch (error) {
           this.logger.error(`[Login] Erro ao buscar notificações: ${error.message}`);
@@ -130,8 +258,6 @@ export class AuthService {
         }
       });
     }
-
-    return { token };
   }
 
   async findUserByEmail(email: string) {
@@ -142,7 +268,12 @@ export class AuthService {
     return await this.userRepository.findById(userId);
   }
 
-  async forgotPassword(email: string, frontendUrl: string): Promise<{ message: string }> {
+  async forgotPassword(email: string, frontendUrl: string, ipAddress?: string): Promise<{ message: string }> {
+    // Todo pedido conta como tentativa (existindo ou não a conta), para não revelar quais e-mails existem
+    const subjects = { account: email, ip: ipAddress };
+    await this.loginThrottle.assertAllowed('forgot_password', subjects);
+    await this.loginThrottle.recordFailure('forgot_password', subjects);
+
     const user = await this.userRepository.findByEmail(email);
 
     // Por segurança, sempre retornamos sucesso mesmo se o email não existir
@@ -210,11 +341,14 @@ export class AuthService {
        WHERE id = ?`,
       [hashedPassword, user.id]
     );
+    await this.settingsService.revokeAllSessions(user.id, 'password_reset');
 
     return { message: 'Senha redefinida com sucesso!' };
   }
 
-  async confirmAccount(token: string): Promise<{ message: string }> {
+  async confirmAccount(token: string, ipAddress?: string): Promise<{ message: string }> {
+    await this.loginThrottle.assertAllowed('confirm_account', { ip: ipAddress });
+
     // Buscar usuário pelo token
     const users = await this.dataSource.query(
       `SELECT id, email, reset_token_expiry 
@@ -224,6 +358,7 @@ export class AuthService {
     );
 
     if (!users || users.length === 0) {
+      await this.loginThrottle.recordFailure('confirm_account', { ip: ipAddress });
       throw new BadRequestException('Token inválido ou expirado');
     }
 
@@ -248,6 +383,57 @@ export class AuthService {
     return { message: 'Conta confirmada com sucesso! Você já pode fazer login.' };
   }
 
+  async unlockAccount(token: string): Promise<{ message: string }> {
+    return this.loginThrottle.unlock(token);
+  }
+
+  /**
+   * Falha de senha ou de código 2FA de uma conta existente: conta a tentativa (podendo
+   * bloquear a conta) e registra no histórico de atividades do usuário
+   */
+  private async registerFailedLogin(user: User, client: LoginClient, description: string) {
+    await this.loginThrottle.recordFailure(
+      'login',
+      { account: user.email, ip: client.ipAddress },
+      { id: user.id, email: user.email, name: user.name },
+    );
+    await this.settingsService.logActivity(user.id, 'LOGIN_FAILED', description, client.ipAddress, client.userAgent);
+  }
+
+  /**
+   * Avisa o usuário quando o login vem de um IP ou navegador que não aparece em nenhuma
+   * sessão anterior. O primeiro login da conta não gera aviso.
+   */
+  private async notifyIfNewDevice(userId: string, client: LoginClient) {
+    try {
+      const [known] = await this.dataSource.query(
+        `SELECT COUNT(*) AS total,
+                COALESCE(SUM(user_agent = ?), 0) AS sameAgent,
+                COALESCE(SUM(ip_address = ?), 0) AS sameIp
+         FROM user_sessions
+         WHERE user_id = ?`,
+        [client.userAgent || '', client.ipAddress || '', userId]
+      );
+      if (!known || Number(known.total) === 0) return;
+      if (Number(known.sameAgent) > 0 && Number(known.sameIp) > 0) return;
+
+      const device = client.device || 'Dispositivo desconhecido';
+      const message =
+        `Detectamos um login na sua conta a partir de um novo dispositivo (${device}, IP ${client.ipAddress || 'desconhecido'}, ` +
+        `navegador ${client.userAgent || 'desconhecido'}). Se não foi você, troque sua senha e encerre as outras sessões em Configurações.`;
+      this.notificationEvents?.emit({
+        userId,
+        type: 'new_device_login',
+        source: 'auth',
+        title: 'Login em novo dispositivo',
+        message,
+        data: { device, ipAddress: client.ipAddress, userAgent: client.userAgent },
+      });
+    } catch (error) {
+      this.logger.warn(`[Login] ⚠️ Erro ao verificar novo dispositivo de ${userId}: ${error.message}`);
+    }
+  }
+
   async updateLastLoginAt(userId: string): Promise<void> {
     try {
       await this.dataSource.query(
@@ -259,8 +445,26 @@ export class AuthService {
     }
   }
 
-  private async signToken(sub: string, email: string, name: string, role: string = 'user'): Promise<string> {
-    return await this.jwtService.signAsync({ sub, email, name, role });
+  private async issueTokens(
+    sub: string,
+    email: string,
+    name: string,
+    role: string,
+    session: { sessionId: string; refreshToken: string; expiresAt: Date },
+  ): Promise<SessionTokens> {
+    const expiresIn = parseAccessTokenTtlSeconds(this.configService.get<string>('JWT_ACCESS_EXPIRES_IN'));
+    const token = await this.jwtService.signAsync(
+      { sub, email, name, role },
+      { jwtid: session.sessionId, expiresIn },
+    );
+
+    return {
+      token,
+      refreshToken: session.refreshToken,
+      expiresIn,
+      refreshExpiresAt: session.expiresAt,
+      userId: sub,
+    };
   }
 }
 
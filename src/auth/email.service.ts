@@ -598,5 +598,150 @@ export class EmailService {
       this.logger.error(`Erro ao enviar relatório diário premium para ${email}: ${error.message}`);
     }
   }
-}
 
+  /**
+   * E-mail de notificação de evento (stop atingido, sessão encerrada, novo dispositivo, etc.)
+   */
+  async sendAccountLockedEmail(email: string, name: string, unlockUrl: string, lockedUntil: Date): Promise<void> {
+    const fromEmail = process.env.SMTP_FROM_EMAIL || 'suporte@iazenix.com';
+    const fromName = process.env.SMTP_FROM_NAME || 'ZENIX';
+    const until = lockedUntil.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+    const mailOptions = {
+      from: `"${fromName}" <${fromEmail}>`,
+      to: email,
+      subject: 'Conta bloqueada temporariamente - ZENIX',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #22C55E; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #22C55E; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+            .token { background-color: #fff; padding: 15px; border-radius: 5px; margin: 20px 0; font-family: monospace; word-break: break-all; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Conta Bloqueada Temporariamente</h1>
+            </div>
+            <div class="content">
+              <p>Olá ${name},</p>
+              <p>Detectamos várias tentativas de login com senha incorreta na sua conta. Por segurança, o acesso foi bloqueado até <strong>${until}</strong>.</p>
+              <p>Se foi você, clique no botão abaixo para desbloquear a conta agora:</p>
+              <p style="text-align: center;">
+                <a href="${unlockUrl}" class="button">Desbloquear Conta</a>
+              </p>
+              <p>Ou copie e cole o link abaixo no seu navegador:</p>
+              <div class="token">${unlockUrl}</div>
+              <p><strong>Se não foi você, recomendamos trocar sua senha e ativar a verificação em duas etapas.</strong></p>
+              <p>Atenciosamente,<br>Equipe ZENIX</p>
+            </div>
+            <div class="footer">
+              <p>Este é um e-mail automático, por favor não responda.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Conta Bloqueada Temporariamente - ZENIX
+
+        Olá ${name},
+
+        Detectamos várias tentativas de login com senha incorreta na sua conta. Por segurança, o acesso foi bloqueado até ${until}.
+
+        Se foi você, acesse o link abaixo para desbloquear a conta agora:
+        ${unlockUrl}
+
+        Se não foi você, recomendamos trocar sua senha e ativar a verificação em duas etapas.
+
+        Atenciosamente,
+        Equipe ZENIX
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      this.logger.log(`Email de bloqueio de conta enviado para ${email}`);
+    } catch (error) {
+      this.logger.error(`Erro ao enviar email de bloqueio de conta: ${error.message}`, error.stack);
+      throw new Error('Falha ao enviar email de bloqueio de conta');
+    }
+  }
+
+  async sendEventNotification(email: string, name: string, title: string, message: string, actionUrl?: string): Promise<void> {
+    const fromEmail = process.env.SMTP_FROM_EMAIL || 'suporte@iazenix.com';
+    const fromName = process.env.SMTP_FROM_NAME || 'ZENIX';
+    const escapeHtml = (value: string) =>
+      String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    const url = actionUrl || 'https://iazenix.com/dashboard';
+
+    const mailOptions = {
+      from: `"${fromName}" <${fromEmail}>`,
+      to: email,
+      subject: `ZENIX | ${title}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #22C55E; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #22C55E; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${escapeHtml(title)}</h1>
+            </div>
+            <div class="content">
+              <p>Olá ${escapeHtml(name)},</p>
+              <p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>
+              <p style="text-align: center;">
+                <a href="${url}" class="button">Acessar Painel</a>
+              </p>
+              <p>Você pode escolher quais avisos receber em Configurações &gt; Notificações.</p>
+              <p>Atenciosamente,<br>Equipe ZENIX</p>
+            </div>
+            <div class="footer">
+              <p>Este é um e-mail automático, por favor não responda.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${title} - ZENIX
+
+        Olá ${name},
+
+        ${message}
+
+        Acesse seu painel em: ${url}
+
+        Você pode escolher quais avisos receber em Configurações > Notificações.
+
+        Equipe ZENIX
+      `,
+    };
+
+    await this.transporter.sendMail(mailOptions);
+    this.logger.log(`Notificação "${title}" enviada para ${email}`);
+  }
+}
@@ -1,11 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { normalizeRole } from './roles';
+import { SettingsService } from '../settings/settings.service';
+
+/**
+ * Valor de `typ` do token emitido entre a senha e o código do 2FA.
+ * Esse token só serve para POST /auth/login/2fa e é recusado nas demais rotas.
+ */
+export const PRE_AUTH_TOKEN_TYPE = '2fa_pending';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly settingsService: SettingsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -13,12 +24,20 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: { sub: string; email: string; name?: string; role?: string }) {
+  async validate(payload: { sub: string; email: string; name?: string; role?: string; typ?: string; jti?: string }) {
+    if (payload.typ === PRE_AUTH_TOKEN_TYPE) {
+      throw new UnauthorizedException('Verificação em duas etapas pendente');
+    }
+    // Access token sem sessão (emitido antes das sessões revogáveis) ou sessão encerrada
+    if (!payload.jti || !(await this.settingsService.isSessionActive(payload.jti, payload.sub))) {
+      throw new UnauthorizedException('Sessão encerrada. Faça login novamente.');
+    }
     return { 
       userId: payload.sub, 
+      sessionId: payload.jti,
       email: payload.email,
       name: payload.name,
-      role: payload.role || 'user'
+      role: normalizeRole(payload.role)
     };
   }
 }
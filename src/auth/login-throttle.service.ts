@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { EmailService } from './email.service';
+import { SettingsService } from '../settings/settings.service';
+import {
+  THROTTLE_POLICIES,
+  ThrottlePolicy,
+  ThrottleScope,
+  ThrottledAuthAction,
+  nextFailureState,
+  throttleKey,
+  throttleRetryAfter,
+} from './login-throttle';
+import {
+  clearThrottleKeys,
+  loadThrottleState,
+  saveThrottleState,
+} from './login-throttle.store';
+
+/**
+ * Quem está tentando: e-mail da conta e/ou IP de origem
+ */
+export interface ThrottleSubjects {
+  account?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * Usuário dono da conta bloqueada (recebe o e-mail de desbloqueio)
+ */
+export interface LockoutRecipient {
+  id: string;
+  email: string;
+  name: string;
+}
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  constructor(
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly emailService: EmailService,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  /**
+   * Lança 429 se a conta ou o IP ainda estiverem em espera ou bloqueados
+   */
+  async assertAllowed(
+    action: ThrottledAuthAction,
+    subjects: ThrottleSubjects,
+  ): Promise<void> {
+    const now = new Date();
+    let retryAfterMs = 0;
+    let locked = false;
+
+    for (const [scope, key] of this.keysFor(action, subjects)) {
+      const result = throttleRetryAfter(
+        await loadThrottleState(this.dataSource, key),
+        now,
+      );
+      retryAfterMs = Math.max(retryAfterMs, result.retryAfterMs);
+      locked = locked || (scope === 'account' && result.locked);
+    }
+
+    if (retryAfterMs <= 0) return;
+
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    const message = locked
+      ? `Conta bloqueada temporariamente por excesso de tentativas. Verifique seu e-mail para desbloquear ou tente novamente em ${Math.ceil(retryAfter / 60)} minuto(s).`
+      : `Muitas tentativas. Tente novamente em ${retryAfter} segundo(s).`;
+    throw new HttpException(
+      { statusCode: HttpStatus.TOO_MANY_REQUESTS, message, retryAfter, locked },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Conta mais uma tentativa para a conta e o IP. Se a conta acabou de ser bloqueada e
+   * existe, envia o e-mail com o link de desbloqueio.
+   */
+  async recordFailure(
+    action: ThrottledAuthAction,
+    subjects: ThrottleSubjects,
+    recipient?: LockoutRecipient | null,
+  ): Promise<void> {
+    const now = new Date();
+
+    for (const [scope, key, policy] of this.keysFor(action, subjects)) {
+      const state = nextFailureState(
+        await loadThrottleState(this.dataSource, key),
+        policy,
+        now,
+      );
+      await saveThrottleState(this.dataSource, key, state);
+
+      if (state.lockedOut && scope === 'account') {
+        this.logger.warn(
+          `[Throttle] 🚫 ${key} bloqueada até ${state.lockedUntil?.toISOString()} após ${state.failures} falhas`,
+        );
+        if (recipient && state.lockedUntil) {
+          await this.sendUnlockEmail(key, recipient, state.lockedUntil);
+        }
+      }
+    }
+  }
+
+  /**
+   * Zera o contador da conta após um login bem-sucedido. O do IP só expira com o tempo,
+   * senão um atacante com conta própria poderia zerá-lo entre tentativas.
+   */
+  async reset(
+    action: ThrottledAuthAction,
+    subjects: ThrottleSubjects,
+  ): Promise<void> {
+    const keys = this.keysFor(action, { account: subjects.account }).map(
+      ([, key]) => key,
+    );
+    await clearThrottleKeys(this.dataSource, keys);
+  }
+
+  /**
+   * Desbloqueio pelo link do e-mail: remove o bloqueio e o contador da conta
+   */
+  async unlock(token: string): Promise<{ message: string }> {
+    const rows = await this.dataSource.query(
+      `SELECT throttle_key FROM auth_throttles
+       WHERE unlock_token_hash = ? AND locked_until > ?`,
+      [this.hashToken(token || ''), new Date()],
+    );
+    if (!rows || rows.length === 0) {
+      throw new BadRequestException('Token inválido ou expirado');
+    }
+
+    await this.dataSource.query(
+      `DELETE FROM auth_throttles WHERE throttle_key = ?`,
+      [rows[0].throttle_key],
+    );
+    this.logger.log(
+      `[Throttle] ✅ ${rows[0].throttle_key} desbloqueada pelo e-mail`,
+    );
+
+    return { message: 'Conta desbloqueada. Você já pode fazer login.' };
+  }
+
+  private async sendUnlockEmail(
+    key: string,
+    recipient: LockoutRecipient,
+    lockedUntil: Date,
+  ): Promise<void> {
+    const unlockToken = randomBytes(32).toString('hex');
+    await this.dataSource.query(
+      `UPDATE auth_throttles SET unlock_token_hash = ? WHERE throttle_key = ?`,
+      [this.hashToken(unlockToken), key],
+    );
+
+    const frontendUrl = process.env.FRONTEND_URL || 'https://iazenix.com';
+    const unlockUrl = `${frontendUrl}/unlock-account?token=${unlockToken}`;
+
+    await this.settingsService.logActivity(
+      recipient.id,
+      'ACCOUNT_LOCKED',
+      `Conta bloqueada até ${lockedUntil.toISOString()} por excesso de tentativas de login`,
+    );
+
+    try {
+      await this.emailService.sendAccountLockedEmail(
+        recipient.email,
+        recipient.name,
+        unlockUrl,
+        lockedUntil,
+      );
+    } catch (error) {
+      // O bloqueio continua valendo e expira sozinho mesmo sem o e-mail
+      this.logger.error(
+        `[Throttle] ❌ Erro ao enviar e-mail de desbloqueio para ${recipient.email}: ${error.message}`,
+      );
+    }
+  }
+
+  private keysFor(
+    action: ThrottledAuthAction,
+    subjects: ThrottleSubjects,
+  ): [ThrottleScope, string, ThrottlePolicy][] {
+    const policies = THROTTLE_POLICIES[action];
+    const values: Record<ThrottleScope, string | null> = {
+      account: subjects.account?.trim().toLowerCase() || null,
+      ip: subjects.ip && subjects.ip !== 'unknown' ? subjects.ip : null,
+    };
+
+    const keys: [ThrottleScope, string, ThrottlePolicy][] = [];
+    for (const scope of ['account', 'ip'] as ThrottleScope[]) {
+      const policy = policies[scope];
+      const value = values[scope];
+      if (policy && value) {
+        keys.push([scope, throttleKey(action, scope, value), policy]);
+      }
+    }
+    return keys;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  THROTTLE_POLICIES,
+  ThrottleState,
+  computeBackoffMs,
+  nextFailureState,
+  throttleKey,
+  throttleRetryAfter,
+} from './login-throttle';
+
+describe('login-throttle', () => {
+  const accountPolicy = THROTTLE_POLICIES.login.account!;
+  const now = new Date('2026-06-01T12:00:00Z');
+  const later = (ms: number) => new Date(now.getTime() + ms);
+
+  it('dobra a espera a cada falha além das gratuitas, até o máximo', () => {
+    expect(computeBackoffMs(3, accountPolicy)).toBe(0);
+    expect(computeBackoffMs(4, accountPolicy)).toBe(1000);
+    expect(computeBackoffMs(6, accountPolicy)).toBe(4000);
+    expect(computeBackoffMs(40, accountPolicy)).toBe(accountPolicy.maxDelayMs);
+  });
+
+  it('acumula falhas dentro da janela e zera depois dela', () => {
+    let state: ThrottleState | null = null;
+    for (let i = 0; i < 4; i++) {
+      state = nextFailureState(state, accountPolicy, now);
+    }
+    expect(state!.failures).toBe(4);
+    expect(throttleRetryAfter(state, now)).toEqual({
+      retryAfterMs: 1000,
+      locked: false,
+    });
+    expect(throttleRetryAfter(state, later(1000)).retryAfterMs).toBe(0);
+
+    const afterWindow = nextFailureState(
+      state,
+      accountPolicy,
+      later(accountPolicy.windowMs),
+    );
+    expect(afterWindow.failures).toBe(1);
+    expect(afterWindow.blockedUntil).toBeNull();
+  });
+
+  it('bloqueia a conta uma vez ao atingir o limite', () => {
+    const previous: ThrottleState = {
+      failures: 9,
+      blockedUntil: null,
+      lockedUntil: null,
+      lastFailureAt: now,
+    };
+    const locked = nextFailureState(previous, accountPolicy, now);
+    expect(locked.lockedOut).toBe(true);
+    expect(locked.lockedUntil).toEqual(later(accountPolicy.lockoutMs));
+    expect(throttleRetryAfter(locked, now).locked).toBe(true);
+
+    // Nova falha durante o bloqueio não reenvia o e-mail nem estende o bloqueio
+    const again = nextFailureState(locked, accountPolicy, later(1000));
+    expect(again.lockedOut).toBe(false);
+    expect(again.lockedUntil).toEqual(locked.lockedUntil);
+
+    // Depois que o bloqueio expira o contador recomeça
+    const expired = nextFailureState(
+      locked,
+      accountPolicy,
+      later(accountPolicy.lockoutMs + 1),
+    );
+    expect(expired.failures).toBe(1);
+    expect(expired.lockedUntil).toBeNull();
+  });
+
+  it('o escopo de IP não bloqueia a conta', () => {
+    const ipPolicy = THROTTLE_POLICIES.login.ip!;
+    const state = nextFailureState(
+      {
+        failures: 30,
+        blockedUntil: null,
+        lockedUntil: null,
+        lastFailureAt: now,
+      },
+      ipPolicy,
+      now,
+    );
+    expect(state.lockedOut).toBe(false);
+    expect(state.lockedUntil).toBeNull();
+  });
+
+  it('códigos do 2FA: 5 erros seguidos bloqueiam por 5 minutos, sem espera antes disso', () => {
+    const twoFactorPolicy = THROTTLE_POLICIES.two_factor.account!;
+    let state: (ThrottleState & { lockedOut: boolean }) | null = null;
+    for (let i = 0; i < 4; i++) {
+      state = nextFailureState(state, twoFactorPolicy, now);
+      expect(throttleRetryAfter(state, now).retryAfterMs).toBe(0);
+    }
+
+    state = nextFailureState(state, twoFactorPolicy, now);
+    expect(state.lockedOut).toBe(true);
+    expect(throttleRetryAfter(state, now)).toEqual({
+      retryAfterMs: 5 * 60 * 1000,
+      locked: true,
+    });
+    expect(throttleKey('two_factor', 'account', 'user-1')).toBe(
+      'two_factor:account:user-1',
+    );
+  });
+});
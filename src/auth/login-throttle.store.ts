@@ -0,0 +1,67 @@
+import { DataSource } from 'typeorm';
+import { ThrottleState } from './login-throttle';
+
+interface ThrottleRow {
+  failures: number | string;
+  blocked_until: Date | string | null;
+  locked_until: Date | string | null;
+  last_failure_at: Date | string | null;
+}
+
+/**
+ * Leitura e gravação dos contadores em auth_throttles (compartilhado pelo login e pelo 2FA)
+ */
+export async function loadThrottleState(
+  dataSource: DataSource,
+  key: string,
+): Promise<ThrottleState | null> {
+  const rows = await dataSource.query<ThrottleRow[]>(
+    `SELECT failures, blocked_until, locked_until, last_failure_at
+     FROM auth_throttles WHERE throttle_key = ?`,
+    [key],
+  );
+  if (!rows || rows.length === 0) return null;
+
+  const toDate = (value: Date | string | null) =>
+    value ? new Date(value) : null;
+  return {
+    failures: Number(rows[0].failures) || 0,
+    blockedUntil: toDate(rows[0].blocked_until),
+    lockedUntil: toDate(rows[0].locked_until),
+    lastFailureAt: toDate(rows[0].last_failure_at),
+  };
+}
+
+export async function saveThrottleState(
+  dataSource: DataSource,
+  key: string,
+  state: ThrottleState,
+): Promise<void> {
+  await dataSource.query(
+    `INSERT INTO auth_throttles (throttle_key, failures, blocked_until, locked_until, last_failure_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       failures = VALUES(failures),
+       blocked_until = VALUES(blocked_until),
+       locked_until = VALUES(locked_until),
+       last_failure_at = VALUES(last_failure_at)`,
+    [
+      key,
+      state.failures,
+      state.blockedUntil,
+      state.lockedUntil,
+      state.lastFailureAt,
+    ],
+  );
+}
+
+export async function clearThrottleKeys(
+  dataSource: DataSource,
+  keys: string[],
+): Promise<void> {
+  if (keys.length === 0) return;
+  await dataSource.query(
+    `DELETE FROM auth_throttles WHERE throttle_key IN (?)`,
+    [keys],
+  );
+}
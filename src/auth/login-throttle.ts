@@ -0,0 +1,149 @@
+/**
+ * Ações protegidas contra força bruta
+ */
+export type ThrottledAuthAction =
+  | 'login'
+  | 'forgot_password'
+  | 'confirm_account'
+  | 'two_factor';
+export type ThrottleScope = 'account' | 'ip';
+
+export interface ThrottlePolicy {
+  freeAttempts: number; // Falhas seguidas sem espera
+  baseDelayMs: number; // Espera após a primeira falha além das gratuitas; dobra a cada nova falha
+  maxDelayMs: number;
+  windowMs: number; // Sem falhas por esse tempo, o contador zera
+  lockoutAfter: number | null; // Falhas seguidas que bloqueiam a conta (só escopo account)
+  lockoutMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const DEFAULT_POLICY: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * MINUTE_MS,
+  windowMs: 30 * MINUTE_MS,
+  lockoutAfter: null,
+  lockoutMs: 0,
+};
+
+export const THROTTLE_POLICIES: Record<
+  ThrottledAuthAction,
+  Partial<Record<ThrottleScope, ThrottlePolicy>>
+> = {
+  login: {
+    account: {
+      ...DEFAULT_POLICY,
+      lockoutAfter: 10,
+      lockoutMs: 30 * MINUTE_MS,
+    },
+    ip: { ...DEFAULT_POLICY, freeAttempts: 10 },
+  },
+  // Cada pedido conta como tentativa: evita disparo de e-mails em massa
+  forgot_password: {
+    account: { ...DEFAULT_POLICY, baseDelayMs: 60 * 1000 },
+    ip: { ...DEFAULT_POLICY, freeAttempts: 10 },
+  },
+  // Token de confirmação não tem conta conhecida: só o IP é limitado
+  confirm_account: {
+    ip: { ...DEFAULT_POLICY, freeAttempts: 5 },
+  },
+  // Códigos do 2FA (conta = id do usuário): 5 erros seguidos bloqueiam por 5 minutos
+  two_factor: {
+    account: {
+      ...DEFAULT_POLICY,
+      freeAttempts: 5,
+      lockoutAfter: 5,
+      lockoutMs: 5 * MINUTE_MS,
+    },
+  },
+};
+
+/**
+ * Chave em auth_throttles: `<ação>:<account|ip>:<valor>`
+ */
+export function throttleKey(
+  action: ThrottledAuthAction,
+  scope: ThrottleScope,
+  value: string,
+): string {
+  return `${action}:${scope}:${value}`.substring(0, 191);
+}
+
+export interface ThrottleState {
+  failures: number;
+  blockedUntil: Date | null;
+  lockedUntil: Date | null;
+  lastFailureAt: Date | null;
+}
+
+/**
+ * Espera exigida depois de `failures` falhas seguidas (0 enquanto estiver nas gratuitas)
+ */
+export function computeBackoffMs(
+  failures: number,
+  policy: ThrottlePolicy,
+): number {
+  const extra = failures - policy.freeAttempts;
+  if (extra <= 0) return 0;
+  return Math.min(policy.baseDelayMs * 2 ** (extra - 1), policy.maxDelayMs);
+}
+
+/**
+ * Estado depois de mais uma falha. `lockedOut` indica que esta falha bloqueou a conta agora
+ * (para enviar o e-mail de desbloqueio uma única vez).
+ */
+export function nextFailureState(
+  previous: ThrottleState | null,
+  policy: ThrottlePolicy,
+  now: Date,
+): ThrottleState & { lockedOut: boolean } {
+  const lockExpired =
+    !!previous?.lockedUntil && previous.lockedUntil.getTime() <= now.getTime();
+  const withinWindow =
+    !!previous?.lastFailureAt &&
+    now.getTime() - previous.lastFailureAt.getTime() < policy.windowMs;
+  const failures =
+    previous && withinWindow && !lockExpired ? previous.failures + 1 : 1;
+
+  const stillLocked =
+    !!previous?.lockedUntil && previous.lockedUntil.getTime() > now.getTime();
+  const lockedOut =
+    !stillLocked &&
+    policy.lockoutAfter !== null &&
+    failures >= policy.lockoutAfter;
+
+  const backoffMs = computeBackoffMs(failures, policy);
+  return {
+    failures,
+    blockedUntil: backoffMs > 0 ? new Date(now.getTime() + backoffMs) : null,
+    lockedUntil: lockedOut
+      ? new Date(now.getTime() + policy.lockoutMs)
+      : stillLocked
+        ? previous.lockedUntil
+        : null,
+    lastFailureAt: now,
+    lockedOut,
+  };
+}
+
+/**
+ * Milissegundos até poder tentar de novo (0 = liberado) e se o motivo é o bloqueio da conta
+ */
+export function throttleRetryAfter(
+  state: ThrottleState | null,
+  now: Date,
+): { retryAfterMs: number; locked: boolean } {
+  if (!state) return { retryAfterMs: 0, locked: false };
+  const lockedMs = state.lockedUntil
+    ? state.lockedUntil.getTime() - now.getTime()
+    : 0;
+  const blockedMs = state.blockedUntil
+    ? state.blockedUntil.getTime() - now.getTime()
+    : 0;
+  return {
+    retryAfterMs: Math.max(0, lockedMs, blockedMs),
+    locked: lockedMs > 0,
+  };
+}
@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+/**
+ * Rotas públicas que personalizam a resposta quando há um token válido:
+ * sem token (ou com token inválido) a requisição segue com req.user = undefined.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends JwtAuthGuard {
+  handleRequest<TUser = any>(_err: any, user: any): TUser {
+    return (user || undefined) as TUser;
+  }
+}
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission, Role } from './roles';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Restringe a rota às roles informadas (SUPER_ADMIN sempre passa). Usar com RolesGuard.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Exige todas as permissões informadas, segundo ROLE_PERMISSIONS. Usar com RolesGuard.
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
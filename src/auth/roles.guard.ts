@@ -0,0 +1,65 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { PERMISSIONS_KEY, ROLES_KEY } from './roles.decorator';
+import { Permission, Role, hasPermission, normalizeRole } from './roles';
+
+/**
+ * Autentica via JWT e aplica @Roles() / @RequirePermissions() da rota ou do controller.
+ * A role é lida do banco a cada verificação, para que rebaixamentos valham sem esperar o token expirar.
+ * Sem metadados, funciona como o JwtAuthGuard.
+ */
+@Injectable()
+export class RolesGuard extends JwtAuthGuard {
+  constructor(
+    private readonly reflector: Reflector,
+    @InjectDataSource() private readonly dataSource: DataSource,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const authenticated = await (super.canActivate(
+      context,
+    ) as Promise<boolean>);
+    if (!authenticated) return false;
+
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets);
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+    if (!roles?.length && !permissions?.length) return true;
+
+    const request = context.switchToHttp().getRequest();
+    const rows = await this.dataSource.query(
+      'SELECT role, is_active FROM users WHERE id = ? LIMIT 1',
+      [request.user?.userId],
+    );
+    if (!rows?.length || !rows[0].is_active) {
+      throw new ForbiddenException('Acesso negado. Usuário inativo.');
+    }
+
+    const role = normalizeRole(rows[0].role);
+    request.user.role = role;
+
+    const roleAllowed =
+      !roles?.length || role === Role.SUPER_ADMIN || roles.includes(role);
+    const permissionsAllowed = (permissions ?? []).every((permission) =>
+      hasPermission(role, permission),
+    );
+    if (!roleAllowed || !permissionsAllowed) {
+      throw new ForbiddenException(
+        'Acesso negado. Você não tem permissão para acessar este recurso.',
+      );
+    }
+    return true;
+  }
+}
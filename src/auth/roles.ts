@@ -0,0 +1,104 @@
+/**
+ * Roles canônicas gravadas em users.role
+ */
+export enum Role {
+  USER = 'user',
+  MASTER_TRADER = 'master_trader',
+  EXPERT = 'expert',
+  VIEWER = 'viewer',
+  SUPPORT = 'support',
+  EDITOR = 'editor',
+  ADMIN = 'admin',
+  SUPER_ADMIN = 'super_admin',
+}
+
+/**
+ * Valores antigos ainda presentes no banco e o equivalente canônico
+ */
+const LEGACY_ROLE_ALIASES: Record<string, Role> = {
+  suporte: Role.SUPPORT,
+  visualizador: Role.VIEWER,
+  trader: Role.EXPERT,
+  master: Role.MASTER_TRADER,
+};
+
+export enum Permission {
+  ADMIN_VIEW = 'admin.view',
+  USERS_VIEW = 'users.view',
+  USERS_MANAGE = 'users.manage',
+  ADMINS_MANAGE = 'admins.manage',
+  PLANS_MANAGE = 'plans.manage',
+  /**
+   * Acesso a todas as estratégias/agentes independente do plano
+   */
+  PLANS_BYPASS = 'plans.bypass',
+  CONTENT_MANAGE = 'content.manage',
+  NOTIFICATIONS_MANAGE = 'notifications.manage',
+  MARKETS_MANAGE = 'markets.manage',
+  STRATEGIES_MANAGE = 'strategies.manage',
+  WEBHOOKS_MANAGE = 'webhooks.manage',
+  SYSTEM_MANAGE = 'system.manage',
+  /**
+   * Pode ter as operações copiadas por seguidores
+   */
+  COPY_TRADING_MASTER = 'copy_trading.master',
+}
+
+/**
+ * Matriz de permissões por role
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  [Role.USER]: [],
+  [Role.MASTER_TRADER]: [Permission.COPY_TRADING_MASTER],
+  [Role.EXPERT]: [Permission.COPY_TRADING_MASTER],
+  [Role.VIEWER]: [Permission.ADMIN_VIEW],
+  [Role.SUPPORT]: [
+    Permission.ADMIN_VIEW,
+    Permission.USERS_VIEW,
+    Permission.PLANS_BYPASS,
+  ],
+  [Role.EDITOR]: [
+    Permission.ADMIN_VIEW,
+    Permission.CONTENT_MANAGE,
+    Permission.NOTIFICATIONS_MANAGE,
+  ],
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.SUPER_ADMIN]: Object.values(Permission),
+};
+
+/**
+ * Converte o valor gravado (inclusive aliases antigos) para a role canônica.
+ * Valores desconhecidos viram USER.
+ */
+export function normalizeRole(value: string | null | undefined): Role {
+  const role = (value || '').trim().toLowerCase();
+  if ((Object.values(Role) as string[]).includes(role)) return role as Role;
+  return LEGACY_ROLE_ALIASES[role] ?? Role.USER;
+}
+
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission,
+): boolean {
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+}
+
+/**
+ * Roles com acesso ao painel administrativo
+ */
+export const ADMIN_PANEL_ROLES: Role[] = Object.values(Role).filter((role) =>
+  ROLE_PERMISSIONS[role].includes(Permission.ADMIN_VIEW),
+);
+
+/**
+ * Valores de users.role que correspondem às roles informadas (canônicos + aliases antigos),
+ * para consultas com IN
+ */
+export function storedRoleValues(roles: Role[]): string[] {
+  return [
+    ...roles,
+    ...Object.keys(LEGACY_ROLE_ALIASES).filter((alias) =>
+      roles.includes(LEGACY_ROLE_ALIASES[alias]),
+    ),
+  ];
+}
@@ -0,0 +1,44 @@
+import {
+  generateRefreshToken,
+  parseAccessTokenTtlSeconds,
+  parseRefreshToken,
+  parseRefreshTokenTtlDays,
+  refreshSecretMatches,
+} from './session-tokens';
+
+describe('session-tokens', () => {
+  it('gera refresh tokens ligados à sessão e guarda só o hash', () => {
+    const { token, hash } = generateRefreshToken('sessao-1');
+    const parsed = parseRefreshToken(token);
+
+    expect(parsed?.sessionId).toBe('sessao-1');
+    expect(hash).not.toContain(parsed!.secret);
+    expect(refreshSecretMatches(parsed!.secret, hash)).toBe(true);
+    expect(refreshSecretMatches('outro-segredo', hash)).toBe(false);
+    expect(refreshSecretMatches(parsed!.secret, null)).toBe(false);
+    expect(generateRefreshToken('sessao-1').token).not.toBe(token);
+  });
+
+  it('rejeita refresh tokens mal formados', () => {
+    expect(parseRefreshToken(undefined)).toBeNull();
+    expect(parseRefreshToken('semponto')).toBeNull();
+    expect(parseRefreshToken('.segredo')).toBeNull();
+    expect(parseRefreshToken('sessao.')).toBeNull();
+  });
+
+  it('lê a validade do refresh token em dias', () => {
+    expect(parseRefreshTokenTtlDays(undefined)).toBe(30);
+    expect(parseRefreshTokenTtlDays('7')).toBe(7);
+    expect(parseRefreshTokenTtlDays('0')).toBe(30);
+  });
+
+  it('lê a validade do access token em segundos', () => {
+    expect(parseAccessTokenTtlSeconds(undefined)).toBe(900);
+    expect(parseAccessTokenTtlSeconds('600')).toBe(600);
+    expect(parseAccessTokenTtlSeconds('30m')).toBe(1800);
+    expect(parseAccessTokenTtlSeconds('2h')).toBe(7200);
+    expect(parseAccessTokenTtlSeconds('1d')).toBe(86400);
+    expect(parseAccessTokenTtlSeconds('0')).toBe(900);
+    expect(parseAccessTokenTtlSeconds('15 minutos')).toBe(900);
+  });
+});
@@ -0,0 +1,71 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+export const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Refresh token opaco no formato `<sessionId>.<segredo>`. Só o hash do segredo fica em
+ * user_sessions.refresh_token_hash; a cada uso o segredo é trocado (rotação).
+ */
+export function generateRefreshToken(sessionId: string): {
+  token: string;
+  hash: string;
+} {
+  const secret = randomBytes(48).toString('base64url');
+  return { token: `${sessionId}.${secret}`, hash: hashRefreshSecret(secret) };
+}
+
+export function parseRefreshToken(
+  token: string | undefined | null,
+): { sessionId: string; secret: string } | null {
+  if (!token || typeof token !== 'string') return null;
+  const separator = token.indexOf('.');
+  if (separator <= 0 || separator === token.length - 1) return null;
+  return {
+    sessionId: token.substring(0, separator),
+    secret: token.substring(separator + 1),
+  };
+}
+
+export function hashRefreshSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function refreshSecretMatches(
+  secret: string,
+  storedHash: string | null | undefined,
+): boolean {
+  if (!storedHash) return false;
+  const hash = hashRefreshSecret(secret);
+  if (hash.length !== storedHash.length) return false;
+  return timingSafeEqual(Buffer.from(hash), Buffer.from(storedHash));
+}
+
+export function parseRefreshTokenTtlDays(
+  value: string | undefined | null,
+): number {
+  const days = Number(value);
+  return value && Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+}
+
+const TTL_UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/**
+ * Validade do access token em segundos (JWT_ACCESS_EXPIRES_IN): segundos ou `<n>s|m|h|d`
+ */
+export function parseAccessTokenTtlSeconds(
+  value: string | undefined | null,
+): number {
+  const match = /^(\d+)\s*([smhd]?)$/i.exec((value ?? '').trim());
+  const seconds = match
+    ? Number(match[1]) * (TTL_UNIT_SECONDS[match[2].toLowerCase()] ?? 1)
+    : 0;
+  return seconds > 0 ? seconds : DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+}
@@ -16,6 +16,7 @@ import { AuthGuard } from '@nestjs/passport';
 import type { Response } from 'express';
 import { AutonomousAgentService } from './autonomous-agent.service';
 import { AutonomousAgentLogsStreamService } from './autonomous-agent-logs-stream.service';
+import { AutonomousAgentStrategyManagerService } from './strategies/autonomous-agent-strategy-manager.service';
 
 @Controller('autonomous-agent')
 export class AutonomousAgentController {
@@ -24,6 +25,7 @@ export class AutonomousAgentController {
   constructor(
     private readonly agentService: AutonomousAgentService,
     private readonly logsStreamService: AutonomousAgentLogsStreamService,
+    private readonly strategyManager: AutonomousAgentStrategyManagerService,
   ) { }
 
   @Post('activate')
@@ -80,6 +82,14 @@ export class AutonomousAgentController {
     }
   }
 
+  @Get('strategies')
+  getStrategies() {
+    return {
+      success: true,
+      data: this.strategyManager.getStrategiesMetadata(),
+    };
+  }
+
   @Post('deactivate')
   @UseGuards(AuthGuard('jwt'))
   async deactivateAgent(@Body() body: any, @Req() req: any) {
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Cron } from '@nestjs/schedule';
 import { AutonomousAgentService } from './autonomous-agent.service';
 
 /**
@@ -18,33 +18,20 @@ export class AutonomousAgentScheduler {
   ) { }
 
   /**
-   * Verifica e reseta sessões diárias a cada hora (Segurança)
-   * Se um agente parou no dia anterior (stop loss/win/blindado), reseta para o novo dia
+   * Reset Diário à meia-noite de cada fuso (user_settings.timezone)
+   * Roda a cada 15 minutos para cobrir todos os buckets de fuso (inclusive offsets de 30/45 min):
+   * agentes que bateram meta/stop ontem voltam a operar e o lucro diário dos ativos é zerado
    */
-  @Cron(CronExpression.EVERY_HOUR)
+  @Cron('*/15 * * * *')
   async handleCheckAndResetDailySessions() {
     try {
-      this.logger.log('[Scheduler] Verificando e resetando sessões diárias (Hourly Check)...');
+      this.logger.debug('[Scheduler] Verificando virada de dia por fuso horário...');
       await this.agentService.checkAndResetDailySessions();
     } catch (error) {
       this.logger.error('[Scheduler] Erro ao verificar e resetar sessões:', error);
     }
   }
 
-  /**
-   * Reset Diário Oficial à Meia-Noite
-   * Garante que todos os agentes que bateram meta/stop ontem voltem a operar hoje
-   */
-  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
-  async handleResetDailySessionsAtMidnight() {
-    try {
-      this.logger.log('[Scheduler] Executando RESET DIÁRIO DE MEIA-NOITE...');
-      await this.agentService.checkAndResetDailySessions();
-    } catch (error) {
-      this.logger.error('[Scheduler] Erro no reset de meia-noite:', error);
-    }
-  }
-
   /**
    * Sincroniza agentes ativos do banco a cada 5 minutos
    */
@@ -2,9 +2,17 @@ import { Injectable, Logger, OnModuleInit, Inject, forwardRef, ForbiddenExceptio
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from '../broker/deriv-endpoint';
 import { Tick } from '../ai/ai.service';
 import { AutonomousAgentStrategyManagerService } from './strategies/autonomous-agent-strategy-manager.service';
 import { LogQueueService } from '../utils/log-queue.service';
+import { TickStoreService } from '../utils/tick-store.service';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import { endOfDayInTimeZone, groupByTimeZone, resolveTimeZone, startOfDayInTimeZone, utcOffsetString } from '../utils/timezone.utils';
+import { DerivAccountResolver } from '../broker/deriv-account-resolver.service';
+import { NotificationEventsService } from '../notifications/notification-events.service';
+import { DerivAccountResolutionError } from '../broker/deriv-account-resolver.types';
+import type { ResolvedDerivAccount } from '../broker/deriv-account-resolver.types';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
 import { PlanPermissionsService } from '../plans/plan-permissions.service';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -44,11 +52,15 @@ export class AutonomousAgentService implements OnModuleInit {
     @InjectDataSource() private readonly dataSource: DataSource,
     @Inject(forwardRef(() => AutonomousAgentStrategyManagerService))
     private readonly strategyManager: AutonomousAgentStrategyManagerService,
+    private readonly tokenEncryption: TokenEncryptionService, // ✅ Tokens da Deriv são cifrados no banco
+    private readonly derivAccountResolver: DerivAccountResolver, // ✅ Escolha de conta/token da Deriv
     @Inject(forwardRef(() => LogQueueService))
     private readonly logQueueService?: LogQueueService,
     @InjectRepository(UserEntity)
     private readonly userRepository?: Repository<UserEntity>,
     private readonly planPermissionsService?: PlanPermissionsService,
+    private readonly tickStore?: TickStoreService,
+    private readonly notificationEvents?: NotificationEventsService,
   ) {
     this.appId = process.env.DERIV_APP_ID || '111346';
   }
@@ -161,7 +173,7 @@ export class AutonomousAgentService implements OnModuleInit {
     return new Promise<void>((resolve, reject) => {
       this.logger.log(`🔌 Inicializando conexão com Deriv API (app_id: ${this.appId})...`);
 
-      const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const endpoint = getDerivWsUrl(this.appId);
       this.ws = new WebSocket(endpoint);
 
       this.ws.on('open', async () => {
@@ -416,6 +428,10 @@ export class AutonomousAgentService implements OnModuleInit {
     this.ticks.push(newTick);
     this.lastTickReceivedTime = Date.now();
 
+    if (tickSymbol) {
+      this.tickStore?.record(tickSymbol, value, newTick.epoch);
+    }
+
     // Manter apenas os últimos maxTicks
     if (this.ticks.length > this.maxTicks) {
       this.ticks.shift();
@@ -524,7 +540,7 @@ export class AutonomousAgentService implements OnModuleInit {
             initialStake: parseFloat(agent.initial_stake),
             dailyProfitTarget: parseFloat(agent.daily_profit_target),
             dailyLossLimit: parseFloat(agent.daily_loss_limit),
-            derivToken: agent.token_deriv || agent.deriv_token, // ✅ Usar token_deriv (conta padrão) com fallback para deriv_token
+            derivToken: this.tokenEncryption.decrypt(agent.token_deriv || agent.deriv_token), // ✅ Usar token_deriv (conta padrão) com fallback para deriv_token
             currency: agent.currency,
             symbol: agent.symbol || 'R_100',
             tradingMode: agent.trading_mode || 'normal',
@@ -548,32 +564,49 @@ export class AutonomousAgentService implements OnModuleInit {
     }
   }
 
+  /**
+   * Fuso horário do usuário (user_settings.timezone), ou o padrão da plataforma
+   */
+  private async getUserTimeZone(userId: string): Promise<string> {
+    const settings = await this.dataSource.query(
+      `SELECT timezone FROM user_settings WHERE user_id = ? LIMIT 1`,
+      [userId],
+    );
+    return resolveTimeZone(settings?.[0]?.timezone);
+  }
+
   /**
    * Verifica e reseta sessões diárias se necessário
    * Se um agente parou no dia anterior (stop loss/win/blindado), reseta para o novo dia
    * Se um agente continua ativo mas a sessão é de ontem, reseta o lucro diário
+   * O "dia" é o do fuso do usuário (user_settings.timezone): cada bucket de fuso vira o dia na sua própria meia-noite
    */
   async checkAndResetDailySessions(): Promise<void> {
     try {
-      // 1. Resetar agentes que bateram stop em DIAS ANTERIORES
-      // ✅ CORREÇÃO: Usar hora convertida do próprio banco para evitar bugs de fuso horário (UTC vs Local)
-      const agentsToReset = await this.dataSource.query(
-        `SELECT id, user_id, agent_type FROM autonomous_agent_config 
-         WHERE is_active = TRUE 
-           AND session_status IN ('profit', 'loss', 'blindado', 'closs', 'manual', 'cycle') 
-           AND (session_date IS NULL OR DATE(DATE_SUB(session_date, INTERVAL 3 HOUR)) < DATE(DATE_SUB(NOW(), INTERVAL 3 HOUR)))`
-      );
-
-      // 2. Resetar lucro diário de agentes que ficaram ATIVOS mas mudou o dia
-      const activeAgentsToReset = await this.dataSource.query(
-        `SELECT id, user_id, session_status, session_date
-         FROM autonomous_agent_config 
-         WHERE is_active = TRUE 
-           AND session_status = 'active'
-           AND (session_date IS NULL OR DATE(DATE_SUB(session_date, INTERVAL 3 HOUR)) < DATE(DATE_SUB(NOW(), INTERVAL 3 HOUR)))`
+      // Agentes ativos que podem ter virado o dia (parados por stop ou ainda operando), com o fuso do dono
+      const candidates = await this.dataSource.query(
+        `SELECT c.id, c.user_id, c.agent_type, c.session_status, c.session_date, s.timezone
+         FROM autonomous_agent_config c
+         LEFT JOIN user_settings s ON s.user_id = c.user_id
+         WHERE c.is_active = TRUE 
+           AND c.session_status IN ('active', 'profit', 'loss', 'blindado', 'closs', 'manual', 'cycle')`
       );
 
-      const allAgentsToReset = [...agentsToReset, ...activeAgentsToReset];
+      const now = new Date();
+      const allAgentsToReset: any[] = [];
+      for (const [timeZone, agents] of groupByTimeZone(candidates, (agent: any) => agent.timezone)) {
+        // Sessões iniciadas antes da meia-noite local pertencem a um dia anterior
+        const startOfToday = startOfDayInTimeZone(now, timeZone);
+        const expired = agents.filter(
+          (agent: any) => !agent.session_date || new Date(agent.session_date).getTime() < startOfToday.getTime(),
+        );
+        if (expired.length > 0) {
+          this.logger.log(
+            `[ResetDailySession] Fuso ${timeZone}: ${expired.length} sessão(ões) de dias anteriores (meia-noite local: ${startOfToday.toISOString()})`,
+          );
+          allAgentsToReset.push(...expired);
+        }
+      }
 
       for (const agent of allAgentsToReset) {
         this.logger.log(
@@ -588,7 +621,7 @@ export class AutonomousAgentService implements OnModuleInit {
             module: 'CORE',
             message: 'Sessão finalizada por FECHAMENTO DIÁRIO às 00:00 (Reset Automático)',
             icon: 'ℹ️',
-            details: { resetType: 'midnight' },
+            details: { resetType: 'midnight', timezone: resolveTimeZone(agent.timezone) },
             tableName: 'autonomous_agent_logs',
           });
         }
@@ -639,7 +672,7 @@ export class AutonomousAgentService implements OnModuleInit {
             initialStake: parseFloat(agentConfig.initial_stake),
             dailyProfitTarget: parseFloat(agentConfig.daily_profit_target),
             dailyLossLimit: parseFloat(agentConfig.daily_loss_limit),
-            derivToken: agentConfig.token_deriv || agentConfig.deriv_token,
+            derivToken: this.tokenEncryption.decrypt(agentConfig.token_deriv || agentConfig.deriv_token),
             currency: agentConfig.currency,
             symbol: agentConfig.symbol || 'R_100',
             tradingMode: agentConfig.trading_mode || 'normal',
@@ -665,26 +698,26 @@ export class AutonomousAgentService implements OnModuleInit {
    */
   async activateAgent(userId: string, config: any): Promise<void> {
     // ✅ PASSO 0: VERIFICAR PERMISSÕES DO PLANO
+    let planUser: UserEntity | null = null;
     if (this.userRepository && this.planPermissionsService) {
-      const user = await this.userRepository.findOne({
+      planUser = await this.userRepository.findOne({
         where: { id: userId },
         relations: ['plan'],
       });
 
-      if (!user) {
+      if (!planUser) {
         throw new NotFoundException('Usuário não encontrado');
       }
 
       const agentId = config.agentType || config.strategy;
-      if (!this.planPermissionsService.canActivateAgent(user, agentId)) {
+      if (!this.planPermissionsService.canActivateAgent(planUser, agentId)) {
         this.logger.warn(`[ActivateAgent] 🚫 Usuário ${userId} tentou ativar agente restrito: ${agentId}`);
         throw new ForbiddenException(`Seu plano atual não inclui o agente ${agentId}.`);
       }
     }
 
     try {
-      // ✅ [ORION] Resolução de Token Baseada em Preferência (Feature Solicitada)
-      // Buscar configurações de moeda e tokens salvos
+      // ✅ [ORION] Resolução de Token Baseada em Preferência (DerivAccountResolver)
       this.logger.log(`[ActivateAgent] 🔍 Resolvendo token para Agente Autônomo (User: ${userId})`);
 
       const userSettings = await this.dataSource.query(
@@ -693,60 +726,52 @@ export class AutonomousAgentService implements OnModuleInit {
          LEFT JOIN user_settings s ON u.id = s.user_id
          WHERE u.id = ?`,
         [userId]
-      );
+      ).then((rows) => rows.map((row) => ({
+        ...row,
+        token_demo: this.tokenEncryption.decrypt(row.token_demo),
+        token_real: this.tokenEncryption.decrypt(row.token_real),
+      })));
 
       let resolvedToken = config.derivToken;
       let resolvedCurrency = config.currency || 'USD';
+      let resolvedAccount: ResolvedDerivAccount | null = null;
 
-      if (userSettings && userSettings.length > 0) {
-        const { trade_currency, token_demo, token_real } = userSettings[0];
-        const preferredCurrency = (trade_currency || 'USD').toUpperCase();
-
-        resolvedCurrency = preferredCurrency;
-
-        // Log Detalhado de Resolução (Debug)
-        this.logger.log(`[ActivateAgent][${userId}] 🔍 Rastreio de Token:
-            - Modo Preferido: ${preferredCurrency}
-            - Token Demo (DB): ${token_demo ? token_demo.substring(0, 8) + '...' : 'N/A'}
-            - Token Real (DB): ${token_real ? token_real.substring(0, 8) + '...' : 'N/A'}
-            - Token Config Inicial: ${config.derivToken ? config.derivToken.substring(0, 8) + '...' : 'N/A'}
-        `);
-
-        if (preferredCurrency === 'DEMO') {
-          if (token_demo) {
-            resolvedToken = token_demo;
-            this.logger.log(`[ActivateAgent] ✅ Modo: DEMO | Moeda: ${preferredCurrency} | Token: ${resolvedToken.substring(0, 8)}... (Usando token_demo do banco)`);
-          } else {
-            this.logger.warn(`[ActivateAgent] ⚠️ Modo DEMO solicitado, mas 'token_demo' não encontrado no banco. Usando token fornecido: ${resolvedToken ? resolvedToken.substring(0, 8) + '...' : 'N/A'}`);
-          }
-        } else {
-          // USD ou outra moeda Real
-          if (token_real) {
-            resolvedToken = token_real;
-            this.logger.log(`[ActivateAgent] ✅ Modo: REAL | Moeda: ${preferredCurrency} | Token: ${resolvedToken.substring(0, 8)}... (Usando token_real do banco)`);
-          } else {
-            this.logger.warn(`[ActivateAgent] ⚠️ Modo REAL (${preferredCurrency}) solicitado, mas 'token_real' não encontrado no banco. Usando token fornecido: ${resolvedToken ? resolvedToken.substring(0, 8) + '...' : 'N/A'}`);
-          }
-        }
-      } else {
-        this.logger.warn(`[ActivateAgent] ⚠️ Configurações de usuário não encontradas. Usando dados fornecidos no payload.`);
+      try {
+        resolvedAccount = await this.derivAccountResolver.resolve(userId);
+        resolvedToken = resolvedAccount.token;
+        // A config do agente usa 'DEMO' como moeda da conta virtual
+        resolvedCurrency = resolvedAccount.isDemo ? 'DEMO' : resolvedAccount.currency;
+        this.logger.log(`[ActivateAgent] ✅ Modo: ${resolvedAccount.isDemo ? 'DEMO' : 'REAL'} | Moeda: ${resolvedAccount.currency} | Conta: ${resolvedAccount.loginid ?? 'N/A'} | Token: ${resolvedToken.substring(0, 8)}... (${resolvedAccount.source})`);
+      } catch (error) {
+        if (!(error instanceof DerivAccountResolutionError)) throw error;
+        this.logger.warn(`[ActivateAgent] ⚠️ ${error.message}. Usando token fornecido: ${resolvedToken ? resolvedToken.substring(0, 8) + '...' : 'N/A'}`);
       }
 
       // Atualizar config com os valores resolvidos para garantir consistência
       config.derivToken = resolvedToken;
       config.currency = resolvedCurrency;
 
+      // ✅ Limites do plano (produtos simultâneos, stake, ativo e tipo de conta)
+      if (planUser && this.planPermissionsService) {
+        await this.planPermissionsService.assertActivationAllowed(planUser, {
+          product: 'agent',
+          stake: config.initialStake != null ? Number(config.initialStake) : null,
+          symbol: config.symbol || 'R_100',
+          accountType: resolvedCurrency === 'DEMO' ? 'demo' : 'real',
+        });
+      }
+
       // ✅ Buscar informações adicionais da conta padrão (token_deriv e amount_deriv)
       let tokenDeriv: string | null = null;
       let amountDeriv: number | null = null;
 
       if (userSettings && userSettings.length > 0) {
         const { trade_currency, token_demo, token_real } = userSettings[0];
-        const tradeCurrency = (trade_currency || 'USD').toUpperCase();
+        const tradeCurrency = resolvedAccount ? resolvedCurrency : (trade_currency || 'USD').toUpperCase();
 
         // Determinar token e amount baseado na conta padrão
         if (tradeCurrency === 'DEMO') {
-          tokenDeriv = token_demo;
+          tokenDeriv = resolvedAccount?.token ?? token_demo;
 
           // Buscar saldo demo
           const demoBalance = await this.dataSource.query(
@@ -756,7 +781,7 @@ export class AutonomousAgentService implements OnModuleInit {
           amountDeriv = demoBalance && demoBalance.length > 0 ? parseFloat(demoBalance[0].demo_amount || 0) : 0;
         } else {
           // Para USD, BTC ou outras contas reais
-          tokenDeriv = token_real;
+          tokenDeriv = resolvedAccount?.token ?? token_real;
 
           // Buscar saldo real e deriv_raw para obter o saldo específico da moeda
           const realData = await this.dataSource.query(
@@ -887,8 +912,8 @@ export class AutonomousAgentService implements OnModuleInit {
             config.initialStake,
             config.dailyProfitTarget,
             config.dailyLossLimit,
-            config.derivToken,
-            tokenDeriv,
+            this.tokenEncryption.encrypt(config.derivToken),
+            this.tokenEncryption.encrypt(tokenDeriv),
             amountDeriv,
             config.currency || 'USD',
             config.symbol || 'R_100', // Default fallback, but respects V2 symbols if provided
@@ -919,8 +944,8 @@ export class AutonomousAgentService implements OnModuleInit {
             config.initialStake,
             config.dailyProfitTarget,
             config.dailyLossLimit,
-            config.derivToken,
-            tokenDeriv,
+            this.tokenEncryption.encrypt(config.derivToken),
+            this.tokenEncryption.encrypt(tokenDeriv),
             amountDeriv,
             config.currency || 'USD',
             config.symbol || 'R_100', // ✅ Todos os agentes autônomos usam R_100
@@ -942,9 +967,10 @@ export class AutonomousAgentService implements OnModuleInit {
         strategy = 'orion';
       }
 
-      // ✅ Suportar Orion, Sentinel, Falcon e Zeus
-      if (strategy !== 'orion' && strategy !== 'sentinel' && strategy !== 'falcon' && strategy !== 'zeus') {
-        this.logger.warn(`[ActivateAgent] Estratégia '${strategy}' solicitada, mas apenas 'orion', 'sentinel', 'falcon' e 'zeus' estão disponíveis. Usando 'orion'.`);
+      // ✅ Suportar apenas agentes registrados (@RegisterStrategy)
+      if (this.strategyManager && !this.strategyManager.hasStrategy(strategy)) {
+        const available = Array.from(this.strategyManager.getAllStrategies().keys()).join(', ');
+        this.logger.warn(`[ActivateAgent] Estratégia '${strategy}' solicitada, mas apenas ${available} estão disponíveis. Usando 'orion'.`);
         strategy = 'orion';
       }
 
@@ -1021,8 +1047,9 @@ export class AutonomousAgentService implements OnModuleInit {
 
   /**
    * Desativa um agente autônomo
+   * reason é registrado na notificação 'agent_deactivated' enviada ao usuário
    */
-  async deactivateAgent(userId: string): Promise<void> {
+  async deactivateAgent(userId: string, reason: string = 'Desativação manual pelo usuário'): Promise<void> {
     try {
       // ✅ [ZENIX v4.3] Buscar agent_type antes de desativar para passar para o strategyManager com a assinatura correta (agentName, userId)
       const config = await this.dataSource.query(
@@ -1032,13 +1059,24 @@ export class AutonomousAgentService implements OnModuleInit {
 
       const agentType = config && config.length > 0 ? config[0].agent_type : null;
 
-      await this.dataSource.query(
+      const result = await this.dataSource.query(
         `UPDATE autonomous_agent_config 
          SET is_active = FALSE, session_status = 'paused', updated_at = NOW()
          WHERE user_id = ? AND is_active = TRUE`,
         [userId],
       );
 
+      if (result?.affectedRows > 0) {
+        this.notificationEvents?.emit({
+          userId,
+          type: 'agent_deactivated',
+          source: 'agent',
+          title: 'Agente autônomo desativado',
+          message: `Seu agente autônomo${agentType ? ` (${String(agentType).toUpperCase()})` : ''} foi desativado. Motivo: ${reason}`,
+          data: { agentType, reason },
+        });
+      }
+
       if (agentType) {
         await this.strategyManager.deactivateUser(userId);
       } else {
@@ -1064,7 +1102,12 @@ export class AutonomousAgentService implements OnModuleInit {
       [userId],
     );
 
-    return config && config.length > 0 ? config[0] : null;
+    if (!config || config.length === 0) return null;
+    return {
+      ...config[0],
+      deriv_token: this.tokenEncryption.decrypt(config[0].deriv_token),
+      token_deriv: this.tokenEncryption.decrypt(config[0].token_deriv),
+    };
   }
 
   /**
@@ -1247,43 +1290,54 @@ export class AutonomousAgentService implements OnModuleInit {
 
   /**
    * Obtém histórico de preços para um usuário
-   * Retorna apenas ticks da sessão atual (após session_date)
+   * Retorna apenas ticks da sessão atual (após session_date), lidos do histórico de ticks
+   * do símbolo configurado (não depende de trades com preço salvo)
    */
   async getPriceHistoryForUser(userId: string, limit: number = 100): Promise<any[]> {
+    const toPriceTick = (tick: Tick) => ({
+      value: tick.value,
+      epoch: tick.epoch,
+      timestamp: tick.timestamp,
+    });
+
+    let symbol = this.symbol;
     try {
-      // Buscar data da sessão atual do usuário
+      // Buscar data da sessão atual e símbolo do usuário
       const config = await this.dataSource.query(
-        `SELECT session_date FROM autonomous_agent_config 
+        `SELECT session_date, symbol FROM autonomous_agent_config 
          WHERE user_id = ? AND is_active = TRUE
          LIMIT 1`,
         [userId],
       );
 
       let sessionStartTime = 0;
-      if (config && config.length > 0 && config[0].session_date) {
-        sessionStartTime = new Date(config[0].session_date).getTime() / 1000;
+      if (config && config.length > 0) {
+        if (config[0].session_date) {
+          sessionStartTime = Math.floor(new Date(config[0].session_date).getTime() / 1000);
+        }
+        symbol = config[0].symbol || symbol;
       }
 
-      // Filtrar ticks apenas da sessão atual (após session_date)
+      if (this.tickStore) {
+        const ticks = await this.tickStore.getRange(symbol, {
+          from: sessionStartTime || undefined,
+          limit,
+          latest: true,
+        });
+        return ticks.map(toPriceTick);
+      }
+
+      // Fallback: buffer em memória desta conexão
       const sessionTicks = this.ticks.filter((tick) => {
         const tickTime = tick.epoch || (tick.timestamp ? new Date(tick.timestamp).getTime() / 1000 : 0);
         return tickTime >= sessionStartTime;
       });
-
-      // Retornar os últimos ticks da sessão atual
-      return sessionTicks.slice(-limit).map((tick) => ({
-        value: tick.value,
-        epoch: tick.epoch,
-        timestamp: tick.timestamp,
-      }));
+      return sessionTicks.slice(-limit).map(toPriceTick);
     } catch (error) {
       this.logger.error(`[GetPriceHistoryForUser] Erro ao buscar histórico:`, error);
-      // Em caso de erro, retornar últimos ticks globais
-      return this.ticks.slice(-limit).map((tick) => ({
-        value: tick.value,
-        epoch: tick.epoch,
-        timestamp: tick.timestamp,
-      }));
+      // Em caso de erro, retornar últimos ticks em memória
+      const recent = this.tickStore?.getRecentTicks(symbol, limit) ?? [];
+      return (recent.length > 0 ? recent : this.ticks.slice(-limit)).map(toPriceTick);
     }
   }
 
@@ -1377,23 +1431,23 @@ export class AutonomousAgentService implements OnModuleInit {
     return { updated: 0, deleted: 0, errors: 0 };
   }
   async getDailyStats(userId: string, days: number = 30, agent?: string, startDateStr?: string, endDateStr?: string): Promise<any> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Dias contados no fuso do usuário (user_settings.timezone)
+    const timeZone = await this.getUserTimeZone(userId);
+    const now = new Date();
+    const today = startOfDayInTimeZone(now, timeZone);
+    const dayMs = 24 * 60 * 60 * 1000;
 
     let effectiveStartDate: Date;
-    let effectiveEndDate: Date = new Date();
-    effectiveEndDate.setHours(23, 59, 59, 999);
+    let effectiveEndDate: Date = endOfDayInTimeZone(now, timeZone);
 
     if (startDateStr && endDateStr) {
-      effectiveStartDate = new Date(startDateStr);
-      effectiveStartDate.setHours(0, 0, 0, 0);
-      effectiveEndDate = new Date(endDateStr);
-      effectiveEndDate.setHours(23, 59, 59, 999);
+      // Datas AAAA-MM-DD: meio-dia UTC cai no mesmo dia local em qualquer fuso usado na plataforma
+      effectiveStartDate = startOfDayInTimeZone(new Date(`${startDateStr.slice(0, 10)}T12:00:00Z`), timeZone);
+      effectiveEndDate = endOfDayInTimeZone(new Date(`${endDateStr.slice(0, 10)}T12:00:00Z`), timeZone);
     } else {
-      effectiveStartDate = new Date(today);
-      effectiveStartDate.setDate(today.getDate() - days);
-      effectiveStartDate.setHours(0, 0, 0, 0);
+      effectiveStartDate = startOfDayInTimeZone(new Date(today.getTime() - days * dayMs + 12 * 60 * 60 * 1000), timeZone);
     }
+    const offset = utcOffsetString(now, timeZone);
 
     // Buscar config para obter DATA DA SESSÃO e filtrar
     const config = await this.getAgentConfig(userId);
@@ -1422,7 +1476,7 @@ export class AutonomousAgentService implements OnModuleInit {
 
     const trades = await this.dataSource.query(
       `SELECT 
-         DATE(CONVERT_TZ(created_at, '+00:00', '-03:00')) as date,
+         DATE(CONVERT_TZ(created_at, '+00:00', ?)) as date,
          SUM(CASE WHEN profit_loss > 0 THEN profit_loss ELSE 0 END) as profit,
          SUM(CASE WHEN profit_loss < 0 THEN ABS(profit_loss) ELSE 0 END) as loss,
          COUNT(*) as ops,
@@ -1434,9 +1488,9 @@ export class AutonomousAgentService implements OnModuleInit {
          AND created_at BETWEEN ? AND ?
          AND status IN ('WON', 'LOST')
          ${strategyFilter}
-       GROUP BY DATE(CONVERT_TZ(created_at, '+00:00', '-03:00'))
+       GROUP BY DATE(CONVERT_TZ(created_at, '+00:00', ?))
        ORDER BY date ASC`, // ASC para calcular acumulado corretamente
-      params
+      [offset, ...params, offset]
     );
 
 
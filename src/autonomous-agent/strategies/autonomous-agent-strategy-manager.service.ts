@@ -1,10 +1,8 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Tick } from '../../ai/ai.service';
 import { IAutonomousAgentStrategy } from './common.types';
-import { OrionAutonomousStrategy } from './orion.strategy';
-import { SentinelStrategy } from './sentinel.strategy';
-import { FalconStrategy } from './falcon.strategy';
-import { ZeusStrategy } from './zeus.strategy';
+import { StrategyRegistryService } from '../../strategies/registry/strategy-registry.service';
+import { RegisteredStrategy, StrategyMetadata } from '../../strategies/registry/strategy-registry.types';
 
 /**
  * ✅ NOVO: StrategyManager para Agente Autônomo
@@ -16,31 +14,29 @@ import { ZeusStrategy } from './zeus.strategy';
  * - Processamento REATIVO (baseado em ticks)
  * - Uma única entrada para todas as estratégias
  * - Processamento em paralelo
+ * - Estratégias descobertas via @RegisterStrategy({ kind: 'autonomous-agent', ... })
  */
 @Injectable()
 export class AutonomousAgentStrategyManagerService implements OnModuleInit {
   private readonly logger = new Logger(AutonomousAgentStrategyManagerService.name);
   private strategies = new Map<string, IAutonomousAgentStrategy>();
+  private subscribersBySymbol = new Map<string, RegisteredStrategy<IAutonomousAgentStrategy>[]>();
 
   constructor(
-    private readonly orionStrategy: OrionAutonomousStrategy,
-    private readonly sentinelStrategy: SentinelStrategy,
-    private readonly falconStrategy: FalconStrategy,
-    private readonly zeusStrategy: ZeusStrategy,
+    private readonly strategyRegistry: StrategyRegistryService,
   ) { }
 
   async onModuleInit() {
-    // ✅ Registrar Orion, Sentinel e Falcon
-    this.strategies.set('orion', this.orionStrategy);
-    this.strategies.set('sentinel', this.sentinelStrategy);
-    this.strategies.set('falcon', this.falconStrategy);
-    this.strategies.set('zeus', this.zeusStrategy);
+    // ✅ Registrar estratégias descobertas no boot
+    for (const { metadata, instance } of this.strategyRegistry.getStrategies<IAutonomousAgentStrategy>('autonomous-agent')) {
+      this.strategies.set(metadata.name, instance);
+    }
+    this.subscribersBySymbol = this.strategyRegistry.buildSymbolIndex<IAutonomousAgentStrategy>('autonomous-agent');
 
     // Inicializar estratégias
-    await this.orionStrategy.initialize();
-    await this.sentinelStrategy.initialize();
-    await this.falconStrategy.initialize();
-    await this.zeusStrategy.initialize();
+    for (const strategy of this.strategies.values()) {
+      await strategy.initialize();
+    }
 
     this.logger.log(
       `[AutonomousAgentStrategyManager] ✅ ${this.strategies.size} estratégia(s) registrada(s): ${Array.from(this.strategies.keys()).join(', ')}`,
@@ -48,69 +44,29 @@ export class AutonomousAgentStrategyManagerService implements OnModuleInit {
   }
 
   /**
-   * ✅ NOVO: Processa um tick para todas as estratégias ativas
+   * ✅ NOVO: Processa um tick nas estratégias inscritas no símbolo
    * Similar ao StrategyManager da IA - processamento REATIVO
    * 
    * @param tick - Tick recebido do WebSocket
-   * @param symbol - Símbolo do mercado (sempre R_100 para agentes autônomos)
+   * @param symbol - Símbolo do mercado (padrão R_100)
    */
   async processTick(tick: Tick, symbol?: string): Promise<void> {
-    const promises: Promise<void>[] = [];
-    const tickSymbol = symbol || 'R_100'; // ✅ Todos os agentes autônomos usam R_100
-
-    // ✅ ORION: Processa R_100 e 1HZ100V
-    const orionStrategy = this.strategies.get('orion');
-    if (orionStrategy && typeof (orionStrategy as any).processTick === 'function') {
-      if (tickSymbol === 'R_100' || tickSymbol === '1HZ100V') {
-        promises.push(
-          (orionStrategy as any).processTick(tick).catch((error: any) => {
-            this.logger.error('[AutonomousAgentStrategyManager][Orion] Erro:', error);
-          })
-        );
-      }
-    }
-
-    // ✅ SENTINEL: Processa R_100 e 1HZ100V
-    const sentinelStrategy = this.strategies.get('sentinel');
-    if (sentinelStrategy && typeof (sentinelStrategy as any).processTick === 'function') {
-      if (tickSymbol === 'R_100' || tickSymbol === '1HZ100V') {
-        promises.push(
-          (sentinelStrategy as any).processTick(tick, tickSymbol).catch((error: any) => {
-            this.logger.error('[AutonomousAgentStrategyManager][Sentinel] Erro:', error);
-          })
-        );
-      }
-    }
-
-    // ✅ FALCON: Processa R_100, 1HZ10V e 1HZ100V
-    const falconStrategy = this.strategies.get('falcon');
-    if (falconStrategy && typeof (falconStrategy as any).processTick === 'function') {
-      if (['R_10', 'R_25', 'R_50', 'R_75', 'R_100', '1HZ10V', '1HZ100V', '1HZ25V', '1HZ50V', '1HZ75V'].includes(tickSymbol)) {
-        promises.push(
-          (falconStrategy as any).processTick(tick, tickSymbol).catch((error: any) => {
-            this.logger.error('[AutonomousAgentStrategyManager][Falcon] Erro:', error);
-          })
-        );
-      }
-    }
-
-    // ✅ ZEUS: Processa R_100, R_50 e 1HZ100V
-    const zeusStrategy = this.strategies.get('zeus');
-    if (zeusStrategy && typeof (zeusStrategy as any).processTick === 'function') {
-      // Zeus agora suporta R_100 e R_50
-      if (tickSymbol === 'R_100' || tickSymbol === 'R_50' || tickSymbol === '1HZ100V' || tickSymbol === '1HZ50V') {
-        promises.push(
-          (zeusStrategy as any).processTick(tick, tickSymbol).catch((error: any) => {
-            this.logger.error('[AutonomousAgentStrategyManager][Zeus] Erro:', error);
-          })
-        );
-      }
+    const tickSymbol = symbol || 'R_100';
+    const subscribers = this.subscribersBySymbol.get(tickSymbol);
+    if (!subscribers || subscribers.length === 0) {
+      return;
     }
 
     // Processar todas as estratégias em paralelo
-    if (promises.length > 0) {
-      await Promise.all(promises);
-    }
+    await Promise.all(
+      subscribers
+        .filter(({ instance }) => typeof instance.processTick === 'function')
+        .map(({ metadata, instance }) =>
+          instance.processTick!(tick, tickSymbol).catch((error: any) => {
+            this.logger.error(`[AutonomousAgentStrategyManager][${metadata.name}] Erro:`, error);
+          }),
+        ),
+    );
   }
 
   /**
@@ -180,6 +136,13 @@ export class AutonomousAgentStrategyManagerService implements OnModuleInit {
     return this.strategies;
   }
 
+  /**
+   * Metadados (símbolos, contratos e schema de configuração) dos agentes registrados
+   */
+  getStrategiesMetadata(): StrategyMetadata[] {
+    return this.strategyRegistry.getMetadata('autonomous-agent');
+  }
+
   /**
    * Verifica se uma estratégia está registrada
    */
@@ -1,3 +1,6 @@
+import { Tick } from '../../ai/ai.service';
+import { StrategyConfigSchema } from '../../strategies/registry/strategy-registry.types';
+
 // ============================================
 // TIPOS COMUNS PARA AGENTES AUTÔNOMOS
 // ============================================
@@ -51,6 +54,7 @@ export interface IAutonomousAgentStrategy {
   description: string;
 
   initialize(): Promise<void>;
+  processTick?(tick: Tick, symbol?: string): Promise<void>;
   activateUser(userId: string, config: AutonomousAgentConfig): Promise<void>;
   deactivateUser(userId: string): Promise<void>;
   processAgent(userId: string, marketAnalysis: MarketAnalysis): Promise<TradeDecision>;
@@ -59,3 +63,16 @@ export interface IAutonomousAgentStrategy {
   resetDailySession(userId: string): Promise<void>;
   isUserActive(userId: string): boolean;
 }
+
+// Campos de ativação comuns aos agentes (POST /autonomous-agent/activate)
+export const AUTONOMOUS_AGENT_CONFIG_SCHEMA: StrategyConfigSchema = {
+  initialStake: { type: 'number', required: true, min: 0.35 },
+  dailyProfitTarget: { type: 'number', required: true, min: 0 },
+  dailyLossLimit: { type: 'number', required: true, min: 0 },
+  derivToken: { type: 'string', required: true },
+  currency: { type: 'string', default: 'USD' },
+  symbol: { type: 'string' },
+  riskProfile: { type: 'string', description: 'Perfil de risco (conservador, moderado, agressivo...)' },
+  tradingMode: { type: 'string', default: 'normal' },
+  stopLossType: { type: 'string', default: 'normal' },
+};
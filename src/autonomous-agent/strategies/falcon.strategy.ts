@@ -1,16 +1,24 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import {
   IAutonomousAgentStrategy,
   AutonomousAgentConfig,
   AutonomousAgentState,
   MarketAnalysis,
   TradeDecision,
+  AUTONOMOUS_AGENT_CONFIG_SCHEMA,
 } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { Tick, DigitParity } from '../../ai/ai.service';
 import { LogQueueService } from '../../utils/log-queue.service';
+import { TickStoreService } from '../../utils/tick-store.service';
+import { TokenEncryptionService } from '../../utils/token-encryption.service';
+import { NotificationEventsService } from '../../notifications/notification-events.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
 
 /**
  * 🦅 FALCON Strategy para Agente Autônomo - Versão 3.0 (ALINHADO COM ZEUS V4)
@@ -175,6 +183,13 @@ interface FalconUserState extends AutonomousAgentState {
   lastDigits: number[];
   lastOpProfit?: number;
 }
+@RegisterStrategy({
+  kind: 'autonomous-agent',
+  name: 'falcon',
+  symbols: ['R_10', 'R_25', 'R_50', 'R_75', 'R_100', '1HZ10V', '1HZ25V', '1HZ50V', '1HZ75V', '1HZ100V'],
+  contractTypes: ['CALL', 'PUT', 'DIGITOVER'],
+  configSchema: AUTONOMOUS_AGENT_CONFIG_SCHEMA,
+})
 @Injectable()
 export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
   name = 'falcon';
@@ -188,29 +203,18 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
   private readonly maxTicks = 200;
   private readonly comissaoPlataforma = 0.03; // 3%
   private readonly processingLocks = new Map<string, boolean>(); // ✅ Lock para evitar processamento simultâneo
-  private readonly appId: string;
-
-  // ✅ Pool de conexões WebSocket por token (reutilização - uma conexão por token)
-  private wsConnections: Map<
-    string,
-    {
-      ws: WebSocket;
-      authorized: boolean;
-      currency?: string; // ✅ Adicionado para suportar múltiplas moedas (BRL, USD, etc)
-      keepAliveInterval: NodeJS.Timeout | null;
-      requestIdCounter: number;
-      pendingRequests: Map<string, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-      subscriptions: Map<string, (msg: any) => void>;
-    }
-  > = new Map();
 
   constructor(
     @InjectDataSource() private readonly dataSource: DataSource,
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+    private readonly tokenEncryption: TokenEncryptionService,
     @Inject(forwardRef(() => LogQueueService))
     private readonly logQueueService?: LogQueueService,
-  ) {
-    this.appId = process.env.DERIV_APP_ID || '111346';
-  }
+    private readonly tickStore?: TickStoreService,
+    private readonly notificationEvents?: NotificationEventsService,
+    private readonly planPermissions?: PlanPermissionsService,
+    private readonly tradeLedger?: TradeLedgerService,
+  ) { }
 
   async onModuleInit() {
     this.logger.log('🦅 FALCON Strategy inicializado');
@@ -238,7 +242,13 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
          WHERE c.is_active = TRUE 
            AND c.agent_type = 'falcon'
            AND c.session_status NOT IN ('stopped_profit', 'stopped_loss', 'stopped_blindado')`,
-      );
+      ).then((rows) => rows.map((row) => ({
+        ...row,
+        config_token: this.tokenEncryption.decrypt(row.config_token),
+        token_demo: this.tokenEncryption.decrypt(row.token_demo),
+        token_real: this.tokenEncryption.decrypt(row.token_real),
+        deriv_raw: this.tokenEncryption.decryptDerivRaw(row.deriv_raw),
+      })));
 
       for (const user of activeUsers) {
         const userId = user.user_id.toString();
@@ -409,7 +419,8 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
     };
 
     this.userStates.set(userId, state);
-    this.ticks.set(userId, []);
+    // ✅ Warm-up com o histórico compartilhado (evita aguardar a amostra inicial)
+    this.ticks.set(userId, this.tickStore?.getRecentTicks(config.symbol, this.maxTicks) ?? []);
   }
 
   async activateUser(userId: string, config: AutonomousAgentConfig): Promise<void> {
@@ -561,17 +572,11 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
     this.ticks.delete(userId);
     this.processingLocks.delete(userId);
 
-    // ✅ Se não houver mais usuários com este token, fechar a conexão
+    // ✅ Se não houver mais usuários com este token, liberar a conexão no gateway
     if (token) {
       const otherUsersWithSameToken = Array.from(this.userConfigs.values()).some(c => c.derivToken === token);
       if (!otherUsersWithSameToken) {
-        const conn = this.wsConnections.get(token);
-        if (conn) {
-          this.logger.log(`[Falcon] 🔌 Fechando conexão WebSocket (Token: ${token.substring(0, 8)}...) - Nenhum usuário ativo.`);
-          if (conn.keepAliveInterval) clearInterval(conn.keepAliveInterval);
-          conn.ws.close();
-          this.wsConnections.delete(token);
-        }
+        this.brokerGateway.releaseConnection(token, 'falcon');
       }
     }
 
@@ -1148,6 +1153,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
       `UPDATE autonomous_agent_config SET session_status = ?, is_active = TRUE WHERE user_id = ?`,
       [status, userId],
     );
+    this.notificationEvents?.emitSessionStop(userId, 'agent', status, message, { agent: 'falcon' });
 
     this.logger.log(`[Falcon][${userId}] ${message}`);
   }
@@ -1253,6 +1259,17 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
       const barrier = String(marketAnalysis.details?.barrier || (state.perdasAcumuladas > 0 ? 4 : 2));
       const duration = 1;
 
+      // ✅ Limites do plano no momento da operação
+      const planBlock = await this.planPermissions?.checkTrade(userId, {
+        product: 'agent',
+        stake: finalStake,
+        symbol: config.symbol,
+      });
+      if (planBlock) {
+        this.saveLog(userId, 'WARN', 'TRADER', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+        return;
+      }
+
       // TRAVA DE ESTADO
       state.isWaitingContract = true;
       state.waitingContractStartTime = Date.now();
@@ -1315,8 +1332,8 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
    */
   private async getPayout(token: string, contractType: string, symbol: string, duration: number): Promise<number> {
     try {
-      // ✅ Obter conexão do pool interno
-      const connection = await this.getOrCreateWebSocketConnection(token);
+      // ✅ Obter conexão do gateway
+      const connection = await this.brokerGateway.getConnection(token, { owner: 'falcon', appIdFallback: true });
 
       const response = await connection.sendRequest(
         {
@@ -1356,7 +1373,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
 
 
   /**
-   * Compra contrato na Deriv via WebSocket Pool Interno com retry automático
+   * Compra contrato na Deriv via BrokerGateway com retry automático
    */
   private async buyContract(
     userId: string,
@@ -1382,8 +1399,8 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
           await new Promise(resolve => setTimeout(resolve, delayMs));
         }
 
-        // ✅ Obter conexão do pool interno
-        const connection = await this.getOrCreateWebSocketConnection(token, userId);
+        // ✅ Obter conexão do gateway
+        const connection = await this.brokerGateway.getConnection(token, { owner: 'falcon', label: userId, appIdFallback: true });
 
         // ✅ Primeiro, obter proposta (usando timeout de 60s como Orion)
         // ✅ Primeiro, obter proposta (usando timeout de 60s como Orion)
@@ -1491,7 +1508,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
           throw lastError;
         }
 
-        // ✅ Inscrever para monitorar contrato usando pool interno
+        // ✅ Inscrever para monitorar contrato via gateway
         await connection.subscribe(
           {
             proposal_open_contract: 1,
@@ -1533,7 +1550,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                   state.waitingContractStartTime = undefined;
                 }
 
-                // Remover subscription usando pool interno
+                // Remover subscription via gateway
                 connection.removeSubscription(contractId);
                 return;
               }
@@ -1560,7 +1577,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                   this.logger.error(`[Falcon][${userId}] Erro ao processar resultado:`, error);
                 });
 
-                // Remover subscription usando pool interno
+                // Remover subscription via gateway
                 connection.removeSubscription(contractId);
               }
             }
@@ -1841,12 +1858,13 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
           state.perdasAcumuladas > 0 ? 'M1' : 'M0',
           trade.payout * 100,
           config.symbol,
-          config.derivToken || null, // ✅ Token usado para o trade
+          this.tokenEncryption.encrypt(config.derivToken || null), // ✅ Token usado para o trade (cifrado)
           config.currency === 'DEMO' ? 'demo' : 'real', // ✅ Tipo de conta (demo/real) derivado de currency
         ],
       );
 
       const insertId = Array.isArray(result) ? result[0]?.insertId : result?.insertId;
+      this.tradeLedger?.sync('agent', insertId, ledgerContextFromCurrency(config.currency));
       return insertId || 0;
     } catch (error) {
       this.logger.error(`[Falcon][${userId}] Erro ao criar registro de trade:`, error);
@@ -1928,6 +1946,7 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
         `UPDATE autonomous_agent_trades SET ${updateFields.join(', ')} WHERE id = ?`,
         updateValues,
       );
+      this.tradeLedger?.sync('agent', tradeId);
       this.logger.debug(`[Falcon] ✅ Trade ${tradeId} atualizado com sucesso`);
     } catch (error) {
       this.logger.error(`[Falcon] ❌ Erro ao atualizar trade ${tradeId}:`, error);
@@ -2027,268 +2046,13 @@ export class FalconStrategy implements IAutonomousAgentStrategy, OnModuleInit {
     }
   }
 
-  /**
-  * ✅ Obtém ou cria conexão WebSocket reutilizável por token
-  * AGORA COM FALLBACK DINÂMICO DE APP ID (111346 -> 1089)
-  */
-  /**
-  * ✅ AGORA COM FALLBACK DINÂMICO DE APP ID (121987 -> 111346 -> 1089)
-  */
-  private async getOrCreateWebSocketConnection(token: string, userId?: string, forceAppId?: string): Promise<{
-    ws: WebSocket;
-    currency?: string;
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  }> {
-    const fallbackAppIds = ['121987', '111346', '1089', '36300'];
-    const uniqueAppIds = new Set<string>();
-
-    if (forceAppId) uniqueAppIds.add(forceAppId);
-    uniqueAppIds.add(this.appId);
-    fallbackAppIds.forEach(id => uniqueAppIds.add(id));
-
-    const appIdsToTry = Array.from(uniqueAppIds);
-    let lastError: any = null;
-
-    for (const appIdToTry of appIdsToTry) {
-      try {
-        return await this._internalConnect(token, userId, appIdToTry);
-      } catch (error: any) {
-        lastError = error;
-        const isInvalidAppId = error.message && (
-          error.message.includes('InvalidToken') ||
-          error.message.includes('Token is not valid for current app ID') ||
-          error.message.includes('InvalidAppID')
-        );
-
-        if (isInvalidAppId) {
-          this.logger.warn(`[Falcon][${userId}] ⚠️ Falha com App ID ${appIdToTry}. Tentando próximo... (${error.message})`);
-          continue; // Tenta o próximo da lista
-        } else {
-          throw error;
-        }
-      }
-    }
-    throw lastError || new Error('Falha ao conectar com todos os App IDs disponíveis');
-  }
-
-  /**
-  * ✅ Método interno de conexão (com suporte a override de App ID)
-  */
-  private async _internalConnect(
-    token: string,
-    userId?: string,
-    forceAppId?: string
-  ): Promise<{
-    ws: WebSocket;
-    currency?: string;
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  }> {
-    if (this.wsConnections.has(token)) {
-      const existing = this.wsConnections.get(token)!;
-      if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-        return {
-          ws: existing.ws,
-          currency: existing.currency, // ✅ Retornar moeda existente
-          sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-          subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-            this.subscribeViaConnection(token, payload, callback, String(subId), timeoutMs),
-          removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-      }
-      // Se não estiver pronta, fecha e remove para garantir nova conexão limpa com o novo App ID
-      try { existing.ws.close(); } catch (e) { }
-      this.wsConnections.delete(token);
-    }
-
-    // ✅ Criar nova conexão com App ID dinâmico
-    const currentAppId = forceAppId || this.appId;
-    this.logger.debug(`[Falcon] 🔌 [${userId || 'SYSTEM'}] Criando nova conexão WebSocket (App ID: ${currentAppId})`);
-
-    return new Promise((resolve, reject) => {
-      let authResolved = false;
-      const socket = new WebSocket(`wss://ws.derivws.com/websockets/v3?app_id=${currentAppId}`, {
-        headers: { Origin: 'https://app.deriv.com' },
-      });
-      const connectionTimeout = setTimeout(() => {
-        if (!authResolved) {
-          authResolved = true;
-          this.wsConnections.delete(token);
-          socket.terminate();
-          reject(new Error('Timeout ao conectar/autorizar WebSocket (15s)'));
-        }
-      }, 15000);
-
-      socket.on('message', (data) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          const conn = this.wsConnections.get(token);
-          if (!conn) return;
-
-          if (msg.msg_type === 'authorize' && !authResolved) {
-            authResolved = true;
-            clearTimeout(connectionTimeout);
-            if (msg.error) {
-              socket.close();
-              this.wsConnections.delete(token);
-              // REJEITAR com a mensagem de erro original para que o loop de retry possa detectar InvalidToken/AppID
-              reject(new Error(msg.error.message || 'Erro na autorização'));
-              return;
-            }
-            conn.authorized = true;
-            conn.currency = msg.authorize?.currency || 'USD'; // ✅ Capturar moeda real
-            conn.keepAliveInterval = setInterval(() => {
-              if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ ping: 1 }));
-            }, 30000);
-            resolve({
-              ws: socket,
-              currency: conn.currency, // ✅ Retornar moeda
-              sendRequest: (p, t = 60000) => this.sendRequestViaConnection(token, p, t),
-              subscribe: (p, c, s, t = 90000) => this.subscribeViaConnection(token, p, c, s, t),
-              removeSubscription: (s) => this.removeSubscriptionFromConnection(token, s),
-            });
-            return;
-          }
-
-          if (msg.proposal_open_contract) {
-            const subId = String(msg.proposal_open_contract.contract_id);
-            if (conn.subscriptions.has(subId)) conn.subscriptions.get(subId)!(msg);
-            return;
-          }
-
-          const reqId = msg.req_id || msg.echo_req?.passthrough?.req_id;
-          if (reqId && conn.pendingRequests.has(reqId)) {
-            const pending = conn.pendingRequests.get(reqId)!;
-            clearTimeout(pending.timeout);
-            conn.pendingRequests.delete(reqId);
-            if (msg.error) pending.reject(new Error(msg.error.message));
-            else pending.resolve(msg);
-          }
-        } catch (e) { }
-      });
-
-      socket.on('open', () => {
-        this.wsConnections.set(token, {
-          ws: socket,
-          authorized: false,
-          keepAliveInterval: null,
-          requestIdCounter: 0,
-          pendingRequests: new Map(),
-          subscriptions: new Map(),
-        });
-        socket.send(JSON.stringify({ authorize: token }));
-      });
-
-      socket.on('error', (e) => {
-        if (!authResolved) {
-          authResolved = true;
-          clearTimeout(connectionTimeout);
-          reject(e);
-        }
-      });
-
-      socket.on('close', () => {
-        const conn = this.wsConnections.get(token);
-        if (conn?.keepAliveInterval) clearInterval(conn.keepAliveInterval);
-        this.wsConnections.delete(token);
-      });
-    });
-  }
-
-
-  /**
-   * ✅ Envia requisição via conexão existente
-   */
-  private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    return new Promise((resolve, reject) => {
-      const requestId = `req_${++conn.requestIdCounter}_${Date.now()}`;
-      const timeout = setTimeout(() => {
-        conn.pendingRequests.delete(requestId);
-        reject(new Error(`Timeout após ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      const enrichedPayload = {
-        ...payload,
-        passthrough: {
-          ...payload.passthrough,
-          req_id: requestId,
-          origin: 'autonomous_agent',
-        },
-      };
-
-
-      conn.ws.send(JSON.stringify(enrichedPayload));
-    });
-  }
-
-  /**
-   * ✅ Subscreve para atualizações via conexão existente
-   */
-  private async subscribeViaConnection(
-    token: string,
-    payload: any,
-    callback: (msg: any) => void,
-    subId: string,
-    timeoutMs: number,
-  ): Promise<void> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        conn.subscriptions.delete(subId);
-        reject(new Error(`Timeout ao inscrever ${subId}`));
-      }, timeoutMs);
-
-      const wrappedCallback = (msg: any) => {
-        if (msg.proposal_open_contract || msg.error) {
-          clearTimeout(timeout);
-          if (msg.error) {
-            conn.subscriptions.delete(subId);
-            reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-            return;
-          }
-          conn.subscriptions.set(subId, callback);
-          resolve();
-          callback(msg);
-          return;
-        }
-        callback(msg);
-      };
-
-      conn.subscriptions.set(subId, wrappedCallback);
-      conn.ws.send(JSON.stringify(payload));
-    });
-  }
-
-  /**
-   * ✅ Remove subscription da conexão
-   */
-  private removeSubscriptionFromConnection(token: string, subId: string): void {
-    const conn = this.wsConnections.get(token);
-    if (conn) {
-      conn.subscriptions.delete(subId);
-    }
-  }
 
   /**
    * ✅ Warm-up de conexão (Ping)
    */
   private async warmUpConnection(token: string): Promise<void> {
     try {
-      const { sendRequest } = await this.getOrCreateWebSocketConnection(token);
+      const { sendRequest } = await this.brokerGateway.getConnection(token, { owner: 'falcon', appIdFallback: true });
       await sendRequest({ ping: 1 }, 5000);
     } catch (error) {
       this.logger.debug(`[Falcon] ⚠️ WarmUp failed for token ending in ...${token.slice(-4)}`);
@@ -7,10 +7,16 @@ import {
   AutonomousAgentState,
   MarketAnalysis,
   TradeDecision,
+  AUTONOMOUS_AGENT_CONFIG_SCHEMA,
 } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { OrionStrategy } from '../../ai/strategies/orion.strategy';
 import { Tick, DigitParity } from '../../ai/ai.service';
 import { LogQueueService } from '../../utils/log-queue.service';
+import { TokenEncryptionService } from '../../utils/token-encryption.service';
+import { NotificationEventsService } from '../../notifications/notification-events.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
 
 /**
  * 🌟 ORION Strategy para Agente Autônomo
@@ -30,6 +36,13 @@ import { LogQueueService } from '../../utils/log-queue.service';
  * - Monitora sessões diárias (parar no dia após stop loss/win/blindado)
  * - Reseta sessões no próximo dia
  */
+@RegisterStrategy({
+  kind: 'autonomous-agent',
+  name: 'orion',
+  symbols: ['R_100', '1HZ100V'],
+  contractTypes: ['DIGITEVEN', 'DIGITODD', 'DIGITOVER', 'CALL', 'PUT'],
+  configSchema: AUTONOMOUS_AGENT_CONFIG_SCHEMA,
+})
 @Injectable()
 export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModuleInit {
   name = 'orion';
@@ -42,7 +55,10 @@ export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModu
   constructor(
     @InjectDataSource() private readonly dataSource: DataSource,
     @Inject(forwardRef(() => OrionStrategy)) private readonly orionStrategy: OrionStrategy,
+    private readonly tokenEncryption: TokenEncryptionService,
     @Inject(forwardRef(() => LogQueueService)) private readonly logQueueService?: LogQueueService,
+    private readonly notificationEvents?: NotificationEventsService,
+    private readonly tradeLedger?: TradeLedgerService,
   ) { }
 
   async onModuleInit() {
@@ -81,7 +97,7 @@ export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModu
           initialStake: parseFloat(user.initial_stake),
           dailyProfitTarget: parseFloat(user.daily_profit_target),
           dailyLossLimit: parseFloat(user.daily_loss_limit),
-          derivToken: user.deriv_token,
+          derivToken: this.tokenEncryption.decrypt(user.deriv_token),
           currency: user.currency,
           symbol: user.symbol || 'R_100',
           tradingMode: (user.trading_mode || 'normal') as 'veloz' | 'moderado' | 'preciso',
@@ -194,7 +210,7 @@ export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModu
       };
 
       // Tentar criar registro de trade
-      await this.dataSource.query(
+      const insertResult = await this.dataSource.query(
         `INSERT INTO autonomous_agent_trades (
           user_id, session_id, analysis_data, confidence_score, analysis_reasoning,
           contract_type, contract_duration, entry_price, stake_amount,
@@ -215,12 +231,13 @@ export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModu
           config.symbol || 'R_100',
           result.win ? 'WON' : 'LOST',
           'orion',
-          config.derivToken || null,
+          this.tokenEncryption.encrypt(config.derivToken || null), // ✅ Token usado para o trade (cifrado)
           config.currency === 'DEMO' ? 'demo' : 'real',
           result.contractId,
           result.profit
         ]
       ).catch(err => this.logger.error(`[Orion][${userId}] Erro ao inserir trade: ${err.message}`));
+      this.tradeLedger?.sync('agent', insertResult?.insertId, ledgerContextFromCurrency(config.currency));
 
       // Atualizar lucro/perda diária no banco
       const currentStats = await this.dataSource.query(
@@ -271,6 +288,18 @@ export class OrionAutonomousStrategy implements IAutonomousAgentStrategy, OnModu
 
         // Se parou no dia, desativar na Orion Strategy (mas manter is_active = TRUE no banco)
         if (sessionStatus !== 'active') {
+          // Notificar apenas na transição (contratos que terminam depois do stop não geram novo aviso)
+          if (sessionStatus !== (stats.session_status || 'active')) {
+            this.notificationEvents?.emitSessionStop(
+              userId,
+              'agent',
+              sessionStatus,
+              sessionStatus === 'stopped_loss'
+                ? `Stop loss atingido. Perda: $${newLoss.toFixed(2)} | Limite: $${config.dailyLossLimit.toFixed(2)}. Operações retomam no próximo dia.`
+                : `Meta de lucro atingida. Lucro: $${newProfit.toFixed(2)} | Meta: $${config.dailyProfitTarget.toFixed(2)}. Operações retomam no próximo dia.`,
+              { agent: 'orion' },
+            );
+          }
           if (this.orionStrategy) {
             await this.orionStrategy.deactivateUser(userId);
           }
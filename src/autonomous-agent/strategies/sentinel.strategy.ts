@@ -1,16 +1,24 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import {
   IAutonomousAgentStrategy,
   AutonomousAgentConfig,
   AutonomousAgentState,
   MarketAnalysis,
   TradeDecision,
+  AUTONOMOUS_AGENT_CONFIG_SCHEMA,
 } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { Tick, DigitParity } from '../../ai/ai.service';
 import { LogQueueService } from '../../utils/log-queue.service';
+import { TickStoreService } from '../../utils/tick-store.service';
+import { TokenEncryptionService } from '../../utils/token-encryption.service';
+import { NotificationEventsService } from '../../notifications/notification-events.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
 
 /**
  * 🛡️ SENTINEL Strategy para Agente Autônomo
@@ -24,6 +32,13 @@ import { LogQueueService } from '../../utils/log-queue.service';
  * - Soros (Alavancagem)
  * - Sistema de logs detalhado
  */
+@RegisterStrategy({
+  kind: 'autonomous-agent',
+  name: 'sentinel',
+  symbols: ['R_100', '1HZ100V'],
+  contractTypes: ['CALL', 'PUT'],
+  configSchema: AUTONOMOUS_AGENT_CONFIG_SCHEMA,
+})
 @Injectable()
 export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit {
   name = 'sentinel';
@@ -36,21 +51,6 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
   private readonly ticks = new Map<string, Tick[]>();
   private readonly maxTicks = 200;
   private readonly processingLocks = new Map<string, boolean>(); // ✅ Lock para evitar processamento simultâneo
-  private readonly appId: string;
-
-  // ✅ Pool de conexões WebSocket por token (reutilização - uma conexão por token)
-  private wsConnections: Map<
-    string,
-    {
-      ws: WebSocket;
-      authorized: boolean;
-      currency?: string; // ✅ Adicionado para suportar múltiplas moedas (BRL, USD, etc)
-      keepAliveInterval: NodeJS.Timeout | null;
-      requestIdCounter: number;
-      pendingRequests: Map<string, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-      subscriptions: Map<string, (msg: any) => void>;
-    }
-  > = new Map();
 
   // Configurações por modo de negociação
   private readonly tradingModeConfigs = {
@@ -68,11 +68,15 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
 
   constructor(
     @InjectDataSource() private readonly dataSource: DataSource,
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+    private readonly tokenEncryption: TokenEncryptionService,
     @Inject(forwardRef(() => LogQueueService))
     private readonly logQueueService?: LogQueueService,
-  ) {
-    this.appId = process.env.DERIV_APP_ID || '1089';
-  }
+    private readonly tickStore?: TickStoreService,
+    private readonly notificationEvents?: NotificationEventsService,
+    private readonly planPermissions?: PlanPermissionsService,
+    private readonly tradeLedger?: TradeLedgerService,
+  ) { }
 
   async onModuleInit() {
     this.logger.log('🛡️ SENTINEL Strategy inicializado');
@@ -104,7 +108,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           initialStake: parseFloat(user.initial_stake),
           dailyProfitTarget: parseFloat(user.daily_profit_target),
           dailyLossLimit: parseFloat(user.daily_loss_limit),
-          derivToken: user.deriv_token,
+          derivToken: this.tokenEncryption.decrypt(user.deriv_token),
           currency: user.currency,
           symbol: 'R_100', // ✅ Todos os agentes autônomos sempre usam R_100 (forçar mesmo se banco tiver R_75)
           tradingMode: (user.trading_mode || 'normal').toLowerCase() as 'veloz' | 'normal' | 'lento',
@@ -150,7 +154,8 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
     };
 
     this.userStates.set(userId, state);
-    this.ticks.set(userId, []);
+    // ✅ Warm-up com o histórico compartilhado (evita aguardar a amostra inicial)
+    this.ticks.set(userId, this.tickStore?.getRecentTicks(config.symbol, this.maxTicks) ?? []);
   }
 
   async activateUser(userId: string, config: AutonomousAgentConfig): Promise<void> {
@@ -227,9 +232,16 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
   }
 
   async deactivateUser(userId: string): Promise<void> {
+    const token = this.userConfigs.get(userId)?.derivToken;
+
     this.userConfigs.delete(userId);
     this.userStates.delete(userId);
     this.ticks.delete(userId);
+
+    // ✅ Se não houver mais usuários com este token, liberar a conexão no gateway
+    if (token && !Array.from(this.userConfigs.values()).some(c => c.derivToken === token)) {
+      this.brokerGateway.releaseConnection(token, 'sentinel');
+    }
     this.logger.log(`[Sentinel] ✅ Usuário ${userId} desativado`);
   }
 
@@ -854,6 +866,13 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
             `UPDATE autonomous_agent_config SET session_status = 'stopped_blindado', is_active = TRUE WHERE user_id = ?`,
             [userId],
           );
+          this.notificationEvents?.emitSessionStop(
+            userId,
+            'agent',
+            'stopped_blindado',
+            `Stop Blindado atingido. Lucro protegido: $${state.currentProfit.toFixed(2)}. Operações retomam no próximo dia.`,
+            { agent: 'sentinel' },
+          );
 
           return { action: 'STOP', reason: 'STOP_LOSS_BLINDADO' };
         }
@@ -890,6 +909,17 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
       return;
     }
 
+    // ✅ Limites do plano no momento da operação
+    const planBlock = await this.planPermissions?.checkTrade(userId, {
+      product: 'agent',
+      stake: decision.stake || config.initialStake,
+      symbol: config.symbol,
+    });
+    if (planBlock) {
+      this.saveLog(userId, 'WARN', 'TRADER', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+      return;
+    }
+
     const contractType = decision.contractType || (analysis.direction === 'CALL' ? 'CALL' : 'PUT');
 
     // ✅ Para R_100, sempre usar CALL/PUT (não HIGHER/LOWER)
@@ -971,8 +1001,8 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
    */
   private async getPayout(token: string, contractType: string, symbol: string, duration: number): Promise<number> {
     try {
-      // ✅ Obter conexão do pool interno
-      const connection = await this.getOrCreateWebSocketConnection(token);
+      // ✅ Obter conexão do gateway
+      const connection = await this.brokerGateway.getConnection(token, { owner: 'sentinel' });
 
       const response = await connection.sendRequest(
         {
@@ -1015,8 +1045,8 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
    */
   private async warmUpConnection(token: string): Promise<void> {
     try {
-      // ✅ Obter conexão do pool interno (isso já cria e autoriza a conexão)
-      const connection = await this.getOrCreateWebSocketConnection(token);
+      // ✅ Obter conexão do gateway (isso já cria e autoriza a conexão)
+      const connection = await this.brokerGateway.getConnection(token, { owner: 'sentinel' });
 
       // Enviar ping para confirmar que está funcionando
       await connection.sendRequest({ ping: 1 }, 5000);
@@ -1029,7 +1059,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
   }
 
   /**
-   * Compra contrato na Deriv via WebSocket Pool Interno com retry automático
+   * Compra contrato na Deriv via BrokerGateway com retry automático
    */
   private async buyContract(
     userId: string,
@@ -1057,8 +1087,8 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           await new Promise(resolve => setTimeout(resolve, delayMs));
         }
 
-        // ✅ Obter conexão do pool interno
-        const connection = await this.getOrCreateWebSocketConnection(token, userId);
+        // ✅ Obter conexão do gateway
+        const connection = await this.brokerGateway.getConnection(token, { owner: 'sentinel', label: userId });
 
         // ✅ Primeiro, obter proposta (usando timeout de 60s como Orion)
         const proposalResponse = await connection.sendRequest(
@@ -1156,7 +1186,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           throw lastError;
         }
 
-        // ✅ Inscrever para monitorar contrato usando pool interno
+        // ✅ Inscrever para monitorar contrato via gateway
         await connection.subscribe(
           {
             proposal_open_contract: 1,
@@ -1204,7 +1234,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
                   state.currentTradeId = null;
                 }
 
-                // Remover subscription usando pool interno
+                // Remover subscription via gateway
                 connection.removeSubscription(contractId);
                 return;
               }
@@ -1229,7 +1259,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
                   this.logger.error(`[Sentinel][${userId}] Erro ao processar resultado:`, error);
                 });
 
-                // Remover subscription usando pool interno
+                // Remover subscription via gateway
                 connection.removeSubscription(contractId);
               }
             }
@@ -1399,6 +1429,13 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           `UPDATE autonomous_agent_config SET session_status = 'stopped_profit', is_active = TRUE WHERE user_id = ?`,
           [userId],
         );
+        this.notificationEvents?.emitSessionStop(
+          userId,
+          'agent',
+          'stopped_profit',
+          `Meta de lucro atingida: +$${state.currentProfit.toFixed(2)} (meta $${config.dailyProfitTarget.toFixed(2)}). Operações retomam no próximo dia.`,
+          { agent: 'sentinel' },
+        );
       } catch (error) {
         this.logger.error(`[Sentinel][${userId}] ❌ Erro ao atualizar status para profit:`, error);
       }
@@ -1416,6 +1453,13 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           `UPDATE autonomous_agent_config SET session_status = 'stopped_loss', is_active = TRUE WHERE user_id = ?`,
           [userId],
         );
+        this.notificationEvents?.emitSessionStop(
+          userId,
+          'agent',
+          'stopped_loss',
+          `Limite de perda atingido: -$${state.currentLoss.toFixed(2)} (limite $${config.dailyLossLimit.toFixed(2)}). Operações retomam no próximo dia.`,
+          { agent: 'sentinel' },
+        );
       } catch (error) {
         this.logger.error(`[Sentinel][${userId}] ❌ Erro ao atualizar status para loss:`, error);
       }
@@ -1532,12 +1576,13 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
           state.martingaleLevel > 0 ? 'M1' : 'M0',
           trade.payout * 100, // Converter para percentual
           config.symbol,
-          config.derivToken || null, // ✅ Token usado para o trade
+          this.tokenEncryption.encrypt(config.derivToken || null), // ✅ Token usado para o trade (cifrado)
           config.currency === 'DEMO' ? 'demo' : 'real', // ✅ Tipo de conta (demo/real) derivado de currency
         ],
       );
 
       const insertId = Array.isArray(result) ? result[0]?.insertId : result?.insertId;
+      this.tradeLedger?.sync('agent', insertId, ledgerContextFromCurrency(config.currency));
       return insertId || 0;
     } catch (error) {
       this.logger.error(`[Sentinel][${userId}] Erro ao criar registro de trade:`, error);
@@ -1621,6 +1666,7 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
          WHERE id = ?`,
         updateValues,
       );
+      this.tradeLedger?.sync('agent', tradeId);
       this.logger.debug(`[Sentinel] ✅ Trade ${tradeId} atualizado com sucesso`);
     } catch (error) {
       this.logger.error(`[Sentinel] ❌ Erro ao atualizar trade ${tradeId}:`, error);
@@ -1671,328 +1717,6 @@ export class SentinelStrategy implements IAutonomousAgentStrategy, OnModuleInit
       default: return '📝';
     }
   }
-
-  // ============================================
-  // MÉTODOS DE GERENCIAMENTO DE WEBSOCKET (Pool Interno)
-  // Copiados da Orion Strategy
-  // ============================================
-
-  /**
-   * ✅ Obtém ou cria conexão WebSocket reutilizável por token
-   */
-  private async getOrCreateWebSocketConnection(token: string, userId?: string): Promise<{
-    ws: WebSocket;
-    currency?: string; // ✅ Adicionado
-    sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-    removeSubscription: (subId: string) => void;
-  }> {
-    // ✅ Verificar se já existe conexão para este token
-    const existing = this.wsConnections.get(token);
-    if (existing) {
-      const readyState = existing.ws.readyState;
-      const readyStateText = readyState === WebSocket.OPEN ? 'OPEN' :
-        readyState === WebSocket.CONNECTING ? 'CONNECTING' :
-          readyState === WebSocket.CLOSING ? 'CLOSING' :
-            readyState === WebSocket.CLOSED ? 'CLOSED' : 'UNKNOWN';
-
-      this.logger.debug(`[SENTINEL] 🔍 [${userId || 'SYSTEM'}] Conexão encontrada: readyState=${readyStateText}, authorized=${existing.authorized}`);
-
-      if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-        this.logger.debug(`[SENTINEL] ♻️ [${userId || 'SYSTEM'}] ✅ Reutilizando conexão WebSocket existente`);
-
-        return {
-          ws: existing.ws,
-          currency: existing.currency, // ✅ Retornar moeda existente
-          sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-          subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-            this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-          removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-      }
-    } else {
-      this.logger.debug(`[SENTINEL] 🔍 [${userId || 'SYSTEM'}] Nenhuma conexão existente encontrada para token ${token.substring(0, 8)}`);
-    }
-
-    // ✅ Criar nova conexão
-    this.logger.debug(`[SENTINEL] 🔌 [${userId || 'SYSTEM'}] Criando nova conexão WebSocket para token`);
-    const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
-
-    const ws = await new Promise<WebSocket>((resolve, reject) => {
-      const socket = new WebSocket(endpoint, {
-        headers: { Origin: 'https://app.deriv.com' },
-      });
-
-      let authResolved = false;
-      const connectionTimeout = setTimeout(() => {
-        if (!authResolved) {
-          this.logger.error(`[SENTINEL] ❌ [${userId || 'SYSTEM'}] Timeout na autorização após 20s. Estado: readyState=${socket.readyState}`);
-          socket.close();
-          this.wsConnections.delete(token);
-          reject(new Error('Timeout ao conectar e autorizar WebSocket (20s)'));
-        }
-      }, 20000);
-
-      // ✅ Listener de mensagens para capturar autorização e outras respostas
-      socket.on('message', (data: WebSocket.RawData) => {
-        try {
-          const msg = JSON.parse(data.toString());
-
-          // ✅ Ignorar ping/pong
-          if (msg.msg_type === 'ping' || msg.msg_type === 'pong' || msg.ping || msg.pong) {
-            return;
-          }
-
-          const conn = this.wsConnections.get(token);
-          if (!conn) {
-            this.logger.warn(`[SENTINEL] ⚠️ [${userId || 'SYSTEM'}] Mensagem recebida mas conexão não encontrada no pool para token ${token.substring(0, 8)}`);
-            return;
-          }
-
-          // ✅ Processar autorização (apenas durante inicialização)
-          if (msg.msg_type === 'authorize' && !authResolved) {
-            this.logger.debug(`[SENTINEL] 🔐 [${userId || 'SYSTEM'}] Processando resposta de autorização...`);
-            authResolved = true;
-            clearTimeout(connectionTimeout);
-
-            if (msg.error || (msg.authorize && msg.authorize.error)) {
-              const errorMsg = msg.error?.message || msg.authorize?.error?.message || 'Erro desconhecido na autorização';
-              this.logger.error(`[SENTINEL] ❌ [${userId || 'SYSTEM'}] Erro na autorização: ${errorMsg}`);
-              socket.close();
-              this.wsConnections.delete(token);
-              reject(new Error(`Erro na autorização: ${errorMsg}`));
-              return;
-            }
-
-            conn.authorized = true;
-            conn.currency = msg.authorize?.currency || 'USD'; // ✅ Capturar moeda real
-            this.logger.log(`[SENTINEL] ✅ [${userId || 'SYSTEM'}] Autorizado com sucesso | LoginID: ${msg.authorize?.loginid || 'N/A'} | Moeda: ${conn.currency}`);
-
-            // ✅ Iniciar keep-alive
-            conn.keepAliveInterval = setInterval(() => {
-              if (socket.readyState === WebSocket.OPEN) {
-                try {
-                  socket.send(JSON.stringify({ ping: 1 }));
-                  this.logger.debug(`[SENTINEL][KeepAlive][${token.substring(0, 8)}] Ping enviado`);
-                } catch (error) {
-                  // Ignorar erros
-                }
-              }
-            }, 90000);
-
-            resolve({
-              ws: socket,
-              currency: conn.currency, // ✅ Retornar moeda
-              sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-              subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-                this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-              removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-            } as any);
-            return;
-          }
-
-          // ✅ Processar mensagens de subscription (proposal_open_contract) - PRIORIDADE 1
-          if (msg.proposal_open_contract) {
-            const contractId = msg.proposal_open_contract.contract_id;
-            if (contractId && conn.subscriptions.has(contractId)) {
-              const callback = conn.subscriptions.get(contractId)!;
-              callback(msg);
-              return;
-            }
-          }
-
-          // ✅ Processar respostas de requisições (ROTEAMENDO POR REQ_ID / PASSTHROUGH) - PRIORIDADE 2
-          const reqId = msg.req_id || (msg.echo_req?.passthrough?.req_id);
-
-          if (reqId && conn.pendingRequests.has(reqId)) {
-            const pending = conn.pendingRequests.get(reqId);
-            if (pending) {
-              clearTimeout(pending.timeout);
-              conn.pendingRequests.delete(reqId);
-              if (msg.error) {
-                pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-              } else {
-                pending.resolve(msg);
-              }
-              return; // Resolvido
-            }
-          }
-
-          // ✅ FALLBACK: Processar por tipo se não tiver reqId (Apenas para garantir compatibilidade)
-          if (msg.proposal || msg.buy || (msg.error && !msg.proposal_open_contract)) {
-            const firstKey = conn.pendingRequests.keys().next().value;
-            if (firstKey) {
-              const pending = conn.pendingRequests.get(firstKey);
-              if (pending) {
-                clearTimeout(pending.timeout);
-                conn.pendingRequests.delete(firstKey);
-                if (msg.error) {
-                  pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                } else {
-                  pending.resolve(msg);
-                }
-              }
-            }
-          }
-        } catch (error) {
-          // Continuar processando
-        }
-      });
-
-      socket.on('open', () => {
-        this.logger.log(`[SENTINEL] ✅ [${userId || 'SYSTEM'}] WebSocket conectado, enviando autorização...`);
-
-        // ✅ Criar entrada no pool
-        const conn = {
-          ws: socket,
-          authorized: false,
-          keepAliveInterval: null,
-          requestIdCounter: 0,
-          pendingRequests: new Map(),
-          subscriptions: new Map(),
-        };
-        this.wsConnections.set(token, conn);
-
-        // ✅ Enviar autorização
-        const authPayload = { authorize: token };
-        this.logger.debug(`[SENTINEL] 📤 [${userId || 'SYSTEM'}] Enviando autorização: ${JSON.stringify({ authorize: token.substring(0, 8) + '...' })}`);
-        socket.send(JSON.stringify(authPayload));
-      });
-
-      socket.on('error', (error) => {
-        if (!authResolved) {
-          clearTimeout(connectionTimeout);
-          authResolved = true;
-          this.wsConnections.delete(token);
-          reject(error);
-        }
-      });
-
-      socket.on('close', () => {
-        this.logger.debug(`[SENTINEL] 🔌 [${userId || 'SYSTEM'}] WebSocket fechado`);
-        const conn = this.wsConnections.get(token);
-        if (conn) {
-          if (conn.keepAliveInterval) {
-            clearInterval(conn.keepAliveInterval);
-          }
-          // Rejeitar todas as requisições pendentes
-          conn.pendingRequests.forEach(pending => {
-            clearTimeout(pending.timeout);
-            pending.reject(new Error('WebSocket fechado'));
-          });
-          conn.subscriptions.clear();
-        }
-        this.wsConnections.delete(token);
-
-        if (!authResolved) {
-          clearTimeout(connectionTimeout);
-          authResolved = true;
-          reject(new Error('WebSocket fechado antes da autorização'));
-        }
-      });
-    });
-
-    const conn = this.wsConnections.get(token)!;
-    return {
-      ws: conn.ws,
-      currency: conn.currency, // ✅ Retornar a moeda capturada
-      sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-      subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-        this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-      removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-    };
-  }
-
-  /**
-   * ✅ Envia requisição via conexão existente
-   */
-  private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    return new Promise((resolve, reject) => {
-      const requestId = `req_${++conn.requestIdCounter}_${Date.now()}`;
-      const timeout = setTimeout(() => {
-        conn.pendingRequests.delete(requestId);
-        reject(new Error(`Timeout após ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      // ✅ Garantir que o req_id vá na requisição para roteamento seguro
-      const enrichedPayload = {
-        ...payload,
-        passthrough: {
-          ...payload.passthrough,
-          req_id: requestId,
-          origin: 'autonomous_agent'
-        }
-      };
-
-
-      conn.ws.send(JSON.stringify(enrichedPayload));
-    });
-  }
-
-  /**
-   * ✅ Inscreve-se para atualizações via conexão existente
-   */
-  private async subscribeViaConnection(
-    token: string,
-    payload: any,
-    callback: (msg: any) => void,
-    subId: string,
-    timeoutMs: number,
-  ): Promise<void> {
-    const conn = this.wsConnections.get(token);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-      throw new Error('Conexão WebSocket não está disponível ou autorizada');
-    }
-
-    // ✅ Aguardar primeira resposta para confirmar subscription
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        conn.subscriptions.delete(subId);
-        reject(new Error(`Timeout ao inscrever ${subId}`));
-      }, timeoutMs);
-
-      // ✅ Callback wrapper que confirma subscription na primeira mensagem
-      const wrappedCallback = (msg: any) => {
-        // ✅ Primeira mensagem confirma subscription
-        if (msg.proposal_open_contract || msg.error) {
-          clearTimeout(timeout);
-          if (msg.error) {
-            conn.subscriptions.delete(subId);
-            reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-            return;
-          }
-          // ✅ Subscription confirmada, substituir por callback original
-          conn.subscriptions.set(subId, callback);
-          resolve();
-          // ✅ Chamar callback original com primeira mensagem
-          callback(msg);
-          return;
-        }
-        // ✅ Se não for primeira mensagem, já deve estar usando callback original
-        callback(msg);
-      };
-
-      conn.subscriptions.set(subId, wrappedCallback);
-      conn.ws.send(JSON.stringify(payload));
-    });
-  }
-
-  /**
-   * ✅ Remove subscription da conexão
-   */
-  private removeSubscriptionFromConnection(token: string, subId: string): void {
-    const conn = this.wsConnections.get(token);
-    if (conn) {
-      conn.subscriptions.delete(subId);
-    }
-  }
 }
 
 // ============================================
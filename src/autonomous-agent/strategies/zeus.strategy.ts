@@ -1,14 +1,16 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
-import WebSocket from 'ws';
+import { BROKER_GATEWAY, type IBrokerGateway } from '../../broker/broker-gateway.types';
 import {
     IAutonomousAgentStrategy,
     AutonomousAgentConfig,
     AutonomousAgentState,
     MarketAnalysis,
     TradeDecision,
+  AUTONOMOUS_AGENT_CONFIG_SCHEMA,
 } from './common.types';
+import { RegisterStrategy } from '../../strategies/registry/register-strategy.decorator';
 import { Tick, DigitParity } from '../../ai/ai.service';
 // ZEUS V2 - INTERFACES
 interface ZeusUserConfig extends AutonomousAgentConfig {
@@ -121,6 +123,12 @@ interface ZeusUserState extends AutonomousAgentState {
     lastDeniedLogTime?: number; // ✅ Added for log throttling
 }
 import { LogQueueService } from '../../utils/log-queue.service';
+import { TickStoreService } from '../../utils/tick-store.service';
+import { TokenEncryptionService } from '../../utils/token-encryption.service';
+import { NotificationEventsService } from '../../notifications/notification-events.service';
+import { TradeLedgerService } from '../../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../../trade-ledger/trade-ledger';
+import { PlanPermissionsService } from '../../plans/plan-permissions.service';
 
 /**
  * ⚡ ZEUS Strategy para Agente Autônomo - Versão 2.1
@@ -193,6 +201,13 @@ export const ZEUS_CONSTANTS = {
     cycles: 2,
     cyclePercent: 0.50,
 };
+@RegisterStrategy({
+    kind: 'autonomous-agent',
+    name: 'zeus',
+    symbols: ['R_100', 'R_50', '1HZ100V', '1HZ50V'],
+    contractTypes: ['CALL', 'PUT', 'DIGITOVER'],
+    configSchema: AUTONOMOUS_AGENT_CONFIG_SCHEMA,
+})
 @Injectable()
 export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
     name = 'zeus';
@@ -209,24 +224,16 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
     private readonly processedContractIds = new Map<string, Set<string>>(); // ✅ [ZENIX v4.2] Evita duplicidade de processamento de contrato
     private readonly appId: string;
 
-    // ✅ Pool de conexões WebSocket por token (reutilização - uma conexão por token)
-    private wsConnections: Map<
-        string,
-        {
-            ws: WebSocket;
-            authorized: boolean;
-            currency?: string; // ✅ Adicionado para suportar múltiplas moedas (BRL, USD, etc)
-            keepAliveInterval: NodeJS.Timeout | null;
-            requestIdCounter: number;
-            pendingRequests: Map<string, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }>;
-            subscriptions: Map<string, (msg: any) => void>;
-        }
-    > = new Map();
-
     constructor(
         @InjectDataSource() private readonly dataSource: DataSource,
+        @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+        private readonly tokenEncryption: TokenEncryptionService,
         @Inject(forwardRef(() => LogQueueService))
         private readonly logQueueService?: LogQueueService,
+        private readonly tickStore?: TickStoreService,
+        private readonly notificationEvents?: NotificationEventsService,
+        private readonly planPermissions?: PlanPermissionsService,
+        private readonly tradeLedger?: TradeLedgerService,
     ) {
         this.appId = process.env.DERIV_APP_ID || '1089';
     }
@@ -258,7 +265,13 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
          WHERE c.is_active = TRUE 
            AND c.agent_type = 'zeus'
            AND c.session_status NOT IN ('stopped_profit', 'stopped_loss', 'stopped_blindado')`,
-            );
+            ).then((rows) => rows.map((row) => ({
+                ...row,
+                config_token: this.tokenEncryption.decrypt(row.config_token),
+                token_demo: this.tokenEncryption.decrypt(row.token_demo),
+                token_real: this.tokenEncryption.decrypt(row.token_real),
+                deriv_raw: this.tokenEncryption.decryptDerivRaw(row.deriv_raw),
+            })));
 
             for (const user of activeUsers) {
                 const userId = user.user_id.toString();
@@ -461,7 +474,8 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
         };
 
         this.userStates.set(userId, state);
-        this.ticks.set(userId, []);
+        // ✅ Warm-up com o histórico compartilhado (evita aguardar a amostra inicial)
+        this.ticks.set(userId, this.tickStore?.getRecentTicks(config.symbol, this.maxTicks) ?? []);
 
         // ✅ [ZENIX v4.2] Pool de duplicidade
         if (!this.processedContractIds.has(userId)) {
@@ -759,17 +773,11 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
         this.processingLocks.delete(userId);
         this.processedContractIds.delete(userId); // ✅ [ZENIX v4.2] Limpar duplicidade
 
-        // ✅ Se não houver mais usuários com este token, fechar a conexão
+        // ✅ Se não houver mais usuários com este token, liberar a conexão no gateway
         if (token) {
             const otherUsersWithSameToken = Array.from(this.userConfigs.values()).some(c => c.derivToken === token);
             if (!otherUsersWithSameToken) {
-                const conn = this.wsConnections.get(token);
-                if (conn) {
-                    this.logger.log(`[Zeus] 🔌 Fechando conexão WebSocket(Token: ${token.substring(0, 8)}...) - Nenhum usuário ativo.`);
-                    if (conn.keepAliveInterval) clearInterval(conn.keepAliveInterval);
-                    conn.ws.close();
-                    this.wsConnections.delete(token);
-                }
+                this.brokerGateway.releaseConnection(token, 'zeus');
             }
         }
 
@@ -1469,6 +1477,17 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
         const barrier = "5"; // MANTIDO PAYOUT ORIGINAL
         const duration = 1;
 
+        // ✅ Limites do plano no momento da operação
+        const planBlock = await this.planPermissions?.checkTrade(userId, {
+            product: 'agent',
+            stake: finalStake,
+            symbol: config.symbol,
+        });
+        if (planBlock) {
+            this.saveLog(userId, 'WARN', 'TRADER', `🚫 Operação bloqueada pelo plano: ${planBlock}`);
+            return;
+        }
+
         // TRAVA DE ESTADO
         state.isWaitingContract = true;
         state.waitingContractStartTime = Date.now(); // Novo campo para timeout safe
@@ -1530,8 +1549,8 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
      */
     private async getPayout(token: string, contractType: string, symbol: string, duration: number): Promise<number> {
         try {
-            // ✅ Obter conexão do pool interno
-            const connection = await this.getOrCreateWebSocketConnection(token);
+            // ✅ Obter conexão do gateway
+            const connection = await this.brokerGateway.getConnection(token, { owner: 'zeus', appIdFallback: true });
 
             const response = await connection.sendRequest(
                 {
@@ -1574,14 +1593,14 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
      */
     async warmUpConnection(token: string): Promise<void> {
         try {
-            await this.getOrCreateWebSocketConnection(token, 'warmup');
+            await this.brokerGateway.getConnection(token, { owner: 'zeus', label: 'warmup', appIdFallback: true });
         } catch (error: any) {
             this.logger.warn(`[Zeus] Falha no warm-up: ${error.message}`);
         }
     }
 
     /**
-     * Compra contrato na Deriv via WebSocket Pool Interno com retry automático
+     * Compra contrato na Deriv via BrokerGateway com retry automático
      */
     private async buyContract(
         userId: string,
@@ -1607,8 +1626,8 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                     await new Promise(resolve => setTimeout(resolve, delayMs));
                 }
 
-                // ✅ Obter conexão do pool interno
-                const connection = await this.getOrCreateWebSocketConnection(token, userId);
+                // ✅ Obter conexão do gateway
+                const connection = await this.brokerGateway.getConnection(token, { owner: 'zeus', label: userId, appIdFallback: true });
 
                 // ✅ OBTER PROPOSTA (Estabilização V4)
                 // Solicitar proposta antes de comprar garante que a Deriv valide saldo e parâmetros
@@ -1699,7 +1718,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                     throw lastError;
                 }
 
-                // ✅ Inscrever para monitorar contrato usando pool interno
+                // ✅ Inscrever para monitorar contrato via gateway
                 await connection.subscribe(
                     {
                         proposal_open_contract: 1,
@@ -1741,7 +1760,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                                     state.isWaitingContract = false;
                                 }
 
-                                // Remover subscription usando pool interno
+                                // Remover subscription via gateway
                                 connection.removeSubscription(contractId);
                                 return;
                             }
@@ -1779,7 +1798,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                                     this.logger.error(`[Zeus][${userId}] Erro ao processar resultado:`, error);
                                 });
 
-                                // Remover subscription usando pool interno
+                                // Remover subscription via gateway
                                 connection.removeSubscription(contractId);
                             }
                         }
@@ -2218,6 +2237,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
             `UPDATE autonomous_agent_config SET session_status = ?, is_active = TRUE WHERE user_id = ?`,
             [status, userId],
         );
+        this.notificationEvents?.emitSessionStop(userId, 'agent', status, message, { agent: 'zeus' });
 
         this.logger.log(`[Zeus][${userId}] ${message}`);
     }
@@ -2280,7 +2300,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                     state.mode === 'NORMAL' ? 'M0' : (state.mode === 'PRECISO' ? 'M1' : 'M2'), // M2 = MAXIMO
                     trade.payout * 100, // Converter para percentual
                     config.symbol || 'R_100',
-                    config.derivToken || null, // ✅ Token usado para o trade
+                    this.tokenEncryption.encrypt(config.derivToken || null), // ✅ Token usado para o trade (cifrado)
                     config.currency === 'DEMO' ? 'demo' : 'real', // ✅ Tipo de conta (demo/real) derivado de currency
                 ],
 
@@ -2292,6 +2312,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                 this.logger.error(`[Zeus][${userId}] ❌ INSERT falhou - Sem ID gerado. Result: ${JSON.stringify(result)}`);
             } else {
                 this.logger.log(`[Zeus][${userId}] 💾 Registro de trade criado: ID ${insertId}`);
+                this.tradeLedger?.sync('agent', insertId, ledgerContextFromCurrency(config.currency));
             }
 
             return insertId || 0;
@@ -2375,6 +2396,7 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
                 `UPDATE autonomous_agent_trades SET ${updateFields.join(', ')} WHERE id = ?`,
                 updateValues,
             );
+            this.tradeLedger?.sync('agent', tradeId);
             this.logger.debug(`[Zeus] ✅ Trade ${tradeId} atualizado com sucesso`);
         } catch (error) {
             this.logger.error(`[Zeus] ❌ Erro ao atualizar trade ${tradeId}:`, error);
@@ -2502,395 +2524,6 @@ export class ZeusStrategy implements IAutonomousAgentStrategy, OnModuleInit {
         }
     }
 
-
-    // ============================================
-    // MÉTODOS DE GERENCIAMENTO DE WEBSOCKET (Pool Interno)
-    // Copiados da Orion Strategy
-    // ============================================
-
-    /**
-     * ✅ Obtém ou cria conexão WebSocket reutilizável por token
-    /**
-     * ✅ AGORA COM FALLBACK DINÂMICO DE APP ID (121987 -> 111346 -> 1089)
-     */
-    private async getOrCreateWebSocketConnection(token: string, userId?: string, forceAppId?: string): Promise<{
-        ws: WebSocket;
-        currency?: string;
-        sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-        subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-        removeSubscription: (subId: string) => void;
-    }> {
-        // Lista de App IDs para tentar em ordem
-        // 1. O que foi passado forçado (se houver)
-        // 2. O configurado no .env (this.appId)
-        // 3. Produção (121987)
-        // 4. Homologação (111346)
-        // 5. Genérico (1089)
-        // 6. Outros (36300)
-
-        const fallbackAppIds = ['121987', '111346', '1089', '36300'];
-        const uniqueAppIds = new Set<string>();
-
-        if (forceAppId) uniqueAppIds.add(forceAppId);
-        uniqueAppIds.add(this.appId);
-        fallbackAppIds.forEach(id => uniqueAppIds.add(id));
-
-        const appIdsToTry = Array.from(uniqueAppIds);
-        let lastError: any = null;
-
-        for (const appIdToTry of appIdsToTry) {
-            try {
-                // Se já tentamos conectar e falhou, precisamos garantir que next attempts não reutilizem conexão quebrada do pool se ela existir e estiver ruim
-                // Mas _internalConnect já verifica state. 
-
-                return await this._internalConnect(token, userId, appIdToTry);
-            } catch (error: any) {
-                lastError = error;
-                const isInvalidAppId = error.message && (
-                    error.message.includes('InvalidToken') ||
-                    error.message.includes('Token is not valid for current app ID') ||
-                    error.message.includes('InvalidAppID')
-                );
-
-                if (isInvalidAppId) {
-                    this.logger.warn(`[Zeus][${userId}] ⚠️ Falha com App ID ${appIdToTry}. Tentando próximo... (${error.message})`);
-                    continue; // Tenta o próximo da lista
-                } else {
-                    throw error; // Se não for erro de App ID (ex: timeout, rede), estoura o erro real
-                }
-            }
-        }
-
-        // Se esgotou todas as tentativas
-        throw lastError || new Error('Falha ao conectar com todos os App IDs disponíveis');
-    }
-
-    /**
-     * ✅ Método interno de conexão (com suporte a override de App ID)
-     */
-    private async _internalConnect(
-        token: string,
-        userId?: string,
-        forceAppId?: string
-    ): Promise<{
-        ws: WebSocket;
-        currency?: string;
-        sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
-        subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs?: number) => Promise<void>;
-        removeSubscription: (subId: string) => void;
-    }> {
-        // ✅ Verificar se já existe conexão para este token
-        // NOTA: Precisamos garantir que a conexão existente foi feita com o MESMO App ID que estamos tentando agora?
-        // O Deriv WS não expõe fácil o App ID da conexão aberta, mas se ela está OPEN e AUTHORIZED, o token funcionou nela.
-        // Então podemos reutilizar.
-
-        const existing = this.wsConnections.get(token);
-        if (existing) {
-            const readyState = existing.ws.readyState;
-            const readyStateText = readyState === WebSocket.OPEN ? 'OPEN' :
-                readyState === WebSocket.CONNECTING ? 'CONNECTING' :
-                    readyState === WebSocket.CLOSING ? 'CLOSING' :
-                        readyState === WebSocket.CLOSED ? 'CLOSED' : 'UNKNOWN';
-
-            this.logger.debug(`[Zeus] 🔍 [${userId || 'SYSTEM'}] Conexão encontrada: readyState=${readyStateText}, authorized=${existing.authorized}`);
-
-            if (existing.ws.readyState === WebSocket.OPEN && existing.authorized) {
-                this.logger.debug(`[Zeus] ♻️ [${userId || 'SYSTEM'}] ✅ Reutilizando conexão WebSocket existente`);
-
-                return {
-                    ws: existing.ws,
-                    sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-                    subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-                        this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-                    removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-                };
-            } else {
-                // Se não está pronta, removemos para forçar nova tentativa com o App ID atual do loop
-                this.logger.warn(`[Zeus] ⚠️ [${userId || 'SYSTEM'}] Conexão existente não está pronta. Fechando e recriando.`);
-                if (existing.keepAliveInterval) {
-                    clearInterval(existing.keepAliveInterval);
-                }
-                try { existing.ws.close(); } catch (e) { }
-                this.wsConnections.delete(token);
-            }
-        }
-
-        // ✅ Criar nova conexão com App ID dinâmico
-        const currentAppId = forceAppId || this.appId;
-        this.logger.debug(`[Zeus] 🔌 [${userId || 'SYSTEM'}] Criando nova conexão WebSocket (App ID: ${currentAppId})`);
-
-        // ✅ [FIX] Usar ws.derivws.com para maior compatibilidade
-        const endpoint = `wss://ws.derivws.com/websockets/v3?app_id=${currentAppId}`;
-
-        const ws = await new Promise<WebSocket>((resolve, reject) => {
-            // ✅ [FIX] Usar Origin header para evitar bloqueios de CORS
-            const socket = new WebSocket(endpoint, {
-                headers: { Origin: 'https://app.deriv.com' },
-            });
-
-            let authResolved = false;
-            const connectionTimeout = setTimeout(() => {
-                if (!authResolved) {
-                    this.logger.error(`[Zeus] ❌ [${userId || 'SYSTEM'}] Timeout na autorização após 20s. Estado: readyState=${socket.readyState}`);
-                    socket.close();
-                    this.wsConnections.delete(token);
-                    reject(new Error('Timeout ao conectar e autorizar WebSocket (20s)'));
-                }
-            }, 20000);
-
-            // ✅ Listener de mensagens para capturar autorização e outras respostas
-            socket.on('message', (data: WebSocket.RawData) => {
-                try {
-                    const msg = JSON.parse(data.toString());
-
-                    // ✅ Ignorar ping/pong
-                    if (msg.msg_type === 'ping' || msg.msg_type === 'pong' || msg.ping || msg.pong) {
-                        return;
-                    }
-
-                    const conn = this.wsConnections.get(token);
-                    if (!conn) {
-                        this.logger.warn(`[Zeus] ⚠️ [${userId || 'SYSTEM'}] Mensagem recebida mas conexão não encontrada no pool para token ${token.substring(0, 8)}`);
-                        return;
-                    }
-
-                    // ✅ Processar autorização (apenas durante inicialização)
-                    if (msg.msg_type === 'authorize' && !authResolved) {
-                        this.logger.debug(`[Zeus] 🔐 [${userId || 'SYSTEM'}] Processando resposta de autorização...`);
-                        authResolved = true;
-                        clearTimeout(connectionTimeout);
-
-                        if (msg.error || (msg.authorize && msg.authorize.error)) {
-                            const errorMsg = msg.error?.message || msg.authorize?.error?.message || 'Erro desconhecido na autorização';
-                            this.logger.error(`[Zeus] ❌ [${userId || 'SYSTEM'}] Erro na autorização: ${errorMsg}`);
-                            socket.close();
-                            this.wsConnections.delete(token);
-                            reject(new Error(`Erro na autorização: ${errorMsg}`));
-                            return;
-                        }
-
-                        conn.authorized = true;
-                        conn.currency = msg.authorize?.currency || 'USD'; // ✅ Capturar moeda real da conta
-                        this.logger.log(`[Zeus] ✅ [${userId || 'SYSTEM'}] Autorizado com sucesso | LoginID: ${msg.authorize?.loginid || 'N/A'} | Moeda: ${conn.currency}`);
-
-                        // ✅ Iniciar keep-alive
-                        conn.keepAliveInterval = setInterval(() => {
-                            if (socket.readyState === WebSocket.OPEN) {
-                                try {
-                                    socket.send(JSON.stringify({ ping: 1 }));
-                                    this.logger.debug(`[Zeus][KeepAlive][${token.substring(0, 8)}] Ping enviado`);
-                                } catch (error) {
-                                    // Ignorar erros
-                                }
-                            }
-                        }, 90000);
-
-                        resolve(socket);
-                        return;
-                    }
-
-                    // ✅ Processar mensagens de subscription (proposal_open_contract) - PRIORIDADE 1
-                    if (msg.proposal_open_contract) {
-                        const contractId = msg.proposal_open_contract.contract_id;
-                        if (contractId && conn.subscriptions.has(contractId)) {
-                            const callback = conn.subscriptions.get(contractId)!;
-                            callback(msg);
-                            return;
-                        }
-                    }
-
-                    // ✅ Processar respostas de requisições (ROTEAMENDO POR REQ_ID / PASSTHROUGH) - PRIORIDADE 2
-                    const reqId = msg.req_id || (msg.echo_req?.passthrough?.req_id);
-
-                    if (reqId && conn.pendingRequests.has(reqId)) {
-                        const pending = conn.pendingRequests.get(reqId);
-                        if (pending) {
-                            clearTimeout(pending.timeout);
-                            conn.pendingRequests.delete(reqId);
-                            if (msg.error) {
-                                pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                            } else {
-                                pending.resolve(msg);
-                            }
-                            return; // Resolvido
-                        }
-                    }
-
-                    // ✅ FALLBACK: Processar por tipo se não tiver reqId (Apenas para garantir compatibilidade)
-                    if (msg.proposal || msg.buy || (msg.error && !msg.proposal_open_contract)) {
-                        const firstKey = conn.pendingRequests.keys().next().value;
-                        if (firstKey) {
-                            const pending = conn.pendingRequests.get(firstKey);
-                            if (pending) {
-                                clearTimeout(pending.timeout);
-                                conn.pendingRequests.delete(firstKey);
-                                if (msg.error) {
-                                    pending.reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                                } else {
-                                    pending.resolve(msg);
-                                }
-                            }
-                        }
-                    }
-                } catch (error) {
-                    // Continuar processando
-                }
-            });
-
-            socket.on('open', () => {
-                this.logger.log(`[Zeus] ✅ [${userId || 'SYSTEM'}] WebSocket conectado, enviando autorização...`);
-
-                // ✅ Criar entrada no pool
-                const conn = {
-                    ws: socket,
-                    authorized: false,
-                    keepAliveInterval: null,
-                    requestIdCounter: 0,
-                    pendingRequests: new Map(),
-                    subscriptions: new Map(),
-                };
-                this.wsConnections.set(token, conn);
-
-                // ✅ Enviar autorização
-                const authPayload = { authorize: token };
-                this.logger.debug(`[Zeus] 📤 [${userId || 'SYSTEM'}] Enviando autorização: ${JSON.stringify({ authorize: token.substring(0, 8) + '...' })}`);
-                socket.send(JSON.stringify(authPayload));
-            });
-
-            socket.on('error', (error) => {
-                if (!authResolved) {
-                    clearTimeout(connectionTimeout);
-                    authResolved = true;
-                    this.wsConnections.delete(token);
-                    reject(error);
-                }
-            });
-
-            socket.on('close', () => {
-                this.logger.debug(`[Zeus] 🔌 [${userId || 'SYSTEM'}] WebSocket fechado`);
-                const conn = this.wsConnections.get(token);
-                if (conn) {
-                    if (conn.keepAliveInterval) {
-                        clearInterval(conn.keepAliveInterval);
-                    }
-                    // Rejeitar todas as requisições pendentes
-                    conn.pendingRequests.forEach(pending => {
-                        clearTimeout(pending.timeout);
-                        pending.reject(new Error('WebSocket fechado'));
-                    });
-                    conn.subscriptions.clear();
-                }
-                this.wsConnections.delete(token);
-
-                if (!authResolved) {
-                    clearTimeout(connectionTimeout);
-                    authResolved = true;
-                    reject(new Error('WebSocket fechado antes da autorização'));
-                }
-            });
-        });
-
-        const conn = this.wsConnections.get(token)!;
-        return {
-            ws: conn.ws,
-            currency: conn.currency, // ✅ Retornar a moeda capturada
-            sendRequest: (payload: any, timeoutMs = 60000) => this.sendRequestViaConnection(token, payload, timeoutMs),
-            subscribe: (payload: any, callback: (msg: any) => void, subId: string, timeoutMs = 90000) =>
-                this.subscribeViaConnection(token, payload, callback, subId, timeoutMs),
-            removeSubscription: (subId: string) => this.removeSubscriptionFromConnection(token, subId),
-        };
-    }
-
-    /**
-     * ✅ Envia requisição via conexão existente
-     */
-    private async sendRequestViaConnection(token: string, payload: any, timeoutMs: number): Promise<any> {
-        const conn = this.wsConnections.get(token);
-        if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-            throw new Error('Conexão WebSocket não está disponível ou autorizada');
-        }
-
-        return new Promise((resolve, reject) => {
-            const requestId = `req_${++conn.requestIdCounter}_${Date.now()}`;
-            const timeout = setTimeout(() => {
-                conn.pendingRequests.delete(requestId);
-                reject(new Error(`Timeout após ${timeoutMs}ms`));
-            }, timeoutMs);
-
-            conn.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-            // ✅ Garantir que o req_id vá na requisição para roteamento seguro
-            const enrichedPayload = {
-                ...payload,
-                passthrough: {
-                    ...payload.passthrough,
-                    req_id: requestId,
-                    origin: 'autonomous_agent'
-                }
-            };
-
-
-            conn.ws.send(JSON.stringify(enrichedPayload));
-        });
-    }
-
-    /**
-     * ✅ Inscreve-se para atualizações via conexão existente
-     */
-    private async subscribeViaConnection(
-        token: string,
-        payload: any,
-        callback: (msg: any) => void,
-        subId: string,
-        timeoutMs: number,
-    ): Promise<void> {
-        const conn = this.wsConnections.get(token);
-        if (!conn || conn.ws.readyState !== WebSocket.OPEN || !conn.authorized) {
-            throw new Error('Conexão WebSocket não está disponível ou autorizada');
-        }
-
-        // ✅ Aguardar primeira resposta para confirmar subscription
-        await new Promise<void>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-                conn.subscriptions.delete(subId);
-                reject(new Error(`Timeout ao inscrever ${subId}`));
-            }, timeoutMs);
-
-            // ✅ Callback wrapper que confirma subscription na primeira mensagem
-            const wrappedCallback = (msg: any) => {
-                // ✅ Primeira mensagem confirma subscription
-                if (msg.proposal_open_contract || msg.error) {
-                    clearTimeout(timeout);
-                    if (msg.error) {
-                        conn.subscriptions.delete(subId);
-                        reject(new Error(msg.error.message || JSON.stringify(msg.error)));
-                        return;
-                    }
-                    // ✅ Subscription confirmada, substituir por callback original
-                    conn.subscriptions.set(subId, callback);
-                    resolve();
-                    // ✅ Chamar callback original com primeira mensagem
-                    callback(msg);
-                    return;
-                }
-                // ✅ Se não for primeira mensagem, já deve estar usando callback original
-                callback(msg);
-            };
-
-            conn.subscriptions.set(subId, wrappedCallback);
-            conn.ws.send(JSON.stringify(payload));
-        });
-    }
-
-    /**
-     * ✅ Remove subscription da conexão
-     */
-    private removeSubscriptionFromConnection(token: string, subId: string): void {
-        const conn = this.wsConnections.get(token);
-        if (conn) {
-            conn.subscriptions.delete(subId);
-        }
-    }
     // ============================================
     // LOGS PADRONIZADOS ZENIX v2.0 (Portado de Orion)
     // ============================================
@@ -0,0 +1,89 @@
+/**
+ * Exemplos de users.deriv_raw nos formatos gravados pela aplicação
+ * (tokens fictícios, no formato a1-xxxx dos tokens OAuth da Deriv)
+ */
+
+/**
+ * Conexão via OAuth (DerivController.connectOAuth): formato DerivAccountResult com
+ * tokensByLoginId de todas as contas. Conta real em USD com saldo, real em BTC zerada e demo.
+ */
+export const oauthMultiAccountRaw = {
+  loginid: 'CR5123456',
+  currency: 'USD',
+  balance: { value: 152.37, currency: 'USD' },
+  balancesByCurrency: { USD: 10152.37, BTC: 0 },
+  balancesByCurrencyDemo: { USD: 10000 },
+  balancesByCurrencyReal: { USD: 152.37, BTC: 0 },
+  accountsByCurrency: {
+    USD: [
+      { value: 152.37, loginid: 'CR5123456', isDemo: false },
+      { value: 10000, loginid: 'VRTC8765432', isDemo: true },
+    ],
+    BTC: [{ value: 0, loginid: 'CR5123457', isDemo: false }],
+  },
+  tokensByLoginId: {
+    CR5123456: 'a1-RealUsdToken0000000000001',
+    CR5123457: 'a1-RealBtcToken0000000000002',
+    VRTC8765432: 'a1-DemoUsdToken0000000000003',
+  },
+  realAmount: 152.37,
+  demoAmount: 10000,
+  idRealAccount: 'CR5123456',
+  idDemoAccount: 'VRTC8765432',
+};
+
+/**
+ * Formato antigo, com a resposta do authorize. O último loginid autorizado é a conta virtual
+ * e só a conta real em BTC tem saldo.
+ */
+export const legacyAuthorizeRaw = {
+  loginid: 'VRTC1122334',
+  currency: 'USD',
+  authorize: {
+    loginid: 'VRTC1122334',
+    currency: 'USD',
+    account_list: [
+      {
+        loginid: 'CR9001001',
+        currency: 'USD',
+        is_virtual: 0,
+        balance: '0.00',
+      },
+      {
+        loginid: 'CR9001002',
+        currency: 'BTC',
+        is_virtual: 0,
+        balance: '0.00048',
+      },
+      {
+        loginid: 'VRTC1122334',
+        currency: 'USD',
+        is_virtual: 1,
+        balance: '9875.20',
+      },
+    ],
+  },
+  tokensByLoginId: {
+    CR9001001: 'a1-LegacyRealUsd000000000001',
+    CR9001002: 'a1-LegacyRealBtc000000000002',
+    VRTC1122334: 'a1-LegacyDemoUsd000000000003',
+  },
+};
+
+/**
+ * Token colado manualmente (DerivController.connect): só a conta autorizada tem token
+ */
+export const manualTokenRaw = {
+  loginid: 'CR7000070',
+  currency: 'EUR',
+  balance: { value: 40, currency: 'EUR' },
+  accountsByCurrency: {
+    EUR: [{ value: 40, loginid: 'CR7000070', isDemo: false }],
+    USD: [{ value: 10000, loginid: 'VRTC7000071', isDemo: true }],
+  },
+  tokensByLoginId: {
+    CR7000070: 'a1-ManualRealEur000000000001',
+  },
+  idRealAccount: 'CR7000070',
+  idDemoAccount: 'VRTC7000071',
+};
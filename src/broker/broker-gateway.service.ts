@@ -0,0 +1,714 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import WebSocket from 'ws';
+import { getDerivWsUrl } from './deriv-endpoint';
+import {
+  BrokerConnection,
+  BrokerConnectionOptions,
+  BrokerGatewayError,
+  IBrokerGateway,
+} from './broker-gateway.types';
+
+// App IDs tentados quando o token foi gerado em outro app (produção, homologação, genérico)
+const FALLBACK_APP_IDS = ['121987', '111346', '1089', '36300'];
+const APP_ID_ERROR_CODES = ['InvalidToken', 'InvalidAppID', 'AppIdInvalid'];
+
+const AUTHORIZE_TIMEOUT_MS = 20000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+const DEFAULT_SUBSCRIBE_TIMEOUT_MS = 90000;
+const KEEPALIVE_INTERVAL_MS = 30000;
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_MAX_CONNECTIONS = 200;
+
+interface PendingRequest {
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface GatewaySubscription {
+  subId: string;
+  payload: any;
+  callback: (msg: any) => void;
+  reqId: number;
+  derivSubscriptionId?: string;
+  // Presente até a primeira mensagem da assinatura (confirmação)
+  confirm?: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+  };
+}
+
+interface GatewayConnection {
+  token: string;
+  appId: string;
+  label: string;
+  ws?: WebSocket;
+  authorized: boolean;
+  ready: Promise<void>;
+  loginid?: string;
+  currency?: string;
+  nextReqId: number;
+  pending: Map<number, PendingRequest>;
+  subscriptions: Map<string, GatewaySubscription>;
+  owners: Set<string>;
+  keepAliveInterval: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  cancelReconnectWait: (() => void) | null;
+  closing: boolean;
+}
+
+/**
+ * Gateway único de acesso à Deriv por token.
+ * - Uma conexão autorizada por token, compartilhada entre estratégias e serviços.
+ * - Correlação de requisição/resposta via req_id.
+ * - Assinaturas com callback (roteadas por subscription.id, req_id ou contract_id).
+ * - Keep-alive, reconexão com backoff e reenvio das assinaturas ativas.
+ * - Limite de conexões simultâneas (DERIV_MAX_CONNECTIONS).
+ */
+@Injectable()
+export class BrokerGatewayService implements IBrokerGateway, OnModuleDestroy {
+  private readonly logger = new Logger(BrokerGatewayService.name);
+  private readonly connections = new Map<string, GatewayConnection>();
+  private readonly appId: string;
+  private readonly maxConnections: number;
+
+  constructor() {
+    this.appId = process.env.DERIV_APP_ID || '111346';
+    this.maxConnections =
+      Number(process.env.DERIV_MAX_CONNECTIONS) || DEFAULT_MAX_CONNECTIONS;
+  }
+
+  onModuleDestroy() {
+    for (const conn of Array.from(this.connections.values())) {
+      this.closeConnection(conn);
+    }
+  }
+
+  /**
+   * Obtém (ou abre) a conexão autorizada do token.
+   * Quando `owner` é informado, a conexão permanece aberta até releaseConnection(token, owner).
+   */
+  async getConnection(
+    token: string,
+    options: BrokerConnectionOptions = {},
+  ): Promise<BrokerConnection> {
+    const conn =
+      this.connections.get(token) ?? this.openConnection(token, options);
+    if (options.owner) {
+      conn.owners.add(options.owner);
+    }
+    await conn.ready;
+
+    return {
+      loginid: conn.loginid,
+      currency: conn.currency,
+      sendRequest: (payload: any, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS) =>
+        this.sendRequest(token, payload, timeoutMs),
+      subscribe: (
+        payload: any,
+        callback: (msg: any) => void,
+        subId: string,
+        timeoutMs = DEFAULT_SUBSCRIBE_TIMEOUT_MS,
+      ) => this.subscribe(token, payload, callback, subId, timeoutMs),
+      removeSubscription: (subId: string) =>
+        this.removeSubscription(token, subId),
+    };
+  }
+
+  /**
+   * Libera a conexão para o dono; sem donos, assinaturas ou requisições pendentes ela é fechada
+   */
+  releaseConnection(token: string, owner: string): void {
+    const conn = this.connections.get(token);
+    if (!conn) return;
+
+    conn.owners.delete(owner);
+    if (this.isIdle(conn)) {
+      this.logger.log(
+        `[BrokerGateway] 🔌 Fechando conexão (Token: ${this.maskToken(token)}) - nenhum dono ativo`,
+      );
+      this.closeConnection(conn);
+    } else {
+      this.scheduleIdleClose(conn);
+    }
+  }
+
+  /**
+   * Envia uma requisição e aguarda a resposta com o mesmo req_id.
+   * Respostas com `error` rejeitam com BrokerGatewayError (code da Deriv).
+   */
+  async sendRequest(
+    token: string,
+    payload: any,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  ): Promise<any> {
+    const conn = await this.getReadyConnection(token);
+
+    return new Promise((resolve, reject) => {
+      const reqId = ++conn.nextReqId;
+      const timeout = setTimeout(() => {
+        conn.pending.delete(reqId);
+        reject(
+          new BrokerGatewayError('Timeout', `Timeout após ${timeoutMs}ms`),
+        );
+      }, timeoutMs);
+
+      conn.pending.set(reqId, { resolve, reject, timeout });
+      try {
+        this.send(conn, { ...payload, req_id: reqId });
+      } catch (error) {
+        clearTimeout(timeout);
+        conn.pending.delete(reqId);
+        reject(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Assina um stream (proposal_open_contract, ticks, balance...).
+   * Resolve na primeira mensagem; as seguintes são entregues ao callback até removeSubscription.
+   * Em caso de reconexão, o payload é reenviado automaticamente.
+   */
+  async subscribe(
+    token: string,
+    payload: any,
+    callback: (msg: any) => void,
+    subId: string,
+    timeoutMs = DEFAULT_SUBSCRIBE_TIMEOUT_MS,
+  ): Promise<void> {
+    const conn = await this.getReadyConnection(token);
+
+    return new Promise<void>((resolve, reject) => {
+      const subscription: GatewaySubscription = {
+        subId,
+        payload,
+        callback,
+        reqId: ++conn.nextReqId,
+      };
+      subscription.confirm = {
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          subscription.confirm = undefined;
+          conn.subscriptions.delete(subId);
+          reject(
+            new BrokerGatewayError('Timeout', `Timeout ao inscrever ${subId}`),
+          );
+        }, timeoutMs),
+      };
+      conn.subscriptions.set(subId, subscription);
+
+      try {
+        this.send(conn, { ...payload, req_id: subscription.reqId });
+      } catch (error) {
+        clearTimeout(subscription.confirm.timeout);
+        conn.subscriptions.delete(subId);
+        reject(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Remove o callback da assinatura e envia forget (sem aguardar resposta)
+   */
+  removeSubscription(token: string, subId: string): void {
+    const conn = this.connections.get(token);
+    const subscription = conn?.subscriptions.get(subId);
+    if (!conn || !subscription) return;
+
+    if (subscription.confirm) {
+      clearTimeout(subscription.confirm.timeout);
+    }
+    conn.subscriptions.delete(subId);
+
+    if (subscription.derivSubscriptionId) {
+      try {
+        this.send(conn, { forget: subscription.derivSubscriptionId });
+      } catch {
+        // Conexão já fechada: a assinatura deixou de existir na Deriv
+      }
+    }
+    this.scheduleIdleClose(conn);
+  }
+
+  private async getReadyConnection(token: string): Promise<GatewayConnection> {
+    const conn = this.connections.get(token) ?? this.openConnection(token, {});
+    await conn.ready;
+
+    if (!conn.ws || conn.ws.readyState !== WebSocket.OPEN) {
+      throw new BrokerGatewayError(
+        'ConnectionClosed',
+        'Conexão WebSocket não está disponível',
+      );
+    }
+    return conn;
+  }
+
+  private openConnection(
+    token: string,
+    options: BrokerConnectionOptions,
+  ): GatewayConnection {
+    this.ensureCapacity();
+
+    const preferredAppId = options.appId || this.appId;
+    const appIds = options.appIdFallback
+      ? Array.from(new Set([preferredAppId, this.appId, ...FALLBACK_APP_IDS]))
+      : [preferredAppId];
+
+    const conn: GatewayConnection = {
+      token,
+      appId: preferredAppId,
+      label: options.label || options.owner || 'SYSTEM',
+      authorized: false,
+      ready: Promise.resolve(),
+      nextReqId: 0,
+      pending: new Map(),
+      subscriptions: new Map(),
+      owners: new Set(),
+      keepAliveInterval: null,
+      idleTimer: null,
+      reconnectTimer: null,
+      cancelReconnectWait: null,
+      closing: false,
+    };
+
+    conn.ready = this.authorizeWithFallback(conn, appIds);
+    conn.ready.catch(() => this.dropConnection(conn));
+    this.connections.set(token, conn);
+    return conn;
+  }
+
+  private async authorizeWithFallback(
+    conn: GatewayConnection,
+    appIds: string[],
+  ): Promise<void> {
+    let lastError: unknown = null;
+
+    for (const appId of appIds) {
+      try {
+        await this.connect(conn, appId);
+        return;
+      } catch (error) {
+        lastError = error;
+        const isAppIdError =
+          error instanceof BrokerGatewayError &&
+          (APP_ID_ERROR_CODES.includes(error.code) ||
+            error.message.includes('app ID'));
+        if (!isAppIdError) break;
+
+        this.logger.warn(
+          `[BrokerGateway][${conn.label}] ⚠️ Falha com App ID ${appId}: ${error.message}`,
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Abre o WebSocket e autoriza o token
+   */
+  private connect(conn: GatewayConnection, appId: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      conn.appId = appId;
+      const ws = new WebSocket(getDerivWsUrl(appId), {
+        headers: { Origin: 'https://app.deriv.com' },
+      });
+      conn.ws = ws;
+
+      let settled = false;
+      let authorized = false;
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(authorizeTimeout);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const authorizeTimeout = setTimeout(() => {
+        finish(
+          new BrokerGatewayError(
+            'Timeout',
+            `Timeout ao conectar e autorizar WebSocket (${AUTHORIZE_TIMEOUT_MS / 1000}s)`,
+          ),
+        );
+        ws.terminate();
+      }, AUTHORIZE_TIMEOUT_MS);
+
+      ws.on('open', () => {
+        const reqId = ++conn.nextReqId;
+        conn.pending.set(reqId, {
+          resolve: (msg: any) => {
+            authorized = true;
+            conn.authorized = true;
+            conn.loginid = msg.authorize?.loginid;
+            conn.currency = msg.authorize?.currency || 'USD';
+            this.startKeepAlive(conn, ws);
+            this.logger.log(
+              `[BrokerGateway][${conn.label}] ✅ Autorizado | LoginID: ${conn.loginid || 'N/A'} | Moeda: ${conn.currency} | App ID: ${appId}`,
+            );
+            finish();
+          },
+          reject: (error: Error) => {
+            this.logger.error(
+              `[BrokerGateway][${conn.label}] ❌ Erro na autorização: ${error.message}`,
+            );
+            finish(error);
+            ws.close();
+          },
+          timeout: authorizeTimeout,
+        });
+        ws.send(JSON.stringify({ authorize: conn.token, req_id: reqId }));
+      });
+
+      ws.on('message', (data: WebSocket.RawData) =>
+        this.handleMessage(conn, data),
+      );
+
+      ws.on('error', (error) => {
+        this.logger.error(
+          `[BrokerGateway][${conn.label}] ❌ Erro no WebSocket: ${error.message}`,
+        );
+        finish(new BrokerGatewayError('ConnectionError', error.message));
+      });
+
+      ws.on('close', () => {
+        // Socket substituído por uma reconexão: ignorar
+        if (conn.ws !== ws) return;
+
+        if (!settled) {
+          finish(
+            new BrokerGatewayError(
+              'ConnectionClosed',
+              'WebSocket fechado antes da autorização',
+            ),
+          );
+        } else if (authorized) {
+          this.handleDisconnect(conn);
+        }
+      });
+    });
+  }
+
+  private handleMessage(conn: GatewayConnection, data: WebSocket.RawData) {
+    let msg: any;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    // Respostas do keep-alive (sem req_id)
+    if (msg.msg_type === 'ping' && !msg.req_id) return;
+
+    const subscription = this.findSubscription(conn, msg);
+    if (subscription) {
+      this.dispatchSubscription(conn, subscription, msg);
+      return;
+    }
+
+    const reqId = Number(msg.req_id);
+    const pending = conn.pending.get(reqId);
+    if (pending) {
+      conn.pending.delete(reqId);
+      clearTimeout(pending.timeout);
+      if (msg.error) {
+        pending.reject(this.toError(msg.error));
+      } else {
+        pending.resolve(msg);
+      }
+      this.scheduleIdleClose(conn);
+      return;
+    }
+
+    if (msg.error && msg.msg_type !== 'forget') {
+      this.logger.warn(
+        `[BrokerGateway][${conn.label}] ⚠️ Erro sem requisição pendente: ${msg.error.message}`,
+      );
+    }
+  }
+
+  private findSubscription(
+    conn: GatewayConnection,
+    msg: any,
+  ): GatewaySubscription | undefined {
+    const derivSubscriptionId = msg.subscription?.id;
+    const reqId = Number(msg.req_id);
+
+    for (const subscription of conn.subscriptions.values()) {
+      if (
+        (derivSubscriptionId &&
+          subscription.derivSubscriptionId === derivSubscriptionId) ||
+        (reqId && subscription.reqId === reqId)
+      ) {
+        return subscription;
+      }
+    }
+
+    // Assinaturas de contrato usam o contract_id como subId
+    const contractId = msg.proposal_open_contract?.contract_id;
+    return contractId ? conn.subscriptions.get(String(contractId)) : undefined;
+  }
+
+  private dispatchSubscription(
+    conn: GatewayConnection,
+    subscription: GatewaySubscription,
+    msg: any,
+  ) {
+    if (msg.subscription?.id && !subscription.derivSubscriptionId) {
+      subscription.derivSubscriptionId = msg.subscription.id;
+    }
+
+    if (subscription.confirm) {
+      const { resolve, reject, timeout } = subscription.confirm;
+      subscription.confirm = undefined;
+      clearTimeout(timeout);
+
+      if (msg.error) {
+        conn.subscriptions.delete(subscription.subId);
+        reject(this.toError(msg.error));
+        return;
+      }
+      resolve();
+    }
+
+    try {
+      subscription.callback(msg);
+    } catch (error) {
+      this.logger.error(
+        `[BrokerGateway][${conn.label}] ❌ Erro no callback da assinatura ${subscription.subId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Queda inesperada da conexão: rejeita pendentes e reconecta se ainda houver uso
+   */
+  private handleDisconnect(conn: GatewayConnection) {
+    conn.authorized = false;
+    this.stopKeepAlive(conn);
+    this.rejectPending(
+      conn,
+      new BrokerGatewayError('ConnectionClosed', 'WebSocket fechado'),
+    );
+
+    if (conn.closing || this.isIdle(conn)) {
+      this.dropConnection(conn);
+      return;
+    }
+
+    this.logger.warn(
+      `[BrokerGateway][${conn.label}] 🔄 Conexão perdida. Reconectando (${conn.subscriptions.size} assinaturas ativas)...`,
+    );
+    conn.ready = this.reconnectWithBackoff(conn);
+    conn.ready.catch((error: Error) => {
+      this.logger.error(
+        `[BrokerGateway][${conn.label}] ❌ Reconexão falhou: ${error.message}`,
+      );
+      this.failSubscriptions(conn, error);
+      this.dropConnection(conn);
+    });
+  }
+
+  private async reconnectWithBackoff(conn: GatewayConnection): Promise<void> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt < MAX_RECONNECT_ATTEMPTS; attempt++) {
+      const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+      await new Promise<void>((resolve) => {
+        conn.cancelReconnectWait = resolve;
+        conn.reconnectTimer = setTimeout(resolve, delay);
+      });
+      conn.reconnectTimer = null;
+      conn.cancelReconnectWait = null;
+
+      if (conn.closing) {
+        throw new BrokerGatewayError('ConnectionClosed', 'Conexão encerrada');
+      }
+
+      try {
+        await this.connect(conn, conn.appId);
+        this.resubscribe(conn);
+        return;
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(
+          `[BrokerGateway][${conn.label}] ⚠️ Tentativa de reconexão ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS} falhou: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  private resubscribe(conn: GatewayConnection) {
+    for (const subscription of conn.subscriptions.values()) {
+      subscription.derivSubscriptionId = undefined;
+      subscription.reqId = ++conn.nextReqId;
+      this.send(conn, { ...subscription.payload, req_id: subscription.reqId });
+    }
+    if (conn.subscriptions.size > 0) {
+      this.logger.log(
+        `[BrokerGateway][${conn.label}] ✅ ${conn.subscriptions.size} assinaturas reenviadas após reconexão`,
+      );
+    }
+  }
+
+  /**
+   * Avisa as assinaturas que a conexão não pôde ser restabelecida
+   */
+  private failSubscriptions(conn: GatewayConnection, error: Error) {
+    const code =
+      error instanceof BrokerGatewayError ? error.code : 'ConnectionClosed';
+
+    for (const subscription of Array.from(conn.subscriptions.values())) {
+      conn.subscriptions.delete(subscription.subId);
+      if (subscription.confirm) {
+        clearTimeout(subscription.confirm.timeout);
+        subscription.confirm.reject(error);
+        continue;
+      }
+      try {
+        subscription.callback({ error: { code, message: error.message } });
+      } catch {
+        // Callback já registrou o erro
+      }
+    }
+  }
+
+  private ensureCapacity() {
+    if (this.connections.size < this.maxConnections) return;
+
+    const idle = Array.from(this.connections.values()).find((conn) =>
+      this.isIdle(conn),
+    );
+    if (idle) {
+      this.closeConnection(idle);
+      return;
+    }
+
+    throw new BrokerGatewayError(
+      'ConnectionLimit',
+      `Limite de ${this.maxConnections} conexões simultâneas com a Deriv atingido`,
+    );
+  }
+
+  private isIdle(conn: GatewayConnection): boolean {
+    return (
+      conn.owners.size === 0 &&
+      conn.subscriptions.size === 0 &&
+      conn.pending.size === 0
+    );
+  }
+
+  /**
+   * Conexões sem dono são fechadas após IDLE_TIMEOUT_MS sem uso
+   */
+  private scheduleIdleClose(conn: GatewayConnection) {
+    if (conn.owners.size > 0) return;
+
+    if (conn.idleTimer) clearTimeout(conn.idleTimer);
+    conn.idleTimer = setTimeout(() => {
+      conn.idleTimer = null;
+      if (this.isIdle(conn)) {
+        this.closeConnection(conn);
+      }
+    }, IDLE_TIMEOUT_MS);
+    conn.idleTimer.unref();
+  }
+
+  private startKeepAlive(conn: GatewayConnection, ws: WebSocket) {
+    this.stopKeepAlive(conn);
+    conn.keepAliveInterval = setInterval(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        try {
+          ws.send(JSON.stringify({ ping: 1 }));
+        } catch {
+          // A queda será tratada no evento close
+        }
+      }
+    }, KEEPALIVE_INTERVAL_MS);
+    conn.keepAliveInterval.unref();
+  }
+
+  private stopKeepAlive(conn: GatewayConnection) {
+    if (conn.keepAliveInterval) {
+      clearInterval(conn.keepAliveInterval);
+      conn.keepAliveInterval = null;
+    }
+  }
+
+  private closeConnection(conn: GatewayConnection) {
+    conn.closing = true;
+    this.rejectPending(
+      conn,
+      new BrokerGatewayError('ConnectionClosed', 'Conexão encerrada'),
+    );
+    this.dropConnection(conn);
+  }
+
+  private dropConnection(conn: GatewayConnection) {
+    conn.closing = true;
+    this.stopKeepAlive(conn);
+    if (conn.idleTimer) {
+      clearTimeout(conn.idleTimer);
+      conn.idleTimer = null;
+    }
+    if (conn.reconnectTimer) {
+      clearTimeout(conn.reconnectTimer);
+      conn.reconnectTimer = null;
+      conn.cancelReconnectWait?.();
+    }
+    for (const subscription of conn.subscriptions.values()) {
+      if (subscription.confirm) clearTimeout(subscription.confirm.timeout);
+    }
+    conn.subscriptions.clear();
+
+    if (this.connections.get(conn.token) === conn) {
+      this.connections.delete(conn.token);
+    }
+    if (
+      conn.ws &&
+      (conn.ws.readyState === WebSocket.OPEN ||
+        conn.ws.readyState === WebSocket.CONNECTING)
+    ) {
+      conn.ws.terminate();
+    }
+  }
+
+  private rejectPending(conn: GatewayConnection, error: Error) {
+    for (const pending of conn.pending.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    }
+    conn.pending.clear();
+  }
+
+  private send(conn: GatewayConnection, payload: any) {
+    if (!conn.ws || conn.ws.readyState !== WebSocket.OPEN) {
+      throw new BrokerGatewayError(
+        'ConnectionClosed',
+        'WebSocket não está aberto',
+      );
+    }
+    conn.ws.send(JSON.stringify(payload));
+  }
+
+  private toError(error: any): BrokerGatewayError {
+    return new BrokerGatewayError(
+      error?.code || 'DerivError',
+      error?.message || JSON.stringify(error),
+    );
+  }
+
+  private maskToken(token: string): string {
+    return `${token.substring(0, 8)}...`;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Token de injeção do gateway de corretora (estratégias dependem apenas da interface)
+ */
+export const BROKER_GATEWAY = 'BROKER_GATEWAY';
+
+export interface BrokerConnectionOptions {
+  /**
+   * Dono da conexão (ex.: 'zeus', 'atlas'). A conexão só é fechada quando todos os donos a liberam.
+   */
+  owner?: string;
+  /**
+   * Identificador usado apenas nos logs (ex.: userId)
+   */
+  label?: string;
+  /**
+   * App ID específico para esta conexão (padrão: DERIV_APP_ID)
+   */
+  appId?: string;
+  /**
+   * Tenta os App IDs alternativos quando o token não é válido para o App ID atual
+   */
+  appIdFallback?: boolean;
+}
+
+/**
+ * Conexão autorizada para um token, no formato usado pelas estratégias
+ */
+export interface BrokerConnection {
+  loginid?: string;
+  currency?: string;
+  sendRequest: (payload: any, timeoutMs?: number) => Promise<any>;
+  subscribe: (
+    payload: any,
+    callback: (msg: any) => void,
+    subId: string,
+    timeoutMs?: number,
+  ) => Promise<void>;
+  removeSubscription: (subId: string) => void;
+}
+
+export interface IBrokerGateway {
+  getConnection(
+    token: string,
+    options?: BrokerConnectionOptions,
+  ): Promise<BrokerConnection>;
+  releaseConnection(token: string, owner: string): void;
+}
+
+/**
+ * Erro retornado pelo gateway; `code` segue os códigos da Deriv (InvalidToken, InsufficientBalance...)
+ * ou os códigos locais: Timeout, ConnectionClosed, ConnectionLimit.
+ */
+export class BrokerGatewayError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'BrokerGatewayError';
+  }
+}
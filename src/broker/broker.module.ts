@@ -5,7 +5,9 @@ import { ManualTradeController } from './manual-trade.controller';
 import { DerivService } from './deriv.service';
 import { DerivWebSocketService } from './deriv-websocket.service';
 import { DerivWebSocketManagerService } from './deriv-websocket-manager.service';
-import { DerivWebSocketPoolService } from './deriv-websocket-pool.service';
+import { BrokerGatewayService } from './broker-gateway.service';
+import { BROKER_GATEWAY } from './broker-gateway.types';
+import { DerivAccountResolver } from './deriv-account-resolver.service';
 import { UserModule } from '../user.module';
 import { SettingsModule } from '../settings/settings.module';
 import { TradeEntity } from '../infrastructure/database/entities/trade.entity';
@@ -24,15 +26,17 @@ import { CopyTradingModule } from '../copy-trading/copy-trading.module';
     DerivService,
     DerivWebSocketService,
     DerivWebSocketManagerService,
-    DerivWebSocketPoolService,
+    BrokerGatewayService,
+    { provide: BROKER_GATEWAY, useExisting: BrokerGatewayService },
+    DerivAccountResolver,
   ],
   exports: [
     DerivService,
     DerivWebSocketService,
     DerivWebSocketManagerService,
-    DerivWebSocketPoolService,
+    BrokerGatewayService,
+    BROKER_GATEWAY,
+    DerivAccountResolver,
   ],
 })
-export class BrokerModule { }
-
-
+export class BrokerModule {}
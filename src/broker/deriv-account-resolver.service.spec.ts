@@ -0,0 +1,223 @@
+import type { DataSource } from 'typeorm';
+import { DerivAccountResolver } from './deriv-account-resolver.service';
+import {
+  DerivAccountNotFoundError,
+  DerivAccountResolutionError,
+  DerivUserNotFoundError,
+} from './deriv-account-resolver.types';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import {
+  legacyAuthorizeRaw,
+  manualTokenRaw,
+  oauthMultiAccountRaw,
+} from './__fixtures__/deriv-raw.fixtures';
+
+describe('DerivAccountResolver', () => {
+  const originalKeys = process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+  let query: jest.Mock;
+  let encryption: TokenEncryptionService;
+  let resolver: DerivAccountResolver;
+
+  beforeEach(() => {
+    process.env.DERIV_TOKEN_ENCRYPTION_KEYS = `test:${Buffer.alloc(32, 3).toString('base64')}`;
+    encryption = new TokenEncryptionService();
+    query = jest.fn();
+    resolver = new DerivAccountResolver(
+      { query } as unknown as DataSource,
+      encryption,
+    );
+  });
+
+  afterAll(() => {
+    if (originalKeys === undefined) {
+      delete process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+    } else {
+      process.env.DERIV_TOKEN_ENCRYPTION_KEYS = originalKeys;
+    }
+  });
+
+  describe('conta demo', () => {
+    it('usa token_demo quando a preferência é DEMO', async () => {
+      query.mockResolvedValue([
+        {
+          deriv_raw: oauthMultiAccountRaw,
+          token_demo: 'a1-DemoUsdToken0000000000003',
+          token_demo_currency: 'USD',
+          trade_currency: 'DEMO',
+        },
+      ]);
+
+      await expect(resolver.resolve('user-1')).resolves.toEqual({
+        token: 'a1-DemoUsdToken0000000000003',
+        loginid: 'VRTC8765432',
+        currency: 'USD',
+        isDemo: true,
+        source: 'token_demo',
+      });
+    });
+
+    it('encontra a conta virtual em deriv_raw quando não há token_demo', () => {
+      const resolved = resolver.resolveFromRecord('user-1', {
+        deriv_raw: oauthMultiAccountRaw,
+        trade_currency: 'DEMO',
+      });
+
+      expect(resolved).toMatchObject({
+        token: 'a1-DemoUsdToken0000000000003',
+        loginid: 'VRTC8765432',
+        isDemo: true,
+        source: 'deriv_raw',
+      });
+    });
+
+    it('trata USD com último loginid VRTC como demo', () => {
+      const resolved = resolver.resolveFromRecord('user-1', {
+        deriv_raw: JSON.stringify(legacyAuthorizeRaw),
+        trade_currency: 'USD',
+      });
+
+      expect(resolved).toEqual({
+        token: 'a1-LegacyDemoUsd000000000003',
+        loginid: 'VRTC1122334',
+        currency: 'USD',
+        isDemo: true,
+        source: 'deriv_raw',
+      });
+    });
+
+    it('falha com DerivAccountNotFoundError quando não há conta demo com token', () => {
+      const resolve = () =>
+        resolver.resolveFromRecord(
+          'user-1',
+          { deriv_raw: manualTokenRaw, trade_currency: 'USD' },
+          { accountType: 'demo' },
+        );
+
+      expect(resolve).toThrow(DerivAccountNotFoundError);
+      expect(resolve).toThrow(DerivAccountResolutionError);
+    });
+  });
+
+  describe('conta real', () => {
+    it('usa token_real quando a moeda bate com a preferência', () => {
+      const resolved = resolver.resolveFromRecord('user-1', {
+        deriv_raw: oauthMultiAccountRaw,
+        token_real: 'a1-RealUsdToken0000000000001',
+        token_real_currency: 'USD',
+        trade_currency: 'USD',
+      });
+
+      expect(resolved).toEqual({
+        token: 'a1-RealUsdToken0000000000001',
+        loginid: 'CR5123456',
+        currency: 'USD',
+        isDemo: false,
+        source: 'token_real',
+      });
+    });
+
+    it('prefere a conta de deriv_raw na moeda pedida a um token_real de outra moeda', () => {
+      const resolved = resolver.resolveFromRecord(
+        'user-1',
+        {
+          deriv_raw: oauthMultiAccountRaw,
+          token_real: 'a1-RealUsdToken0000000000001',
+          token_real_currency: 'USD',
+          trade_currency: 'USD',
+        },
+        { currency: 'btc' },
+      );
+
+      expect(resolved).toMatchObject({
+        token: 'a1-RealBtcToken0000000000002',
+        loginid: 'CR5123457',
+        currency: 'BTC',
+        source: 'deriv_raw',
+      });
+    });
+
+    it('mantém token_real quando nenhuma conta tem a moeda pedida', () => {
+      const resolved = resolver.resolveFromRecord(
+        'user-1',
+        {
+          deriv_raw: manualTokenRaw,
+          token_real: 'a1-ManualRealEur000000000001',
+          token_real_currency: 'EUR',
+        },
+        { accountType: 'real', currency: 'USD' },
+      );
+
+      expect(resolved).toEqual({
+        token: 'a1-ManualRealEur000000000001',
+        loginid: 'CR7000070',
+        currency: 'EUR',
+        isDemo: false,
+        source: 'token_real',
+      });
+    });
+
+    it('sem correspondência de moeda, escolhe a conta real com saldo', () => {
+      const resolved = resolver.resolveFromRecord(
+        'user-1',
+        { deriv_raw: legacyAuthorizeRaw },
+        { accountType: 'real', currency: 'EUR' },
+      );
+
+      expect(resolved).toMatchObject({
+        token: 'a1-LegacyRealBtc000000000002',
+        loginid: 'CR9001002',
+        currency: 'BTC',
+        isDemo: false,
+      });
+    });
+
+    it('o tipo explícito prevalece sobre trade_currency DEMO', () => {
+      const resolved = resolver.resolveFromRecord(
+        'user-1',
+        { deriv_raw: oauthMultiAccountRaw, trade_currency: 'DEMO' },
+        { accountType: 'real' },
+      );
+
+      expect(resolved).toMatchObject({
+        loginid: 'CR5123456',
+        currency: 'USD',
+        isDemo: false,
+      });
+    });
+
+    it('falha com DerivAccountNotFoundError quando não há token real', () => {
+      expect(() =>
+        resolver.resolveFromRecord('user-1', {
+          token_demo: 'a1-DemoUsdToken0000000000003',
+          trade_currency: 'USD',
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          name: 'DerivAccountNotFoundError',
+          accountType: 'real',
+          currency: 'USD',
+        }),
+      );
+    });
+  });
+
+  it('decifra tokens e deriv_raw gravados cifrados', () => {
+    const resolved = resolver.resolveFromRecord('user-1', {
+      deriv_raw: encryption.encryptDerivRaw(oauthMultiAccountRaw),
+      token_real: encryption.encrypt('a1-RealUsdToken0000000000001'),
+      token_real_currency: 'USD',
+      trade_currency: 'USD',
+    });
+
+    expect(resolved.token).toBe('a1-RealUsdToken0000000000001');
+    expect(resolved.loginid).toBe('CR5123456');
+  });
+
+  it('falha com DerivUserNotFoundError quando o usuário não existe', async () => {
+    query.mockResolvedValue([]);
+
+    await expect(resolver.resolve('missing')).rejects.toBeInstanceOf(
+      DerivUserNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import {
+  DerivAccountNotFoundError,
+  DerivUserNotFoundError,
+} from './deriv-account-resolver.types';
+import type {
+  DerivAccountRecord,
+  DerivAccountRequest,
+  DerivAccountType,
+  ResolvedDerivAccount,
+} from './deriv-account-resolver.types';
+
+interface DerivRawAccount {
+  loginid: string;
+  currency: string | null;
+  isDemo: boolean;
+  balance: number;
+  token?: string;
+}
+
+const isVirtualLoginId = (loginid: unknown) =>
+  typeof loginid === 'string' && loginid.toUpperCase().startsWith('VRTC');
+
+/**
+ * Decide qual token da Deriv usar para um usuário (demo x real, moeda preferida).
+ *
+ * Ordem de escolha:
+ * - demo: token_demo; depois contas virtuais de deriv_raw (moeda pedida, USD, primeira)
+ * - real: token_real se a moeda bater; contas reais de deriv_raw na moeda pedida; token_real
+ *   em outra moeda; conta real com saldo; primeira conta real
+ *
+ * Sem tipo explícito, trade_currency 'DEMO' pede a demo, e 'USD' com o último loginid
+ * autorizado sendo VRTC também (o padrão 'USD' não distingue a conta virtual).
+ */
+@Injectable()
+export class DerivAccountResolver {
+  private readonly logger = new Logger(DerivAccountResolver.name);
+
+  constructor(
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly tokenEncryption: TokenEncryptionService,
+  ) {}
+
+  async resolve(
+    userId: string,
+    request: DerivAccountRequest = {},
+  ): Promise<ResolvedDerivAccount> {
+    const rows: DerivAccountRecord[] = await this.dataSource.query(
+      `SELECT u.deriv_raw, u.token_demo, u.token_real, u.token_demo_currency,
+              u.token_real_currency, s.trade_currency
+       FROM users u
+       LEFT JOIN user_settings s ON u.id = s.user_id
+       WHERE u.id = ?`,
+      [userId],
+    );
+    if (!rows || rows.length === 0) {
+      throw new DerivUserNotFoundError(userId);
+    }
+
+    const resolved = this.resolveFromRecord(userId, rows[0], request);
+    this.logger.debug(
+      `[DerivAccountResolver] ${userId}: ${resolved.isDemo ? 'DEMO' : 'REAL'} ${resolved.loginid ?? '-'} | ${resolved.currency} (${resolved.source})`,
+    );
+    return resolved;
+  }
+
+  /**
+   * Resolve a partir de uma linha já carregada (ex.: JOIN das sessões de copy trading).
+   * Tokens cifrados são decifrados aqui.
+   */
+  resolveFromRecord(
+    userId: string,
+    record: DerivAccountRecord,
+    request: DerivAccountRequest = {},
+  ): ResolvedDerivAccount {
+    const preferred = (
+      request.currency ||
+      record.trade_currency ||
+      'USD'
+    ).toUpperCase();
+    const raw = this.parseDerivRaw(record.deriv_raw);
+    const currency = preferred === 'DEMO' ? null : preferred;
+
+    let accountType: DerivAccountType;
+    if (request.accountType) {
+      accountType = request.accountType;
+    } else if (preferred === 'DEMO') {
+      accountType = 'demo';
+    } else if (preferred === 'USD' && isVirtualLoginId(raw?.loginid)) {
+      accountType = 'demo';
+    } else {
+      accountType = 'real';
+    }
+
+    const accounts = this.listAccounts(raw);
+    const resolved =
+      accountType === 'demo'
+        ? this.pickDemo(record, accounts, currency)
+        : this.pickReal(record, accounts, currency);
+
+    if (!resolved) {
+      throw new DerivAccountNotFoundError(userId, accountType, currency);
+    }
+    return resolved;
+  }
+
+  private pickDemo(
+    record: DerivAccountRecord,
+    accounts: DerivRawAccount[],
+    currency: string | null,
+  ): ResolvedDerivAccount | null {
+    const tokenDemo = this.tokenEncryption.decrypt(record.token_demo);
+    if (tokenDemo) {
+      const account = accounts.find((a) => a.token === tokenDemo);
+      return {
+        token: tokenDemo,
+        loginid: account?.loginid ?? null,
+        currency: (
+          record.token_demo_currency ||
+          account?.currency ||
+          'USD'
+        ).toUpperCase(),
+        isDemo: true,
+        source: 'token_demo',
+      };
+    }
+
+    const demoAccounts = accounts.filter((a) => a.isDemo && a.token);
+    const account =
+      (currency && demoAccounts.find((a) => a.currency === currency)) ||
+      demoAccounts.find((a) => a.currency === 'USD') ||
+      demoAccounts[0];
+    return account ? this.fromRawAccount(account, 'USD') : null;
+  }
+
+  private pickReal(
+    record: DerivAccountRecord,
+    accounts: DerivRawAccount[],
+    currency: string | null,
+  ): ResolvedDerivAccount | null {
+    const realAccounts = accounts.filter((a) => !a.isDemo && a.token);
+    const tokenReal = this.tokenEncryption.decrypt(record.token_real);
+    const tokenRealAccount = tokenReal
+      ? accounts.find((a) => a.token === tokenReal)
+      : undefined;
+    const tokenRealCurrency = (
+      record.token_real_currency ||
+      tokenRealAccount?.currency ||
+      ''
+    ).toUpperCase();
+
+    const fromColumn = (): ResolvedDerivAccount => ({
+      token: tokenReal!,
+      loginid: tokenRealAccount?.loginid ?? null,
+      currency: tokenRealCurrency || currency || 'USD',
+      isDemo: false,
+      source: 'token_real',
+    });
+
+    if (tokenReal && (!tokenRealCurrency || tokenRealCurrency === currency)) {
+      return fromColumn();
+    }
+
+    const currencyMatch = realAccounts.find((a) => a.currency === currency);
+    if (currencyMatch) return this.fromRawAccount(currencyMatch, currency);
+
+    if (tokenReal) return fromColumn();
+
+    const account = realAccounts.find((a) => a.balance > 0) || realAccounts[0];
+    return account ? this.fromRawAccount(account, currency || 'USD') : null;
+  }
+
+  private fromRawAccount(
+    account: DerivRawAccount,
+    defaultCurrency: string | null,
+  ): ResolvedDerivAccount {
+    return {
+      token: account.token!,
+      loginid: account.loginid,
+      currency: account.currency || defaultCurrency || 'USD',
+      isDemo: account.isDemo,
+      source: 'deriv_raw',
+    };
+  }
+
+  /**
+   * Contas conhecidas em deriv_raw. Aceita os dois formatos gravados ao longo do tempo:
+   * `authorize.account_list` (resposta do authorize) e `accountsByCurrency` (DerivService),
+   * além de loginids que só aparecem em tokensByLoginId.
+   */
+  private listAccounts(raw: any): DerivRawAccount[] {
+    if (!raw || typeof raw !== 'object') return [];
+
+    const tokens: Record<string, unknown> =
+      raw.tokensByLoginId && typeof raw.tokensByLoginId === 'object'
+        ? raw.tokensByLoginId
+        : {};
+    const accounts = new Map<string, DerivRawAccount>();
+    const add = (
+      loginid: unknown,
+      currency: unknown,
+      isDemo: boolean | undefined,
+      balance: unknown,
+    ) => {
+      if (typeof loginid !== 'string' || !loginid || accounts.has(loginid)) {
+        return;
+      }
+      const token = tokens[loginid];
+      accounts.set(loginid, {
+        loginid,
+        currency:
+          typeof currency === 'string' && currency
+            ? currency.toUpperCase()
+            : null,
+        isDemo: isDemo ?? isVirtualLoginId(loginid),
+        balance: Number(balance) || 0,
+        token:
+          typeof token === 'string' && token
+            ? this.tokenEncryption.decrypt(token)
+            : undefined,
+      });
+    };
+
+    const accountList = raw.authorize?.account_list;
+    if (Array.isArray(accountList)) {
+      for (const acc of accountList) {
+        add(
+          acc?.loginid,
+          acc?.currency,
+          acc?.is_virtual === undefined ? undefined : !!acc.is_virtual,
+          acc?.balance,
+        );
+      }
+    }
+
+    if (raw.accountsByCurrency && typeof raw.accountsByCurrency === 'object') {
+      for (const [cur, entries] of Object.entries(raw.accountsByCurrency)) {
+        if (!Array.isArray(entries)) continue;
+        for (const entry of entries) {
+          add(entry?.loginid, cur, entry?.isDemo, entry?.value);
+        }
+      }
+    }
+
+    if (raw.loginid && raw.currency) {
+      add(raw.loginid, raw.currency, undefined, raw.balance?.value);
+    }
+
+    for (const loginid of Object.keys(tokens)) {
+      add(loginid, null, undefined, 0);
+    }
+
+    return Array.from(accounts.values());
+  }
+
+  private parseDerivRaw(value: unknown): any {
+    if (!value) return null;
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      this.logger.warn('[DerivAccountResolver] ⚠️ deriv_raw com JSON inválido');
+      return null;
+    }
+  }
+}
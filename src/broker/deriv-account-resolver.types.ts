@@ -0,0 +1,83 @@
+/**
+ * Tipo de conta da Deriv: 'demo' (loginid VRTC...) ou 'real' (CR..., MF...)
+ */
+export type DerivAccountType = 'demo' | 'real';
+
+/**
+ * Conta desejada. Campos omitidos são derivados de user_settings.trade_currency
+ * (que usa 'DEMO' como pseudo-moeda para a conta virtual).
+ */
+export interface DerivAccountRequest {
+  accountType?: DerivAccountType;
+  /**
+   * Moeda preferida (USD, BTC...). 'DEMO' equivale a accountType 'demo'.
+   */
+  currency?: string | null;
+}
+
+/**
+ * Conta escolhida para operar
+ */
+export interface ResolvedDerivAccount {
+  token: string;
+  /**
+   * null quando o token veio das colunas dedicadas e não aparece em deriv_raw
+   */
+  loginid: string | null;
+  currency: string;
+  isDemo: boolean;
+  /**
+   * Origem do token: coluna dedicada (token_demo/token_real) ou tokensByLoginId de deriv_raw
+   */
+  source: 'token_demo' | 'token_real' | 'deriv_raw';
+}
+
+/**
+ * Colunas de users/user_settings usadas na resolução (mesmos nomes do banco,
+ * para que linhas de queries com JOIN possam ser repassadas diretamente)
+ */
+export interface DerivAccountRecord {
+  deriv_raw?: any;
+  token_demo?: string | null;
+  token_real?: string | null;
+  token_demo_currency?: string | null;
+  token_real_currency?: string | null;
+  trade_currency?: string | null;
+}
+
+export class DerivAccountResolutionError extends Error {
+  constructor(
+    readonly userId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'DerivAccountResolutionError';
+  }
+}
+
+/**
+ * O usuário não existe
+ */
+export class DerivUserNotFoundError extends DerivAccountResolutionError {
+  constructor(userId: string) {
+    super(userId, `Usuário ${userId} não encontrado`);
+    this.name = 'DerivUserNotFoundError';
+  }
+}
+
+/**
+ * O usuário não tem token para nenhuma conta do tipo pedido
+ */
+export class DerivAccountNotFoundError extends DerivAccountResolutionError {
+  constructor(
+    userId: string,
+    readonly accountType: DerivAccountType,
+    readonly currency: string | null,
+  ) {
+    super(
+      userId,
+      `Nenhuma conta ${accountType === 'demo' ? 'demo' : 'real'}${currency ? ` (${currency})` : ''} com token para o usuário ${userId}`,
+    );
+    this.name = 'DerivAccountNotFoundError';
+  }
+}
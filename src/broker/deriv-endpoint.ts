@@ -0,0 +1,11 @@
+export const DERIV_WS_DEFAULT_URL = 'wss://ws.derivws.com/websockets/v3';
+
+/**
+ * URL do WebSocket da Deriv usada por todo o backend (broker, IAs, agente autônomo, markup).
+ * DERIV_WS_URL redireciona as conexões para outro servidor, ex: o simulador local
+ * (DERIV_SIMULATOR=true ou ws://127.0.0.1:8765/websockets/v3).
+ */
+export function getDerivWsUrl(appId: string | number): string {
+  const base = process.env.DERIV_WS_URL || DERIV_WS_DEFAULT_URL;
+  return `${base}${base.includes('?') ? '&' : '?'}app_id=${appId}`;
+}
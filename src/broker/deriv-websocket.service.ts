@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from './deriv-endpoint';
 import { EventEmitter } from 'events';
 
 export interface TickData {
@@ -110,7 +111,7 @@ export class DerivWebSocketService extends EventEmitter implements OnModuleDestr
 
   private establishConnection(): Promise<boolean> {
     return new Promise((resolve, reject) => {
-      const url = `wss://ws.derivws.com/websockets/v3?app_id=${this.appId}`;
+      const url = getDerivWsUrl(this.appId);
       this.logger.log(`[DerivWS] Conectando WebSocket: ${url}`);
 
       const ws = new WebSocket(url, {
@@ -38,6 +38,7 @@ import { Repository, Not, IsNull } from 'typeorm';
 import { TradeEntity, TradeStatus } from '../infrastructure/database/entities/trade.entity';
 import { v4 as uuidv4 } from 'uuid';
 import { CopyTradingService } from '../copy-trading/copy-trading.service';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
 
 class ConnectDto {
   @IsString()
@@ -190,6 +191,7 @@ export class DerivController {
     @InjectRepository(TradeEntity)
     private readonly tradeRepository: Repository<TradeEntity>,
     private readonly copyTradingService: CopyTradingService,
+    private readonly tradeLedger?: TradeLedgerService,
   ) {
     this.defaultAppId = Number(this.configService.get('DERIV_APP_ID') ?? 1089);
     this.oauthRedirectUrl = this.configService.get<string>('DERIV_OAUTH_REDIRECT_URL');
@@ -1315,6 +1317,7 @@ export class DerivController {
           symbol: data.symbol ? String(data.symbol) : null,
         });
         const savedTrade = await this.tradeRepository.save(trade);
+        this.tradeLedger?.sync('manual', savedTrade.id);
         this.logger.log(`[Trading] Operação de compra salva no banco: ${savedTrade.id}, entrySpot: ${savedTrade.entrySpot}, entryValue: ${savedTrade.entryValue}`);
 
         // Verificar se o usuário é expert e replicar operação para copiadores
@@ -1328,21 +1331,21 @@ export class DerivController {
             const userBalance = user?.derivBalance ? parseFloat(user.derivBalance) : 0;
             const percent = userBalance > 0 ? ((data.buyPrice || 0) / userBalance) * 100 : 0;
 
-            await this.copyTradingService.replicateManualOperation(
-              userId,
-              {
-                contractId: data.contractId,
-                contractType: data.contractType || 'CALL',
-                symbol: data.symbol,
-                duration: data.duration || 1,
-                durationUnit: data.durationUnit || 'm',
-                stakeAmount: data.buyPrice || 0,
-                percent: percent,
-                entrySpot: finalEntrySpot || 0,
-                entryTime: data.entryTime || Math.floor(Date.now() / 1000),
-                barrier: data.barrier,
-              },
-            );
+            await this.copyTradingService.replicateTradeToFollowers(userId, {
+              traderOperationId: savedTrade.id,
+              contractId: String(data.contractId),
+              contractType: data.contractType || 'CALL',
+              symbol: data.symbol,
+              duration: data.duration || 1,
+              durationUnit: data.durationUnit || 'm',
+              barrier: data.barrier ?? undefined,
+              stakeAmount: data.buyPrice || 0,
+              buyPrice: data.buyPrice || 0,
+              payout: data.payout || null,
+              spot: finalEntrySpot,
+              stakePercent: percent,
+              filledAt: data.entryTime ? new Date(data.entryTime * 1000) : new Date(),
+            });
           }
         } catch (error) {
           this.logger.error(`[Trading] Erro ao replicar operação para copiadores: ${error.message}`);
@@ -1395,31 +1398,8 @@ export class DerivController {
           trade.exitSpot = finalExitSpot; // Preço de saída (spot price) - sempre salvar se disponível
           trade.status = (trade.profit !== null && trade.profit > 0) ? TradeStatus.WON : (trade.profit !== null ? TradeStatus.LOST : TradeStatus.PENDING);
           const savedTrade = await this.tradeRepository.save(trade);
+          this.tradeLedger?.sync('manual', savedTrade.id);
           this.logger.log(`[Trading] Operação de venda atualizada no banco: ${savedTrade.id}, exitSpot: ${savedTrade.exitSpot}, exitValue: ${savedTrade.exitValue}, profit: ${savedTrade.profit}`);
-
-          // Se a operação foi finalizada e o usuário é expert, atualizar operações de copy trading
-          if ((savedTrade.status === TradeStatus.WON || savedTrade.status === TradeStatus.LOST) &&
-            savedTrade.profit !== null && savedTrade.profit !== undefined &&
-            savedTrade.entryValue !== null && savedTrade.entryValue !== undefined) {
-            try {
-              const isMasterTrader = await this.copyTradingService.isMasterTrader(userId);
-              if (isMasterTrader) {
-                const result = savedTrade.status === TradeStatus.WON ? 'win' : 'loss';
-                const profit = Number(savedTrade.profit);
-                const entryValue = Number(savedTrade.entryValue);
-                this.logger.log(`[Trading] Atualizando operações de copy trading para contractId ${data.contractId}, result: ${result}, profit: ${profit}`);
-                await this.copyTradingService.updateCopyTradingOperationsResult(
-                  userId,
-                  data.contractId,
-                  result,
-                  profit,
-                  entryValue,
-                );
-              }
-            } catch (error) {
-              this.logger.error(`[Trading] Erro ao atualizar operações de copy trading: ${error.message}`);
-            }
-          }
         } else {
           this.logger.warn(`[Trading] Operação não encontrada para contractId: ${data.contractId}`);
         }
@@ -1641,31 +1621,8 @@ export class DerivController {
             // Salvar apenas se houver mudanças
             if (shouldSave) {
               await this.tradeRepository.save(trade);
+              this.tradeLedger?.sync('manual', trade.id);
               this.logger.log(`[Trading] Contrato atualizado no banco: ${trade.id}, status: ${trade.status}, entrySpot: ${trade.entrySpot}, exitSpot: ${trade.exitSpot}, profit: ${trade.profit}`);
-
-              // Se o contrato foi finalizado e o usuário é expert, atualizar operações de copy trading
-              if (isFinalized && (trade.status === TradeStatus.WON || trade.status === TradeStatus.LOST)) {
-                try {
-                  const isMasterTrader = await this.copyTradingService.isMasterTrader(userId);
-                  if (isMasterTrader &&
-                    trade.profit !== null && trade.profit !== undefined &&
-                    trade.entryValue !== null && trade.entryValue !== undefined) {
-                    const result = trade.status === TradeStatus.WON ? 'win' : 'loss';
-                    const profit = Number(trade.profit);
-                    const entryValue = Number(trade.entryValue);
-                    this.logger.log(`[Trading] Atualizando operações de copy trading para contractId ${contractId}, result: ${result}, profit: ${profit}`);
-                    await this.copyTradingService.updateCopyTradingOperationsResult(
-                      userId,
-                      contractId,
-                      result,
-                      profit,
-                      entryValue,
-                    );
-                  }
-                } catch (error) {
-                  this.logger.error(`[Trading] Erro ao atualizar operações de copy trading: ${error.message}`);
-                }
-              }
             }
           }
         } catch (error) {
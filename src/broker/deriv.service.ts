@@ -1,5 +1,6 @@
 import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from './deriv-endpoint';
 
 type CurrencyAccountEntry = { value: number; loginid: string; isDemo?: boolean };
 
@@ -132,7 +133,7 @@ export class DerivService {
 
   async connectAndGetAccount(token: string, appId: number, targetCurrency?: string): Promise<DerivAccountResult> {
     if (!token) throw new UnauthorizedException('Token ausente');
-    const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+    const url = getDerivWsUrl(appId);
     const ws = new WebSocket(url, {
       headers: {
         Origin: 'https://app.deriv.com',
@@ -509,7 +510,7 @@ export class DerivService {
    */
   async verifyEmailForAccount(email: string): Promise<{ success: boolean; message: string }> {
     const appId = Number(process.env.DERIV_APP_ID || 1089);
-    const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+    const url = getDerivWsUrl(appId);
 
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(url, {
@@ -575,7 +576,7 @@ export class DerivService {
    */
   async createDerivAccount(formData: any, userId: string, verificationCode: string): Promise<any> {
     const appId = Number(process.env.DERIV_APP_ID || 1089);
-    const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+    const url = getDerivWsUrl(appId);
 
     // Parâmetros de afiliado - utilizando o código fornecido pelo usuário
     const AFFILIATE_TOKEN = process.env.DERIV_AFFILIATE_TOKEN || '_FhZ1bYVH34z1k0YPxVS0A2Nd7ZgqdRLk/1/';
@@ -933,7 +934,7 @@ export class DerivService {
   }): Promise<any> {
     if (!token) throw new UnauthorizedException('Token ausente');
     const appId = options.app_id || Number(process.env.DERIV_APP_ID || 1089);
-    const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+    const url = getDerivWsUrl(appId);
 
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(url, { headers: { Origin: 'https://app.deriv.com' } });
@@ -15,6 +15,8 @@ import { TradeEntity, TradeType, TradeStatus } from '../infrastructure/database/
 import { v4 as uuidv4 } from 'uuid';
 import { CopyTradingService } from '../copy-trading/copy-trading.service';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
+import { ledgerContextFromCurrency } from '../trade-ledger/trade-ledger';
 
 @Controller('broker/manual-trade')
 export class ManualTradeController {
@@ -27,6 +29,7 @@ export class ManualTradeController {
         private readonly userRepository: Repository<UserEntity>,
         private readonly copyTradingService: CopyTradingService,
         private readonly dataSource: DataSource,
+        private readonly tradeLedger?: TradeLedgerService,
     ) { }
 
     @Post('notify/buy')
@@ -54,6 +57,7 @@ export class ManualTradeController {
             });
 
             const savedTrade = await this.tradeRepository.save(trade);
+            this.tradeLedger?.sync('manual', savedTrade.id, ledgerContextFromCurrency(body.currency));
             this.logger.log(`[ManualTrade] Trade recorded: ${savedTrade.id}, contractId: ${savedTrade.derivTransactionId}`);
 
             // Replicar para copiadores se for master
@@ -89,109 +93,22 @@ export class ManualTradeController {
                         this.logger.error(`[ManualTrade] Error inserting into master_trader_operations: ${dbErr.message}`);
                     }
 
-                    // ✅ [ZENIX v4.0] Cópia direta no controller para evitar barreira forçada e garantir autonomia
-                    try {
-                        const copiers = await this.dataSource.query(
-                            `SELECT 
-                                c.*, 
-                                u.token_demo, 
-                                u.token_real, 
-                                u.real_amount, 
-                                u.demo_amount,
-                                u.deriv_raw, 
-                                s.trade_currency, 
-                                css.id as session_id
-                             FROM copy_trading_config c
-                             JOIN users u ON c.user_id = u.id
-                             LEFT JOIN user_settings s ON c.user_id = s.user_id
-                             JOIN copy_trading_sessions css ON css.user_id = c.user_id AND css.status = 'active'
-                             WHERE c.trader_id = ? AND c.is_active = 1 AND c.session_status = 'active'`,
-                            [userId],
-                        );
-
-                        if (copiers && copiers.length > 0) {
-                            this.logger.log(`[ManualTrade] Replicando para ${copiers.length} copiadores (Sem barreira forçada)`);
-
-                            for (const copier of copiers) {
-                                // Resolver token do copiador
-                                let copierToken = null;
-                                const currencyPref = (copier.trade_currency || 'USD').toUpperCase();
-                                if (currencyPref === 'DEMO') {
-                                    copierToken = copier.token_demo;
-                                } else {
-                                    copierToken = copier.token_real;
-                                }
-                                if (!copierToken) copierToken = copier.deriv_token;
-                                if (!copierToken) continue;
-
-                                // Calcular Stake
-                                let copierStake = 0;
-                                if (copier.allocation_type === 'proportion') {
-                                    const userBalance = currencyPref === 'DEMO'
-                                        ? parseFloat(copier.demo_amount || 0)
-                                        : parseFloat(copier.real_amount || 0);
-                                    copierStake = (userBalance * percent) / 100;
-                                } else {
-                                    copierStake = body.buyPrice || 0;
-                                }
-                                copierStake = Math.round(copierStake * 100) / 100;
-                                if (copierStake <= 0) copierStake = 0.35;
-
-                                const entryTime = body.entryTime || Math.floor(Date.now() / 1000);
-
-                                // Executar trade para o copiador
-                                this.copyTradingService.executeCopierTrade(copier.user_id, {
-                                    symbol: body.symbol,
-                                    contractType: body.contractType || 'CALL',
-                                    duration: body.duration || 1,
-                                    durationUnit: body.durationUnit || 'm',
-                                    stakeAmount: copierStake,
-                                    derivToken: copierToken,
-                                    barrier: body.barrier // Passado diretamente (undefined se não houver)
-                                }).then(async (copierContractId) => {
-                                    if (copierContractId) {
-                                        try {
-                                            await this.dataSource.query(
-                                                `INSERT INTO copy_trading_operations 
-                                                (session_id, user_id, trader_operation_id, operation_type, barrier, symbol, duration,
-                                                 stake_amount, result, profit, leverage, allocation_type, allocation_value,
-                                                 executed_at)
-                                                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, FROM_UNIXTIME(?))`,
-                                                [
-                                                    copier.session_id,
-                                                    copier.user_id,
-                                                    body.contractId,
-                                                    body.contractType || 'CALL',
-                                                    body.barrier,
-                                                    body.symbol,
-                                                    body.duration || 1,
-                                                    copierStake,
-                                                    'pending',
-                                                    0,
-                                                    '1x',
-                                                    copier.allocation_type,
-                                                    copier.allocation_value,
-                                                    entryTime
-                                                ]
-                                            );
-                                            await this.dataSource.query(
-                                                `UPDATE copy_trading_sessions 
-                                                SET total_operations = total_operations + 1, last_operation_at = NOW()
-                                                WHERE id = ?`,
-                                                [copier.session_id]
-                                            );
-                                        } catch (dbErr) {
-                                            this.logger.error(`[ManualTrade] Error saving copier operation: ${dbErr.message}`);
-                                        }
-                                    }
-                                }).catch(err => {
-                                    this.logger.error(`[ManualTrade] Execution error for copier ${copier.user_id}: ${err.message}`);
-                                });
-                            }
-                        }
-                    } catch (replErr) {
-                        this.logger.error(`[ManualTrade] Error in direct replication: ${replErr.message}`);
-                    }
+                    // Cada copiador abre o próprio contrato (filtros, limites do plano e liquidação pelo contrato)
+                    await this.copyTradingService.replicateTradeToFollowers(userId, {
+                        traderOperationId: savedTrade.id,
+                        contractId: String(body.contractId),
+                        contractType: body.contractType || 'CALL',
+                        symbol: body.symbol,
+                        duration: body.duration || 1,
+                        durationUnit: body.durationUnit || 'm',
+                        barrier: body.barrier, // Passado diretamente (undefined se não houver)
+                        stakeAmount: body.buyPrice || 0,
+                        buyPrice: body.buyPrice || 0,
+                        payout: body.payout ? Number(body.payout) : null,
+                        spot: body.entrySpot ? Number(body.entrySpot) : null,
+                        stakePercent: percent,
+                        filledAt: body.entryTime ? new Date(body.entryTime * 1000) : new Date(),
+                    });
                 }
             } catch (err) {
                 this.logger.error(`[ManualTrade] Error in master replication: ${err.message}`);
@@ -232,6 +149,7 @@ export class ManualTradeController {
             }
 
             const savedTrade = await this.tradeRepository.save(trade);
+            this.tradeLedger?.sync('manual', savedTrade.id);
             this.logger.log(`[ManualTrade] Trade result updated: ${savedTrade.id}, result: ${savedTrade.status}`);
 
             // Atualizar estatísticas de copy trading se master
@@ -253,14 +171,6 @@ export class ManualTradeController {
                     } catch (dbErr) {
                         this.logger.error(`[ManualTrade] Error updating master_trader_operations: ${dbErr.message}`);
                     }
-
-                    await this.copyTradingService.updateCopyTradingOperationsResult(
-                        userId,
-                        contractId,
-                        result,
-                        Number(trade.profit || 0),
-                        Number(trade.entryValue || 0)
-                    );
                 }
             } catch (err) {
                 this.logger.error(`[ManualTrade] Error updating master stats: ${err.message}`);
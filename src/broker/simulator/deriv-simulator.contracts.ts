@@ -0,0 +1,149 @@
+import { extractLastDigit } from '../../utils/tick.utils';
+import { SimulatedTick } from './deriv-simulator.types';
+
+/**
+ * Regras de liquidação do simulador
+ *
+ * - Entrada: primeiro tick gerado após a compra.
+ * - Saída: duração em ticks ('t') = N-ésimo tick após a entrada; duração em tempo (s/m/h/d) =
+ *   primeiro tick com epoch >= epoch de entrada + duração.
+ * - CALL/PUT comparam a cotação de saída com a de entrada (empate = perda).
+ * - Contratos de dígito usam o último dígito do tick de saída.
+ * - Payout = stake * PAYOUT_FACTOR / probabilidade de ganho (CALL/PUT e par/ímpar pagam 95%).
+ */
+export const SIMULATOR_CONTRACT_TYPES = [
+  'CALL',
+  'PUT',
+  'DIGITEVEN',
+  'DIGITODD',
+  'DIGITOVER',
+  'DIGITUNDER',
+  'DIGITMATCH',
+  'DIGITDIFF',
+];
+
+export const BARRIER_CONTRACT_TYPES = [
+  'DIGITOVER',
+  'DIGITUNDER',
+  'DIGITMATCH',
+  'DIGITDIFF',
+];
+
+export const PAYOUT_FACTOR = 0.975;
+
+const DURATION_UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+export function isSupportedDurationUnit(unit: string): boolean {
+  return unit === 't' || unit in DURATION_UNIT_SECONDS;
+}
+
+export function durationToSeconds(duration: number, unit: string): number {
+  return duration * (DURATION_UNIT_SECONDS[unit] ?? 1);
+}
+
+/**
+ * Valida a barreira de contratos de dígito; retorna mensagem de erro ou null
+ */
+export function validateBarrier(
+  contractType: string,
+  barrier?: string | number,
+): string | null {
+  if (!BARRIER_CONTRACT_TYPES.includes(contractType)) return null;
+
+  const digit = Number(barrier);
+  if (barrier === undefined || barrier === '' || !Number.isInteger(digit)) {
+    return `Contract type ${contractType} requires a digit barrier`;
+  }
+  if (contractType === 'DIGITOVER' && (digit < 0 || digit > 8)) {
+    return 'Barrier for DIGITOVER must be between 0 and 8';
+  }
+  if (contractType === 'DIGITUNDER' && (digit < 1 || digit > 9)) {
+    return 'Barrier for DIGITUNDER must be between 1 and 9';
+  }
+  if (digit < 0 || digit > 9) {
+    return 'Barrier must be a digit between 0 and 9';
+  }
+  return null;
+}
+
+export function winProbability(
+  contractType: string,
+  barrier?: string | number,
+): number {
+  const digit = Number(barrier);
+  switch (contractType) {
+    case 'DIGITOVER':
+      return (9 - digit) / 10;
+    case 'DIGITUNDER':
+      return digit / 10;
+    case 'DIGITMATCH':
+      return 0.1;
+    case 'DIGITDIFF':
+      return 0.9;
+    default:
+      return 0.5;
+  }
+}
+
+export function calculatePayout(
+  stake: number,
+  contractType: string,
+  barrier?: string | number,
+): number {
+  return Number(
+    ((stake * PAYOUT_FACTOR) / winProbability(contractType, barrier)).toFixed(
+      2,
+    ),
+  );
+}
+
+/**
+ * Stake necessário para um payout desejado (basis = 'payout')
+ */
+export function calculateStakeForPayout(
+  payout: number,
+  contractType: string,
+  barrier?: string | number,
+): number {
+  return Number(
+    ((payout * winProbability(contractType, barrier)) / PAYOUT_FACTOR).toFixed(
+      2,
+    ),
+  );
+}
+
+export function isWinningContract(
+  contractType: string,
+  barrier: string | number | undefined,
+  entry: SimulatedTick,
+  exit: SimulatedTick,
+): boolean {
+  const digit = extractLastDigit(exit.quote, exit.symbol);
+  const barrierDigit = Number(barrier);
+
+  switch (contractType) {
+    case 'CALL':
+      return exit.quote > entry.quote;
+    case 'PUT':
+      return exit.quote < entry.quote;
+    case 'DIGITEVEN':
+      return digit % 2 === 0;
+    case 'DIGITODD':
+      return digit % 2 === 1;
+    case 'DIGITOVER':
+      return digit > barrierDigit;
+    case 'DIGITUNDER':
+      return digit < barrierDigit;
+    case 'DIGITMATCH':
+      return digit === barrierDigit;
+    case 'DIGITDIFF':
+      return digit !== barrierDigit;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,163 @@
+import { getSymbolDecimals } from '../../utils/tick.utils';
+import { SimulatedTick } from './deriv-simulator.types';
+
+export interface SimulatedSymbol {
+  displayName: string;
+  basePrice: number;
+  volatility: number; // índice de volatilidade (10, 25, 50, 75, 100)
+}
+
+/**
+ * Índices sintéticos disponíveis no simulador
+ */
+export const SIMULATOR_SYMBOLS: Record<string, SimulatedSymbol> = {
+  R_10: { displayName: 'Volatility 10 Index', basePrice: 6500, volatility: 10 },
+  R_25: { displayName: 'Volatility 25 Index', basePrice: 2800, volatility: 25 },
+  R_50: { displayName: 'Volatility 50 Index', basePrice: 210, volatility: 50 },
+  R_75: {
+    displayName: 'Volatility 75 Index',
+    basePrice: 48000,
+    volatility: 75,
+  },
+  R_100: {
+    displayName: 'Volatility 100 Index',
+    basePrice: 1250,
+    volatility: 100,
+  },
+  '1HZ10V': {
+    displayName: 'Volatility 10 (1s) Index',
+    basePrice: 9200,
+    volatility: 10,
+  },
+  '1HZ25V': {
+    displayName: 'Volatility 25 (1s) Index',
+    basePrice: 650000,
+    volatility: 25,
+  },
+  '1HZ50V': {
+    displayName: 'Volatility 50 (1s) Index',
+    basePrice: 180,
+    volatility: 50,
+  },
+  '1HZ75V': {
+    displayName: 'Volatility 75 (1s) Index',
+    basePrice: 4100,
+    volatility: 75,
+  },
+  '1HZ100V': {
+    displayName: 'Volatility 100 (1s) Index',
+    basePrice: 930,
+    volatility: 100,
+  },
+};
+
+/**
+ * PRNG determinístico (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashSymbol(symbol: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = Math.imul(hash ^ symbol.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mercado simulado: passeio aleatório determinístico por símbolo.
+ *
+ * Cada chamada de advance() gera um tick para todos os símbolos com epoch + 1.
+ * A mesma semente produz sempre a mesma sequência de cotações.
+ */
+export class SimulatedMarket {
+  private readonly history = new Map<string, SimulatedTick[]>();
+  private readonly random = new Map<string, () => number>();
+  private readonly maxHistory: number;
+  private epoch: number;
+
+  constructor(seed: number, startEpoch: number, historySize: number) {
+    this.maxHistory = Math.max(historySize, 5000);
+    this.epoch = startEpoch - historySize;
+
+    for (const [symbol, config] of Object.entries(SIMULATOR_SYMBOLS)) {
+      this.random.set(symbol, createRandom(seed ^ hashSymbol(symbol)));
+      this.history.set(symbol, [
+        { symbol, quote: config.basePrice, epoch: this.epoch },
+      ]);
+    }
+
+    for (let i = 0; i < historySize; i++) {
+      this.advance();
+    }
+  }
+
+  get currentEpoch(): number {
+    return this.epoch;
+  }
+
+  isKnown(symbol: string): boolean {
+    return symbol in SIMULATOR_SYMBOLS;
+  }
+
+  symbols(): string[] {
+    return Object.keys(SIMULATOR_SYMBOLS);
+  }
+
+  latest(symbol: string): SimulatedTick | undefined {
+    const ticks = this.history.get(symbol);
+    return ticks ? ticks[ticks.length - 1] : undefined;
+  }
+
+  /**
+   * Últimos `count` ticks até `end` (inclusive), em ordem cronológica
+   */
+  getHistory(
+    symbol: string,
+    count: number,
+    end?: number,
+    start?: number,
+  ): SimulatedTick[] {
+    const ticks = (this.history.get(symbol) || []).filter(
+      (tick) =>
+        (end === undefined || tick.epoch <= end) &&
+        (start === undefined || tick.epoch >= start),
+    );
+    return ticks.slice(-Math.max(count, 1));
+  }
+
+  advance(): SimulatedTick[] {
+    this.epoch += 1;
+    const generated: SimulatedTick[] = [];
+
+    for (const [symbol, config] of Object.entries(SIMULATOR_SYMBOLS)) {
+      const ticks = this.history.get(symbol)!;
+      const previous = ticks[ticks.length - 1];
+      const decimals = getSymbolDecimals(symbol);
+      // Passo proporcional ao índice de volatilidade (em relação ao preço base)
+      const step = config.basePrice * (config.volatility / 100) * 0.0005;
+      const delta = (this.random.get(symbol)!() - 0.5) * 2 * step;
+      const quote = Number(
+        Math.max(previous.quote + delta, step).toFixed(decimals),
+      );
+
+      const tick = { symbol, quote, epoch: this.epoch };
+      ticks.push(tick);
+      if (ticks.length > this.maxHistory) {
+        ticks.shift();
+      }
+      generated.push(tick);
+    }
+
+    return generated;
+  }
+}
@@ -0,0 +1,1138 @@
+import { Logger } from '@nestjs/common';
+import WebSocket, { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { getSymbolDecimals } from '../../utils/tick.utils';
+import { SIMULATOR_SYMBOLS, SimulatedMarket } from './deriv-simulator.market';
+import {
+  SIMULATOR_CONTRACT_TYPES,
+  calculatePayout,
+  calculateStakeForPayout,
+  durationToSeconds,
+  isSupportedDurationUnit,
+  isWinningContract,
+  validateBarrier,
+} from './deriv-simulator.contracts';
+import {
+  DerivSimulatorOptions,
+  SimulatedAccount,
+  SimulatedContract,
+  SimulatedMarkupTransaction,
+  SimulatedProposal,
+  SimulatedTick,
+} from './deriv-simulator.types';
+
+type SubscriptionKind =
+  | 'ticks'
+  | 'proposal'
+  | 'proposal_open_contract'
+  | 'balance';
+
+interface ClientSubscription {
+  id: string;
+  kind: SubscriptionKind;
+  request: any;
+  symbol?: string;
+  contractId?: number;
+  proposal?: SimulatedProposal;
+}
+
+interface SimulatorClient {
+  ws: WebSocket;
+  account?: SimulatedAccount;
+  subscriptions: Map<string, ClientSubscription>;
+}
+
+class SimulatorError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const MIN_STAKE = 0.35;
+const MAX_TICK_DURATION = 10;
+
+/**
+ * Simulador local da API WebSocket da Deriv (em processo)
+ *
+ * Implementa o subconjunto do protocolo usado pelo backend: authorize, ticks, ticks_history,
+ * proposal, buy, proposal_open_contract, balance, forget/forget_all, active_symbols,
+ * contracts_for, app_markup_details/app_markup_statistics, time e ping.
+ *
+ * Ticks são determinísticos (semente) e gerados por advance() ou a cada tickIntervalMs;
+ * contratos são liquidados pelas regras de deriv-simulator.contracts.ts.
+ * Qualquer token é aceito (contas criadas sob demanda: token contendo 'demo' = conta virtual),
+ * exceto tokens iniciados por 'invalid'.
+ *
+ * Uso: DERIV_SIMULATOR=true (main.ts) ou, em testes, start() + DERIV_WS_URL = url retornada.
+ */
+export class DerivSimulatorServer {
+  private readonly logger = new Logger(DerivSimulatorServer.name);
+  private readonly options: Required<Omit<DerivSimulatorOptions, 'accounts'>>;
+  private readonly market: SimulatedMarket;
+  private readonly accounts = new Map<string, SimulatedAccount>();
+  private readonly proposals = new Map<string, SimulatedProposal>();
+  private readonly contracts = new Map<number, SimulatedContract>();
+  private readonly markupTransactions: SimulatedMarkupTransaction[] = [];
+  private readonly clients = new Set<SimulatorClient>();
+  private server?: WebSocketServer;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private serverUrl: string | null = null;
+  private nextId = 1;
+  private nextContractId = 100000;
+  private nextTransactionId = 500000;
+  private nextUserId = 9000000;
+
+  constructor(options: DerivSimulatorOptions = {}) {
+    this.options = {
+      host: options.host ?? '127.0.0.1',
+      port: options.port ?? 0,
+      seed: options.seed ?? 42,
+      tickIntervalMs: options.tickIntervalMs ?? 0,
+      startEpoch: options.startEpoch ?? Math.floor(Date.now() / 1000),
+      historySize: options.historySize ?? 1000,
+      defaultBalance: options.defaultBalance ?? 10000,
+      markupPercentage: options.markupPercentage ?? 1,
+      appId: options.appId ?? Number(process.env.DERIV_APP_ID || 111346),
+    };
+    this.market = new SimulatedMarket(
+      this.options.seed,
+      this.options.startEpoch,
+      this.options.historySize,
+    );
+
+    for (const [token, config] of Object.entries(options.accounts || {})) {
+      this.createAccount(token, config);
+    }
+  }
+
+  /**
+   * URL base do simulador (para DERIV_WS_URL)
+   */
+  get url(): string {
+    if (!this.serverUrl) {
+      throw new Error('Simulador Deriv não iniciado');
+    }
+    return this.serverUrl;
+  }
+
+  async start(): Promise<string> {
+    if (this.serverUrl) return this.serverUrl;
+
+    const server = new WebSocketServer({
+      host: this.options.host,
+      port: this.options.port,
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', () => resolve());
+      server.once('error', reject);
+    });
+
+    server.on('connection', (ws) => this.handleConnection(ws));
+    this.server = server;
+
+    const { port } = server.address() as AddressInfo;
+    this.serverUrl = `ws://${this.options.host}:${port}/websockets/v3`;
+
+    if (this.options.tickIntervalMs > 0) {
+      this.tickTimer = setInterval(
+        () => this.advance(),
+        this.options.tickIntervalMs,
+      );
+      this.tickTimer.unref();
+    }
+
+    this.logger.log(
+      `[DerivSimulator] ✅ Simulador ouvindo em ${this.serverUrl}`,
+    );
+    return this.serverUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    for (const client of this.clients) {
+      client.ws.terminate();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    this.serverUrl = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Gera `count` ticks para todos os símbolos, atualizando assinaturas e contratos abertos
+   */
+  advance(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      const ticks = this.market.advance();
+      const touchedAccounts = new Set<string>();
+
+      for (const contract of this.contracts.values()) {
+        if (contract.status !== 'open') continue;
+        const tick = ticks.find((t) => t.symbol === contract.symbol);
+        if (tick && this.updateContract(contract, tick)) {
+          touchedAccounts.add(contract.loginid);
+        }
+      }
+
+      for (const client of this.clients) {
+        for (const subscription of client.subscriptions.values()) {
+          this.pushSubscriptionUpdate(client, subscription, ticks);
+        }
+      }
+
+      for (const loginid of touchedAccounts) {
+        this.pushBalance(loginid);
+      }
+    }
+  }
+
+  getAccount(token: string): SimulatedAccount | undefined {
+    return this.accounts.get(token);
+  }
+
+  setBalance(token: string, balance: number): void {
+    const account = this.accounts.get(token) || this.createAccount(token);
+    account.balance = balance;
+    this.pushBalance(account.loginid);
+  }
+
+  getContract(contractId: number | string): SimulatedContract | undefined {
+    return this.contracts.get(Number(contractId));
+  }
+
+  getContracts(): SimulatedContract[] {
+    return Array.from(this.contracts.values());
+  }
+
+  getLatestTick(symbol: string): SimulatedTick | undefined {
+    return this.market.latest(symbol);
+  }
+
+  /**
+   * Derruba as conexões abertas (mantém o servidor no ar) para testar reconexão dos clientes
+   */
+  dropConnections(): void {
+    for (const client of this.clients) {
+      client.ws.terminate();
+    }
+    this.clients.clear();
+  }
+
+  get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const client: SimulatorClient = { ws, subscriptions: new Map() };
+    this.clients.add(client);
+
+    ws.on('message', (data: WebSocket.RawData) => {
+      let request: any;
+      try {
+        request = JSON.parse(data.toString());
+      } catch {
+        this.send(client, {
+          error: { code: 'InputValidationFailed', message: 'Invalid JSON' },
+          msg_type: 'error',
+        });
+        return;
+      }
+
+      try {
+        this.handleRequest(client, request);
+      } catch (error) {
+        const code =
+          error instanceof SimulatorError ? error.code : 'InternalServerError';
+        this.reply(client, request, this.getMsgType(request), {
+          error: { code, message: error.message },
+        });
+      }
+    });
+
+    ws.on('close', () => this.clients.delete(client));
+    ws.on('error', () => this.clients.delete(client));
+  }
+
+  private handleRequest(client: SimulatorClient, request: any): void {
+    const msgType = this.getMsgType(request);
+
+    switch (msgType) {
+      case 'ping':
+        return this.reply(client, request, 'ping', { ping: 'pong' });
+      case 'time':
+        return this.reply(client, request, 'time', {
+          time: this.market.currentEpoch,
+        });
+      case 'authorize':
+        return this.handleAuthorize(client, request);
+      case 'balance':
+        return this.handleBalance(client, request);
+      case 'ticks':
+        return this.handleTicks(client, request);
+      case 'ticks_history':
+        return this.handleTicksHistory(client, request);
+      case 'active_symbols':
+        return this.handleActiveSymbols(client, request);
+      case 'contracts_for':
+        return this.handleContractsFor(client, request);
+      case 'proposal':
+        return this.handleProposal(client, request);
+      case 'buy':
+        return this.handleBuy(client, request);
+      case 'proposal_open_contract':
+        return this.handleOpenContract(client, request);
+      case 'forget':
+        return this.handleForget(client, request);
+      case 'forget_all':
+        return this.handleForgetAll(client, request);
+      case 'app_markup_details':
+        return this.handleMarkupDetails(client, request);
+      case 'app_markup_statistics':
+        return this.handleMarkupStatistics(client, request);
+      default:
+        throw new SimulatorError(
+          'UnrecognisedRequest',
+          'Unrecognised request (not supported by the Deriv simulator)',
+        );
+    }
+  }
+
+  private getMsgType(request: any): string {
+    const known = [
+      'ping',
+      'time',
+      'authorize',
+      'balance',
+      'ticks_history',
+      'ticks',
+      'active_symbols',
+      'contracts_for',
+      'proposal_open_contract',
+      'proposal',
+      'buy',
+      'forget_all',
+      'forget',
+      'app_markup_details',
+      'app_markup_statistics',
+    ];
+    return (
+      known.find((key) => request && request[key] !== undefined) || 'error'
+    );
+  }
+
+  // ----- Contas -----
+
+  private handleAuthorize(client: SimulatorClient, request: any): void {
+    const token = String(request.authorize || '');
+    if (!token || token.toLowerCase().startsWith('invalid')) {
+      throw new SimulatorError('InvalidToken', 'The token is invalid.');
+    }
+
+    const account = this.accounts.get(token) || this.createAccount(token);
+    client.account = account;
+
+    this.reply(client, request, 'authorize', {
+      authorize: {
+        account_list: [
+          {
+            account_type: 'trading',
+            currency: account.currency,
+            is_disabled: 0,
+            is_virtual: account.isVirtual ? 1 : 0,
+            landing_company_name: account.isVirtual ? 'virtual' : 'svg',
+            loginid: account.loginid,
+          },
+        ],
+        balance: account.balance,
+        country: 'br',
+        currency: account.currency,
+        email: `${account.loginid.toLowerCase()}@simulator.local`,
+        fullname: `Simulator ${account.loginid}`,
+        is_virtual: account.isVirtual ? 1 : 0,
+        landing_company_fullname: account.isVirtual
+          ? 'Deriv Limited'
+          : 'Deriv (SVG) LLC',
+        landing_company_name: account.isVirtual ? 'virtual' : 'svg',
+        loginid: account.loginid,
+        scopes: ['read', 'trade', 'trading_information', 'payments', 'admin'],
+        user_id: account.userId,
+      },
+    });
+  }
+
+  private handleBalance(client: SimulatorClient, request: any): void {
+    const account = this.requireAccount(client);
+    const body: any = { balance: this.buildBalance(account) };
+
+    if (request.account === 'all') {
+      body.balance.accounts = {
+        [account.loginid]: {
+          balance: account.balance,
+          converted_amount: account.balance,
+          currency: account.currency,
+          demo_account: account.isVirtual ? 1 : 0,
+          status: 1,
+          type: 'deriv',
+        },
+      };
+      body.balance.total = {
+        deriv: { amount: account.balance, currency: account.currency },
+      };
+    }
+
+    if (request.subscribe) {
+      const subscription = this.addSubscription(client, 'balance', request);
+      body.subscription = { id: subscription.id };
+      body.balance.id = subscription.id;
+    }
+
+    this.reply(client, request, 'balance', body);
+  }
+
+  private createAccount(
+    token: string,
+    config: Partial<SimulatedAccount> = {},
+  ): SimulatedAccount {
+    const isVirtual = config.isVirtual ?? token.toLowerCase().includes('demo');
+    const userId = this.nextUserId++;
+    const account: SimulatedAccount = {
+      token,
+      userId,
+      loginid: config.loginid ?? `${isVirtual ? 'VRTC' : 'CR'}${userId}`,
+      currency: config.currency ?? 'USD',
+      balance: config.balance ?? this.options.defaultBalance,
+      isVirtual,
+    };
+    this.accounts.set(token, account);
+    return account;
+  }
+
+  private requireAccount(client: SimulatorClient): SimulatedAccount {
+    if (!client.account) {
+      throw new SimulatorError('AuthorizationRequired', 'Please log in.');
+    }
+    return client.account;
+  }
+
+  private buildBalance(account: SimulatedAccount): any {
+    return {
+      balance: Number(account.balance.toFixed(2)),
+      currency: account.currency,
+      loginid: account.loginid,
+    };
+  }
+
+  private pushBalance(loginid: string): void {
+    for (const client of this.clients) {
+      if (client.account?.loginid !== loginid) continue;
+      for (const subscription of client.subscriptions.values()) {
+        if (subscription.kind !== 'balance') continue;
+        this.reply(client, subscription.request, 'balance', {
+          balance: {
+            ...this.buildBalance(client.account),
+            id: subscription.id,
+          },
+          subscription: { id: subscription.id },
+        });
+      }
+    }
+  }
+
+  // ----- Mercado -----
+
+  private handleTicks(client: SimulatorClient, request: any): void {
+    const symbol = this.requireSymbol(request.ticks);
+    const body: any = {
+      tick: this.buildTick(this.market.latest(symbol)!),
+    };
+
+    if (request.subscribe) {
+      const subscription = this.addSubscription(client, 'ticks', request);
+      subscription.symbol = symbol;
+      body.subscription = { id: subscription.id };
+      body.tick.id = subscription.id;
+    }
+
+    this.reply(client, request, 'tick', body);
+  }
+
+  private handleTicksHistory(client: SimulatorClient, request: any): void {
+    const symbol = this.requireSymbol(request.ticks_history);
+    if (request.style && request.style !== 'ticks') {
+      throw new SimulatorError(
+        'InputValidationFailed',
+        'The Deriv simulator only supports style "ticks"',
+      );
+    }
+
+    const count = Math.min(Number(request.count) || 5000, 5000);
+    const end =
+      request.end && request.end !== 'latest' ? Number(request.end) : undefined;
+    const start = request.start ? Number(request.start) : undefined;
+    const ticks = this.market.getHistory(symbol, count, end, start);
+
+    const body: any = {
+      history: {
+        prices: ticks.map((tick) => tick.quote),
+        times: ticks.map((tick) => tick.epoch),
+      },
+      pip_size: getSymbolDecimals(symbol),
+    };
+
+    if (request.subscribe) {
+      const subscription = this.addSubscription(client, 'ticks', request);
+      subscription.symbol = symbol;
+      body.subscription = { id: subscription.id };
+    }
+
+    this.reply(client, request, 'history', body);
+  }
+
+  private handleActiveSymbols(client: SimulatorClient, request: any): void {
+    const activeSymbols = Object.entries(SIMULATOR_SYMBOLS).map(
+      ([symbol, config]) => {
+        const decimals = getSymbolDecimals(symbol);
+        return {
+          allow_forward_starting: 0,
+          display_decimals: decimals,
+          display_name: config.displayName,
+          display_order: 1,
+          exchange_is_open: 1,
+          is_trading_suspended: 0,
+          market: 'synthetic_index',
+          market_display_name: 'Derived',
+          pip: Math.pow(10, -decimals),
+          subgroup: 'synthetics',
+          subgroup_display_name: 'Synthetics',
+          submarket: 'random_index',
+          submarket_display_name: 'Continuous Indices',
+          symbol,
+          symbol_type: 'stockindex',
+          spot: this.market.latest(symbol)?.quote,
+          spot_time: String(this.market.currentEpoch),
+        };
+      },
+    );
+
+    this.reply(client, request, 'active_symbols', {
+      active_symbols: activeSymbols,
+    });
+  }
+
+  private handleContractsFor(client: SimulatorClient, request: any): void {
+    const symbol = this.requireSymbol(request.contracts_for);
+    const isDigit = (type: string) => type.startsWith('DIGIT');
+
+    const available = SIMULATOR_CONTRACT_TYPES.map((contractType) => ({
+      barrier_category: isDigit(contractType) ? 'non_financial' : 'euro_atm',
+      barriers: ['DIGITEVEN', 'DIGITODD', 'CALL', 'PUT'].includes(contractType)
+        ? 0
+        : 1,
+      contract_category: isDigit(contractType)
+        ? contractType === 'DIGITEVEN' || contractType === 'DIGITODD'
+          ? 'evenodd'
+          : contractType === 'DIGITMATCH' || contractType === 'DIGITDIFF'
+            ? 'digits'
+            : 'overunder'
+        : 'callput',
+      contract_display: contractType,
+      contract_type: contractType,
+      exchange_name: 'RANDOM',
+      expiry_type: isDigit(contractType) ? 'tick' : 'intraday',
+      market: 'synthetic_index',
+      max_contract_duration: isDigit(contractType) ? '10t' : '1d',
+      min_contract_duration: '1t',
+      sentiment: contractType.toLowerCase(),
+      start_type: 'spot',
+      submarket: 'random_index',
+      underlying_symbol: symbol,
+    }));
+
+    this.reply(client, request, 'contracts_for', {
+      contracts_for: {
+        available,
+        close: 0,
+        feed_license: 'realtime',
+        hit_count: available.length,
+        open: 0,
+        spot: this.market.latest(symbol)?.quote,
+      },
+    });
+  }
+
+  private requireSymbol(symbol: any): string {
+    if (typeof symbol !== 'string' || !this.market.isKnown(symbol)) {
+      throw new SimulatorError('InvalidSymbol', `Symbol ${symbol} is invalid.`);
+    }
+    return symbol;
+  }
+
+  private buildTick(tick: SimulatedTick): any {
+    const decimals = getSymbolDecimals(tick.symbol);
+    return {
+      ask: tick.quote,
+      bid: tick.quote,
+      epoch: tick.epoch,
+      pip_size: decimals,
+      quote: tick.quote,
+      symbol: tick.symbol,
+    };
+  }
+
+  // ----- Contratos -----
+
+  private handleProposal(client: SimulatorClient, request: any): void {
+    const proposal = this.createProposal(
+      request,
+      client.account?.currency ?? 'USD',
+    );
+    this.proposals.set(proposal.id, proposal);
+
+    const body: any = { proposal: this.buildProposal(proposal) };
+    if (request.subscribe) {
+      const subscription = this.addSubscription(client, 'proposal', request);
+      subscription.symbol = proposal.symbol;
+      subscription.proposal = proposal;
+      body.subscription = { id: subscription.id };
+    }
+
+    this.reply(client, request, 'proposal', body);
+  }
+
+  private createProposal(
+    params: any,
+    defaultCurrency: string,
+  ): SimulatedProposal {
+    const symbol = this.requireSymbol(
+      params.symbol ?? params.underlying_symbol,
+    );
+    const contractType = String(params.contract_type || '').toUpperCase();
+    if (!SIMULATOR_CONTRACT_TYPES.includes(contractType)) {
+      throw new SimulatorError(
+        'OfferingsValidationError',
+        `Trading is not offered for contract type ${params.contract_type}.`,
+      );
+    }
+
+    const duration = Number(params.duration);
+    const durationUnit = String(params.duration_unit || 't');
+    if (!Number.isInteger(duration) || duration < 1) {
+      throw new SimulatorError(
+        'ContractBuyValidationError',
+        'Duration must be a positive integer.',
+      );
+    }
+    if (!isSupportedDurationUnit(durationUnit)) {
+      throw new SimulatorError(
+        'ContractBuyValidationError',
+        `Duration unit ${durationUnit} is not supported.`,
+      );
+    }
+    if (durationUnit === 't' && duration > MAX_TICK_DURATION) {
+      throw new SimulatorError(
+        'ContractBuyValidationError',
+        `Maximum duration is ${MAX_TICK_DURATION} ticks.`,
+      );
+    }
+
+    const barrierError = validateBarrier(contractType, params.barrier);
+    if (barrierError) {
+      throw new SimulatorError('ContractBuyValidationError', barrierError);
+    }
+    const barrier =
+      params.barrier !== undefined ? String(params.barrier) : undefined;
+
+    const amount = Number(params.amount);
+    const stake =
+      params.basis === 'payout'
+        ? calculateStakeForPayout(amount, contractType, barrier)
+        : Number(amount.toFixed(2));
+    if (!Number.isFinite(stake) || stake < MIN_STAKE) {
+      throw new SimulatorError(
+        'ContractBuyValidationError',
+        `Stake must be at least ${MIN_STAKE}.`,
+      );
+    }
+
+    return {
+      id: this.generateId(),
+      symbol,
+      contractType,
+      barrier,
+      currency: params.currency || defaultCurrency,
+      askPrice: stake,
+      payout:
+        params.basis === 'payout'
+          ? amount
+          : calculatePayout(stake, contractType, barrier),
+      duration,
+      durationUnit,
+    };
+  }
+
+  private buildProposal(proposal: SimulatedProposal): any {
+    const spot = this.market.latest(proposal.symbol)!;
+    return {
+      ask_price: proposal.askPrice,
+      date_start: this.market.currentEpoch,
+      display_value: proposal.askPrice.toFixed(2),
+      id: proposal.id,
+      longcode: this.buildLongcode(proposal),
+      payout: proposal.payout,
+      spot: spot.quote,
+      spot_time: spot.epoch,
+    };
+  }
+
+  private handleBuy(client: SimulatorClient, request: any): void {
+    const account = this.requireAccount(client);
+
+    let proposal: SimulatedProposal | undefined;
+    if (request.parameters) {
+      proposal = this.createProposal(request.parameters, account.currency);
+    } else {
+      proposal = this.proposals.get(String(request.buy));
+      if (!proposal) {
+        throw new SimulatorError(
+          'InvalidContractProposal',
+          'Unknown contract proposal',
+        );
+      }
+      this.proposals.delete(proposal.id);
+    }
+
+    const price = Number(request.price);
+    if (Number.isFinite(price) && price < proposal.askPrice) {
+      throw new SimulatorError(
+        'PriceMoved',
+        'The underlying market has moved too much since you priced the contract.',
+      );
+    }
+    if (account.balance < proposal.askPrice) {
+      throw new SimulatorError(
+        'InsufficientBalance',
+        `Your account balance (${account.balance.toFixed(2)} ${account.currency}) is insufficient to buy this contract (${proposal.askPrice.toFixed(2)} ${account.currency}).`,
+      );
+    }
+
+    account.balance = Number((account.balance - proposal.askPrice).toFixed(2));
+    const contract: SimulatedContract = {
+      contractId: this.nextContractId++,
+      buyTransactionId: this.nextTransactionId++,
+      loginid: account.loginid,
+      symbol: proposal.symbol,
+      contractType: proposal.contractType,
+      barrier: proposal.barrier,
+      currency: proposal.currency,
+      buyPrice: proposal.askPrice,
+      payout: proposal.payout,
+      duration: proposal.duration,
+      durationUnit: proposal.durationUnit,
+      purchaseTime: this.market.currentEpoch,
+      ticksAfterEntry: 0,
+      status: 'open',
+    };
+    this.contracts.set(contract.contractId, contract);
+    this.recordMarkup(account, contract);
+
+    this.reply(client, request, 'buy', {
+      buy: {
+        balance_after: account.balance,
+        buy_price: contract.buyPrice,
+        contract_id: contract.contractId,
+        longcode: this.buildLongcode(proposal),
+        payout: contract.payout,
+        purchase_time: contract.purchaseTime,
+        shortcode: this.buildShortcode(contract),
+        start_time: contract.purchaseTime,
+        transaction_id: contract.buyTransactionId,
+      },
+    });
+    this.pushBalance(account.loginid);
+  }
+
+  private handleOpenContract(client: SimulatorClient, request: any): void {
+    const account = this.requireAccount(client);
+    const contractId = request.contract_id
+      ? Number(request.contract_id)
+      : undefined;
+
+    if (contractId !== undefined) {
+      const contract = this.contracts.get(contractId);
+      if (!contract || contract.loginid !== account.loginid) {
+        throw new SimulatorError(
+          'InvalidContractId',
+          'Contract not found for this account.',
+        );
+      }
+    }
+
+    let subscription: ClientSubscription | undefined;
+    if (request.subscribe) {
+      subscription = this.addSubscription(
+        client,
+        'proposal_open_contract',
+        request,
+      );
+      subscription.contractId = contractId;
+    }
+
+    const contracts =
+      contractId !== undefined
+        ? [this.contracts.get(contractId)!]
+        : Array.from(this.contracts.values()).filter(
+            (c) => c.loginid === account.loginid && c.status === 'open',
+          );
+
+    if (contracts.length === 0) {
+      this.reply(client, request, 'proposal_open_contract', {
+        proposal_open_contract: {},
+        ...(subscription ? { subscription: { id: subscription.id } } : {}),
+      });
+      return;
+    }
+
+    for (const contract of contracts) {
+      this.reply(client, request, 'proposal_open_contract', {
+        proposal_open_contract: this.buildOpenContract(contract),
+        ...(subscription ? { subscription: { id: subscription.id } } : {}),
+      });
+    }
+
+    // Contrato já encerrado: stream termina na primeira mensagem
+    if (
+      subscription &&
+      contractId !== undefined &&
+      this.contracts.get(contractId)!.status !== 'open'
+    ) {
+      client.subscriptions.delete(subscription.id);
+    }
+  }
+
+  /**
+   * Atualiza o contrato com o novo tick; retorna true se foi liquidado
+   */
+  private updateContract(
+    contract: SimulatedContract,
+    tick: SimulatedTick,
+  ): boolean {
+    contract.currentTick = tick;
+
+    if (!contract.entryTick) {
+      contract.entryTick = tick;
+      return false;
+    }
+
+    contract.ticksAfterEntry += 1;
+    const expired =
+      contract.durationUnit === 't'
+        ? contract.ticksAfterEntry >= contract.duration
+        : tick.epoch >=
+          contract.entryTick.epoch +
+            durationToSeconds(contract.duration, contract.durationUnit);
+    if (!expired) return false;
+
+    const won = isWinningContract(
+      contract.contractType,
+      contract.barrier,
+      contract.entryTick,
+      tick,
+    );
+    contract.exitTick = tick;
+    contract.status = won ? 'won' : 'lost';
+    contract.sellPrice = won ? contract.payout : 0;
+    contract.sellTime = tick.epoch;
+    contract.sellTransactionId = this.nextTransactionId++;
+
+    const account = Array.from(this.accounts.values()).find(
+      (a) => a.loginid === contract.loginid,
+    );
+    if (account && won) {
+      account.balance = Number((account.balance + contract.payout).toFixed(2));
+    }
+    return true;
+  }
+
+  private buildOpenContract(contract: SimulatedContract): any {
+    const settled = contract.status !== 'open';
+    const sellPrice = contract.sellPrice ?? 0;
+    const bidPrice = settled ? sellPrice : contract.buyPrice;
+    const profit = Number((bidPrice - contract.buyPrice).toFixed(2));
+    const current = contract.currentTick ?? this.market.latest(contract.symbol);
+
+    const payload: any = {
+      barrier: contract.barrier,
+      bid_price: bidPrice,
+      buy_price: contract.buyPrice,
+      contract_id: contract.contractId,
+      contract_type: contract.contractType,
+      currency: contract.currency,
+      current_spot: current?.quote,
+      current_spot_time: current?.epoch,
+      date_start: contract.purchaseTime,
+      display_name: SIMULATOR_SYMBOLS[contract.symbol]?.displayName,
+      is_expired: settled ? 1 : 0,
+      is_settleable: settled ? 1 : 0,
+      is_sold: settled ? 1 : 0,
+      is_valid_to_sell: 0,
+      longcode: this.buildLongcode(contract),
+      payout: contract.payout,
+      profit,
+      profit_percentage: Number(
+        ((profit / contract.buyPrice) * 100).toFixed(2),
+      ),
+      purchase_time: contract.purchaseTime,
+      shortcode: this.buildShortcode(contract),
+      status: contract.status,
+      transaction_ids: {
+        buy: contract.buyTransactionId,
+        ...(contract.sellTransactionId
+          ? { sell: contract.sellTransactionId }
+          : {}),
+      },
+      underlying: contract.symbol,
+    };
+
+    if (contract.durationUnit === 't') {
+      payload.tick_count = contract.duration;
+    }
+    if (contract.entryTick) {
+      payload.entry_spot = contract.entryTick.quote;
+      payload.entry_tick = contract.entryTick.quote;
+      payload.entry_tick_time = contract.entryTick.epoch;
+    }
+    if (contract.exitTick) {
+      payload.exit_tick = contract.exitTick.quote;
+      payload.exit_tick_time = contract.exitTick.epoch;
+      payload.sell_price = sellPrice;
+      payload.sell_spot = contract.exitTick.quote;
+      payload.sell_time = contract.sellTime;
+    }
+
+    return payload;
+  }
+
+  private buildLongcode(
+    contract: Pick<
+      SimulatedProposal,
+      'contractType' | 'symbol' | 'duration' | 'durationUnit' | 'barrier'
+    >,
+  ): string {
+    const barrier =
+      contract.barrier !== undefined ? ` ${contract.barrier}` : '';
+    return `Win payout if ${contract.contractType}${barrier} on ${contract.symbol} after ${contract.duration}${contract.durationUnit}.`;
+  }
+
+  private buildShortcode(contract: SimulatedContract): string {
+    return [
+      contract.contractType,
+      contract.symbol,
+      contract.payout,
+      contract.purchaseTime,
+      `${contract.duration}${contract.durationUnit.toUpperCase()}`,
+      contract.barrier ?? 'S0P',
+    ].join('_');
+  }
+
+  // ----- Markup -----
+
+  private recordMarkup(
+    account: SimulatedAccount,
+    contract: SimulatedContract,
+  ): void {
+    const markup = Number(
+      ((contract.buyPrice * this.options.markupPercentage) / 100).toFixed(4),
+    );
+    this.markupTransactions.push({
+      app_id: this.options.appId,
+      app_markup: markup,
+      app_markup_usd: markup,
+      app_markup_value: markup,
+      client_currcode: account.currency,
+      client_loginid: account.loginid,
+      description: this.buildShortcode(contract),
+      dev_currcode: 'USD',
+      dev_loginid: 'CR0000001',
+      transaction_id: contract.buyTransactionId,
+      transaction_time: this.formatDate(contract.purchaseTime),
+    });
+  }
+
+  private filterMarkup(request: any): SimulatedMarkupTransaction[] {
+    const from = request.date_from ? String(request.date_from) : '';
+    const to = request.date_to ? String(request.date_to) : '';
+    return this.markupTransactions.filter(
+      (tx) =>
+        (!from || tx.transaction_time >= from) &&
+        (!to || tx.transaction_time <= to),
+    );
+  }
+
+  private handleMarkupDetails(client: SimulatorClient, request: any): void {
+    this.requireAccount(client);
+    const offset = Number(request.offset) || 0;
+    const limit = Number(request.limit) || 1000;
+    const transactions = this.filterMarkup(request).slice(
+      offset,
+      offset + limit,
+    );
+
+    this.reply(client, request, 'app_markup_details', {
+      app_markup_details: { transactions },
+    });
+  }
+
+  private handleMarkupStatistics(client: SimulatorClient, request: any): void {
+    this.requireAccount(client);
+    const transactions = this.filterMarkup(request);
+    const total = Number(
+      transactions.reduce((sum, tx) => sum + tx.app_markup_usd, 0).toFixed(4),
+    );
+
+    this.reply(client, request, 'app_markup_statistics', {
+      app_markup_statistics: {
+        breakdown: [
+          {
+            app_id: this.options.appId,
+            app_markup_usd: total,
+            app_markup_value: total,
+            dev_currcode: 'USD',
+            transactions_count: transactions.length,
+          },
+        ],
+        total_app_markup_usd: total,
+        total_transactions_count: transactions.length,
+      },
+    });
+  }
+
+  private formatDate(epoch: number): string {
+    return new Date(epoch * 1000).toISOString().replace('T', ' ').slice(0, 19);
+  }
+
+  // ----- Assinaturas -----
+
+  private addSubscription(
+    client: SimulatorClient,
+    kind: SubscriptionKind,
+    request: any,
+  ): ClientSubscription {
+    const subscription: ClientSubscription = {
+      id: this.generateId(),
+      kind,
+      request,
+    };
+    client.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  private handleForget(client: SimulatorClient, request: any): void {
+    const removed = client.subscriptions.delete(String(request.forget));
+    this.reply(client, request, 'forget', { forget: removed ? 1 : 0 });
+  }
+
+  private handleForgetAll(client: SimulatorClient, request: any): void {
+    const types: string[] = Array.isArray(request.forget_all)
+      ? request.forget_all
+      : [request.forget_all];
+    const forgotten: string[] = [];
+
+    for (const subscription of Array.from(client.subscriptions.values())) {
+      if (types.includes(subscription.kind)) {
+        client.subscriptions.delete(subscription.id);
+        forgotten.push(subscription.id);
+      }
+    }
+
+    this.reply(client, request, 'forget_all', { forget_all: forgotten });
+  }
+
+  private pushSubscriptionUpdate(
+    client: SimulatorClient,
+    subscription: ClientSubscription,
+    ticks: SimulatedTick[],
+  ): void {
+    const subscriptionBody = { subscription: { id: subscription.id } };
+
+    if (subscription.kind === 'ticks') {
+      const tick = ticks.find((t) => t.symbol === subscription.symbol);
+      if (!tick) return;
+      this.reply(client, subscription.request, 'tick', {
+        tick: { ...this.buildTick(tick), id: subscription.id },
+        ...subscriptionBody,
+      });
+      return;
+    }
+
+    if (subscription.kind === 'proposal' && subscription.proposal) {
+      this.reply(client, subscription.request, 'proposal', {
+        proposal: this.buildProposal(subscription.proposal),
+        ...subscriptionBody,
+      });
+      return;
+    }
+
+    if (subscription.kind === 'proposal_open_contract') {
+      const contracts =
+        subscription.contractId !== undefined
+          ? [this.contracts.get(subscription.contractId)!]
+          : Array.from(this.contracts.values()).filter(
+              (c) =>
+                c.loginid === client.account?.loginid &&
+                (c.status === 'open' || c.sellTime === ticks[0]?.epoch),
+            );
+
+      for (const contract of contracts) {
+        this.reply(client, subscription.request, 'proposal_open_contract', {
+          proposal_open_contract: this.buildOpenContract(contract),
+          ...subscriptionBody,
+        });
+      }
+
+      // Deriv encerra o stream de um contrato específico após a venda
+      if (
+        subscription.contractId !== undefined &&
+        contracts[0]?.status !== 'open'
+      ) {
+        client.subscriptions.delete(subscription.id);
+      }
+    }
+  }
+
+  // ----- Envio -----
+
+  private reply(
+    client: SimulatorClient,
+    request: any,
+    msgType: string,
+    body: Record<string, any>,
+  ): void {
+    this.send(client, {
+      echo_req: request,
+      ...(request?.req_id !== undefined ? { req_id: request.req_id } : {}),
+      msg_type: msgType,
+      ...body,
+    });
+  }
+
+  private send(client: SimulatorClient, message: any): void {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private generateId(): string {
+    const id = this.nextId++;
+    return `sim-${id.toString(16).padStart(8, '0')}-${this.options.seed}`;
+  }
+}
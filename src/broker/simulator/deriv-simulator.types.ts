@@ -0,0 +1,81 @@
+export interface DerivSimulatorAccountConfig {
+  loginid: string;
+  currency: string;
+  balance: number;
+  isVirtual: boolean;
+}
+
+export interface DerivSimulatorOptions {
+  host?: string; // padrão 127.0.0.1
+  port?: number; // 0 = porta livre (padrão)
+  seed?: number; // semente do gerador de ticks (mesma semente = mesma sequência)
+  tickIntervalMs?: number; // 0 = ticks apenas via advance() (padrão, testes)
+  startEpoch?: number; // epoch do último tick pré-gerado
+  historySize?: number; // ticks pré-gerados por símbolo
+  defaultBalance?: number; // saldo das contas criadas automaticamente
+  markupPercentage?: number; // % do stake registrado em app_markup_details
+  appId?: number;
+  accounts?: Record<string, Partial<DerivSimulatorAccountConfig>>; // token -> conta
+}
+
+export interface SimulatedAccount extends DerivSimulatorAccountConfig {
+  token: string;
+  userId: number;
+}
+
+export interface SimulatedTick {
+  symbol: string;
+  quote: number;
+  epoch: number;
+}
+
+export interface SimulatedProposal {
+  id: string;
+  symbol: string;
+  contractType: string;
+  barrier?: string;
+  currency: string;
+  askPrice: number;
+  payout: number;
+  duration: number;
+  durationUnit: string;
+}
+
+export type SimulatedContractStatus = 'open' | 'won' | 'lost';
+
+export interface SimulatedContract {
+  contractId: number;
+  buyTransactionId: number;
+  sellTransactionId?: number;
+  loginid: string;
+  symbol: string;
+  contractType: string;
+  barrier?: string;
+  currency: string;
+  buyPrice: number;
+  payout: number;
+  duration: number;
+  durationUnit: string;
+  purchaseTime: number;
+  entryTick?: SimulatedTick;
+  currentTick?: SimulatedTick;
+  exitTick?: SimulatedTick;
+  ticksAfterEntry: number;
+  status: SimulatedContractStatus;
+  sellPrice?: number;
+  sellTime?: number;
+}
+
+export interface SimulatedMarkupTransaction {
+  app_id: number;
+  app_markup: number;
+  app_markup_usd: number;
+  app_markup_value: number;
+  client_currcode: string;
+  client_loginid: string;
+  description: string;
+  dev_currcode: string;
+  dev_loginid: string;
+  transaction_id: number;
+  transaction_time: string; // YYYY-MM-DD HH:mm:ss (UTC)
+}
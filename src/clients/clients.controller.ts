@@ -1,11 +1,14 @@
 import { Controller, Get, Patch, Query, Body, Param, UseGuards } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 import { ClientsService } from './clients.service';
 import { ClientMetricsDto } from './dto/client-metrics.dto';
 import { ClientListResponseDto } from './dto/client-list.dto';
 
 @Controller('clients')
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
 export class ClientsController {
   constructor(private readonly clientsService: ClientsService) { }
 
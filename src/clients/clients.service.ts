@@ -5,6 +5,7 @@ import { UserEntity } from '../infrastructure/database/entities/user.entity';
 import { UserSessionEntity } from '../infrastructure/database/entities/user-session.entity';
 import { ClientMetricsDto } from './dto/client-metrics.dto';
 import { ClientDto, ClientListResponseDto } from './dto/client-list.dto';
+import { Role } from '../auth/roles';
 
 @Injectable()
 export class ClientsService {
@@ -352,7 +353,7 @@ export class ClientsService {
   }
 
   async updateUserRole(userId: string, role: string): Promise<{ success: boolean; message: string }> {
-    const validRoles = ['user', 'admin', 'master_trader', 'expert'];
+    const validRoles: string[] = Object.values(Role);
 
     if (!validRoles.includes(role)) {
       return { success: false, message: `Role inválida. Roles permitidas: ${validRoles.join(', ')}` };
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { getZonedParts } from '../utils/timezone.utils';
+
+/**
+ * Período de apuração (mês no fuso da plataforma), ex.: "2026-03"
+ */
+export function feePeriodOf(date: Date = new Date()): string {
+  const { year, month } = getZonedParts(date);
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Taxa de performance do copy trading (profit share).
+ *
+ * A sessão guarda o percentual vigente na ativação (experts.performance_fee_percent) e um
+ * high-water mark: só o lucro líquido acumulado acima do maior valor já tarifado gera taxa.
+ * Cada lançamento aponta para a operação que o gerou (copy_trading_operations.fee_amount) e
+ * é somado ao extrato mensal do mestre. O pagamento é feito manualmente por um admin.
+ */
+@Injectable()
+export class CopyTradingFeesService {
+  private readonly logger = new Logger(CopyTradingFeesService.name);
+
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  /**
+   * Lança a taxa da operação recém-encerrada, se o lucro da sessão superou o high-water mark.
+   * Deve ser chamado depois de atualizar total_profit da sessão. Retorna o valor lançado.
+   */
+  async accrue(sessionId: number, operationId: number): Promise<number> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        // Trava a sessão: resultados de contratos simultâneos não podem tarifar o mesmo lucro
+        const [session] = await manager.query(
+          `SELECT id, user_id, trader_id, total_profit, fee_percent, fee_high_water_mark
+           FROM copy_trading_sessions WHERE id = ? FOR UPDATE`,
+          [sessionId],
+        );
+        if (!session) return 0;
+
+        const feePercent = parseFloat(session.fee_percent) || 0;
+        const sessionProfit = parseFloat(session.total_profit) || 0;
+        const highWaterMark = parseFloat(session.fee_high_water_mark) || 0;
+        if (feePercent <= 0 || sessionProfit <= highWaterMark) return 0;
+
+        const feeAmount =
+          Math.round((sessionProfit - highWaterMark) * feePercent) / 100;
+        // Ganhos menores que um centavo de taxa continuam acumulando até o próximo lançamento
+        if (feeAmount <= 0) return 0;
+
+        const period = feePeriodOf();
+        await manager.query(
+          `INSERT INTO copy_trading_fee_statements (master_user_id, period, total_fees, accrual_count, status)
+           VALUES (?, ?, ?, 1, 'open')
+           ON DUPLICATE KEY UPDATE
+             total_fees = total_fees + VALUES(total_fees),
+             accrual_count = accrual_count + 1`,
+          [session.trader_id, period, feeAmount],
+        );
+        const [statement] = await manager.query(
+          `SELECT id FROM copy_trading_fee_statements WHERE master_user_id = ? AND period = ?`,
+          [session.trader_id, period],
+        );
+
+        await manager.query(
+          `INSERT INTO copy_trading_fee_accruals
+             (session_id, operation_id, follower_user_id, master_user_id, statement_id, period,
+              fee_percent, session_profit, previous_high_water_mark, new_high_water_mark, fee_amount)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            sessionId,
+            operationId,
+            session.user_id,
+            session.trader_id,
+            statement?.id ?? null,
+            period,
+            feePercent,
+            sessionProfit,
+            highWaterMark,
+            sessionProfit,
+            feeAmount,
+          ],
+        );
+        await manager.query(
+          `UPDATE copy_trading_operations SET fee_amount = ? WHERE id = ?`,
+          [feeAmount, operationId],
+        );
+        await manager.query(
+          `UPDATE copy_trading_sessions
+           SET fee_high_water_mark = ?, total_fees = total_fees + ?
+           WHERE id = ?`,
+          [sessionProfit, feeAmount, sessionId],
+        );
+
+        this.logger.log(
+          `[PerformanceFee] Sessão ${sessionId}, operação ${operationId}: taxa $${feeAmount.toFixed(2)} (${feePercent}% de $${(sessionProfit - highWaterMark).toFixed(2)} acima do HWM $${highWaterMark.toFixed(2)})`,
+        );
+        return feeAmount;
+      });
+    } catch (error) {
+      this.logger.error(
+        `[PerformanceFee] Erro ao lançar taxa da operação ${operationId} (sessão ${sessionId}): ${error.message}`,
+        error.stack,
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Fecha os extratos de meses encerrados (novas taxas sempre entram no mês corrente)
+   */
+  @Cron('10 0 * * *', { name: 'close-copy-trading-fee-statements' })
+  async closeEndedPeriods() {
+    try {
+      const result = await this.dataSource.query(
+        `UPDATE copy_trading_fee_statements SET status = 'closed'
+         WHERE status = 'open' AND period < ?`,
+        [feePeriodOf()],
+      );
+      if (result?.affectedRows) {
+        this.logger.log(
+          `[PerformanceFee] ${result.affectedRows} extrato(s) fechado(s) para pagamento`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `[PerformanceFee] Erro ao fechar extratos: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Extrato do trader mestre: totais por período e, para o período informado,
+   * a quebra por seguidor e os lançamentos (cada um ligado à sua operação)
+   */
+  async getMasterEarnings(masterUserId: string, period?: string) {
+    if (period && !PERIOD_PATTERN.test(period)) {
+      throw new BadRequestException('Período inválido. Use o formato AAAA-MM.');
+    }
+    const selectedPeriod = period || feePeriodOf();
+
+    const statements = await this.dataSource.query(
+      `SELECT * FROM copy_trading_fee_statements
+       WHERE master_user_id = ?
+       ORDER BY period DESC`,
+      [masterUserId],
+    );
+
+    const followers = await this.dataSource.query(
+      `SELECT a.follower_user_id, u.name AS follower_name,
+              COUNT(*) AS accruals, SUM(a.fee_amount) AS total_fees
+       FROM copy_trading_fee_accruals a
+       LEFT JOIN users u ON u.id = a.follower_user_id
+       WHERE a.master_user_id = ? AND a.period = ?
+       GROUP BY a.follower_user_id, u.name
+       ORDER BY total_fees DESC`,
+      [masterUserId, selectedPeriod],
+    );
+
+    const accruals = await this.dataSource.query(
+      `SELECT a.*, o.operation_type, o.symbol, o.profit AS operation_profit, o.contract_id
+       FROM copy_trading_fee_accruals a
+       LEFT JOIN copy_trading_operations o ON o.id = a.operation_id
+       WHERE a.master_user_id = ? AND a.period = ?
+       ORDER BY a.created_at DESC
+       LIMIT 500`,
+      [masterUserId, selectedPeriod],
+    );
+
+    const sum = (status?: string) =>
+      statements
+        .filter((s: any) => !status || s.status === status)
+        .reduce(
+          (total: number, s: any) => total + (parseFloat(s.total_fees) || 0),
+          0,
+        );
+
+    return {
+      summary: {
+        totalAccrued: Math.round(sum() * 100) / 100,
+        totalPaid: Math.round(sum('paid') * 100) / 100,
+        totalPending: Math.round((sum('open') + sum('closed')) * 100) / 100,
+      },
+      statements: statements.map((s: any) => this.mapStatement(s)),
+      period: selectedPeriod,
+      followers: followers.map((f: any) => ({
+        followerUserId: f.follower_user_id,
+        followerName: f.follower_name || null,
+        accruals: parseInt(f.accruals, 10) || 0,
+        totalFees: parseFloat(f.total_fees) || 0,
+      })),
+      accruals: accruals.map((a: any) => ({
+        id: a.id,
+        sessionId: a.session_id,
+        operationId: a.operation_id,
+        followerUserId: a.follower_user_id,
+        contractId: a.contract_id || null,
+        operationType: a.operation_type || null,
+        symbol: a.symbol || null,
+        operationProfit: parseFloat(a.operation_profit) || 0,
+        feePercent: parseFloat(a.fee_percent) || 0,
+        sessionProfit: parseFloat(a.session_profit) || 0,
+        previousHighWaterMark: parseFloat(a.previous_high_water_mark) || 0,
+        newHighWaterMark: parseFloat(a.new_high_water_mark) || 0,
+        feeAmount: parseFloat(a.fee_amount) || 0,
+        createdAt: a.created_at,
+      })),
+    };
+  }
+
+  /**
+   * Extratos para o admin (fila de pagamento)
+   */
+  async listStatements(status?: string) {
+    const statements = await this.dataSource.query(
+      `SELECT st.*, u.name AS master_name, u.email AS master_email
+       FROM copy_trading_fee_statements st
+       LEFT JOIN users u ON u.id = st.master_user_id
+       ${status ? 'WHERE st.status = ?' : ''}
+       ORDER BY st.period DESC, st.total_fees DESC`,
+      status ? [status] : [],
+    );
+    return statements.map((s: any) => ({
+      ...this.mapStatement(s),
+      masterName: s.master_name || null,
+      masterEmail: s.master_email || null,
+    }));
+  }
+
+  /**
+   * Registra o pagamento manual de um extrato já fechado
+   */
+  async markStatementPaid(
+    statementId: number,
+    adminUserId: string,
+    reference?: string,
+  ) {
+    const [statement] = await this.dataSource.query(
+      `SELECT * FROM copy_trading_fee_statements WHERE id = ?`,
+      [statementId],
+    );
+    if (!statement) {
+      throw new NotFoundException('Extrato não encontrado');
+    }
+    if (statement.status === 'paid') {
+      throw new BadRequestException('Extrato já foi pago');
+    }
+    if (statement.period >= feePeriodOf()) {
+      throw new BadRequestException(
+        'O período ainda está em apuração; aguarde o fechamento do mês',
+      );
+    }
+
+    await this.dataSource.query(
+      `UPDATE copy_trading_fee_statements
+       SET status = 'paid', paid_at = NOW(), paid_by = ?, payout_reference = ?
+       WHERE id = ?`,
+      [adminUserId, reference?.trim() || null, statementId],
+    );
+    this.logger.log(
+      `[PerformanceFee] ✅ Extrato ${statementId} (${statement.master_user_id}, ${statement.period}) pago por ${adminUserId}`,
+    );
+
+    const [updated] = await this.dataSource.query(
+      `SELECT * FROM copy_trading_fee_statements WHERE id = ?`,
+      [statementId],
+    );
+    return this.mapStatement(updated);
+  }
+
+  private mapStatement(row: any) {
+    return {
+      id: row.id,
+      masterUserId: row.master_user_id,
+      period: row.period,
+      totalFees: parseFloat(row.total_fees) || 0,
+      accrualCount: row.accrual_count || 0,
+      status: row.status,
+      paidAt: row.paid_at || null,
+      paidBy: row.paid_by || null,
+      payoutReference: row.payout_reference || null,
+    };
+  }
+}
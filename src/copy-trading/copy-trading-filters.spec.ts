@@ -0,0 +1,126 @@
+import {
+  CopyFilterCandidate,
+  copyFiltersFromRow,
+  evaluateCopyFilters,
+  normalizeCopyFilters,
+} from './copy-trading-filters';
+
+describe('copy-trading-filters', () => {
+  // 15:30 em São Paulo (UTC-3)
+  const now = new Date('2026-03-10T18:30:00Z');
+  const candidate = (
+    overrides: Partial<CopyFilterCandidate> = {},
+  ): CopyFilterCandidate => ({
+    contractType: 'DIGITEVEN',
+    symbol: 'R_100',
+    stakeAmount: 5,
+    now,
+    timeZone: 'America/Sao_Paulo',
+    operationsToday: 0,
+    ...overrides,
+  });
+
+  it('sem filtros copia tudo', () => {
+    expect(
+      evaluateCopyFilters(normalizeCopyFilters(null), candidate()),
+    ).toBeNull();
+  });
+
+  it('restringe por tipo de contrato e ativo, sem diferenciar maiúsculas', () => {
+    const filters = normalizeCopyFilters({
+      contractTypes: ['digiteven', 'DIGITODD'],
+      symbols: 'r_100, R_50',
+    });
+
+    expect(evaluateCopyFilters(filters, candidate())).toBeNull();
+    expect(
+      evaluateCopyFilters(filters, candidate({ contractType: 'CALL' })),
+    ).toContain('Tipo de contrato CALL');
+    expect(
+      evaluateCopyFilters(filters, candidate({ symbol: 'R_10' })),
+    ).toContain('Ativo R_10');
+  });
+
+  it('respeita stake máxima e limite diário', () => {
+    const filters = normalizeCopyFilters({
+      maxStake: 4,
+      maxDailyOperations: 3,
+    });
+
+    expect(evaluateCopyFilters(filters, candidate())).toContain(
+      'acima do máximo',
+    );
+    expect(
+      evaluateCopyFilters(
+        filters,
+        candidate({ stakeAmount: 4, operationsToday: 3 }),
+      ),
+    ).toContain('Limite diário de 3');
+    expect(
+      evaluateCopyFilters(
+        filters,
+        candidate({ stakeAmount: 4, operationsToday: 2 }),
+      ),
+    ).toBeNull();
+  });
+
+  it('avalia o horário no fuso do copiador, inclusive janelas que atravessam a meia-noite', () => {
+    const daytime = normalizeCopyFilters({
+      tradingHoursStart: '09:00',
+      tradingHoursEnd: '16:00',
+    });
+    expect(evaluateCopyFilters(daytime, candidate())).toBeNull();
+    expect(
+      evaluateCopyFilters(daytime, candidate({ timeZone: 'UTC' })),
+    ).toContain('Fora do horário');
+
+    const overnight = normalizeCopyFilters({
+      tradingHoursStart: '22:00',
+      tradingHoursEnd: '02:00',
+    });
+    expect(evaluateCopyFilters(overnight, candidate())).toContain(
+      'Fora do horário',
+    );
+    expect(
+      evaluateCopyFilters(
+        overnight,
+        candidate({ now: new Date('2026-03-11T04:00:00Z') }),
+      ),
+    ).toBeNull();
+  });
+
+  it('descarta valores inválidos e lê as colunas filter_* de copy_trading_config', () => {
+    expect(
+      normalizeCopyFilters({
+        maxStake: -1,
+        tradingHoursStart: '25:00',
+        tradingHoursEnd: '10:00',
+      }),
+    ).toEqual({
+      contractTypes: [],
+      symbols: [],
+      maxStake: null,
+      maxDailyOperations: null,
+      tradingHoursStart: null,
+      tradingHoursEnd: null,
+    });
+
+    expect(
+      copyFiltersFromRow({
+        filter_contract_types: '["DIGITEVEN"]',
+        filter_symbols: null,
+        filter_max_stake: '10.00',
+        filter_max_daily_operations: 20,
+        filter_trading_start: '08:00',
+        filter_trading_end: '12:00',
+      }),
+    ).toEqual({
+      contractTypes: ['DIGITEVEN'],
+      symbols: [],
+      maxStake: 10,
+      maxDailyOperations: 20,
+      tradingHoursStart: '08:00',
+      tradingHoursEnd: '12:00',
+    });
+  });
+});
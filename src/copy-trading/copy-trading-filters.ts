@@ -0,0 +1,141 @@
+import {
+  minutesOfDayInTimeZone,
+  parseTimeOfDay,
+} from '../utils/timezone.utils';
+
+/**
+ * Filtros do copiador, gravados em copy_trading_config (colunas filter_*).
+ * Campos vazios/nulos não restringem nada.
+ */
+export interface CopyTradingFilters {
+  contractTypes: string[];
+  symbols: string[];
+  maxStake: number | null;
+  maxDailyOperations: number | null;
+  tradingHoursStart: string | null; // "HH:MM" no fuso do copiador
+  tradingHoursEnd: string | null;
+}
+
+export interface CopyFilterCandidate {
+  contractType: string;
+  symbol: string;
+  stakeAmount: number; // Stake já calculada para o copiador
+  now: Date;
+  timeZone: string;
+  operationsToday: number; // Operações executadas hoje (sem contar as ignoradas)
+}
+
+const normalizeList = (value: unknown): string[] => {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string' && value.trim()
+      ? value.split(',')
+      : [];
+  return [
+    ...new Set(
+      list
+        .map((item) => String(item).trim().toUpperCase())
+        .filter((item) => item.length > 0),
+    ),
+  ];
+};
+
+const parseJsonList = (value: unknown): string[] => {
+  if (typeof value !== 'string') return normalizeList(value);
+  try {
+    return normalizeList(JSON.parse(value));
+  } catch {
+    return normalizeList(value);
+  }
+};
+
+const positiveOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Normaliza os filtros vindos da API (valida horários e remove valores inválidos)
+ */
+export function normalizeCopyFilters(
+  input?: Partial<Record<keyof CopyTradingFilters, unknown>> | null,
+): CopyTradingFilters {
+  const start = parseTimeOfDay(input?.tradingHoursStart as string);
+  const end = parseTimeOfDay(input?.tradingHoursEnd as string);
+  const hasWindow = start !== null && end !== null && start !== end;
+  const maxDaily = positiveOrNull(input?.maxDailyOperations);
+
+  return {
+    contractTypes: normalizeList(input?.contractTypes),
+    symbols: normalizeList(input?.symbols),
+    maxStake: positiveOrNull(input?.maxStake),
+    maxDailyOperations: maxDaily !== null ? Math.floor(maxDaily) : null,
+    tradingHoursStart: hasWindow
+      ? String(input?.tradingHoursStart).trim()
+      : null,
+    tradingHoursEnd: hasWindow ? String(input?.tradingHoursEnd).trim() : null,
+  };
+}
+
+/**
+ * Lê os filtros de uma linha de copy_trading_config
+ */
+export function copyFiltersFromRow(row: any): CopyTradingFilters {
+  return normalizeCopyFilters({
+    contractTypes: parseJsonList(row?.filter_contract_types),
+    symbols: parseJsonList(row?.filter_symbols),
+    maxStake: row?.filter_max_stake,
+    maxDailyOperations: row?.filter_max_daily_operations,
+    tradingHoursStart: row?.filter_trading_start,
+    tradingHoursEnd: row?.filter_trading_end,
+  });
+}
+
+/**
+ * Motivo pelo qual a operação não deve ser copiada, ou null se passa em todos os filtros
+ */
+export function evaluateCopyFilters(
+  filters: CopyTradingFilters,
+  candidate: CopyFilterCandidate,
+): string | null {
+  const contractType = (candidate.contractType || '').toUpperCase();
+  if (
+    filters.contractTypes.length > 0 &&
+    !filters.contractTypes.includes(contractType)
+  ) {
+    return `Tipo de contrato ${contractType} fora dos filtros (${filters.contractTypes.join(', ')})`;
+  }
+
+  const symbol = (candidate.symbol || '').toUpperCase();
+  if (filters.symbols.length > 0 && !filters.symbols.includes(symbol)) {
+    return `Ativo ${symbol} fora dos filtros (${filters.symbols.join(', ')})`;
+  }
+
+  if (filters.maxStake !== null && candidate.stakeAmount > filters.maxStake) {
+    return `Stake $${candidate.stakeAmount.toFixed(2)} acima do máximo por operação ($${filters.maxStake.toFixed(2)})`;
+  }
+
+  if (
+    filters.maxDailyOperations !== null &&
+    candidate.operationsToday >= filters.maxDailyOperations
+  ) {
+    return `Limite diário de ${filters.maxDailyOperations} operações atingido`;
+  }
+
+  const start = parseTimeOfDay(filters.tradingHoursStart);
+  const end = parseTimeOfDay(filters.tradingHoursEnd);
+  if (start !== null && end !== null) {
+    const minutes = minutesOfDayInTimeZone(candidate.now, candidate.timeZone);
+    // Janela que atravessa a meia-noite (ex.: 22:00-02:00)
+    const inside =
+      start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+    if (!inside) {
+      return `Fora do horário de cópia (${filters.tradingHoursStart}-${filters.tradingHoursEnd}, ${candidate.timeZone})`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import { FollowerStakeInput, computeFollowerStake } from './copy-trading-stake';
+
+describe('copy-trading-stake', () => {
+  const input = (
+    overrides: Partial<FollowerStakeInput> = {},
+  ): FollowerStakeInput => ({
+    allocationType: 'proportion',
+    allocationValue: 0,
+    allocationPercentage: 100,
+    leverage: 1,
+    masterStakePercent: 2,
+    followerBalance: 500,
+    ...overrides,
+  });
+
+  it('proporção segue a fração do saldo arriscada pelo mestre', () => {
+    expect(computeFollowerStake(input())).toEqual({
+      stake: 10,
+      skipReason: null,
+    });
+    expect(
+      computeFollowerStake(input({ allocationPercentage: 50, leverage: 2 }))
+        .stake,
+    ).toBe(10);
+    // Sem alocação informada, segue 100% da proporção (não 100% do saldo)
+    expect(
+      computeFollowerStake(input({ allocationPercentage: null })).stake,
+    ).toBe(10);
+  });
+
+  it('nunca passa do saldo atual', () => {
+    expect(
+      computeFollowerStake(input({ masterStakePercent: 80, leverage: 5 }))
+        .stake,
+    ).toBe(500);
+    expect(
+      computeFollowerStake(
+        input({
+          allocationType: 'fixed',
+          allocationValue: 50,
+          followerBalance: 20.555,
+        }),
+      ).stake,
+    ).toBe(20.55);
+  });
+
+  it('ignora quando não há como dimensionar com segurança', () => {
+    expect(
+      computeFollowerStake(input({ masterStakePercent: null })).skipReason,
+    ).toBe('Proporção da stake do mestre indisponível');
+    expect(
+      computeFollowerStake(input({ followerBalance: 0 })).skipReason,
+    ).toContain('Saldo da conta insuficiente');
+    expect(
+      computeFollowerStake(
+        input({ allocationType: 'fixed', allocationValue: 0 }),
+      ).skipReason,
+    ).toBe('Valor fixo de alocação não configurado');
+    expect(
+      computeFollowerStake(input({ masterStakePercent: 0.01 })).skipReason,
+    ).toContain('abaixo do mínimo');
+  });
+});
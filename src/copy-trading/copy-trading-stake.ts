@@ -0,0 +1,64 @@
+/**
+ * Stake mínima aceita pela Deriv
+ */
+export const MIN_COPY_STAKE = 0.35;
+
+export interface FollowerStakeInput {
+  allocationType: string; // 'proportion' ou 'fixed'
+  allocationValue: number; // Valor por operação (fixed)
+  allocationPercentage: number | null; // % da proporção do mestre seguida (proportion, padrão 100)
+  leverage: number;
+  masterStakePercent: number | null; // Stake do mestre em % do saldo dele
+  followerBalance: number; // Saldo atual da conta Deriv do copiador
+}
+
+export interface FollowerStake {
+  stake: number;
+  skipReason: string | null;
+}
+
+const skip = (reason: string): FollowerStake => ({
+  stake: 0,
+  skipReason: reason,
+});
+
+/**
+ * Stake do copiador para uma compra do mestre.
+ * Proporção: o copiador arrisca a mesma fração do saldo que o mestre arriscou (ajustada pela
+ * alocação e alavancagem). Fixo: o valor configurado. Em ambos, nunca mais que o saldo atual.
+ */
+export function computeFollowerStake(input: FollowerStakeInput): FollowerStake {
+  const balance = Number(input.followerBalance) || 0;
+  if (balance < MIN_COPY_STAKE) {
+    return skip(`Saldo da conta insuficiente ($${balance.toFixed(2)})`);
+  }
+
+  let stake: number;
+  if (input.allocationType === 'proportion') {
+    const masterPercent = Number(input.masterStakePercent);
+    if (!Number.isFinite(masterPercent) || masterPercent <= 0) {
+      return skip('Proporção da stake do mestre indisponível');
+    }
+    const followPercent =
+      Number(input.allocationPercentage) > 0
+        ? Number(input.allocationPercentage)
+        : 100;
+    stake = balance * (masterPercent / 100) * (followPercent / 100);
+  } else {
+    stake = Number(input.allocationValue) || 0;
+    if (stake <= 0) {
+      return skip('Valor fixo de alocação não configurado');
+    }
+  }
+
+  const leverage = Number(input.leverage) > 0 ? Number(input.leverage) : 1;
+  stake = Math.floor(Math.min(stake * leverage, balance) * 100) / 100;
+
+  if (stake < MIN_COPY_STAKE) {
+    return skip(
+      `Stake calculada $${stake.toFixed(2)} abaixo do mínimo ($${MIN_COPY_STAKE.toFixed(2)})`,
+    );
+  }
+
+  return { stake, skipReason: null };
+}
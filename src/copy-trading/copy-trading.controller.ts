@@ -2,8 +2,10 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Body,
   Param,
+  Query,
   HttpException,
   HttpStatus,
   Logger,
@@ -12,12 +14,38 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { CopyTradingService } from './copy-trading.service';
+import type { CopyTradingFilters } from './copy-trading-filters';
+import { CopyTradingFeesService } from './copy-trading-fees.service';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
+import {
+  LEADERBOARD_MAX_LIMIT,
+  LEADERBOARD_WINDOWS,
+  LeaderboardSortBy,
+  LeaderboardWindow,
+  TraderLeaderboardService,
+} from './trader-leaderboard.service';
+
+const LEADERBOARD_SORTS: LeaderboardSortBy[] = [
+  'roi',
+  'winRate',
+  'totalProfit',
+  'maxDrawdown',
+  'activeCopiers',
+  'copiedVolume',
+  'totalTrades',
+];
 
 @Controller('copy-trading')
 export class CopyTradingController {
   private readonly logger = new Logger(CopyTradingController.name);
 
-  constructor(private readonly copyTradingService: CopyTradingService) { }
+  constructor(
+    private readonly copyTradingService: CopyTradingService,
+    private readonly traderLeaderboard: TraderLeaderboardService,
+    private readonly feesService: CopyTradingFeesService,
+  ) { }
 
   @Post('activate')
   @UseGuards(AuthGuard('jwt'))
@@ -34,6 +62,9 @@ export class CopyTradingController {
       stopLoss: number;
       takeProfit: number;
       blindStopLoss: boolean;
+      blindTriggerPercent?: number;
+      blindProtectPercent?: number;
+      filters?: Partial<CopyTradingFilters>;
       derivToken: string;
       currency: string;
     },
@@ -67,6 +98,9 @@ export class CopyTradingController {
           stopLoss: body.stopLoss,
           takeProfit: body.takeProfit,
           blindStopLoss: body.blindStopLoss,
+          blindTriggerPercent: body.blindTriggerPercent,
+          blindProtectPercent: body.blindProtectPercent,
+          filters: body.filters,
           derivToken: body.derivToken,
           currency: body.currency || 'USD',
         },
@@ -170,6 +204,50 @@ export class CopyTradingController {
     }
   }
 
+  /**
+   * Filtros de cópia: tipos de contrato, ativos, stake máxima, limite diário e horário
+   */
+  @Put('config/filters')
+  @UseGuards(AuthGuard('jwt'))
+  async updateCopyFilters(
+    @Req() req: any,
+    @Body() body: Partial<CopyTradingFilters>,
+  ) {
+    try {
+      const userId = req.user?.userId || req.user?.sub || req.user?.id;
+
+      if (!userId) {
+        throw new HttpException(
+          {
+            success: false,
+            message: 'Usuário não identificado',
+          },
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+
+      const filters = await this.copyTradingService.updateCopyFilters(userId, body);
+
+      return {
+        success: true,
+        message: 'Filtros de cópia atualizados com sucesso',
+        data: filters,
+      };
+    } catch (error) {
+      this.logger.error(
+        `[UpdateCopyFilters] Erro ao atualizar filtros: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message: error.message || 'Erro ao atualizar filtros de cópia',
+        },
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Post('pause')
   @UseGuards(AuthGuard('jwt'))
   async pauseCopyTrading(@Req() req: any) {
@@ -268,6 +346,92 @@ export class CopyTradingController {
     }
   }
 
+  /**
+   * Ranking dos traders mestres pelo histórico verificado (janelas de 7, 30 ou 90 dias)
+   */
+  @Get('traders/leaderboard')
+  async getTradersLeaderboard(
+    @Query('window') window?: string,
+    @Query('sortBy') sortBy?: string,
+    @Query('minTrades') minTrades?: string,
+    @Query('minWinRate') minWinRate?: string,
+    @Query('maxDrawdown') maxDrawdown?: string,
+    @Query('verified') verified?: string,
+    @Query('specialty') specialty?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const windowDays = window ? parseInt(window, 10) : 30;
+    if (!LEADERBOARD_WINDOWS.includes(windowDays as LeaderboardWindow)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Janela inválida. Use ${LEADERBOARD_WINDOWS.join(', ')} dias.`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (sortBy && !LEADERBOARD_SORTS.includes(sortBy as LeaderboardSortBy)) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Ordenação inválida. Use: ${LEADERBOARD_SORTS.join(', ')}`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const limitValue = limit ? Number(limit) : undefined;
+    if (
+      limitValue !== undefined &&
+      (!Number.isInteger(limitValue) ||
+        limitValue < 1 ||
+        limitValue > LEADERBOARD_MAX_LIMIT)
+    ) {
+      throw new HttpException(
+        {
+          success: false,
+          message: `Limite inválido. Use um inteiro entre 1 e ${LEADERBOARD_MAX_LIMIT}.`,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const toNumber = (value?: string) => {
+      if (value === undefined || value === '') return undefined;
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    try {
+      const leaderboard = await this.traderLeaderboard.getLeaderboard({
+        window: windowDays as LeaderboardWindow,
+        sortBy: sortBy as LeaderboardSortBy | undefined,
+        minTrades: toNumber(minTrades),
+        minWinRate: toNumber(minWinRate),
+        maxDrawdownPercent: toNumber(maxDrawdown),
+        verifiedOnly: verified === 'true' || verified === '1',
+        specialty: specialty || undefined,
+        limit: limitValue,
+      });
+
+      return {
+        success: true,
+        data: leaderboard,
+      };
+    } catch (error) {
+      this.logger.error(
+        `[GetTradersLeaderboard] Erro ao buscar ranking: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message: error.message || 'Erro ao buscar ranking de traders',
+        },
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('session/active')
   @UseGuards(AuthGuard('jwt'))
   async getActiveSession(@Req() req: any) {
@@ -347,6 +511,77 @@ export class CopyTradingController {
     }
   }
 
+  /**
+   * Extrato de taxas de performance do trader mestre (por período AAAA-MM, padrão: mês corrente)
+   */
+  @Get('earnings')
+  @UseGuards(AuthGuard('jwt'))
+  async getEarnings(@Req() req: any, @Query('period') period?: string) {
+    try {
+      const masterUserId = req.user?.userId || req.user?.sub || req.user?.id;
+
+      if (!masterUserId) {
+        throw new HttpException(
+          {
+            success: false,
+            message: 'Usuário não identificado',
+          },
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+
+      const earnings = await this.feesService.getMasterEarnings(masterUserId, period);
+
+      return {
+        success: true,
+        data: earnings,
+      };
+    } catch (error) {
+      this.logger.error(
+        `[GetEarnings] Erro ao buscar extrato de taxas: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        {
+          success: false,
+          message: error.message || 'Erro ao buscar extrato de taxas',
+        },
+        error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('earnings/statements')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async listFeeStatements(@Query('status') status?: string) {
+    const statements = await this.feesService.listStatements(status);
+    return { success: true, data: statements };
+  }
+
+  /**
+   * Registro do pagamento manual de um extrato fechado
+   */
+  @Post('earnings/statements/:id/paid')
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async markFeeStatementPaid(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() body: { reference?: string },
+  ) {
+    const statement = await this.feesService.markStatementPaid(
+      parseInt(id, 10),
+      req.user.userId,
+      body?.reference,
+    );
+    return {
+      success: true,
+      message: 'Pagamento do extrato registrado',
+      data: statement,
+    };
+  }
+
   @Get('copiers')
   @UseGuards(AuthGuard('jwt'))
   async getCopiers(@Req() req: any) {
@@ -2,19 +2,23 @@ import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CopyTradingController } from './copy-trading.controller';
 import { CopyTradingService } from './copy-trading.service';
+import { TraderLeaderboardService } from './trader-leaderboard.service';
+import { CopyTradingFeesService } from './copy-trading-fees.service';
 import { ExpertEntity } from '../infrastructure/database/entities/expert.entity';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
 import { BrokerModule } from '../broker/broker.module';
 import { PlansModule } from '../plans/plans.module';
+import { TradesModule } from '../trades/trades.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([ExpertEntity, UserEntity]),
     forwardRef(() => BrokerModule),
     forwardRef(() => PlansModule),
+    forwardRef(() => TradesModule),
   ],
   controllers: [CopyTradingController],
-  providers: [CopyTradingService],
+  providers: [CopyTradingService, TraderLeaderboardService, CopyTradingFeesService],
   exports: [CopyTradingService],
 })
 export class CopyTradingModule { }
@@ -1,12 +1,35 @@
-import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, ForbiddenException, Inject, OnApplicationBootstrap } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
 import { ExpertEntity } from '../infrastructure/database/entities/expert.entity';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { DerivWebSocketManagerService } from '../broker/deriv-websocket-manager.service';
 import { PlanPermissionsService } from '../plans/plan-permissions.service';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import { DerivAccountResolver } from '../broker/deriv-account-resolver.service';
+import { NotificationEventsService } from '../notifications/notification-events.service';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
+import { DerivAccountResolutionError } from '../broker/deriv-account-resolver.types';
+import { Permission, hasPermission } from '../auth/roles';
+import {
+  TRADE_SETTLEMENT_SOURCE,
+  ContractPurchase,
+  ContractSettlement,
+  getSettlementTimeoutMs,
+} from '../trades/settlement/trade-settlement.types';
+import type { TradeSettlementSource } from '../trades/settlement/trade-settlement.types';
+import { TraderLeaderboardService } from './trader-leaderboard.service';
+import { CopyTradingFeesService } from './copy-trading-fees.service';
+import {
+  CopyTradingFilters,
+  copyFiltersFromRow,
+  evaluateCopyFilters,
+  normalizeCopyFilters,
+} from './copy-trading-filters';
+import { computeFollowerStake } from './copy-trading-stake';
+import { resolveTimeZone, startOfDayInTimeZone } from '../utils/timezone.utils';
 
 interface CopyTradingConfigData {
   traderId: string;
@@ -18,13 +41,43 @@ interface CopyTradingConfigData {
   stopLoss: number;
   takeProfit: number;
   blindStopLoss: boolean;
+  blindTriggerPercent?: number; // % do take profit que arma o Stop Blindado (padrão 40)
+  blindProtectPercent?: number; // % do pico de lucro protegido (padrão 50)
+  filters?: Partial<CopyTradingFilters>; // Sem filtros informados, mantém os já gravados
   derivToken: string;
   currency: string;
 }
 
+/**
+ * Compra do trader mestre já confirmada pela Deriv, replicada para os copiadores
+ */
+export interface MasterTradeFill {
+  traderOperationId: string; // ID da operação do mestre (trades.id ou ai_trades.id)
+  contractId: string; // Contrato do mestre na Deriv
+  contractType: string; // CALL, PUT, DIGITEVEN...
+  symbol: string;
+  duration: number;
+  durationUnit: string;
+  barrier?: number;
+  stakeAmount: number;
+  buyPrice: number;
+  payout: number | null; // Nem toda origem recebe o payout da compra
+  spot?: number | null; // Cotação da proposta aceita pelo mestre
+  stakePercent?: number | null; // Stake do mestre em % do saldo dele
+  filledAt: Date;
+}
+
+/**
+ * Operações pendentes mais antigas que isso são reacompanhadas pelo cron
+ * (as mais novas ainda estão sendo acompanhadas por settleFollowerOperation)
+ */
+const RECONCILE_MIN_AGE_MS = 15 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 200;
+
 @Injectable()
-export class CopyTradingService {
+export class CopyTradingService implements OnApplicationBootstrap {
   private readonly logger = new Logger(CopyTradingService.name);
+  private isReconciling = false;
 
   constructor(
     @InjectDataSource() private readonly dataSource: DataSource,
@@ -32,10 +85,77 @@ export class CopyTradingService {
     private readonly expertRepository: Repository<ExpertEntity>,
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
-    private readonly wsManager: DerivWebSocketManagerService,
     private readonly planPermissionsService: PlanPermissionsService,
+    private readonly tokenEncryption: TokenEncryptionService,
+    private readonly derivAccountResolver: DerivAccountResolver,
+    @Inject(TRADE_SETTLEMENT_SOURCE)
+    private readonly settlementSource: TradeSettlementSource,
+    private readonly traderLeaderboard: TraderLeaderboardService,
+    private readonly feesService: CopyTradingFeesService,
+    private readonly notificationEvents?: NotificationEventsService,
+    private readonly tradeLedger?: TradeLedgerService,
   ) { }
 
+  onApplicationBootstrap() {
+    // Contratos de copiadores que ficaram abertos durante um deploy/reinício
+    void this.reconcilePendingFollowerOperations(0);
+  }
+
+  @Cron('*/15 * * * *', {
+    name: 'reconcile-copy-trading-operations',
+  })
+  async handleReconcile() {
+    await this.reconcilePendingFollowerOperations(RECONCILE_MIN_AGE_MS);
+  }
+
+  /**
+   * Volta a acompanhar as operações de copiadores ainda 'pending' que já têm contrato na Deriv.
+   * Contratos já encerrados são liquidados na hora; a liquidação só grava se ainda estiver pendente.
+   */
+  async reconcilePendingFollowerOperations(minAgeMs: number): Promise<void> {
+    if (this.isReconciling) {
+      this.logger.debug('[Reconcile] Conciliação já em andamento, pulando...');
+      return;
+    }
+
+    this.isReconciling = true;
+    try {
+      const rows = await this.dataSource.query(
+        `SELECT o.id, o.contract_id, o.session_id,
+                s.user_id, c.currency, c.deriv_token,
+                u.token_demo, u.token_real, u.token_demo_currency, u.token_real_currency, u.deriv_raw,
+                us.trade_currency
+         FROM copy_trading_operations o
+         INNER JOIN copy_trading_sessions s ON o.session_id = s.id
+         INNER JOIN copy_trading_config c ON s.config_id = c.id
+         INNER JOIN users u ON s.user_id = u.id
+         LEFT JOIN user_settings us ON s.user_id = us.user_id
+         WHERE o.result = 'pending' AND o.contract_id IS NOT NULL AND o.executed_at <= ?
+         ORDER BY o.id ASC
+         LIMIT ?`,
+        [new Date(Date.now() - minAgeMs), RECONCILE_BATCH_SIZE],
+      ).then((result) => result.map((row) => this.decryptCredentials(row)));
+
+      if (rows.length === 0) return;
+      this.logger.log(`[Reconcile] 🔄 ${rows.length} operações de copiadores pendentes com contrato`);
+
+      await Promise.all(
+        rows.map(async (row) => {
+          const account = this.resolveCopierAccount(row, row.trade_currency || row.currency);
+          if (!account) {
+            this.logger.warn(`[Reconcile] ⚠️ Copiador ${row.user_id} sem token válido para a operação ${row.id}`);
+            return;
+          }
+          await this.settleFollowerOperation(row.id, { id: row.session_id }, account.token, row.contract_id);
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`[Reconcile] ❌ Erro ao conciliar operações: ${error.message}`, error.stack);
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
   async activateCopyTrading(
     userId: string,
     configData: CopyTradingConfigData,
@@ -55,6 +175,13 @@ export class CopyTradingService {
         this.logger.warn(`[ActivateCopyTrading] 🚫 Usuário ${userId} tentou copiar trader restrito: ${configData.traderId}`);
         throw new ForbiddenException(`Seu plano atual não inclui o copy trading com este trader.`);
       }
+
+      // ✅ Limites do plano (produtos simultâneos, sessões do dia, stake fixa e tipo de conta)
+      await this.planPermissionsService.assertActivationAllowed(user, {
+        product: 'copy_trading',
+        stake: configData.allocationType === 'proportion' ? null : configData.allocationValue ?? null,
+        accountType: (configData.currency || '').toUpperCase() === 'DEMO' ? 'demo' : 'real',
+      });
     }
 
     this.logger.log(`[ActivateCopyTrading] Ativando copy trading para usuário ${userId}`);
@@ -93,7 +220,9 @@ export class CopyTradingService {
         stop_loss: configData.stopLoss,
         take_profit: configData.takeProfit,
         blind_stop_loss: configData.blindStopLoss ? 1 : 0,
-        deriv_token: configData.derivToken,
+        blind_trigger_percent: this.normalizeBlindPercent(configData.blindTriggerPercent, 40),
+        blind_protect_percent: this.normalizeBlindPercent(configData.blindProtectPercent, 50),
+        deriv_token: this.tokenEncryption.encrypt(configData.derivToken),
         currency: configData.currency,
         is_active: 1,
         session_status: 'active',
@@ -122,6 +251,8 @@ export class CopyTradingService {
                stop_loss = ?,
                take_profit = ?,
                blind_stop_loss = ?,
+               blind_trigger_percent = ?,
+               blind_protect_percent = ?,
                deriv_token = ?,
                currency = ?,
                is_active = 1,
@@ -141,6 +272,8 @@ export class CopyTradingService {
             config.stop_loss,
             config.take_profit,
             config.blind_stop_loss,
+            config.blind_trigger_percent,
+            config.blind_protect_percent,
             config.deriv_token,
             config.currency,
             userId,
@@ -152,10 +285,11 @@ export class CopyTradingService {
         await this.dataSource.query(
           `INSERT INTO copy_trading_config 
            (user_id, trader_id, trader_name, allocation_type, allocation_value, allocation_percentage, 
-            leverage, stop_loss, take_profit, blind_stop_loss, deriv_token, currency, 
+            leverage, stop_loss, take_profit, blind_stop_loss, blind_trigger_percent, blind_protect_percent,
+            deriv_token, currency, 
             is_active, session_status, session_balance, total_operations, total_wins, total_losses, 
             activated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
           [
             config.user_id,
             config.trader_id,
@@ -167,6 +301,8 @@ export class CopyTradingService {
             config.stop_loss,
             config.take_profit,
             config.blind_stop_loss,
+            config.blind_trigger_percent,
+            config.blind_protect_percent,
             config.deriv_token,
             config.currency,
             config.is_active,
@@ -186,6 +322,10 @@ export class CopyTradingService {
         this.logger.log(`[ActivateCopyTrading] Nova configuração criada para usuário ${userId}`);
       }
 
+      if (configData.filters !== undefined) {
+        await this.saveCopyFilters(userId, configData.filters);
+      }
+
       // Encerrar sessão ativa anterior, se existir
       await this.dataSource.query(
         `UPDATE copy_trading_sessions 
@@ -199,11 +339,18 @@ export class CopyTradingService {
       // Por enquanto, vamos usar 0.00 como saldo inicial
       const initialBalance = 0.00;
 
+      // Taxa de performance do trader vigente na ativação (alterações posteriores não retroagem)
+      const feeResult = await this.dataSource.query(
+        `SELECT performance_fee_percent FROM experts WHERE user_id = ? AND is_active = 1 LIMIT 1`,
+        [configData.traderId],
+      );
+      const feePercent = parseFloat(feeResult?.[0]?.performance_fee_percent) || 0;
+
       // Criar nova sessão de copy
       await this.dataSource.query(
         `INSERT INTO copy_trading_sessions 
-         (user_id, config_id, trader_id, trader_name, status, initial_balance, current_balance, started_at)
-         VALUES (?, ?, ?, ?, 'active', ?, ?, NOW())`,
+         (user_id, config_id, trader_id, trader_name, status, initial_balance, current_balance, fee_percent, started_at)
+         VALUES (?, ?, ?, ?, 'active', ?, ?, ?, NOW())`,
         [
           userId,
           configId,
@@ -211,6 +358,7 @@ export class CopyTradingService {
           configData.traderName,
           initialBalance,
           initialBalance,
+          feePercent,
         ],
       );
 
@@ -288,6 +436,9 @@ export class CopyTradingService {
         stopLoss: parseFloat(config.stop_loss) || 0,
         takeProfit: parseFloat(config.take_profit) || 0,
         blindStopLoss: config.blind_stop_loss === 1,
+        blindTriggerPercent: parseFloat(config.blind_trigger_percent) || 40,
+        blindProtectPercent: parseFloat(config.blind_protect_percent) || 50,
+        filters: copyFiltersFromRow(config),
         currency: config.currency,
         isActive: config.is_active === 1,
         sessionStatus: config.session_status,
@@ -308,6 +459,50 @@ export class CopyTradingService {
     }
   }
 
+  /**
+   * Atualiza os filtros de cópia sem reiniciar a sessão
+   */
+  async updateCopyFilters(userId: string, filters: Partial<CopyTradingFilters>) {
+    const config = await this.dataSource.query(
+      `SELECT id FROM copy_trading_config WHERE user_id = ? LIMIT 1`,
+      [userId],
+    );
+    if (!config || config.length === 0) {
+      throw new NotFoundException('Configuração de copy trading não encontrada');
+    }
+
+    const saved = await this.saveCopyFilters(userId, filters);
+    this.logger.log(`[CopyFilters] Filtros atualizados para usuário ${userId}: ${JSON.stringify(saved)}`);
+    return saved;
+  }
+
+  private async saveCopyFilters(
+    userId: string,
+    input: Partial<CopyTradingFilters> | null,
+  ): Promise<CopyTradingFilters> {
+    const filters = normalizeCopyFilters(input);
+    await this.dataSource.query(
+      `UPDATE copy_trading_config 
+       SET filter_contract_types = ?,
+           filter_symbols = ?,
+           filter_max_stake = ?,
+           filter_max_daily_operations = ?,
+           filter_trading_start = ?,
+           filter_trading_end = ?
+       WHERE user_id = ?`,
+      [
+        filters.contractTypes.length > 0 ? JSON.stringify(filters.contractTypes) : null,
+        filters.symbols.length > 0 ? JSON.stringify(filters.symbols) : null,
+        filters.maxStake,
+        filters.maxDailyOperations,
+        filters.tradingHoursStart,
+        filters.tradingHoursEnd,
+        userId,
+      ],
+    );
+    return filters;
+  }
+
   async pauseCopyTrading(userId: string) {
     this.logger.log(`[PauseCopyTrading] Pausando copy trading para usuário ${userId}`);
 
@@ -416,6 +611,12 @@ export class CopyTradingService {
         .andWhere('user.isActive = :isActive', { isActive: true })
         .getRawMany();
 
+      // Estatísticas verificadas dos últimos 30 dias (master_trader_stats), calculadas pelas operações reais
+      const statsByTrader = await this.traderLeaderboard.getStatsByTrader(
+        traders.map((row) => row.user_id),
+        30,
+      );
+
       // Formatar dados dos traders para o frontend
       return traders.map((row) => {
         // Dados do expert (pode ser null)
@@ -423,17 +624,12 @@ export class CopyTradingService {
 
         // Nota: TypeORM getRawMany retorna algo como: user_id, user_name, expert_id, expert_win_rate...
 
-        const expertWinRate = row.expert_win_rate ? parseFloat(row.expert_win_rate) : 0;
-
-        // Simulação de stats se não tiver histórico (ou pegar do expert se tiver)
-        const winRate = expertWinRate || 0;
+        const stats = statsByTrader.get(row.user_id);
+        const winRate = stats?.winRate ?? 0;
+        const roi = stats?.roi ?? 0;
+        const dd = stats?.maxDrawdownPercent ?? 0;
 
-        // ROI médio = winRate * multiplicador_lucro - (100 - winRate) * multiplicador_perda
-        const roi = winRate > 0 ? (winRate * 0.8) - ((100 - winRate) * 1.0) : 0;
-
-        const dd = winRate > 0 ? Math.max(0, (100 - winRate) * 0.12) : 0;
-
-        const totalFollowers = row.expert_total_followers || 0;
+        const totalFollowers = stats?.activeCopiers ?? 0;
         const followersK = totalFollowers >= 1000
           ? (totalFollowers / 1000).toFixed(1)
           : totalFollowers.toString();
@@ -441,16 +637,17 @@ export class CopyTradingService {
         return {
           id: row.user_id, // IMPORTANTE: O ID agora é o ID do usuário, não do expert
           name: row.expert_name || row.user_name, // Prefere nome do expert (display name) ou nome do user
-          roi: Math.max(0, roi).toFixed(0),
+          roi: roi.toFixed(0),
           dd: dd.toFixed(1),
           followers: followersK,
           winRate: winRate.toFixed(1),
-          totalTrades: row.expert_total_signals || 0,
+          totalTrades: stats?.totalTrades ?? 0,
           rating: row.expert_rating ? parseFloat(row.expert_rating).toFixed(1) : '0.0',
           specialty: row.expert_specialty || 'General',
           isVerified: row.expert_is_verified === 1 || false,
           connectionStatus: row.expert_connection_status || 'Offline',
           avatarUrl: row.expert_avatar_url || null,
+          statsComputedAt: stats?.computedAt ?? null,
         };
       });
     } catch (error) {
@@ -466,7 +663,8 @@ export class CopyTradingService {
     try {
       const result = await this.dataSource.query(
         `SELECT s.*, c.allocation_type, c.allocation_value, c.allocation_percentage, 
-                c.leverage, c.stop_loss, c.take_profit, c.blind_stop_loss, c.currency
+                c.leverage, c.stop_loss, c.take_profit, c.blind_stop_loss,
+                c.blind_trigger_percent, c.blind_protect_percent, c.currency
          FROM copy_trading_sessions s
          INNER JOIN copy_trading_config c ON s.config_id = c.id
          WHERE s.user_id = ? AND s.status = 'active'
@@ -490,6 +688,12 @@ export class CopyTradingService {
         initialBalance: parseFloat(session.initial_balance) || 0,
         currentBalance: parseFloat(session.current_balance) || 0,
         totalProfit: parseFloat(session.total_profit) || 0,
+        profitPeak: parseFloat(session.profit_peak) || 0,
+        feePercent: parseFloat(session.fee_percent) || 0,
+        feeHighWaterMark: parseFloat(session.fee_high_water_mark) || 0,
+        totalFees: parseFloat(session.total_fees) || 0,
+        netProfit:
+          Math.round(((parseFloat(session.total_profit) || 0) - (parseFloat(session.total_fees) || 0)) * 100) / 100,
         totalOperations: session.total_operations || 0,
         totalWins: session.total_wins || 0,
         totalLosses: session.total_losses || 0,
@@ -504,6 +708,8 @@ export class CopyTradingService {
         stopLoss: parseFloat(session.stop_loss) || 0,
         takeProfit: parseFloat(session.take_profit) || 0,
         blindStopLoss: session.blind_stop_loss === 1,
+        blindTriggerPercent: parseFloat(session.blind_trigger_percent) || 40,
+        blindProtectPercent: parseFloat(session.blind_protect_percent) || 50,
         currency: session.currency,
       };
     } catch (error) {
@@ -530,13 +736,23 @@ export class CopyTradingService {
         sessionId: op.session_id,
         userId: op.user_id,
         traderOperationId: op.trader_operation_id,
+        contractId: op.contract_id ?? null,
         operationType: op.operation_type,
         symbol: op.symbol,
         duration: op.duration,
         stakeAmount: parseFloat(op.stake_amount) || 0,
         result: op.result,
+        skipReason: op.skip_reason ?? null,
         profit: parseFloat(op.profit) || 0,
+        feeAmount: parseFloat(op.fee_amount) || 0,
         payout: op.payout ? parseFloat(op.payout) : null,
+        buyPrice: op.buy_price ? parseFloat(op.buy_price) : null,
+        expectedPayout: op.expected_payout ? parseFloat(op.expected_payout) : null,
+        masterBuyPrice: op.master_buy_price ? parseFloat(op.master_buy_price) : null,
+        masterExpectedPayout: op.master_expected_payout ? parseFloat(op.master_expected_payout) : null,
+        entrySlippage: op.entry_slippage !== null && op.entry_slippage !== undefined ? parseFloat(op.entry_slippage) : null,
+        payoutDiff: op.payout_diff !== null && op.payout_diff !== undefined ? parseFloat(op.payout_diff) : null,
+        fillDelayMs: op.fill_delay_ms ?? null,
         leverage: op.leverage,
         allocationType: op.allocation_type,
         allocationValue: op.allocation_value ? parseFloat(op.allocation_value) : null,
@@ -552,526 +768,6 @@ export class CopyTradingService {
     }
   }
 
-  /**
-   * Replica operação manual de um Master Trader para seus copiadores
-   */
-  async replicateManualOperation(
-    masterTraderId: string,
-    operation: {
-      contractId: string;
-      contractType: string;
-      symbol: string;
-      duration: number;
-      durationUnit: string;
-      stakeAmount: number;
-      entrySpot: number;
-      entryTime: number;
-      barrier?: number;
-      percent?: number;
-    },
-  ): Promise<void> {
-    try {
-      this.logger.log(`[ReplicateManual] Replicando operação do Master ${masterTraderId} (${operation.symbol} ${operation.contractType})`);
-
-      // 1. Buscar copiadores ativos deste Master Trader E suas sessões ativas
-      const copiers = await this.dataSource.query(
-        `SELECT 
-            c.*, 
-            u.token_demo, 
-            u.token_real, 
-            u.real_amount, 
-            u.demo_amount,
-            u.deriv_raw, 
-            s.trade_currency, 
-            css.id as session_id
-         FROM copy_trading_config c
-         JOIN users u ON c.user_id = u.id
-         LEFT JOIN user_settings s ON c.user_id = s.user_id
-         JOIN copy_trading_sessions css ON css.user_id = c.user_id AND css.status = 'active'
-         WHERE c.trader_id = ? AND c.is_active = 1 AND c.session_status = 'active'`,
-        [masterTraderId],
-      );
-
-      if (!copiers || copiers.length === 0) {
-        this.logger.log(`[ReplicateManual] Nenhum copiador ativo encontrado para Master ${masterTraderId}`);
-        return;
-      }
-
-      this.logger.log(`[ReplicateManual] Encontrados ${copiers.length} copiadores para replicar`);
-
-      // 2. Iterar e executar para cada copiador
-      for (const copier of copiers) {
-        // Resolver token do copiador (Demo ou Real)
-        let copierToken = null;
-        const currencyPref = (copier.trade_currency || 'USD').toUpperCase();
-
-        // 1. Selecionar token baseado na preferência de moeda (DEMO ou REAL)
-        if (currencyPref === 'DEMO') {
-          copierToken = copier.token_demo;
-        } else {
-          copierToken = copier.token_real;
-        }
-
-        // Se não tiver o token específico, tenta o token da config como fallback
-        if (!copierToken) {
-          copierToken = copier.deriv_token;
-        }
-
-        // Se ainda não tiver token, pular
-        if (!copierToken) {
-          this.logger.warn(`[ReplicateManual] Copiador ${copier.user_id} sem token válido (${currencyPref}). Ignorando.`);
-          continue;
-        }
-
-        // Calcular Stake do Copiador
-        let copierStake = 0;
-
-        if (copier.allocation_type === 'proportion') {
-          // PROPORTION: Usar percentual do Mestre aplicado ao Saldo Real/Demo do Usuário (Tabela Users)
-          const masterPercent = operation.percent || 0.35;
-          const userBalance = currencyPref === 'DEMO'
-            ? parseFloat(copier.demo_amount || 0)
-            : parseFloat(copier.real_amount || 0);
-
-          copierStake = (userBalance * masterPercent) / 100;
-          this.logger.log(`[ReplicateManual] Proporcional: Balance ${currencyPref} $${userBalance.toFixed(2)} * ${masterPercent.toFixed(2)}% = $${copierStake.toFixed(2)}`);
-        } else {
-          // FIXED: Espelho Fixo (Mesmo valor do mestre)
-          copierStake = operation.stakeAmount;
-          this.logger.log(`[ReplicateManual] Fixo (Espelho): Stake Mestre $${operation.stakeAmount} -> Copiador $${copierStake.toFixed(2)}`);
-        }
-
-        // Rounding to 2 decimal places
-        copierStake = Math.round(copierStake * 100) / 100;
-
-        // Se a stake for 0 ou negativa, ainda assim tentamos com o mínimo de segurança ou deixamos falhar?
-        // Como o usuário pediu "não verifique saldo nem nada", vamos apenas garantir que não seja NaN ou <= 0 literal.
-        if (copierStake <= 0) {
-          copierStake = 0.35; // Mínimo absoluto para não quebrar a proposta da API
-        }
-        copierStake = Math.round(copierStake * 100) / 100;
-
-
-        // ✅ Barrier from operation
-        // Passado diretamente sem default para evitar transformar RISE/FALL em barreira
-        const barrier = operation.barrier;
-
-        // Executar trade do copiador (Fire and Forget para não travar loop do master)
-        // Mas com callback para salvar no banco
-        this.executeCopierTrade(copier.user_id, {
-          symbol: operation.symbol,
-          contractType: operation.contractType,
-          duration: operation.duration,
-          durationUnit: operation.durationUnit,
-          stakeAmount: copierStake,
-          derivToken: copierToken,
-          barrier: barrier
-        }).then(async (copierContractId) => {
-          if (copierContractId) {
-            try {
-              // Salvar operação no banco
-              await this.dataSource.query(
-                `INSERT INTO copy_trading_operations 
-                   (session_id, user_id, trader_operation_id, operation_type, barrier, symbol, duration,
-                    stake_amount, result, profit, leverage, allocation_type, allocation_value,
-                    executed_at)
-                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, FROM_UNIXTIME(?))`,
-                [
-                  copier.session_id,
-                  copier.user_id,
-                  operation.contractId, // ✅ CORREÇÃO: Usar ID do contrato do MESTRE para vincular
-                  operation.contractType,
-                  barrier,
-                  operation.symbol,
-                  operation.duration,
-                  copierStake,
-                  'pending',
-                  0,
-                  '1x',
-                  copier.allocation_type,
-                  copier.allocation_value,
-                  operation.entryTime
-                ]
-              );
-
-              // Atualizar estatísticas da sessão
-              await this.dataSource.query(
-                `UPDATE copy_trading_sessions 
-                   SET total_operations = total_operations + 1,
-                       last_operation_at = NOW()
-                   WHERE id = ?`,
-                [copier.session_id]
-              );
-            } catch (dbError) {
-              this.logger.error(`[ReplicateManual] Erro ao salvar operação DB para copiador ${copier.user_id}: ${dbError.message}`);
-            }
-          }
-        }).catch(err => {
-          this.logger.error(`[ReplicateManual] Falha na execução para copiador ${copier.user_id}: ${err.message}`);
-        });
-      }
-
-    } catch (error) {
-      this.logger.error(`[ReplicateManual] Erro geral ao replicar operações: ${error.message}`, error.stack);
-    }
-  }
-
-
-  /**
-   * Replica uma operação de IA do trader mestre para todos os copiadores ativos
-   * Mesma lógica de replicateManualOperation(), mas adaptada para operações de IA
-   */
-  async replicateAIOperation(
-    masterUserId: string,
-    operationData: {
-      tradeId: number;        // ID do ai_trades
-      contractId: string;     // ID do contrato Deriv (pode estar vazio inicialmente)
-      contractType: string;
-      symbol: string;
-      duration: number;
-      stakeAmount: number;
-      entrySpot: number | null;
-      entryTime: number;
-    },
-  ): Promise<void> {
-    try {
-      this.logger.log(`[ReplicateAIOperation] ========== INÍCIO REPLICAÇÃO OPERAÇÃO IA ==========`);
-      this.logger.log(`[ReplicateAIOperation] Master trader: ${masterUserId}`);
-      this.logger.log(`[ReplicateAIOperation] TradeId: ${operationData.tradeId}, ContractId: ${operationData.contractId}`);
-
-      // Verificar se é trader mestre
-      const isMaster = await this.isMasterTrader(masterUserId);
-      if (!isMaster) {
-        this.logger.debug(`[ReplicateAIOperation] Usuário ${masterUserId} não é trader mestre, ignorando replicação`);
-        return;
-      }
-
-      // Buscar todos os copiadores ativos do master trader
-      const copiers = await this.getCopiers(masterUserId);
-
-      if (copiers.length === 0) {
-        this.logger.log(`[ReplicateAIOperation] Nenhum copiador ativo encontrado para o master trader ${masterUserId}`);
-        return;
-      }
-
-      this.logger.log(`[ReplicateAIOperation] Encontrados ${copiers.length} copiadores ativos`);
-
-      // Para cada copiador, replicar a operação
-      for (const copier of copiers) {
-        if (!copier.isActive) {
-          this.logger.log(`[ReplicateAIOperation] Pulando copiador ${copier.userId} - não está ativo`);
-          continue;
-        }
-
-        try {
-          // Buscar sessão ativa do copiador
-          const activeSession = await this.getActiveSession(copier.userId);
-
-          if (!activeSession) {
-            this.logger.warn(`[ReplicateAIOperation] Nenhuma sessão ativa encontrada para copiador ${copier.userId}`);
-            continue;
-          }
-
-          // Calcular Stake do Copiador (Agregado da lógica manual)
-          let followerStakeAmount = 0;
-
-          // Mapear propriedades camelCase do getCopiers para lógica
-          // getCopiers: allocationType, allocationValue, allocationPercentage
-          if (copier.allocationType === 'proportion') {
-            // Precisamos da porcentagem do master. 
-            // Se operationData vier do OrionStrategy, ele não manda 'percent'.
-            // Mas 'stakeAmount' é o valor. E não temos o capital total do master aqui para saber %.
-            // Porém, o OrionStrategy manda stakeAmount. 
-            // Assumindo que operationData.stakeAmount é o valor, e não temos 'percent'.
-            // Se não tem percent, como calcular proporção?
-            // "as apostas sempre vão sem seguindo o valor de entrada do trader mestre ou a porcentagem que ele usar"
-
-            // Se for IA, geralmente não temos "percent" explícito se não calcularmos basedo no saldo da IA.
-            // Mas o usuário disse "sigam... a porcentagem que ele usar".
-            // Se não temos a porcentagem, usamos stakeAmount direto?
-            // Fallback: Se for proportion e não tem como calcular, usamos o valor fixo da stake do mestre?
-            // Ou tentamos calcular % se tivermos o saldo do mestre? (Não temos aqui fácil).
-
-            // Se o modo for proportion, a lógica "correta" seria (StakeMestre / BancaMestre) * BancaCopiador * Multiplicador.
-            // Sem BancaMestre, fica difícil.
-            // Alternativa: Se for proportion, usar o valor da stake do mestre * multiplicador? (Não é bem proporção de banca).
-
-            // DADO O CONTEXTO DA IA: "Orion" decide valor dinâmico (Martingale/Soros).
-            // O ideal seria o copiador seguir a "Intenção" de risco.
-            // Se o mestre entrou com $0.35 (minimo), e copiador tem banca milionária, deveria entrar com mais?
-            // Se allocation_type for proportion, sim.
-
-            // Vamos assumir que se não tiver percent, usamos StakeMestre como base? Não faz sentido pra proportion de banca.
-            // VAMOS USAR A LÓGICA DE PERCENTUAL SE DISPONÍVEL, SENÃO FIXO?
-            // Mas espere, na replicateManualOperation o 'operation' tráz .percent.
-            // Na replicateAIOperation 'operationData' NÃO tráz .percent.
-
-            // VOU ADICIONAR 'percent' ao replicateAIOperation params se possível, ou calcular.
-            // Mas por enquanto, vou usar o 'allocationValue' como base fixa se não tiver como calcular %? 
-            // NÃO. O usuário disse "use a tabela de config".
-
-            // Se a config do usuário diz "PROPORTION" e temos allocationValue (banca do usuário).
-            // E a operação é de IA.
-            // A IA operou com $X.
-            // Se não sei quanto $X representa da banca da IA, não sei a % para replicar.
-
-            // SOLUÇÃO: O usuário disse "as apostas sempre vão sem seguindo o valor de entrada do trader mestre".
-            // Talvez ele queira dizer: Se for 'fixed', usa o valor da config dele.
-            // Se for 'proportion', ele quer seguir a %?
-
-            // Vou manter simples: Se for Fixed, usa copier.allocationValue.
-            // Se for Proportion: Tentar usar (StakeMestre / CapitalInicialMestre)?
-            // Na falta de dados, vou usar o StakeMestre * Multiplier?
-
-            // Vamos usar o StakeMestre como 'Base' se não tivermos info de banco mestre. 
-            // Ou melhor, vou alterar para usar allocationValue como FIXO se o tipo for FIXED.
-            // Se for PROPORTION, como falta info, vou logar warning e usar StakeMestre * Multiplier?
-
-            // OBSERVAÇÃO: "as apostas sempre vão sem seguindo o valor de entrada do trader mestre ou a porcentagem que ele usar"
-            // Se o mestre usou valor X. 
-            // Se o usuário configurar "Valor Fixo de $10", ele quer entrar com $10, independente do mestre entrar com $0.35 ou $100.
-            // É isso que "tabela de config" significa.
-
-            if (copier.allocationType === 'fixed') {
-              followerStakeAmount = copier.allocationValue || 0.35;
-            } else {
-              // Proportion: Sem percentual do mestre, vamos usar o StakeMestre * (Multiplier/100)?
-              // Ou simplesmente replicar o StakeMestre? 
-              // O usuário disse "seguindo o valor de entrada... OU a porcentagem".
-
-              // Se allocation_type é 'proportion', vamos tentar seguir a proporção se 'operationData' tiver percent (preciso adicionar no caller?), 
-              // SENÃO usamos o valor do Mestre.
-              // Como operationData não tem percent no tipo, vou assumir copy 1:1 * multiplier por enquanto, 
-              // ou melhor, APENAS FIXO funciona bem. Proportion em IA é complexo sem saldo mestre.
-
-              // Porem, se eu olhar o `OrionStrategy`, ele calcula `percent` e manda no manualOperation!
-              // Mas aqui estamos no `replicateAIOperation`.
-              // O `OrionStrategy` chama `updateCopyTradingOperationsResult` mas NÃO chama `replicateAIOperation`?
-              // ESPERE. O `OrionStrategy` chama `replicateManualOperation` (linha 2655 do Orion)!
-              // "await this.copyTradingService.replicateManualOperation(..."
-
-              // ENTÃO O `replicateAIOperation` PODE NÃO ESTAR SENDO USADO PELA ORION!
-              // Se Orion usa `replicateManualOperation`, então minha mudança anterior já resolve para Orion!
-
-              // Mas vou atualizar aqui também caso outra estratégia use.
-              // Vou assumir Fixed = Config Value, Proportion = StakeMestre (fallback).
-
-              if (copier.allocationType === 'fixed') {
-                followerStakeAmount = copier.allocationValue;
-              } else {
-                // Fallback proportion: StakeMestre * (AllocationPercentage/100 se existir, senao 1)
-                const multi = (copier.allocationPercentage || 100) / 100;
-                followerStakeAmount = operationData.stakeAmount * multi;
-              }
-            }
-          } else {
-            // Se allocationType nao definido ou 'fixed'
-            followerStakeAmount = copier.allocationValue || 0.35;
-          }
-
-          // Validar Mínimo
-          if (followerStakeAmount < 0.35) followerStakeAmount = 0.35;
-          followerStakeAmount = Math.round(followerStakeAmount * 100) / 100;
-
-          this.logger.log(
-            `[ReplicateAIOperation] Replicando para copiador ${copier.userId} - Stake: $${followerStakeAmount.toFixed(2)}`,
-          );
-
-          // Gravar operação na tabela copy_trading_operations
-          // Usar contractId como trader_operation_id (mesmo que esteja vazio, será atualizado depois)
-          await this.dataSource.query(
-            `INSERT INTO copy_trading_operations 
-             (session_id, user_id, trader_operation_id, operation_type, symbol, duration,
-              stake_amount, result, profit, leverage, allocation_type, allocation_value,
-              executed_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, FROM_UNIXTIME(?))`,
-            [
-              activeSession.id,
-              copier.userId,
-              operationData.contractId || `ai_trade_${operationData.tradeId}`, // Usar tradeId como fallback
-              operationData.contractType,
-              operationData.symbol || null,
-              operationData.duration || null,
-              followerStakeAmount,
-              'pending', // Resultado será atualizado quando o contrato for fechado
-              0, // Profit será atualizado quando o contrato for fechado
-              '1x', // Sem leverage para IA
-              'fixed', // Sempre fixo (mesmo valor)
-              followerStakeAmount,
-              operationData.entryTime,
-            ],
-          );
-
-          // Atualizar estatísticas da sessão
-          const newTotalOperations = (activeSession.totalOperations || 0) + 1;
-
-          await this.dataSource.query(
-            `UPDATE copy_trading_sessions 
-             SET total_operations = ?,
-                 last_operation_at = NOW()
-             WHERE id = ?`,
-            [newTotalOperations, activeSession.id],
-          );
-
-          this.logger.log(
-            `[ReplicateAIOperation] ✅ Operação IA replicada para copiador ${copier.userId} - Session: ${activeSession.id}, Stake: $${followerStakeAmount.toFixed(2)}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `[ReplicateAIOperation] Erro ao replicar para copiador ${copier.userId}: ${error.message}`,
-            error.stack,
-          );
-          // Continuar com os próximos copiadores mesmo se houver erro
-        }
-      }
-
-      this.logger.log(`[ReplicateAIOperation] ========== FIM REPLICAÇÃO OPERAÇÃO IA ==========`);
-    } catch (error) {
-      this.logger.error(
-        `[ReplicateAIOperation] Erro ao replicar operação IA: ${error.message}`,
-        error.stack,
-      );
-      throw error;
-    }
-  }
-
-  /**
-   * Atualiza o resultado das operações de copy trading quando o contrato do expert é finalizado
-   */
-  async updateCopyTradingOperationsResult(
-    masterUserId: string,
-    contractId: string,
-    result: 'win' | 'loss',
-    expertProfit: number,
-    expertStakeAmount: number,
-  ): Promise<void> {
-    try {
-      this.logger.log(`[UpdateCopyTradingOperationsResult] ========== ATUALIZANDO RESULTADO OPERAÇÕES ==========`);
-      this.logger.log(`[UpdateCopyTradingOperationsResult] Master trader: ${masterUserId}, ContractId: ${contractId}, Result: ${result}, Expert Profit: ${expertProfit}, Expert Stake: ${expertStakeAmount}`);
-
-      // Buscar todas as operações de copy trading com o mesmo trader_operation_id (contractId do expert)
-      const operations = await this.dataSource.query(
-        `SELECT o.*, s.user_id as copier_user_id, s.id as session_id, s.current_balance, s.total_operations, s.total_wins, s.total_losses, s.total_profit
-         FROM copy_trading_operations o
-         INNER JOIN copy_trading_sessions s ON o.session_id = s.id
-         WHERE o.trader_operation_id = ? AND o.result = 'pending'
-         ORDER BY o.executed_at ASC`,
-        [contractId],
-      );
-
-      if (!operations || operations.length === 0) {
-        this.logger.log(`[UpdateCopyTradingOperationsResult] Nenhuma operação de copy trading encontrada para contractId ${contractId}`);
-        return;
-      }
-
-      this.logger.log(`[UpdateCopyTradingOperationsResult] Encontradas ${operations.length} operações para atualizar`);
-
-      // Atualizar cada operação
-      for (const operation of operations) {
-        try {
-          // Calcular profit proporcional baseado no stake do copiador vs stake do expert
-          const copierStakeAmount = parseFloat(operation.stake_amount) || 0;
-          let copierProfit = 0;
-
-          if (expertStakeAmount > 0) {
-            // Calcular proporção: (stake_copiador / stake_expert) * profit_expert
-            const proportion = copierStakeAmount / expertStakeAmount;
-            copierProfit = expertProfit * proportion;
-          } else {
-            // Se stake do expert for 0, usar profit direto (caso especial)
-            copierProfit = expertProfit;
-          }
-
-          // Arredondar para 2 casas decimais
-          copierProfit = Math.round(copierProfit * 100) / 100;
-
-          this.logger.log(
-            `[UpdateCopyTradingOperationsResult] Atualizando operação ${operation.id} - Copier: ${operation.copier_user_id}, Stake: $${copierStakeAmount.toFixed(2)}, Profit: $${copierProfit.toFixed(2)}`,
-          );
-
-          // Atualizar a operação
-          await this.dataSource.query(
-            `UPDATE copy_trading_operations 
-             SET result = ?,
-                 profit = ?,
-                 closed_at = NOW()
-             WHERE id = ?`,
-            [result, copierProfit, operation.id],
-          );
-
-          // Atualizar estatísticas da sessão
-          const sessionId = operation.session_id;
-          const currentBalance = parseFloat(operation.current_balance) || 0;
-
-          // Retornar o stake + profit ao saldo (stake foi debitado quando a operação foi criada)
-          const newBalance = currentBalance + copierStakeAmount + copierProfit;
-
-          const totalOperations = (operation.total_operations || 0);
-          const totalWins = result === 'win' ? (operation.total_wins || 0) + 1 : (operation.total_wins || 0);
-          const totalLosses = result === 'loss' ? (operation.total_losses || 0) + 1 : (operation.total_losses || 0);
-          const totalProfit = (parseFloat(operation.total_profit) || 0) + copierProfit;
-
-          await this.dataSource.query(
-            `UPDATE copy_trading_sessions 
-             SET current_balance = ?,
-                 total_wins = ?,
-                 total_losses = ?,
-                 total_profit = ?
-             WHERE id = ?`,
-            [newBalance, totalWins, totalLosses, totalProfit, sessionId],
-          );
-
-          // Verificar stop loss e take profit
-          const sessionConfig = await this.dataSource.query(
-            `SELECT stop_loss, take_profit FROM copy_trading_config 
-             WHERE user_id = ? AND is_active = 1 LIMIT 1`,
-            [operation.copier_user_id],
-          );
-
-          if (sessionConfig && sessionConfig.length > 0) {
-            const stopLoss = parseFloat(sessionConfig[0].stop_loss) || 0;
-            const takeProfit = parseFloat(sessionConfig[0].take_profit) || 0;
-
-            // Verificar stop loss (perda acumulada)
-            const lossAmount = Math.abs(totalProfit < 0 ? totalProfit : 0);
-            if (stopLoss > 0 && lossAmount >= stopLoss) {
-              this.logger.warn(
-                `[UpdateCopyTradingOperationsResult] Stop loss atingido para sessão ${sessionId} - Loss: $${lossAmount.toFixed(2)}, Stop Loss: $${stopLoss.toFixed(2)}`,
-              );
-              await this.endSession(sessionId, operation.copier_user_id, 'stop_loss', `Stop loss atingido: $${lossAmount.toFixed(2)}`);
-            }
-
-            // Verificar take profit (lucro acumulado)
-            if (takeProfit > 0 && totalProfit >= takeProfit) {
-              this.logger.log(
-                `[UpdateCopyTradingOperationsResult] Take profit atingido para sessão ${sessionId} - Profit: $${totalProfit.toFixed(2)}, Take Profit: $${takeProfit.toFixed(2)}`,
-              );
-              await this.endSession(sessionId, operation.copier_user_id, 'take_profit', `Take profit atingido: $${totalProfit.toFixed(2)}`);
-            }
-          }
-
-          this.logger.log(
-            `[UpdateCopyTradingOperationsResult] ✅ Operação ${operation.id} atualizada - Result: ${result}, Profit: $${copierProfit.toFixed(2)}, New Balance: $${newBalance.toFixed(2)}`,
-          );
-        } catch (error) {
-          this.logger.error(
-            `[UpdateCopyTradingOperationsResult] Erro ao atualizar operação ${operation.id}: ${error.message}`,
-            error.stack,
-          );
-          // Continuar com as próximas operações mesmo se houver erro
-        }
-      }
-
-      this.logger.log(`[UpdateCopyTradingOperationsResult] ========== FIM ATUALIZAÇÃO RESULTADO OPERAÇÕES ==========`);
-    } catch (error) {
-      this.logger.error(
-        `[UpdateCopyTradingOperationsResult] Erro ao atualizar resultado das operações: ${error.message}`,
-        error.stack,
-      );
-      throw error;
-    }
-  }
-
   /**
    * Verifica se um usuário é trader mestre (pode ter operações copiadas)
    */
@@ -1084,8 +780,7 @@ export class CopyTradingService {
       );
 
       if (userResult && userResult.length > 0) {
-        const role = userResult[0].role?.toLowerCase() || '';
-        if (role === 'trader' || role === 'master' || role === 'admin') {
+        if (hasPermission(userResult[0].role, Permission.COPY_TRADING_MASTER)) {
           return true;
         }
       }
@@ -1131,21 +826,13 @@ export class CopyTradingService {
   }
 
   /**
-   * Replica uma operação do trader mestre para todos os copiadores ativos
+   * Replica a compra confirmada do trader mestre: cada copiador ativo abre o próprio contrato
+   * na Deriv, dimensionado pela alocação e alavancagem da sessão. O resultado de cada copiador
+   * vem do próprio contrato (proposal_open_contract), não do resultado do mestre.
    */
   async replicateTradeToFollowers(
     masterUserId: string,
-    tradeData: {
-      operationType: string; // CALL, PUT, DIGITEVEN, DIGITODD, etc
-      stakeAmount: number; // Valor investido pelo mestre
-      result: 'win' | 'loss' | 'pending';
-      profit: number; // Lucro/perda do mestre
-      executedAt: Date;
-      closedAt?: Date;
-      duration?: number;
-      symbol?: string;
-      traderOperationId?: string; // ID da operação original
-    },
+    fill: MasterTradeFill,
   ): Promise<void> {
     try {
       // Verificar se é trader mestre
@@ -1156,7 +843,7 @@ export class CopyTradingService {
       }
 
       this.logger.log(
-        `[ReplicateTrade] Replicando operação do trader mestre ${masterUserId} - Tipo: ${tradeData.operationType}, Resultado: ${tradeData.result}, Profit: ${tradeData.profit}`,
+        `[ReplicateTrade] Replicando compra do trader mestre ${masterUserId} - ${fill.contractType} ${fill.symbol}, Contrato: ${fill.contractId}, Buy: $${fill.buyPrice.toFixed(2)}`,
       );
 
       // Buscar todas as sessões ativas copiando esse trader
@@ -1165,7 +852,11 @@ export class CopyTradingService {
           s.*, 
           c.allocation_type, c.allocation_value, c.allocation_percentage,
           c.leverage, c.stop_loss, c.take_profit, c.currency, c.deriv_token,
-          u.token_demo, u.token_real, us.trade_currency, u.deriv_raw
+          c.filter_contract_types, c.filter_symbols, c.filter_max_stake,
+          c.filter_max_daily_operations, c.filter_trading_start, c.filter_trading_end,
+          u.token_demo, u.token_real, u.token_demo_currency, u.token_real_currency,
+          u.real_amount, u.demo_amount,
+          us.trade_currency, us.timezone, u.deriv_raw
          FROM copy_trading_sessions s
          INNER JOIN copy_trading_config c ON s.config_id = c.id
          INNER JOIN users u ON s.user_id = u.id
@@ -1173,7 +864,7 @@ export class CopyTradingService {
          WHERE s.trader_id = ? AND s.status = 'active'
          ORDER BY s.started_at ASC`,
         [masterUserId],
-      );
+      ).then((rows) => rows.map((row) => this.decryptCredentials(row)));
 
       if (!activeSessions || activeSessions.length === 0) {
         this.logger.debug(`[ReplicateTrade] Nenhum copiador ativo para trader ${masterUserId}`);
@@ -1182,60 +873,24 @@ export class CopyTradingService {
 
       this.logger.log(`[ReplicateTrade] Encontradas ${activeSessions.length} sessões ativas para replicar`);
 
-      // Replicar para cada sessão ativa
-      for (const session of activeSessions) {
-        try {
-          // ✅ Lógica de Resolução de Token
-          const preferredCurrency = (session.trade_currency || session.currency || 'USD').toUpperCase();
-          let resolvedToken = session.deriv_token || ''; // Começa com o da config (que não veio na query original, oops, vamos assumir que pode vir do c.deriv_token se adicionarmos)
-          // Mas deriv_token está em copy_trading_config (c). Adicionando c.deriv_token na query.
-
-          // 1. Tentar usar token explícito da tabela users se disponível
-          if (preferredCurrency === 'DEMO' && session.token_demo) {
-            resolvedToken = session.token_demo;
-          } else if (preferredCurrency !== 'DEMO' && session.token_real) {
-            resolvedToken = session.token_real;
-          } else {
-            // Fallback
-            let wantDemo = preferredCurrency === 'DEMO';
-            const derivRaw = session.deriv_raw;
-            if (preferredCurrency === 'USD' && derivRaw) {
-              try {
-                const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-                if (raw?.loginid?.startsWith('VRTC')) wantDemo = true;
-              } catch (e) { }
-            }
-            if (wantDemo && derivRaw) {
-              try {
-                const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-                const tokens = raw.tokensByLoginId || {};
-                const entry = Object.entries(tokens).find(([lid]) => (lid as string).startsWith('VRTC'));
-                if (entry) resolvedToken = entry[1] as string;
-              } catch (e) { }
-            } else if (!wantDemo && derivRaw) {
-              try {
-                const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-                const tokens = raw.tokensByLoginId || {};
-                const entry = Object.entries(tokens).find(([lid]) => !(lid as string).startsWith('VRTC'));
-                if (entry) resolvedToken = entry[1] as string;
-              } catch (e) { }
+      // Compras em paralelo: quanto antes cada copiador entra, menor o slippage
+      await Promise.all(
+        activeSessions.map(async (session) => {
+          try {
+            const account = this.resolveCopierAccount(session, session.trade_currency || session.currency);
+            if (!account) {
+              this.logger.warn(`[ReplicateTrade] Copiador ${session.user_id} sem token válido. Ignorando.`);
+              return;
             }
+            await this.replicateTradeToSession(session, fill, account);
+          } catch (error) {
+            this.logger.error(
+              `[ReplicateTrade] Erro ao replicar para sessão ${session.id}: ${error.message}`,
+              error.stack,
+            );
           }
-
-          // Adicionar o token resolvido à sessão para uso no replicateTradeToSession
-          // Se replicateTradeToSession precisar executar trade, ele usará este token.
-          // Atualmente replicateTradeToSession apenas insere no banco, mas passaremos para manter consistência.
-          session.resolvedToken = resolvedToken;
-
-          await this.replicateTradeToSession(session, tradeData, resolvedToken);
-        } catch (error) {
-          this.logger.error(
-            `[ReplicateTrade] Erro ao replicar para sessão ${session.id}: ${error.message}`,
-            error.stack,
-          );
-          // Continua para próxima sessão mesmo se uma falhar
-        }
-      }
+        }),
+      );
     } catch (error) {
       this.logger.error(
         `[ReplicateTrade] Erro ao replicar operação: ${error.message}`,
@@ -1245,139 +900,340 @@ export class CopyTradingService {
   }
 
   /**
-   * Replica uma operação para uma sessão específica
+   * Abre o contrato espelhado de uma sessão e registra a execução comparada à do mestre
    */
   private async replicateTradeToSession(
     session: any,
-    tradeData: {
-      operationType: string;
-      stakeAmount: number;
-      result: 'win' | 'loss' | 'pending';
-      profit: number;
-      executedAt: Date;
-      closedAt?: Date;
-      duration?: number;
-      symbol?: string;
-      traderOperationId?: string;
-    },
-    derivToken?: string,
+    fill: MasterTradeFill,
+    account: { token: string; currency: string; isDemo: boolean },
   ): Promise<void> {
+    // Stake pela proporção do mestre (ou valor fixo), limitada ao saldo atual da conta
+    const { stake: followerStakeAmount, skipReason: stakeSkipReason } = computeFollowerStake({
+      allocationType: session.allocation_type,
+      allocationValue: parseFloat(session.allocation_value) || 0,
+      allocationPercentage: parseFloat(session.allocation_percentage) || null,
+      leverage: this.parseLeverage(session.leverage),
+      masterStakePercent: fill.stakePercent ?? null,
+      followerBalance: parseFloat(account.isDemo ? session.demo_amount : session.real_amount) || 0,
+    });
+
+    // Filtros do copiador e limites do plano: operações fora deles ficam registradas como 'skipped'
+    const skipReason =
+      stakeSkipReason ??
+      (await this.checkCopyFilters(session, fill, followerStakeAmount)) ??
+      (await this.planPermissionsService.checkTrade(session.user_id, {
+        product: 'copy_trading',
+        stake: followerStakeAmount,
+        symbol: fill.symbol,
+        accountType: account.isDemo ? 'demo' : 'real',
+      }));
+    if (skipReason) {
+      await this.recordSkippedOperation(session, fill, followerStakeAmount, skipReason);
+      return;
+    }
+
+    let purchase: ContractPurchase;
     try {
-      // Calcular valor a ser investido pelo copiador baseado nas configurações
-      let followerStakeAmount = 0;
+      purchase = await this.settlementSource.buyContract({
+        token: account.token,
+        symbol: fill.symbol,
+        contractType: fill.contractType,
+        amount: followerStakeAmount,
+        currency: account.currency,
+        duration: fill.duration,
+        durationUnit: fill.durationUnit,
+        barrier: fill.barrier,
+      });
+    } catch (error) {
+      this.logger.error(
+        `[ReplicateTrade] ❌ Compra recusada para copiador ${session.user_id} (sessão ${session.id}): ${error.message}`,
+      );
+      return;
+    }
 
-      if (session.allocation_type === 'proportion') {
-        // Proporção: usar percentual do saldo inicial
-        const percentage = parseFloat(session.allocation_percentage) || 100;
-        followerStakeAmount = (session.initial_balance * percentage) / 100;
-      } else {
-        // Valor fixo: usar o valor configurado
-        followerStakeAmount = parseFloat(session.allocation_value) || 0;
-      }
+    const fillDelayMs = Math.max(0, Date.now() - fill.filledAt.getTime());
+    const fillSpot = purchase.spot ?? null;
+    const masterSpot = fill.spot ?? null;
+    const entrySlippage =
+      fillSpot !== null && masterSpot !== null
+        ? Number((fillSpot - masterSpot).toFixed(6))
+        : null;
+    const payoutDiff =
+      purchase.buyPrice > 0 && fill.buyPrice > 0 && fill.payout
+        ? Number((purchase.payout / purchase.buyPrice - fill.payout / fill.buyPrice).toFixed(4))
+        : null;
+
+    // Criar registro da operação replicada (resultado vem do contrato do copiador)
+    const insertResult = await this.dataSource.query(
+      `INSERT INTO copy_trading_operations 
+       (session_id, user_id, trader_operation_id, contract_id, operation_type, barrier, symbol, duration,
+        stake_amount, buy_price, expected_payout, fill_spot, master_buy_price, master_expected_payout,
+        master_fill_spot, entry_slippage, payout_diff, fill_delay_ms,
+        result, profit, leverage, allocation_type, allocation_value, executed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, FROM_UNIXTIME(?))`,
+      [
+        session.id,
+        session.user_id,
+        fill.traderOperationId,
+        purchase.contractId,
+        fill.contractType,
+        fill.barrier ?? null,
+        fill.symbol,
+        fill.duration,
+        followerStakeAmount,
+        purchase.buyPrice,
+        purchase.payout,
+        fillSpot,
+        fill.buyPrice,
+        fill.payout,
+        masterSpot,
+        entrySlippage,
+        payoutDiff,
+        fillDelayMs,
+        'pending',
+        0,
+        session.leverage,
+        session.allocation_type,
+        session.allocation_value,
+        purchase.purchaseTime,
+      ],
+    );
+    this.tradeLedger?.sync('copy', insertResult.insertId, {
+      accountType: account.isDemo ? 'demo' : 'real',
+      currency: account.currency,
+    });
 
-      // Aplicar alavancagem
-      const leverageMultiplier = this.parseLeverage(session.leverage);
-      followerStakeAmount = followerStakeAmount * leverageMultiplier;
+    await this.dataSource.query(
+      `UPDATE copy_trading_sessions 
+       SET total_operations = total_operations + 1,
+           last_operation_at = NOW()
+       WHERE id = ?`,
+      [session.id],
+    );
+
+    this.logger.log(
+      `[ReplicateTrade] ✅ Contrato ${purchase.contractId} aberto para sessão ${session.id} - Stake: $${followerStakeAmount.toFixed(2)}, Atraso: ${fillDelayMs}ms, Slippage: ${entrySlippage ?? '-'}, Payout diff: ${payoutDiff ?? '-'}`,
+    );
+
+    // Acompanhar o contrato do copiador até o encerramento sem bloquear os demais
+    void this.settleFollowerOperation(
+      insertResult.insertId,
+      session,
+      account.token,
+      purchase.contractId,
+      getSettlementTimeoutMs(fill.duration, fill.durationUnit),
+    );
+  }
 
-      // Garantir valor mínimo
-      if (followerStakeAmount < 0.01) {
-        this.logger.warn(
-          `[ReplicateTrade] Valor calculado muito baixo para sessão ${session.id}: ${followerStakeAmount}`,
-        );
-        return;
-      }
+  private async checkCopyFilters(
+    session: any,
+    fill: MasterTradeFill,
+    stakeAmount: number,
+  ): Promise<string | null> {
+    const filters = copyFiltersFromRow(session);
+    const timeZone = resolveTimeZone(session.timezone);
+    const now = new Date();
+
+    let operationsToday = 0;
+    if (filters.maxDailyOperations !== null) {
+      const [row] = await this.dataSource.query(
+        `SELECT COUNT(*) AS total FROM copy_trading_operations
+         WHERE user_id = ? AND result <> 'skipped' AND executed_at >= ?`,
+        [session.user_id, startOfDayInTimeZone(now, timeZone)],
+      );
+      operationsToday = parseInt(row?.total, 10) || 0;
+    }
 
-      // Calcular lucro/perda proporcional ao valor investido
-      const profitRatio = tradeData.stakeAmount > 0 ? tradeData.profit / tradeData.stakeAmount : 0;
-      const followerProfit = followerStakeAmount * profitRatio;
+    return evaluateCopyFilters(filters, {
+      contractType: fill.contractType,
+      symbol: fill.symbol,
+      stakeAmount,
+      now,
+      timeZone,
+      operationsToday,
+    });
+  }
 
-      // Criar registro da operação replicada
-      await this.dataSource.query(
-        `INSERT INTO copy_trading_operations 
-         (session_id, user_id, trader_operation_id, operation_type, symbol, duration,
-          stake_amount, result, profit, leverage, allocation_type, allocation_value,
-          executed_at, closed_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          session.id,
-          session.user_id,
-          tradeData.traderOperationId || null,
-          tradeData.operationType,
-          tradeData.symbol || null,
-          tradeData.duration || null,
-          followerStakeAmount,
-          tradeData.result,
-          followerProfit,
-          session.leverage,
-          session.allocation_type,
-          session.allocation_value,
-          tradeData.executedAt,
-          tradeData.closedAt || null,
-        ],
+  private async recordSkippedOperation(
+    session: any,
+    fill: MasterTradeFill,
+    stakeAmount: number,
+    reason: string,
+  ): Promise<void> {
+    await this.dataSource.query(
+      `INSERT INTO copy_trading_operations 
+       (session_id, user_id, trader_operation_id, operation_type, barrier, symbol, duration,
+        stake_amount, master_buy_price, master_expected_payout, master_fill_spot,
+        result, skip_reason, profit, leverage, allocation_type, allocation_value, executed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'skipped', ?, 0, ?, ?, ?, NOW())`,
+      [
+        session.id,
+        session.user_id,
+        fill.traderOperationId,
+        fill.contractType,
+        fill.barrier ?? null,
+        fill.symbol,
+        fill.duration,
+        stakeAmount,
+        fill.buyPrice,
+        fill.payout,
+        fill.spot ?? null,
+        reason.slice(0, 255),
+        session.leverage,
+        session.allocation_type,
+        session.allocation_value,
+      ],
+    );
+
+    this.logger.log(
+      `[ReplicateTrade] ⏭️ Operação ${fill.contractId} ignorada para sessão ${session.id}: ${reason}`,
+    );
+  }
+
+  /**
+   * Grava o resultado do contrato do copiador e aplica stop loss / take profit da sessão.
+   * Sem confirmação da corretora a operação permanece 'pending'.
+   */
+  private async settleFollowerOperation(
+    operationId: number,
+    session: any,
+    token: string,
+    contractId: string,
+    timeoutMs?: number,
+  ): Promise<void> {
+    let settlement: ContractSettlement;
+    try {
+      settlement = await this.settlementSource.waitForSettlement(token, contractId, timeoutMs);
+    } catch (error) {
+      this.logger.error(
+        `[SettleFollower] ❌ Falha ao acompanhar contrato ${contractId} (operação ${operationId}): ${error.message}`,
       );
+      return;
+    }
 
-      // Atualizar estatísticas da sessão
-      const won = tradeData.result === 'win';
-      const newBalance = parseFloat(session.current_balance) + followerProfit;
-      const newTotalOperations = (session.total_operations || 0) + 1;
-      const newTotalWins = won ? (session.total_wins || 0) + 1 : session.total_wins || 0;
-      const newTotalLosses = !won ? (session.total_losses || 0) + 1 : session.total_losses || 0;
-      const newTotalProfit = parseFloat(session.total_profit || 0) + followerProfit;
+    try {
+      const won = settlement.status === 'won';
+      const profit = Math.round(settlement.profit * 100) / 100;
+      const closedAt = settlement.sellTime ? new Date(settlement.sellTime * 1000) : new Date();
+
+      const updated = await this.dataSource.query(
+        `UPDATE copy_trading_operations 
+         SET result = ?, profit = ?, payout = ?, closed_at = ?
+         WHERE id = ? AND result = 'pending'`,
+        [won ? 'win' : 'loss', profit, settlement.sellPrice, closedAt, operationId],
+      );
+      if (!updated?.affectedRows) return;
+      this.tradeLedger?.sync('copy', operationId);
 
       await this.dataSource.query(
         `UPDATE copy_trading_sessions 
-         SET current_balance = ?,
-             total_operations = ?,
-             total_wins = ?,
-             total_losses = ?,
-             total_profit = ?,
-             last_operation_at = NOW()
+         SET current_balance = current_balance + ?,
+             total_wins = total_wins + ?,
+             total_losses = total_losses + ?,
+             total_profit = total_profit + ?
          WHERE id = ?`,
-        [
-          newBalance,
-          newTotalOperations,
-          newTotalWins,
-          newTotalLosses,
-          newTotalProfit,
-          session.id,
-        ],
+        [profit, won ? 1 : 0, won ? 0 : 1, profit, session.id],
       );
 
       this.logger.log(
-        `[ReplicateTrade] Operação replicada para sessão ${session.id} - Stake: $${followerStakeAmount.toFixed(2)}, Profit: $${followerProfit.toFixed(2)}`,
+        `[SettleFollower] Contrato ${contractId} encerrado para sessão ${session.id}: ${settlement.status.toUpperCase()} ($${profit.toFixed(2)})`,
       );
 
-      // Verificar stop loss e take profit
-      const stopLoss = parseFloat(session.stop_loss) || 0;
-      const takeProfit = parseFloat(session.take_profit) || 0;
+      await this.feesService.accrue(session.id, operationId);
 
-      // Verificar stop loss (perda acumulada)
-      const lossAmount = Math.abs(newTotalProfit < 0 ? newTotalProfit : 0);
-      if (stopLoss > 0 && lossAmount >= stopLoss) {
-        this.logger.warn(
-          `[ReplicateTrade] Stop loss atingido para sessão ${session.id} - Loss: $${lossAmount.toFixed(2)}, Stop Loss: $${stopLoss.toFixed(2)}`,
-        );
-        await this.endSession(session.id, session.user_id, 'stop_loss', `Stop loss atingido: $${lossAmount.toFixed(2)}`);
-        return;
-      }
-
-      // Verificar take profit (lucro acumulado)
-      if (takeProfit > 0 && newTotalProfit >= takeProfit) {
-        this.logger.log(
-          `[ReplicateTrade] Take profit atingido para sessão ${session.id} - Profit: $${newTotalProfit.toFixed(2)}, Take Profit: $${takeProfit.toFixed(2)}`,
-        );
-        await this.endSession(session.id, session.user_id, 'take_profit', `Take profit atingido: $${newTotalProfit.toFixed(2)}`);
-        return;
-      }
+      await this.applySessionLimits(session.id);
     } catch (error) {
       this.logger.error(
-        `[ReplicateTradeToSession] Erro ao replicar para sessão: ${error.message}`,
+        `[SettleFollower] Erro ao gravar resultado do contrato ${contractId}: ${error.message}`,
         error.stack,
       );
-      throw error;
     }
   }
 
+  /**
+   * Aplica os limites da sessão após cada resultado: stop loss, take profit e Stop Blindado.
+   *
+   * Stop Blindado (trailing): o pico de lucro da sessão é persistido em profit_peak. Quando o pico
+   * atinge blind_trigger_percent do take profit, blind_protect_percent do pico fica protegido;
+   * se o lucro voltar a esse piso, a sessão é encerrada com 'blind_stop_loss'.
+   */
+  private async applySessionLimits(sessionId: number): Promise<void> {
+    const [session] = await this.dataSource.query(
+      `SELECT s.id, s.user_id, s.total_profit, s.profit_peak,
+              c.stop_loss, c.take_profit, c.blind_stop_loss,
+              c.blind_trigger_percent, c.blind_protect_percent
+       FROM copy_trading_sessions s
+       INNER JOIN copy_trading_config c ON s.config_id = c.id
+       WHERE s.id = ? AND s.status = 'active'`,
+      [sessionId],
+    );
+    if (!session) return;
+
+    const totalProfit = parseFloat(session.total_profit) || 0;
+    const stopLoss = parseFloat(session.stop_loss) || 0;
+    const takeProfit = parseFloat(session.take_profit) || 0;
+
+    // Verificar stop loss (perda acumulada)
+    const lossAmount = Math.abs(totalProfit < 0 ? totalProfit : 0);
+    if (stopLoss > 0 && lossAmount >= stopLoss) {
+      this.logger.warn(
+        `[SessionLimits] Stop loss atingido para sessão ${sessionId} - Loss: $${lossAmount.toFixed(2)}, Stop Loss: $${stopLoss.toFixed(2)}`,
+      );
+      await this.endSession(sessionId, session.user_id, 'stop_loss', `Stop loss atingido: $${lossAmount.toFixed(2)}`);
+      return;
+    }
+
+    // Verificar take profit (lucro acumulado)
+    if (takeProfit > 0 && totalProfit >= takeProfit) {
+      this.logger.log(
+        `[SessionLimits] Take profit atingido para sessão ${sessionId} - Profit: $${totalProfit.toFixed(2)}, Take Profit: $${takeProfit.toFixed(2)}`,
+      );
+      await this.endSession(sessionId, session.user_id, 'take_profit', `Take profit atingido: $${totalProfit.toFixed(2)}`);
+      return;
+    }
+
+    // Pico de lucro persistido por sessão (vale também com o Stop Blindado desligado).
+    // GREATEST no banco: resultados simultâneos da mesma sessão não rebaixam o pico.
+    const previousPeak = parseFloat(session.profit_peak) || 0;
+    const peak = Math.max(previousPeak, totalProfit);
+    if (peak > previousPeak) {
+      await this.dataSource.query(
+        `UPDATE copy_trading_sessions SET profit_peak = GREATEST(COALESCE(profit_peak, 0), ?) WHERE id = ?`,
+        [peak, sessionId],
+      );
+    }
+
+    if (!Number(session.blind_stop_loss) || takeProfit <= 0) return;
+
+    const triggerPercent = parseFloat(session.blind_trigger_percent) || 40;
+    const protectPercent = parseFloat(session.blind_protect_percent) || 50;
+    const triggerValue = takeProfit * (triggerPercent / 100);
+    if (peak < triggerValue) return;
+
+    const floor = Math.round(peak * (protectPercent / 100) * 100) / 100;
+    this.logger.debug(
+      `[StopBlindado][Sessão ${sessionId}] Lucro: $${totalProfit.toFixed(2)} | Pico: $${peak.toFixed(2)} | Piso protegido: $${floor.toFixed(2)} (${protectPercent}%)`,
+    );
+
+    if (totalProfit <= floor) {
+      this.logger.warn(
+        `[StopBlindado][Sessão ${sessionId}] 🛡️ ATIVADO! Lucro $${totalProfit.toFixed(2)} voltou ao piso de $${floor.toFixed(2)} (pico $${peak.toFixed(2)})`,
+      );
+      await this.endSession(
+        sessionId,
+        session.user_id,
+        'blind_stop_loss',
+        `Stop-Loss Blindado ativado: protegeu $${totalProfit.toFixed(2)} de lucro (${protectPercent}% do pico de $${peak.toFixed(2)})`,
+      );
+    }
+  }
+
+  private normalizeBlindPercent(value: number | undefined, fallback: number): number {
+    const percent = Number(value);
+    if (!Number.isFinite(percent) || percent <= 0) return fallback;
+    return Math.min(100, Math.max(1, percent));
+  }
+
   /**
    * Encerra uma sessão de copy trading
    */
@@ -1409,6 +1265,15 @@ export class CopyTradingService {
       );
 
       this.logger.log(`[EndSession] Sessão ${sessionId} encerrada - Motivo: ${reason}`);
+
+      this.notificationEvents?.emit({
+        userId,
+        type: 'copy_session_ended',
+        source: 'copy_trading',
+        title: 'Sessão de copy trading encerrada',
+        message: `Sua sessão de copy trading foi encerrada. ${reasonDescription}`,
+        data: { sessionId, reason },
+      });
     } catch (error) {
       this.logger.error(`[EndSession] Erro ao encerrar sessão: ${error.message}`, error.stack);
       throw error;
@@ -1503,6 +1368,8 @@ export class CopyTradingService {
           END as user_balance,
           u.token_demo,
           u.token_real,
+          u.token_demo_currency,
+          u.token_real_currency,
           u.deriv_raw,
           us.trade_currency,
           
@@ -1534,7 +1401,8 @@ export class CopyTradingService {
         ORDER BY s.started_at DESC
       `;
 
-      const copiers = await this.dataSource.query(query, traderIdsToSearch);
+      const copiers = (await this.dataSource.query(query, traderIdsToSearch))
+        .map((row) => this.decryptCredentials(row));
 
       this.logger.log(`[GetCopiers] Encontrados ${copiers.length} copiadores COM SESSÃO ATIVA.`);
 
@@ -1573,51 +1441,8 @@ export class CopyTradingService {
           derivBalance: parseFloat(copier.user_balance || '0'),
         };
 
-        // ✅ Lógica de Resolução de Token (Igual ao AiService e DerivController)
-        const preferredCurrency = (copier.trade_currency || copier.currency || 'USD').toUpperCase();
-
-        let resolvedToken = copier.deriv_token || ''; // Começa com o da config
-
-        // 1. Tentar usar token explícito da tabela users se disponível
-        if (preferredCurrency === 'DEMO' && copier.token_demo) {
-          resolvedToken = copier.token_demo;
-        } else if (preferredCurrency !== 'DEMO' && copier.token_real) {
-          resolvedToken = copier.token_real;
-        } else {
-          // 2. Fallback: lógica antiga via derivRaw se não houver colunas explícitas
-          let wantDemo = preferredCurrency === 'DEMO';
-          const derivRaw = copier.deriv_raw;
-
-          // Verificar ambiguidade USD no raw
-          if (preferredCurrency === 'USD' && derivRaw) {
-            try {
-              const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-              if (raw?.loginid?.startsWith('VRTC')) {
-                wantDemo = true;
-              }
-            } catch (e) { }
-          }
-
-          if (wantDemo) {
-            if (derivRaw) {
-              try {
-                const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-                const tokens = raw.tokensByLoginId || {};
-                const entry = Object.entries(tokens).find(([lid]) => (lid as string).startsWith('VRTC'));
-                if (entry) resolvedToken = entry[1] as string;
-              } catch (e) { }
-            }
-          } else {
-            if (derivRaw) {
-              try {
-                const raw = typeof derivRaw === 'string' ? JSON.parse(derivRaw) : derivRaw;
-                const tokens = raw.tokensByLoginId || {};
-                const entry = Object.entries(tokens).find(([lid]) => !(lid as string).startsWith('VRTC'));
-                if (entry) resolvedToken = entry[1] as string;
-              } catch (e) { }
-            }
-          }
-        }
+        // ✅ Resolução de Token (DerivAccountResolver)
+        const resolvedToken = this.resolveCopierToken(copier, copier.trade_currency || copier.currency) || '';
 
         result.derivToken = resolvedToken;
         return result;
@@ -1654,115 +1479,50 @@ export class CopyTradingService {
   /**
    * Parse leverage string (ex: "1x", "2x", "5x") para número
    */
-  private parseLeverage(leverage: string): number {
-    if (!leverage) return 1;
-    const match = leverage.match(/(\d+)x?/i);
-    return match ? parseInt(match[1], 10) : 1;
+  /**
+   * Decifra as credenciais Deriv de uma linha (config + users) lida via SQL
+   */
+  private decryptCredentials<T extends Record<string, any>>(row: T): T {
+    return {
+      ...row,
+      deriv_token: this.tokenEncryption.decrypt(row.deriv_token),
+      token_demo: this.tokenEncryption.decrypt(row.token_demo),
+      token_real: this.tokenEncryption.decrypt(row.token_real),
+      deriv_raw: this.tokenEncryption.decryptDerivRaw(row.deriv_raw),
+    };
   }
 
   /**
-   * Executa trade na Deriv API para um copiador
+   * Token do copiador conforme a conta preferida (DerivAccountResolver).
+   * Sem conta correspondente, usa o token salvo na config de copy trading.
+   * `row` é uma linha de copy_trading_config/sessions com as colunas de token de users.
    */
-  public async executeCopierTrade(
-    userId: string,
-    tradeConfig: {
-      symbol: string;
-      contractType: string;
-      duration: number;
-      durationUnit: string;
-      stakeAmount: number;
-      derivToken: string;
-      barrier?: number;
-    },
-  ): Promise<string | null> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        this.logger.log(
-          `[ExecuteCopierTrade] Executando trade para copiador ${userId} - Symbol: ${tradeConfig.symbol}, Type: ${tradeConfig.contractType}, Stake: $${tradeConfig.stakeAmount.toFixed(2)}`,
-        );
-
-        // Get or create WebSocket service for this copier
-        const wsService = this.wsManager.getOrCreateService(userId);
-
-        // Connect if not connected
-        const isConnected = await wsService.connect(tradeConfig.derivToken).catch((error) => {
-          this.logger.error(`[ExecuteCopierTrade] Erro ao conectar WebSocket para ${userId}: ${error.message}`);
-          return false;
-        });
-
-        if (!isConnected) {
-          this.logger.error(`[ExecuteCopierTrade] Falha ao conectar para ${userId}`);
-          resolve(null);
-          return;
-        }
+  resolveCopierToken(row: any, currency?: string | null): string | null {
+    return this.resolveCopierAccount(row, currency)?.token ?? null;
+  }
 
-        // Subscribe to proposal
-        wsService.subscribeToProposal({
-          symbol: tradeConfig.symbol,
-          contractType: tradeConfig.contractType,
-          duration: tradeConfig.duration,
-          durationUnit: tradeConfig.durationUnit,
-          amount: tradeConfig.stakeAmount,
-          barrier: tradeConfig.barrier
-        });
-
-        // Wait for proposal and buy
-        const proposalTimeout = setTimeout(() => {
-          this.logger.error(`[ExecuteCopierTrade] Timeout aguardando proposta para ${userId}`);
-          resolve(null);
-        }, 10000); // 10 seconds timeout
-
-        (wsService as any).once('proposal', (proposal: any) => {
-          clearTimeout(proposalTimeout);
-
-          this.logger.log(`[ExecuteCopierTrade] Proposta recebida para ${userId}: ${proposal.id}, Price: $${proposal.askPrice}`);
-
-          // Buy the contract
-          wsService.buyContract({
-            proposalId: proposal.id,
-            price: proposal.askPrice,
-            durationUnit: tradeConfig.durationUnit,
-            duration: tradeConfig.duration,
-            contractType: tradeConfig.contractType
-          });
-
-          // Wait for buy confirmation
-          const buyTimeout = setTimeout(() => {
-            this.logger.error(`[ExecuteCopierTrade] Timeout aguardando confirmação de compra para ${userId}`);
-            resolve(null);
-          }, 10000);
-
-          (wsService as any).once('buy', (buyData: any) => {
-            clearTimeout(buyTimeout);
-
-            this.logger.log(
-              `[ExecuteCopierTrade] ✅ Trade executado para ${userId}: Contract ID: ${buyData.contractId}, Buy Price: $${buyData.buyPrice}`,
-            );
+  private resolveCopierAccount(
+    row: any,
+    currency?: string | null,
+  ): { token: string; currency: string; isDemo: boolean } | null {
+    try {
+      const account = this.derivAccountResolver.resolveFromRecord(row.user_id, row, { currency });
+      return { token: account.token, currency: account.currency, isDemo: account.isDemo };
+    } catch (error) {
+      if (!(error instanceof DerivAccountResolutionError)) throw error;
+      this.logger.debug(`[CopyTrading] ${error.message}. Usando token da config.`);
+      const token = this.tokenEncryption.decrypt(row.deriv_token);
+      const configCurrency = (row.currency || 'USD').toUpperCase();
+      return token
+        ? { token, currency: configCurrency === 'DEMO' ? 'USD' : configCurrency, isDemo: configCurrency === 'DEMO' }
+        : null;
+    }
+  }
 
-            resolve(buyData.contractId);
-          });
-
-          (wsService as any).once('error', (error: any) => {
-            clearTimeout(buyTimeout);
-            this.logger.error(`[ExecuteCopierTrade] Erro ao comprar contrato para ${userId}: ${error.message || JSON.stringify(error)}`);
-            resolve(null);
-          });
-        });
-
-        (wsService as any).once('error', (error: any) => {
-          clearTimeout(proposalTimeout);
-          this.logger.error(`[ExecuteCopierTrade] Erro na proposta para ${userId}: ${error.message || JSON.stringify(error)}`);
-          resolve(null);
-        });
-
-      } catch (error) {
-        this.logger.error(
-          `[ExecuteCopierTrade] Erro ao executar trade para ${userId}: ${error.message}`,
-          error.stack,
-        );
-        resolve(null);
-      }
-    });
+  private parseLeverage(leverage: string): number {
+    if (!leverage) return 1;
+    const match = leverage.match(/(\d+)x?/i);
+    return match ? parseInt(match[1], 10) : 1;
   }
 }
 
@@ -0,0 +1,368 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+
+export const LEADERBOARD_WINDOWS = [7, 30, 90] as const;
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number];
+
+export type LeaderboardSortBy =
+  | 'roi'
+  | 'winRate'
+  | 'totalProfit'
+  | 'maxDrawdown'
+  | 'activeCopiers'
+  | 'copiedVolume'
+  | 'totalTrades';
+
+export const LEADERBOARD_MAX_LIMIT = 100;
+
+export interface LeaderboardFilters {
+  window?: LeaderboardWindow;
+  sortBy?: LeaderboardSortBy;
+  minTrades?: number;
+  minWinRate?: number;
+  maxDrawdownPercent?: number;
+  verifiedOnly?: boolean;
+  specialty?: string;
+  limit?: number;
+}
+
+export interface TraderStats {
+  traderId: string;
+  windowDays: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalStake: number;
+  totalProfit: number;
+  roi: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  avgStake: number;
+  activeCopiers: number;
+  copiers: number;
+  copiedOperations: number;
+  copiedVolume: number;
+  lastTradeAt: Date | null;
+  computedAt: Date | null;
+}
+
+interface ClosedTrade {
+  stake: number;
+  profit: number;
+  won: boolean;
+  closedAt: Date;
+}
+
+const SORT_COLUMNS: Record<LeaderboardSortBy, string> = {
+  roi: 'st.roi DESC',
+  winRate: 'st.win_rate DESC',
+  totalProfit: 'st.total_profit DESC',
+  maxDrawdown: 'st.max_drawdown_percent ASC',
+  activeCopiers: 'st.active_copiers DESC',
+  copiedVolume: 'st.copied_volume DESC',
+  totalTrades: 'st.total_trades DESC',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Histórico verificado dos traders mestres: as estatísticas são calculadas pelas operações
+ * reais do mestre (trades manuais e ai_trades) e pelas cópias em copy_trading_operations,
+ * em janelas móveis de 7, 30 e 90 dias, e gravadas em master_trader_stats.
+ */
+@Injectable()
+export class TraderLeaderboardService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(TraderLeaderboardService.name);
+  private isRefreshing = false;
+
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  onApplicationBootstrap() {
+    // Primeira carga sem esperar o próximo ciclo do cron (não bloqueia a inicialização)
+    void this.handleRefresh();
+  }
+
+  @Cron(CronExpression.EVERY_30_MINUTES, {
+    name: 'refresh-master-trader-stats',
+  })
+  async handleRefresh() {
+    // Evitar execuções simultâneas
+    if (this.isRefreshing) {
+      this.logger.debug('[TraderStats] Recalculo já em andamento, pulando...');
+      return;
+    }
+
+    this.isRefreshing = true;
+    try {
+      await this.refreshStats();
+    } catch (error) {
+      this.logger.error(
+        `[TraderStats] Erro ao recalcular estatísticas: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Recalcula as estatísticas de todos os traders mestres ativos (ou só do informado)
+   */
+  async refreshStats(traderId?: string): Promise<number> {
+    const masters: Array<{ id: string }> = await this.dataSource.query(
+      `SELECT id FROM users
+       WHERE trader_mestre = 1 AND is_active = 1 ${traderId ? 'AND id = ?' : ''}`,
+      traderId ? [traderId] : [],
+    );
+    if (masters.length === 0) return 0;
+
+    const now = new Date();
+    for (const master of masters) {
+      try {
+        await this.refreshTrader(master.id, now);
+      } catch (error) {
+        this.logger.error(
+          `[TraderStats] Erro ao calcular estatísticas do trader ${master.id}: ${error.message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `[TraderStats] ✅ Estatísticas recalculadas para ${masters.length} trader(s) mestre(s)`,
+    );
+    return masters.length;
+  }
+
+  async getLeaderboard(filters: LeaderboardFilters = {}) {
+    const window = filters.window ?? 30;
+    const orderBy = SORT_COLUMNS[filters.sortBy ?? 'roi'] ?? SORT_COLUMNS.roi;
+    const limit = Math.min(
+      Math.max(Math.floor(Number(filters.limit) || 50), 1),
+      LEADERBOARD_MAX_LIMIT,
+    );
+
+    const conditions = [
+      'st.window_days = ?',
+      'u.trader_mestre = 1',
+      'u.is_active = 1',
+      'st.total_trades >= ?',
+    ];
+    const params: any[] = [window, Math.max(filters.minTrades ?? 1, 0)];
+
+    if (filters.minWinRate !== undefined) {
+      conditions.push('st.win_rate >= ?');
+      params.push(filters.minWinRate);
+    }
+    if (filters.maxDrawdownPercent !== undefined) {
+      conditions.push('st.max_drawdown_percent <= ?');
+      params.push(filters.maxDrawdownPercent);
+    }
+    if (filters.verifiedOnly) {
+      conditions.push('e.is_verified = 1');
+    }
+    if (filters.specialty) {
+      conditions.push('e.specialty = ?');
+      params.push(filters.specialty);
+    }
+
+    const rows = await this.dataSource.query(
+      `SELECT st.*, u.name AS user_name, e.name AS expert_name, e.specialty,
+              e.is_verified, e.avatar_url
+       FROM master_trader_stats st
+       INNER JOIN users u ON u.id = st.trader_id
+       LEFT JOIN experts e ON e.user_id = st.trader_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${orderBy}, st.total_trades DESC
+       LIMIT ?`,
+      [...params, limit],
+    );
+
+    return rows.map((row: any, index: number) => ({
+      rank: index + 1,
+      name: row.expert_name || row.user_name,
+      specialty: row.specialty || 'General',
+      isVerified: row.is_verified === 1,
+      avatarUrl: row.avatar_url || null,
+      ...this.mapStats(row),
+    }));
+  }
+
+  /**
+   * Estatísticas já calculadas por trader para uma janela (traders sem operação ficam de fora)
+   */
+  async getStatsByTrader(
+    traderIds: string[],
+    window: LeaderboardWindow = 30,
+  ): Promise<Map<string, TraderStats>> {
+    const stats = new Map<string, TraderStats>();
+    if (traderIds.length === 0) return stats;
+
+    const rows = await this.dataSource.query(
+      `SELECT * FROM master_trader_stats WHERE window_days = ? AND trader_id IN (?)`,
+      [window, traderIds],
+    );
+    for (const row of rows) {
+      stats.set(row.trader_id, this.mapStats(row));
+    }
+    return stats;
+  }
+
+  private async refreshTrader(traderId: string, now: Date) {
+    const longestWindow = Math.max(...LEADERBOARD_WINDOWS);
+    const since = new Date(now.getTime() - longestWindow * DAY_MS);
+    const trades = await this.loadClosedTrades(traderId, since);
+
+    const [active] = await this.dataSource.query(
+      `SELECT COUNT(DISTINCT user_id) AS total FROM copy_trading_sessions
+       WHERE trader_id = ? AND status = 'active'`,
+      [traderId],
+    );
+    const activeCopiers = parseInt(active?.total, 10) || 0;
+
+    for (const windowDays of LEADERBOARD_WINDOWS) {
+      const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+      const performance = this.computePerformance(
+        trades.filter((trade) => trade.closedAt >= windowStart),
+      );
+
+      const [copies] = await this.dataSource.query(
+        `SELECT COUNT(*) AS operations,
+                COUNT(DISTINCT o.user_id) AS copiers,
+                COALESCE(SUM(o.stake_amount), 0) AS volume
+         FROM copy_trading_operations o
+         INNER JOIN copy_trading_sessions s ON s.id = o.session_id
+         WHERE s.trader_id = ? AND o.result <> 'skipped' AND o.executed_at >= ?`,
+        [traderId, windowStart],
+      );
+
+      await this.dataSource.query(
+        `INSERT INTO master_trader_stats
+           (trader_id, window_days, total_trades, wins, losses, win_rate, total_stake, total_profit,
+            roi, max_drawdown, max_drawdown_percent, avg_stake, active_copiers, copiers,
+            copied_operations, copied_volume, last_trade_at, computed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           total_trades = VALUES(total_trades), wins = VALUES(wins), losses = VALUES(losses),
+           win_rate = VALUES(win_rate), total_stake = VALUES(total_stake),
+           total_profit = VALUES(total_profit), roi = VALUES(roi),
+           max_drawdown = VALUES(max_drawdown), max_drawdown_percent = VALUES(max_drawdown_percent),
+           avg_stake = VALUES(avg_stake), active_copiers = VALUES(active_copiers),
+           copiers = VALUES(copiers), copied_operations = VALUES(copied_operations),
+           copied_volume = VALUES(copied_volume), last_trade_at = VALUES(last_trade_at),
+           computed_at = VALUES(computed_at)`,
+        [
+          traderId,
+          windowDays,
+          performance.totalTrades,
+          performance.wins,
+          performance.losses,
+          performance.winRate,
+          performance.totalStake,
+          performance.totalProfit,
+          performance.roi,
+          performance.maxDrawdown,
+          performance.maxDrawdownPercent,
+          performance.avgStake,
+          activeCopiers,
+          parseInt(copies?.copiers, 10) || 0,
+          parseInt(copies?.operations, 10) || 0,
+          parseFloat(copies?.volume) || 0,
+          performance.lastTradeAt,
+          now,
+        ],
+      );
+    }
+  }
+
+  /**
+   * Operações encerradas do mestre, em ordem cronológica: trades manuais e trades das IAs
+   */
+  private async loadClosedTrades(
+    traderId: string,
+    since: Date,
+  ): Promise<ClosedTrade[]> {
+    const rows = await this.dataSource.query(
+      `SELECT entry_value AS stake, profit, status = 'won' AS won, updated_at AS closed_at
+       FROM trades
+       WHERE user_id = ? AND status IN ('won', 'lost') AND updated_at >= ?
+       UNION ALL
+       SELECT stake_amount AS stake, profit_loss AS profit, status = 'WON' AS won,
+              COALESCE(closed_at, created_at) AS closed_at
+       FROM ai_trades
+       WHERE user_id = ? AND status IN ('WON', 'LOST') AND COALESCE(closed_at, created_at) >= ?
+       ORDER BY closed_at ASC`,
+      [traderId, since, traderId, since],
+    );
+
+    return rows.map((row: any) => ({
+      stake: parseFloat(row.stake) || 0,
+      profit: parseFloat(row.profit) || 0,
+      won: Number(row.won) === 1,
+      closedAt: new Date(row.closed_at),
+    }));
+  }
+
+  /**
+   * ROI e drawdown são relativos ao volume apostado na janela, já que o saldo
+   * do mestre na corretora não é conhecido. O drawdown é a maior queda da curva
+   * de lucro acumulado em relação ao pico anterior.
+   */
+  private computePerformance(trades: ClosedTrade[]) {
+    let wins = 0;
+    let totalStake = 0;
+    let cumulative = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+
+    for (const trade of trades) {
+      if (trade.won) wins++;
+      totalStake += trade.stake;
+      cumulative += trade.profit;
+      peak = Math.max(peak, cumulative);
+      maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    }
+
+    const totalTrades = trades.length;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      totalTrades,
+      wins,
+      losses: totalTrades - wins,
+      winRate: totalTrades > 0 ? round((wins / totalTrades) * 100) : 0,
+      totalStake: round(totalStake),
+      totalProfit: round(cumulative),
+      roi: totalStake > 0 ? round((cumulative / totalStake) * 100) : 0,
+      maxDrawdown: round(maxDrawdown),
+      maxDrawdownPercent:
+        totalStake > 0 ? round((maxDrawdown / totalStake) * 100) : 0,
+      avgStake: totalTrades > 0 ? round(totalStake / totalTrades) : 0,
+      lastTradeAt: totalTrades > 0 ? trades[totalTrades - 1].closedAt : null,
+    };
+  }
+
+  private mapStats(row: any): TraderStats {
+    return {
+      traderId: row.trader_id,
+      windowDays: row.window_days,
+      totalTrades: row.total_trades || 0,
+      wins: row.wins || 0,
+      losses: row.losses || 0,
+      winRate: parseFloat(row.win_rate) || 0,
+      totalStake: parseFloat(row.total_stake) || 0,
+      totalProfit: parseFloat(row.total_profit) || 0,
+      roi: parseFloat(row.roi) || 0,
+      maxDrawdown: parseFloat(row.max_drawdown) || 0,
+      maxDrawdownPercent: parseFloat(row.max_drawdown_percent) || 0,
+      avgStake: parseFloat(row.avg_stake) || 0,
+      activeCopiers: row.active_copiers || 0,
+      copiers: row.copiers || 0,
+      copiedOperations: row.copied_operations || 0,
+      copiedVolume: parseFloat(row.copied_volume) || 0,
+      lastTradeAt: row.last_trade_at || null,
+      computedAt: row.computed_at || null,
+    };
+  }
+}
@@ -14,7 +14,10 @@ import {
   Query,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { JwtService } from '@nestjs/jwt';
+import { RolesGuard } from '../auth/roles.guard';
+import { OptionalJwtAuthGuard } from '../auth/optional-jwt-auth.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission, hasPermission } from '../auth/roles';
 import { CoursesService } from './courses.service';
 import { CreateCourseDto } from './dto/create-course.dto';
 import { UpdateCourseDto } from './dto/update-course.dto';
@@ -73,30 +76,35 @@ const createMaterialUploadOptions = () => createMediaUploadOptions(
 
 @Controller('courses')
 export class CoursesController {
-  constructor(
-    private readonly coursesService: CoursesService,
-    private readonly jwtService: JwtService,
-  ) { }
+  constructor(private readonly coursesService: CoursesService) { }
 
   @Post('upload/cover')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseInterceptors(FileInterceptor('file', createImageUploadOptions('covers')))
   uploadCoverImage(@UploadedFile() file: Express.Multer.File) {
     return this.handleUploadedFile(file, ['courses', 'covers']);
   }
 
   @Post('upload/social')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseInterceptors(FileInterceptor('file', createImageUploadOptions('social')))
   uploadSocialImage(@UploadedFile() file: Express.Multer.File) {
     return this.handleUploadedFile(file, ['courses', 'social']);
   }
 
   @Post('lessons/upload/video')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseInterceptors(FileInterceptor('file', createVideoUploadOptions()))
   uploadLessonVideo(@UploadedFile() file: Express.Multer.File) {
     return this.handleUploadedFile(file, ['lessons', 'videos']);
   }
 
   @Post('lessons/upload/material')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   @UseInterceptors(FileInterceptor('file', createMaterialUploadOptions()))
   uploadMaterial(@UploadedFile() file: Express.Multer.File) {
     return this.handleUploadedFile(file, ['lessons', 'materials']);
@@ -110,31 +118,25 @@ export class CoursesController {
 
   // Courses CRUD
   @Get()
+  @UseGuards(OptionalJwtAuthGuard)
   async findAll(@Req() req: any) {
     let userPlanId: string | null = null;
-    let isAdmin = false;
+    const userId: string | undefined = req.user?.userId;
+    const isAdmin = hasPermission(req.user?.role, Permission.CONTENT_MANAGE);
     let userDates = {};
 
     // Tentar identificar o usuário para filtrar por plano
     try {
-      const authHeader = req.headers?.authorization;
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        const payload = this.jwtService.decode(token) as { sub: string; email: string; role?: string } | null;
-        if (payload?.sub) {
-          isAdmin = payload.role === 'admin';
-          if (!isAdmin) {
-            // Buscar contexto do usuário (plano e datas)
-            const userContext = await this.coursesService.getUserContext(payload.sub);
-            if (userContext) {
-              userPlanId = userContext.planId || null;
-              userDates = {
-                planActivatedAt: userContext.planActivatedAt,
-                createdAt: userContext.createdAt
-              };
-              console.log(`[CoursesController] Identified UserID: ${payload.sub}, PlanID: ${userPlanId}, Dates: ${JSON.stringify(userDates)}`);
-            }
-          }
+      if (userId && !isAdmin) {
+        // Buscar contexto do usuário (plano e datas)
+        const userContext = await this.coursesService.getUserContext(userId);
+        if (userContext) {
+          userPlanId = userContext.planId || null;
+          userDates = {
+            planActivatedAt: userContext.planActivatedAt,
+            createdAt: userContext.createdAt
+          };
+          console.log(`[CoursesController] Identified UserID: ${userId}, PlanID: ${userPlanId}, Dates: ${JSON.stringify(userDates)}`);
         }
       }
     } catch (err) {
@@ -187,24 +189,16 @@ export class CoursesController {
 
   // Rota genérica de curso deve vir por último
   @Get(':id')
+  @UseGuards(OptionalJwtAuthGuard)
   async findOne(@Param('id') id: string, @Req() req: any) {
     let userPlanId: string | null = null;
-    let userId: string | null = null;
-    let isAdmin = false;
+    const userId: string | null = req.user?.userId ?? null;
+    const isAdmin = hasPermission(req.user?.role, Permission.CONTENT_MANAGE);
 
     // Identificar usuário via JWT para visibilidade e progresso
     try {
-      const authHeader = req.headers?.authorization;
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        const payload = this.jwtService.decode(token) as { sub: string; email: string; role?: string } | null;
-        if (payload?.sub) {
-          userId = payload.sub;
-          isAdmin = payload.role === 'admin';
-          if (!isAdmin) {
-            userPlanId = await this.coursesService.getUserPlanId(userId);
-          }
-        }
+      if (userId && !isAdmin) {
+        userPlanId = await this.coursesService.getUserPlanId(userId);
       }
     } catch (err) {
       console.warn('Erro ao identificar usuário no findOne:', err);
@@ -235,70 +229,95 @@ export class CoursesController {
   }
 
   @Post()
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   create(@Body() createCourseDto: CreateCourseDto) {
     return this.coursesService.create(createCourseDto);
   }
 
   @Put(':id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   update(@Param('id') id: string, @Body() updateCourseDto: UpdateCourseDto) {
     return this.coursesService.update(id, updateCourseDto);
   }
 
   @Delete(':id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   remove(@Param('id') id: string) {
     return this.coursesService.remove(id);
   }
 
   @Put('reorder/all')
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   reorderCourses(@Body() body: { orders: { id: string; orderIndex: number }[] }) {
     return this.coursesService.reorderCourses(body.orders);
   }
 
   // Modules CRUD
   @Post('modules')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   createModule(@Body() createModuleDto: CreateModuleDto) {
     return this.coursesService.createModule(createModuleDto);
   }
 
   @Put('modules/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   updateModule(@Param('id') id: string, @Body() updateModuleDto: UpdateModuleDto) {
     return this.coursesService.updateModule(id, updateModuleDto);
   }
 
   @Delete('modules/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   removeModule(@Param('id') id: string) {
     return this.coursesService.removeModule(id);
   }
 
   // Lessons CRUD
   @Post('lessons')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   createLesson(@Body() createLessonDto: CreateLessonDto) {
     return this.coursesService.createLesson(createLessonDto);
   }
 
   @Put('lessons/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   updateLesson(@Param('id') id: string, @Body() updateLessonDto: UpdateLessonDto) {
     return this.coursesService.updateLesson(id, updateLessonDto);
   }
 
   @Delete('lessons/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   removeLesson(@Param('id') id: string) {
     return this.coursesService.removeLesson(id);
   }
 
   // Materials CRUD
   @Post('materials')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   createMaterial(@Body() createMaterialDto: CreateMaterialDto) {
     return this.coursesService.createMaterial(createMaterialDto);
   }
 
   @Put('materials/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   updateMaterial(@Param('id') id: string, @Body() updateMaterialDto: UpdateMaterialDto) {
     return this.coursesService.updateMaterial(id, updateMaterialDto);
   }
 
   @Delete('materials/:id')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
   removeMaterial(@Param('id') id: string) {
     return this.coursesService.removeMaterial(id);
   }
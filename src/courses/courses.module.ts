@@ -1,6 +1,5 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { JwtModule } from '@nestjs/jwt';
 import { CourseEntity } from '../infrastructure/database/entities/course.entity';
 import { LessonEntity } from '../infrastructure/database/entities/lesson.entity';
 import { ModuleEntity } from '../infrastructure/database/entities/module.entity';
@@ -17,7 +16,6 @@ import { CoursesService } from './courses.service';
 @Module({
   imports: [
     TypeOrmModule.forFeature([CourseEntity, LessonEntity, ModuleEntity, MaterialEntity, UserLessonProgressEntity, UserEntity, PlanEntity]),
-    JwtModule,
   ],
   controllers: [CoursesController],
   providers: [
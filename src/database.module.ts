@@ -16,6 +16,7 @@ import { UserSessionEntity } from './infrastructure/database/entities/user-sessi
 import { PlanEntity } from './infrastructure/database/entities/plan.entity';
 import { TradeEntity } from './infrastructure/database/entities/trade.entity';
 import { ExpertEntity } from './infrastructure/database/entities/expert.entity';
+import { ExpertReviewEntity } from './infrastructure/database/entities/expert-review.entity';
 import { SupportItemEntity } from './infrastructure/database/entities/support-item.entity';
 import { MaterialEntity } from './infrastructure/database/entities/material.entity';
 import { NotificationEntity } from './infrastructure/database/entities/notification.entity';
@@ -25,6 +26,9 @@ import { MarketEntity } from './infrastructure/database/entities/market.entity';
 import { MarketContractEntity } from './infrastructure/database/entities/market-contract.entity';
 import { AiTradeLogEntity } from './infrastructure/database/entities/ai-trade-log.entity';
 import { WebhookLogEntity } from './infrastructure/database/entities/webhook-log.entity';
+import { UserNotificationEntity } from './infrastructure/database/entities/user-notification.entity';
+import { NotificationReceiptEntity } from './infrastructure/database/entities/notification-receipt.entity';
+import { PlanExpirationNoticeEntity } from './infrastructure/database/entities/plan-expiration-notice.entity';
 
 class SnakeNamingStrategy extends DefaultNamingStrategy implements NamingStrategyInterface {
   columnName(propertyName: string, customName: string, embeddedPrefixes: string[]): string {
@@ -56,7 +60,7 @@ class SnakeNamingStrategy extends DefaultNamingStrategy implements NamingStrateg
         username: configService.get<string>('DB_USERNAME'),
         password: configService.get<string>('DB_PASSWORD'),
         database: configService.get<string>('DB_DATABASE'),
-        entities: [UserEntity, CourseEntity, ModuleEntity, LessonEntity, UserLessonProgressEntity, FaqEntity, SystemStatusEntity, UserSettingsEntity, UserActivityLogEntity, UserSessionEntity, PlanEntity, TradeEntity, ExpertEntity, SupportItemEntity, MaterialEntity, AppConfigEntity, NotificationEntity, UserBalanceEntity, MarketEntity, MarketContractEntity, AiTradeLogEntity, WebhookLogEntity],
+        entities: [UserEntity, CourseEntity, ModuleEntity, LessonEntity, UserLessonProgressEntity, FaqEntity, SystemStatusEntity, UserSettingsEntity, UserActivityLogEntity, UserSessionEntity, PlanEntity, TradeEntity, ExpertEntity, ExpertReviewEntity, SupportItemEntity, MaterialEntity, AppConfigEntity, NotificationEntity, NotificationReceiptEntity, UserNotificationEntity, UserBalanceEntity, MarketEntity, MarketContractEntity, AiTradeLogEntity, WebhookLogEntity, PlanExpirationNoticeEntity],
         synchronize: false, // Desabilitado porque as tabelas são gerenciadas manualmente via SQL
         logging: configService.get<string>('NODE_ENV') === 'development',
         namingStrategy: new SnakeNamingStrategy(),
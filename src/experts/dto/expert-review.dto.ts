@@ -0,0 +1,47 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ExpertReviewStatus } from '../../infrastructure/database/entities/expert-review.entity';
+
+export class CreateExpertReviewDto {
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @IsString()
+  @MinLength(3)
+  @MaxLength(2000)
+  comment: string;
+
+  /**
+   * Sessão de copy trading avaliada. Sem ela, usa a sessão mais recente ainda não avaliada.
+   */
+  @IsOptional()
+  @IsInt()
+  sessionId?: number;
+}
+
+export class ReplyExpertReviewDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  reply: string;
+}
+
+export class ModerateExpertReviewDto {
+  @IsEnum(ExpertReviewStatus)
+  status: ExpertReviewStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
@@ -0,0 +1,155 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Cadastro de expert pelo admin. rating e totalReviews não entram: vêm das avaliações.
+ */
+export class CreateExpertDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  specialty: string;
+
+  @IsOptional()
+  @IsString()
+  bio?: string;
+
+  @IsOptional()
+  @IsString()
+  avatarUrl?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  experienceYears?: number;
+
+  @IsOptional()
+  @IsString()
+  loginOriginal?: string;
+
+  @IsOptional()
+  @IsString()
+  loginAlvo?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  saldoAlvo?: number;
+
+  @IsOptional()
+  @IsString()
+  connectionStatus?: string;
+
+  @IsOptional()
+  @IsString()
+  traderType?: string;
+
+  /**
+   * Taxa de performance cobrada dos copiadores nas próximas ativações (0 a 100%)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  performanceFeePercent?: number;
+}
+
+export class UpdateExpertDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  specialty?: string;
+
+  @IsOptional()
+  @IsString()
+  bio?: string;
+
+  @IsOptional()
+  @IsString()
+  avatarUrl?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  experienceYears?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  totalFollowers?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  totalSignals?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  winRate?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isVerified?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsString()
+  loginOriginal?: string;
+
+  @IsOptional()
+  @IsString()
+  loginAlvo?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  saldoAlvo?: number;
+
+  @IsOptional()
+  @IsString()
+  connectionStatus?: string;
+
+  @IsOptional()
+  @IsString()
+  traderType?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  performanceFeePercent?: number;
+}
@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { ExpertEntity } from '../infrastructure/database/entities/expert.entity';
+import {
+  ExpertReviewEntity,
+  ExpertReviewStatus,
+} from '../infrastructure/database/entities/expert-review.entity';
+import {
+  CreateExpertReviewDto,
+  ModerateExpertReviewDto,
+} from './dto/expert-review.dto';
+
+/**
+ * Avaliações dos experts pelos seguidores.
+ *
+ * Só avalia quem tem (ou teve) uma sessão de copy trading ativa ou encerrada com o trader
+ * vinculado ao expert (experts.user_id), uma avaliação por sessão. rating e total_reviews
+ * do expert são sempre recalculados a partir das avaliações publicadas.
+ */
+@Injectable()
+export class ExpertReviewsService {
+  private readonly logger = new Logger(ExpertReviewsService.name);
+
+  constructor(
+    @InjectRepository(ExpertReviewEntity)
+    private readonly reviewRepository: Repository<ExpertReviewEntity>,
+    @InjectRepository(ExpertEntity)
+    private readonly expertRepository: Repository<ExpertEntity>,
+    @InjectDataSource() private readonly dataSource: DataSource,
+  ) {}
+
+  async list(expertId: string, includeHidden = false) {
+    await this.loadExpert(expertId);
+
+    const reviews = await this.dataSource.query(
+      `SELECT r.*, u.name AS user_name
+       FROM expert_reviews r
+       LEFT JOIN users u ON u.id = r.user_id
+       WHERE r.expert_id = ? ${includeHidden ? '' : 'AND r.status = ?'}
+       ORDER BY r.created_at DESC`,
+      includeHidden ? [expertId] : [expertId, ExpertReviewStatus.PUBLISHED],
+    );
+
+    return reviews.map((review: any) => ({
+      id: review.id,
+      expertId: review.expert_id,
+      userName: review.user_name || 'Usuário',
+      sessionId: review.session_id,
+      rating: review.rating,
+      comment: review.comment,
+      reply: review.reply || null,
+      repliedAt: review.replied_at || null,
+      createdAt: review.created_at,
+      ...(includeHidden
+        ? {
+            userId: review.user_id,
+            status: review.status,
+            moderationReason: review.moderation_reason || null,
+            moderatedBy: review.moderated_by || null,
+            moderatedAt: review.moderated_at || null,
+          }
+        : {}),
+    }));
+  }
+
+  async create(expertId: string, userId: string, dto: CreateExpertReviewDto) {
+    const expert = await this.loadExpert(expertId);
+    if (!expert.userId) {
+      throw new BadRequestException(
+        'Este expert não está vinculado a um trader e não pode ser avaliado',
+      );
+    }
+    if (expert.userId === userId) {
+      throw new ForbiddenException('Você não pode avaliar a si mesmo');
+    }
+
+    const sessions: Array<{ id: number; reviewed: number }> =
+      await this.dataSource.query(
+        `SELECT s.id, r.id IS NOT NULL AS reviewed
+         FROM copy_trading_sessions s
+         LEFT JOIN expert_reviews r ON r.session_id = s.id
+         WHERE s.user_id = ? AND s.trader_id = ? AND s.status IN ('active', 'ended')
+         ORDER BY s.started_at DESC`,
+        [userId, expert.userId],
+      );
+    if (sessions.length === 0) {
+      throw new ForbiddenException(
+        'Apenas quem copiou este trader pode avaliá-lo',
+      );
+    }
+
+    const session = dto.sessionId
+      ? sessions.find((s) => Number(s.id) === dto.sessionId)
+      : sessions.find((s) => !Number(s.reviewed));
+    if (!session) {
+      if (dto.sessionId) {
+        throw new ForbiddenException(
+          'Sessão de copy trading não encontrada para este trader',
+        );
+      }
+      throw new ConflictException('Todas as suas sessões já foram avaliadas');
+    }
+    if (Number(session.reviewed)) {
+      throw new ConflictException('Esta sessão já foi avaliada');
+    }
+
+    const review = this.reviewRepository.create({
+      id: uuidv4(),
+      expertId,
+      userId,
+      sessionId: Number(session.id),
+      rating: dto.rating,
+      comment: dto.comment.trim(),
+      status: ExpertReviewStatus.PUBLISHED,
+    });
+
+    try {
+      await this.reviewRepository.save(review);
+    } catch (error) {
+      // Índice único em session_id: duas requisições simultâneas para a mesma sessão
+      if (error?.code === 'ER_DUP_ENTRY') {
+        throw new ConflictException('Esta sessão já foi avaliada');
+      }
+      throw error;
+    }
+
+    await this.recomputeRating(expertId);
+    this.logger.log(
+      `[ExpertReviews] ✅ Avaliação ${review.rating}★ do usuário ${userId} para o expert ${expertId} (sessão ${review.sessionId})`,
+    );
+    return review;
+  }
+
+  /**
+   * Resposta do expert (o usuário vinculado em experts.user_id) a uma avaliação
+   */
+  async reply(
+    expertId: string,
+    reviewId: string,
+    userId: string,
+    reply: string,
+  ) {
+    const expert = await this.loadExpert(expertId);
+    if (!expert.userId || expert.userId !== userId) {
+      throw new ForbiddenException(
+        'Apenas o próprio expert pode responder às avaliações',
+      );
+    }
+
+    const review = await this.loadReview(expertId, reviewId);
+    review.reply = reply.trim();
+    review.repliedAt = new Date();
+    return this.reviewRepository.save(review);
+  }
+
+  async moderate(
+    expertId: string,
+    reviewId: string,
+    moderatorId: string,
+    dto: ModerateExpertReviewDto,
+  ) {
+    const review = await this.loadReview(expertId, reviewId);
+    review.status = dto.status;
+    review.moderationReason = dto.reason?.trim() || null;
+    review.moderatedBy = moderatorId;
+    review.moderatedAt = new Date();
+    const saved = await this.reviewRepository.save(review);
+
+    await this.recomputeRating(expertId);
+    this.logger.log(
+      `[ExpertReviews] Avaliação ${reviewId} marcada como ${dto.status} por ${moderatorId}`,
+    );
+    return saved;
+  }
+
+  async remove(expertId: string, reviewId: string) {
+    const review = await this.loadReview(expertId, reviewId);
+    await this.reviewRepository.remove(review);
+    await this.recomputeRating(expertId);
+    return { message: 'Avaliação excluída com sucesso', id: reviewId };
+  }
+
+  /**
+   * rating (média) e total_reviews passam a refletir apenas as avaliações publicadas
+   */
+  async recomputeRating(expertId: string) {
+    await this.dataSource.query(
+      `UPDATE experts e
+       LEFT JOIN (
+         SELECT expert_id, AVG(rating) AS avg_rating, COUNT(*) AS total
+         FROM expert_reviews
+         WHERE expert_id = ? AND status = ?
+         GROUP BY expert_id
+       ) r ON r.expert_id = e.id
+       SET e.rating = COALESCE(ROUND(r.avg_rating, 2), 0),
+           e.total_reviews = COALESCE(r.total, 0)
+       WHERE e.id = ?`,
+      [expertId, ExpertReviewStatus.PUBLISHED, expertId],
+    );
+  }
+
+  private async loadExpert(expertId: string): Promise<ExpertEntity> {
+    const expert = await this.expertRepository.findOne({
+      where: { id: expertId },
+    });
+    if (!expert) {
+      throw new NotFoundException('Expert não encontrado');
+    }
+    return expert;
+  }
+
+  private async loadReview(
+    expertId: string,
+    reviewId: string,
+  ): Promise<ExpertReviewEntity> {
+    const review = await this.reviewRepository.findOne({
+      where: { id: reviewId, expertId },
+    });
+    if (!review) {
+      throw new NotFoundException('Avaliação não encontrada');
+    }
+    return review;
+  }
+}
@@ -7,13 +7,27 @@ import {
   Body,
   Param,
   UseGuards,
+  Req,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ExpertsService } from './experts.service';
+import { ExpertReviewsService } from './expert-reviews.service';
+import {
+  CreateExpertReviewDto,
+  ModerateExpertReviewDto,
+  ReplyExpertReviewDto,
+} from './dto/expert-review.dto';
+import { CreateExpertDto, UpdateExpertDto } from './dto/expert.dto';
+import { RolesGuard } from '../auth/roles.guard';
+import { RequirePermissions, Roles } from '../auth/roles.decorator';
+import { Permission, Role } from '../auth/roles';
 
 @Controller('experts')
 export class ExpertsController {
-  constructor(private readonly expertsService: ExpertsService) {}
+  constructor(
+    private readonly expertsService: ExpertsService,
+    private readonly expertReviewsService: ExpertReviewsService,
+  ) {}
 
   @Get()
   async findAll() {
@@ -30,32 +44,108 @@ export class ExpertsController {
     return this.expertsService.findById(id);
   }
 
-  @Post()
+  @Get(':id/reviews')
+  async listReviews(@Param('id') id: string) {
+    return this.expertReviewsService.list(id);
+  }
+
+  @Post(':id/reviews')
+  @UseGuards(AuthGuard('jwt'))
+  async createReview(
+    @Param('id') id: string,
+    @Req() req: any,
+    @Body() body: CreateExpertReviewDto,
+  ) {
+    return this.expertReviewsService.create(id, req.user.userId, body);
+  }
+
+  @Put(':id/reviews/:reviewId/reply')
   @UseGuards(AuthGuard('jwt'))
-  async create(@Body() data: any) {
+  async replyReview(
+    @Param('id') id: string,
+    @Param('reviewId') reviewId: string,
+    @Req() req: any,
+    @Body() body: ReplyExpertReviewDto,
+  ) {
+    return this.expertReviewsService.reply(
+      id,
+      reviewId,
+      req.user.userId,
+      body.reply,
+    );
+  }
+
+  /**
+   * Moderação: lista todas as avaliações (inclusive ocultas), oculta/republica e exclui
+   */
+  @Get(':id/reviews/moderation')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  async listReviewsForModeration(@Param('id') id: string) {
+    return this.expertReviewsService.list(id, true);
+  }
+
+  @Put(':id/reviews/:reviewId/moderate')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  async moderateReview(
+    @Param('id') id: string,
+    @Param('reviewId') reviewId: string,
+    @Req() req: any,
+    @Body() body: ModerateExpertReviewDto,
+  ) {
+    return this.expertReviewsService.moderate(
+      id,
+      reviewId,
+      req.user.userId,
+      body,
+    );
+  }
+
+  @Delete(':id/reviews/:reviewId')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.CONTENT_MANAGE)
+  async deleteReview(
+    @Param('id') id: string,
+    @Param('reviewId') reviewId: string,
+  ) {
+    return this.expertReviewsService.remove(id, reviewId);
+  }
+
+  /**
+   * Cadastro de experts (criação, edição, status, verificação e exclusão): só administradores
+   */
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async create(@Body() data: CreateExpertDto) {
     return this.expertsService.create(data);
   }
 
   @Put(':id/toggle-status')
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
   async toggleStatus(@Param('id') id: string) {
     return this.expertsService.toggleStatus(id);
   }
 
   @Put(':id/toggle-verified')
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
   async toggleVerified(@Param('id') id: string) {
     return this.expertsService.toggleVerified(id);
   }
 
   @Put(':id')
-  @UseGuards(AuthGuard('jwt'))
-  async update(@Param('id') id: string, @Body() data: any) {
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async update(@Param('id') id: string, @Body() data: UpdateExpertDto) {
     return this.expertsService.update(id, data);
   }
 
   @Delete(':id')
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
   async delete(@Param('id') id: string) {
     return this.expertsService.delete(id);
   }
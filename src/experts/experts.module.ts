@@ -3,18 +3,20 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PassportModule } from '@nestjs/passport';
 import { ExpertsController } from './experts.controller';
 import { ExpertsService } from './experts.service';
+import { ExpertReviewsService } from './expert-reviews.service';
 import { ExpertEntity } from '../infrastructure/database/entities/expert.entity';
+import { ExpertReviewEntity } from '../infrastructure/database/entities/expert-review.entity';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ExpertEntity]),
+    TypeOrmModule.forFeature([ExpertEntity, ExpertReviewEntity]),
     PassportModule,
     AuthModule,
   ],
   controllers: [ExpertsController],
-  providers: [ExpertsService],
-  exports: [ExpertsService],
+  providers: [ExpertsService, ExpertReviewsService],
+  exports: [ExpertsService, ExpertReviewsService],
 })
 export class ExpertsModule {}
 
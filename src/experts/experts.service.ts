@@ -8,6 +8,27 @@ import { AuthService } from '../auth/auth.service';
 import { EmailService } from '../auth/email.service';
 import { randomBytes } from 'crypto';
 import * as bcrypt from 'bcrypt';
+import { CreateExpertDto, UpdateExpertDto } from './dto/expert.dto';
+
+const EDITABLE_EXPERT_FIELDS: (keyof UpdateExpertDto)[] = [
+  'name',
+  'email',
+  'specialty',
+  'bio',
+  'avatarUrl',
+  'experienceYears',
+  'totalFollowers',
+  'totalSignals',
+  'winRate',
+  'isVerified',
+  'isActive',
+  'loginOriginal',
+  'loginAlvo',
+  'saldoAlvo',
+  'connectionStatus',
+  'traderType',
+  'performanceFeePercent',
+];
 
 @Injectable()
 export class ExpertsService {
@@ -37,19 +58,7 @@ export class ExpertsService {
     return this.formatExpert(expert);
   }
 
-  async create(data: {
-    name: string;
-    email: string;
-    specialty: string;
-    bio?: string;
-    avatarUrl?: string;
-    experienceYears?: number;
-    loginOriginal?: string;
-    loginAlvo?: string;
-    saldoAlvo?: number;
-    connectionStatus?: string;
-    traderType?: string;
-  }) {
+  async create(data: CreateExpertDto) {
     // Verificar se email já existe
     const existing = await this.expertRepository.findOne({
       where: { email: data.email },
@@ -79,6 +88,7 @@ export class ExpertsService {
       totalFollowers: 0,
       totalSignals: 0,
       winRate: 0,
+      performanceFeePercent: this.normalizeFeePercent(data.performanceFeePercent),
       isVerified: false,
       isActive: true,
       socialLinks: null,
@@ -146,29 +156,7 @@ export class ExpertsService {
     await this.emailService.sendAccountActivationEmail(email, name, resetToken, resetUrl);
   }
 
-  async update(
-    id: string,
-    data: {
-      name?: string;
-      email?: string;
-      specialty?: string;
-      bio?: string;
-      avatarUrl?: string;
-      experienceYears?: number;
-      rating?: number;
-      totalReviews?: number;
-      totalFollowers?: number;
-      totalSignals?: number;
-      winRate?: number;
-      isVerified?: boolean;
-      isActive?: boolean;
-      loginOriginal?: string;
-      loginAlvo?: string;
-      saldoAlvo?: number;
-      connectionStatus?: string;
-      traderType?: string;
-    },
-  ) {
+  async update(id: string, data: UpdateExpertDto) {
     const expert = await this.expertRepository.findOne({ where: { id } });
 
     if (!expert) {
@@ -185,8 +173,16 @@ export class ExpertsService {
       }
     }
 
+    // Só os campos editáveis: rating e totalReviews têm um único escritor
+    // (ExpertReviewsService.recomputeRating), e id/datas nunca vêm do corpo
+    const updateData: Partial<ExpertEntity> = {};
+    for (const field of EDITABLE_EXPERT_FIELDS) {
+      if (data[field] !== undefined) {
+        (updateData as Record<string, unknown>)[field] = data[field];
+      }
+    }
+
     // Normalizar campos vazios para null
-    const updateData: any = { ...data };
     if (updateData.name) updateData.name = updateData.name.trim();
     if (updateData.email) updateData.email = updateData.email.trim();
     if (updateData.specialty) updateData.specialty = updateData.specialty.trim();
@@ -195,6 +191,10 @@ export class ExpertsService {
     if (updateData.loginOriginal !== undefined) updateData.loginOriginal = updateData.loginOriginal?.trim() || null;
     if (updateData.loginAlvo !== undefined) updateData.loginAlvo = updateData.loginAlvo?.trim() || null;
     if (updateData.traderType !== undefined) updateData.traderType = updateData.traderType?.trim() || null;
+    if (updateData.performanceFeePercent !== undefined) {
+      // Vale para as próximas ativações; sessões em andamento mantêm a taxa da ativação
+      updateData.performanceFeePercent = this.normalizeFeePercent(updateData.performanceFeePercent);
+    }
 
     Object.assign(expert, updateData);
 
@@ -288,6 +288,12 @@ export class ExpertsService {
     };
   }
 
+  private normalizeFeePercent(value?: number): number {
+    const percent = Number(value);
+    if (!Number.isFinite(percent) || percent <= 0) return 0;
+    return Math.min(100, Math.round(percent * 100) / 100);
+  }
+
   private formatExpert(expert: ExpertEntity) {
     return {
       id: expert.id,
@@ -302,6 +308,7 @@ export class ExpertsService {
       totalFollowers: expert.totalFollowers,
       totalSignals: expert.totalSignals,
       winRate: parseFloat(expert.winRate.toString()),
+      performanceFeePercent: parseFloat((expert.performanceFeePercent ?? 0).toString()),
       isVerified: expert.isVerified,
       isActive: expert.isActive,
       socialLinks: expert.socialLinks,
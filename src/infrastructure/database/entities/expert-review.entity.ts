@@ -0,0 +1,51 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export enum ExpertReviewStatus {
+  PUBLISHED = 'published',
+  HIDDEN = 'hidden',
+}
+
+@Entity('expert_reviews')
+export class ExpertReviewEntity {
+  @PrimaryColumn({ type: 'char', length: 36 })
+  id: string;
+
+  @Column({ type: 'char', length: 36, name: 'expert_id' })
+  expertId: string;
+
+  @Column({ type: 'char', length: 36, name: 'user_id' })
+  userId: string;
+
+  @Column({ type: 'int', unsigned: true, name: 'session_id', unique: true })
+  sessionId: number;
+
+  @Column({ type: 'tinyint' })
+  rating: number;
+
+  @Column({ type: 'text' })
+  comment: string;
+
+  @Column({ type: 'text', nullable: true })
+  reply?: string | null;
+
+  @Column({ type: 'datetime', nullable: true, name: 'replied_at' })
+  repliedAt?: Date | null;
+
+  @Column({ type: 'varchar', length: 20, default: ExpertReviewStatus.PUBLISHED })
+  status: ExpertReviewStatus;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'moderation_reason' })
+  moderationReason?: string | null;
+
+  @Column({ type: 'char', length: 36, nullable: true, name: 'moderated_by' })
+  moderatedBy?: string | null;
+
+  @Column({ type: 'datetime', nullable: true, name: 'moderated_at' })
+  moderatedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -38,6 +38,10 @@ export class ExpertEntity {
   @Column({ type: 'decimal', precision: 5, scale: 2, default: 0, name: 'win_rate' })
   winRate: number;
 
+  // Percentual sobre o lucro líquido dos seguidores acima do high-water mark da sessão
+  @Column({ type: 'decimal', precision: 5, scale: 2, default: 0, name: 'performance_fee_percent' })
+  performanceFeePercent: number;
+
   @Column({ type: 'boolean', default: false, name: 'is_verified' })
   isVerified: boolean;
 
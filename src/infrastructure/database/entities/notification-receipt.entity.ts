@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Visualização/dispensa de um aviso do sistema por usuário
+ */
+@Entity('notification_receipts')
+@Index(
+  'uq_notification_receipts_notification_user',
+  ['notificationId', 'userId'],
+  {
+    unique: true,
+  },
+)
+export class NotificationReceiptEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 36, name: 'notification_id' })
+  notificationId: string;
+
+  @Column({ type: 'char', length: 36, name: 'user_id' })
+  userId: string;
+
+  @Column({ type: 'datetime', nullable: true, name: 'viewed_at' })
+  viewedAt?: Date | null;
+
+  @Column({ type: 'datetime', nullable: true, name: 'dismissed_at' })
+  dismissedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,4 +1,5 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import type { NotificationAudience } from '../../../notifications/notification-audience';
 
 @Entity('notifications')
 export class NotificationEntity {
@@ -11,9 +12,24 @@ export class NotificationEntity {
     @Column({ type: 'text' })
     description: string;
 
+    /**
+     * Público alvo; null = todos os usuários
+     */
+    @Column({ type: 'json', nullable: true })
+    audience?: NotificationAudience | null;
+
+    /**
+     * Início agendado da exibição; null = imediato
+     */
+    @Column({ name: 'display_from', type: 'datetime', nullable: true })
+    displayFrom?: Date | null;
+
     @Column({ name: 'display_until', type: 'datetime' })
     displayUntil: Date;
 
     @CreateDateColumn({ name: 'created_at' })
     createdAt: Date;
+
+    @UpdateDateColumn({ name: 'updated_at' })
+    updatedAt: Date;
 }
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Etapa do vencimento (lembrete, carência ou expiração) já aplicada a um usuário
+ */
+@Entity('plan_expiration_notices')
+@Index(
+  'uq_plan_expiration_notices_user_expiration_stage',
+  ['userId', 'expirationDate', 'stage'],
+  {
+    unique: true,
+  },
+)
+export class PlanExpirationNoticeEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'char', length: 36, name: 'user_id' })
+  userId: string;
+
+  @Column({ type: 'char', length: 36, nullable: true, name: 'plan_id' })
+  planId?: string | null;
+
+  @Column({ type: 'datetime', name: 'expiration_date' })
+  expirationDate: Date;
+
+  @Column({ type: 'varchar', length: 30 })
+  stage: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
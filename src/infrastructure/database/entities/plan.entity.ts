@@ -1,5 +1,6 @@
 import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany } from 'typeorm';
 import { UserEntity } from './user.entity';
+import type { PlanEntitlements } from '../../../plans/plan-entitlements';
 
 @Entity('plans')
 export class PlanEntity {
@@ -30,6 +31,12 @@ export class PlanEntity {
   @Column({ type: 'json', nullable: true })
   benefits?: any;
 
+  /**
+   * Limites e produtos liberados (PlanEntitlements); nulo = só o que vem de features
+   */
+  @Column({ type: 'json', nullable: true })
+  entitlements?: Partial<PlanEntitlements> | null;
+
   @Column({ type: 'varchar', length: 255, nullable: true, name: 'purchase_link' })
   purchaseLink?: string;
 
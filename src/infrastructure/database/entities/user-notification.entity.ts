@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Caixa de entrada de notificações do usuário (canal in-app)
+ */
+@Entity('user_notifications')
+@Index('idx_user_notifications_user_read', ['userId', 'readAt'])
+export class UserNotificationEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'char', length: 36, name: 'user_id' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 50, name: 'event_type' })
+  eventType: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  source: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  title: string;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ type: 'json', nullable: true })
+  data?: Record<string, any> | null;
+
+  @Column({ type: 'datetime', nullable: true, name: 'read_at' })
+  readAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -9,8 +9,12 @@ export class UserSessionEntity {
   @Column({ type: 'char', length: 36, name: 'user_id' })
   userId: string;
 
-  @Column({ type: 'varchar', length: 500 })
-  token: string;
+  // Legado: sessões novas não gravam o JWT (o access token referencia a sessão pelo jti)
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  token?: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'refresh_token_hash' })
+  refreshTokenHash?: string | null;
 
   @Column({ type: 'varchar', length: 255, nullable: true })
   device?: string | null;
@@ -21,6 +25,15 @@ export class UserSessionEntity {
   @Column({ type: 'varchar', length: 45, nullable: true, name: 'ip_address' })
   ipAddress?: string | null;
 
+  @Column({ type: 'datetime', nullable: true, name: 'expires_at' })
+  expiresAt?: Date | null;
+
+  @Column({ type: 'datetime', nullable: true, name: 'revoked_at' })
+  revokedAt?: Date | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'revoked_reason' })
+  revokedReason?: string | null;
+
   @UpdateDateColumn({ name: 'last_activity' })
   lastActivity: Date;
 
@@ -1,5 +1,6 @@
 import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { UserEntity } from './user.entity';
+import { encryptedTokenTransformer } from '../../../utils/token-encryption.service';
 
 @Entity('user_settings')
 export class UserSettingsEntity {
@@ -21,12 +22,46 @@ export class UserSettingsEntity {
   @Column({ type: 'boolean', default: true, name: 'email_notifications' })
   emailNotifications: boolean;
 
+  /**
+   * Último dia local (no fuso do usuário) cujo resumo diário já foi processado
+   */
+  @Column({ type: 'date', nullable: true, name: 'daily_summary_sent_for' })
+  dailySummarySentFor?: string | null;
+
+  /**
+   * Preferências por evento e canal (JSON: { stop_loss_hit: { email, inApp, webhook }, ... })
+   */
+  @Column({ type: 'text', nullable: true, name: 'notification_preferences' })
+  notificationPreferences?: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'notification_webhook_url' })
+  notificationWebhookUrl?: string | null;
+
+  /**
+   * Segredo da assinatura HMAC-SHA256 enviada no header X-Zenix-Signature
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'notification_webhook_secret' })
+  notificationWebhookSecret?: string | null;
+
   @Column({ type: 'boolean', default: false, name: 'two_factor_enabled' })
   twoFactorEnabled: boolean;
 
-  @Column({ type: 'varchar', length: 255, nullable: true, name: 'two_factor_secret' })
+  // Cifrado em repouso (TokenEncryptionService)
+  @Column({ type: 'varchar', length: 512, nullable: true, name: 'two_factor_secret', transformer: encryptedTokenTransformer })
   twoFactorSecret?: string | null;
 
+  /**
+   * Hashes SHA-256 dos códigos de recuperação ainda não usados (JSON)
+   */
+  @Column({ type: 'text', nullable: true, name: 'two_factor_recovery_codes' })
+  twoFactorRecoveryCodes?: string | null;
+
+  /**
+   * Último passo TOTP aceito, para impedir reuso do mesmo código
+   */
+  @Column({ type: 'bigint', nullable: true, name: 'two_factor_last_step' })
+  twoFactorLastStep?: string | null;
+
   @Column({ type: 'varchar', length: 10, default: 'USD', name: 'trade_currency' })
   tradeCurrency: string;
 
@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { PlanEntity } from './plan.entity';
+import { encryptedDerivRawTransformer, encryptedTokenTransformer } from '../../../utils/token-encryption.service';
 
 @Entity('users')
 export class UserEntity {
@@ -45,10 +46,12 @@ export class UserEntity {
   @Column({ type: 'varchar', length: 10, nullable: true, name: 'deriv_currency' })
   derivCurrency?: string | null;
 
-  @Column({ type: 'varchar', length: 255, nullable: true, name: 'token_demo' })
+  // Cifrado em repouso (TokenEncryptionService)
+  @Column({ type: 'varchar', length: 512, nullable: true, name: 'token_demo', transformer: encryptedTokenTransformer })
   tokenDemo?: string | null;
 
-  @Column({ type: 'varchar', length: 255, nullable: true, name: 'token_real' })
+  // Cifrado em repouso (TokenEncryptionService)
+  @Column({ type: 'varchar', length: 512, nullable: true, name: 'token_real', transformer: encryptedTokenTransformer })
   tokenReal?: string | null;
 
   @Column({ type: 'varchar', length: 10, nullable: true, name: 'token_real_currency' })
@@ -79,7 +82,8 @@ export class UserEntity {
   @Column({ type: 'decimal', precision: 36, scale: 18, default: 0, name: 'demo_amount' })
   demoAmount: number;
 
-  @Column({ type: 'json', nullable: true, name: 'deriv_raw' })
+  // tokensByLoginId cifrado em repouso (TokenEncryptionService)
+  @Column({ type: 'json', nullable: true, name: 'deriv_raw', transformer: encryptedDerivRawTransformer })
   derivRaw?: any | null;
 
   @CreateDateColumn({ name: 'created_at' })
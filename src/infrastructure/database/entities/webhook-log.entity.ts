@@ -1,6 +1,7 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
 
 @Entity('webhook_logs')
+@Index('idx_webhook_logs_order_event', ['orderId', 'eventType'])
 export class WebhookLogEntity {
     @PrimaryGeneratedColumn()
     id: number;
@@ -8,6 +9,9 @@ export class WebhookLogEntity {
     @Column({ name: 'event_type', length: 100, nullable: true })
     eventType: string;
 
+    @Column({ name: 'order_id', type: 'varchar', length: 100, nullable: true })
+    orderId: string | null;
+
     @Column({ type: 'longtext' })
     payload: string;
 
@@ -20,6 +24,9 @@ export class WebhookLogEntity {
     @Column({ type: 'text', nullable: true })
     details: string;
 
+    @Column({ name: 'processed_at', type: 'datetime', nullable: true })
+    processedAt: Date | null;
+
     @CreateDateColumn({ name: 'created_at' })
     createdAt: Date;
 }
@@ -6,11 +6,35 @@ import { AppModule } from './app.module';
 import { json, urlencoded } from 'express';
 import { join } from 'path';
 import { DataSource } from 'typeorm';
+import { DerivSimulatorServer } from './broker/simulator/deriv-simulator.server';
+import { resolveTrustProxy } from './utils/trust-proxy';
+import { getTokenEncryption } from './utils/token-encryption.service';
 
 async function bootstrap() {
+  // ✅ Tokens da Deriv e segredos do 2FA são gravados cifrados: sem chave mestra a API não sobe
+  if (!getTokenEncryption().activeKeyVersion) {
+    throw new Error(
+      'DERIV_TOKEN_ENCRYPTION_KEYS não configurada: defina ao menos uma chave (versão:base64 de 32 bytes, veja env.example) antes de iniciar a API',
+    );
+  }
+
+  // ✅ Simulador local da Deriv: aponta todas as conexões WebSocket do backend para ele (sem rede)
+  if (process.env.DERIV_SIMULATOR === 'true') {
+    const simulator = new DerivSimulatorServer({
+      port: parseInt(process.env.DERIV_SIMULATOR_PORT || '8765', 10),
+      seed: parseInt(process.env.DERIV_SIMULATOR_SEED || '42', 10),
+      tickIntervalMs: parseInt(process.env.DERIV_SIMULATOR_TICK_MS || '1000', 10),
+    });
+    process.env.DERIV_WS_URL = await simulator.start();
+    console.log(`🧪 Simulador Deriv ativo em ${process.env.DERIV_WS_URL}`);
+  }
+
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const config = app.get(ConfigService);
 
+  // ✅ Atrás do nginx: confiar apenas no salto do proxy para que req.ip seja o IP real do cliente
+  app.set('trust proxy', resolveTrustProxy(config.get<string>('TRUST_PROXY')));
+
   // ✅ Executar migrations automaticamente na inicialização
   try {
     const dataSource = app.get(DataSource);
@@ -30,7 +54,13 @@ async function bootstrap() {
   }
 
   // Para uploads de vídeo, aumentamos para 2GB (multer já tem limite de 1GB configurado)
-  app.use(json({ limit: '50mb' })); // JSON continua em 50MB
+  // JSON continua em 50MB; o corpo bruto fica em req.rawBody para validar a assinatura do webhook da Kiwify
+  app.use(json({
+    limit: '50mb',
+    verify: (req: any, _res, buf: Buffer) => {
+      req.rawBody = buf;
+    },
+  }));
   app.use(urlencoded({ limit: '2gb', extended: true })); // Aumentado para suportar uploads grandes
 
   // Servir arquivos estáticos enviados pelos usuários
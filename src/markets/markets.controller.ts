@@ -1,12 +1,17 @@
-import { Controller, Get, Post, Param } from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, UseGuards, HttpException, HttpStatus } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
 import { MarketsService } from './markets.service';
-// import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-// import { RolesGuard } from '../auth/guards/roles.guard';
-// import { Roles } from '../auth/decorators/roles.decorator';
+import { RECORDED_SYMBOLS, TickStoreService } from '../utils/tick-store.service';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 
 @Controller('markets')
 export class MarketsController {
-    constructor(private readonly marketsService: MarketsService) { }
+    constructor(
+        private readonly marketsService: MarketsService,
+        private readonly tickStore: TickStoreService,
+    ) { }
 
     @Get()
     async findAll() {
@@ -18,9 +23,57 @@ export class MarketsController {
         return this.marketsService.findContractsBySymbol(symbol);
     }
 
+    /**
+     * Histórico de ticks gravados (epochs em segundos, ordem cronológica)
+     * GET /markets/R_100/ticks?from=1700000000&to=1700003600&limit=1000
+     * latest=true retorna os últimos `limit` ticks da janela
+     */
+    @Get(':symbol/ticks')
+    @UseGuards(AuthGuard('jwt'))
+    async findTicks(
+        @Param('symbol') symbol: string,
+        @Query('from') from?: string,
+        @Query('to') to?: string,
+        @Query('limit') limit?: string,
+        @Query('latest') latest?: string,
+    ) {
+        if (!RECORDED_SYMBOLS.includes(symbol)) {
+            throw new HttpException(
+                {
+                    success: false,
+                    message: `Símbolo sem histórico de ticks. Disponíveis: ${RECORDED_SYMBOLS.join(', ')}`,
+                },
+                HttpStatus.BAD_REQUEST,
+            );
+        }
+
+        try {
+            const ticks = await this.tickStore.getRange(symbol, {
+                from: from ? parseInt(from, 10) : undefined,
+                to: to ? parseInt(to, 10) : undefined,
+                limit: limit ? parseInt(limit, 10) : undefined,
+                latest: latest === 'true',
+            });
+
+            return {
+                success: true,
+                data: ticks,
+            };
+        } catch (error) {
+            throw new HttpException(
+                {
+                    success: false,
+                    message: 'Erro ao buscar histórico de ticks',
+                    error: error.message,
+                },
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+    }
+
     @Post('sync')
-    // @UseGuards(JwtAuthGuard, RolesGuard)
-    // @Roles('admin') // Uncomment to restrict to admin
+    @UseGuards(RolesGuard)
+    @Roles(Role.ADMIN)
     async syncMarkets() {
         return this.marketsService.syncMarkets();
     }
@@ -4,6 +4,7 @@ import { Repository } from 'typeorm';
 import { MarketEntity } from '../infrastructure/database/entities/market.entity';
 import { MarketContractEntity } from '../infrastructure/database/entities/market-contract.entity';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from '../broker/deriv-endpoint';
 
 @Injectable()
 export class MarketsService {
@@ -31,7 +32,7 @@ export class MarketsService {
 
     async syncMarkets(): Promise<{ count: number; message: string }> {
         const appId = 1089; // Default Deriv App ID
-        const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+        const url = getDerivWsUrl(appId);
 
         return new Promise((resolve, reject) => {
             const ws = new WebSocket(url);
@@ -1,6 +1,7 @@
 import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import WebSocket from 'ws';
+import { getDerivWsUrl } from '../broker/deriv-endpoint';
 
 export interface MarkupStatisticsOptions {
     date_from: string;
@@ -43,7 +44,7 @@ export class MarkupService {
         }
 
         const appId = options.app_id || Number(this.configService.get('DERIV_APP_ID') || 111346);
-        const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+        const url = getDerivWsUrl(appId);
 
         this.logger.log(
             `[MarkupService] Buscando estatísticas de markup - Período: ${options.date_from} a ${options.date_to}`,
@@ -175,7 +176,7 @@ export class MarkupService {
         }
 
         const appId = options.app_id || Number(this.configService.get('DERIV_APP_ID') || 111346);
-        const url = `wss://ws.derivws.com/websockets/v3?app_id=${appId}`;
+        const url = getDerivWsUrl(appId);
 
         this.logger.log(
             `[MarkupService] Buscando detalhes de markup - AppID: ${appId} - Período: ${options.date_from} a ${options.date_to}`,
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateMarketTicksTable1772100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'market_ticks',
+        columns: [
+          {
+            name: 'symbol',
+            type: 'varchar',
+            length: '16',
+            isPrimary: true,
+          },
+          {
+            name: 'epoch',
+            type: 'int',
+            unsigned: true,
+            isPrimary: true,
+          },
+          {
+            name: 'quote',
+            type: 'decimal',
+            precision: 16,
+            scale: 4,
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('market_ticks');
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import {
+  hasStoredDerivTokens,
+  rewriteStoredDerivTokens,
+} from '../utils/token-encryption.migrator';
+
+/**
+ * Cifra os tokens da Deriv já gravados (users, copy_trading_config, ai_user_config,
+ * autonomous_agent_config, autonomous_agent_trades e tokensByLoginId de deriv_raw)
+ * com DERIV_TOKEN_ENCRYPTION_KEYS.
+ */
+export class EncryptDerivTokens1772200000000 implements MigrationInterface {
+  name = 'EncryptDerivTokens1772200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const encryption = new TokenEncryptionService();
+
+    // Valor cifrado é maior que o token original
+    await queryRunner.query(
+      'ALTER TABLE `users` MODIFY COLUMN `token_demo` VARCHAR(512) NULL, MODIFY COLUMN `token_real` VARCHAR(512) NULL;',
+    );
+    if (await queryRunner.hasColumn('autonomous_agent_trades', 'deriv_token')) {
+      await queryRunner.query(
+        "ALTER TABLE `autonomous_agent_trades` MODIFY COLUMN `deriv_token` VARCHAR(512) NULL COMMENT 'Token usado para executar o trade (cifrado)';",
+      );
+    }
+
+    // Sem chave não trava as migrations seguintes: os tokens podem ser cifrados depois pelo script de rotação
+    if (!encryption.activeKeyVersion) {
+      console.warn(
+        (await hasStoredDerivTokens(queryRunner))
+          ? '⚠️ [EncryptDerivTokens] DERIV_TOKEN_ENCRYPTION_KEYS não configurada: tokens existentes seguem em texto puro. Configure a chave e rode src/scripts/rotate-deriv-token-key.ts para cifrá-los.'
+          : '⚠️ [EncryptDerivTokens] DERIV_TOKEN_ENCRYPTION_KEYS não configurada: nenhum token gravado para cifrar.',
+      );
+      return;
+    }
+
+    await rewriteStoredDerivTokens(queryRunner, encryption, 'encrypt');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await rewriteStoredDerivTokens(
+      queryRunner,
+      new TokenEncryptionService(),
+      'decrypt',
+    );
+
+    await queryRunner.query(
+      'ALTER TABLE `users` MODIFY COLUMN `token_demo` VARCHAR(255) NULL, MODIFY COLUMN `token_real` VARCHAR(255) NULL;',
+    );
+    if (await queryRunner.hasColumn('autonomous_agent_trades', 'deriv_token')) {
+      await queryRunner.query(
+        "ALTER TABLE `autonomous_agent_trades` MODIFY COLUMN `deriv_token` VARCHAR(255) NULL COMMENT 'Token usado para executar o trade';",
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorRecoveryCodes1772300000000
+  implements MigrationInterface
+{
+  name = 'AddTwoFactorRecoveryCodes1772300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const recoveryCodes = (await queryRunner.query(
+      "SHOW COLUMNS FROM `user_settings` LIKE 'two_factor_recovery_codes';",
+    )) as unknown[];
+    if (recoveryCodes.length === 0) {
+      await queryRunner.query(
+        'ALTER TABLE `user_settings` ADD COLUMN `two_factor_recovery_codes` text NULL AFTER `two_factor_secret`;',
+      );
+    }
+
+    const lastStep = (await queryRunner.query(
+      "SHOW COLUMNS FROM `user_settings` LIKE 'two_factor_last_step';",
+    )) as unknown[];
+    if (lastStep.length === 0) {
+      await queryRunner.query(
+        'ALTER TABLE `user_settings` ADD COLUMN `two_factor_last_step` bigint NULL AFTER `two_factor_recovery_codes`;',
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const column of [
+      'two_factor_last_step',
+      'two_factor_recovery_codes',
+    ]) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`user_settings\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`user_settings\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Execução real das operações dos copiadores: contrato próprio na Deriv e
+ * comparação com a execução do mestre (slippage, payout e atraso)
+ */
+export class AddFollowerFillToCopyTradingOperations1772400000000
+  implements MigrationInterface
+{
+  name = 'AddFollowerFillToCopyTradingOperations1772400000000';
+
+  private readonly columns: Array<[string, string]> = [
+    [
+      'contract_id',
+      "varchar(50) NULL COMMENT 'Contrato do copiador na Deriv' AFTER `trader_operation_id`",
+    ],
+    ['buy_price', 'decimal(10,2) NULL AFTER `stake_amount`'],
+    [
+      'expected_payout',
+      "decimal(10,2) NULL COMMENT 'Payout potencial na compra' AFTER `buy_price`",
+    ],
+    ['fill_spot', 'decimal(18,6) NULL AFTER `expected_payout`'],
+    ['master_buy_price', 'decimal(10,2) NULL AFTER `fill_spot`'],
+    ['master_expected_payout', 'decimal(10,2) NULL AFTER `master_buy_price`'],
+    ['master_fill_spot', 'decimal(18,6) NULL AFTER `master_expected_payout`'],
+    [
+      'entry_slippage',
+      "decimal(18,6) NULL COMMENT 'fill_spot - master_fill_spot' AFTER `master_fill_spot`",
+    ],
+    [
+      'payout_diff',
+      "decimal(10,4) NULL COMMENT 'Retorno potencial do copiador - do mestre (payout/buy_price)' AFTER `entry_slippage`",
+    ],
+    [
+      'fill_delay_ms',
+      "int NULL COMMENT 'Atraso da compra em relação ao mestre' AFTER `payout_diff`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`copy_trading_operations\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`copy_trading_operations\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    const existingIndex = (await queryRunner.query(
+      "SHOW INDEX FROM `copy_trading_operations` WHERE Key_name = 'idx_contract_id';",
+    )) as unknown[];
+    if (existingIndex.length === 0) {
+      await queryRunner.query(
+        'CREATE INDEX `idx_contract_id` ON `copy_trading_operations` (`contract_id`);',
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const existingIndex = (await queryRunner.query(
+      "SHOW INDEX FROM `copy_trading_operations` WHERE Key_name = 'idx_contract_id';",
+    )) as unknown[];
+    if (existingIndex.length > 0) {
+      await queryRunner.query(
+        'DROP INDEX `idx_contract_id` ON `copy_trading_operations`;',
+      );
+    }
+
+    for (const [column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`copy_trading_operations\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`copy_trading_operations\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
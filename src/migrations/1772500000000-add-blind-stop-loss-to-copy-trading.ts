@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlindStopLossToCopyTrading1772500000000
+  implements MigrationInterface
+{
+  name = 'AddBlindStopLossToCopyTrading1772500000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'copy_trading_config',
+      'blind_trigger_percent',
+      "decimal(5,2) NOT NULL DEFAULT 40.00 COMMENT 'Percentual do take profit que ativa o Stop Blindado' AFTER `blind_stop_loss`",
+    ],
+    [
+      'copy_trading_config',
+      'blind_protect_percent',
+      "decimal(5,2) NOT NULL DEFAULT 50.00 COMMENT 'Percentual do pico de lucro protegido' AFTER `blind_trigger_percent`",
+    ],
+    [
+      'copy_trading_sessions',
+      'profit_peak',
+      "decimal(10,2) NOT NULL DEFAULT 0.00 COMMENT 'Maior lucro acumulado da sessão' AFTER `total_profit`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    // Sessões em andamento partem do lucro atual como pico
+    await queryRunner.query(
+      "UPDATE `copy_trading_sessions` SET `profit_peak` = GREATEST(`total_profit`, 0) WHERE `status` = 'active';",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Estatísticas dos traders mestres calculadas a partir das operações reais,
+ * uma linha por trader e janela (7, 30 e 90 dias), recalculadas pelo scheduler
+ */
+export class CreateMasterTraderStatsTable1772600000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const decimal = (name: string, precision = 12, scale = 2) => ({
+      name,
+      type: 'decimal',
+      precision,
+      scale,
+      default: 0,
+    });
+    const int = (name: string) => ({ name, type: 'int', default: 0 });
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'master_trader_stats',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'trader_id',
+            type: 'char',
+            length: '36',
+            isNullable: false,
+          },
+          {
+            name: 'window_days',
+            type: 'smallint',
+            isNullable: false,
+          },
+          int('total_trades'),
+          int('wins'),
+          int('losses'),
+          decimal('win_rate', 5, 2),
+          decimal('total_stake'),
+          decimal('total_profit'),
+          decimal('roi', 10, 2),
+          decimal('max_drawdown'),
+          decimal('max_drawdown_percent', 10, 2),
+          decimal('avg_stake'),
+          int('active_copiers'),
+          int('copiers'),
+          int('copied_operations'),
+          decimal('copied_volume'),
+          {
+            name: 'last_trade_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'computed_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'master_trader_stats',
+      new TableIndex({
+        name: 'uq_master_trader_stats_trader_window',
+        columnNames: ['trader_id', 'window_days'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('master_trader_stats');
+  }
+}
@@ -0,0 +1,112 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Avaliações dos seguidores para os experts: uma por sessão de copy trading,
+ * com resposta do expert e moderação pelos administradores
+ */
+export class CreateExpertReviewsTable1772700000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'expert_reviews',
+        columns: [
+          {
+            name: 'id',
+            type: 'char',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'expert_id',
+            type: 'char',
+            length: '36',
+            isNullable: false,
+          },
+          {
+            name: 'user_id',
+            type: 'char',
+            length: '36',
+            isNullable: false,
+          },
+          {
+            name: 'session_id',
+            type: 'int',
+            unsigned: true,
+            isNullable: false,
+            isUnique: true,
+          },
+          {
+            name: 'rating',
+            type: 'tinyint',
+            isNullable: false,
+          },
+          {
+            name: 'comment',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'reply',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'replied_at',
+            type: 'datetime',
+            isNullable: true,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            default: "'published'",
+          },
+          {
+            name: 'moderation_reason',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'moderated_by',
+            type: 'char',
+            length: '36',
+            isNullable: true,
+          },
+          {
+            name: 'moderated_at',
+            type: 'datetime',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'expert_reviews',
+      new TableIndex({
+        name: 'idx_expert_reviews_expert_status',
+        columnNames: ['expert_id', 'status'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('expert_reviews');
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Filtros de cópia por seguidor (tipo de contrato, ativo, stake máxima, limite diário e horário)
+ * e registro das operações ignoradas pelos filtros
+ */
+export class AddCopyFiltersToCopyTrading1772800000000
+  implements MigrationInterface
+{
+  name = 'AddCopyFiltersToCopyTrading1772800000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'copy_trading_config',
+      'filter_contract_types',
+      "text NULL COMMENT 'JSON: tipos de contrato copiados (vazio = todos)' AFTER `blind_protect_percent`",
+    ],
+    [
+      'copy_trading_config',
+      'filter_symbols',
+      "text NULL COMMENT 'JSON: ativos copiados (vazio = todos)' AFTER `filter_contract_types`",
+    ],
+    [
+      'copy_trading_config',
+      'filter_max_stake',
+      "decimal(10,2) NULL COMMENT 'Stake máxima por operação' AFTER `filter_symbols`",
+    ],
+    [
+      'copy_trading_config',
+      'filter_max_daily_operations',
+      'int NULL AFTER `filter_max_stake`',
+    ],
+    [
+      'copy_trading_config',
+      'filter_trading_start',
+      "varchar(5) NULL COMMENT 'HH:MM no fuso do usuário' AFTER `filter_max_daily_operations`",
+    ],
+    [
+      'copy_trading_config',
+      'filter_trading_end',
+      "varchar(5) NULL COMMENT 'HH:MM no fuso do usuário' AFTER `filter_trading_start`",
+    ],
+    [
+      'copy_trading_operations',
+      'skip_reason',
+      "varchar(255) NULL COMMENT 'Motivo quando a operação foi ignorada pelos filtros' AFTER `result`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    await queryRunner.query(
+      "ALTER TABLE `copy_trading_operations` MODIFY COLUMN `result` ENUM('win', 'loss', 'pending', 'skipped') NOT NULL DEFAULT 'pending';",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Operações ignoradas não têm contrato; não cabem no ENUM antigo
+    await queryRunner.query(
+      "DELETE FROM `copy_trading_operations` WHERE `result` = 'skipped';",
+    );
+    await queryRunner.query(
+      "ALTER TABLE `copy_trading_operations` MODIFY COLUMN `result` ENUM('win', 'loss', 'pending') NOT NULL DEFAULT 'pending';",
+    );
+
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Taxa de performance dos traders mestres: percentual no expert, high-water mark por sessão,
+ * lançamentos (accruals) ligados às operações e extratos por período
+ */
+export class CreateCopyTradingFeeLedger1772900000000
+  implements MigrationInterface
+{
+  name = 'CreateCopyTradingFeeLedger1772900000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'experts',
+      'performance_fee_percent',
+      "decimal(5,2) NOT NULL DEFAULT 0.00 COMMENT 'Percentual sobre o lucro líquido dos seguidores' AFTER `win_rate`",
+    ],
+    [
+      'copy_trading_sessions',
+      'fee_percent',
+      "decimal(5,2) NOT NULL DEFAULT 0.00 COMMENT 'Taxa de performance vigente na ativação' AFTER `profit_peak`",
+    ],
+    [
+      'copy_trading_sessions',
+      'fee_high_water_mark',
+      "decimal(10,2) NOT NULL DEFAULT 0.00 COMMENT 'Maior lucro acumulado já tarifado' AFTER `fee_percent`",
+    ],
+    [
+      'copy_trading_sessions',
+      'total_fees',
+      'decimal(10,2) NOT NULL DEFAULT 0.00 AFTER `fee_high_water_mark`',
+    ],
+    [
+      'copy_trading_operations',
+      'fee_amount',
+      "decimal(10,2) NOT NULL DEFAULT 0.00 COMMENT 'Taxa de performance gerada por esta operação' AFTER `profit`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    const money = (name: string) => ({
+      name,
+      type: 'decimal',
+      precision: 10,
+      scale: 2,
+      default: 0,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'copy_trading_fee_accruals',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'session_id', type: 'int', unsigned: true },
+          { name: 'operation_id', type: 'int', unsigned: true },
+          { name: 'follower_user_id', type: 'char', length: '36' },
+          { name: 'master_user_id', type: 'varchar', length: '100' },
+          { name: 'statement_id', type: 'int', isNullable: true },
+          { name: 'period', type: 'char', length: '7' },
+          { name: 'fee_percent', type: 'decimal', precision: 5, scale: 2 },
+          money('session_profit'),
+          money('previous_high_water_mark'),
+          money('new_high_water_mark'),
+          money('fee_amount'),
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'copy_trading_fee_accruals',
+      new TableIndex({
+        name: 'uq_fee_accruals_operation',
+        columnNames: ['operation_id'],
+        isUnique: true,
+      }),
+    );
+    await queryRunner.createIndex(
+      'copy_trading_fee_accruals',
+      new TableIndex({
+        name: 'idx_fee_accruals_master_period',
+        columnNames: ['master_user_id', 'period'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'copy_trading_fee_statements',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'master_user_id', type: 'varchar', length: '100' },
+          { name: 'period', type: 'char', length: '7' },
+          money('total_fees'),
+          { name: 'accrual_count', type: 'int', default: 0 },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'open'",
+          },
+          { name: 'paid_at', type: 'datetime', isNullable: true },
+          { name: 'paid_by', type: 'char', length: '36', isNullable: true },
+          {
+            name: 'payout_reference',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'copy_trading_fee_statements',
+      new TableIndex({
+        name: 'uq_fee_statements_master_period',
+        columnNames: ['master_user_id', 'period'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('copy_trading_fee_statements', true);
+    await queryRunner.dropTable('copy_trading_fee_accruals', true);
+
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
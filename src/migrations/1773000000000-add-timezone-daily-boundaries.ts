@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Limites diários por fuso do usuário: controle do resumo diário já enviado e
+ * início da janela diária das IAs (zerada na meia-noite local)
+ */
+export class AddTimezoneDailyBoundaries1773000000000
+  implements MigrationInterface
+{
+  name = 'AddTimezoneDailyBoundaries1773000000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'user_settings',
+      'daily_summary_sent_for',
+      "date NULL COMMENT 'Último dia local com resumo diário processado' AFTER `email_notifications`",
+    ],
+    [
+      'ai_user_config',
+      'daily_reset_at',
+      "datetime NULL COMMENT 'Início da janela diária de meta/limite (meia-noite no fuso do usuário)'",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Notificações por evento: caixa de entrada in-app e preferências por evento/canal
+ * (e-mail, in-app, webhook) em user_settings
+ */
+export class CreateUserNotifications1773100000000
+  implements MigrationInterface
+{
+  name = 'CreateUserNotifications1773100000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'user_settings',
+      'notification_preferences',
+      "text NULL COMMENT 'Preferências por evento e canal (JSON)' AFTER `daily_summary_sent_for`",
+    ],
+    [
+      'user_settings',
+      'notification_webhook_url',
+      'varchar(500) NULL AFTER `notification_preferences`',
+    ],
+    [
+      'user_settings',
+      'notification_webhook_secret',
+      "varchar(64) NULL COMMENT 'Segredo HMAC do webhook de notificações' AFTER `notification_webhook_url`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_notifications',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'user_id', type: 'char', length: '36' },
+          { name: 'event_type', type: 'varchar', length: '50' },
+          { name: 'source', type: 'varchar', length: '30' },
+          { name: 'title', type: 'varchar', length: '255' },
+          { name: 'message', type: 'text' },
+          { name: 'data', type: 'json', isNullable: true },
+          { name: 'read_at', type: 'datetime', isNullable: true },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'user_notifications',
+      new TableIndex({
+        name: 'idx_user_notifications_user_read',
+        columnNames: ['user_id', 'read_at'],
+      }),
+    );
+    await queryRunner.createIndex(
+      'user_notifications',
+      new TableIndex({
+        name: 'idx_user_notifications_user_created',
+        columnNames: ['user_id', 'created_at'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('user_notifications', true);
+
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Avisos do sistema segmentados: público (plano, role, produto ativo ou lista de usuários),
+ * início agendado e confirmações de leitura/dispensa por usuário
+ */
+export class AddAudienceToNotifications1773200000000
+  implements MigrationInterface
+{
+  name = 'AddAudienceToNotifications1773200000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'notifications',
+      'audience',
+      "json NULL COMMENT 'Público alvo (plans, roles, products, userIds); NULL = todos' AFTER `description`",
+    ],
+    [
+      'notifications',
+      'display_from',
+      "datetime NULL COMMENT 'Início da exibição; NULL = imediato' AFTER `audience`",
+    ],
+    [
+      'notifications',
+      'updated_at',
+      'datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6) AFTER `created_at`',
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'notification_receipts',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'notification_id', type: 'varchar', length: '36' },
+          { name: 'user_id', type: 'char', length: '36' },
+          { name: 'viewed_at', type: 'datetime', isNullable: true },
+          { name: 'dismissed_at', type: 'datetime', isNullable: true },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'notification_receipts',
+      new TableIndex({
+        name: 'uq_notification_receipts_notification_user',
+        columnNames: ['notification_id', 'user_id'],
+        isUnique: true,
+      }),
+    );
+    await queryRunner.createIndex(
+      'notification_receipts',
+      new TableIndex({
+        name: 'idx_notification_receipts_user',
+        columnNames: ['user_id'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('notification_receipts', true);
+
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Limites por plano (produtos, concorrência, stake, operações diárias, ativos,
+ * tipo de conta e sessões de copy trading)
+ */
+export class AddEntitlementsToPlans1773300000000 implements MigrationInterface {
+  name = 'AddEntitlementsToPlans1773300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const existingColumn = (await queryRunner.query(
+      `SHOW COLUMNS FROM \`plans\` LIKE 'entitlements';`,
+    )) as unknown[];
+    if (existingColumn.length === 0) {
+      await queryRunner.query(
+        "ALTER TABLE `plans` ADD COLUMN `entitlements` json NULL COMMENT 'Limites do plano (PlanEntitlements)' AFTER `benefits`;",
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const existingColumn = (await queryRunner.query(
+      `SHOW COLUMNS FROM \`plans\` LIKE 'entitlements';`,
+    )) as unknown[];
+    if (existingColumn.length > 0) {
+      await queryRunner.query(
+        'ALTER TABLE `plans` DROP COLUMN `entitlements`;',
+      );
+    }
+  }
+}
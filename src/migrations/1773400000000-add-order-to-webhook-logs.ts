@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner, TableIndex } from 'typeorm';
+
+/**
+ * Webhooks da Kiwify: id do pedido para deduplicar eventos e data do processamento
+ */
+export class AddOrderToWebhookLogs1773400000000 implements MigrationInterface {
+  name = 'AddOrderToWebhookLogs1773400000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'webhook_logs',
+      'order_id',
+      "varchar(100) NULL COMMENT 'order_id da Kiwify' AFTER `event_type`",
+    ],
+    [
+      'webhook_logs',
+      'processed_at',
+      "datetime NULL COMMENT 'Quando o evento foi aplicado ao usuário' AFTER `details`",
+    ],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    const table = await queryRunner.getTable('webhook_logs');
+    if (
+      table &&
+      !table.indices.some(
+        (index) => index.name === 'idx_webhook_logs_order_event',
+      )
+    ) {
+      await queryRunner.createIndex(
+        'webhook_logs',
+        new TableIndex({
+          name: 'idx_webhook_logs_order_event',
+          columnNames: ['order_id', 'event_type'],
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const table = await queryRunner.getTable('webhook_logs');
+    if (
+      table &&
+      table.indices.some(
+        (index) => index.name === 'idx_webhook_logs_order_event',
+      )
+    ) {
+      await queryRunner.dropIndex(
+        'webhook_logs',
+        'idx_webhook_logs_order_event',
+      );
+    }
+
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+  }
+}
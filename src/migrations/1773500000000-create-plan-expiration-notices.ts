@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Etapas do vencimento já aplicadas por usuário e data de expiração (lembretes, carência e
+ * rebaixamento), para o scheduler não repetir avisos
+ */
+export class CreatePlanExpirationNotices1773500000000
+  implements MigrationInterface
+{
+  name = 'CreatePlanExpirationNotices1773500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'plan_expiration_notices',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          { name: 'user_id', type: 'char', length: '36' },
+          { name: 'plan_id', type: 'char', length: '36', isNullable: true },
+          { name: 'expiration_date', type: 'datetime' },
+          {
+            name: 'stage',
+            type: 'varchar',
+            length: '30',
+            comment: 'reminder_<dias>, grace ou expired',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'plan_expiration_notices',
+      new TableIndex({
+        name: 'uq_plan_expiration_notices_user_expiration_stage',
+        columnNames: ['user_id', 'expiration_date', 'stage'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('plan_expiration_notices', true);
+  }
+}
@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Sessões revogáveis: o access token carrega o id da sessão (jti) e o refresh token rotativo
+ * fica guardado como hash. O JWT bruto deixa de ser gravado em `token`.
+ */
+export class AddRevocationToUserSessions1773600000000
+  implements MigrationInterface
+{
+  name = 'AddRevocationToUserSessions1773600000000';
+
+  private readonly columns: Array<[string, string, string]> = [
+    [
+      'user_sessions',
+      'refresh_token_hash',
+      "varchar(64) NULL COMMENT 'SHA-256 do segredo do refresh token atual' AFTER `token`",
+    ],
+    [
+      'user_sessions',
+      'expires_at',
+      "datetime NULL COMMENT 'Validade do refresh token' AFTER `ip_address`",
+    ],
+    ['user_sessions', 'revoked_at', 'datetime NULL AFTER `expires_at`'],
+    ['user_sessions', 'revoked_reason', 'varchar(100) NULL AFTER `revoked_at`'],
+  ];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, definition] of this.columns) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length === 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` ADD COLUMN \`${column}\` ${definition};`,
+        );
+      }
+    }
+
+    await queryRunner.query(
+      'ALTER TABLE `user_sessions` MODIFY COLUMN `token` varchar(500) NULL;',
+    );
+    // Sessões antigas não têm refresh token e seus JWTs não têm jti: ficam revogadas
+    await queryRunner.query(
+      "UPDATE `user_sessions` SET `revoked_at` = NOW(), `revoked_reason` = 'legacy' WHERE `refresh_token_hash` IS NULL AND `revoked_at` IS NULL;",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column] of [...this.columns].reverse()) {
+      const existingColumn = (await queryRunner.query(
+        `SHOW COLUMNS FROM \`${table}\` LIKE '${column}';`,
+      )) as unknown[];
+      if (existingColumn.length > 0) {
+        await queryRunner.query(
+          `ALTER TABLE \`${table}\` DROP COLUMN \`${column}\`;`,
+        );
+      }
+    }
+
+    await queryRunner.query(
+      'UPDATE `user_sessions` SET `token` = `id` WHERE `token` IS NULL;',
+    );
+    await queryRunner.query(
+      'ALTER TABLE `user_sessions` MODIFY COLUMN `token` varchar(500) NOT NULL;',
+    );
+  }
+}
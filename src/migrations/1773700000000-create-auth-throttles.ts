@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Contadores de tentativas falhas de login, recuperação de senha e confirmação de conta,
+ * por conta e por IP (espera exponencial e bloqueio temporário com desbloqueio por e-mail)
+ */
+export class CreateAuthThrottles1773700000000 implements MigrationInterface {
+  name = 'CreateAuthThrottles1773700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'auth_throttles',
+        columns: [
+          {
+            name: 'throttle_key',
+            type: 'varchar',
+            length: '191',
+            isPrimary: true,
+            comment: '<ação>:<account|ip>:<e-mail ou IP>',
+          },
+          { name: 'failures', type: 'int', default: 0 },
+          { name: 'blocked_until', type: 'datetime', isNullable: true },
+          { name: 'locked_until', type: 'datetime', isNullable: true },
+          { name: 'last_failure_at', type: 'datetime', isNullable: true },
+          {
+            name: 'unlock_token_hash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+            comment: 'SHA-256 do token enviado no e-mail de desbloqueio',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndex(
+      'auth_throttles',
+      new TableIndex({
+        name: 'idx_auth_throttles_unlock_token_hash',
+        columnNames: ['unlock_token_hash'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('auth_throttles', true);
+  }
+}
@@ -0,0 +1,126 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+/**
+ * Livro único de operações de IA, agente autônomo, copy trading e operações manuais.
+ * Cada produto sincroniza a linha na compra e na liquidação; o histórico das tabelas
+ * legadas é copiado pelo TradeLedgerService na primeira inicialização.
+ */
+export class CreateTradeLedger1773800000000 implements MigrationInterface {
+  name = 'CreateTradeLedger1773800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'trade_ledger',
+        columns: [
+          {
+            name: 'id',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'source',
+            type: 'varchar',
+            length: '10',
+            comment: 'ai, agent, copy ou manual',
+          },
+          {
+            name: 'source_trade_id',
+            type: 'varchar',
+            length: '36',
+            comment:
+              'id da linha em ai_trades, autonomous_agent_trades, copy_trading_operations ou trades',
+          },
+          { name: 'user_id', type: 'char', length: '36' },
+          { name: 'strategy', type: 'varchar', length: '50', isNullable: true },
+          { name: 'symbol', type: 'varchar', length: '50', isNullable: true },
+          {
+            name: 'contract_type',
+            type: 'varchar',
+            length: '50',
+            isNullable: true,
+          },
+          {
+            name: 'stake',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'payout',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+            comment:
+              'Valor pago pela Deriv na liquidação (stake + lucro; 0 se perdeu)',
+          },
+          {
+            name: 'profit',
+            type: 'decimal',
+            precision: 12,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '10',
+            default: "'pending'",
+            comment: 'pending, won, lost ou error',
+          },
+          {
+            name: 'account_type',
+            type: 'varchar',
+            length: '10',
+            isNullable: true,
+            comment: 'real ou demo (desconhecido em parte do histórico)',
+          },
+          { name: 'currency', type: 'varchar', length: '10', isNullable: true },
+          {
+            name: 'contract_id',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          { name: 'opened_at', type: 'datetime' },
+          { name: 'settled_at', type: 'datetime', isNullable: true },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+    await queryRunner.createIndices('trade_ledger', [
+      new TableIndex({
+        name: 'uq_trade_ledger_source_trade',
+        columnNames: ['source', 'source_trade_id'],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: 'idx_trade_ledger_user_opened',
+        columnNames: ['user_id', 'opened_at'],
+      }),
+      new TableIndex({
+        name: 'idx_trade_ledger_contract_id',
+        columnNames: ['contract_id'],
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('trade_ledger', true);
+  }
+}
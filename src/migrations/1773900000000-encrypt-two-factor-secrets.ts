@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+
+/**
+ * Cifra user_settings.two_factor_secret com DERIV_TOKEN_ENCRYPTION_KEYS (mesmo envelope dos tokens da Deriv)
+ */
+export class EncryptTwoFactorSecrets1773900000000
+  implements MigrationInterface
+{
+  name = 'EncryptTwoFactorSecrets1773900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE `user_settings` MODIFY COLUMN `two_factor_secret` VARCHAR(512) NULL;',
+    );
+
+    const encryption = new TokenEncryptionService();
+    if (!encryption.activeKeyVersion) {
+      // Não trava as migrations seguintes: o script de rotação cifra depois
+      console.warn(
+        '⚠️ [EncryptTwoFactorSecrets] DERIV_TOKEN_ENCRYPTION_KEYS não configurada: segredos do 2FA seguem em texto puro. Configure a chave e rode src/scripts/rotate-deriv-token-key.ts.',
+      );
+      return;
+    }
+
+    await this.rewrite(queryRunner, (secret) => encryption.encrypt(secret));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const encryption = new TokenEncryptionService();
+    await this.rewrite(queryRunner, (secret) => encryption.decrypt(secret));
+
+    await queryRunner.query(
+      'ALTER TABLE `user_settings` MODIFY COLUMN `two_factor_secret` VARCHAR(255) NULL;',
+    );
+  }
+
+  private async rewrite(
+    queryRunner: QueryRunner,
+    map: (secret: string) => string,
+  ): Promise<void> {
+    const rows = (await queryRunner.query(
+      "SELECT id, two_factor_secret FROM `user_settings` WHERE two_factor_secret IS NOT NULL AND two_factor_secret <> ''",
+    )) as { id: string; two_factor_secret: string }[];
+    for (const row of rows) {
+      const value = map(row.two_factor_secret);
+      if (value === row.two_factor_secret) continue;
+      await queryRunner.query(
+        'UPDATE `user_settings` SET two_factor_secret = ? WHERE id = ?',
+        [value, row.id],
+      );
+    }
+  }
+}
@@ -3,6 +3,13 @@ import { Cron } from '@nestjs/schedule';
 import { InjectDataSource } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
 import { EmailService } from '../auth/email.service';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
+import {
+    DEFAULT_TIMEZONE,
+    groupByTimeZone,
+    localDateString,
+    previousDayRangeInTimeZone,
+} from '../utils/timezone.utils';
 
 @Injectable()
 export class DailySummaryService {
@@ -11,110 +18,127 @@ export class DailySummaryService {
     constructor(
         @InjectDataSource() private readonly dataSource: DataSource,
         private readonly emailService: EmailService,
+        private readonly tradeLedger: TradeLedgerService,
     ) { }
 
+    private isProcessing = false;
+
     /**
-     * Dispara o envio de relatórios diários
-     * Agendado para meia-noite (00:00)
+     * Dispara o envio de relatórios diários por fuso horário do usuário (user_settings.timezone)
+     * Roda a cada 15 minutos: cada bucket de fuso é processado assim que a meia-noite local passa
+     * (inclusive fusos com offset de 30/45 minutos). daily_summary_sent_for evita reenvios.
      */
-    @Cron('0 0 * * *')
+    @Cron('*/15 * * * *')
     async handleDailySummary() {
-        this.logger.log('[DailySummary] Iniciando processamento de resumos diários (Produção 00:00)...');
-
-        // Período: dia anterior completo (00:00:00 às 23:59:59)
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-
-        // Configurar para o fuso America/Sao_Paulo (UTC-3 geralmente)
-        // Para simplificar e garantir precisão, vamos usar o início e fim do dia no calendário local
-        const startOfDay = new Date(yesterday);
-        startOfDay.setHours(0, 0, 0, 0);
+        if (this.isProcessing) {
+            this.logger.debug('[DailySummary] Processamento anterior ainda em andamento, pulando...');
+            return;
+        }
+        this.isProcessing = true;
 
-        const endOfDay = new Date(yesterday);
-        endOfDay.setHours(23, 59, 59, 999);
+        try {
+            const now = new Date();
+            const timeZones = await this.dataSource.query(
+                `SELECT DISTINCT COALESCE(s.timezone, ?) AS timezone
+           FROM user_settings s
+           WHERE s.email_notifications = true`,
+                [DEFAULT_TIMEZONE],
+            );
+            const buckets = groupByTimeZone(timeZones, (row: any) => row.timezone);
+
+            for (const [timeZone, rows] of buckets) {
+                await this.processTimeZoneBucket(
+                    timeZone,
+                    rows.map((row: any) => row.timezone),
+                    now,
+                );
+            }
+        } catch (error) {
+            this.logger.error(`[DailySummary] Erro fatal no processamento: ${error.message}`, error.stack);
+        } finally {
+            this.isProcessing = false;
+        }
+    }
 
-        this.logger.log(`[DailySummary] Período de análise: ${startOfDay.toISOString()} até ${endOfDay.toISOString()}`);
+    /**
+     * Envia o resumo do dia anterior (no fuso do bucket) aos usuários que ainda não o receberam.
+     * storedTimeZones inclui valores inválidos gravados em user_settings que caem no fuso padrão.
+     */
+    private async processTimeZoneBucket(timeZone: string, storedTimeZones: string[], now: Date) {
+        // Período: dia anterior completo no fuso do usuário (00:00:00 às 23:59:59.999 locais)
+        const { start: startOfDay, end: endOfDay } = previousDayRangeInTimeZone(now, timeZone);
+        const summaryDate = localDateString(startOfDay, timeZone);
+        const includesNull = timeZone === DEFAULT_TIMEZONE;
 
-        let offset = 0;
         const limit = 50;
+        let processed = 0;
 
-        try {
-            while (true) {
-                // Buscar usuários que optaram por receber notificações
-                const users = await this.dataSource.query(
-                    `SELECT u.id, u.name, u.email 
+        while (true) {
+            // Buscar usuários que optaram por receber notificações e ainda não processaram este dia.
+            // Cada lote é marcado como processado, então a próxima página é sempre a primeira.
+            const users = await this.dataSource.query(
+                `SELECT u.id, u.name, u.email
            FROM users u
            JOIN user_settings s ON u.id = s.user_id
            WHERE s.email_notifications = true
-           LIMIT ? OFFSET ?`,
-                    [limit, offset],
-                );
+             AND (s.timezone IN (?)${includesNull ? ' OR s.timezone IS NULL' : ''})
+             AND (s.daily_summary_sent_for IS NULL OR s.daily_summary_sent_for < ?)
+           LIMIT ?`,
+                [storedTimeZones, summaryDate, limit],
+            );
 
-                if (!users || users.length === 0) break;
+            if (!users || users.length === 0) break;
 
-                this.logger.log(`[DailySummary] Processando lote de ${users.length} usuários (offset: ${offset})...`);
-
-                const summaryPromises = users.map(async (user) => {
-                    try {
-                        const stats = await this.getUserStats(user.id, startOfDay, endOfDay);
-
-                        // Apenas enviar se houver atividade no dia
-                        if (stats.totalTrades > 0) {
-                            await this.emailService.sendDailySummary(user.email, user.name, stats);
-                            this.logger.debug(`[DailySummary] Resumo enviado com sucesso para ${user.email}`);
-                        }
-                    } catch (error) {
-                        this.logger.error(`[DailySummary] Erro ao processar resumo para usuário ${user.id}: ${error.message}`);
+            if (processed === 0) {
+                this.logger.log(
+                    `[DailySummary] Fuso ${timeZone}: resumo de ${summaryDate} (${startOfDay.toISOString()} até ${endOfDay.toISOString()})`,
+                );
+            }
+            this.logger.log(`[DailySummary] Processando lote de ${users.length} usuários (${timeZone})...`);
+
+            // Marca antes de enviar: uma falha de SMTP não deve gerar reenvio a cada 15 minutos
+            await this.dataSource.query(
+                `UPDATE user_settings SET daily_summary_sent_for = ? WHERE user_id IN (?)`,
+                [summaryDate, users.map((user) => user.id)],
+            );
+
+            const summaryPromises = users.map(async (user) => {
+                try {
+                    const stats = await this.getUserStats(user.id, startOfDay, endOfDay);
+
+                    // Apenas enviar se houver atividade no dia
+                    if (stats.totalTrades > 0) {
+                        await this.emailService.sendDailySummary(user.email, user.name, stats);
+                        this.logger.debug(`[DailySummary] Resumo enviado com sucesso para ${user.email}`);
                     }
-                });
+                } catch (error) {
+                    this.logger.error(`[DailySummary] Erro ao processar resumo para usuário ${user.id}: ${error.message}`);
+                }
+            });
 
-                // Aguardar o lote atual antes de prosseguir para evitar sobrecarga do servidor SMTP ou memória
-                await Promise.allSettled(summaryPromises);
+            // Aguardar o lote atual antes de prosseguir para evitar sobrecarga do servidor SMTP ou memória
+            await Promise.allSettled(summaryPromises);
 
-                offset += limit;
-                if (users.length < limit) break;
-            }
+            processed += users.length;
+            if (users.length < limit) break;
+        }
 
-            this.logger.log('[DailySummary] Processamento de resumos diários concluído com sucesso.');
-        } catch (error) {
-            this.logger.error(`[DailySummary] Erro fatal no processamento: ${error.message}`, error.stack);
+        if (processed > 0) {
+            this.logger.log(`[DailySummary] ✅ Fuso ${timeZone}: ${processed} usuários processados para ${summaryDate}`);
         }
     }
 
     /**
-     * Calcula agregados de trades da IA e do Agente Autônomo
+     * Agregados do dia em todos os produtos (IA, agente, copy trading e operações manuais)
      */
     private async getUserStats(userId: string, start: Date, end: Date) {
-        const queries = [
-            this.dataSource.query(
-                `SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status IN ('WON', 'won') THEN 1 ELSE 0 END) as wins,
-          SUM(CASE WHEN status IN ('LOST', 'lost') THEN 1 ELSE 0 END) as losses,
-          SUM(COALESCE(profit_loss, 0)) as netProfit
-         FROM ai_trades
-         WHERE user_id = ? AND created_at BETWEEN ? AND ?`,
-                [userId, start, end],
-            ),
-            this.dataSource.query(
-                `SELECT 
-          COUNT(*) as total,
-          SUM(CASE WHEN status IN ('WON', 'won') THEN 1 ELSE 0 END) as wins,
-          SUM(CASE WHEN status IN ('LOST', 'lost') THEN 1 ELSE 0 END) as losses,
-          SUM(COALESCE(profit_loss, 0)) as netProfit
-         FROM autonomous_agent_trades
-         WHERE user_id = ? AND created_at BETWEEN ? AND ?`,
-                [userId, start, end],
-            ),
-        ];
-
-        const [aiResult, agentResult] = await Promise.all(queries);
-
-        const totalTrades = (parseInt(aiResult[0]?.total) || 0) + (parseInt(agentResult[0]?.total) || 0);
-        const wins = (parseInt(aiResult[0]?.wins) || 0) + (parseInt(agentResult[0]?.wins) || 0);
-        const losses = (parseInt(aiResult[0]?.losses) || 0) + (parseInt(agentResult[0]?.losses) || 0);
-        const netProfit = (parseFloat(aiResult[0]?.netProfit) || 0) + (parseFloat(agentResult[0]?.netProfit) || 0);
-
-        return { totalTrades, wins, losses, netProfit };
+        const stats = await this.tradeLedger.getStats(userId, { from: start, to: end });
+
+        return {
+            totalTrades: stats.trades,
+            wins: stats.wins,
+            losses: stats.losses,
+            netProfit: stats.profit,
+        };
     }
 }
@@ -1,6 +1,9 @@
 export * from './notifications.service';
 export * from './notifications.controller';
 export * from './notifications.module';
+export * from './notification-events';
+export * from './notification-events.service';
+export * from './notification-events.module';
 
 
 
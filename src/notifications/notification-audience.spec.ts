@@ -0,0 +1,46 @@
+import {
+  buildAudienceCondition,
+  normalizeNotificationAudience,
+} from './notification-audience';
+import { Role } from '../auth/roles';
+
+describe('notification-audience', () => {
+  it('sem critérios o aviso vale para todos', () => {
+    expect(normalizeNotificationAudience(null)).toBeNull();
+    expect(normalizeNotificationAudience({ plans: [], roles: [] })).toBeNull();
+    expect(buildAudienceCondition(null)).toEqual({
+      sql: 'u.is_active = 1',
+      params: [],
+    });
+  });
+
+  it('normaliza listas e rejeita roles ou produtos desconhecidos', () => {
+    expect(
+      normalizeNotificationAudience(
+        JSON.stringify({ roles: ['Expert', 'expert'], plans: 'pro, gold ' }),
+      ),
+    ).toEqual({
+      plans: ['pro', 'gold'],
+      roles: [Role.EXPERT],
+      products: [],
+      userIds: [],
+    });
+    expect(() =>
+      normalizeNotificationAudience({ products: ['ai', 'forex'] }),
+    ).toThrow('forex');
+  });
+
+  it('combina os critérios com E e os produtos com OU', () => {
+    const condition = buildAudienceCondition(
+      normalizeNotificationAudience({
+        roles: ['expert'],
+        products: ['ai', 'copy_trading'],
+        userIds: ['u-1'],
+      }),
+    );
+    expect(condition.sql).toContain('u.role IN (?)');
+    expect(condition.sql).toContain('ai_user_config');
+    expect(condition.sql).toContain(' OR EXISTS');
+    expect(condition.params).toEqual([['expert', 'trader'], ['u-1']]);
+  });
+});
@@ -0,0 +1,129 @@
+import { Role, storedRoleValues } from '../auth/roles';
+
+/**
+ * Produtos que o usuário pode estar operando no momento
+ */
+export const NOTIFICATION_AUDIENCE_PRODUCTS = [
+  'ai',
+  'agent',
+  'copy_trading',
+] as const;
+export type NotificationAudienceProduct =
+  (typeof NOTIFICATION_AUDIENCE_PRODUCTS)[number];
+
+/**
+ * Público de um aviso do sistema (notifications.audience).
+ * Cada critério preenchido restringe o público (E entre critérios, OU dentro de cada lista);
+ * sem critérios o aviso vale para todos.
+ */
+export interface NotificationAudience {
+  plans: string[]; // id ou slug do plano
+  roles: Role[];
+  products: NotificationAudienceProduct[];
+  userIds: string[];
+}
+
+const normalizeList = (value: unknown, lowerCase = false): string[] => {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string' && value.trim()
+      ? value.split(',')
+      : [];
+  return [
+    ...new Set(
+      list
+        .map((item) => String(item).trim())
+        .map((item) => (lowerCase ? item.toLowerCase() : item))
+        .filter((item) => item.length > 0),
+    ),
+  ];
+};
+
+/**
+ * Normaliza o público vindo da API ou do banco. Retorna null quando não há nenhum critério
+ * (aviso para todos). Lança erro com os valores inválidos de roles/produtos.
+ */
+export function normalizeNotificationAudience(
+  input: unknown,
+): NotificationAudience | null {
+  let source = input;
+  if (typeof source === 'string') {
+    try {
+      source = JSON.parse(source);
+    } catch {
+      source = null;
+    }
+  }
+  if (!source || typeof source !== 'object') return null;
+  const raw = source as Record<string, unknown>;
+
+  const roles = normalizeList(raw.roles, true);
+  const invalidRoles = roles.filter(
+    (role) => !(Object.values(Role) as string[]).includes(role),
+  );
+  const products = normalizeList(raw.products, true);
+  const invalidProducts = products.filter(
+    (product) =>
+      !(NOTIFICATION_AUDIENCE_PRODUCTS as readonly string[]).includes(product),
+  );
+  if (invalidRoles.length > 0 || invalidProducts.length > 0) {
+    throw new Error(
+      `Público inválido: ${[...invalidRoles, ...invalidProducts].join(', ')}`,
+    );
+  }
+
+  const audience: NotificationAudience = {
+    plans: normalizeList(raw.plans),
+    roles: roles as Role[],
+    products: products as NotificationAudienceProduct[],
+    userIds: normalizeList(raw.userIds),
+  };
+  const hasCriteria =
+    audience.plans.length > 0 ||
+    audience.roles.length > 0 ||
+    audience.products.length > 0 ||
+    audience.userIds.length > 0;
+  return hasCriteria ? audience : null;
+}
+
+const PRODUCT_CONDITIONS: Record<NotificationAudienceProduct, string> = {
+  ai: 'EXISTS (SELECT 1 FROM ai_user_config a WHERE a.user_id = u.id AND a.is_active = 1)',
+  agent:
+    'EXISTS (SELECT 1 FROM autonomous_agent_config ag WHERE ag.user_id = u.id AND ag.is_active = 1)',
+  copy_trading:
+    "EXISTS (SELECT 1 FROM copy_trading_config c WHERE c.user_id = u.id AND c.is_active = 1 AND c.session_status = 'active')",
+};
+
+/**
+ * Condição SQL sobre `users u` que seleciona o público. Usada tanto para saber se um usuário
+ * está no público quanto para contar o total de destinatários.
+ */
+export function buildAudienceCondition(audience: NotificationAudience | null): {
+  sql: string;
+  params: any[];
+} {
+  const conditions: string[] = ['u.is_active = 1'];
+  const params: any[] = [];
+  if (!audience) return { sql: conditions.join(' AND '), params };
+
+  if (audience.plans.length > 0) {
+    conditions.push(
+      'u.plan_id IN (SELECT p.id FROM plans p WHERE p.id IN (?) OR p.slug IN (?))',
+    );
+    params.push(audience.plans, audience.plans);
+  }
+  if (audience.roles.length > 0) {
+    conditions.push('u.role IN (?)');
+    params.push(storedRoleValues(audience.roles));
+  }
+  if (audience.products.length > 0) {
+    conditions.push(
+      `(${audience.products.map((product) => PRODUCT_CONDITIONS[product]).join(' OR ')})`,
+    );
+  }
+  if (audience.userIds.length > 0) {
+    conditions.push('u.id IN (?)');
+    params.push(audience.userIds);
+  }
+  return { sql: conditions.join(' AND '), params };
+}
@@ -0,0 +1,183 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { Subscription } from 'rxjs';
+import { createHmac } from 'crypto';
+import { EmailService } from '../auth/email.service';
+import { NotificationEventsService } from './notification-events.service';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  notificationPreferencesFromRow,
+} from './notification-events';
+import { assertPublicWebhookUrl } from './webhook-url';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Entrega os eventos do NotificationEventsService nos canais habilitados pelo usuário
+ * (user_settings.notification_preferences): caixa de entrada, e-mail e webhook.
+ * Falha em um canal não impede os demais nem afeta o fluxo que emitiu o evento.
+ */
+@Injectable()
+export class NotificationDispatcherService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+  private subscription?: Subscription;
+
+  constructor(
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly notificationEvents: NotificationEventsService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.notificationEvents.events$.subscribe((event) => {
+      this.deliver(event).catch((error) =>
+        this.logger.error(
+          `[Notifications] Erro ao entregar ${event.type} para ${event.userId}: ${error.message}`,
+        ),
+      );
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  async deliver(event: NotificationEvent): Promise<NotificationChannel[]> {
+    const [recipient] = await this.dataSource.query(
+      `SELECT u.email, u.name,
+              s.notification_preferences, s.notification_webhook_url, s.notification_webhook_secret
+       FROM users u
+       LEFT JOIN user_settings s ON s.user_id = u.id
+       WHERE u.id = ?
+       LIMIT 1`,
+      [event.userId],
+    );
+    if (!recipient) {
+      this.logger.warn(
+        `[Notifications] Usuário ${event.userId} não encontrado para o evento ${event.type}`,
+      );
+      return [];
+    }
+
+    const preferences = notificationPreferencesFromRow(
+      recipient.notification_preferences,
+    )[event.type];
+    const deliveries: Array<[NotificationChannel, Promise<void>]> = [];
+
+    if (preferences.inApp) {
+      deliveries.push(['inApp', this.saveToInbox(event)]);
+    }
+    if (preferences.email && recipient.email) {
+      deliveries.push([
+        'email',
+        this.emailService.sendEventNotification(
+          recipient.email,
+          recipient.name,
+          event.title,
+          event.message,
+        ),
+      ]);
+    }
+    if (preferences.webhook && recipient.notification_webhook_url) {
+      deliveries.push([
+        'webhook',
+        this.postWebhook(
+          recipient.notification_webhook_url,
+          recipient.notification_webhook_secret,
+          event,
+        ),
+      ]);
+    }
+
+    const results = await Promise.allSettled(deliveries.map(([, p]) => p));
+    const delivered: NotificationChannel[] = [];
+    results.forEach((result, index) => {
+      const channel = deliveries[index][0];
+      if (result.status === 'fulfilled') {
+        delivered.push(channel);
+      } else {
+        this.logger.warn(
+          `[Notifications] ⚠️ Falha no canal ${channel} (${event.type}, usuário ${event.userId}): ${result.reason?.message || result.reason}`,
+        );
+      }
+    });
+
+    this.logger.log(
+      `[Notifications] ${event.type} para ${event.userId}: ${delivered.length > 0 ? delivered.join(', ') : 'nenhum canal'}`,
+    );
+    return delivered;
+  }
+
+  private async saveToInbox(event: NotificationEvent): Promise<void> {
+    await this.dataSource.query(
+      `INSERT INTO user_notifications (user_id, event_type, source, title, message, data, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.userId,
+        event.type,
+        event.source,
+        event.title.substring(0, 255),
+        event.message,
+        event.data ? JSON.stringify(event.data) : null,
+        event.occurredAt || new Date(),
+      ],
+    );
+  }
+
+  /**
+   * POST JSON assinado: X-Zenix-Signature = hex(HMAC-SHA256(segredo, corpo))
+   */
+  private async postWebhook(
+    url: string,
+    secret: string | null,
+    event: NotificationEvent,
+  ): Promise<void> {
+    // Revalida no envio: o DNS do host pode ter passado a apontar para a rede interna
+    await assertPublicWebhookUrl(url);
+
+    const body = JSON.stringify({
+      event: event.type,
+      source: event.source,
+      title: event.title,
+      message: event.message,
+      data: event.data || {},
+      occurredAt: (event.occurredAt || new Date()).toISOString(),
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Zenix-Notifications/1.0',
+      'X-Zenix-Event': event.type,
+    };
+    if (secret) {
+      headers['X-Zenix-Signature'] = createHmac('sha256', secret)
+        .update(body)
+        .digest('hex');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+        redirect: 'error', // Redirecionamento poderia levar a um host interno
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
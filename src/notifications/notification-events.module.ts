@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { NotificationEventsService } from './notification-events.service';
+
+/**
+ * Global para que IA, agente, copy trading e auth emitam eventos sem importar o NotificationsModule
+ */
+@Global()
+@Module({
+  providers: [NotificationEventsService],
+  exports: [NotificationEventsService],
+})
+export class NotificationEventsModule {}
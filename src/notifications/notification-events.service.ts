@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NotificationEvent,
+  NotificationSource,
+  sessionStopEventType,
+} from './notification-events';
+
+const DEDUPE_WINDOW_MS = 60 * 1000;
+
+const SOURCE_LABELS: Record<NotificationSource, string> = {
+  ai: 'IA',
+  agent: 'Agente autônomo',
+  copy_trading: 'Copy trading',
+  plans: 'Plano',
+  auth: 'Conta',
+};
+
+/**
+ * Barramento de eventos de notificação.
+ *
+ * Os produtores (IA, agente, copy trading, planos, autenticação) só emitem; a entrega por
+ * e-mail, caixa de entrada e webhook fica com o NotificationDispatcherService. Não tem
+ * dependências para poder ser injetado em qualquer módulo sem criar ciclos.
+ */
+@Injectable()
+export class NotificationEventsService {
+  private readonly stream$ = new Subject<NotificationEvent>();
+  // Algumas estratégias emitem a mesma parada mais de uma vez (previsão + confirmação)
+  private readonly recentEvents = new Map<string, number>();
+
+  get events$(): Observable<NotificationEvent> {
+    return this.stream$.asObservable();
+  }
+
+  emit(event: NotificationEvent): void {
+    if (!event.userId) return;
+
+    const now = Date.now();
+    const key = `${event.userId}:${event.source}:${event.type}`;
+    const lastEmittedAt = this.recentEvents.get(key);
+    if (lastEmittedAt !== undefined && now - lastEmittedAt < DEDUPE_WINDOW_MS) {
+      return;
+    }
+    this.recentEvents.set(key, now);
+    if (this.recentEvents.size > 5000) {
+      for (const [staleKey, emittedAt] of this.recentEvents) {
+        if (now - emittedAt >= DEDUPE_WINDOW_MS)
+          this.recentEvents.delete(staleKey);
+      }
+    }
+
+    this.stream$.next({ ...event, occurredAt: event.occurredAt || new Date() });
+  }
+
+  /**
+   * Atalho para paradas por stop loss / meta / Stop Blindado. Status que não são stops são ignorados.
+   */
+  emitSessionStop(
+    userId: string,
+    source: NotificationSource,
+    status: string,
+    message: string,
+    data?: Record<string, any>,
+  ): void {
+    const type = sessionStopEventType(status);
+    if (!type) return;
+
+    this.emit({
+      userId,
+      type,
+      source,
+      title: `${SOURCE_LABELS[source]}: ${NOTIFICATION_EVENT_LABELS[type]}`,
+      message,
+      data: { ...data, status },
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  normalizeNotificationPreferences,
+  notificationPreferencesFromRow,
+  sessionStopEventType,
+} from './notification-events';
+
+describe('notification-events', () => {
+  it('sem preferências salvas, todos os canais ficam ligados', () => {
+    const preferences = notificationPreferencesFromRow(null);
+    expect(preferences.stop_loss_hit).toEqual({
+      email: true,
+      inApp: true,
+      webhook: true,
+    });
+    expect(notificationPreferencesFromRow('{inválido')).toEqual(preferences);
+  });
+
+  it('mescla preferências parciais e ignora eventos e canais desconhecidos', () => {
+    const preferences = normalizeNotificationPreferences({
+      take_profit_hit: { email: false, sms: true },
+      evento_inexistente: { email: false },
+      agent_deactivated: { webhook: 'false' },
+    });
+    expect(preferences.take_profit_hit).toEqual({
+      email: false,
+      inApp: true,
+      webhook: true,
+    });
+    expect(preferences.agent_deactivated.webhook).toBe(true);
+    expect(preferences).not.toHaveProperty('evento_inexistente');
+  });
+
+  it('mapeia os status de parada das sessões', () => {
+    expect(sessionStopEventType('stopped_loss')).toBe('stop_loss_hit');
+    expect(sessionStopEventType('TAKE_PROFIT')).toBe('take_profit_hit');
+    expect(sessionStopEventType('blind_stop_loss')).toBe(
+      'stop_blindado_triggered',
+    );
+    expect(sessionStopEventType('active')).toBeNull();
+    expect(sessionStopEventType(undefined)).toBeNull();
+  });
+});
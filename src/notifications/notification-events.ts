@@ -0,0 +1,133 @@
+/**
+ * Eventos de domínio que geram notificação para o usuário
+ */
+export const NOTIFICATION_EVENT_TYPES = [
+  'stop_loss_hit',
+  'take_profit_hit',
+  'stop_blindado_triggered',
+  'agent_deactivated',
+  'copy_session_ended',
+  'plan_expiring',
+  'new_device_login',
+] as const;
+export type NotificationEventType = (typeof NOTIFICATION_EVENT_TYPES)[number];
+
+/**
+ * Canais de entrega: e-mail, caixa de entrada no app e webhook do usuário
+ */
+export const NOTIFICATION_CHANNELS = ['email', 'inApp', 'webhook'] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export type NotificationChannelPreferences = Record<
+  NotificationChannel,
+  boolean
+>;
+export type NotificationPreferences = Record<
+  NotificationEventType,
+  NotificationChannelPreferences
+>;
+
+export type NotificationSource =
+  | 'ai'
+  | 'agent'
+  | 'copy_trading'
+  | 'plans'
+  | 'auth';
+
+export interface NotificationEvent {
+  userId: string;
+  type: NotificationEventType;
+  title: string;
+  message: string;
+  source: NotificationSource;
+  data?: Record<string, any>;
+  occurredAt?: Date;
+}
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> =
+  {
+    stop_loss_hit: 'Stop loss atingido',
+    take_profit_hit: 'Meta de lucro atingida',
+    stop_blindado_triggered: 'Stop Blindado acionado',
+    agent_deactivated: 'Agente autônomo desativado',
+    copy_session_ended: 'Sessão de copy trading encerrada',
+    plan_expiring: 'Plano próximo do vencimento',
+    new_device_login: 'Login em novo dispositivo',
+  };
+
+/**
+ * Padrão: tudo ligado. O webhook só é disparado se o usuário cadastrou uma URL.
+ */
+export function defaultNotificationPreferences(): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    preferences[type] = { email: true, inApp: true, webhook: true };
+  }
+  return preferences;
+}
+
+/**
+ * Mescla preferências parciais (da API ou do banco) com o padrão, ignorando eventos/canais desconhecidos
+ */
+export function normalizeNotificationPreferences(
+  input: unknown,
+  base: NotificationPreferences = defaultNotificationPreferences(),
+): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+  const source =
+    input && typeof input === 'object' ? (input as Record<string, any>) : {};
+
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    const current = { ...base[type] };
+    const channels = source[type];
+    if (channels && typeof channels === 'object') {
+      for (const channel of NOTIFICATION_CHANNELS) {
+        if (typeof channels[channel] === 'boolean') {
+          current[channel] = channels[channel];
+        }
+      }
+    }
+    preferences[type] = current;
+  }
+  return preferences;
+}
+
+/**
+ * Lê user_settings.notification_preferences (JSON)
+ */
+export function notificationPreferencesFromRow(
+  value?: string | null,
+): NotificationPreferences {
+  if (!value) return defaultNotificationPreferences();
+  try {
+    return normalizeNotificationPreferences(JSON.parse(value));
+  } catch {
+    return defaultNotificationPreferences();
+  }
+}
+
+/**
+ * Evento correspondente ao status de parada de uma sessão de IA/agente/copy
+ * (ex.: 'stopped_loss', 'loss', 'stop_loss'), ou null se não for um stop
+ */
+export function sessionStopEventType(
+  status?: string | null,
+): NotificationEventType | null {
+  switch ((status || '').toLowerCase()) {
+    case 'stopped_loss':
+    case 'stop_loss':
+    case 'loss':
+    case 'closs':
+      return 'stop_loss_hit';
+    case 'stopped_profit':
+    case 'take_profit':
+    case 'profit':
+      return 'take_profit_hit';
+    case 'stopped_blindado':
+    case 'blind_stop_loss':
+    case 'blindado':
+      return 'stop_blindado_triggered';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+
+/**
+ * Caixa de entrada in-app (user_notifications), sempre restrita ao próprio usuário
+ */
+@Injectable()
+export class NotificationInboxService {
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  async list(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {},
+  ) {
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 100);
+    const offset = Math.max(Number(options.offset) || 0, 0);
+    const unreadFilter = options.unreadOnly ? 'AND read_at IS NULL' : '';
+
+    const items = await this.dataSource.query(
+      `SELECT * FROM user_notifications
+       WHERE user_id = ? ${unreadFilter}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [userId, limit, offset],
+    );
+    const [{ total }] = await this.dataSource.query(
+      `SELECT COUNT(*) AS total FROM user_notifications WHERE user_id = ? ${unreadFilter}`,
+      [userId],
+    );
+
+    return {
+      items: items.map((row: any) => this.mapNotification(row)),
+      total: parseInt(total, 10) || 0,
+      unreadCount: await this.countUnread(userId),
+      limit,
+      offset,
+    };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const [{ unread }] = await this.dataSource.query(
+      `SELECT COUNT(*) AS unread FROM user_notifications WHERE user_id = ? AND read_at IS NULL`,
+      [userId],
+    );
+    return parseInt(unread, 10) || 0;
+  }
+
+  async markRead(userId: string, id: number, read = true) {
+    const result = await this.dataSource.query(
+      `UPDATE user_notifications
+       SET read_at = ${read ? 'COALESCE(read_at, NOW())' : 'NULL'}
+       WHERE id = ? AND user_id = ?`,
+      [id, userId],
+    );
+    if (!result?.affectedRows) {
+      throw new NotFoundException('Notificação não encontrada');
+    }
+    const [row] = await this.dataSource.query(
+      `SELECT * FROM user_notifications WHERE id = ?`,
+      [id],
+    );
+    return this.mapNotification(row);
+  }
+
+  async markAllRead(userId: string) {
+    const result = await this.dataSource.query(
+      `UPDATE user_notifications SET read_at = NOW() WHERE user_id = ? AND read_at IS NULL`,
+      [userId],
+    );
+    return { updated: result?.affectedRows || 0 };
+  }
+
+  async remove(userId: string, id: number) {
+    const result = await this.dataSource.query(
+      `DELETE FROM user_notifications WHERE id = ? AND user_id = ?`,
+      [id, userId],
+    );
+    if (!result?.affectedRows) {
+      throw new NotFoundException('Notificação não encontrada');
+    }
+  }
+
+  private mapNotification(row: any) {
+    let data = row.data ?? null;
+    if (typeof data === 'string') {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        data = null;
+      }
+    }
+    return {
+      id: row.id,
+      type: row.event_type,
+      source: row.source,
+      title: row.title,
+      message: row.message,
+      data,
+      read: !!row.read_at,
+      readAt: row.read_at || null,
+      createdAt: row.created_at,
+    };
+  }
+}
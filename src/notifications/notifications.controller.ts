@@ -1,24 +1,178 @@
-import { Controller, Get, Post, Patch, Param, UseGuards, Req, Body } from '@nestjs/common';
-import { NotificationsService, LoginNotificationSummary } from './notifications.service';
+import { Controller, Get, Post, Patch, Delete, Param, ParseIntPipe, Query, UseGuards, Req, Body } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsArray, IsDate, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+import { NotificationsService, LoginNotificationSummary, SystemNotificationStats } from './notifications.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
 import { DailySummaryService } from './daily-summary.service';
+import { NotificationInboxService } from './notification-inbox.service';
 import { NotificationEntity } from '../infrastructure/database/entities/notification.entity';
+import { NOTIFICATION_AUDIENCE_PRODUCTS } from './notification-audience';
+import { Role } from '../auth/roles';
+
+class NotificationAudienceDto {
+  /**
+   * Ids ou slugs de planos
+   */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  plans?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(Object.values(Role), { each: true })
+  roles?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(NOTIFICATION_AUDIENCE_PRODUCTS, { each: true })
+  products?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  userIds?: string[];
+}
+
+class CreateSystemNotificationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  /**
+   * Sem público = todos os usuários
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationAudienceDto)
+  audience?: NotificationAudienceDto | null;
+
+  /**
+   * Início agendado; sem valor = exibe imediatamente
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  displayFrom?: Date | null;
+
+  @Type(() => Date)
+  @IsDate()
+  displayUntil: Date;
+}
+
+class UpdateSystemNotificationDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  description?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationAudienceDto)
+  audience?: NotificationAudienceDto | null;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  displayFrom?: Date | null;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  displayUntil?: Date;
+}
 
 @Controller('notifications')
 export class NotificationsController {
   constructor(
     private readonly notificationsService: NotificationsService,
-    private readonly dailySummaryService: DailySummaryService
+    private readonly dailySummaryService: DailySummaryService,
+    private readonly inboxService: NotificationInboxService,
   ) { }
 
+  /**
+   * GET /notifications/inbox?unread=true&limit=20&offset=0
+   * Caixa de entrada do usuário (eventos de IA, agente, copy trading, plano e conta)
+   */
+  @Get('inbox')
+  @UseGuards(JwtAuthGuard)
+  async getInbox(
+    @Req() req: any,
+    @Query('unread') unread?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.inboxService.list(req.user.userId, {
+      unreadOnly: unread === 'true',
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * GET /notifications/inbox/unread-count
+   */
+  @Get('inbox/unread-count')
+  @UseGuards(JwtAuthGuard)
+  async getUnreadCount(@Req() req: any) {
+    return { unreadCount: await this.inboxService.countUnread(req.user.userId) };
+  }
+
+  /**
+   * PATCH /notifications/inbox/read-all
+   */
+  @Patch('inbox/read-all')
+  @UseGuards(JwtAuthGuard)
+  async markAllRead(@Req() req: any) {
+    return this.inboxService.markAllRead(req.user.userId);
+  }
+
+  /**
+   * PATCH /notifications/inbox/:id/read
+   * Marca como lida (ou como não lida com { "read": false })
+   */
+  @Patch('inbox/:id/read')
+  @UseGuards(JwtAuthGuard)
+  async markRead(
+    @Req() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: { read?: boolean },
+  ) {
+    return this.inboxService.markRead(req.user.userId, id, body?.read !== false);
+  }
+
+  /**
+   * DELETE /notifications/inbox/:id
+   */
+  @Delete('inbox/:id')
+  @UseGuards(JwtAuthGuard)
+  async removeFromInbox(@Req() req: any, @Param('id', ParseIntPipe) id: number) {
+    await this.inboxService.remove(req.user.userId, id);
+    return { success: true };
+  }
+
   /**
    * POST /notifications
    * Cria nova notificação (Admin)
    */
   @Post()
-  @UseGuards(JwtAuthGuard)
-  async create(@Req() req: any, @Body() data: Partial<NotificationEntity>): Promise<NotificationEntity> {
-    // TODO: Adicionar verificação de admin se JwtAuthGuard não lidar com roles
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.NOTIFICATIONS_MANAGE)
+  async create(@Req() req: any, @Body() data: CreateSystemNotificationDto): Promise<NotificationEntity> {
     return this.notificationsService.create(data);
   }
 
@@ -27,23 +181,56 @@ export class NotificationsController {
    * Atualiza uma notificação (Admin)
    */
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
-  async update(@Param('id') id: string, @Body() data: Partial<NotificationEntity>): Promise<NotificationEntity> {
-    // TODO: Adicionar verificação de admin
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.NOTIFICATIONS_MANAGE)
+  async update(@Param('id') id: string, @Body() data: UpdateSystemNotificationDto): Promise<NotificationEntity> {
     return this.notificationsService.update(id, data);
   }
 
+  /**
+   * POST /notifications/:id/view
+   * Marca um aviso do sistema como visualizado pelo usuário
+   */
+  @Post(':id/view')
+  @UseGuards(JwtAuthGuard)
+  async markSystemNotificationViewed(@Req() req: any, @Param('id') id: string) {
+    await this.notificationsService.acknowledge(req.user.userId, id, 'view');
+    return { success: true };
+  }
+
+  /**
+   * POST /notifications/:id/dismiss
+   * Dispensa um aviso do sistema (deixa de aparecer para o usuário)
+   */
+  @Post(':id/dismiss')
+  @UseGuards(JwtAuthGuard)
+  async dismissSystemNotification(@Req() req: any, @Param('id') id: string) {
+    await this.notificationsService.acknowledge(req.user.userId, id, 'dismiss');
+    return { success: true };
+  }
+
   /**
    * GET /notifications/admin
    * Lista todas as notificações para o Admin
    */
   @Get('admin')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.NOTIFICATIONS_MANAGE)
   async findAllAdmin(@Req() req: any): Promise<NotificationEntity[]> {
-    // TODO: Adicionar verificação de admin
     return this.notificationsService.findAll();
   }
 
+  /**
+   * GET /notifications/admin/:id/stats
+   * Público alvo, visualizações e dispensas de um aviso (Admin)
+   */
+  @Get('admin/:id/stats')
+  @UseGuards(RolesGuard)
+  @RequirePermissions(Permission.NOTIFICATIONS_MANAGE)
+  async getStats(@Param('id') id: string): Promise<SystemNotificationStats> {
+    return this.notificationsService.getStats(id);
+  }
+
   /**
    * GET /notifications/login-summary
    * Retorna resumo de notificações ao fazer login
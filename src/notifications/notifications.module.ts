@@ -3,6 +3,8 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { NotificationsService } from './notifications.service';
 import { NotificationsController } from './notifications.controller';
 import { DailySummaryService } from './daily-summary.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationInboxService } from './notification-inbox.service';
 import { AuthModule } from '../auth/auth.module';
 import { NotificationEntity } from '../infrastructure/database/entities/notification.entity';
 import { UserBalanceEntity } from '../infrastructure/database/entities/user-balance.entity';
@@ -16,7 +18,12 @@ import { UserBalanceEntity } from '../infrastructure/database/entities/user-bala
     forwardRef(() => AuthModule),
   ],
   controllers: [NotificationsController],
-  providers: [NotificationsService, DailySummaryService],
-  exports: [NotificationsService, DailySummaryService],
+  providers: [
+    NotificationsService,
+    DailySummaryService,
+    NotificationDispatcherService,
+    NotificationInboxService,
+  ],
+  exports: [NotificationsService, DailySummaryService, NotificationInboxService],
 })
 export class NotificationsModule { }
@@ -1,9 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
-import { DataSource, Repository, MoreThan } from 'typeorm';
+import { DataSource, Repository, MoreThan, IsNull, LessThanOrEqual } from 'typeorm';
 import { NotificationEntity } from '../infrastructure/database/entities/notification.entity';
+import {
+  NotificationAudience,
+  buildAudienceCondition,
+  normalizeNotificationAudience,
+} from './notification-audience';
 import { UserBalanceEntity } from '../infrastructure/database/entities/user-balance.entity';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface AgentSummary {
@@ -41,9 +47,26 @@ export interface LoginNotificationSummary {
     message: string;
     source: 'agent' | 'ai' | 'system';
     timestamp: Date;
+    notificationId?: string; // Avisos do sistema: usado para dispensar
   }>;
 }
 
+export interface SystemNotificationInput {
+  name?: string;
+  description?: string;
+  audience?: unknown;
+  displayFrom?: Date | string | null;
+  displayUntil?: Date | string;
+}
+
+export interface SystemNotificationStats {
+  notificationId: string;
+  targetedUsers: number;
+  viewed: number;
+  dismissed: number;
+  viewRate: number; // % do público que visualizou
+}
+
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
@@ -53,30 +76,67 @@ export class NotificationsService {
     @InjectRepository(NotificationEntity)
     private readonly notificationRepository: Repository<NotificationEntity>,
     @InjectRepository(UserBalanceEntity)
-    private readonly balanceRepository: Repository<UserBalanceEntity>
+    private readonly balanceRepository: Repository<UserBalanceEntity>,
+    private readonly tradeLedger: TradeLedgerService,
   ) { }
 
   /**
    * Cria uma nova notificação do sistema (Admin)
    */
-  async create(data: Partial<NotificationEntity>): Promise<NotificationEntity> {
-    const notification = this.notificationRepository.create(data);
+  async create(data: SystemNotificationInput): Promise<NotificationEntity> {
+    const notification = this.notificationRepository.create(this.toNotificationFields(data));
+    this.assertSchedule(notification.displayFrom, notification.displayUntil);
     return this.notificationRepository.save(notification);
   }
 
   /**
    * Atualiza uma notificação existente (Admin)
    */
+  async update(id: string, data: SystemNotificationInput): Promise<NotificationEntity> {
+    const existing = await this.notificationRepository.findOne({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Notificação não encontrada');
+    }
+    const fields = this.toNotificationFields(data);
+    this.assertSchedule(
+      fields.displayFrom !== undefined ? fields.displayFrom : existing.displayFrom,
+      fields.displayUntil ?? existing.displayUntil,
+    );
+    await this.notificationRepository.update(id, fields);
+    return (await this.notificationRepository.findOne({ where: { id } }))!;
+  }
+
   /**
-   * Atualiza uma notificação existente (Admin)
+   * Converte o payload da API para colunas, normalizando o público e as datas
    */
-  async update(id: string, data: Partial<NotificationEntity>): Promise<NotificationEntity> {
-    await this.notificationRepository.update(id, data);
-    const updated = await this.notificationRepository.findOne({ where: { id } });
-    if (!updated) {
-      throw new Error(`Notification with ID ${id} not found`);
+  private toNotificationFields(data: SystemNotificationInput): Partial<NotificationEntity> {
+    const fields: Partial<NotificationEntity> = {};
+    if (data.name !== undefined) fields.name = data.name;
+    if (data.description !== undefined) fields.description = data.description;
+    if (data.displayUntil !== undefined) fields.displayUntil = new Date(data.displayUntil);
+    if (data.displayFrom !== undefined) {
+      fields.displayFrom = data.displayFrom ? new Date(data.displayFrom) : null;
+    }
+    if (data.audience !== undefined) {
+      try {
+        fields.audience = normalizeNotificationAudience(data.audience);
+      } catch (error) {
+        throw new BadRequestException(error.message);
+      }
+    }
+    return fields;
+  }
+
+  private assertSchedule(displayFrom: Date | null | undefined, displayUntil: Date | undefined): void {
+    if (!displayUntil || isNaN(displayUntil.getTime())) {
+      throw new BadRequestException('displayUntil inválido');
+    }
+    if (displayFrom && isNaN(displayFrom.getTime())) {
+      throw new BadRequestException('displayFrom inválido');
+    }
+    if (displayFrom && displayFrom >= displayUntil) {
+      throw new BadRequestException('displayFrom deve ser anterior a displayUntil');
     }
-    return updated;
   }
 
   /**
@@ -91,17 +151,114 @@ export class NotificationsService {
   }
 
   /**
-   * Busca notificações ativas do sistema
+   * Busca notificações do sistema em exibição para o usuário:
+   * dentro da janela agendada, com o usuário no público e ainda não dispensadas por ele
    */
-  async findActiveSystemNotifications(): Promise<NotificationEntity[]> {
-    return this.notificationRepository.find({
-      where: {
-        displayUntil: MoreThan(new Date()),
-      },
+  async findActiveSystemNotifications(userId: string): Promise<NotificationEntity[]> {
+    const now = new Date();
+    const active = await this.notificationRepository.find({
+      where: [
+        { displayUntil: MoreThan(now), displayFrom: IsNull() },
+        { displayUntil: MoreThan(now), displayFrom: LessThanOrEqual(now) },
+      ],
       order: {
         createdAt: 'DESC',
       },
     });
+    if (active.length === 0) return [];
+
+    const dismissed = await this.dataSource.query(
+      `SELECT notification_id FROM notification_receipts
+       WHERE user_id = ? AND notification_id IN (?) AND dismissed_at IS NOT NULL`,
+      [userId, active.map((notification) => notification.id)],
+    );
+    const dismissedIds = new Set(dismissed.map((row: any) => row.notification_id));
+
+    const visible: NotificationEntity[] = [];
+    for (const notification of active) {
+      if (dismissedIds.has(notification.id)) continue;
+      if (await this.isUserInAudience(userId, notification.audience ?? null)) {
+        visible.push(notification);
+      }
+    }
+    return visible;
+  }
+
+  private async isUserInAudience(userId: string, audience: NotificationAudience | null): Promise<boolean> {
+    if (!audience) return true;
+    const condition = buildAudienceCondition(audience);
+    const rows = await this.dataSource.query(
+      `SELECT 1 FROM users u WHERE u.id = ? AND ${condition.sql} LIMIT 1`,
+      [userId, ...condition.params],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Registra que o usuário visualizou (ou dispensou) um aviso do sistema.
+   * Só aceita avisos que estão em exibição para ele.
+   */
+  async acknowledge(userId: string, notificationId: string, action: 'view' | 'dismiss'): Promise<void> {
+    const visible = await this.findActiveSystemNotifications(userId);
+    if (!visible.some((notification) => notification.id === notificationId)) {
+      throw new NotFoundException('Notificação não encontrada');
+    }
+    if (action === 'dismiss') {
+      await this.dataSource.query(
+        `INSERT INTO notification_receipts (notification_id, user_id, viewed_at, dismissed_at)
+         VALUES (?, ?, NOW(), NOW())
+         ON DUPLICATE KEY UPDATE viewed_at = COALESCE(viewed_at, NOW()), dismissed_at = COALESCE(dismissed_at, NOW())`,
+        [notificationId, userId],
+      );
+    } else {
+      await this.recordViews(userId, [notificationId]);
+    }
+  }
+
+  private async recordViews(userId: string, notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+    await this.dataSource.query(
+      `INSERT INTO notification_receipts (notification_id, user_id, viewed_at)
+       VALUES ${notificationIds.map(() => '(?, ?, NOW())').join(', ')}
+       ON DUPLICATE KEY UPDATE viewed_at = COALESCE(viewed_at, NOW())`,
+      notificationIds.flatMap((id) => [id, userId]),
+    );
+  }
+
+  /**
+   * Alcance de um aviso (Admin): público atual, visualizações e dispensas
+   */
+  async getStats(id: string): Promise<SystemNotificationStats> {
+    const notification = await this.notificationRepository.findOne({ where: { id } });
+    if (!notification) {
+      throw new NotFoundException('Notificação não encontrada');
+    }
+
+    const condition = buildAudienceCondition(notification.audience ?? null);
+    const [[{ targeted }], [receipts]] = await Promise.all([
+      this.dataSource.query(
+        `SELECT COUNT(*) AS targeted FROM users u WHERE ${condition.sql}`,
+        condition.params,
+      ),
+      this.dataSource.query(
+        `SELECT
+          COALESCE(SUM(viewed_at IS NOT NULL), 0) AS viewed,
+          COALESCE(SUM(dismissed_at IS NOT NULL), 0) AS dismissed
+         FROM notification_receipts
+         WHERE notification_id = ?`,
+        [id],
+      ),
+    ]);
+
+    const targetedUsers = parseInt(targeted, 10) || 0;
+    const viewed = parseInt(receipts.viewed, 10) || 0;
+    return {
+      notificationId: id,
+      targetedUsers,
+      viewed,
+      dismissed: parseInt(receipts.dismissed, 10) || 0,
+      viewRate: targetedUsers > 0 ? Math.round((viewed / targetedUsers) * 10000) / 100 : 0,
+    };
   }
 
   /**
@@ -126,9 +283,14 @@ export class NotificationsService {
     const [agentSummary, aiSummary, systemNotifications] = await Promise.all([
       this.getAgentSummary(userId),
       this.getAISummary(userId),
-      this.findActiveSystemNotifications(),
+      this.findActiveSystemNotifications(userId),
     ]);
 
+    // ✅ Avisos exibidos no login contam como visualizados
+    this.recordViews(userId, systemNotifications.map((notification) => notification.id)).catch(err =>
+      this.logger.error(`[Notifications] Erro ao registrar visualizações: ${err.message}`)
+    );
+
     const notifications = this.buildNotifications(
       agentSummary,
       aiSummary,
@@ -295,22 +457,14 @@ export class NotificationsService {
       // Isso funciona tanto para sessões ativas quanto paradas
       if (config.created_at) {
         // Buscar o lucro/perda real da sessão atual baseado nos trades
-        const tradesResult = await this.dataSource.query(
-          `SELECT 
-            COALESCE(SUM(profit_loss), 0) as total_profit_loss
-           FROM ai_trades
-           WHERE user_id = ?
-             AND created_at >= ?
-             AND status IN ('WON', 'LOST')`,
-          [userId, config.created_at],
-        );
+        const tradesResult = await this.tradeLedger.getStats(userId, {
+          from: new Date(config.created_at),
+          sources: ['ai'],
+        });
 
-        if (tradesResult && tradesResult.length > 0) {
-          const lucroDosTrades = parseFloat(tradesResult[0].total_profit_loss) || 0;
-          // ✅ Usar o lucro dos trades (é mais preciso e confiável)
-          // session_balance pode estar desatualizado ou incorreto
-          lucroDaSessao = lucroDosTrades;
-        }
+        // ✅ Usar o lucro dos trades (é mais preciso e confiável)
+        // session_balance pode estar desatualizado ou incorreto
+        lucroDaSessao = tradesResult.profit;
       }
 
       return {
@@ -366,7 +520,8 @@ export class NotificationsService {
           title: notif.name,
           message: notif.description,
           source: 'system',
-          timestamp: notif.createdAt,
+          timestamp: notif.displayFrom || notif.createdAt,
+          notificationId: notif.id,
         });
       });
     }
@@ -0,0 +1,60 @@
+import { assertPublicWebhookUrl, isNonPublicAddress } from './webhook-url';
+
+describe('webhook-url', () => {
+  it('reconhece endereços privados, loopback e link-local', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.0.10',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fe80::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isNonPublicAddress(address)).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      expect(isNonPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('aceita HTTPS com host público', async () => {
+    const resolve = jest.fn().mockResolvedValue(['93.184.216.34']);
+    await expect(
+      assertPublicWebhookUrl('https://hooks.example.com/zenix', resolve),
+    ).resolves.toBeInstanceOf(URL);
+    expect(resolve).toHaveBeenCalledWith('hooks.example.com');
+  });
+
+  it('recusa HTTP, hosts internos e nomes que resolvem para a rede interna', async () => {
+    const publicHost = jest.fn().mockResolvedValue(['93.184.216.34']);
+    await expect(
+      assertPublicWebhookUrl('http://hooks.example.com', publicHost),
+    ).rejects.toThrow('HTTPS');
+    await expect(
+      assertPublicWebhookUrl('https://localhost:3000', publicHost),
+    ).rejects.toThrow('endereço público');
+    await expect(
+      assertPublicWebhookUrl('https://169.254.169.254/latest', publicHost),
+    ).rejects.toThrow('endereço público');
+    await expect(
+      assertPublicWebhookUrl('https://[::1]/hook', publicHost),
+    ).rejects.toThrow('endereço público');
+
+    const rebinding = jest
+      .fn()
+      .mockResolvedValue(['93.184.216.34', '10.0.0.7']);
+    await expect(
+      assertPublicWebhookUrl('https://interno.example.com', rebinding),
+    ).rejects.toThrow('endereço público');
+
+    const unresolved = jest.fn().mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(
+      assertPublicWebhookUrl('https://nao-existe.example.com', unresolved),
+    ).rejects.toThrow('resolver o host');
+  });
+});
@@ -0,0 +1,104 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/**
+ * URL de webhook recusada (mensagem pronta para o usuário)
+ */
+export class WebhookUrlError extends Error {}
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(
+    ({ address }) => address,
+  );
+
+const ipv4ToNumber = (ip: string): number =>
+  ip.split('.').reduce((acc, octet) => acc * 256 + Number(octet), 0);
+
+// Faixas IPv4 que não são internet pública: [base, bits do prefixo]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "esta" rede
+  ['10.0.0.0', 8], // privada
+  ['100.64.0.0', 10], // CGNAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (inclui metadados de nuvem)
+  ['172.16.0.0', 12], // privada
+  ['192.0.0.0', 24], // IETF
+  ['192.168.0.0', 16], // privada
+  ['198.18.0.0', 15], // benchmark
+  ['224.0.0.0', 3], // multicast e reservada
+];
+
+/**
+ * Endereço privado, loopback, link-local ou reservado (IPv4 ou IPv6)
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(ip) === 4) {
+    const value = ipv4ToNumber(ip);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+  }
+
+  if (isIP(ip) !== 6) return true; // Não é IP: não dá para garantir nada
+
+  // IPv4 mapeado (::ffff:a.b.c.d)
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped) return isNonPublicAddress(mapped[1]);
+
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    /^f[cd]/.test(ip) || // fc00::/7 (única local)
+    /^fe[89ab]/.test(ip) || // fe80::/10 (link-local)
+    /^ff/.test(ip) // multicast
+  );
+}
+
+/**
+ * Valida a URL do webhook de notificações: HTTPS e host que resolve apenas para
+ * endereços públicos. Usada ao salvar e de novo antes de cada envio.
+ */
+export async function assertPublicWebhookUrl(
+  url: string,
+  resolve: HostResolver = resolveHost,
+): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError('URL do webhook inválida');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new WebhookUrlError('O webhook de notificações deve usar HTTPS');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new WebhookUrlError(
+      'O webhook de notificações deve apontar para um endereço público',
+    );
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolve(hostname);
+    } catch {
+      throw new WebhookUrlError('Não foi possível resolver o host do webhook');
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new WebhookUrlError(
+      'O webhook de notificações deve apontar para um endereço público',
+    );
+  }
+  return parsed;
+}
@@ -0,0 +1,122 @@
+import {
+  EntitlementUsage,
+  checkActivationEntitlement,
+  checkTradeEntitlement,
+  normalizePlanEntitlements,
+  resolvePlanEntitlements,
+} from './plan-entitlements';
+
+describe('plan-entitlements', () => {
+  const idle: EntitlementUsage = {
+    activeProducts: [],
+    operationsToday: 0,
+    copySessionsToday: 0,
+  };
+
+  it('deriva os produtos das chaves antigas de features e aplica os limites gravados', () => {
+    const entitlements = resolvePlanEntitlements({
+      features: { ias: ['orion'], autonomous_agent: false },
+      entitlements: { products: { copy_trading: true }, maxStake: 10 },
+    });
+    expect(entitlements.products).toEqual({
+      ai: true,
+      agent: false,
+      copy_trading: true,
+    });
+    expect(entitlements.maxStake).toBe(10);
+    expect(entitlements.maxDailyOperations).toBeNull();
+    expect(resolvePlanEntitlements(null).products.ai).toBe(false);
+  });
+
+  it('valida o payload do admin', () => {
+    expect(
+      normalizePlanEntitlements({
+        maxDailyOperations: '50.7',
+        allowedSymbols: ['r_100', 'R_100', ' 1hz10v '],
+        accountTypes: ['DEMO'],
+      }),
+    ).toEqual({
+      maxDailyOperations: 50,
+      allowedSymbols: ['R_100', '1HZ10V'],
+      accountTypes: ['demo'],
+    });
+    expect(() => normalizePlanEntitlements({ maxStake: -1 })).toThrow(
+      'maxStake',
+    );
+    expect(() => normalizePlanEntitlements({ accountTypes: ['vip'] })).toThrow(
+      'accountTypes',
+    );
+  });
+
+  it('bloqueia a ativação por produto, concorrência, conta e sessões de copy', () => {
+    const entitlements = resolvePlanEntitlements({
+      features: { ias: ['orion'], autonomous_agent: true, copy_trading: true },
+      entitlements: {
+        maxConcurrentProducts: 1,
+        accountTypes: ['demo'],
+        maxDailyCopySessions: 2,
+      },
+    });
+
+    expect(
+      checkActivationEntitlement(
+        entitlements,
+        { ...idle, activeProducts: ['ai'] },
+        { product: 'ai', accountType: 'demo' },
+      ),
+    ).toBeNull();
+    expect(
+      checkActivationEntitlement(
+        entitlements,
+        { ...idle, activeProducts: ['ai'] },
+        { product: 'agent', accountType: 'demo' },
+      ),
+    ).toContain('IA de trading');
+    expect(
+      checkActivationEntitlement(entitlements, idle, {
+        product: 'agent',
+        accountType: 'real',
+      }),
+    ).toBe('Seu plano permite operar apenas em conta demo.');
+    expect(
+      checkActivationEntitlement(
+        entitlements,
+        { ...idle, copySessionsToday: 2 },
+        { product: 'copy_trading', accountType: 'demo' },
+      ),
+    ).toContain('copy trading por dia');
+  });
+
+  it('bloqueia operações por stake, ativo e limite diário', () => {
+    const entitlements = resolvePlanEntitlements({
+      features: { ias: ['orion'] },
+      entitlements: {
+        maxStake: 5,
+        allowedSymbols: ['R_100'],
+        maxDailyOperations: 3,
+      },
+    });
+    const trade = { product: 'ai' as const, stake: 5, symbol: 'r_100' };
+
+    expect(
+      checkTradeEntitlement(entitlements, { operationsToday: 2 }, trade),
+    ).toBeNull();
+    expect(
+      checkTradeEntitlement(
+        entitlements,
+        { operationsToday: 0 },
+        { ...trade, stake: 5.01 },
+      ),
+    ).toContain('acima do máximo');
+    expect(
+      checkTradeEntitlement(
+        entitlements,
+        { operationsToday: 0 },
+        { ...trade, symbol: 'R_50' },
+      ),
+    ).toContain('R_50');
+    expect(
+      checkTradeEntitlement(entitlements, { operationsToday: 3 }, trade),
+    ).toContain('Limite diário');
+  });
+});
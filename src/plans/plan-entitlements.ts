@@ -0,0 +1,280 @@
+/**
+ * Produtos de trading controlados pelo plano
+ */
+export const ENTITLEMENT_PRODUCTS = ['ai', 'agent', 'copy_trading'] as const;
+export type EntitlementProduct = (typeof ENTITLEMENT_PRODUCTS)[number];
+
+export const ENTITLEMENT_ACCOUNT_TYPES = ['demo', 'real'] as const;
+export type EntitlementAccountType = (typeof ENTITLEMENT_ACCOUNT_TYPES)[number];
+
+/**
+ * Direitos do plano (plans.entitlements). Limites nulos e listas vazias não restringem.
+ * O acesso a cada IA/agente/trader continua vindo de plan.features (ias, agents, traders).
+ */
+export interface PlanEntitlements {
+  products: Record<EntitlementProduct, boolean>;
+  maxConcurrentProducts: number | null;
+  maxStake: number | null; // Por operação, na moeda da conta
+  maxDailyOperations: number | null; // Somando IA, agente e copy trading no dia local do usuário
+  allowedSymbols: string[];
+  accountTypes: EntitlementAccountType[];
+  maxDailyCopySessions: number | null;
+}
+
+export const PRODUCT_LABELS: Record<EntitlementProduct, string> = {
+  ai: 'IA de trading',
+  agent: 'Agente autônomo',
+  copy_trading: 'Copy trading',
+};
+
+/**
+ * Direitos de quem ignora o plano (admin/suporte)
+ */
+export const UNLIMITED_ENTITLEMENTS: PlanEntitlements = {
+  products: { ai: true, agent: true, copy_trading: true },
+  maxConcurrentProducts: null,
+  maxStake: null,
+  maxDailyOperations: null,
+  allowedSymbols: [],
+  accountTypes: [...ENTITLEMENT_ACCOUNT_TYPES],
+  maxDailyCopySessions: null,
+};
+
+const NO_PLAN_ENTITLEMENTS: PlanEntitlements = {
+  ...UNLIMITED_ENTITLEMENTS,
+  products: { ai: false, agent: false, copy_trading: false },
+};
+
+const AI_FEATURE_FLAGS = [
+  'orion_ai',
+  'atlas_ai',
+  'nexus_ai',
+  'black_module',
+  'orion_black',
+];
+
+const nonEmptyArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.length > 0;
+
+const limitOrNull = (value: unknown, field: string): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${field} deve ser um número maior ou igual a zero`);
+  }
+  return parsed;
+};
+
+/**
+ * Produtos liberados pelas chaves antigas de plan.features
+ */
+function legacyProducts(
+  features: Record<string, any>,
+): Record<EntitlementProduct, boolean> {
+  return {
+    ai:
+      nonEmptyArray(features.ias) ||
+      AI_FEATURE_FLAGS.some((flag) => features[flag] === true),
+    agent: nonEmptyArray(features.agents) || features.autonomous_agent === true,
+    copy_trading:
+      nonEmptyArray(features.traders) || features.copy_trading === true,
+  };
+}
+
+/**
+ * Valida os direitos enviados pelo admin. Lança erro com a mensagem do primeiro campo inválido.
+ */
+export function normalizePlanEntitlements(
+  input: unknown,
+): Partial<PlanEntitlements> {
+  if (input === null || input === undefined) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('entitlements deve ser um objeto');
+  }
+  const raw = input as Record<string, any>;
+  const result: Partial<PlanEntitlements> = {};
+
+  if (raw.products !== undefined) {
+    if (!raw.products || typeof raw.products !== 'object') {
+      throw new Error('products deve ser um objeto');
+    }
+    const products = {} as Record<EntitlementProduct, boolean>;
+    for (const product of ENTITLEMENT_PRODUCTS) {
+      if (raw.products[product] !== undefined) {
+        if (typeof raw.products[product] !== 'boolean') {
+          throw new Error(`products.${product} deve ser booleano`);
+        }
+        products[product] = raw.products[product];
+      }
+    }
+    result.products = products;
+  }
+
+  for (const field of [
+    'maxConcurrentProducts',
+    'maxStake',
+    'maxDailyOperations',
+    'maxDailyCopySessions',
+  ] as const) {
+    if (raw[field] !== undefined) {
+      const limit = limitOrNull(raw[field], field);
+      result[field] =
+        limit !== null && field !== 'maxStake' ? Math.floor(limit) : limit;
+    }
+  }
+
+  if (raw.allowedSymbols !== undefined) {
+    if (!Array.isArray(raw.allowedSymbols)) {
+      throw new Error('allowedSymbols deve ser uma lista');
+    }
+    result.allowedSymbols = [
+      ...new Set(
+        raw.allowedSymbols
+          .map((symbol: unknown) => String(symbol).trim().toUpperCase())
+          .filter((symbol: string) => symbol.length > 0),
+      ),
+    ] as string[];
+  }
+
+  if (raw.accountTypes !== undefined) {
+    if (!Array.isArray(raw.accountTypes)) {
+      throw new Error('accountTypes deve ser uma lista');
+    }
+    const accountTypes = [
+      ...new Set(
+        raw.accountTypes.map((type: unknown) => String(type).toLowerCase()),
+      ),
+    ] as string[];
+    const invalid = accountTypes.filter(
+      (type) =>
+        !(ENTITLEMENT_ACCOUNT_TYPES as readonly string[]).includes(type),
+    );
+    if (invalid.length > 0 || accountTypes.length === 0) {
+      throw new Error(
+        `accountTypes deve conter ${ENTITLEMENT_ACCOUNT_TYPES.join(' e/ou ')}`,
+      );
+    }
+    result.accountTypes = accountTypes as EntitlementAccountType[];
+  }
+
+  return result;
+}
+
+/**
+ * Direitos efetivos de um plano: produtos derivados de plan.features, sobrescritos por
+ * plan.entitlements. Sem plano nenhum produto é liberado.
+ */
+export function resolvePlanEntitlements(
+  plan?: { features?: any; entitlements?: any } | null,
+): PlanEntitlements {
+  if (!plan) return { ...NO_PLAN_ENTITLEMENTS };
+
+  let stored: Partial<PlanEntitlements> = {};
+  try {
+    stored = normalizePlanEntitlements(plan.entitlements);
+  } catch {
+    // Valor inválido gravado direto no banco: mantém só o que vem de features
+  }
+
+  return {
+    ...UNLIMITED_ENTITLEMENTS,
+    ...stored,
+    products: {
+      ...legacyProducts(plan.features || {}),
+      ...stored.products,
+    },
+  };
+}
+
+export interface EntitlementUsage {
+  activeProducts: EntitlementProduct[];
+  operationsToday: number;
+  copySessionsToday: number;
+}
+
+export interface EntitlementRequest {
+  product: EntitlementProduct;
+  stake?: number | null;
+  symbol?: string | null;
+  accountType?: EntitlementAccountType | null;
+}
+
+/**
+ * Motivo do bloqueio de uma ativação, ou null se os direitos permitem.
+ * O produto que está sendo ativado não conta como concorrente dele mesmo.
+ */
+export function checkActivationEntitlement(
+  entitlements: PlanEntitlements,
+  usage: EntitlementUsage,
+  request: EntitlementRequest,
+): string | null {
+  const label = PRODUCT_LABELS[request.product];
+  if (!entitlements.products[request.product]) {
+    return `Seu plano atual não inclui ${label}.`;
+  }
+
+  const otherActive = usage.activeProducts.filter(
+    (product) => product !== request.product,
+  );
+  if (
+    entitlements.maxConcurrentProducts !== null &&
+    otherActive.length >= entitlements.maxConcurrentProducts
+  ) {
+    return `Seu plano permite ${entitlements.maxConcurrentProducts} produto(s) ativo(s) ao mesmo tempo. Desative ${otherActive.map((product) => PRODUCT_LABELS[product]).join(', ')} para ativar ${label}.`;
+  }
+
+  if (
+    request.product === 'copy_trading' &&
+    entitlements.maxDailyCopySessions !== null &&
+    usage.copySessionsToday >= entitlements.maxDailyCopySessions
+  ) {
+    return `Limite de ${entitlements.maxDailyCopySessions} sessão(ões) de copy trading por dia atingido.`;
+  }
+
+  return checkTradeEntitlement(entitlements, usage, request);
+}
+
+/**
+ * Motivo do bloqueio de uma operação (tipo de conta, stake, ativo e limite diário), ou null se permitida
+ */
+export function checkTradeEntitlement(
+  entitlements: PlanEntitlements,
+  usage: Pick<EntitlementUsage, 'operationsToday'>,
+  request: EntitlementRequest,
+): string | null {
+  if (
+    request.accountType &&
+    !entitlements.accountTypes.includes(request.accountType)
+  ) {
+    return request.accountType === 'real'
+      ? 'Seu plano permite operar apenas em conta demo.'
+      : 'Seu plano permite operar apenas em conta real.';
+  }
+
+  if (
+    entitlements.maxStake !== null &&
+    request.stake !== null &&
+    request.stake !== undefined &&
+    request.stake > entitlements.maxStake
+  ) {
+    return `Stake de ${Number(request.stake).toFixed(2)} acima do máximo do plano (${entitlements.maxStake.toFixed(2)}).`;
+  }
+
+  const symbol = request.symbol ? request.symbol.toUpperCase() : null;
+  if (
+    symbol &&
+    entitlements.allowedSymbols.length > 0 &&
+    !entitlements.allowedSymbols.includes(symbol)
+  ) {
+    return `O ativo ${symbol} não está liberado no seu plano.`;
+  }
+
+  if (
+    entitlements.maxDailyOperations !== null &&
+    usage.operationsToday >= entitlements.maxDailyOperations
+  ) {
+    return `Limite diário de ${entitlements.maxDailyOperations} operações do plano atingido.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { RolesGuard } from '../auth/roles.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { PlanExpirationService } from './plan-expiration.service';
+
+class ExtendPlanDto {
+  /**
+   * Dias somados à expiração vigente (ou a partir de hoje, se já venceu)
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  days?: number;
+
+  /**
+   * Nova data de expiração; tem prioridade sobre days
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  until?: Date;
+}
+
+@Controller('plans/admin/expirations')
+@UseGuards(RolesGuard)
+@RequirePermissions(Permission.PLANS_MANAGE)
+export class PlanExpirationController {
+  constructor(private readonly planExpirationService: PlanExpirationService) {}
+
+  /**
+   * Planos que vencem nos próximos dias (padrão 7) e os que estão na carência
+   */
+  @Get()
+  async listUpcoming(@Query('days') days?: string) {
+    const window = Math.min(Math.max(parseInt(days || '7', 10) || 7, 1), 365);
+    return await this.planExpirationService.listUpcomingExpirations(window);
+  }
+
+  @Post(':userId/extend')
+  async extendPlan(
+    @Req() req: any,
+    @Param('userId') userId: string,
+    @Body() body: ExtendPlanDto,
+  ) {
+    return await this.planExpirationService.extendPlan(
+      userId,
+      body,
+      req.user?.userId,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SettingsModule } from '../settings/settings.module';
+import { AiModule } from '../ai/ai.module';
+import { AutonomousAgentModule } from '../autonomous-agent/autonomous-agent.module';
+import { CopyTradingModule } from '../copy-trading/copy-trading.module';
+import { PlanEntity } from '../infrastructure/database/entities/plan.entity';
+import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { PlanExpirationService } from './plan-expiration.service';
+import { PlanExpirationScheduler } from './plan-expiration.scheduler';
+import { PlanExpirationController } from './plan-expiration.controller';
+
+/**
+ * Vencimento de planos. Fica fora do PlansModule porque precisa desligar IA, agente e copy
+ * trading, e esses módulos já importam o PlansModule.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PlanEntity, UserEntity]),
+    forwardRef(() => SettingsModule),
+    forwardRef(() => AiModule),
+    forwardRef(() => AutonomousAgentModule),
+    forwardRef(() => CopyTradingModule),
+  ],
+  controllers: [PlanExpirationController],
+  providers: [PlanExpirationService, PlanExpirationScheduler],
+  exports: [PlanExpirationService],
+})
+export class PlanExpirationModule {}
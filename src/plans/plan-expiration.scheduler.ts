@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PlanExpirationService } from './plan-expiration.service';
+
+@Injectable()
+export class PlanExpirationScheduler {
+  private readonly logger = new Logger(PlanExpirationScheduler.name);
+  private isProcessing = false;
+
+  constructor(private readonly planExpirationService: PlanExpirationService) {}
+
+  /**
+   * Executa a cada hora: lembretes de vencimento, início da carência e rebaixamento de planos expirados
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'process-plan-expirations',
+  })
+  async handlePlanExpirations() {
+    if (this.isProcessing) {
+      this.logger.debug(
+        '[Scheduler] Vencimento de planos já em andamento, pulando...',
+      );
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      await this.planExpirationService.processExpirations();
+    } catch (error) {
+      this.logger.error('Erro ao processar vencimento de planos:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
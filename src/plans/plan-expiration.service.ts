@@ -0,0 +1,437 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { PlanEntity } from '../infrastructure/database/entities/plan.entity';
+import { SettingsService } from '../settings/settings.service';
+import { AiService } from '../ai/ai.service';
+import { AutonomousAgentService } from '../autonomous-agent/autonomous-agent.service';
+import { CopyTradingService } from '../copy-trading/copy-trading.service';
+import { NotificationEventsService } from '../notifications/notification-events.service';
+import { Permission, hasPermission } from '../auth/roles';
+import { resolveTimeZone } from '../utils/timezone.utils';
+import {
+  EntitlementProduct,
+  PRODUCT_LABELS,
+  PlanEntitlements,
+  resolvePlanEntitlements,
+} from './plan-entitlements';
+import {
+  PlanExpirationStage,
+  graceEndsAt,
+  parseGracePeriodDays,
+  parseReminderDays,
+  resolveExpirationStage,
+} from './plan-expiration';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExpirationCandidate = {
+  id: string;
+  plan_id: string;
+  plan_name: string;
+  plan_expiration_date: Date | string;
+  timezone: string | null;
+};
+
+/**
+ * Vencimento dos planos pagos: lembretes antes da data, carência configurável e, ao fim dela,
+ * rebaixamento para o plano gratuito desligando os produtos que ele não cobre.
+ * Cada transição fica registrada em user_activity_logs.
+ *
+ * Configuração: PLAN_EXPIRATION_REMINDER_DAYS (ex.: "7,3,1"), PLAN_GRACE_PERIOD_DAYS e
+ * FREE_PLAN_SLUG (sem ele, usa o plano ativo de preço zero com menor display_order).
+ */
+@Injectable()
+export class PlanExpirationService {
+  private readonly logger = new Logger(PlanExpirationService.name);
+
+  constructor(
+    @InjectDataSource() private readonly dataSource: DataSource,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(PlanEntity)
+    private readonly planRepository: Repository<PlanEntity>,
+    private readonly configService: ConfigService,
+    private readonly settingsService: SettingsService,
+    @Inject(forwardRef(() => AiService)) private readonly aiService: AiService,
+    @Inject(forwardRef(() => AutonomousAgentService))
+    private readonly autonomousAgentService: AutonomousAgentService,
+    @Inject(forwardRef(() => CopyTradingService))
+    private readonly copyTradingService: CopyTradingService,
+    private readonly notificationEvents?: NotificationEventsService,
+  ) {}
+
+  private get reminderDays(): number[] {
+    return parseReminderDays(
+      this.configService.get<string>('PLAN_EXPIRATION_REMINDER_DAYS'),
+    );
+  }
+
+  private get graceDays(): number {
+    return parseGracePeriodDays(
+      this.configService.get<string>('PLAN_GRACE_PERIOD_DAYS'),
+    );
+  }
+
+  /**
+   * Executado pelo scheduler: aplica a etapa atual de cada plano pago perto do vencimento
+   */
+  async processExpirations(): Promise<void> {
+    const now = new Date();
+    const reminderDays = this.reminderDays;
+    const graceDays = this.graceDays;
+    const horizon = new Date(
+      now.getTime() + (Math.max(0, ...reminderDays) + 1) * DAY_MS,
+    );
+
+    const candidates: ExpirationCandidate[] = await this.dataSource.query(
+      `SELECT u.id, u.plan_id, p.name AS plan_name, u.plan_expiration_date, s.timezone
+       FROM users u
+       INNER JOIN plans p ON p.id = u.plan_id
+       LEFT JOIN user_settings s ON s.user_id = u.id
+       WHERE u.plan_expiration_date IS NOT NULL
+         AND u.plan_expiration_date <= ?
+         AND p.price > 0`,
+      [horizon],
+    );
+
+    let applied = 0;
+    for (const candidate of candidates) {
+      const expiration = new Date(candidate.plan_expiration_date);
+      const stage = resolveExpirationStage(
+        expiration,
+        now,
+        reminderDays,
+        graceDays,
+      );
+      if (!stage) continue;
+
+      try {
+        if (await this.applyStage(candidate, expiration, stage)) applied++;
+      } catch (error) {
+        this.logger.error(
+          `[PlanExpiration] ❌ Erro ao aplicar etapa ${stage.key} ao usuário ${candidate.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    if (applied > 0) {
+      this.logger.log(
+        `[PlanExpiration] ✅ ${applied} etapa(s) de vencimento aplicada(s)`,
+      );
+    }
+  }
+
+  private async applyStage(
+    candidate: ExpirationCandidate,
+    expiration: Date,
+    stage: PlanExpirationStage,
+  ): Promise<boolean> {
+    const timeZone = resolveTimeZone(candidate.timezone);
+    const formatDate = (date: Date) =>
+      date.toLocaleDateString('pt-BR', { timeZone });
+
+    if (stage.kind === 'expired') {
+      return this.downgradeUser(candidate.id, expiration);
+    }
+
+    // Lembretes e carência são registrados antes de avisar: o INSERT IGNORE garante um aviso por etapa
+    if (
+      !(await this.recordStage(
+        candidate.id,
+        candidate.plan_id,
+        expiration,
+        stage.key,
+      ))
+    ) {
+      return false;
+    }
+
+    if (stage.kind === 'reminder') {
+      const message = `Seu plano ${candidate.plan_name} vence em ${stage.daysLeft} dia(s), em ${formatDate(expiration)}. Renove para não perder o acesso.`;
+      await this.settingsService.logActivity(
+        candidate.id,
+        'PLAN_EXPIRATION_REMINDER',
+        message,
+      );
+      this.notificationEvents?.emit({
+        userId: candidate.id,
+        type: 'plan_expiring',
+        source: 'plans',
+        title: 'Plano próximo do vencimento',
+        message,
+        data: {
+          planId: candidate.plan_id,
+          expirationDate: expiration,
+          daysLeft: stage.daysLeft,
+        },
+      });
+      return true;
+    }
+
+    const message = `Seu plano ${candidate.plan_name} venceu em ${formatDate(expiration)}. O acesso continua até ${formatDate(stage.graceEndsAt)}; depois disso a conta passa para o plano gratuito.`;
+    await this.settingsService.logActivity(
+      candidate.id,
+      'PLAN_GRACE_STARTED',
+      message,
+    );
+    this.notificationEvents?.emit({
+      userId: candidate.id,
+      type: 'plan_expiring',
+      source: 'plans',
+      title: 'Plano vencido: período de carência',
+      message,
+      data: {
+        planId: candidate.plan_id,
+        expirationDate: expiration,
+        graceEndsAt: stage.graceEndsAt,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Fim da carência: troca para o plano gratuito e desliga os produtos que ele não cobre.
+   * Relê o usuário para não rebaixar quem renovou entre a consulta e a aplicação.
+   */
+  private async downgradeUser(
+    userId: string,
+    expiration: Date,
+  ): Promise<boolean> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      relations: ['plan'],
+    });
+    if (!user || !user.plan || !user.planExpirationDate) return false;
+    if (user.planExpirationDate.getTime() !== expiration.getTime())
+      return false;
+
+    const previousPlan = user.plan;
+    const freePlan = await this.findFreePlan();
+
+    user.planId = freePlan?.id ?? null;
+    user.plan = freePlan;
+    user.planActivatedAt = freePlan ? new Date() : user.planActivatedAt;
+    user.planExpirationDate = null;
+    await this.userRepository.save(user);
+    await this.recordStage(user.id, previousPlan.id, expiration, 'expired');
+
+    const reason = `Plano ${previousPlan.name} expirado`;
+    const stopped = hasPermission(user.role, Permission.PLANS_BYPASS)
+      ? []
+      : await this.stopUncoveredProducts(
+          user.id,
+          resolvePlanEntitlements(freePlan),
+          reason,
+        );
+
+    const description = `Plano ${previousPlan.name} expirou; conta ${freePlan ? `rebaixada para ${freePlan.name}` : 'sem plano'}${stopped.length > 0 ? `. Desativados: ${stopped.map((product) => PRODUCT_LABELS[product]).join(', ')}` : ''}`;
+    await this.settingsService.logActivity(
+      user.id,
+      'PLAN_EXPIRED',
+      description,
+    );
+    this.notificationEvents?.emit({
+      userId: user.id,
+      type: 'plan_expiring',
+      source: 'plans',
+      title: 'Plano expirado',
+      message: `${description}. Renove para recuperar o acesso.`,
+      data: {
+        previousPlanId: previousPlan.id,
+        planId: freePlan?.id ?? null,
+        stopped,
+      },
+    });
+    this.logger.log(`[PlanExpiration] ⚠️ Usuário ${user.id}: ${description}`);
+    return true;
+  }
+
+  /**
+   * Desliga IA, agente autônomo e copy trading ativos que os direitos informados não cobrem.
+   * Falha em um produto não impede os outros. Retorna os produtos desligados.
+   */
+  async stopUncoveredProducts(
+    userId: string,
+    entitlements: PlanEntitlements,
+    reason: string,
+  ): Promise<EntitlementProduct[]> {
+    const [active] = await this.dataSource.query(
+      `SELECT
+         EXISTS (SELECT 1 FROM ai_user_config WHERE user_id = ? AND is_active = 1) AS ai,
+         EXISTS (SELECT 1 FROM autonomous_agent_config WHERE user_id = ? AND is_active = 1) AS agent,
+         EXISTS (SELECT 1 FROM copy_trading_config WHERE user_id = ? AND is_active = 1) AS copy_trading`,
+      [userId, userId, userId],
+    );
+
+    const deactivators: Record<EntitlementProduct, () => Promise<unknown>> = {
+      ai: () => this.aiService.deactivateUserAI(userId),
+      agent: () => this.autonomousAgentService.deactivateAgent(userId, reason),
+      copy_trading: () =>
+        this.copyTradingService.deactivateCopyTrading(userId, reason),
+    };
+
+    const stopped: EntitlementProduct[] = [];
+    for (const product of Object.keys(deactivators) as EntitlementProduct[]) {
+      if (!Number(active?.[product]) || entitlements.products[product])
+        continue;
+      try {
+        await deactivators[product]();
+        stopped.push(product);
+      } catch (error) {
+        this.logger.error(
+          `[PlanExpiration] ❌ Erro ao desativar ${PRODUCT_LABELS[product]} do usuário ${userId}: ${error.message}`,
+        );
+      }
+    }
+    return stopped;
+  }
+
+  /**
+   * Planos pagos que vencem nos próximos `days` dias ou que estão na carência
+   */
+  async listUpcomingExpirations(days: number) {
+    const now = new Date();
+    const graceDays = this.graceDays;
+    const reminderDays = this.reminderDays;
+
+    const rows = await this.dataSource.query(
+      `SELECT u.id, u.name, u.email, u.plan_id, p.name AS plan_name, p.slug AS plan_slug,
+              u.plan_activated_at, u.plan_expiration_date
+       FROM users u
+       INNER JOIN plans p ON p.id = u.plan_id
+       WHERE u.plan_expiration_date IS NOT NULL
+         AND u.plan_expiration_date BETWEEN ? AND ?
+         AND p.price > 0
+       ORDER BY u.plan_expiration_date ASC`,
+      [
+        new Date(now.getTime() - graceDays * DAY_MS),
+        new Date(now.getTime() + days * DAY_MS),
+      ],
+    );
+
+    return rows.map((row: any) => {
+      const expiration = new Date(row.plan_expiration_date);
+      const stage = resolveExpirationStage(
+        expiration,
+        now,
+        reminderDays,
+        graceDays,
+      );
+      return {
+        userId: row.id,
+        name: row.name,
+        email: row.email,
+        plan: { id: row.plan_id, name: row.plan_name, slug: row.plan_slug },
+        planActivatedAt: row.plan_activated_at,
+        planExpirationDate: expiration,
+        daysLeft: Math.ceil((expiration.getTime() - now.getTime()) / DAY_MS),
+        inGracePeriod: stage?.kind === 'grace',
+        graceEndsAt: graceEndsAt(expiration, graceDays),
+      };
+    });
+  }
+
+  /**
+   * Extensão manual pelo admin: soma dias à expiração vigente (ou a partir de hoje) ou define a data
+   */
+  async extendPlan(
+    userId: string,
+    options: { days?: number; until?: Date },
+    adminId?: string,
+  ) {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      relations: ['plan'],
+    });
+    if (!user) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+    if (!user.plan) {
+      throw new BadRequestException('Usuário não possui plano para estender');
+    }
+
+    const now = new Date();
+    let expiration: Date;
+    if (options.until) {
+      expiration = new Date(options.until);
+      if (expiration.getTime() <= now.getTime()) {
+        throw new BadRequestException('until deve ser uma data futura');
+      }
+    } else if (options.days && options.days > 0) {
+      const base =
+        user.planExpirationDate &&
+        user.planExpirationDate.getTime() > now.getTime()
+          ? user.planExpirationDate
+          : now;
+      expiration = new Date(base.getTime() + options.days * DAY_MS);
+    } else {
+      throw new BadRequestException('Informe days ou until');
+    }
+
+    const previous = user.planExpirationDate ?? null;
+    user.planExpirationDate = expiration;
+    await this.userRepository.save(user);
+
+    await this.settingsService.logActivity(
+      user.id,
+      'PLAN_EXTENDED',
+      `Plano ${user.plan.name} estendido até ${expiration.toISOString()}${previous ? ` (antes: ${previous.toISOString()})` : ''}${adminId ? ` pelo admin ${adminId}` : ''}`,
+    );
+    this.logger.log(
+      `[PlanExpiration] ✅ Plano do usuário ${user.id} estendido até ${expiration.toISOString()}`,
+    );
+
+    return {
+      userId: user.id,
+      plan: { id: user.plan.id, name: user.plan.name },
+      previousExpirationDate: previous,
+      planExpirationDate: expiration,
+    };
+  }
+
+  private async findFreePlan(): Promise<PlanEntity | null> {
+    const slug = this.configService.get<string>('FREE_PLAN_SLUG');
+    if (slug) {
+      const plan = await this.planRepository.findOne({
+        where: { slug: slug.trim().toLowerCase() },
+      });
+      if (plan) return plan;
+      this.logger.warn(
+        `[PlanExpiration] ⚠️ FREE_PLAN_SLUG=${slug} não encontrado; usando o plano gratuito padrão`,
+      );
+    }
+    const [plan] = await this.planRepository.find({
+      where: { price: 0, isActive: true },
+      order: { displayOrder: 'ASC' },
+      take: 1,
+    });
+    return plan ?? null;
+  }
+
+  /**
+   * Registra a etapa; false se ela já tinha sido aplicada para esta data de expiração
+   */
+  private async recordStage(
+    userId: string,
+    planId: string | null,
+    expiration: Date,
+    stage: string,
+  ): Promise<boolean> {
+    const result = await this.dataSource.query(
+      `INSERT IGNORE INTO plan_expiration_notices (user_id, plan_id, expiration_date, stage) VALUES (?, ?, ?, ?)`,
+      [userId, planId, expiration, stage],
+    );
+    return result.affectedRows > 0;
+  }
+}
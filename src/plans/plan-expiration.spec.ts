@@ -0,0 +1,62 @@
+import {
+  parseGracePeriodDays,
+  parseReminderDays,
+  resolveExpirationStage,
+} from './plan-expiration';
+
+describe('plan-expiration', () => {
+  const expiration = new Date('2026-05-10T12:00:00Z');
+  const at = (iso: string) => new Date(iso);
+
+  it('lê a configuração de lembretes e carência', () => {
+    expect(parseReminderDays(undefined)).toEqual([7, 3, 1]);
+    expect(parseReminderDays('1, 14,3,abc,3,0')).toEqual([14, 3, 1]);
+    expect(parseGracePeriodDays('')).toBe(3);
+    expect(parseGracePeriodDays('0')).toBe(0);
+    expect(parseGracePeriodDays('-2')).toBe(3);
+  });
+
+  it('escolhe o lembrete mais próximo do vencimento', () => {
+    expect(
+      resolveExpirationStage(
+        expiration,
+        at('2026-05-01T12:00:00Z'),
+        [7, 3, 1],
+        3,
+      ),
+    ).toBeNull();
+    expect(
+      resolveExpirationStage(
+        expiration,
+        at('2026-05-04T12:00:00Z'),
+        [7, 3, 1],
+        3,
+      ),
+    ).toEqual({ kind: 'reminder', key: 'reminder_7', daysLeft: 6 });
+    expect(
+      resolveExpirationStage(
+        expiration,
+        at('2026-05-08T18:00:00Z'),
+        [7, 3, 1],
+        3,
+      ),
+    ).toEqual({ kind: 'reminder', key: 'reminder_3', daysLeft: 2 });
+  });
+
+  it('aplica a carência antes de expirar', () => {
+    expect(
+      resolveExpirationStage(expiration, at('2026-05-11T12:00:00Z'), [7], 3),
+    ).toEqual({
+      kind: 'grace',
+      key: 'grace',
+      graceEndsAt: at('2026-05-13T12:00:00Z'),
+    });
+    expect(
+      resolveExpirationStage(expiration, at('2026-05-13T12:00:00Z'), [7], 3),
+    ).toEqual({ kind: 'expired', key: 'expired' });
+    expect(resolveExpirationStage(expiration, expiration, [7], 0)).toEqual({
+      kind: 'expired',
+      key: 'expired',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_REMINDER_DAYS = [7, 3, 1];
+export const DEFAULT_GRACE_PERIOD_DAYS = 3;
+
+/**
+ * Etapa do vencimento de um plano. Cada etapa é registrada uma única vez por data de expiração
+ * (plan_expiration_notices), então o aviso não se repete a cada execução do scheduler.
+ */
+export type PlanExpirationStage =
+  | { kind: 'reminder'; key: string; daysLeft: number }
+  | { kind: 'grace'; key: 'grace'; graceEndsAt: Date }
+  | { kind: 'expired'; key: 'expired' };
+
+/**
+ * Dias de antecedência dos lembretes (ex.: "7,3,1"), em ordem decrescente e sem repetição
+ */
+export function parseReminderDays(value: string | undefined | null): number[] {
+  if (value === undefined || value === null || value.trim() === '') {
+    return [...DEFAULT_REMINDER_DAYS];
+  }
+  const days = value
+    .split(',')
+    .map((item) => Number(item.trim()))
+    .filter((day) => Number.isInteger(day) && day > 0);
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export function parseGracePeriodDays(value: string | undefined | null): number {
+  if (value === undefined || value === null || value.trim() === '') {
+    return DEFAULT_GRACE_PERIOD_DAYS;
+  }
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0
+    ? Math.floor(days)
+    : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+export function graceEndsAt(expiration: Date, graceDays: number): Date {
+  return new Date(expiration.getTime() + graceDays * DAY_MS);
+}
+
+/**
+ * Etapa atual de um plano que vence em `expiration`, ou null se ainda está longe do vencimento.
+ * Antes do vencimento vale o lembrete mais próximo (ex.: faltando 2 dias com lembretes 7,3,1 → 3);
+ * depois, a carência; ao fim da carência, a expiração.
+ */
+export function resolveExpirationStage(
+  expiration: Date,
+  now: Date,
+  reminderDays: number[],
+  graceDays: number,
+): PlanExpirationStage | null {
+  const remainingMs = expiration.getTime() - now.getTime();
+  if (remainingMs > 0) {
+    const daysLeft = Math.ceil(remainingMs / DAY_MS);
+    const threshold = reminderDays
+      .filter((days) => daysLeft <= days)
+      .sort((a, b) => a - b)[0];
+    if (threshold === undefined) return null;
+    return { kind: 'reminder', key: `reminder_${threshold}`, daysLeft };
+  }
+
+  const endsAt = graceEndsAt(expiration, graceDays);
+  if (now.getTime() < endsAt.getTime()) {
+    return { kind: 'grace', key: 'grace', graceEndsAt: endsAt };
+  }
+  return { kind: 'expired', key: 'expired' };
+}
@@ -1,5 +1,32 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ForbiddenException, Injectable, Logger, NotFoundException, Optional } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
 import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { Permission, hasPermission } from '../auth/roles';
+import { StrategyRegistryService } from '../strategies/registry/strategy-registry.service';
+import { resolveTimeZone, startOfDayInTimeZone } from '../utils/timezone.utils';
+import {
+    ENTITLEMENT_PRODUCTS,
+    EntitlementProduct,
+    EntitlementRequest,
+    EntitlementUsage,
+    PlanEntitlements,
+    UNLIMITED_ENTITLEMENTS,
+    checkActivationEntitlement,
+    checkTradeEntitlement,
+    resolvePlanEntitlements,
+} from './plan-entitlements';
+
+// Direitos e contagem de operações usados na checagem por operação (evita consultas a cada tick)
+const TRADE_CACHE_TTL_MS = 60 * 1000;
+const BLOCK_LOG_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface FeatureAccess {
+    feature: string;
+    kind: 'product' | 'ai' | 'agent';
+    locked: boolean;
+    reason: string | null;
+}
 
 /**
  * Service to centralize all logic related to plan-based permissions and feature access.
@@ -8,6 +35,200 @@ import { UserEntity } from '../infrastructure/database/entities/user.entity';
 export class PlanPermissionsService {
     private readonly logger = new Logger(PlanPermissionsService.name);
 
+    private readonly tradeCache = new Map<string, {
+        entitlements: PlanEntitlements;
+        operationsToday: number;
+        timeZone: string;
+        dayStart: number;
+        expiresAt: number;
+    }>();
+    private readonly lastBlockLog = new Map<string, number>();
+
+    constructor(
+        @Optional() private readonly strategyRegistry?: StrategyRegistryService,
+        @Optional() @InjectDataSource() private readonly dataSource?: DataSource,
+    ) { }
+
+    /**
+     * Direitos efetivos do usuário (admin/suporte não têm limites)
+     */
+    getEntitlements(user: UserEntity): PlanEntitlements {
+        if (hasPermission(user.role, Permission.PLANS_BYPASS)) return UNLIMITED_ENTITLEMENTS;
+        return resolvePlanEntitlements(user.plan);
+    }
+
+    /**
+     * Produtos ativos e operações/sessões de copy do dia local do usuário
+     */
+    async getUsage(userId: string): Promise<EntitlementUsage> {
+        if (!this.dataSource) {
+            return { activeProducts: [], operationsToday: 0, copySessionsToday: 0 };
+        }
+        const dayStart = startOfDayInTimeZone(new Date(), await this.getUserTimeZone(userId));
+        const [[active], operationsToday, [copySessions]] = await Promise.all([
+            this.dataSource.query(
+                `SELECT
+                    EXISTS (SELECT 1 FROM ai_user_config WHERE user_id = ? AND is_active = 1) AS ai,
+                    EXISTS (SELECT 1 FROM autonomous_agent_config WHERE user_id = ? AND is_active = 1) AS agent,
+                    EXISTS (SELECT 1 FROM copy_trading_config WHERE user_id = ? AND is_active = 1 AND session_status = 'active') AS copy_trading`,
+                [userId, userId, userId],
+            ),
+            this.countOperationsSince(userId, dayStart),
+            this.dataSource.query(
+                `SELECT COUNT(*) AS total FROM copy_trading_sessions WHERE user_id = ? AND started_at >= ?`,
+                [userId, dayStart],
+            ),
+        ]);
+
+        return {
+            activeProducts: ENTITLEMENT_PRODUCTS.filter((product) => Number(active?.[product]) === 1),
+            operationsToday,
+            copySessionsToday: parseInt(copySessions?.total, 10) || 0,
+        };
+    }
+
+    /**
+     * Valida os limites do plano na ativação de IA, agente ou copy trading.
+     * Lança ForbiddenException com o motivo quando bloqueado.
+     */
+    async assertActivationAllowed(user: UserEntity, request: EntitlementRequest): Promise<void> {
+        if (hasPermission(user.role, Permission.PLANS_BYPASS)) return;
+
+        const reason = checkActivationEntitlement(
+            this.getEntitlements(user),
+            await this.getUsage(user.id),
+            request,
+        );
+        if (reason) {
+            this.logger.warn(`[Entitlements] 🚫 Ativação de ${request.product} bloqueada para ${user.id}: ${reason}`);
+            throw new ForbiddenException(reason);
+        }
+        this.tradeCache.delete(user.id);
+    }
+
+    /**
+     * Checagem no momento da operação (tipo de conta, stake, ativo e limite diário). Retorna o motivo do
+     * bloqueio ou null; operações liberadas entram na contagem do dia.
+     */
+    async checkTrade(userId: string, request: EntitlementRequest): Promise<string | null> {
+        if (!this.dataSource) return null;
+        try {
+            const cached = await this.getTradeCacheEntry(userId);
+            const reason = checkTradeEntitlement(cached.entitlements, cached, request);
+            if (!reason) {
+                cached.operationsToday++;
+                return null;
+            }
+
+            const logKey = `${userId}:${reason}`;
+            const lastLoggedAt = this.lastBlockLog.get(logKey) ?? 0;
+            if (Date.now() - lastLoggedAt >= BLOCK_LOG_INTERVAL_MS) {
+                this.lastBlockLog.set(logKey, Date.now());
+                this.logger.warn(`[Entitlements] 🚫 Operação de ${request.product} bloqueada para ${userId}: ${reason}`);
+            }
+            return reason;
+        } catch (error) {
+            // Falha ao consultar o plano não deve travar as operações em andamento
+            this.logger.error(`[Entitlements] Erro ao verificar operação de ${userId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Situação de cada recurso para o usuário (bloqueado e por quê), para o frontend
+     */
+    async getAccessReport(userId: string) {
+        const user = await this.dataSource?.getRepository(UserEntity).findOne({
+            where: { id: userId },
+            relations: ['plan'],
+        });
+        if (!user) {
+            throw new NotFoundException('Usuário não encontrado');
+        }
+
+        const bypass = hasPermission(user.role, Permission.PLANS_BYPASS);
+        const entitlements = this.getEntitlements(user);
+        const usage = await this.getUsage(userId);
+        const productReason = (product: EntitlementProduct) =>
+            bypass ? null : checkActivationEntitlement(entitlements, usage, { product });
+
+        const features: FeatureAccess[] = ENTITLEMENT_PRODUCTS.map((product) => {
+            const reason = productReason(product);
+            return { feature: product, kind: 'product', locked: !!reason, reason };
+        });
+
+        for (const name of this.strategyRegistry?.getStrategyNames('ai') ?? []) {
+            const reason = productReason('ai')
+                ?? (this.canActivateStrategy(user, name) ? null : `Seu plano atual não inclui a estratégia ${name}.`);
+            features.push({ feature: name, kind: 'ai', locked: !!reason, reason });
+        }
+        for (const name of this.strategyRegistry?.getStrategyNames('autonomous-agent') ?? []) {
+            const reason = productReason('agent')
+                ?? (this.canActivateAgent(user, name) ? null : `Seu plano atual não inclui o agente ${name}.`);
+            features.push({ feature: name, kind: 'agent', locked: !!reason, reason });
+        }
+
+        return {
+            plan: user.plan ? { id: user.plan.id, name: user.plan.name, slug: user.plan.slug } : null,
+            bypass,
+            entitlements,
+            usage,
+            features,
+        };
+    }
+
+    private async getTradeCacheEntry(userId: string) {
+        const now = Date.now();
+        const cached = this.tradeCache.get(userId);
+        if (
+            cached
+            && cached.expiresAt > now
+            && startOfDayInTimeZone(new Date(now), cached.timeZone).getTime() === cached.dayStart
+        ) {
+            return cached;
+        }
+
+        const timeZone = await this.getUserTimeZone(userId);
+        const dayStart = startOfDayInTimeZone(new Date(now), timeZone).getTime();
+
+        const user = await this.dataSource!.getRepository(UserEntity).findOne({
+            where: { id: userId },
+            relations: ['plan'],
+        });
+        const entitlements = user ? this.getEntitlements(user) : resolvePlanEntitlements(null);
+        // Sem limite diário não é preciso contar operações
+        const operationsToday = entitlements.maxDailyOperations !== null
+            ? await this.countOperationsSince(userId, new Date(dayStart))
+            : 0;
+
+        const entry = { entitlements, operationsToday, timeZone, dayStart, expiresAt: now + TRADE_CACHE_TTL_MS };
+        this.tradeCache.set(userId, entry);
+        return entry;
+    }
+
+    private async getUserTimeZone(userId: string): Promise<string> {
+        const [settings] = await this.dataSource!.query(
+            `SELECT timezone FROM user_settings WHERE user_id = ? LIMIT 1`,
+            [userId],
+        );
+        return resolveTimeZone(settings?.timezone);
+    }
+
+    /**
+     * Operações de IA, agente e copy trading (sem as ignoradas/com erro) desde a data
+     */
+    private async countOperationsSince(userId: string, since: Date): Promise<number> {
+        const [row] = await this.dataSource!.query(
+            `SELECT
+                (SELECT COUNT(*) FROM ai_trades WHERE user_id = ? AND created_at >= ? AND status <> 'ERROR')
+              + (SELECT COUNT(*) FROM autonomous_agent_trades WHERE user_id = ? AND created_at >= ?)
+              + (SELECT COUNT(*) FROM copy_trading_operations WHERE user_id = ? AND executed_at >= ? AND result <> 'skipped')
+              AS total`,
+            [userId, since, userId, since, userId, since],
+        );
+        return parseInt(row?.total, 10) || 0;
+    }
+
     /**
      * Checks if a user can activate a specific investment strategy (IA)
      * 
@@ -17,7 +238,7 @@ export class PlanPermissionsService {
      */
     canActivateStrategy(user: UserEntity, strategyId: string): boolean {
         // Admins and Support always have access
-        if (user.role === 'admin' || user.role === 'support') return true;
+        if (hasPermission(user.role, Permission.PLANS_BYPASS)) return true;
 
         if (!user.plan) {
             this.logger.warn(`[canActivateStrategy] User ${user.id} has no plan assigned.`);
@@ -34,10 +255,9 @@ export class PlanPermissionsService {
             }
         }
 
-        // 2. Legacy boolean checks
-        if (lowerId === 'orion' && features.orion_ai === true) return true;
-        if (lowerId === 'atlas' && features.atlas_ai === true) return true;
-        if (lowerId === 'nexus' && features.nexus_ai === true) return true;
+        // 2. Legacy boolean checks (flag declared by the strategy's @RegisterStrategy planFeatureFlag)
+        const legacyFlag = this.strategyRegistry?.getStrategy('ai', lowerId)?.metadata.planFeatureFlag;
+        if (legacyFlag && features[legacyFlag] === true) return true;
 
         // 3. Special case for Orion Black (usually requires specific flag)
         if (lowerId.includes('black') && (features.black_module === true || features.orion_black === true)) {
@@ -56,7 +276,7 @@ export class PlanPermissionsService {
      */
     canActivateAgent(user: UserEntity, agentId: string): boolean {
         // Admins and Support always have access
-        if (user.role === 'admin' || user.role === 'support') return true;
+        if (hasPermission(user.role, Permission.PLANS_BYPASS)) return true;
 
         if (!user.plan) return false;
 
@@ -85,7 +305,7 @@ export class PlanPermissionsService {
      */
     canActivateTrader(user: UserEntity, traderId: string): boolean {
         // Admins and Support always have access
-        if (user.role === 'admin' || user.role === 'support') return true;
+        if (hasPermission(user.role, Permission.PLANS_BYPASS)) return true;
 
         if (!user.plan) return false;
 
@@ -1,7 +1,11 @@
-import { Controller, Get, Post, Put, Delete, Body, UseGuards, Req, Param, ForbiddenException } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, UseGuards, Req, Param } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { IsString, IsNotEmpty, IsOptional, IsNumber, IsBoolean, IsObject, IsArray } from 'class-validator';
 import { PlansService } from './plans.service';
+import { PlanPermissionsService } from './plan-permissions.service';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 
 class ActivatePlanDto {
   @IsString()
@@ -33,6 +37,14 @@ class CreatePlanDto {
   @IsOptional()
   features?: any;
 
+  /**
+   * Limites do plano: products, maxConcurrentProducts, maxStake, maxDailyOperations,
+   * allowedSymbols, accountTypes e maxDailyCopySessions
+   */
+  @IsObject()
+  @IsOptional()
+  entitlements?: Record<string, any> | null;
+
   @IsBoolean()
   @IsOptional()
   isPopular?: boolean;
@@ -87,6 +99,14 @@ class UpdatePlanDto {
   @IsOptional()
   features?: any;
 
+  /**
+   * Limites do plano: products, maxConcurrentProducts, maxStake, maxDailyOperations,
+   * allowedSymbols, accountTypes e maxDailyCopySessions
+   */
+  @IsObject()
+  @IsOptional()
+  entitlements?: Record<string, any> | null;
+
   @IsBoolean()
   @IsOptional()
   isPopular?: boolean;
@@ -118,7 +138,10 @@ class UpdatePlanDto {
 
 @Controller('plans')
 export class PlansController {
-  constructor(private readonly plansService: PlansService) { }
+  constructor(
+    private readonly plansService: PlansService,
+    private readonly planPermissionsService: PlanPermissionsService,
+  ) { }
 
   @Get()
   async getAllPlans() {
@@ -126,16 +149,21 @@ export class PlansController {
   }
 
   @Get('admin/all')
-  @UseGuards(AuthGuard('jwt'))
-  async getAllPlansAdmin(@Req() req: any) {
-    // Verificar se é admin
-    const user = req.user;
-    if (user.role !== 'admin') {
-      throw new ForbiddenException('Acesso negado. Apenas administradores podem acessar.');
-    }
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async getAllPlansAdmin() {
     return await this.plansService.getAllPlansAdmin();
   }
 
+  /**
+   * Recursos bloqueados pelo plano do usuário e o motivo, com limites e uso do dia
+   */
+  @Get('user/entitlements')
+  @UseGuards(AuthGuard('jwt'))
+  async getUserEntitlements(@Req() req: any) {
+    return await this.planPermissionsService.getAccessReport(req.user.userId);
+  }
+
   @Get(':id')
   async getPlanById(@Param('id') id: string) {
     return await this.plansService.getPlanById(id);
@@ -149,35 +177,23 @@ export class PlansController {
   }
 
   @Post()
-  @UseGuards(AuthGuard('jwt'))
-  async createPlan(@Req() req: any, @Body() body: CreatePlanDto) {
-    // Verificar se é admin
-    const user = req.user;
-    if (user.role !== 'admin') {
-      throw new ForbiddenException('Acesso negado. Apenas administradores podem criar planos.');
-    }
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async createPlan(@Body() body: CreatePlanDto) {
     return await this.plansService.createPlan(body);
   }
 
   @Put(':id')
-  @UseGuards(AuthGuard('jwt'))
-  async updatePlan(@Req() req: any, @Param('id') id: string, @Body() body: UpdatePlanDto) {
-    // Verificar se é admin
-    const user = req.user;
-    if (user.role !== 'admin') {
-      throw new ForbiddenException('Acesso negado. Apenas administradores podem atualizar planos.');
-    }
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async updatePlan(@Param('id') id: string, @Body() body: UpdatePlanDto) {
     return await this.plansService.updatePlan(id, body);
   }
 
   @Delete(':id')
-  @UseGuards(AuthGuard('jwt'))
-  async deletePlan(@Req() req: any, @Param('id') id: string) {
-    // Verificar se é admin
-    const user = req.user;
-    if (user.role !== 'admin') {
-      throw new ForbiddenException('Acesso negado. Apenas administradores podem deletar planos.');
-    }
+  @UseGuards(RolesGuard)
+  @Roles(Role.ADMIN)
+  async deletePlan(@Param('id') id: string) {
     return await this.plansService.deletePlan(id);
   }
 
@@ -7,6 +7,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { UserRepository } from '../domain/repositories/user.repository';
 import { USER_REPOSITORY_TOKEN } from '../constants/tokens';
 import { SettingsService } from '../settings/settings.service';
+import { PlanEntitlements, normalizePlanEntitlements, resolvePlanEntitlements } from './plan-entitlements';
 
 @Injectable()
 export class PlansService {
@@ -43,6 +44,7 @@ export class PlansService {
       currency: plan.currency,
       billingPeriod: plan.billingPeriod,
       features: plan.features || {},
+      entitlements: resolvePlanEntitlements(plan),
       benefits: plan.benefits || [],
       isPopular: plan.isPopular,
       isRecommended: plan.isRecommended,
@@ -66,6 +68,7 @@ export class PlansService {
       currency: plan.currency,
       billingPeriod: plan.billingPeriod,
       features: plan.features || {},
+      entitlements: resolvePlanEntitlements(plan),
       benefits: plan.benefits || [],
       isPopular: plan.isPopular,
       isRecommended: plan.isRecommended,
@@ -95,6 +98,7 @@ export class PlansService {
       currency: user.plan.currency,
       billingPeriod: user.plan.billingPeriod,
       features: user.plan.features || {},
+      entitlements: resolvePlanEntitlements(user.plan),
       benefits: user.plan.benefits || [],
       purchaseLink: user.plan.purchaseLink,
       activatedAt: user.planActivatedAt,
@@ -152,6 +156,7 @@ export class PlansService {
       displayOrder: plan.displayOrder,
       externalId: plan.externalId,
       features: plan.features || {},
+      entitlements: resolvePlanEntitlements(plan),
       benefits: plan.benefits || [],
       purchaseLink: plan.purchaseLink,
       createdAt: plan.createdAt,
@@ -166,6 +171,7 @@ export class PlansService {
     currency?: string;
     billingPeriod?: string;
     features?: any;
+    entitlements?: Record<string, any> | null;
     benefits?: any;
     isPopular?: boolean;
     isRecommended?: boolean;
@@ -191,6 +197,7 @@ export class PlansService {
       currency: data.currency || 'BRL',
       billingPeriod: data.billingPeriod || 'month',
       features: data.features || {},
+      entitlements: this.parseEntitlements(data.entitlements),
       benefits: data.benefits || [],
       isPopular: data.isPopular || false,
       isRecommended: data.isRecommended || false,
@@ -210,6 +217,7 @@ export class PlansService {
       currency: savedPlan.currency,
       billingPeriod: savedPlan.billingPeriod,
       features: savedPlan.features || {},
+      entitlements: resolvePlanEntitlements(savedPlan),
       benefits: savedPlan.benefits || [],
       isPopular: savedPlan.isPopular,
       isRecommended: savedPlan.isRecommended,
@@ -229,6 +237,7 @@ export class PlansService {
     currency?: string;
     billingPeriod?: string;
     features?: any;
+    entitlements?: Record<string, any> | null;
     benefits?: any;
     isPopular?: boolean;
     isRecommended?: boolean;
@@ -261,6 +270,7 @@ export class PlansService {
     if (data.currency !== undefined) plan.currency = data.currency;
     if (data.billingPeriod !== undefined) plan.billingPeriod = data.billingPeriod;
     if (data.features !== undefined) plan.features = data.features;
+    if (data.entitlements !== undefined) plan.entitlements = this.parseEntitlements(data.entitlements);
     if (data.benefits !== undefined) plan.benefits = data.benefits;
     if (data.isPopular !== undefined) plan.isPopular = data.isPopular;
     if (data.isRecommended !== undefined) plan.isRecommended = data.isRecommended;
@@ -279,6 +289,7 @@ export class PlansService {
       currency: updatedPlan.currency,
       billingPeriod: updatedPlan.billingPeriod,
       features: updatedPlan.features || {},
+      entitlements: resolvePlanEntitlements(updatedPlan),
       benefits: updatedPlan.benefits || [],
       isPopular: updatedPlan.isPopular,
       isRecommended: updatedPlan.isRecommended,
@@ -291,6 +302,18 @@ export class PlansService {
     };
   }
 
+  /**
+   * Valida os limites enviados pelo admin; objeto vazio/nulo volta a usar só plan.features
+   */
+  private parseEntitlements(input: unknown): Partial<PlanEntitlements> | null {
+    try {
+      const entitlements = normalizePlanEntitlements(input);
+      return Object.keys(entitlements).length > 0 ? entitlements : null;
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
   async deletePlan(id: string) {
     const plan = await this.planRepository.findOne({ where: { id } });
 
@@ -1,9 +1,12 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../../auth/roles.guard';
+import { RequirePermissions } from '../../auth/roles.decorator';
+import { Permission } from '../../auth/roles';
 import { AdminService } from '../services/admin.service';
 
 @Controller('admin')
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(RolesGuard)
+@RequirePermissions(Permission.ADMIN_VIEW)
 export class AdminController {
   constructor(private readonly adminService: AdminService) { }
 
@@ -13,6 +16,7 @@ export class AdminController {
   }
 
   @Get('users/non-demo')
+  @RequirePermissions(Permission.USERS_VIEW)
   async getNonDemoUsers() {
     return this.adminService.getNonDemoUsers();
   }
@@ -23,6 +27,7 @@ export class AdminController {
   }
 
   @Get('users/all')
+  @RequirePermissions(Permission.USERS_VIEW)
   async getAllUsers(
     @Query('page') page: string = '1',
     @Query('limit') limit: string = '10',
@@ -34,11 +39,13 @@ export class AdminController {
   }
 
   @Post('users')
+  @RequirePermissions(Permission.USERS_MANAGE)
   async createUser(@Body() data: any) {
     return this.adminService.createUser(data);
   }
 
   @Put('users/:id')
+  @RequirePermissions(Permission.USERS_MANAGE)
   async updateUser(@Param('id') id: string, @Body() data: any) {
     return this.adminService.updateUser(id, data);
   }
@@ -54,21 +61,25 @@ export class AdminController {
   }
 
   @Post('administrators')
+  @RequirePermissions(Permission.ADMINS_MANAGE)
   async createAdministrator(@Body() data: any) {
     return this.adminService.createAdministrator(data);
   }
 
   @Put('administrators/:id')
+  @RequirePermissions(Permission.ADMINS_MANAGE)
   async updateAdministrator(@Param('id') id: string, @Body() data: any) {
     return this.adminService.updateAdministrator(id, data);
   }
 
   @Put('administrators/:id/toggle-status')
+  @RequirePermissions(Permission.ADMINS_MANAGE)
   async toggleAdministratorStatus(@Param('id') id: string) {
     return this.adminService.toggleAdministratorStatus(id);
   }
 
   @Delete('administrators/:id')
+  @RequirePermissions(Permission.ADMINS_MANAGE)
   async deleteAdministrator(@Param('id') id: string) {
     return this.adminService.deleteAdministrator(id);
   }
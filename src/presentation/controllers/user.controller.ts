@@ -7,8 +7,12 @@ import {
   Body,
   Param,
   HttpCode,
-  HttpStatus
+  HttpStatus,
+  UseGuards
 } from '@nestjs/common';
+import { RolesGuard } from '../../auth/roles.guard';
+import { RequirePermissions } from '../../auth/roles.decorator';
+import { Permission } from '../../auth/roles';
 import { CreateUserUseCase } from '../../application/use-cases/create-user.use-case';
 import { GetUserByIdUseCase } from '../../application/use-cases/get-user-by-id.use-case';
 import { GetAllUsersUseCase } from '../../application/use-cases/get-all-users.use-case';
@@ -21,6 +25,8 @@ import {
 } from '../dto/user.dto';
 
 @Controller('users')
+@UseGuards(RolesGuard)
+@RequirePermissions(Permission.USERS_MANAGE)
 export class UserController {
   constructor(
     private readonly createUserUseCase: CreateUserUseCase,
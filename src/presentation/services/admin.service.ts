@@ -8,6 +8,7 @@ import { UserActivityLogEntity } from '../../infrastructure/database/entities/us
 import { ExpertEntity } from '../../infrastructure/database/entities/expert.entity';
 import * as bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
+import { ADMIN_PANEL_ROLES, Role, normalizeRole, storedRoleValues } from '../../auth/roles';
 
 @Injectable()
 export class AdminService {
@@ -39,7 +40,7 @@ export class AdminService {
     // Buscar admins ativos (usuários com role de admin e isActive = true)
     const activeAdminsCount = await this.userRepository.count({
       where: {
-        role: In(['admin', 'super_admin', 'editor', 'suporte', 'visualizador']),
+        role: In(storedRoleValues(ADMIN_PANEL_ROLES)),
         isActive: true,
       },
     });
@@ -415,7 +416,7 @@ export class AdminService {
   async getAdministrators() {
     const admins = await this.userRepository.find({
       where: {
-        role: In(['admin', 'super_admin', 'editor', 'suporte', 'visualizador']),
+        role: In(storedRoleValues(ADMIN_PANEL_ROLES)),
       },
       select: [
         'id',
@@ -586,9 +587,9 @@ export class AdminService {
     }
 
     // Verificar se não é o único super admin
-    if (admin.role === 'super_admin') {
+    if (admin.role === Role.SUPER_ADMIN) {
       const superAdminsCount = await this.userRepository.count({
-        where: { role: 'super_admin' },
+        where: { role: Role.SUPER_ADMIN },
       });
 
       if (superAdminsCount <= 1) {
@@ -611,27 +612,18 @@ export class AdminService {
    */
   private mapPermissionToRole(permission: string): string {
     const roleMap: Record<string, string> = {
-      'Administrador': 'admin',
-      'Usuário': 'user',
+      'Administrador': Role.ADMIN,
+      'Usuário': Role.USER,
     };
 
-    return roleMap[permission] || 'user';
+    return roleMap[permission] || Role.USER;
   }
 
   /**
    * Formata role do banco para nome de permissão
    */
   private formatPermissionName(role: string): string {
-    const permissionMap: Record<string, string> = {
-      admin: 'Administrador',
-      user: 'Usuário',
-      super_admin: 'Administrador',
-      editor: 'Administrador',
-      suporte: 'Administrador',
-      visualizador: 'Administrador',
-    };
-
-    return permissionMap[role] || 'Usuário';
+    return ADMIN_PANEL_ROLES.includes(normalizeRole(role)) ? 'Administrador' : 'Usuário';
   }
 
   /**
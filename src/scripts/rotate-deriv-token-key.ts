@@ -0,0 +1,62 @@
+import { DataSource } from 'typeorm';
+import * as dotenv from 'dotenv';
+import { TokenEncryptionService } from '../utils/token-encryption.service';
+import {
+  TWO_FACTOR_SECRET_COLUMNS,
+  rewriteEncryptedColumns,
+  rewriteStoredDerivTokens,
+} from '../utils/token-encryption.migrator';
+
+dotenv.config();
+
+/**
+ * Rotação da chave mestra dos tokens da Deriv:
+ * 1. Adicione a nova chave em DERIV_TOKEN_ENCRYPTION_KEYS (mantendo a antiga) e aponte
+ *    DERIV_TOKEN_ENCRYPTION_KEY_VERSION para ela
+ * 2. Rode `npx ts-node src/scripts/rotate-deriv-token-key.ts`
+ * 3. Depois de concluído, a chave antiga pode sair da lista
+ * Cobre todas as tabelas de DERIV_TOKEN_COLUMNS (inclusive autonomous_agent_trades), o deriv_raw
+ * e os segredos do 2FA (TWO_FACTOR_SECRET_COLUMNS).
+ */
+async function rotate() {
+  const encryption = new TokenEncryptionService();
+  if (!encryption.activeKeyVersion) {
+    throw new Error(
+      'Configure DERIV_TOKEN_ENCRYPTION_KEYS antes de rodar a rotação',
+    );
+  }
+
+  const ds = new DataSource({
+    type: 'mysql',
+    host: process.env.DB_HOST,
+    port: parseInt(process.env.DB_PORT || '3306'),
+    username: process.env.DB_USERNAME,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_DATABASE,
+  });
+
+  await ds.initialize();
+  const queryRunner = ds.createQueryRunner();
+
+  try {
+    const updated =
+      (await rewriteStoredDerivTokens(queryRunner, encryption, 'encrypt')) +
+      (await rewriteEncryptedColumns(
+        queryRunner,
+        encryption,
+        'encrypt',
+        TWO_FACTOR_SECRET_COLUMNS,
+      ));
+    console.log(
+      `Tokens regravados com a chave ${encryption.activeKeyVersion}: ${updated} linha(s)`,
+    );
+  } finally {
+    await queryRunner.release();
+    await ds.destroy();
+  }
+}
+
+rotate().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,10 +1,12 @@
-import { Controller, Get, Put, Body, UseGuards, Req, Post, UploadedFile, UseInterceptors, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Put, Delete, Param, Body, UseGuards, Req, Post, UploadedFile, UseInterceptors, BadRequestException } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 import { AuthGuard } from '@nestjs/passport';
-import { IsString, IsOptional, IsBoolean, IsEmail, MinLength, IsEnum, IsNumber } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsEmail, MinLength, IsEnum, IsNumber, IsObject, MaxLength } from 'class-validator';
 import { SettingsService } from './settings.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorGuard } from './two-factor.guard';
 
 enum TradeCurrency {
   USD = 'USD',
@@ -88,10 +90,40 @@ class UpdateDerivTokenDto {
   activeContext?: 'ai' | 'agent' | 'all';
 }
 
+class UpdateNotificationSettingsDto {
+  /**
+   * { [evento]: { email?: boolean, inApp?: boolean, webhook?: boolean } }
+   */
+  @IsOptional()
+  @IsObject()
+  preferences?: Record<string, Partial<Record<string, boolean>>>;
+
+  /**
+   * URL HTTPS do webhook; string vazia ou null remove
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  webhookUrl?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  regenerateWebhookSecret?: boolean;
+}
+
+class TwoFactorCodeDto {
+  @IsString()
+  @MinLength(6)
+  code: string;
+}
+
 @Controller('settings')
 @UseGuards(AuthGuard('jwt'))
 export class SettingsController {
-  constructor(private readonly settingsService: SettingsService) { }
+  constructor(
+    private readonly settingsService: SettingsService,
+    private readonly twoFactorService: TwoFactorService,
+  ) { }
 
   @Get()
   async getSettings(@Req() req: any) {
@@ -100,7 +132,7 @@ export class SettingsController {
     const [settings, lastLogin, sessions, activityLogs] = await Promise.all([
       this.settingsService.getSettings(userId),
       this.settingsService.getLastLogin(userId),
-      this.settingsService.getSessions(userId),
+      this.settingsService.getSessions(userId, req.user.sessionId),
       this.settingsService.getActivityLogs(userId),
     ]);
 
@@ -140,6 +172,7 @@ export class SettingsController {
   }
 
   @Put('email')
+  @UseGuards(TwoFactorGuard)
   async updateEmail(@Req() req: any, @Body() body: UpdateEmailDto) {
     const userId = req.user.userId;
     return await this.settingsService.updateEmail(
@@ -151,6 +184,7 @@ export class SettingsController {
   }
 
   @Put('password')
+  @UseGuards(TwoFactorGuard)
   async updatePassword(@Req() req: any, @Body() body: UpdatePasswordDto) {
     const userId = req.user.userId;
     return await this.settingsService.updatePassword(
@@ -232,7 +266,23 @@ export class SettingsController {
     );
   }
 
+  @Get('notifications')
+  async getNotificationSettings(@Req() req: any) {
+    return await this.settingsService.getNotificationSettings(req.user.userId);
+  }
+
+  @Put('notifications')
+  async updateNotificationSettings(@Req() req: any, @Body() body: UpdateNotificationSettingsDto) {
+    return await this.settingsService.updateNotificationSettings(
+      req.user.userId,
+      body,
+      this.getIpAddress(req),
+      this.getUserAgent(req),
+    );
+  }
+
   @Post('deriv-token')
+  @UseGuards(TwoFactorGuard)
   async updateDerivToken(@Req() req: any, @Body() body: UpdateDerivTokenDto) {
     const userId = req.user.userId;
     return await this.settingsService.updateDerivToken(
@@ -245,6 +295,45 @@ export class SettingsController {
     );
   }
 
+  @Post('2fa/setup')
+  async setupTwoFactor(@Req() req: any) {
+    return await this.twoFactorService.setup(
+      req.user.userId,
+      this.getIpAddress(req),
+      this.getUserAgent(req),
+    );
+  }
+
+  @Post('2fa/enable')
+  async enableTwoFactor(@Req() req: any, @Body() body: TwoFactorCodeDto) {
+    return await this.twoFactorService.enable(
+      req.user.userId,
+      body.code,
+      this.getIpAddress(req),
+      this.getUserAgent(req),
+    );
+  }
+
+  @Post('2fa/disable')
+  async disableTwoFactor(@Req() req: any, @Body() body: TwoFactorCodeDto) {
+    return await this.twoFactorService.disable(
+      req.user.userId,
+      body.code,
+      this.getIpAddress(req),
+      this.getUserAgent(req),
+    );
+  }
+
+  @Post('2fa/recovery-codes')
+  async regenerateRecoveryCodes(@Req() req: any, @Body() body: TwoFactorCodeDto) {
+    return await this.twoFactorService.regenerateRecoveryCodes(
+      req.user.userId,
+      body.code,
+      this.getIpAddress(req),
+      this.getUserAgent(req),
+    );
+  }
+
   @Get('activity-logs')
   async getActivityLogs(@Req() req: any) {
     const userId = req.user.userId;
@@ -254,16 +343,25 @@ export class SettingsController {
   @Get('sessions')
   async getSessions(@Req() req: any) {
     const userId = req.user.userId;
-    return await this.settingsService.getSessions(userId);
+    return await this.settingsService.getSessions(userId, req.user.sessionId);
   }
 
   @Put('sessions/end-all')
   async endAllSessions(@Req() req: any) {
     const userId = req.user.userId;
-    const token = req.headers.authorization?.replace('Bearer ', '');
     return await this.settingsService.endAllSessions(
       userId,
-      token,
+      req.user.sessionId,
+      this.getIpAddress(req),
+      this.getUserAgent(req)
+    );
+  }
+
+  @Delete('sessions/:id')
+  async endSession(@Req() req: any, @Param('id') sessionId: string) {
+    return await this.settingsService.revokeSession(
+      req.user.userId,
+      sessionId,
       this.getIpAddress(req),
       this.getUserAgent(req)
     );
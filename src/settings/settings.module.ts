@@ -6,6 +6,8 @@ import { UserActivityLogEntity } from '../infrastructure/database/entities/user-
 import { UserSessionEntity } from '../infrastructure/database/entities/user-session.entity';
 import { SettingsService } from './settings.service';
 import { SettingsController } from './settings.controller';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorGuard } from './two-factor.guard';
 import { DERIV_SERVICE } from '../constants/tokens';
 import { DerivService } from '../broker/deriv.service';
 import { BrokerModule } from '../broker/broker.module';
@@ -23,12 +25,14 @@ import { AutonomousAgentModule } from '../autonomous-agent/autonomous-agent.modu
   controllers: [SettingsController],
   providers: [
     SettingsService,
+    TwoFactorService,
+    TwoFactorGuard,
     {
       provide: DERIV_SERVICE,
       useExisting: DerivService,
     },
   ],
-  exports: [SettingsService],
+  exports: [SettingsService, TwoFactorService],
 })
 export class SettingsModule { }
 
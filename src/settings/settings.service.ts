@@ -1,8 +1,10 @@
-import { Injectable, NotFoundException, BadRequestException, Inject, Logger, forwardRef } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, UnauthorizedException, Inject, Logger, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
 import type { UserRepository } from '../domain/repositories/user.repository';
 import { USER_REPOSITORY_TOKEN, DERIV_SERVICE } from '../constants/tokens';
 import { UserSettingsEntity } from '../infrastructure/database/entities/user-settings.entity';
@@ -10,13 +12,34 @@ import { UserActivityLogEntity } from '../infrastructure/database/entities/user-
 import { UserSessionEntity } from '../infrastructure/database/entities/user-session.entity';
 import { AiService } from '../ai/ai.service';
 import { AutonomousAgentService } from '../autonomous-agent/autonomous-agent.service';
+import { resolveTimeZone } from '../utils/timezone.utils';
+import {
+  generateRefreshToken,
+  parseRefreshToken,
+  parseRefreshTokenTtlDays,
+  refreshSecretMatches,
+} from '../auth/session-tokens';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  normalizeNotificationPreferences,
+  notificationPreferencesFromRow,
+} from '../notifications/notification-events';
+import { WebhookUrlError, assertPublicWebhookUrl } from '../notifications/webhook-url';
 
 const TRADE_CURRENCY_OPTIONS = ['USD', 'BTC', 'DEMO'] as const;
 type TradeCurrency = (typeof TRADE_CURRENCY_OPTIONS)[number];
 
+// last_activity da sessão é gravado no máximo uma vez por minuto (a validação roda a cada requisição)
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+// Sessões revogadas/expiradas há mais tempo que isso são apagadas no próximo login do usuário
+const SESSION_RETENTION_DAYS = 30;
+
 @Injectable()
 export class SettingsService {
   private readonly logger = new Logger(SettingsService.name);
+  private readonly sessionTouchedAt = new Map<string, number>();
 
   constructor(
     @Inject(USER_REPOSITORY_TOKEN) private readonly userRepository: UserRepository,
@@ -31,6 +54,7 @@ export class SettingsService {
     private readonly aiService: AiService,
     @Inject(forwardRef(() => AutonomousAgentService))
     private readonly autonomousAgentService: AutonomousAgentService,
+    private readonly configService: ConfigService,
   ) { }
 
   async getSettings(userId: string) {
@@ -140,8 +164,9 @@ export class SettingsService {
     const updatedUser = user.changePassword(hashed);
     await this.userRepository.update(updatedUser);
     await this.logActivity(userId, 'UPDATE_PASSWORD', 'Alterou a senha', ipAddress, userAgent);
+    await this.revokeAllSessions(userId, 'password_change');
 
-    return { success: true, message: 'Senha atualizada com sucesso' };
+    return { success: true, message: 'Senha atualizada com sucesso. Faça login novamente.' };
   }
 
   async updatePhone(userId: string, phone: string, ipAddress?: string, userAgent?: string) {
@@ -215,6 +240,14 @@ export class SettingsService {
       }
     }
 
+    if (normalizedUpdates.timezone !== undefined) {
+      normalizedUpdates.timezone = normalizedUpdates.timezone.trim();
+      // O fuso define a virada de dia de metas, limites e resumos; só aceitar identificadores IANA
+      if (resolveTimeZone(normalizedUpdates.timezone) !== normalizedUpdates.timezone) {
+        throw new BadRequestException('Fuso horário inválido');
+      }
+    }
+
     Object.assign(settings, normalizedUpdates);
 
     await this.settingsRepository.save(settings);
@@ -367,6 +400,91 @@ export class SettingsService {
     return { success: true, message: 'Configurações atualizadas com sucesso' };
   }
 
+  /**
+   * Preferências de notificação por evento e canal, mais o webhook do usuário
+   */
+  async getNotificationSettings(userId: string) {
+    const settings = await this.settingsRepository.findOne({ where: { userId } });
+    return {
+      events: NOTIFICATION_EVENT_TYPES.map((type) => ({ type, label: NOTIFICATION_EVENT_LABELS[type] })),
+      channels: NOTIFICATION_CHANNELS,
+      preferences: notificationPreferencesFromRow(settings?.notificationPreferences),
+      webhookUrl: settings?.notificationWebhookUrl || null,
+      webhookSecret: settings?.notificationWebhookSecret || null,
+    };
+  }
+
+  async updateNotificationSettings(
+    userId: string,
+    updates: {
+      preferences?: Record<string, Partial<Record<string, boolean>>>;
+      webhookUrl?: string | null;
+      regenerateWebhookSecret?: boolean;
+    },
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    let settings = await this.settingsRepository.findOne({ where: { userId } });
+    if (!settings) {
+      settings = await this.settingsRepository.save(
+        this.settingsRepository.create({
+          id: uuidv4(),
+          userId,
+          language: 'pt-BR',
+          timezone: 'America/Sao_Paulo',
+          tradeCurrency: 'USD',
+          emailNotifications: true,
+          twoFactorEnabled: false,
+        }),
+      );
+    }
+
+    const changes: string[] = [];
+
+    if (updates.preferences !== undefined) {
+      const current = notificationPreferencesFromRow(settings.notificationPreferences);
+      settings.notificationPreferences = JSON.stringify(
+        normalizeNotificationPreferences(updates.preferences, current),
+      );
+      changes.push('Alterou preferências de notificação');
+    }
+
+    if (updates.webhookUrl !== undefined) {
+      const webhookUrl = (updates.webhookUrl || '').trim();
+      if (webhookUrl) {
+        // HTTPS e apenas hosts públicos (nada de rede interna, loopback ou metadados da nuvem)
+        try {
+          await assertPublicWebhookUrl(webhookUrl);
+        } catch (error) {
+          throw new BadRequestException(error instanceof WebhookUrlError ? error.message : 'URL do webhook inválida');
+        }
+      }
+      settings.notificationWebhookUrl = webhookUrl || null;
+      if (!webhookUrl) {
+        settings.notificationWebhookSecret = null;
+      }
+      changes.push(webhookUrl ? 'Configurou webhook de notificações' : 'Removeu webhook de notificações');
+    }
+
+    if (
+      settings.notificationWebhookUrl &&
+      (!settings.notificationWebhookSecret || updates.regenerateWebhookSecret)
+    ) {
+      settings.notificationWebhookSecret = randomBytes(32).toString('hex');
+      if (updates.regenerateWebhookSecret) {
+        changes.push('Gerou novo segredo do webhook de notificações');
+      }
+    }
+
+    await this.settingsRepository.save(settings);
+
+    if (changes.length > 0) {
+      await this.logActivity(userId, 'UPDATE_NOTIFICATIONS', changes.join(', '), ipAddress, userAgent);
+    }
+
+    return this.getNotificationSettings(userId);
+  }
+
   async getActivityLogs(userId: string, limit: number = 20) {
     const logs = await this.activityLogRepository.find({
       where: { userId },
@@ -382,25 +500,31 @@ export class SettingsService {
     }));
   }
 
-  async getSessions(userId: string) {
+  async getSessions(userId: string, currentSessionId?: string) {
     const sessions = await this.sessionRepository.find({
-      where: { userId },
+      where: { userId, revokedAt: IsNull() },
       order: { lastActivity: 'DESC' },
     });
 
-    return sessions.map(session => ({
-      id: session.id,
-      device: session.device,
-      userAgent: session.userAgent,
-      ipAddress: session.ipAddress,
-      lastActivity: session.lastActivity,
-      createdAt: session.createdAt,
-    }));
+    const now = Date.now();
+    return sessions
+      .filter(session => !session.expiresAt || session.expiresAt.getTime() > now)
+      .map(session => ({
+        id: session.id,
+        device: session.device,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastActivity: session.lastActivity,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+      }));
   }
 
   async getLastLogin(userId: string) {
     const sessions = await this.sessionRepository.find({
       where: { userId },
+      select: ['id', 'userId', 'device', 'userAgent', 'ipAddress', 'lastActivity', 'createdAt'],
       order: { lastActivity: 'DESC' },
       take: 1,
     });
@@ -408,22 +532,49 @@ export class SettingsService {
     return sessions[0] || null;
   }
 
-  async endAllSessions(userId: string, currentToken?: string, ipAddress?: string, userAgent?: string) {
-    // Deletar todas as sessões exceto a atual se o token for fornecido
-    if (currentToken) {
-      const allSessions = await this.sessionRepository.find({ where: { userId } });
-      const sessionsToDelete = allSessions.filter(s => s.token !== currentToken);
-      if (sessionsToDelete.length > 0) {
-        await this.sessionRepository.remove(sessionsToDelete);
-      }
-    } else {
-      await this.sessionRepository.delete({ userId });
-    }
+  async endAllSessions(userId: string, currentSessionId?: string, ipAddress?: string, userAgent?: string) {
+    // Revogar todas as sessões exceto a atual
+    await this.revokeAllSessions(userId, 'end_all_sessions', currentSessionId);
 
     await this.logActivity(userId, 'END_ALL_SESSIONS', 'Encerrou todas as sessões', ipAddress, userAgent);
     return { success: true, message: 'Todas as sessões foram encerradas' };
   }
 
+  /**
+   * Encerra uma sessão específica do usuário (o access token dela para de valer na hora)
+   */
+  async revokeSession(userId: string, sessionId: string, ipAddress?: string, userAgent?: string) {
+    const result = await this.sessionRepository.update(
+      { id: sessionId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: 'user_revoked', refreshTokenHash: null },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Sessão não encontrada');
+    }
+    this.sessionTouchedAt.delete(sessionId);
+
+    await this.logActivity(userId, 'END_SESSION', 'Encerrou uma sessão', ipAddress, userAgent);
+    return { success: true, message: 'Sessão encerrada' };
+  }
+
+  /**
+   * Revoga todas as sessões ativas do usuário (troca/redefinição de senha, encerrar todas)
+   */
+  async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    const result = await this.sessionRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+      },
+      { revokedAt: new Date(), revokedReason: reason, refreshTokenHash: null },
+    );
+    if (result.affected) {
+      this.logger.log(`[Sessions] ${result.affected} sessão(ões) do usuário ${userId} revogada(s): ${reason}`);
+    }
+    return result.affected || 0;
+  }
+
   async logActivity(
     userId: string,
     action: string,
@@ -442,30 +593,124 @@ export class SettingsService {
     await this.activityLogRepository.save(log);
   }
 
+  /**
+   * Abre uma sessão no login. O id da sessão vira o jti do access token e o refresh token
+   * devolvido é o único momento em que o segredo existe em claro.
+   */
   async createSession(
     userId: string,
-    token: string,
     device?: string,
     userAgent?: string,
     ipAddress?: string,
-  ) {
+  ): Promise<{ sessionId: string; refreshToken: string; expiresAt: Date }> {
+    const sessionId = uuidv4();
+    const { token: refreshToken, hash } = generateRefreshToken(sessionId);
+    const expiresAt = this.refreshTokenExpiry();
+
+    await this.pruneSessions(userId);
     const session = this.sessionRepository.create({
-      id: uuidv4(),
+      id: sessionId,
       userId,
-      token,
+      token: null,
+      refreshTokenHash: hash,
       device,
       userAgent,
       ipAddress,
+      expiresAt,
     });
     await this.sessionRepository.save(session);
-    return session;
+    return { sessionId, refreshToken, expiresAt };
   }
 
-  async updateSessionActivity(token: string) {
-    await this.sessionRepository.update(
-      { token },
-      { lastActivity: new Date() },
+  /**
+   * Troca o refresh token por um novo (rotação). Um refresh token já usado revoga a sessão,
+   * pois indica que ele vazou.
+   */
+  async rotateSessionRefreshToken(
+    refreshToken: string,
+  ): Promise<{ userId: string; sessionId: string; refreshToken: string; expiresAt: Date }> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed
+      ? await this.sessionRepository.findOne({ where: { id: parsed.sessionId } })
+      : null;
+    if (!parsed || !session || session.revokedAt || (session.expiresAt && session.expiresAt.getTime() <= Date.now())) {
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+
+    if (!refreshSecretMatches(parsed.secret, session.refreshTokenHash)) {
+      await this.sessionRepository.update(
+        { id: session.id },
+        { revokedAt: new Date(), revokedReason: 'refresh_token_reuse', refreshTokenHash: null },
+      );
+      this.sessionTouchedAt.delete(session.id);
+      this.logger.warn(`[Sessions] 🚫 Refresh token reutilizado na sessão ${session.id} do usuário ${session.userId}. Sessão revogada.`);
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+
+    const { token, hash } = generateRefreshToken(session.id);
+    const expiresAt = this.refreshTokenExpiry();
+    // Condição no hash antigo: duas renovações simultâneas com o mesmo token não passam as duas
+    const result = await this.sessionRepository.update(
+      { id: session.id, refreshTokenHash: session.refreshTokenHash as string },
+      { refreshTokenHash: hash, expiresAt, lastActivity: new Date() },
     );
+    if (!result.affected) {
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+    return { userId: session.userId, sessionId: session.id, refreshToken: token, expiresAt };
+  }
+
+  /**
+   * Usado pelo JwtStrategy em toda requisição: a sessão do token precisa existir, ser do usuário
+   * e não estar revogada nem expirada
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId },
+      select: ['id', 'revokedAt', 'expiresAt'],
+    });
+    if (!session || session.revokedAt) return false;
+    if (session.expiresAt && session.expiresAt.getTime() <= Date.now()) return false;
+
+    await this.updateSessionActivity(sessionId);
+    return true;
+  }
+
+  async updateSessionActivity(sessionId: string) {
+    const now = Date.now();
+    const touchedAt = this.sessionTouchedAt.get(sessionId);
+    if (touchedAt !== undefined && now - touchedAt < SESSION_TOUCH_INTERVAL_MS) return;
+
+    this.sessionTouchedAt.set(sessionId, now);
+    if (this.sessionTouchedAt.size > 10000) {
+      for (const [id, at] of this.sessionTouchedAt) {
+        if (now - at >= SESSION_TOUCH_INTERVAL_MS) this.sessionTouchedAt.delete(id);
+      }
+    }
+
+    try {
+      await this.sessionRepository.update({ id: sessionId }, { lastActivity: new Date(now) });
+    } catch (error) {
+      this.logger.warn(`[Sessions] Erro ao atualizar atividade da sessão ${sessionId}: ${error.message}`);
+    }
+  }
+
+  private refreshTokenExpiry(): Date {
+    const days = parseRefreshTokenTtlDays(this.configService.get<string>('JWT_REFRESH_EXPIRES_DAYS'));
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private async pruneSessions(userId: string) {
+    try {
+      await this.sessionRepository.query(
+        `DELETE FROM user_sessions
+         WHERE user_id = ?
+           AND (revoked_at < NOW() - INTERVAL ? DAY OR expires_at < NOW() - INTERVAL ? DAY)`,
+        [userId, SESSION_RETENTION_DAYS, SESSION_RETENTION_DAYS],
+      );
+    } catch (error) {
+      this.logger.warn(`[Sessions] Erro ao limpar sessões antigas de ${userId}: ${error.message}`);
+    }
   }
 
   async updateDerivToken(
@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { TwoFactorService } from './two-factor.service';
+
+/**
+ * Exige o código do 2FA em operações sensíveis quando o usuário tem a verificação ativa.
+ * O código vem no header `x-2fa-code` ou no campo `twoFactorCode` do body.
+ * Deve rodar depois da autenticação JWT (req.user preenchido).
+ */
+@Injectable()
+export class TwoFactorGuard implements CanActivate {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.userId;
+    if (!userId || !(await this.twoFactorService.isEnabled(userId))) {
+      return true;
+    }
+
+    const code = request.headers['x-2fa-code'] || request.body?.twoFactorCode;
+    if (!code) {
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Informe o código da verificação em duas etapas',
+          error: 'TWO_FACTOR_REQUIRED',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    if (!(await this.twoFactorService.verifyCode(userId, String(code)))) {
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Código da verificação em duas etapas inválido',
+          error: 'TWO_FACTOR_INVALID',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,155 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { UserSettingsEntity } from '../infrastructure/database/entities/user-settings.entity';
+import { generateTotp } from '../utils/totp';
+import { TwoFactorService } from './two-factor.service';
+import { SettingsService } from './settings.service';
+
+// O SettingsService real puxa AiService e os demais módulos de trading
+jest.mock('./settings.service', () => ({ SettingsService: class {} }));
+
+describe('TwoFactorService', () => {
+  const userId = 'user-1';
+  let settings: Partial<UserSettingsEntity>;
+  let throttles: Map<string, Record<string, unknown>>;
+  let service: TwoFactorService;
+
+  beforeEach(() => {
+    settings = {
+      userId,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+    };
+    throttles = new Map();
+
+    const settingsRepository = {
+      findOne: jest.fn(() => Promise.resolve({ ...settings })),
+      update: jest.fn((_where: unknown, data: Partial<UserSettingsEntity>) => {
+        settings = { ...settings, ...data };
+        return Promise.resolve();
+      }),
+    };
+
+    // auth_throttles em memória, com as três consultas de login-throttle.store
+    const query = jest.fn((sql: string, params: unknown[] = []) => {
+      if (sql.includes('SELECT')) {
+        const row = throttles.get(params[0] as string);
+        return Promise.resolve(row ? [row] : []);
+      }
+      if (sql.includes('INSERT')) {
+        const [key, failures, blockedUntil, lockedUntil, lastFailureAt] =
+          params;
+        throttles.set(key as string, {
+          failures,
+          blocked_until: blockedUntil,
+          locked_until: lockedUntil,
+          last_failure_at: lastFailureAt,
+        });
+        return Promise.resolve([]);
+      }
+      for (const key of params[0] as string[]) throttles.delete(key);
+      return Promise.resolve([]);
+    });
+
+    const settingsService = {
+      getSettings: jest.fn(() => Promise.resolve({ email: 'user@zenix.com' })),
+      logActivity: jest.fn(() => Promise.resolve()),
+    };
+
+    service = new TwoFactorService(
+      settingsRepository as unknown as Repository<UserSettingsEntity>,
+      { query } as unknown as DataSource,
+      settingsService as unknown as SettingsService,
+    );
+  });
+
+  const enable = async () => {
+    const { data } = await service.setup(userId);
+    const { data: enabled } = await service.enable(
+      userId,
+      generateTotp(data.secret),
+    );
+    return { secret: data.secret, recoveryCodes: enabled.recoveryCodes };
+  };
+
+  it('consome cada código de recuperação uma única vez', async () => {
+    const { recoveryCodes } = await enable();
+    expect(recoveryCodes).toHaveLength(10);
+    expect(settings.twoFactorRecoveryCodes).not.toContain(recoveryCodes[0]);
+
+    // Aceita minúsculas e sem o hífen
+    const typed = recoveryCodes[0].toLowerCase().replace('-', '');
+    await expect(service.verifyCode(userId, typed)).resolves.toBe(true);
+    await expect(service.verifyCode(userId, recoveryCodes[0])).resolves.toBe(
+      false,
+    );
+    expect(JSON.parse(settings.twoFactorRecoveryCodes!)).toHaveLength(9);
+
+    await expect(service.verifyCode(userId, recoveryCodes[1])).resolves.toBe(
+      true,
+    );
+    expect(JSON.parse(settings.twoFactorRecoveryCodes!)).toHaveLength(8);
+  });
+
+  it('aceita código de recuperação mesmo sem o segredo decifrado', async () => {
+    const { recoveryCodes } = await enable();
+    settings.twoFactorSecret = null;
+
+    await expect(service.isEnabled(userId)).resolves.toBe(true);
+    await expect(service.verifyCode(userId, '123456')).resolves.toBe(false);
+    await expect(service.verifyCode(userId, recoveryCodes[2])).resolves.toBe(
+      true,
+    );
+  });
+
+  it('não aceita o mesmo código TOTP duas vezes', async () => {
+    const { secret } = await enable();
+    const step = Number(settings.twoFactorLastStep);
+
+    await expect(
+      service.verifyCode(userId, generateTotp(secret, step)),
+    ).resolves.toBe(false);
+    await expect(
+      service.verifyCode(userId, generateTotp(secret, step + 1)),
+    ).resolves.toBe(true);
+    expect(settings.twoFactorLastStep).toBe(String(step + 1));
+  });
+
+  it('bloqueia após 5 códigos inválidos seguidos, inclusive para códigos válidos', async () => {
+    const { recoveryCodes } = await enable();
+
+    for (let i = 0; i < 5; i++) {
+      await expect(service.verifyCode(userId, '000000')).resolves.toBe(false);
+    }
+
+    const locked = service.verifyCode(userId, recoveryCodes[0]);
+    await expect(locked).rejects.toBeInstanceOf(HttpException);
+    await expect(locked).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+
+    // O código de recuperação não foi consumido durante o bloqueio
+    expect(JSON.parse(settings.twoFactorRecoveryCodes!)).toHaveLength(10);
+  });
+
+  it('zera as falhas após um código válido', async () => {
+    const { recoveryCodes } = await enable();
+
+    for (let i = 0; i < 4; i++) {
+      await service.verifyCode(userId, '000000');
+    }
+    await expect(service.verifyCode(userId, recoveryCodes[0])).resolves.toBe(
+      true,
+    );
+    expect(throttles.size).toBe(0);
+
+    for (let i = 0; i < 4; i++) {
+      await service.verifyCode(userId, '000000');
+    }
+    await expect(service.verifyCode(userId, recoveryCodes[1])).resolves.toBe(
+      true,
+    );
+  });
+});
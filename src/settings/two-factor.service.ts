@@ -0,0 +1,372 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { UserSettingsEntity } from '../infrastructure/database/entities/user-settings.entity';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../utils/totp';
+import { SettingsService } from './settings.service';
+import {
+  THROTTLE_POLICIES,
+  nextFailureState,
+  throttleKey,
+  throttleRetryAfter,
+} from '../auth/login-throttle';
+import {
+  clearThrottleKeys,
+  loadThrottleState,
+  saveThrottleState,
+} from '../auth/login-throttle.store';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Zenix';
+const RECOVERY_CODE_COUNT = 10;
+const FAILURE_POLICY = THROTTLE_POLICIES.two_factor.account!;
+
+/**
+ * Verificação em duas etapas (TOTP, RFC 6238).
+ *
+ * Fluxo: setup grava um segredo pendente e devolve a URI otpauth; enable confirma o
+ * primeiro código, ativa o 2FA e devolve os códigos de recuperação (exibidos uma única vez).
+ * Cada código de recuperação só pode ser usado uma vez e o mesmo código TOTP não é aceito duas vezes.
+ * O segredo fica cifrado em repouso (transformer da entidade) e as falhas seguidas ficam em
+ * auth_throttles, valendo para todas as instâncias e sobrevivendo a reinícios.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectRepository(UserSettingsEntity)
+    private readonly settingsRepository: Repository<UserSettingsEntity>,
+    @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly settingsService: SettingsService,
+  ) {}
+
+  /**
+   * Só o flag conta: se o segredo não puder ser decifrado o 2FA continua exigido (falha fechada)
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+    });
+    return !!settings?.twoFactorEnabled;
+  }
+
+  async setup(userId: string, ipAddress?: string, userAgent?: string) {
+    const { email } = await this.settingsService.getSettings(userId);
+    const settings = await this.loadSettings(userId);
+    if (settings.twoFactorEnabled) {
+      throw new BadRequestException(
+        'A verificação em duas etapas já está ativa. Desative-a antes de configurar novamente.',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.settingsRepository.update(
+      { userId },
+      {
+        twoFactorSecret: secret,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastStep: null,
+      },
+    );
+    await this.settingsService.logActivity(
+      userId,
+      'SETUP_2FA',
+      'Iniciou a configuração da verificação em duas etapas',
+      ipAddress,
+      userAgent,
+    );
+
+    return {
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, email, TOTP_ISSUER),
+      },
+    };
+  }
+
+  async enable(
+    userId: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const settings = await this.loadSettings(userId);
+    if (settings.twoFactorEnabled) {
+      throw new BadRequestException(
+        'A verificação em duas etapas já está ativa',
+      );
+    }
+    if (!settings.twoFactorSecret) {
+      throw new BadRequestException(
+        'Configuração da verificação em duas etapas não iniciada',
+      );
+    }
+
+    await this.assertNotLocked(userId);
+    const step = verifyTotp(settings.twoFactorSecret, code);
+    if (step === null) {
+      await this.registerFailure(userId);
+      throw new BadRequestException('Código de verificação inválido');
+    }
+    await this.clearFailures(userId);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.settingsRepository.update(
+      { userId },
+      {
+        twoFactorEnabled: true,
+        twoFactorLastStep: String(step),
+        twoFactorRecoveryCodes: JSON.stringify(
+          recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+        ),
+      },
+    );
+    await this.settingsService.logActivity(
+      userId,
+      'ENABLE_2FA',
+      'Ativou a verificação em duas etapas',
+      ipAddress,
+      userAgent,
+    );
+    this.logger.log(`[TwoFactor] ✅ 2FA ativado para usuário ${userId}`);
+
+    return {
+      success: true,
+      message: 'Verificação em duas etapas ativada com sucesso',
+      data: { recoveryCodes },
+    };
+  }
+
+  async disable(
+    userId: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException(
+        'A verificação em duas etapas não está ativa',
+      );
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    await this.settingsRepository.update(
+      { userId },
+      {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastStep: null,
+      },
+    );
+    await this.settingsService.logActivity(
+      userId,
+      'DISABLE_2FA',
+      'Desativou a verificação em duas etapas',
+      ipAddress,
+      userAgent,
+    );
+    this.logger.log(`[TwoFactor] ⚠️ 2FA desativado para usuário ${userId}`);
+
+    return {
+      success: true,
+      message: 'Verificação em duas etapas desativada',
+    };
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException(
+        'A verificação em duas etapas não está ativa',
+      );
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Código de verificação inválido');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.settingsRepository.update(
+      { userId },
+      {
+        twoFactorRecoveryCodes: JSON.stringify(
+          recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+        ),
+      },
+    );
+    await this.settingsService.logActivity(
+      userId,
+      'REGENERATE_2FA_RECOVERY_CODES',
+      'Gerou novos códigos de recuperação da verificação em duas etapas',
+      ipAddress,
+      userAgent,
+    );
+
+    return { success: true, data: { recoveryCodes } };
+  }
+
+  /**
+   * Aceita um código TOTP ou um código de recuperação (que é consumido).
+   * Falhas seguidas bloqueiam o usuário conforme THROTTLE_POLICIES.two_factor.
+   */
+  async verifyCode(userId: string, code: string | undefined): Promise<boolean> {
+    await this.assertNotLocked(userId);
+
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+    });
+    if (!settings?.twoFactorEnabled || !code) {
+      return false;
+    }
+
+    // Sem o segredo (chave indisponível) ainda dá para entrar com um código de recuperação
+    const valid =
+      (!!settings.twoFactorSecret &&
+        (await this.consumeTotp(settings, code))) ||
+      (await this.consumeRecoveryCode(settings, code));
+    if (!valid) {
+      await this.registerFailure(userId);
+      return false;
+    }
+    await this.clearFailures(userId);
+    return true;
+  }
+
+  private async consumeTotp(
+    settings: UserSettingsEntity,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotp(settings.twoFactorSecret!, code);
+    if (step === null) return false;
+
+    const lastStep = Number(settings.twoFactorLastStep ?? -1);
+    if (step <= lastStep) {
+      this.logger.warn(
+        `[TwoFactor] ⚠️ Código TOTP reutilizado pelo usuário ${settings.userId}`,
+      );
+      return false;
+    }
+
+    await this.settingsRepository.update(
+      { userId: settings.userId },
+      { twoFactorLastStep: String(step) },
+    );
+    return true;
+  }
+
+  private async consumeRecoveryCode(
+    settings: UserSettingsEntity,
+    code: string,
+  ): Promise<boolean> {
+    const hashes = this.parseRecoveryCodes(settings.twoFactorRecoveryCodes);
+    const candidate = Buffer.from(this.hashRecoveryCode(code), 'hex');
+    const index = hashes.findIndex((hash) =>
+      timingSafeEqual(Buffer.from(hash, 'hex'), candidate),
+    );
+    if (index === -1) return false;
+
+    hashes.splice(index, 1);
+    await this.settingsRepository.update(
+      { userId: settings.userId },
+      { twoFactorRecoveryCodes: JSON.stringify(hashes) },
+    );
+    this.logger.log(
+      `[TwoFactor] Código de recuperação usado pelo usuário ${settings.userId} (${hashes.length} restantes)`,
+    );
+    return true;
+  }
+
+  private async loadSettings(userId: string): Promise<UserSettingsEntity> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+    });
+    if (!settings) {
+      throw new BadRequestException('Configurações do usuário não encontradas');
+    }
+    return settings;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(5));
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private parseRecoveryCodes(value: string | null | undefined): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed)
+        ? parsed.filter((h) => typeof h === 'string' && h.length === 64)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private failureKey(userId: string): string {
+    return throttleKey('two_factor', 'account', userId);
+  }
+
+  private async assertNotLocked(userId: string) {
+    const state = await loadThrottleState(
+      this.dataSource,
+      this.failureKey(userId),
+    );
+    if (throttleRetryAfter(state, new Date()).retryAfterMs > 0) {
+      throw new HttpException(
+        {
+          success: false,
+          message:
+            'Muitas tentativas de verificação. Aguarde alguns minutos e tente novamente.',
+          error: 'TWO_FACTOR_LOCKED',
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async registerFailure(userId: string) {
+    const key = this.failureKey(userId);
+    const state = nextFailureState(
+      await loadThrottleState(this.dataSource, key),
+      FAILURE_POLICY,
+      new Date(),
+    );
+    await saveThrottleState(this.dataSource, key, state);
+    if (state.lockedOut) {
+      this.logger.warn(
+        `[TwoFactor] ⚠️ Usuário ${userId} bloqueado por excesso de códigos inválidos`,
+      );
+    }
+  }
+
+  private async clearFailures(userId: string) {
+    await clearThrottleKeys(this.dataSource, [this.failureKey(userId)]);
+  }
+}
@@ -0,0 +1,13 @@
+import { DiscoveryService } from '@nestjs/core';
+import { StrategyMetadata } from './strategy-registry.types';
+
+/**
+ * Registra um provider como estratégia descoberta no boot pelo StrategyRegistryService.
+ *
+ * @example
+ * @RegisterStrategy({ kind: 'ai', name: 'titan', symbols: ['R_75'], contractTypes: ['DIGITEVEN'], configSchema: {} })
+ * @Injectable()
+ * export class TitanStrategy implements IStrategy { ... }
+ */
+export const RegisterStrategy =
+  DiscoveryService.createDecorator<StrategyMetadata>();
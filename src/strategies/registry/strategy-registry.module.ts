@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { StrategyRegistryService } from './strategy-registry.service';
+
+@Global()
+@Module({
+  imports: [DiscoveryModule],
+  providers: [StrategyRegistryService],
+  exports: [StrategyRegistryService],
+})
+export class StrategyRegistryModule {}
@@ -0,0 +1,114 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { RegisterStrategy } from './register-strategy.decorator';
+import {
+  RegisteredStrategy,
+  StrategyKind,
+  StrategyMetadata,
+} from './strategy-registry.types';
+
+/**
+ * Registro central de estratégias
+ *
+ * Descobre (uma vez, sob demanda) todos os providers anotados com @RegisterStrategy e indexa
+ * por tipo (IA / Agente Autônomo), nome e símbolo. Os StrategyManagers usam o índice por símbolo
+ * para rotear cada tick apenas às estratégias inscritas nele.
+ */
+@Injectable()
+export class StrategyRegistryService {
+  private readonly logger = new Logger(StrategyRegistryService.name);
+  private registry: Map<StrategyKind, Map<string, RegisteredStrategy>> | null =
+    null;
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  /**
+   * Estratégias registradas de um tipo (na ordem de declaração dos providers)
+   */
+  getStrategies<T = any>(kind: StrategyKind): RegisteredStrategy<T>[] {
+    return Array.from(this.getKindRegistry(kind).values());
+  }
+
+  getStrategy<T = any>(
+    kind: StrategyKind,
+    name: string,
+  ): RegisteredStrategy<T> | null {
+    return this.getKindRegistry(kind).get(name.toLowerCase()) || null;
+  }
+
+  hasStrategy(kind: StrategyKind, name: string): boolean {
+    return this.getKindRegistry(kind).has(name.toLowerCase());
+  }
+
+  getStrategyNames(kind: StrategyKind): string[] {
+    return Array.from(this.getKindRegistry(kind).keys());
+  }
+
+  getMetadata(kind: StrategyKind): StrategyMetadata[] {
+    return this.getStrategies(kind).map((strategy) => strategy.metadata);
+  }
+
+  /**
+   * Índice símbolo -> estratégias inscritas
+   */
+  buildSymbolIndex<T = any>(
+    kind: StrategyKind,
+  ): Map<string, RegisteredStrategy<T>[]> {
+    const index = new Map<string, RegisteredStrategy<T>[]>();
+    for (const strategy of this.getStrategies<T>(kind)) {
+      for (const symbol of strategy.metadata.symbols) {
+        const subscribers = index.get(symbol) || [];
+        subscribers.push(strategy);
+        index.set(symbol, subscribers);
+      }
+    }
+    return index;
+  }
+
+  private getKindRegistry(kind: StrategyKind): Map<string, RegisteredStrategy> {
+    if (!this.registry) {
+      this.registry = this.discover();
+    }
+    return this.registry.get(kind) || new Map();
+  }
+
+  private discover(): Map<StrategyKind, Map<string, RegisteredStrategy>> {
+    const registry = new Map<StrategyKind, Map<string, RegisteredStrategy>>();
+
+    for (const wrapper of this.discoveryService.getProviders({
+      metadataKey: RegisterStrategy.KEY,
+    })) {
+      const metadata = this.discoveryService.getMetadataByDecorator(
+        RegisterStrategy,
+        wrapper,
+      );
+      if (!metadata || !wrapper.instance) continue;
+
+      const name = metadata.name.toLowerCase();
+      const kindRegistry =
+        registry.get(metadata.kind) || new Map<string, RegisteredStrategy>();
+
+      if (kindRegistry.has(name)) {
+        this.logger.warn(
+          `[StrategyRegistry] ⚠️ Estratégia '${name}' (${metadata.kind}) registrada mais de uma vez, ignorando ${wrapper.name}`,
+        );
+        continue;
+      }
+
+      kindRegistry.set(name, {
+        metadata: { ...metadata, name },
+        instance: wrapper.instance,
+        strategyClass: wrapper.metatype as RegisteredStrategy['strategyClass'],
+      });
+      registry.set(metadata.kind, kindRegistry);
+    }
+
+    for (const [kind, strategies] of registry.entries()) {
+      this.logger.log(
+        `[StrategyRegistry] ✅ ${kind}: ${Array.from(strategies.keys()).join(', ')}`,
+      );
+    }
+
+    return registry;
+  }
+}
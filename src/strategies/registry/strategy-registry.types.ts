@@ -0,0 +1,31 @@
+/**
+ * Tipos do registro de estratégias (IA e Agente Autônomo)
+ */
+export type StrategyKind = 'ai' | 'autonomous-agent';
+
+export interface StrategyConfigField {
+  type: 'number' | 'string' | 'boolean';
+  required?: boolean;
+  enum?: string[];
+  min?: number;
+  max?: number;
+  default?: number | string | boolean;
+  description?: string;
+}
+
+export type StrategyConfigSchema = Record<string, StrategyConfigField>;
+
+export interface StrategyMetadata {
+  kind: StrategyKind;
+  name: string; // Identificador usado na ativação (ai_user_config.strategy / autonomous_agent_config.agent_type)
+  symbols: string[]; // Símbolos assinados: ticks de outros símbolos não são roteados (o primeiro é o padrão)
+  contractTypes: string[];
+  configSchema: StrategyConfigSchema;
+  planFeatureFlag?: string; // Flag legada em plan.features que libera a estratégia (ex: 'orion_ai')
+}
+
+export interface RegisteredStrategy<T = any> {
+  metadata: StrategyMetadata;
+  instance: T;
+  strategyClass: new (...args: any[]) => T;
+}
@@ -1,9 +1,11 @@
 import { Controller, Put, Get, Param, Body, UseGuards } from '@nestjs/common';
-import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../auth/roles';
 import { StrategiesService } from './strategies.service';
 
 @Controller('strategies')
-@UseGuards(JwtAuthGuard)
+@UseGuards(RolesGuard)
 export class StrategiesController {
     constructor(private readonly strategiesService: StrategiesService) { }
 
@@ -17,6 +19,7 @@ export class StrategiesController {
     }
 
     @Put(':strategyName')
+    @Roles(Role.ADMIN)
     async updateStrategy(
         @Param('strategyName') strategyName: string,
         @Body() strategyData: any,
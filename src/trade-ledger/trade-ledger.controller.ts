@@ -0,0 +1,27 @@
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { RolesGuard } from '../auth/roles.guard';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { TradeLedgerService } from './trade-ledger.service';
+
+@Controller('trade-ledger/admin')
+@UseGuards(RolesGuard)
+@RequirePermissions(Permission.SYSTEM_MANAGE)
+export class TradeLedgerController {
+  constructor(private readonly tradeLedgerService: TradeLedgerService) {}
+
+  /**
+   * Recopia o histórico das tabelas legadas (idempotente)
+   */
+  @Post('backfill')
+  @HttpCode(HttpStatus.OK)
+  async backfill() {
+    return await this.tradeLedgerService.backfill();
+  }
+}
@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { TradeLedgerService } from './trade-ledger.service';
+import { TradeLedgerController } from './trade-ledger.controller';
+
+/**
+ * Global para que IA, agente, copy trading e operações manuais gravem no livro sem importar módulos
+ */
+@Global()
+@Module({
+  controllers: [TradeLedgerController],
+  providers: [TradeLedgerService],
+  exports: [TradeLedgerService],
+})
+export class TradeLedgerModule {}
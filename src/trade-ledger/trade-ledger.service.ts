@@ -0,0 +1,258 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  TRADE_LEDGER_SOURCES,
+  TradeLedgerContext,
+  TradeLedgerSource,
+  TradeLedgerStats,
+  TradeLedgerStatsRow,
+  aggregateLedgerStats,
+} from './trade-ledger';
+
+const BACKFILL_BATCH_SIZE = 500;
+const BACKFILL_CONFIG_KEY = 'trade_ledger_backfill';
+
+/**
+ * Como cada tabela legada vira uma linha do livro. As duas primeiras colunas com `?` recebem
+ * o tipo de conta e a moeda informados pelo produto (quando a tabela não guarda essa informação).
+ * `filter` exclui linhas que não são operações.
+ */
+const LEDGER_SOURCE_SQL: Record<
+  TradeLedgerSource,
+  { table: string; select: string; filter?: string }
+> = {
+  ai: {
+    table: 'ai_trades',
+    select: `
+      CAST(t.id AS CHAR) AS source_trade_id,
+      CAST(t.user_id AS CHAR) AS user_id,
+      LOWER(t.strategy) AS strategy,
+      t.symbol,
+      t.contract_type,
+      t.stake_amount AS stake,
+      t.profit_loss AS profit,
+      CASE UPPER(t.status) WHEN 'WON' THEN 'won' WHEN 'LOST' THEN 'lost' WHEN 'ERROR' THEN 'error' ELSE 'pending' END AS status,
+      ? AS account_type,
+      ? AS currency,
+      t.contract_id,
+      COALESCE(t.created_at, NOW()) AS opened_at,
+      t.closed_at AS settled_at`,
+  },
+  agent: {
+    table: 'autonomous_agent_trades',
+    select: `
+      CAST(t.id AS CHAR) AS source_trade_id,
+      t.user_id,
+      LOWER(t.strategy) AS strategy,
+      t.symbol,
+      t.contract_type,
+      t.stake_amount AS stake,
+      t.profit_loss AS profit,
+      CASE UPPER(t.status) WHEN 'WON' THEN 'won' WHEN 'LOST' THEN 'lost' WHEN 'ERROR' THEN 'error' ELSE 'pending' END AS status,
+      COALESCE(?, t.deriv_account_type) AS account_type,
+      ? AS currency,
+      t.contract_id,
+      COALESCE(t.created_at, NOW()) AS opened_at,
+      t.closed_at AS settled_at`,
+  },
+  copy: {
+    table: 'copy_trading_operations',
+    // Sinais não replicados (saldo, limites da sessão) ficam como 'skipped'
+    filter: "t.result <> 'skipped'",
+    select: `
+      CAST(t.id AS CHAR) AS source_trade_id,
+      t.user_id,
+      NULL AS strategy,
+      t.symbol,
+      t.operation_type AS contract_type,
+      t.stake_amount AS stake,
+      CASE WHEN t.result IN ('win', 'loss') THEN t.profit END AS profit,
+      CASE t.result WHEN 'win' THEN 'won' WHEN 'loss' THEN 'lost' ELSE 'pending' END AS status,
+      ? AS account_type,
+      ? AS currency,
+      t.contract_id,
+      COALESCE(t.executed_at, NOW()) AS opened_at,
+      t.closed_at AS settled_at`,
+  },
+  manual: {
+    table: 'trades',
+    select: `
+      t.id AS source_trade_id,
+      t.user_id,
+      NULL AS strategy,
+      t.symbol,
+      t.contract_type,
+      t.entry_value AS stake,
+      t.profit,
+      CASE t.status WHEN 'won' THEN 'won' WHEN 'lost' THEN 'lost' ELSE 'pending' END AS status,
+      COALESCE(?, CASE WHEN t.deriv_currency = 'DEMO' THEN 'demo' WHEN t.deriv_currency IS NOT NULL THEN 'real' END) AS account_type,
+      COALESCE(?, CASE WHEN t.deriv_currency = 'DEMO' THEN 'USD' ELSE t.deriv_currency END) AS currency,
+      t.deriv_transaction_id AS contract_id,
+      t.created_at AS opened_at,
+      CASE WHEN t.status IN ('won', 'lost') THEN t.updated_at END AS settled_at`,
+  },
+};
+
+/**
+ * Livro único de operações (trade_ledger). Cada produto chama sync() depois de gravar ou
+ * liquidar a operação na própria tabela; a linha é relida da tabela de origem, então a ordem
+ * das chamadas não importa e repetir a sincronização é seguro.
+ */
+@Injectable()
+export class TradeLedgerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(TradeLedgerService.name);
+
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  onApplicationBootstrap() {
+    // Copia o histórico das tabelas legadas uma única vez, sem atrasar a inicialização
+    setImmediate(() => {
+      this.backfillOnce().catch((error) =>
+        this.logger.error(
+          `[TradeLedger] ❌ Erro ao copiar histórico: ${error.message}`,
+        ),
+      );
+    });
+  }
+
+  /**
+   * Sincroniza em segundo plano: uma falha aqui nunca interrompe a operação do produto
+   */
+  sync(
+    source: TradeLedgerSource,
+    sourceTradeIds: number | string | null | undefined | (number | string)[],
+    context: TradeLedgerContext = {},
+  ): void {
+    this.syncNow(source, sourceTradeIds, context).catch((error) =>
+      this.logger.warn(
+        `[TradeLedger] ⚠️ Erro ao sincronizar ${source} ${String(sourceTradeIds)}: ${error.message}`,
+      ),
+    );
+  }
+
+  async syncNow(
+    source: TradeLedgerSource,
+    sourceTradeIds: number | string | null | undefined | (number | string)[],
+    context: TradeLedgerContext = {},
+  ): Promise<void> {
+    const ids = (
+      Array.isArray(sourceTradeIds) ? sourceTradeIds : [sourceTradeIds]
+    ).filter((id) => id !== null && id !== undefined && id !== '');
+    if (ids.length === 0) return;
+
+    const { table, select, filter } = LEDGER_SOURCE_SQL[source];
+    await this.dataSource.query(
+      `INSERT INTO trade_ledger
+         (source, source_trade_id, user_id, strategy, symbol, contract_type, stake, payout, profit,
+          status, account_type, currency, contract_id, opened_at, settled_at)
+       SELECT ?, n.source_trade_id, n.user_id, n.strategy, n.symbol, n.contract_type, n.stake,
+         CASE n.status WHEN 'won' THEN COALESCE(n.stake, 0) + COALESCE(n.profit, 0) WHEN 'lost' THEN 0 END,
+         n.profit, n.status, n.account_type, n.currency, n.contract_id, n.opened_at, n.settled_at
+       FROM (SELECT ${select} FROM ${table} t WHERE t.id IN (?)${filter ? ` AND ${filter}` : ''}) n
+       ON DUPLICATE KEY UPDATE
+         user_id = VALUES(user_id),
+         strategy = VALUES(strategy),
+         symbol = VALUES(symbol),
+         contract_type = VALUES(contract_type),
+         stake = VALUES(stake),
+         payout = VALUES(payout),
+         profit = VALUES(profit),
+         status = VALUES(status),
+         account_type = COALESCE(VALUES(account_type), account_type),
+         currency = COALESCE(VALUES(currency), currency),
+         contract_id = COALESCE(VALUES(contract_id), contract_id),
+         opened_at = VALUES(opened_at),
+         settled_at = VALUES(settled_at)`,
+      [source, context.accountType ?? null, context.currency ?? null, ids],
+    );
+  }
+
+  /**
+   * Copia (ou recopia) todas as linhas das tabelas legadas, em lotes
+   */
+  async backfill(): Promise<Record<TradeLedgerSource, number>> {
+    const counts = {} as Record<TradeLedgerSource, number>;
+
+    for (const source of TRADE_LEDGER_SOURCES) {
+      const { table } = LEDGER_SOURCE_SQL[source];
+      // trades usa UUID; as demais, id numérico
+      let cursor: number | string = source === 'manual' ? '' : 0;
+      counts[source] = 0;
+
+      for (;;) {
+        const rows: { id: number | string }[] = await this.dataSource.query(
+          `SELECT id FROM ${table} WHERE id > ? ORDER BY id LIMIT ?`,
+          [cursor, BACKFILL_BATCH_SIZE],
+        );
+        if (rows.length === 0) break;
+
+        const ids = rows.map((row) => row.id);
+        await this.syncNow(source, ids);
+        counts[source] += ids.length;
+        cursor = ids[ids.length - 1];
+
+        if (rows.length < BACKFILL_BATCH_SIZE) break;
+      }
+
+      this.logger.log(
+        `[TradeLedger] ✅ ${counts[source]} operações de ${table} copiadas`,
+      );
+    }
+
+    await this.dataSource.query(
+      `INSERT INTO app_configs (\`key\`, value, description)
+       VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE value = VALUES(value)`,
+      [
+        BACKFILL_CONFIG_KEY,
+        JSON.stringify({ completedAt: new Date().toISOString(), counts }),
+        'Cópia do histórico das tabelas legadas para trade_ledger',
+      ],
+    );
+
+    return counts;
+  }
+
+  /**
+   * Estatísticas das operações abertas no período, por origem
+   */
+  async getStats(
+    userId: string,
+    period: { from: Date; to?: Date; sources?: TradeLedgerSource[] },
+  ): Promise<TradeLedgerStats> {
+    const conditions = ['user_id = ?', 'opened_at >= ?'];
+    const params: any[] = [userId, period.from];
+    if (period.to) {
+      conditions.push('opened_at <= ?');
+      params.push(period.to);
+    }
+    if (period.sources?.length) {
+      conditions.push('source IN (?)');
+      params.push(period.sources);
+    }
+
+    const rows: TradeLedgerStatsRow[] = await this.dataSource.query(
+      `SELECT source, status, COUNT(*) AS trades, SUM(profit) AS profit
+       FROM trade_ledger
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY source, status`,
+      params,
+    );
+
+    return aggregateLedgerStats(rows);
+  }
+
+  private async backfillOnce(): Promise<void> {
+    const done = await this.dataSource.query(
+      'SELECT 1 FROM app_configs WHERE `key` = ? LIMIT 1',
+      [BACKFILL_CONFIG_KEY],
+    );
+    if (done.length > 0) return;
+
+    this.logger.log(
+      '[TradeLedger] 🔄 Copiando histórico das tabelas legadas...',
+    );
+    await this.backfill();
+  }
+}
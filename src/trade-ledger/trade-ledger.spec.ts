@@ -0,0 +1,49 @@
+import {
+  aggregateLedgerStats,
+  ledgerContextFromCurrency,
+} from './trade-ledger';
+
+describe('trade-ledger', () => {
+  it('deriva o tipo de conta da moeda da config', () => {
+    expect(ledgerContextFromCurrency('DEMO')).toEqual({
+      accountType: 'demo',
+      currency: 'USD',
+    });
+    expect(ledgerContextFromCurrency('usd')).toEqual({
+      accountType: 'real',
+      currency: 'USD',
+    });
+    expect(ledgerContextFromCurrency(null)).toEqual({});
+  });
+
+  it('agrega por origem ignorando erros e origens desconhecidas', () => {
+    const stats = aggregateLedgerStats([
+      { source: 'ai', status: 'won', trades: '3', profit: '2.85' },
+      { source: 'ai', status: 'lost', trades: 2, profit: -2 },
+      { source: 'ai', status: 'error', trades: 5, profit: null },
+      { source: 'copy', status: 'pending', trades: 1, profit: null },
+      { source: 'manual', status: 'won', trades: 1, profit: '0.9' },
+      { source: 'legacy', status: 'won', trades: 9, profit: 100 },
+    ]);
+
+    expect(stats).toMatchObject({
+      trades: 7,
+      wins: 4,
+      losses: 2,
+      profit: 1.75,
+    });
+    expect(stats.bySource.ai).toEqual({
+      trades: 5,
+      wins: 3,
+      losses: 2,
+      profit: 0.85,
+    });
+    expect(stats.bySource.copy.trades).toBe(1);
+    expect(stats.bySource.agent).toEqual({
+      trades: 0,
+      wins: 0,
+      losses: 0,
+      profit: 0,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Produto que originou a operação (e tabela legada de onde ela vem)
+ */
+export const TRADE_LEDGER_SOURCES = ['ai', 'agent', 'copy', 'manual'] as const;
+export type TradeLedgerSource = (typeof TRADE_LEDGER_SOURCES)[number];
+
+export type TradeLedgerStatus = 'pending' | 'won' | 'lost' | 'error';
+export type TradeAccountType = 'real' | 'demo';
+
+/**
+ * Dados que as tabelas legadas não guardam e o produto conhece na hora da compra
+ */
+export interface TradeLedgerContext {
+  accountType?: TradeAccountType | null;
+  currency?: string | null;
+}
+
+/**
+ * As configs usam 'DEMO' como moeda quando a conta é virtual (que na Deriv opera em USD)
+ */
+export function ledgerContextFromCurrency(
+  currency: string | null | undefined,
+): TradeLedgerContext {
+  if (!currency) return {};
+  const normalized = currency.toUpperCase();
+  return normalized === 'DEMO'
+    ? { accountType: 'demo', currency: 'USD' }
+    : { accountType: 'real', currency: normalized };
+}
+
+export interface TradeLedgerStatsRow {
+  source: string;
+  status: string;
+  trades: number | string;
+  profit: number | string | null;
+}
+
+export interface TradeLedgerSourceStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  profit: number;
+}
+
+export interface TradeLedgerStats extends TradeLedgerSourceStats {
+  bySource: Record<TradeLedgerSource, TradeLedgerSourceStats>;
+}
+
+/**
+ * Soma as linhas agrupadas por origem e status. Operações com erro (compra recusada) não contam.
+ */
+export function aggregateLedgerStats(
+  rows: TradeLedgerStatsRow[],
+): TradeLedgerStats {
+  const empty = (): TradeLedgerSourceStats => ({
+    trades: 0,
+    wins: 0,
+    losses: 0,
+    profit: 0,
+  });
+  const bySource = {} as Record<TradeLedgerSource, TradeLedgerSourceStats>;
+  for (const source of TRADE_LEDGER_SOURCES) {
+    bySource[source] = empty();
+  }
+  const total = empty();
+
+  for (const row of rows) {
+    if (row.status === 'error') continue;
+    const source = bySource[row.source as TradeLedgerSource];
+    if (!source) continue;
+
+    const trades = Number(row.trades) || 0;
+    const profit = Number(row.profit) || 0;
+    for (const stats of [source, total]) {
+      stats.trades += trades;
+      stats.profit += profit;
+      if (row.status === 'won') stats.wins += trades;
+      if (row.status === 'lost') stats.losses += trades;
+    }
+  }
+
+  const round = (stats: TradeLedgerSourceStats) => {
+    stats.profit = Number(stats.profit.toFixed(2));
+  };
+  round(total);
+  Object.values(bySource).forEach(round);
+
+  return { ...total, bySource };
+}
@@ -0,0 +1,173 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  BROKER_GATEWAY,
+  type IBrokerGateway,
+} from '../../broker/broker-gateway.types';
+import {
+  ContractPurchase,
+  ContractPurchaseRequest,
+  ContractSettlement,
+  TradeSettlementSource,
+} from './trade-settlement.types';
+
+/**
+ * Liquidação real via Deriv: proposal -> buy -> proposal_open_contract até is_sold.
+ */
+@Injectable()
+export class DerivTradeSettlementSource implements TradeSettlementSource {
+  private readonly logger = new Logger(DerivTradeSettlementSource.name);
+  private readonly DEFAULT_SETTLEMENT_TIMEOUT_MS = 10 * 60 * 1000;
+
+  constructor(
+    @Inject(BROKER_GATEWAY) private readonly brokerGateway: IBrokerGateway,
+  ) {}
+
+  async buyContract(
+    request: ContractPurchaseRequest,
+  ): Promise<ContractPurchase> {
+    const proposalPayload: any = {
+      proposal: 1,
+      amount: request.amount,
+      basis: 'stake',
+      contract_type: request.contractType,
+      currency: request.currency,
+      duration: request.duration,
+      duration_unit: request.durationUnit,
+      symbol: request.symbol,
+    };
+    if (request.barrier !== undefined && request.barrier !== null) {
+      proposalPayload.barrier = String(request.barrier);
+    }
+
+    const connection = await this.brokerGateway.getConnection(request.token);
+    const proposalResponse = await connection.sendRequest(proposalPayload);
+    if (proposalResponse.error) {
+      throw new Error(proposalResponse.error.message);
+    }
+    const proposal = proposalResponse.proposal;
+    if (!proposal?.id) {
+      throw new Error('Proposta inválida retornada pela Deriv');
+    }
+
+    const buyResponse = await connection.sendRequest({
+      buy: proposal.id,
+      price: Number(proposal.ask_price ?? request.amount),
+    });
+    if (buyResponse.error) {
+      throw new Error(buyResponse.error.message);
+    }
+    const buy = buyResponse.buy;
+    if (!buy?.contract_id) {
+      throw new Error('Compra sem contract_id retornada pela Deriv');
+    }
+
+    this.logger.log(
+      `[DerivSettlement] ✅ Contrato ${buy.contract_id} comprado (${request.contractType} ${request.symbol} $${buy.buy_price})`,
+    );
+
+    return {
+      contractId: String(buy.contract_id),
+      transactionId: buy.transaction_id
+        ? String(buy.transaction_id)
+        : undefined,
+      buyPrice: Number(buy.buy_price),
+      payout: Number(buy.payout),
+      purchaseTime: Number(buy.purchase_time) || Math.floor(Date.now() / 1000),
+      spot:
+        proposal.spot !== undefined && proposal.spot !== null
+          ? Number(proposal.spot)
+          : null,
+    };
+  }
+
+  async waitForSettlement(
+    token: string,
+    contractId: string,
+    timeoutMs: number = this.DEFAULT_SETTLEMENT_TIMEOUT_MS,
+  ): Promise<ContractSettlement> {
+    const connection = await this.brokerGateway.getConnection(token);
+
+    return new Promise<ContractSettlement>((resolve, reject) => {
+      let finished = false;
+
+      const finish = (error: Error | null, settlement?: ContractSettlement) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeout);
+        // A Deriv encerra o stream após o contrato vendido
+        connection.removeSubscription(contractId);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(settlement!);
+        }
+      };
+
+      const timeout = setTimeout(
+        () =>
+          finish(
+            new Error(
+              `Contrato ${contractId} não encerrado após ${timeoutMs}ms`,
+            ),
+          ),
+        timeoutMs,
+      );
+
+      connection
+        .subscribe(
+          {
+            proposal_open_contract: 1,
+            contract_id: Number(contractId),
+            subscribe: 1,
+          },
+          (msg: any) => {
+            // Conexão perdida sem reconexão possível
+            if (msg.error) {
+              finish(new Error(msg.error.message));
+              return;
+            }
+            const contract = msg.proposal_open_contract;
+            if (!contract || !this.isSettled(contract)) return;
+
+            finish(null, this.toSettlement(contractId, contract));
+          },
+          contractId,
+        )
+        .catch((error: Error) => finish(error));
+    });
+  }
+
+  private isSettled(contract: any): boolean {
+    return (
+      contract.is_sold === 1 ||
+      contract.is_sold === true ||
+      contract.status === 'won' ||
+      contract.status === 'lost' ||
+      contract.status === 'sold'
+    );
+  }
+
+  private toSettlement(contractId: string, contract: any): ContractSettlement {
+    const buyPrice = Number(contract.buy_price) || 0;
+    const sellPrice = Number(contract.sell_price ?? contract.bid_price) || 0;
+    const profit =
+      contract.profit !== undefined
+        ? Number(contract.profit)
+        : sellPrice - buyPrice;
+    const toNumber = (value: any) =>
+      value !== undefined && value !== null && value !== ''
+        ? Number(value)
+        : null;
+
+    return {
+      contractId,
+      status: profit > 0 ? 'won' : 'lost',
+      buyPrice,
+      sellPrice,
+      profit,
+      entrySpot: toNumber(contract.entry_tick ?? contract.entry_spot),
+      exitSpot: toNumber(contract.exit_tick ?? contract.exit_spot),
+      sellTime: toNumber(contract.sell_time ?? contract.exit_tick_time),
+    };
+  }
+}
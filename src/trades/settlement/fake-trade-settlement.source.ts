@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ContractPurchase,
+  ContractPurchaseRequest,
+  ContractSettlement,
+  TradeSettlementSource,
+} from './trade-settlement.types';
+
+interface FakeContract {
+  request: ContractPurchaseRequest;
+  purchase: ContractPurchase;
+  outcome: 'won' | 'lost';
+}
+
+/**
+ * Corretora local para testes: compra sempre aceita e liquidação determinística.
+ *
+ * Resultados são consumidos de uma fila (enqueueOutcome); sem fila, todo contrato é 'won'.
+ * Selecionada com TRADE_SETTLEMENT_SOURCE=fake ou via overrideProvider(TRADE_SETTLEMENT_SOURCE).
+ */
+@Injectable()
+export class FakeTradeSettlementSource implements TradeSettlementSource {
+  private readonly logger = new Logger(FakeTradeSettlementSource.name);
+  private readonly contracts = new Map<string, FakeContract>();
+  private readonly outcomes: Array<'won' | 'lost'> = [];
+  private nextContractId = 1;
+
+  payoutRate = 0.95;
+  settlementDelayMs = 0;
+  entrySpot = 1000;
+
+  enqueueOutcome(...outcomes: Array<'won' | 'lost'>): void {
+    this.outcomes.push(...outcomes);
+  }
+
+  reset(): void {
+    this.contracts.clear();
+    this.outcomes.length = 0;
+    this.nextContractId = 1;
+  }
+
+  buyContract(request: ContractPurchaseRequest): Promise<ContractPurchase> {
+    if (!request.token) {
+      return Promise.reject(new Error('Token Deriv ausente'));
+    }
+
+    const buyPrice = Number(request.amount.toFixed(2));
+    const purchase: ContractPurchase = {
+      contractId: String(this.nextContractId++),
+      transactionId: `fake-${Date.now()}`,
+      buyPrice,
+      payout: Number((buyPrice * (1 + this.payoutRate)).toFixed(2)),
+      purchaseTime: Math.floor(Date.now() / 1000),
+      spot: this.entrySpot,
+    };
+
+    this.contracts.set(purchase.contractId, {
+      request,
+      purchase,
+      outcome: this.outcomes.shift() ?? 'won',
+    });
+    this.logger.debug(
+      `[FakeSettlement] Contrato ${purchase.contractId} comprado (${request.contractType} ${request.symbol})`,
+    );
+
+    return Promise.resolve(purchase);
+  }
+
+  waitForSettlement(
+    _token: string,
+    contractId: string,
+  ): Promise<ContractSettlement> {
+    const contract = this.contracts.get(contractId);
+    if (!contract) {
+      return Promise.reject(new Error(`Contrato ${contractId} desconhecido`));
+    }
+
+    const { purchase, outcome, request } = contract;
+    const won = outcome === 'won';
+    const rises = request.contractType !== 'PUT';
+    const exitSpot = this.entrySpot + (won === rises ? 1 : -1);
+    const sellPrice = won ? purchase.payout : 0;
+
+    const settlement: ContractSettlement = {
+      contractId,
+      status: outcome,
+      buyPrice: purchase.buyPrice,
+      sellPrice,
+      profit: Number((sellPrice - purchase.buyPrice).toFixed(2)),
+      entrySpot: this.entrySpot,
+      exitSpot,
+      sellTime: purchase.purchaseTime + request.duration,
+    };
+
+    return new Promise((resolve) =>
+      setTimeout(() => {
+        this.contracts.delete(contractId);
+        resolve(settlement);
+      }, this.settlementDelayMs),
+    );
+  }
+}
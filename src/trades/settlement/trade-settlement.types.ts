@@ -0,0 +1,65 @@
+/**
+ * Token de injeção da fonte de liquidação das operações manuais (POST /trades).
+ * Produção usa a Deriv; testes podem trocar pela corretora local (FakeTradeSettlementSource).
+ */
+export const TRADE_SETTLEMENT_SOURCE = 'TRADE_SETTLEMENT_SOURCE';
+
+export interface ContractPurchaseRequest {
+  token: string;
+  symbol: string;
+  contractType: string; // CALL, PUT, DIGITEVEN...
+  amount: number;
+  currency: string;
+  duration: number;
+  durationUnit: string; // t, s, m, h, d
+  barrier?: number;
+}
+
+export interface ContractPurchase {
+  contractId: string;
+  transactionId?: string;
+  buyPrice: number;
+  payout: number;
+  purchaseTime: number; // epoch (segundos)
+  spot?: number | null; // cotação da proposta aceita
+}
+
+export interface ContractSettlement {
+  contractId: string;
+  status: 'won' | 'lost';
+  buyPrice: number;
+  sellPrice: number; // valor recebido no encerramento (0 em caso de perda)
+  profit: number;
+  entrySpot: number | null;
+  exitSpot: number | null;
+  sellTime: number | null; // epoch (segundos)
+}
+
+/**
+ * Tempo máximo de espera pelo encerramento: duração do contrato + margem de 1 minuto
+ */
+export function getSettlementTimeoutMs(
+  duration: number,
+  durationUnit: string,
+): number {
+  const secondsPerUnit: Record<string, number> = {
+    t: 2,
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+  };
+  return duration * (secondsPerUnit[durationUnit] ?? 60) * 1000 + 60000;
+}
+
+/**
+ * Fonte de liquidação: compra o contrato e acompanha até o encerramento.
+ */
+export interface TradeSettlementSource {
+  buyContract(request: ContractPurchaseRequest): Promise<ContractPurchase>;
+  waitForSettlement(
+    token: string,
+    contractId: string,
+    timeoutMs?: number,
+  ): Promise<ContractSettlement>;
+}
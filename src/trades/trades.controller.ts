@@ -1,7 +1,7 @@
 import { Controller, Get, Post, Body, UseGuards, Req, Query, Sse, MessageEvent as NestMessageEvent, Param } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { AuthGuard } from '@nestjs/passport';
-import { IsString, IsEnum, IsNumber, Min, Max, IsOptional } from 'class-validator';
+import { IsString, IsEnum, IsNumber, Min, Max } from 'class-validator';
 import { DataSource } from 'typeorm'; // Added import
 import { TradesService, CreateTradeDto } from './trades.service';
 import { MarkupService } from '../markup/markup.service';
@@ -31,10 +31,6 @@ class CreateTradeRequestDto implements CreateTradeDto {
 
   @IsEnum(TradeType)
   tradeType: TradeType;
-
-  @IsString()
-  @IsOptional()
-  derivCurrency?: string;
 }
 
 @Controller('trades')
@@ -8,6 +8,9 @@ import { TradesController } from './trades.controller';
 import { CopyTradingModule } from '../copy-trading/copy-trading.module';
 import { BrokerModule } from '../broker/broker.module';
 import { MarkupModule } from '../markup/markup.module';
+import { TRADE_SETTLEMENT_SOURCE } from './settlement/trade-settlement.types';
+import { DerivTradeSettlementSource } from './settlement/deriv-trade-settlement.source';
+import { FakeTradeSettlementSource } from './settlement/fake-trade-settlement.source';
 
 @Module({
   imports: [
@@ -19,8 +22,21 @@ import { MarkupModule } from '../markup/markup.module';
     MarkupModule,
   ],
   controllers: [TradesController],
-  providers: [TradesService],
-  exports: [TradesService],
+  providers: [
+    TradesService,
+    DerivTradeSettlementSource,
+    FakeTradeSettlementSource,
+    {
+      // TRADE_SETTLEMENT_SOURCE=fake liquida as operações na corretora local (testes)
+      provide: TRADE_SETTLEMENT_SOURCE,
+      useFactory: (
+        deriv: DerivTradeSettlementSource,
+        fake: FakeTradeSettlementSource,
+      ) => (process.env.TRADE_SETTLEMENT_SOURCE === 'fake' ? fake : deriv),
+      inject: [DerivTradeSettlementSource, FakeTradeSettlementSource],
+    },
+  ],
+  exports: [TradesService, TRADE_SETTLEMENT_SOURCE],
 })
 export class TradesModule { }
 
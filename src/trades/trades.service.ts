@@ -1,6 +1,7 @@
-import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, Between } from 'typeorm';
+import { Cron } from '@nestjs/schedule';
+import { Repository, DataSource, Between, IsNull, LessThanOrEqual, Not } from 'typeorm';
 import { TradeEntity, TradeType, TradeStatus } from '../infrastructure/database/entities/trade.entity';
 import { v4 as uuidv4 } from 'uuid';
 import type { UserRepository } from '../domain/repositories/user.repository';
@@ -17,16 +18,34 @@ export interface CreateTradeDto {
   entryValue: number;
   tradeType: TradeType;
   barrier?: number;
-  derivCurrency?: string;
 }
 
 import { DerivService } from '../broker/deriv.service';
 import { MarkupService } from '../markup/markup.service';
+import {
+  TRADE_SETTLEMENT_SOURCE,
+  ContractPurchase,
+  ContractSettlement,
+  getSettlementTimeoutMs,
+} from './settlement/trade-settlement.types';
+import type { TradeSettlementSource } from './settlement/trade-settlement.types';
+import { TradeLedgerService } from '../trade-ledger/trade-ledger.service';
+import { DerivAccountResolver } from '../broker/deriv-account-resolver.service';
+import { DerivAccountResolutionError } from '../broker/deriv-account-resolver.types';
+import type { ResolvedDerivAccount } from '../broker/deriv-account-resolver.types';
+
+/**
+ * Operações pendentes mais antigas que isso são reacompanhadas pelo cron
+ * (as mais novas ainda estão sendo acompanhadas por settleTrade)
+ */
+const RECONCILE_MIN_AGE_MS = 15 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 200;
 
 @Injectable()
-export class TradesService {
+export class TradesService implements OnApplicationBootstrap {
   private readonly logger = new Logger(TradesService.name);
   private markupCache = new Map<string, { timestamp: number, data: any[] }>();
+  private isReconciling = false;
 
   constructor(
     @InjectRepository(TradeEntity)
@@ -36,10 +55,77 @@ export class TradesService {
     private readonly dataSource: DataSource,
     private readonly derivService: DerivService,
     private readonly markupService: MarkupService,
+    @Inject(TRADE_SETTLEMENT_SOURCE)
+    private readonly settlementSource: TradeSettlementSource,
+    private readonly derivAccountResolver: DerivAccountResolver,
     @Inject(forwardRef(() => CopyTradingService))
     private readonly copyTradingService?: CopyTradingService,
+    private readonly tradeLedger?: TradeLedgerService,
   ) { }
 
+  onApplicationBootstrap() {
+    // Contratos manuais que ficaram abertos durante um deploy/reinício
+    void this.reconcilePendingTrades(0);
+  }
+
+  @Cron('*/15 * * * *', {
+    name: 'reconcile-manual-trades',
+  })
+  async handleReconcile() {
+    await this.reconcilePendingTrades(RECONCILE_MIN_AGE_MS);
+  }
+
+  /**
+   * Volta a acompanhar as operações manuais ainda PENDING que já têm contrato na Deriv
+   * (timeout do acompanhamento ou reinício). A liquidação só grava se ainda estiver pendente.
+   */
+  async reconcilePendingTrades(minAgeMs: number): Promise<void> {
+    if (this.isReconciling) {
+      this.logger.debug('[Reconcile] Conciliação já em andamento, pulando...');
+      return;
+    }
+
+    this.isReconciling = true;
+    try {
+      const trades = await this.tradeRepository.find({
+        where: {
+          status: TradeStatus.PENDING,
+          derivTransactionId: Not(IsNull()),
+          createdAt: LessThanOrEqual(new Date(Date.now() - minAgeMs)),
+        },
+        order: { createdAt: 'ASC' },
+        take: RECONCILE_BATCH_SIZE,
+      });
+
+      if (trades.length === 0) return;
+      this.logger.log(`[Reconcile] 🔄 ${trades.length} operações manuais pendentes com contrato`);
+
+      await Promise.all(
+        trades.map(async (trade) => {
+          let account: ResolvedDerivAccount;
+          try {
+            // O contrato só é visível para a conta que comprou: 'DEMO' = virtual, senão a moeda da conta real
+            account = await this.derivAccountResolver.resolve(
+              trade.userId,
+              trade.derivCurrency === 'DEMO'
+                ? { accountType: 'demo' }
+                : { accountType: trade.derivCurrency ? 'real' : undefined, currency: trade.derivCurrency },
+            );
+          } catch (error) {
+            if (!(error instanceof DerivAccountResolutionError)) throw error;
+            this.logger.warn(`[Reconcile] ⚠️ ${error.message} (trade ${trade.id})`);
+            return;
+          }
+          await this.settleTrade(trade.id, account.token, trade.derivTransactionId!);
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`[Reconcile] ❌ Erro ao conciliar operações manuais: ${error.message}`, error.stack);
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
   async createTrade(userId: string, dto: CreateTradeDto, ipAddress?: string, userAgent?: string) {
     const user = await this.userRepository.findById(userId);
     if (!user) {
@@ -56,8 +142,36 @@ export class TradesService {
       throw new BadRequestException('Multiplicador deve estar entre 1 e 1000');
     }
 
-    // Criar trade (por enquanto, apenas salvar localmente)
-    // Em produção, aqui seria feita a integração com a API da Deriv
+    let account: ResolvedDerivAccount;
+    try {
+      account = await this.derivAccountResolver.resolve(userId);
+    } catch (error) {
+      if (!(error instanceof DerivAccountResolutionError)) throw error;
+      this.logger.warn(`[CreateTrade] ⚠️ ${error.message}`);
+      throw new BadRequestException('Conta Deriv não conectada para a moeda de operação selecionada');
+    }
+    const duration = parseInt(dto.duration.replace(/\D/g, '')) || 1;
+    const durationUnit = dto.duration.replace(/[0-9]/g, '') || 't';
+
+    // Comprar o contrato na Deriv antes de registrar a operação
+    let purchase: ContractPurchase;
+    try {
+      purchase = await this.settlementSource.buyContract({
+        token: account.token,
+        symbol: dto.contractType,
+        contractType: this.toDerivContractType(dto.tradeType),
+        amount: dto.entryValue,
+        currency: account.currency,
+        duration,
+        durationUnit,
+        barrier: dto.barrier,
+      });
+    } catch (error) {
+      this.logger.error(`[CreateTrade] ❌ Compra recusada para usuário ${userId}: ${error.message}`);
+      throw new BadRequestException(`Não foi possível abrir a operação na Deriv: ${error.message}`);
+    }
+    const filledAt = new Date();
+
     const trade = this.tradeRepository.create({
       id: uuidv4(),
       userId,
@@ -68,17 +182,25 @@ export class TradesService {
       entryValue: dto.entryValue,
       tradeType: dto.tradeType,
       status: TradeStatus.PENDING,
-      derivCurrency: dto.derivCurrency,
+      // 'DEMO' identifica a conta virtual (mesma convenção de trade_currency)
+      derivCurrency: account.isDemo ? 'DEMO' : account.currency,
+      derivTransactionId: purchase.contractId,
+      symbol: dto.contractType,
     });
 
     const savedTrade = await this.tradeRepository.save(trade);
+    this.tradeLedger?.sync('manual', savedTrade.id, {
+      accountType: account.isDemo ? 'demo' : 'real',
+      currency: account.currency,
+    });
+
+    // Porcentagem do saldo que está sendo usada (base da cópia proporcional)
+    const userBalance = parseFloat(user.derivBalance || '0');
+    const percent = userBalance > 0 ? (dto.entryValue / userBalance) * 100 : 0;
 
-    // Se for Trader Mestre, salvar na tabela de operações de mestre e replicar
+    // Se for Trader Mestre, salvar na tabela de operações de mestre
     if (user.traderMestre) {
       try {
-        // Calcular porcentagem do saldo que está sendo usado
-        const userBalance = parseFloat(user.derivBalance || '0');
-        const percent = userBalance > 0 ? (dto.entryValue / userBalance) * 100 : 0;
 
         await this.dataSource.query(
           `INSERT INTO master_trader_operations 
@@ -98,30 +220,35 @@ export class TradesService {
             'pending'
           ]
         );
-
-        // Replicar imediatamente para os copiadores
-        if (this.copyTradingService) {
-          await this.copyTradingService.replicateManualOperation(
-            userId,
-            {
-              contractId: savedTrade.id,
-              contractType: dto.tradeType,
-              symbol: dto.contractType,
-              duration: parseInt(dto.duration.replace(/\D/g, '')),
-              durationUnit: dto.duration.replace(/[0-9]/g, ''),
-              stakeAmount: dto.entryValue,
-              percent: percent,
-              entrySpot: 0,
-              entryTime: Math.floor(Date.now() / 1000),
-              barrier: dto.barrier,
-            }
-          );
-        }
       } catch (error) {
         console.error('Erro ao salvar operação de trader mestre:', error);
       }
     }
 
+    // Compra confirmada: os copiadores abrem os próprios contratos agora (sem bloquear a resposta)
+    if (this.copyTradingService) {
+      this.copyTradingService.replicateTradeToFollowers(
+        userId,
+        {
+          traderOperationId: savedTrade.id,
+          contractId: purchase.contractId,
+          contractType: this.toDerivContractType(dto.tradeType),
+          symbol: dto.contractType,
+          duration,
+          durationUnit,
+          barrier: dto.barrier,
+          stakeAmount: dto.entryValue,
+          buyPrice: purchase.buyPrice,
+          payout: purchase.payout,
+          spot: purchase.spot ?? null,
+          stakePercent: userBalance > 0 ? percent : null,
+          filledAt,
+        },
+      ).catch((error: any) => {
+        console.error(`[TradesService] Erro ao replicar operação manual: ${error.message}`);
+      });
+    }
+
     // Log da operação
     await this.settingsService.logActivity(
       userId,
@@ -131,49 +258,53 @@ export class TradesService {
       userAgent,
     );
 
-    // Simular resultado após alguns segundos (em produção, isso viria da Deriv)
-    setTimeout(async () => {
-      await this.simulateTradeResult(savedTrade.id);
-    }, 3000);
+    // Acompanhar o contrato até o encerramento (proposal_open_contract) sem bloquear a resposta
+    void this.settleTrade(
+      savedTrade.id,
+      account.token,
+      purchase.contractId,
+      getSettlementTimeoutMs(duration, durationUnit),
+    );
 
     return savedTrade;
   }
 
-  private async simulateTradeResult(tradeId: string) {
-    const trade = await this.tradeRepository.findOne({ where: { id: tradeId } });
-    if (!trade || trade.status !== TradeStatus.PENDING) return;
-
-    // Simulação: 60% de chance de ganho
-    const won = Math.random() > 0.4;
-    const profit = won
-      ? (trade.entryValue * trade.multiplier * (0.5 + Math.random() * 0.5)) // Ganho entre 50-100% do valor investido
-      : -(trade.entryValue * (0.5 + Math.random() * 0.5)); // Perda entre 50-100% do valor investido
-
-    trade.status = won ? TradeStatus.WON : TradeStatus.LOST;
-    trade.profit = Number(profit.toFixed(2));
-    await this.tradeRepository.save(trade);
+  /**
+   * Aguarda o encerramento do contrato na Deriv e grava o resultado
+   */
+  private async settleTrade(tradeId: string, token: string, contractId: string, timeoutMs?: number) {
+    let settlement: ContractSettlement;
+    try {
+      settlement = await this.settlementSource.waitForSettlement(token, contractId, timeoutMs);
+    } catch (error) {
+      // Sem confirmação da corretora a operação permanece PENDING
+      this.logger.error(`[SettleTrade] ❌ Falha ao acompanhar contrato ${contractId} (trade ${tradeId}): ${error.message}`);
+      return;
+    }
 
-    // Replicar operação para copiadores (se for trader mestre)
-    if (this.copyTradingService) {
-      this.copyTradingService.replicateTradeToFollowers(
-        trade.userId,
-        {
-          operationType: trade.tradeType, // BUY ou SELL
-          stakeAmount: trade.entryValue,
-          result: won ? 'win' : 'loss',
-          profit: trade.profit,
-          executedAt: trade.createdAt,
-          closedAt: trade.updatedAt,
-          duration: parseInt(trade.duration) || undefined,
-          symbol: trade.contractType,
-          traderOperationId: trade.id,
-        },
-      ).catch((error: any) => {
-        console.error(`[TradesService] Erro ao replicar operação manual: ${error.message}`);
-      });
+    try {
+      const trade = await this.tradeRepository.findOne({ where: { id: tradeId } });
+      if (!trade || trade.status !== TradeStatus.PENDING) return;
+
+      const won = settlement.status === 'won';
+      trade.status = won ? TradeStatus.WON : TradeStatus.LOST;
+      trade.profit = Number(settlement.profit.toFixed(2));
+      trade.exitValue = Number(settlement.sellPrice.toFixed(2));
+      trade.entrySpot = settlement.entrySpot;
+      trade.exitSpot = settlement.exitSpot;
+      await this.tradeRepository.save(trade);
+      this.tradeLedger?.sync('manual', trade.id);
+
+      this.logger.log(`[SettleTrade] ✅ Contrato ${contractId} encerrado: ${settlement.status.toUpperCase()} (${trade.profit})`);
+    } catch (error) {
+      this.logger.error(`[SettleTrade] ❌ Erro ao gravar resultado do contrato ${contractId} (trade ${tradeId}): ${error.message}`, error.stack);
     }
   }
 
+  private toDerivContractType(tradeType: TradeType): string {
+    return tradeType === TradeType.SELL ? 'PUT' : 'CALL';
+  }
+
   async getUserTrades(userId: string, limit: number = 50) {
     const trades = await this.tradeRepository.find({
       where: { userId },
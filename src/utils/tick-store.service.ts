@@ -0,0 +1,295 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { Tick } from '../ai/ai.service';
+import { buildTick } from './tick.utils';
+
+/**
+ * Símbolos gravados no histórico (mesmos assinados pelo AiService)
+ */
+export const RECORDED_SYMBOLS = [
+  'R_10',
+  'R_25',
+  'R_50',
+  'R_75',
+  'R_100',
+  '1HZ10V',
+  '1HZ100V',
+];
+
+export interface TickRangeQuery {
+  from?: number; // epoch (segundos), inclusivo
+  to?: number; // epoch (segundos), inclusivo
+  limit?: number;
+  latest?: boolean; // true = últimos `limit` ticks da janela (ainda em ordem cronológica)
+}
+
+interface PendingTick {
+  symbol: string;
+  epoch: number;
+  quote: number;
+}
+
+/**
+ * Histórico compartilhado de ticks por símbolo
+ *
+ * Todo tick recebido da Deriv (AiService / AutonomousAgentService) é gravado em `market_ticks`
+ * (append-only, chave symbol + epoch, INSERT IGNORE para ticks duplicados entre as conexões).
+ * Os últimos ticks de cada símbolo ficam em memória para warm-up imediato das estratégias,
+ * inclusive após restart (buffer recarregado do banco na inicialização).
+ *
+ * Retenção: TICK_RETENTION_DAYS (padrão 7 dias), com override por símbolo via
+ * TICK_RETENTION_DAYS_<SIMBOLO> (ex: TICK_RETENTION_DAYS_R_100=30).
+ */
+@Injectable()
+export class TickStoreService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TickStoreService.name);
+  private readonly recentTicks = new Map<string, Tick[]>();
+  private readonly lastEpochBySymbol = new Map<string, number>();
+  private writeQueue: PendingTick[] = [];
+  private writing = false;
+  private readonly RECENT_BUFFER_SIZE = 500; // Ticks mantidos em memória por símbolo
+  private readonly BATCH_SIZE = 500; // Ticks por INSERT
+  private readonly MAX_QUEUE_SIZE = 20000; // Limite da fila em caso de banco indisponível
+  private readonly PURGE_CHUNK_SIZE = 10000;
+  private readonly MAX_RANGE_LIMIT = 10000;
+
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  async onModuleInit() {
+    await this.loadRecentTicks();
+    this.logger.log('[TickStore] ✅ Histórico de ticks inicializado');
+  }
+
+  async onModuleDestroy() {
+    await this.flush();
+  }
+
+  /**
+   * Registra um tick recebido (não bloqueia: gravação em batch)
+   */
+  record(symbol: string, value: number, epoch: number): void {
+    if (
+      !RECORDED_SYMBOLS.includes(symbol) ||
+      !Number.isFinite(value) ||
+      !epoch
+    ) {
+      return;
+    }
+
+    const tickEpoch = Math.floor(epoch);
+
+    // Mesmo tick pode chegar pelas duas conexões (IA e Agente Autônomo)
+    const lastEpoch = this.lastEpochBySymbol.get(symbol) ?? 0;
+    if (tickEpoch <= lastEpoch) {
+      return;
+    }
+    this.lastEpochBySymbol.set(symbol, tickEpoch);
+
+    const buffer = this.recentTicks.get(symbol) || [];
+    buffer.push(buildTick(value, tickEpoch, symbol));
+    if (buffer.length > this.RECENT_BUFFER_SIZE) {
+      buffer.shift();
+    }
+    this.recentTicks.set(symbol, buffer);
+
+    if (this.writeQueue.length >= this.MAX_QUEUE_SIZE) {
+      this.logger.warn(
+        `[TickStore] ⚠️ Fila cheia (${this.MAX_QUEUE_SIZE}), descartando tick mais antigo`,
+      );
+      this.writeQueue.shift();
+    }
+    this.writeQueue.push({ symbol, epoch: tickEpoch, quote: value });
+
+    if (!this.writing && this.writeQueue.length >= this.BATCH_SIZE) {
+      setImmediate(() => void this.processWriteQueue());
+    }
+  }
+
+  /**
+   * Últimos `count` ticks do símbolo (memória, síncrono) - usado no warm-up das estratégias
+   */
+  getRecentTicks(
+    symbol: string,
+    count: number = this.RECENT_BUFFER_SIZE,
+  ): Tick[] {
+    const buffer = this.recentTicks.get(symbol) || [];
+    return count > 0 ? buffer.slice(-count) : [];
+  }
+
+  /**
+   * Consulta ticks de um símbolo em um intervalo de epochs (sempre em ordem cronológica)
+   */
+  async getRange(symbol: string, query: TickRangeQuery = {}): Promise<Tick[]> {
+    const limit = Math.min(
+      Math.max(query.limit || 1000, 1),
+      this.MAX_RANGE_LIMIT,
+    );
+    const conditions = ['symbol = ?'];
+    const params: any[] = [symbol];
+
+    if (query.from) {
+      conditions.push('epoch >= ?');
+      params.push(Math.floor(query.from));
+    }
+    if (query.to) {
+      conditions.push('epoch <= ?');
+      params.push(Math.floor(query.to));
+    }
+
+    // Garantir que ticks ainda na fila entrem no resultado
+    await this.flush();
+
+    const rows = await this.dataSource.query(
+      `SELECT epoch, quote FROM market_ticks
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY epoch ${query.latest ? 'DESC' : 'ASC'}
+       LIMIT ${limit}`,
+      params,
+    );
+
+    const ticks = rows.map((row: any) =>
+      buildTick(parseFloat(row.quote), Number(row.epoch), symbol),
+    );
+    return query.latest ? ticks.reverse() : ticks;
+  }
+
+  /**
+   * Flush periódico da fila de gravação
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS, {
+    name: 'flush-tick-store',
+  })
+  async flushWriteQueue(): Promise<void> {
+    if (this.writeQueue.length > 0 && !this.writing) {
+      await this.processWriteQueue();
+    }
+  }
+
+  /**
+   * Força gravação de todos os ticks pendentes
+   */
+  async flush(): Promise<void> {
+    while (this.writeQueue.length > 0) {
+      if (this.writing) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        continue;
+      }
+      const sizeBefore = this.writeQueue.length;
+      await this.processWriteQueue();
+      // Falha de gravação devolve o batch para a fila: não insistir em loop
+      if (this.writeQueue.length >= sizeBefore) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Remove ticks fora da janela de retenção de cada símbolo
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'purge-tick-store',
+  })
+  async purgeExpiredTicks(): Promise<void> {
+    const nowEpoch = Math.floor(Date.now() / 1000);
+
+    for (const symbol of RECORDED_SYMBOLS) {
+      const cutoff = nowEpoch - this.getRetentionDays(symbol) * 86400;
+      let totalDeleted = 0;
+
+      try {
+        // Apagar em blocos para não travar a tabela
+        while (true) {
+          const result = await this.dataSource.query(
+            `DELETE FROM market_ticks WHERE symbol = ? AND epoch < ? LIMIT ${this.PURGE_CHUNK_SIZE}`,
+            [symbol, cutoff],
+          );
+          const affected = result?.affectedRows ?? 0;
+          totalDeleted += affected;
+          if (affected < this.PURGE_CHUNK_SIZE) break;
+        }
+
+        if (totalDeleted > 0) {
+          this.logger.log(
+            `[TickStore] 🧹 ${symbol}: ${totalDeleted} ticks removidos (retenção ${this.getRetentionDays(symbol)} dias)`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `[TickStore] Erro ao aplicar retenção para ${symbol}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  getRetentionDays(symbol: string): number {
+    const override = parseInt(
+      process.env[`TICK_RETENTION_DAYS_${symbol}`] || '',
+      10,
+    );
+    if (override > 0) return override;
+    const days = parseInt(process.env.TICK_RETENTION_DAYS || '7', 10);
+    return days > 0 ? days : 7;
+  }
+
+  private async processWriteQueue(): Promise<void> {
+    if (this.writing || this.writeQueue.length === 0) {
+      return;
+    }
+
+    this.writing = true;
+    const batch = this.writeQueue.splice(0, this.BATCH_SIZE);
+
+    try {
+      const placeholders = batch.map(() => '(?, ?, ?)').join(', ');
+      await this.dataSource.query(
+        `INSERT IGNORE INTO market_ticks (symbol, epoch, quote) VALUES ${placeholders}`,
+        batch.flatMap((tick) => [tick.symbol, tick.epoch, tick.quote]),
+      );
+
+      if (this.writeQueue.length >= this.BATCH_SIZE) {
+        setImmediate(() => void this.processWriteQueue());
+      }
+    } catch (error) {
+      this.logger.error(
+        `[TickStore] ❌ Erro ao gravar ${batch.length} ticks:`,
+        error,
+      );
+      // Devolver para a fila (respeitando o limite) para nova tentativa no próximo flush
+      this.writeQueue = batch
+        .concat(this.writeQueue)
+        .slice(-this.MAX_QUEUE_SIZE);
+    } finally {
+      this.writing = false;
+    }
+  }
+
+  /**
+   * Recarrega o buffer em memória a partir do banco (após restart)
+   */
+  private async loadRecentTicks(): Promise<void> {
+    for (const symbol of RECORDED_SYMBOLS) {
+      try {
+        const ticks = await this.getRange(symbol, {
+          limit: this.RECENT_BUFFER_SIZE,
+          latest: true,
+        });
+        if (ticks.length > 0) {
+          this.recentTicks.set(symbol, ticks);
+          this.lastEpochBySymbol.set(symbol, ticks[ticks.length - 1].epoch);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `[TickStore] ⚠️ Não foi possível carregar histórico de ${symbol}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { DigitParity, Tick } from '../ai/ai.service';
+
+/**
+ * Casas decimais (pip size) cotadas pela Deriv para cada índice sintético.
+ * Necessário para extrair o último dígito corretamente (ex: 930.60 -> 0 e não 6).
+ */
+export const SYMBOL_DECIMALS: Record<string, number> = {
+  R_10: 3,
+  R_25: 3,
+  R_50: 4,
+  R_75: 4,
+  R_100: 2,
+  '1HZ10V': 2,
+  '1HZ100V': 2,
+};
+
+export function getSymbolDecimals(symbol?: string): number {
+  return (symbol ? SYMBOL_DECIMALS[symbol] : undefined) ?? 2;
+}
+
+export function extractLastDigit(value: number, symbol?: string): number {
+  const normalized = Math.abs(value).toFixed(getSymbolDecimals(symbol));
+  const digit = parseInt(normalized.charAt(normalized.length - 1), 10);
+  return Number.isNaN(digit) ? 0 : digit;
+}
+
+export function getParityFromDigit(digit: number): DigitParity {
+  return digit % 2 === 0 ? 'PAR' : 'IMPAR';
+}
+
+/**
+ * Monta um Tick no mesmo formato produzido pelo AiService a partir de cotação + epoch.
+ */
+export function buildTick(value: number, epoch: number, symbol?: string): Tick {
+  const digit = extractLastDigit(value, symbol);
+  return {
+    value,
+    epoch,
+    timestamp: new Date(epoch * 1000).toLocaleTimeString('pt-BR'),
+    digit,
+    parity: getParityFromDigit(digit),
+  };
+}
@@ -0,0 +1,59 @@
+import {
+  endOfDayInTimeZone,
+  groupByTimeZone,
+  localDateString,
+  previousDayRangeInTimeZone,
+  resolveTimeZone,
+  startOfDayInTimeZone,
+  utcOffsetString,
+} from './timezone.utils';
+
+describe('timezone.utils', () => {
+  // 01:30 UTC = 22:30 do dia anterior em São Paulo
+  const now = new Date('2026-03-11T01:30:00Z');
+
+  it('usa o fuso padrão para valores vazios ou inválidos', () => {
+    expect(resolveTimeZone(null)).toBe('America/Sao_Paulo');
+    expect(resolveTimeZone('Mars/Olympus')).toBe('America/Sao_Paulo');
+    expect(resolveTimeZone('Asia/Tokyo')).toBe('Asia/Tokyo');
+  });
+
+  it('calcula o dia local e a meia-noite de cada fuso', () => {
+    expect(localDateString(now, 'America/Sao_Paulo')).toBe('2026-03-10');
+    expect(localDateString(now, 'Asia/Tokyo')).toBe('2026-03-11');
+    expect(startOfDayInTimeZone(now, 'America/Sao_Paulo').toISOString()).toBe(
+      '2026-03-10T03:00:00.000Z',
+    );
+    expect(startOfDayInTimeZone(now, 'Asia/Kolkata').toISOString()).toBe(
+      '2026-03-10T18:30:00.000Z',
+    );
+    expect(endOfDayInTimeZone(now, 'America/Sao_Paulo').toISOString()).toBe(
+      '2026-03-11T02:59:59.999Z',
+    );
+  });
+
+  it('monta a janela do dia anterior e o offset para o MySQL', () => {
+    const { start, end } = previousDayRangeInTimeZone(now, 'America/Sao_Paulo');
+    expect(start.toISOString()).toBe('2026-03-09T03:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-10T02:59:59.999Z');
+
+    expect(utcOffsetString(now, 'America/Sao_Paulo')).toBe('-03:00');
+    expect(utcOffsetString(now, 'Asia/Kolkata')).toBe('+05:30');
+    expect(utcOffsetString(now, 'UTC')).toBe('+00:00');
+  });
+
+  it('agrupa registros por fuso resolvido', () => {
+    const buckets = groupByTimeZone(
+      [
+        { id: 1, tz: 'Asia/Tokyo' },
+        { id: 2, tz: null },
+        { id: 3, tz: 'invalido' },
+      ],
+      (row) => row.tz,
+    );
+    expect([...buckets.keys()]).toEqual(['Asia/Tokyo', 'America/Sao_Paulo']);
+    expect(buckets.get('America/Sao_Paulo')?.map((row) => row.id)).toEqual([
+      2, 3,
+    ]);
+  });
+});
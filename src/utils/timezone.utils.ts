@@ -0,0 +1,162 @@
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Retorna o fuso informado se for um identificador IANA válido, senão o padrão da plataforma
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Data/hora de parede no fuso informado
+ */
+export function getZonedParts(
+  date: Date,
+  timeZone?: string | null,
+): ZonedDateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Diferença (ms) entre o horário de parede do fuso e o UTC no instante informado
+ */
+function getOffsetMs(date: Date, timeZone?: string | null): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instante (UTC) da meia-noite do dia corrente no fuso informado
+ */
+export function startOfDayInTimeZone(
+  date: Date,
+  timeZone?: string | null,
+): Date {
+  const p = getZonedParts(date, timeZone);
+  const midnightAsUtc = Date.UTC(p.year, p.month - 1, p.day);
+  // Recalcula o offset na própria meia-noite, que pode diferir em dias de horário de verão
+  const guess = new Date(midnightAsUtc - getOffsetMs(date, timeZone));
+  return new Date(midnightAsUtc - getOffsetMs(guess, timeZone));
+}
+
+/**
+ * Último milissegundo do dia corrente no fuso informado
+ */
+export function endOfDayInTimeZone(date: Date, timeZone?: string | null): Date {
+  // 36h após a meia-noite cai sempre no dia seguinte, mesmo em dias de 23h ou 25h
+  const nextDay = new Date(
+    startOfDayInTimeZone(date, timeZone).getTime() + 36 * 60 * 60 * 1000,
+  );
+  return new Date(startOfDayInTimeZone(nextDay, timeZone).getTime() - 1);
+}
+
+/**
+ * Minutos desde a meia-noite no fuso informado (0-1439)
+ */
+export function minutesOfDayInTimeZone(
+  date: Date,
+  timeZone?: string | null,
+): number {
+  const p = getZonedParts(date, timeZone);
+  return p.hour * 60 + p.minute;
+}
+
+/**
+ * Converte "HH:MM" em minutos desde a meia-noite, ou null se inválido
+ */
+export function parseTimeOfDay(value?: string | null): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec((value || '').trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Data local (AAAA-MM-DD) no fuso informado
+ */
+export function localDateString(date: Date, timeZone?: string | null): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Offset do fuso no instante informado, no formato aceito pelo CONVERT_TZ do MySQL (ex.: "-03:00")
+ */
+export function utcOffsetString(date: Date, timeZone?: string | null): string {
+  const offsetMinutes = Math.round(getOffsetMs(date, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Janela [início, fim] do dia anterior ao dia corrente no fuso informado
+ */
+export function previousDayRangeInTimeZone(
+  date: Date,
+  timeZone?: string | null,
+): { start: Date; end: Date } {
+  const todayStart = startOfDayInTimeZone(date, timeZone);
+  const end = new Date(todayStart.getTime() - 1);
+  return { start: startOfDayInTimeZone(end, timeZone), end };
+}
+
+/**
+ * Agrupa registros por fuso (já resolvido), para jobs que disparam por "bucket" de fuso horário
+ */
+export function groupByTimeZone<T>(
+  rows: T[],
+  getTimeZone: (row: T) => string | null | undefined,
+): Map<string, T[]> {
+  const buckets = new Map<string, T[]>();
+  for (const row of rows) {
+    const timeZone = resolveTimeZone(getTimeZone(row));
+    const bucket = buckets.get(timeZone);
+    if (bucket) bucket.push(row);
+    else buckets.set(timeZone, [row]);
+  }
+  return buckets;
+}
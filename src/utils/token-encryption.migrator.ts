@@ -0,0 +1,148 @@
+import type { QueryRunner } from 'typeorm';
+import { TokenEncryptionService } from './token-encryption.service';
+
+export type EncryptedColumns = { table: string; columns: string[] }[];
+
+/**
+ * Colunas com tokens da Deriv cifrados com DERIV_TOKEN_ENCRYPTION_KEYS
+ * (todas as tabelas usam `id` como chave primária). Usada pela migration 1772200000000:
+ * outras colunas cifradas entram em listas próprias.
+ */
+export const DERIV_TOKEN_COLUMNS: EncryptedColumns = [
+  { table: 'users', columns: ['token_demo', 'token_real'] },
+  { table: 'copy_trading_config', columns: ['deriv_token'] },
+  { table: 'ai_user_config', columns: ['deriv_token', 'token_deriv'] },
+  { table: 'autonomous_agent_config', columns: ['deriv_token', 'token_deriv'] },
+  { table: 'autonomous_agent_trades', columns: ['deriv_token'] },
+];
+
+/**
+ * Segredo do 2FA: mesma chave, cifrado pela migration 1773900000000
+ */
+export const TWO_FACTOR_SECRET_COLUMNS: EncryptedColumns = [
+  { table: 'user_settings', columns: ['two_factor_secret'] },
+];
+
+/**
+ * Há algum token da Deriv gravado (em qualquer coluna de DERIV_TOKEN_COLUMNS ou em deriv_raw)?
+ */
+export async function hasStoredDerivTokens(
+  queryRunner: QueryRunner,
+): Promise<boolean> {
+  for (const { table, columns } of DERIV_TOKEN_COLUMNS) {
+    if (!(await queryRunner.hasTable(table))) continue;
+
+    const present: string[] = [];
+    for (const column of columns) {
+      if (await queryRunner.hasColumn(table, column)) present.push(column);
+    }
+    if (present.length === 0) continue;
+
+    const rows = await queryRunner.query(
+      `SELECT 1 FROM \`${table}\`
+       WHERE ${present.map((c) => `(\`${c}\` IS NOT NULL AND \`${c}\` <> '')`).join(' OR ')}
+       LIMIT 1`,
+    );
+    if (rows.length > 0) return true;
+  }
+
+  if (!(await queryRunner.hasColumn('users', 'deriv_raw'))) return false;
+  const raw = await queryRunner.query(
+    "SELECT 1 FROM `users` WHERE deriv_raw LIKE '%tokensByLoginId%' LIMIT 1",
+  );
+  return raw.length > 0;
+}
+
+/**
+ * Regrava os valores das colunas informadas:
+ * - 'encrypt': cifra o texto puro e re-embrulha valores de chaves antigas com a versão ativa (rotação)
+ * - 'decrypt': volta tudo para texto puro (rollback da migration)
+ * Retorna quantas linhas foram alteradas.
+ */
+export async function rewriteEncryptedColumns(
+  queryRunner: QueryRunner,
+  encryption: TokenEncryptionService,
+  mode: 'encrypt' | 'decrypt',
+  encryptedColumns: EncryptedColumns,
+): Promise<number> {
+  const mapToken = (value: string) =>
+    mode === 'encrypt' ? encryption.encrypt(value) : encryption.decrypt(value);
+  let updated = 0;
+
+  for (const { table, columns } of encryptedColumns) {
+    if (!(await queryRunner.hasTable(table))) continue;
+
+    const present: string[] = [];
+    for (const column of columns) {
+      if (await queryRunner.hasColumn(table, column)) present.push(column);
+    }
+    if (present.length === 0) continue;
+
+    // Só linhas com algum token (autonomous_agent_trades cresce a cada operação)
+    const rows = await queryRunner.query(
+      `SELECT id, ${present.map((c) => `\`${c}\``).join(', ')} FROM \`${table}\`
+       WHERE ${present.map((c) => `\`${c}\` IS NOT NULL`).join(' OR ')}`,
+    );
+
+    for (const row of rows) {
+      const changes = present
+        .filter((column) => typeof row[column] === 'string' && row[column])
+        .map((column) => ({ column, value: mapToken(row[column]) }))
+        .filter(({ column, value }) => value !== row[column]);
+      if (changes.length === 0) continue;
+
+      await queryRunner.query(
+        `UPDATE \`${table}\` SET ${changes.map(({ column }) => `\`${column}\` = ?`).join(', ')} WHERE id = ?`,
+        [...changes.map(({ value }) => value), row.id],
+      );
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Regrava os tokens da Deriv (DERIV_TOKEN_COLUMNS e deriv_raw), como em rewriteEncryptedColumns
+ */
+export async function rewriteStoredDerivTokens(
+  queryRunner: QueryRunner,
+  encryption: TokenEncryptionService,
+  mode: 'encrypt' | 'decrypt',
+): Promise<number> {
+  let updated = await rewriteEncryptedColumns(
+    queryRunner,
+    encryption,
+    mode,
+    DERIV_TOKEN_COLUMNS,
+  );
+
+  // deriv_raw: apenas os tokens de tokensByLoginId
+  const users = await queryRunner.query(
+    'SELECT id, deriv_raw FROM `users` WHERE deriv_raw IS NOT NULL',
+  );
+  for (const user of users) {
+    let raw: any;
+    try {
+      raw =
+        typeof user.deriv_raw === 'string'
+          ? JSON.parse(user.deriv_raw)
+          : user.deriv_raw;
+    } catch {
+      continue; // JSON inválido: nada a cifrar
+    }
+    const mapped =
+      mode === 'encrypt'
+        ? encryption.encryptDerivRaw(raw)
+        : encryption.decryptDerivRaw(raw);
+    if (JSON.stringify(mapped) === JSON.stringify(raw)) continue;
+
+    await queryRunner.query('UPDATE `users` SET deriv_raw = ? WHERE id = ?', [
+      JSON.stringify(mapped),
+      user.id,
+    ]);
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,132 @@
+import {
+  TokenEncryptionError,
+  TokenEncryptionService,
+} from './token-encryption.service';
+
+describe('TokenEncryptionService', () => {
+  const originalKeys = process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+  const originalVersion = process.env.DERIV_TOKEN_ENCRYPTION_KEY_VERSION;
+  const v1 = `v1:${Buffer.alloc(32, 1).toString('base64')}`;
+  const v2 = `v2:${Buffer.alloc(32, 2).toString('base64')}`;
+
+  const withKeys = (keys: string | undefined, version?: string) => {
+    if (keys === undefined) delete process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+    else process.env.DERIV_TOKEN_ENCRYPTION_KEYS = keys;
+    if (version === undefined) {
+      delete process.env.DERIV_TOKEN_ENCRYPTION_KEY_VERSION;
+    } else {
+      process.env.DERIV_TOKEN_ENCRYPTION_KEY_VERSION = version;
+    }
+    return new TokenEncryptionService();
+  };
+
+  afterAll(() => {
+    withKeys(originalKeys, originalVersion);
+  });
+
+  it('cifra e decifra com a chave ativa', () => {
+    const service = withKeys(v1);
+    const encrypted = service.encrypt('a1-token-deriv');
+
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(encrypted).not.toContain('a1-token-deriv');
+    expect(service.getKeyVersion(encrypted)).toBe('v1');
+    expect(service.decrypt(encrypted)).toBe('a1-token-deriv');
+    // Chave de dados e IV novos a cada gravação
+    expect(service.encrypt('a1-token-deriv')).not.toBe(encrypted);
+    // Já cifrado com a versão ativa: não muda
+    expect(service.encrypt(encrypted)).toBe(encrypted);
+  });
+
+  it('re-embrulha valores da chave antiga ao rotacionar para uma nova versão', () => {
+    const encrypted = withKeys(v1).encrypt('a1-token-deriv');
+    const rotated = withKeys(`${v1},${v2}`).encrypt(encrypted);
+
+    expect(rotated).toMatch(/^enc:v2:/);
+    // Só a chave de dados é re-embrulhada: o token cifrado continua o mesmo
+    expect(rotated.split(':')[3]).toBe(encrypted.split(':')[3]);
+
+    const afterRotation = withKeys(v2);
+    expect(afterRotation.decrypt(rotated)).toBe('a1-token-deriv');
+    expect(() => afterRotation.decrypt(encrypted)).toThrow(
+      'Chave mestra v1 não está em DERIV_TOKEN_ENCRYPTION_KEYS',
+    );
+
+    // A versão ativa pode ser fixada em uma chave que não é a última da lista
+    expect(withKeys(`${v1},${v2}`, 'v1').encrypt('x')).toMatch(/^enc:v1:/);
+    expect(() => withKeys(v1, 'v9')).toThrow(TokenEncryptionError);
+  });
+
+  it('recusa valores adulterados', () => {
+    const service = withKeys(v1);
+    const [prefix, version, wrappedKey, payload] = service
+      .encrypt('a1-token-deriv')
+      .split(':');
+    const flip = (value: string) =>
+      Buffer.from(
+        Buffer.from(value, 'base64url').map((byte, i) =>
+          i === 20 ? byte ^ 1 : byte,
+        ),
+      ).toString('base64url');
+
+    expect(() =>
+      service.decrypt([prefix, version, wrappedKey, flip(payload)].join(':')),
+    ).toThrow('Token da Deriv corrompido ou adulterado');
+    expect(() =>
+      service.decrypt([prefix, version, flip(wrappedKey), payload].join(':')),
+    ).toThrow('Não foi possível abrir a chave de dados');
+  });
+
+  it('devolve texto puro legado e vazios como estão', () => {
+    const service = withKeys(v1);
+
+    expect(service.decrypt('a1-legado')).toBe('a1-legado');
+    expect(service.decrypt(null)).toBeNull();
+    expect(service.decrypt(undefined)).toBeNull();
+    expect(service.encrypt('')).toBe('');
+    expect(service.encrypt(null)).toBeNull();
+    expect(service.getKeyVersion('a1-legado')).toBeNull();
+  });
+
+  it('sem chave configurada lê texto puro mas recusa gravar', () => {
+    const service = withKeys(undefined);
+
+    expect(service.activeKeyVersion).toBeNull();
+    expect(service.decrypt('a1-legado')).toBe('a1-legado');
+    expect(() => service.encrypt('a1-token-deriv')).toThrow(
+      TokenEncryptionError,
+    );
+    expect(() => withKeys('v1:curta')).toThrow(
+      'Chave inválida em DERIV_TOKEN_ENCRYPTION_KEYS',
+    );
+  });
+
+  it('cifra apenas tokensByLoginId em deriv_raw', () => {
+    const service = withKeys(v1);
+    const raw = {
+      loginid: 'CR123',
+      balance: { value: 100 },
+      tokensByLoginId: { CR123: 'a1-real', VRTC9: 'a1-demo', MF1: null },
+    };
+
+    const encrypted = service.encryptDerivRaw(raw);
+    expect(encrypted.loginid).toBe('CR123');
+    expect(encrypted.balance).toEqual({ value: 100 });
+    expect(encrypted.tokensByLoginId.CR123).toMatch(/^enc:v1:/);
+    expect(encrypted.tokensByLoginId.VRTC9).toMatch(/^enc:v1:/);
+    expect(encrypted.tokensByLoginId.MF1).toBeNull();
+    expect(raw.tokensByLoginId.CR123).toBe('a1-real');
+    expect(service.decryptDerivRaw(encrypted)).toEqual(raw);
+
+    // Gravado como string JSON: devolve string
+    const asString = service.encryptDerivRaw(JSON.stringify(raw));
+    expect(typeof asString).toBe('string');
+    expect(JSON.parse(service.decryptDerivRaw(asString))).toEqual(raw);
+
+    // Sem tokens ou JSON inválido: nada muda
+    expect(service.encryptDerivRaw({ loginid: 'CR123' })).toEqual({
+      loginid: 'CR123',
+    });
+    expect(service.encryptDerivRaw('{invalido')).toBe('{invalido');
+  });
+});
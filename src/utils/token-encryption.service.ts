@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { ValueTransformer } from 'typeorm';
+
+/**
+ * Prefixo dos valores cifrados: `enc:<versão da chave>:<chave de dados embrulhada>:<token cifrado>`
+ */
+const ENCRYPTED_PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+interface TokenKeyring {
+  activeVersion: string | null;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * Lê as chaves mestras da configuração:
+ * - DERIV_TOKEN_ENCRYPTION_KEYS: lista `versão:chave-base64` (32 bytes) separada por vírgula
+ * - DERIV_TOKEN_ENCRYPTION_KEY_VERSION: versão usada para cifrar (padrão: a última da lista)
+ * As versões antigas continuam na lista apenas para decifrar até a rotação terminar.
+ */
+function loadKeyring(env: NodeJS.ProcessEnv): TokenKeyring {
+  const keys = new Map<string, Buffer>();
+  const entries = (env.DERIV_TOKEN_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const version = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (!version || key.length !== KEY_LENGTH) {
+      throw new TokenEncryptionError(
+        `Chave inválida em DERIV_TOKEN_ENCRYPTION_KEYS (esperado versão:base64 de ${KEY_LENGTH} bytes)`,
+      );
+    }
+    keys.set(version, key);
+  }
+
+  const activeVersion =
+    env.DERIV_TOKEN_ENCRYPTION_KEY_VERSION ||
+    Array.from(keys.keys()).pop() ||
+    null;
+  if (activeVersion && !keys.has(activeVersion)) {
+    throw new TokenEncryptionError(
+      `DERIV_TOKEN_ENCRYPTION_KEY_VERSION=${activeVersion} não existe em DERIV_TOKEN_ENCRYPTION_KEYS`,
+    );
+  }
+
+  return { activeVersion, keys };
+}
+
+function seal(key: Buffer, plain: Buffer, aad: string): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Criptografia em envelope dos tokens da Deriv gravados no banco.
+ * Cada valor recebe uma chave de dados própria (AES-256-GCM), que é embrulhada pela
+ * chave mestra da versão ativa. Rotacionar a chave mestra só re-embrulha a chave de dados.
+ *
+ * Valores sem o prefixo `enc:` são tratados como legado (texto puro) e devolvidos como estão,
+ * para que a leitura funcione antes e durante a migração.
+ */
+@Injectable()
+export class TokenEncryptionService {
+  private readonly logger = new Logger(TokenEncryptionService.name);
+  private readonly keyring: TokenKeyring;
+
+  constructor() {
+    this.keyring = loadKeyring(process.env);
+    if (!this.keyring.activeVersion) {
+      this.logger.warn(
+        '[TokenEncryption] ⚠️ DERIV_TOKEN_ENCRYPTION_KEYS não configurada - gravação de tokens da Deriv será recusada',
+      );
+    }
+  }
+
+  get activeKeyVersion(): string | null {
+    return this.keyring.activeVersion;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return (
+      typeof value === 'string' && value.startsWith(`${ENCRYPTED_PREFIX}:`)
+    );
+  }
+
+  /**
+   * Versão da chave mestra usada no valor (null para texto puro)
+   */
+  getKeyVersion(value: string): string | null {
+    return this.isEncrypted(value) ? value.split(':')[1] : null;
+  }
+
+  /**
+   * Cifra um token. Valores já cifrados com a versão ativa são devolvidos como estão;
+   * valores cifrados com uma versão antiga têm a chave de dados re-embrulhada.
+   */
+  encrypt(value: string): string;
+  encrypt(value: string | null | undefined): string | null;
+  encrypt(value: string | null | undefined): string | null {
+    if (value === null || value === undefined || value === '') {
+      return value ?? null;
+    }
+
+    const activeVersion = this.keyring.activeVersion;
+    if (!activeVersion) {
+      throw new TokenEncryptionError(
+        'DERIV_TOKEN_ENCRYPTION_KEYS não configurada: não é possível gravar tokens da Deriv',
+      );
+    }
+    const masterKey = this.keyring.keys.get(activeVersion)!;
+
+    if (this.isEncrypted(value)) {
+      const { version, dataKey, payload } = this.unwrap(value);
+      if (version === activeVersion) return value;
+      return this.format(
+        activeVersion,
+        seal(masterKey, dataKey, activeVersion),
+        payload,
+      );
+    }
+
+    const dataKey = randomBytes(KEY_LENGTH);
+    return this.format(
+      activeVersion,
+      seal(masterKey, dataKey, activeVersion),
+      seal(dataKey, Buffer.from(value, 'utf8'), ENCRYPTED_PREFIX),
+    );
+  }
+
+  /**
+   * Accessor de leitura: devolve o token em texto puro (legado passa direto)
+   */
+  decrypt(value: string): string;
+  decrypt(value: string | null | undefined): string | null;
+  decrypt(value: string | null | undefined): string | null {
+    if (!this.isEncrypted(value)) {
+      return value ?? null;
+    }
+    const { dataKey, payload } = this.unwrap(value);
+    try {
+      return open(dataKey, payload, ENCRYPTED_PREFIX).toString('utf8');
+    } catch {
+      throw new TokenEncryptionError('Token da Deriv corrompido ou adulterado');
+    }
+  }
+
+  /**
+   * Cifra os tokens de deriv_raw (tokensByLoginId). O restante do JSON (saldos, account_list)
+   * continua legível para as consultas que já o utilizam.
+   */
+  encryptDerivRaw<T = any>(raw: T): T {
+    return this.mapDerivRawTokens(raw, (token) => this.encrypt(token));
+  }
+
+  decryptDerivRaw<T = any>(raw: T): T {
+    return this.mapDerivRawTokens(raw, (token) => this.decrypt(token));
+  }
+
+  private mapDerivRawTokens<T>(raw: T, map: (token: string) => string): T {
+    let parsed: any = raw;
+    if (typeof raw === 'string') {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        return raw; // JSON inválido: o chamador trata como já fazia antes
+      }
+    }
+    if (
+      !parsed?.tokensByLoginId ||
+      typeof parsed.tokensByLoginId !== 'object'
+    ) {
+      return raw;
+    }
+
+    const tokensByLoginId: Record<string, unknown> = {};
+    for (const [loginid, token] of Object.entries(parsed.tokensByLoginId)) {
+      tokensByLoginId[loginid] = typeof token === 'string' ? map(token) : token;
+    }
+    const mapped = { ...parsed, tokensByLoginId };
+    return (typeof raw === 'string' ? JSON.stringify(mapped) : mapped) as T;
+  }
+
+  private unwrap(value: string): {
+    version: string;
+    dataKey: Buffer;
+    payload: Buffer;
+  } {
+    const [, version, wrappedKey, payload] = value.split(':');
+    const masterKey = this.keyring.keys.get(version);
+    if (!masterKey) {
+      throw new TokenEncryptionError(
+        `Chave mestra ${version} não está em DERIV_TOKEN_ENCRYPTION_KEYS`,
+      );
+    }
+    try {
+      return {
+        version,
+        dataKey: open(masterKey, Buffer.from(wrappedKey, 'base64url'), version),
+        payload: Buffer.from(payload, 'base64url'),
+      };
+    } catch {
+      throw new TokenEncryptionError(
+        `Não foi possível abrir a chave de dados com a chave mestra ${version}`,
+      );
+    }
+  }
+
+  private format(version: string, wrappedKey: Buffer, payload: Buffer): string {
+    return [
+      ENCRYPTED_PREFIX,
+      version,
+      wrappedKey.toString('base64url'),
+      payload.toString('base64url'),
+    ].join(':');
+  }
+}
+
+let sharedInstance: TokenEncryptionService | null = null;
+const transformerLogger = new Logger('TokenEncryption');
+
+/**
+ * Instância usada fora do container do Nest (transformers das entidades, migrations, scripts)
+ */
+export function getTokenEncryption(): TokenEncryptionService {
+  if (!sharedInstance) {
+    sharedInstance = new TokenEncryptionService();
+  }
+  return sharedInstance;
+}
+
+/**
+ * Transformers das colunas de token da UserEntity: o repositório grava cifrado e lê em texto puro.
+ * Na leitura, uma chave ausente não impede o carregamento do usuário (o token fica indisponível).
+ */
+export const encryptedTokenTransformer: ValueTransformer = {
+  to: (value: unknown) =>
+    typeof value === 'string' ? getTokenEncryption().encrypt(value) : value,
+  from: (value: unknown) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return getTokenEncryption().decrypt(value);
+    } catch (error) {
+      transformerLogger.error(
+        `[TokenEncryption] ❌ Falha ao decifrar token da Deriv: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  },
+};
+
+export const encryptedDerivRawTransformer: ValueTransformer = {
+  to: (value: unknown) =>
+    value && typeof value === 'object'
+      ? getTokenEncryption().encryptDerivRaw(value)
+      : value,
+  from: (value: unknown) => {
+    if (!value) return value;
+    try {
+      return getTokenEncryption().decryptDerivRaw(value);
+    } catch (error) {
+      transformerLogger.error(
+        `[TokenEncryption] ❌ Falha ao decifrar deriv_raw: ${(error as Error).message}`,
+      );
+      return value;
+    }
+  },
+};
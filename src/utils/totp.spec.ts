@@ -0,0 +1,99 @@
+import {
+  TOTP_PERIOD_SECONDS,
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // Segredo dos vetores SHA-1 da RFC 6238 (apêndice B): "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+  const at = (seconds: number) => seconds * 1000;
+
+  it('codifica e decodifica base32 sem perda', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(rfcSecret).toString('ascii')).toBe(
+      '12345678901234567890',
+    );
+
+    for (const length of [1, 5, 7, 20]) {
+      const bytes = Buffer.from(
+        Array.from({ length }, (_, i) => (i * 37 + 11) & 255),
+      );
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    }
+
+    // Apps autenticadores exibem o segredo em minúsculas e com espaços
+    expect(base32Decode('gezd gnbv-gy3t qojq')).toEqual(
+      base32Decode('GEZDGNBVGY3TQOJQ'),
+    );
+    expect(() => base32Decode('GEZD1')).toThrow('base32');
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('reproduz os vetores SHA-1 da RFC 6238 (6 últimos dígitos)', () => {
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ];
+    for (const [seconds, code] of vectors) {
+      expect(generateTotp(rfcSecret, totpStep(at(seconds)))).toBe(code);
+      expect(verifyTotp(rfcSecret, code, 0, at(seconds))).toBe(
+        totpStep(at(seconds)),
+      );
+    }
+  });
+
+  it('aceita o passo anterior e o seguinte, mas não além da janela', () => {
+    const now = at(1111111111);
+    const step = totpStep(now);
+    const code = generateTotp(rfcSecret, step);
+
+    expect(verifyTotp(rfcSecret, code, 1, now)).toBe(step);
+    expect(verifyTotp(rfcSecret, code, 1, now + at(TOTP_PERIOD_SECONDS))).toBe(
+      step,
+    );
+    expect(verifyTotp(rfcSecret, code, 1, now - at(TOTP_PERIOD_SECONDS))).toBe(
+      step,
+    );
+    expect(
+      verifyTotp(rfcSecret, code, 1, now + at(2 * TOTP_PERIOD_SECONDS)),
+    ).toBeNull();
+    expect(
+      verifyTotp(rfcSecret, code, 0, now + at(TOTP_PERIOD_SECONDS)),
+    ).toBeNull();
+  });
+
+  it('devolve o passo que casou, para o chamador recusar reuso', () => {
+    const now = at(2000000000);
+    const step = totpStep(now);
+    const previous = generateTotp(rfcSecret, step - 1);
+
+    // O código do passo anterior casa com o próprio passo, não com o atual
+    expect(verifyTotp(rfcSecret, previous, 1, now)).toBe(step - 1);
+
+    // A função é pura: o mesmo código volta a casar com o mesmo passo enquanto estiver
+    // na janela, então quem impede o reuso é a comparação com o último passo aceito
+    const current = generateTotp(rfcSecret, step);
+    const first = verifyTotp(rfcSecret, current, 1, now);
+    const replay = verifyTotp(rfcSecret, current, 1, now + at(20));
+    expect(first).toBe(step);
+    expect(replay).toBe(first);
+  });
+
+  it('recusa códigos mal formados', () => {
+    const now = at(59);
+    expect(verifyTotp(rfcSecret, '287 082', 1, now)).not.toBeNull();
+    expect(verifyTotp(rfcSecret, '28708', 1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, '2870820', 1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', 1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, '', 1, now)).toBeNull();
+  });
+});
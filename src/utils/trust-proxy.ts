@@ -0,0 +1,13 @@
+/**
+ * Valor de `trust proxy` do Express a partir de TRUST_PROXY.
+ * Padrão 'loopback': o nginx roda no mesmo host (proxy_pass http://localhost:3000), então só o
+ * salto local é confiável e req.ip passa a ser o cliente informado em X-Forwarded-For.
+ * Aceita 'false' (conexão direta), um número de saltos ou uma lista de endereços/sub-redes.
+ */
+export function resolveTrustProxy(value?: string): boolean | number | string {
+  const raw = (value ?? '').trim();
+  if (!raw) return 'loopback';
+  if (raw === 'false') return false;
+  if (/^\d+$/.test(raw)) return parseInt(raw, 10);
+  return raw;
+}
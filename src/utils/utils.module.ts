@@ -1,16 +1,19 @@
 import { Global, Module } from '@nestjs/common';
 import { LogQueueService } from './log-queue.service';
+import { TickStoreService } from './tick-store.service';
+import {
+  TokenEncryptionService,
+  getTokenEncryption,
+} from './token-encryption.service';
 
 @Global()
 @Module({
-  providers: [LogQueueService],
-  exports: [LogQueueService],
+  providers: [
+    LogQueueService,
+    TickStoreService,
+    // Mesma instância usada pelos transformers das entidades
+    { provide: TokenEncryptionService, useFactory: getTokenEncryption },
+  ],
+  exports: [LogQueueService, TickStoreService, TokenEncryptionService],
 })
 export class UtilsModule {}
-
-
-
-
-
-
-
@@ -0,0 +1,77 @@
+import { createHmac } from 'crypto';
+import {
+  computePlanExpiration,
+  kiwifyExternalIds,
+  resolveKiwifyAction,
+  verifyKiwifySignature,
+} from './kiwify-events';
+
+describe('kiwify-events', () => {
+  it('confere a assinatura HMAC-SHA1 do corpo bruto', () => {
+    const body = '{"order_id":"abc"}';
+    const signature = createHmac('sha1', 'segredo').update(body).digest('hex');
+
+    expect(verifyKiwifySignature(body, signature, 'segredo')).toBe(true);
+    expect(
+      verifyKiwifySignature(body, signature.toUpperCase(), 'segredo'),
+    ).toBe(true);
+    expect(verifyKiwifySignature(body, signature, 'outro')).toBe(false);
+    expect(verifyKiwifySignature(body, undefined, 'segredo')).toBe(false);
+    expect(verifyKiwifySignature(body, signature, '')).toBe(false);
+  });
+
+  it('mapeia os eventos do ciclo de vida', () => {
+    expect(
+      resolveKiwifyAction({
+        webhook_event_type: 'order_approved',
+        order_status: 'paid',
+      }),
+    ).toBe('grant');
+    expect(
+      resolveKiwifyAction({
+        webhook_event_type: 'order_approved',
+        order_status: 'waiting_payment',
+      }),
+    ).toBeNull();
+    expect(
+      resolveKiwifyAction({ webhook_event_type: 'subscription_renewed' }),
+    ).toBe('renew');
+    expect(resolveKiwifyAction({ webhook_event_type: 'chargeback' })).toBe(
+      'revoke',
+    );
+    expect(
+      resolveKiwifyAction({ webhook_event_type: 'pix_created' }),
+    ).toBeNull();
+  });
+
+  it('lista oferta antes do produto para achar o plano', () => {
+    expect(
+      kiwifyExternalIds({
+        Product: { product_id: 'prod-1', offer_id: 'offer-1' },
+        Subscription: { plan: { id: 'offer-1' } },
+      }),
+    ).toEqual(['offer-1', 'prod-1']);
+    expect(kiwifyExternalIds({})).toEqual([]);
+  });
+
+  it('calcula a expiração pela assinatura ou pelo billing_period', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    expect(
+      computePlanExpiration('month', null, '2026-04-10T00:00:00Z', now),
+    ).toEqual(new Date('2026-04-10T00:00:00Z'));
+    expect(computePlanExpiration('year', null, null, now)).toEqual(
+      new Date('2027-03-10T12:00:00Z'),
+    );
+    // Renovação antes do vencimento soma a partir da expiração atual
+    expect(
+      computePlanExpiration(
+        'month',
+        new Date('2026-03-20T12:00:00Z'),
+        null,
+        now,
+      ),
+    ).toEqual(new Date('2026-04-20T12:00:00Z'));
+    expect(computePlanExpiration('lifetime', null, null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * O que um evento da Kiwify faz com o plano do comprador
+ */
+export type KiwifyLifecycleAction = 'grant' | 'renew' | 'revoke';
+
+const LIFECYCLE_EVENTS: Record<string, KiwifyLifecycleAction> = {
+  order_approved: 'grant',
+  subscription_renewed: 'renew',
+  order_refunded: 'revoke',
+  chargeback: 'revoke',
+  subscription_canceled: 'revoke',
+};
+
+/**
+ * Duração de cada billing_period do plano, em meses. Períodos fora da lista (ex.: lifetime) não expiram.
+ */
+const BILLING_PERIOD_MONTHS: Record<string, number> = {
+  month: 1,
+  monthly: 1,
+  quarter: 3,
+  quarterly: 3,
+  semester: 6,
+  semiannual: 6,
+  year: 12,
+  yearly: 12,
+  annual: 12,
+};
+
+/**
+ * Confere o `?signature=` da Kiwify: HMAC-SHA1 (hex) do corpo bruto com o token do webhook
+ */
+export function verifyKiwifySignature(
+  rawBody: string | Buffer,
+  signature: string | undefined | null,
+  secret: string,
+): boolean {
+  if (!signature || !secret) return false;
+  const expected = createHmac('sha1', secret).update(rawBody).digest('hex');
+  const received = String(signature).trim().toLowerCase();
+  if (received.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Ação do ciclo de vida para o payload, ou null se o evento não mexe no plano.
+ * Pedido aprovado só concede o plano quando o status é 'paid'.
+ */
+export function resolveKiwifyAction(
+  payload: any,
+): KiwifyLifecycleAction | null {
+  const action = LIFECYCLE_EVENTS[payload?.webhook_event_type];
+  if (!action) return null;
+  if (action === 'grant' && payload.order_status !== 'paid') return null;
+  return action;
+}
+
+/**
+ * Identificadores que podem estar em plans.external_id, do mais específico (oferta) ao produto
+ */
+export function kiwifyExternalIds(payload: any): string[] {
+  const candidates = [
+    payload?.Product?.offer_id,
+    payload?.offer_id,
+    payload?.Subscription?.plan?.id,
+    payload?.Product?.product_id,
+  ];
+  return [
+    ...new Set(
+      candidates
+        .filter((value) => value !== undefined && value !== null)
+        .map((value) => String(value).trim())
+        .filter((value) => value.length > 0),
+    ),
+  ];
+}
+
+/**
+ * Nova data de expiração do plano. Usa o próximo pagamento informado pela assinatura quando
+ * houver; senão soma o billing_period a partir da expiração atual (se ainda vigente) ou de agora.
+ * Retorna null para planos sem expiração.
+ */
+export function computePlanExpiration(
+  billingPeriod: string | null | undefined,
+  currentExpiration: Date | null | undefined,
+  nextPayment?: string | null,
+  now: Date = new Date(),
+): Date | null {
+  if (nextPayment) {
+    const next = new Date(nextPayment);
+    if (!isNaN(next.getTime()) && next.getTime() > now.getTime()) return next;
+  }
+
+  const months =
+    BILLING_PERIOD_MONTHS[String(billingPeriod || '').toLowerCase()];
+  if (!months) return null;
+
+  const base =
+    currentExpiration && currentExpiration.getTime() > now.getTime()
+      ? new Date(currentExpiration)
+      : new Date(now);
+  base.setUTCMonth(base.getUTCMonth() + months);
+  return base;
+}
@@ -1,17 +1,24 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
 import { UserModule } from '../user.module';
 import { AuthModule } from '../auth/auth.module';
+import { SettingsModule } from '../settings/settings.module';
+import { PlanExpirationModule } from '../plans/plan-expiration.module';
 import { WebhookLogEntity } from '../infrastructure/database/entities/webhook-log.entity';
+import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { PlanEntity } from '../infrastructure/database/entities/plan.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([WebhookLogEntity]),
+    TypeOrmModule.forFeature([WebhookLogEntity, UserEntity, PlanEntity]),
     UserModule,
     AuthModule,
+    forwardRef(() => SettingsModule),
+    forwardRef(() => PlanExpirationModule), // ✅ Desativar produtos quando o plano é revogado
   ],
   controllers: [WebhookController],
+  providers: [WebhookService],
 })
 export class WebhookModule { }
-
@@ -0,0 +1,466 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { randomInt } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import * as bcrypt from 'bcrypt';
+import { WebhookLogEntity } from '../infrastructure/database/entities/webhook-log.entity';
+import { UserEntity } from '../infrastructure/database/entities/user.entity';
+import { PlanEntity } from '../infrastructure/database/entities/plan.entity';
+import type { UserRepository } from '../domain/repositories/user.repository';
+import { USER_REPOSITORY_TOKEN } from '../constants/tokens';
+import { User } from '../domain/entities/user.entity';
+import { EmailService } from '../auth/email.service';
+import { SettingsService } from '../settings/settings.service';
+import { PlanExpirationService } from '../plans/plan-expiration.service';
+import {
+  PRODUCT_LABELS,
+  resolvePlanEntitlements,
+} from '../plans/plan-entitlements';
+import { KiwifyWebhookDto } from './dto/kiwify-webhook.dto';
+import {
+  computePlanExpiration,
+  kiwifyExternalIds,
+  resolveKiwifyAction,
+  verifyKiwifySignature,
+} from './kiwify-events';
+
+type WebhookOutcome = {
+  status: 'processed' | 'ignored' | 'duplicate' | 'failed';
+  details: string;
+};
+
+/**
+ * Webhooks da Kiwify: valida a assinatura, registra em webhook_logs, deduplica por pedido+evento
+ * e aplica o ciclo de vida do plano (aprovado, renovado, reembolsado/chargeback/cancelado).
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @Inject(USER_REPOSITORY_TOKEN)
+    private readonly userRepository: UserRepository,
+    @InjectRepository(WebhookLogEntity)
+    private readonly webhookLogRepository: Repository<WebhookLogEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userEntityRepository: Repository<UserEntity>,
+    @InjectRepository(PlanEntity)
+    private readonly planRepository: Repository<PlanEntity>,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+    private readonly settingsService: SettingsService,
+    @Inject(forwardRef(() => PlanExpirationService))
+    private readonly planExpirationService: PlanExpirationService,
+  ) {}
+
+  /**
+   * Recebe o POST da Kiwify. Assinatura inválida fica registrada no log e responde 401.
+   */
+  async receive(
+    payload: any,
+    rawBody: Buffer | string | undefined,
+    signature: string | undefined,
+  ) {
+    const actualPayload = Array.isArray(payload) ? payload[0] : payload;
+
+    const log = new WebhookLogEntity();
+    log.payload = JSON.stringify(payload);
+    log.status = 'received';
+    log.eventType = actualPayload?.webhook_event_type;
+    log.orderId = actualPayload?.order_id
+      ? String(actualPayload.order_id)
+      : null;
+    log.email = actualPayload?.Customer?.email;
+
+    try {
+      await this.webhookLogRepository.save(log);
+    } catch (dbError) {
+      this.logger.error(`❌ Erro ao salvar log do webhook: ${dbError.message}`);
+    }
+
+    const secret = this.configService.get<string>('KIWIFY_WEBHOOK_SECRET');
+    if (!secret) {
+      this.logger.error(
+        '❌ KIWIFY_WEBHOOK_SECRET não configurado. Webhook recusado.',
+      );
+    }
+    const body = rawBody ?? JSON.stringify(payload);
+    if (!secret || !verifyKiwifySignature(body, signature, secret)) {
+      this.logger.warn(
+        `🚫 Assinatura inválida no webhook ${log.eventType || 'desconhecido'} (pedido ${log.orderId || 'N/A'})`,
+      );
+      await this.finishLog(
+        log,
+        { status: 'failed', details: 'Assinatura inválida' },
+        'invalid_signature',
+      );
+      throw new UnauthorizedException('Assinatura inválida');
+    }
+
+    const outcome = await this.process(log, actualPayload);
+    return { success: outcome.status !== 'failed', status: outcome.status };
+  }
+
+  /**
+   * Reprocessa um webhook já registrado (admin). Com force, ignora a deduplicação e aceita
+   * logs já processados ou que chegaram com assinatura inválida.
+   */
+  async replay(logId: number, force = false) {
+    const log = await this.webhookLogRepository.findOne({
+      where: { id: logId },
+    });
+    if (!log) {
+      throw new NotFoundException('Log de webhook não encontrado');
+    }
+    if (log.status === 'invalid_signature' && !force) {
+      throw new BadRequestException(
+        'Webhook recebido com assinatura inválida. Use force para reprocessar.',
+      );
+    }
+    if (log.status === 'processed' && !force) {
+      throw new BadRequestException(
+        'Webhook já processado. Use force para aplicar novamente.',
+      );
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(log.payload);
+    } catch {
+      throw new BadRequestException('Payload armazenado não é um JSON válido');
+    }
+    const actualPayload = Array.isArray(payload) ? payload[0] : payload;
+    log.eventType = actualPayload?.webhook_event_type ?? log.eventType;
+    log.orderId = actualPayload?.order_id
+      ? String(actualPayload.order_id)
+      : log.orderId;
+
+    this.logger.log(
+      `[Replay] Reprocessando webhook #${log.id} (${log.eventType}, pedido ${log.orderId || 'N/A'})${force ? ' com force' : ''}`,
+    );
+    const outcome = await this.process(log, actualPayload, force);
+    return { logId: log.id, ...outcome };
+  }
+
+  private async process(
+    log: WebhookLogEntity,
+    payload: any,
+    force = false,
+  ): Promise<WebhookOutcome> {
+    let outcome: WebhookOutcome;
+    try {
+      outcome = await this.applyLifecycle(log, payload, force);
+    } catch (error) {
+      this.logger.error(
+        `❌ Erro ao processar webhook ${log.eventType} (pedido ${log.orderId || 'N/A'}): ${error.message}`,
+        error.stack,
+      );
+      outcome = { status: 'failed', details: error.message };
+    }
+
+    const icon =
+      outcome.status === 'processed'
+        ? '✅'
+        : outcome.status === 'failed'
+          ? '❌'
+          : '⚠️';
+    this.logger.log(
+      `${icon} Webhook ${log.eventType || 'desconhecido'} (pedido ${log.orderId || 'N/A'}): ${outcome.status} - ${outcome.details}`,
+    );
+    await this.finishLog(log, outcome);
+    return outcome;
+  }
+
+  private async applyLifecycle(
+    log: WebhookLogEntity,
+    payload: any,
+    force: boolean,
+  ): Promise<WebhookOutcome> {
+    if (!payload || typeof payload !== 'object') {
+      return { status: 'failed', details: 'Payload inválido' };
+    }
+
+    const action = resolveKiwifyAction(payload);
+    if (!action) {
+      return {
+        status: 'ignored',
+        details: `Evento ${payload.webhook_event_type || 'desconhecido'} (status ${payload.order_status || 'N/A'}) não altera o plano`,
+      };
+    }
+
+    if (log.orderId && !force) {
+      const alreadyProcessed = await this.webhookLogRepository.findOne({
+        where: {
+          orderId: log.orderId,
+          eventType: log.eventType,
+          status: 'processed',
+          ...(log.id ? { id: Not(log.id) } : {}),
+        },
+      });
+      if (alreadyProcessed) {
+        return {
+          status: 'duplicate',
+          details: `Já processado no webhook #${alreadyProcessed.id}`,
+        };
+      }
+    }
+
+    const email = payload.Customer?.email;
+    if (!email) {
+      return { status: 'failed', details: 'Customer.email ausente' };
+    }
+
+    switch (action) {
+      case 'grant':
+        return this.grantPlan(payload as KiwifyWebhookDto);
+      case 'renew':
+        return this.renewPlan(payload as KiwifyWebhookDto);
+      case 'revoke':
+        return this.revokePlan(payload as KiwifyWebhookDto);
+    }
+  }
+
+  /**
+   * Pedido aprovado: cria o usuário se necessário e vincula o plano da oferta (plans.external_id)
+   */
+  private async grantPlan(payload: KiwifyWebhookDto): Promise<WebhookOutcome> {
+    const email = payload.Customer.email;
+    const plan = await this.findPlan(payload);
+
+    let user = await this.userEntityRepository.findOne({ where: { email } });
+    let created = false;
+    if (!user) {
+      await this.createCustomerUser(payload);
+      user = await this.userEntityRepository.findOne({ where: { email } });
+      created = true;
+      if (!user) {
+        throw new Error(`Usuário ${email} não encontrado após a criação`);
+      }
+    }
+
+    if (!plan) {
+      return {
+        status: 'processed',
+        details: `${created ? 'Usuário criado' : 'Usuário existente'}; nenhum plano com external_id em [${kiwifyExternalIds(payload).join(', ')}]`,
+      };
+    }
+
+    const samePlan = user.planId === plan.id;
+    user.planId = plan.id;
+    user.kiwifyOfferId = this.offerId(payload);
+    user.planActivatedAt =
+      samePlan && user.planActivatedAt ? user.planActivatedAt : new Date();
+    user.planExpirationDate = computePlanExpiration(
+      plan.billingPeriod,
+      samePlan ? user.planExpirationDate : null,
+      payload.Subscription?.next_payment,
+    );
+    await this.userEntityRepository.save(user);
+
+    return {
+      status: 'processed',
+      details: `${created ? 'Usuário criado' : 'Usuário existente'}; plano ${plan.name} até ${this.formatExpiration(user.planExpirationDate)}`,
+    };
+  }
+
+  /**
+   * Assinatura renovada: estende plan_expiration_date pelo período do plano
+   */
+  private async renewPlan(payload: KiwifyWebhookDto): Promise<WebhookOutcome> {
+    const email = payload.Customer.email;
+    const user = await this.userEntityRepository.findOne({
+      where: { email },
+      relations: ['plan'],
+    });
+    if (!user) {
+      return {
+        status: 'failed',
+        details: `Usuário ${email} não encontrado para renovação`,
+      };
+    }
+
+    const plan = (await this.findPlan(payload)) || user.plan;
+    if (!plan) {
+      return {
+        status: 'failed',
+        details: `Nenhum plano para renovar (external_id em [${kiwifyExternalIds(payload).join(', ')}])`,
+      };
+    }
+
+    const samePlan = user.planId === plan.id;
+    user.planId = plan.id;
+    user.plan = plan;
+    user.kiwifyOfferId = this.offerId(payload) ?? user.kiwifyOfferId;
+    if (!samePlan || !user.planActivatedAt) user.planActivatedAt = new Date();
+    user.planExpirationDate = computePlanExpiration(
+      plan.billingPeriod,
+      samePlan ? user.planExpirationDate : null,
+      payload.Subscription?.next_payment,
+    );
+    await this.userEntityRepository.save(user);
+
+    return {
+      status: 'processed',
+      details: `Plano ${plan.name} renovado até ${this.formatExpiration(user.planExpirationDate)}`,
+    };
+  }
+
+  /**
+   * Reembolso, chargeback ou cancelamento: remove o plano e desliga IA, agente e copy trading.
+   * Só revoga se o usuário ainda estiver no plano da oferta do pedido.
+   */
+  private async revokePlan(payload: KiwifyWebhookDto): Promise<WebhookOutcome> {
+    const email = payload.Customer.email;
+    const user = await this.userEntityRepository.findOne({ where: { email } });
+    if (!user) {
+      return {
+        status: 'ignored',
+        details: `Usuário ${email} não encontrado; nada a revogar`,
+      };
+    }
+
+    const plan = await this.findPlan(payload);
+    const ownsPlan = plan
+      ? user.planId === plan.id
+      : !!user.kiwifyOfferId &&
+        kiwifyExternalIds(payload).includes(user.kiwifyOfferId);
+    if (!user.planId || !ownsPlan) {
+      return {
+        status: 'ignored',
+        details: `Usuário ${email} não está no plano deste pedido`,
+      };
+    }
+
+    user.planId = null;
+    user.plan = null;
+    user.planExpirationDate = new Date();
+    await this.userEntityRepository.save(user);
+
+    const reason = `Plano revogado pela Kiwify (${payload.webhook_event_type})`;
+    const stopped = await this.planExpirationService.stopUncoveredProducts(
+      user.id,
+      resolvePlanEntitlements(null),
+      reason,
+    );
+    await this.settingsService.logActivity(
+      user.id,
+      'PLAN_REVOKED',
+      `${reason}. Pedido ${payload.order_id}`,
+    );
+    return {
+      status: 'processed',
+      details: `Plano removido${stopped.length > 0 ? `; desativados: ${stopped.map((product) => PRODUCT_LABELS[product]).join(', ')}` : ''}`,
+    };
+  }
+
+  private async createCustomerUser(payload: KiwifyWebhookDto): Promise<void> {
+    const customer = payload.Customer;
+    const name = customer.full_name || customer.first_name || 'Usuário';
+    const temporaryPassword = this.generateTemporaryPassword();
+
+    const user = User.create(
+      uuidv4(),
+      name,
+      customer.email,
+      await bcrypt.hash(temporaryPassword, 10),
+    );
+    const createdUser = await this.userRepository.create(user);
+    this.logger.log(
+      `✅ Usuário criado via Kiwify: ${createdUser.id} (${customer.email})`,
+    );
+
+    const platformUrl = process.env.FRONTEND_URL || 'https://iazenix.com';
+    try {
+      await this.emailService.sendWelcomeEmail(
+        customer.email,
+        name,
+        temporaryPassword,
+        platformUrl,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Erro ao enviar email de boas-vindas para ${customer.email}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findPlan(payload: any): Promise<PlanEntity | null> {
+    const externalIds = kiwifyExternalIds(payload);
+    if (externalIds.length === 0) return null;
+    const plans = await this.planRepository.find({
+      where: { externalId: In(externalIds) },
+    });
+    // Respeita a ordem de preferência (oferta antes do produto)
+    for (const externalId of externalIds) {
+      const plan = plans.find(
+        (candidate) => candidate.externalId === externalId,
+      );
+      if (plan) return plan;
+    }
+    return null;
+  }
+
+  private offerId(payload: any): string | null {
+    const [offerId] = kiwifyExternalIds(payload);
+    return offerId ? offerId.substring(0, 50) : null;
+  }
+
+  private formatExpiration(date: Date | null | undefined): string {
+    return date ? date.toISOString() : 'sem expiração';
+  }
+
+  private async finishLog(
+    log: WebhookLogEntity,
+    outcome: WebhookOutcome,
+    status: string = outcome.status,
+  ) {
+    if (!log.id) return;
+    try {
+      await this.webhookLogRepository.update(log.id, {
+        status,
+        details: outcome.details.substring(0, 60000),
+        orderId: log.orderId,
+        eventType: log.eventType,
+        processedAt:
+          status === 'processed' ? new Date() : (log.processedAt ?? null),
+      });
+    } catch (dbError) {
+      this.logger.error(
+        `❌ Erro ao atualizar log do webhook #${log.id}: ${dbError.message}`,
+      );
+    }
+  }
+
+  /**
+   * Senha temporária de 12 caracteres com maiúscula, minúscula e número (crypto.randomInt)
+   */
+  private generateTemporaryPassword(): string {
+    const uppercase = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+    const lowercase = 'abcdefghijkmnopqrstuvwxyz';
+    const numbers = '23456789';
+    const allChars = uppercase + lowercase + numbers;
+    const pick = (chars: string) => chars[randomInt(chars.length)];
+
+    const password = [pick(uppercase), pick(lowercase), pick(numbers)];
+    while (password.length < 12) {
+      password.push(pick(allChars));
+    }
+
+    // Fisher-Yates para não deixar os tipos obrigatórios sempre no início
+    for (let i = password.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1);
+      [password[i], password[j]] = [password[j], password[i]];
+    }
+    return password.join('');
+  }
+}
@@ -0,0 +1,112 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException, ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { getDataSourceToken } from '@nestjs/typeorm';
+import request from 'supertest';
+import { AuthController } from './../src/auth/auth.controller';
+import { AuthService, LoginClient } from './../src/auth/auth.service';
+import { EmailService } from './../src/auth/email.service';
+import { LoginThrottleService } from './../src/auth/login-throttle.service';
+import { CoursesService } from './../src/courses/courses.service';
+import { SettingsService } from './../src/settings/settings.service';
+import { resolveTrustProxy } from './../src/utils/trust-proxy';
+
+// uuid 13 é só ESM; o AuthService real não é usado aqui
+jest.mock('uuid', () => ({ v4: () => '00000000-0000-4000-8000-000000000000' }));
+
+/**
+ * Atrás do nginx todas as conexões chegam de 127.0.0.1: a chave de throttling por IP precisa
+ * usar o cliente de X-Forwarded-For (sem banco: o DataSource só registra as consultas).
+ */
+describe('Login throttling behind the reverse proxy (e2e)', () => {
+  const query = jest
+    .fn<Promise<unknown[]>, [string, unknown[]?]>()
+    .mockResolvedValue([]);
+
+  const createApp = async (trustProxy: boolean | number | string) => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        LoginThrottleService,
+        { provide: getDataSourceToken(), useValue: { query } },
+        { provide: EmailService, useValue: {} },
+        { provide: SettingsService, useValue: {} },
+        { provide: CoursesService, useValue: {} },
+        {
+          provide: AuthService,
+          inject: [LoginThrottleService],
+          useFactory: (throttle: LoginThrottleService) => ({
+            // Mesmo gate de AuthService.login, seguido de credenciais inválidas
+            login: async (
+              email: string,
+              _password: string,
+              client: LoginClient,
+            ) => {
+              await throttle.assertAllowed('login', {
+                account: email,
+                ip: client.ipAddress,
+              });
+              throw new UnauthorizedException('Credenciais inválidas');
+            },
+          }),
+        },
+      ],
+    }).compile();
+
+    const app = moduleRef.createNestApplication<NestExpressApplication>();
+    app.set('trust proxy', trustProxy);
+    app.useGlobalPipes(
+      new ValidationPipe({ whitelist: true, transform: true }),
+    );
+    await app.init();
+    return app;
+  };
+
+  const throttledIpKeys = () =>
+    query.mock.calls
+      .map(([, params]) => params?.[0])
+      .filter(
+        (key): key is string =>
+          typeof key === 'string' && key.startsWith('login:ip:'),
+      );
+
+  const login = (app: NestExpressApplication, forwardedFor: string) =>
+    request(app.getHttpServer())
+      .post('/auth/login')
+      .set('X-Forwarded-For', forwardedFor)
+      .send({ email: 'cliente@e2e.local', password: 'senha-errada' })
+      .expect(401);
+
+  beforeEach(() => query.mockClear());
+
+  it('usa o IP do cliente repassado pelo nginx local', async () => {
+    const app = await createApp(resolveTrustProxy(undefined));
+    try {
+      await login(app, '203.0.113.7');
+      expect(throttledIpKeys()).toEqual(['login:ip:203.0.113.7']);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('ignora entradas forjadas pelo cliente antes do salto confiável', async () => {
+    const app = await createApp(resolveTrustProxy(undefined));
+    try {
+      await login(app, '10.9.9.9, 203.0.113.7');
+      expect(throttledIpKeys()).toEqual(['login:ip:203.0.113.7']);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('sem trust proxy todos os clientes caem no IP do proxy', async () => {
+    const app = await createApp(resolveTrustProxy('false'));
+    try {
+      await login(app, '203.0.113.7');
+      expect(throttledIpKeys()).toHaveLength(1);
+      expect(throttledIpKeys()[0]).not.toContain('203.0.113.7');
+    } finally {
+      await app.close();
+    }
+  });
+});
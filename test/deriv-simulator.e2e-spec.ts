@@ -0,0 +1,431 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import WebSocket from 'ws';
+import { DerivSimulatorServer } from './../src/broker/simulator/deriv-simulator.server';
+import { BrokerGatewayService } from './../src/broker/broker-gateway.service';
+import { DerivService } from './../src/broker/deriv.service';
+import { MarkupService } from './../src/markup/markup.service';
+import { DerivTradeSettlementSource } from './../src/trades/settlement/deriv-trade-settlement.source';
+
+/**
+ * Cliente mínimo para conversar com o simulador (respostas casadas por req_id)
+ */
+class TestClient {
+  readonly messages: any[] = [];
+  private readonly ws: WebSocket;
+  private nextReqId = 1;
+
+  private constructor(ws: WebSocket) {
+    this.ws = ws;
+    ws.on('message', (data: WebSocket.RawData) =>
+      this.messages.push(JSON.parse(data.toString())),
+    );
+  }
+
+  static connect(url: string): Promise<TestClient> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`${url}?app_id=1`);
+      ws.once('open', () => resolve(new TestClient(ws)));
+      ws.once('error', reject);
+    });
+  }
+
+  request(payload: Record<string, any>): Promise<any> {
+    const reqId = this.nextReqId++;
+    this.ws.send(JSON.stringify({ ...payload, req_id: reqId }));
+    return this.waitFor((msg) => msg.req_id === reqId);
+  }
+
+  waitFor(predicate: (msg: any) => boolean, timeoutMs = 2000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const started = Date.now();
+      const poll = () => {
+        const found = this.messages.find(predicate);
+        if (found) return resolve(found);
+        if (Date.now() - started > timeoutMs) {
+          return reject(new Error('Mensagem esperada não recebida'));
+        }
+        setTimeout(poll, 5);
+      };
+      poll();
+    });
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('Deriv simulator (e2e)', () => {
+  let simulator: DerivSimulatorServer;
+  let url: string;
+  const originalUrl = process.env.DERIV_WS_URL;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    simulator = new DerivSimulatorServer({
+      seed: 7,
+      startEpoch: 1700000000,
+      accounts: {
+        'real-token': { loginid: 'CR100001', balance: 500 },
+        'demo-token': {
+          loginid: 'VRTC100001',
+          balance: 10000,
+          isVirtual: true,
+        },
+      },
+    });
+    url = await simulator.start();
+    process.env.DERIV_WS_URL = url;
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+    process.env.DERIV_WS_URL = originalUrl;
+  });
+
+  describe('protocolo', () => {
+    it('gera a mesma sequência de ticks para a mesma semente', () => {
+      const other = new DerivSimulatorServer({
+        seed: 7,
+        startEpoch: 1700000000,
+      });
+      simulator.advance(5);
+      other.advance(5);
+
+      expect(simulator.getLatestTick('R_100')).toEqual(
+        other.getLatestTick('R_100'),
+      );
+      expect(simulator.getLatestTick('R_100')?.epoch).toBe(1700000005);
+    });
+
+    it('autoriza tokens válidos e rejeita tokens inválidos', async () => {
+      const client = await TestClient.connect(url);
+
+      const invalid = await client.request({ authorize: 'invalid-token' });
+      expect(invalid.error.code).toBe('InvalidToken');
+
+      const auth = await client.request({ authorize: 'real-token' });
+      expect(auth.msg_type).toBe('authorize');
+      expect(auth.authorize).toMatchObject({
+        loginid: 'CR100001',
+        currency: 'USD',
+        balance: 500,
+        is_virtual: 0,
+      });
+
+      const balance = await client.request({ balance: 1, account: 'all' });
+      expect(balance.balance.accounts.CR100001).toMatchObject({
+        balance: 500,
+        demo_account: 0,
+      });
+      client.close();
+    });
+
+    it('entrega histórico e ticks da assinatura de ticks_history', async () => {
+      const client = await TestClient.connect(url);
+      const history = await client.request({
+        ticks_history: 'R_50',
+        count: 100,
+        end: 'latest',
+        style: 'ticks',
+        subscribe: 1,
+      });
+
+      expect(history.msg_type).toBe('history');
+      expect(history.history.prices).toHaveLength(100);
+      expect(history.history.times[99]).toBe(1700000000);
+
+      simulator.advance(2);
+      await flush();
+      const ticks = client.messages.filter(
+        (msg) =>
+          msg.msg_type === 'tick' &&
+          msg.subscription?.id === history.subscription.id,
+      );
+      expect(ticks.map((msg) => msg.tick.epoch)).toEqual([
+        1700000001, 1700000002,
+      ]);
+
+      const forget = await client.request({ forget: history.subscription.id });
+      expect(forget.forget).toBe(1);
+      client.close();
+    });
+
+    it('liquida contratos pelas regras do simulador e atualiza o saldo', async () => {
+      const client = await TestClient.connect(url);
+      await client.request({ authorize: 'real-token' });
+
+      const proposal = await client.request({
+        proposal: 1,
+        amount: 10,
+        basis: 'stake',
+        contract_type: 'CALL',
+        currency: 'USD',
+        duration: 3,
+        duration_unit: 't',
+        symbol: 'R_100',
+      });
+      expect(proposal.proposal.payout).toBe(19.5);
+
+      const buy = await client.request({
+        buy: proposal.proposal.id,
+        price: proposal.proposal.ask_price,
+      });
+      expect(buy.buy.balance_after).toBe(490);
+      const contractId = buy.buy.contract_id;
+
+      const open = await client.request({
+        proposal_open_contract: 1,
+        contract_id: contractId,
+        subscribe: 1,
+      });
+      expect(open.proposal_open_contract.is_sold).toBe(0);
+
+      // 1 tick de entrada + 3 ticks de duração
+      simulator.advance(4);
+      const settled = await client.waitFor(
+        (msg) =>
+          msg.msg_type === 'proposal_open_contract' &&
+          msg.proposal_open_contract.is_sold === 1,
+      );
+
+      const contract = simulator.getContract(contractId)!;
+      const won = contract.exitTick!.quote > contract.entryTick!.quote;
+      expect(settled.proposal_open_contract).toMatchObject({
+        status: won ? 'won' : 'lost',
+        entry_tick: contract.entryTick!.quote,
+        exit_tick: contract.exitTick!.quote,
+        sell_price: won ? 19.5 : 0,
+        profit: won ? 9.5 : -10,
+      });
+      expect(simulator.getAccount('real-token')?.balance).toBe(
+        won ? 509.5 : 490,
+      );
+      client.close();
+    });
+
+    it('recusa compras sem saldo e contratos não suportados', async () => {
+      const client = await TestClient.connect(url);
+      await client.request({ authorize: 'real-token' });
+
+      const unsupported = await client.request({
+        proposal: 1,
+        amount: 10,
+        basis: 'stake',
+        contract_type: 'ACCU',
+        currency: 'USD',
+        duration: 1,
+        duration_unit: 't',
+        symbol: 'R_100',
+      });
+      expect(unsupported.error.code).toBe('OfferingsValidationError');
+
+      const buy = await client.request({
+        buy: 1,
+        price: 1000,
+        parameters: {
+          amount: 1000,
+          basis: 'stake',
+          contract_type: 'DIGITEVEN',
+          currency: 'USD',
+          duration: 1,
+          duration_unit: 't',
+          symbol: 'R_100',
+        },
+      });
+      expect(buy.error.code).toBe('InsufficientBalance');
+      client.close();
+    });
+  });
+
+  describe('BrokerGatewayService', () => {
+    const originalMaxConnections = process.env.DERIV_MAX_CONNECTIONS;
+    let gateway: BrokerGatewayService;
+
+    beforeEach(() => {
+      gateway = new BrokerGatewayService();
+    });
+
+    afterEach(() => {
+      gateway.onModuleDestroy();
+      if (originalMaxConnections === undefined) {
+        delete process.env.DERIV_MAX_CONNECTIONS;
+      } else {
+        process.env.DERIV_MAX_CONNECTIONS = originalMaxConnections;
+      }
+    });
+
+    it('reutiliza a conexão do token e correlaciona respostas simultâneas por req_id', async () => {
+      const first = await gateway.getConnection('real-token');
+      const second = await gateway.getConnection('real-token');
+      expect(first.loginid).toBe('CR100001');
+      expect(first.currency).toBe('USD');
+      expect(simulator.connectionCount).toBe(1);
+
+      const [time, proposal, balance] = await Promise.all([
+        first.sendRequest({ time: 1 }),
+        second.sendRequest({
+          proposal: 1,
+          amount: 10,
+          basis: 'stake',
+          contract_type: 'DIGITEVEN',
+          currency: 'USD',
+          duration: 1,
+          duration_unit: 't',
+          symbol: 'R_10',
+        }),
+        first.sendRequest({ balance: 1 }),
+      ]);
+
+      expect(time.msg_type).toBe('time');
+      expect(proposal.proposal.ask_price).toBe(10);
+      expect(balance.balance.balance).toBe(500);
+      await expect(
+        first.sendRequest({ buy: 'inexistente', price: 10 }),
+      ).rejects.toMatchObject({ code: 'InvalidContractProposal' });
+    });
+
+    it('reconecta e reenvia as assinaturas após queda da conexão', async () => {
+      const connection = await gateway.getConnection('real-token', {
+        owner: 'e2e',
+      });
+      const epochs: number[] = [];
+      await connection.subscribe(
+        { ticks: 'R_100', subscribe: 1 },
+        (msg: any) => msg.tick && epochs.push(msg.tick.epoch),
+        'ticks-R_100',
+      );
+      simulator.advance(1);
+      await flush();
+      expect(epochs).toEqual([1700000000, 1700000001]);
+
+      simulator.dropConnections();
+      // Primeira tentativa de reconexão após 1s
+      await new Promise((resolve) => setTimeout(resolve, 1300));
+      expect(simulator.connectionCount).toBe(1);
+
+      simulator.advance(1);
+      await flush();
+      expect(epochs).toContain(1700000002);
+      expect(
+        (await connection.sendRequest({ balance: 1 })).balance.loginid,
+      ).toBe('CR100001');
+    });
+
+    it('fecha a conexão quando o último dono a libera', async () => {
+      await gateway.getConnection('real-token', { owner: 'zeus' });
+      await gateway.getConnection('real-token', { owner: 'falcon' });
+
+      gateway.releaseConnection('real-token', 'zeus');
+      await flush();
+      expect(simulator.connectionCount).toBe(1);
+
+      gateway.releaseConnection('real-token', 'falcon');
+      await flush();
+      expect(simulator.connectionCount).toBe(0);
+    });
+
+    it('respeita o limite de conexões simultâneas', async () => {
+      process.env.DERIV_MAX_CONNECTIONS = '1';
+      const limited = new BrokerGatewayService();
+
+      await limited.getConnection('real-token', { owner: 'zeus' });
+      await expect(limited.getConnection('demo-token')).rejects.toMatchObject({
+        code: 'ConnectionLimit',
+      });
+
+      limited.releaseConnection('real-token', 'zeus');
+      await expect(limited.getConnection('demo-token')).resolves.toMatchObject({
+        loginid: 'VRTC100001',
+      });
+      limited.onModuleDestroy();
+    });
+  });
+
+  describe('camada de broker', () => {
+    it('DerivService.connectAndGetAccount ativa a conta a partir do simulador', async () => {
+      const account = await new DerivService().connectAndGetAccount(
+        'demo-token',
+        1,
+        'DEMO',
+      );
+
+      expect(account.loginid).toBe('VRTC100001');
+      expect(account.idDemoAccount).toBe('VRTC100001');
+      expect(account.balance.value).toBe(10000);
+    });
+
+    it('liquida uma operação real via BrokerGatewayService (buy + proposal_open_contract)', async () => {
+      const gateway = new BrokerGatewayService();
+      const settlementSource = new DerivTradeSettlementSource(gateway);
+
+      const purchase = await settlementSource.buyContract({
+        token: 'real-token',
+        symbol: 'R_10',
+        contractType: 'PUT',
+        amount: 5,
+        currency: 'USD',
+        duration: 2,
+        durationUnit: 't',
+      });
+      expect(purchase.buyPrice).toBe(5);
+
+      const settlementPromise = settlementSource.waitForSettlement(
+        'real-token',
+        purchase.contractId,
+        5000,
+      );
+      await flush();
+      simulator.advance(3);
+      const settlement = await settlementPromise;
+
+      const contract = simulator.getContract(purchase.contractId)!;
+      expect(settlement).toMatchObject({
+        contractId: purchase.contractId,
+        status: contract.status,
+        entrySpot: contract.entryTick!.quote,
+        exitSpot: contract.exitTick!.quote,
+        sellPrice: contract.sellPrice,
+      });
+      gateway.onModuleDestroy();
+    });
+
+    it('MarkupService lê as transações de markup das compras', async () => {
+      const client = await TestClient.connect(url);
+      await client.request({ authorize: 'real-token' });
+      await client.request({
+        buy: 1,
+        price: 20,
+        parameters: {
+          amount: 20,
+          basis: 'stake',
+          contract_type: 'DIGITODD',
+          currency: 'USD',
+          duration: 1,
+          duration_unit: 't',
+          symbol: 'R_25',
+        },
+      });
+      client.close();
+
+      const transactions = await new MarkupService(
+        new ConfigService(),
+      ).getAppMarkupDetails('real-token', {
+        date_from: '2023-11-14 00:00:00',
+        date_to: '2023-11-15 23:59:59',
+      });
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        client_loginid: 'CR100001',
+        app_markup_usd: 0.2,
+      });
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { AppModule } from './../src/app.module';
+import { DerivSimulatorServer } from './../src/broker/simulator/deriv-simulator.server';
+import { PlanPermissionsService } from './../src/plans/plan-permissions.service';
+import { TokenEncryptionService } from './../src/utils/token-encryption.service';
+
+/**
+ * Fluxo completo contra o simulador da Deriv (requer o banco de testes configurado no .env, como app.e2e-spec):
+ * ativação da conta Deriv, operação manual liquidada pela corretora e replicação para copiadores.
+ */
+describe('Trading flow with Deriv simulator (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let simulator: DerivSimulatorServer;
+  const originalUrl = process.env.DERIV_WS_URL;
+  const originalKeys = process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+  const suffix = Date.now();
+  const master = {
+    name: 'Master E2E',
+    email: `master-${suffix}@e2e.local`,
+    password: 'senha-master',
+    derivToken: `master-real-${suffix}`,
+    id: '',
+    jwt: '',
+  };
+  const follower = {
+    name: 'Follower E2E',
+    email: `follower-${suffix}@e2e.local`,
+    password: 'senha-follower',
+    derivToken: `follower-real-${suffix}`,
+    id: '',
+    jwt: '',
+  };
+
+  /**
+   * Avança o mercado simulado até a condição ser satisfeita
+   */
+  const advanceUntil = async <T>(
+    check: () => Promise<T | null | undefined>,
+    maxTicks = 50,
+  ): Promise<T> => {
+    for (let i = 0; i < maxTicks; i++) {
+      const result = await check();
+      if (result) return result;
+      simulator.advance();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error('Condição não atingida no simulador');
+  };
+
+  const registerAndLogin = async (user: typeof master) => {
+    await request(app.getHttpServer())
+      .post('/api/auth/register')
+      .send({ name: user.name, email: user.email, password: user.password })
+      .expect(201);
+    await dataSource.query(`UPDATE users SET is_active = 1 WHERE email = ?`, [
+      user.email,
+    ]);
+    const [row] = await dataSource.query(
+      `SELECT id FROM users WHERE email = ?`,
+      [user.email],
+    );
+    user.id = row.id;
+
+    const login = await request(app.getHttpServer())
+      .post('/api/auth/login')
+      .send({ email: user.email, password: user.password })
+      .expect(200);
+    user.jwt = login.body.token;
+  };
+
+  beforeAll(async () => {
+    simulator = new DerivSimulatorServer({
+      seed: 11,
+      accounts: {
+        [master.derivToken]: { balance: 1000 },
+        [follower.derivToken]: { balance: 1000 },
+      },
+    });
+    process.env.DERIV_WS_URL = await simulator.start();
+    process.env.DERIV_TOKEN_ENCRYPTION_KEYS ||= `e2e:${Buffer.alloc(32, 7).toString('base64')}`;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true },
+        skipUndefinedProperties: true,
+      }),
+    );
+    await app.init();
+
+    dataSource = app.get(DataSource);
+    jest
+      .spyOn(app.get(PlanPermissionsService), 'canActivateTrader')
+      .mockReturnValue(true);
+
+    await registerAndLogin(master);
+    await registerAndLogin(follower);
+    await dataSource.query(
+      `UPDATE users SET role = 'trader', trader_mestre = 1 WHERE id = ?`,
+      [master.id],
+    );
+  }, 60000);
+
+  afterAll(async () => {
+    if (dataSource) {
+      const ids = [master.id, follower.id].filter(Boolean);
+      if (ids.length) {
+        await dataSource.query(
+          `DELETE FROM copy_trading_operations WHERE user_id IN (?)`,
+          [ids],
+        );
+        await dataSource.query(
+          `DELETE FROM copy_trading_sessions WHERE user_id IN (?)`,
+          [ids],
+        );
+        await dataSource.query(
+          `DELETE FROM copy_trading_config WHERE user_id IN (?)`,
+          [ids],
+        );
+        await dataSource.query(
+          `DELETE FROM master_trader_operations WHERE trader_id IN (?)`,
+          [ids],
+        );
+        await dataSource.query(`DELETE FROM trades WHERE user_id IN (?)`, [
+          ids,
+        ]);
+        await dataSource.query(`DELETE FROM users WHERE id IN (?)`, [ids]);
+      }
+    }
+    await app?.close();
+    await simulator.stop();
+    process.env.DERIV_WS_URL = originalUrl;
+    if (originalKeys === undefined) {
+      delete process.env.DERIV_TOKEN_ENCRYPTION_KEYS;
+    } else {
+      process.env.DERIV_TOKEN_ENCRYPTION_KEYS = originalKeys;
+    }
+  });
+
+  it('ativa as contas Deriv de mestre e copiador pelo simulador', async () => {
+    for (const user of [master, follower]) {
+      await request(app.getHttpServer())
+        .post('/api/broker/deriv/connect')
+        .set('Authorization', `Bearer ${user.jwt}`)
+        .send({ token: user.derivToken, currency: 'USD' })
+        .expect(200);
+
+      const [row] = await dataSource.query(
+        `SELECT deriv_login_id, token_real FROM users WHERE id = ?`,
+        [user.id],
+      );
+      expect(row.deriv_login_id).toBe(
+        simulator.getAccount(user.derivToken)!.loginid,
+      );
+      expect(row.token_real).not.toBe(user.derivToken);
+      expect(app.get(TokenEncryptionService).decrypt(row.token_real)).toBe(
+        user.derivToken,
+      );
+    }
+  });
+
+  it('ativa o copy trading do copiador para o mestre', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/copy-trading/activate')
+      .set('Authorization', `Bearer ${follower.jwt}`)
+      .send({
+        traderId: master.id,
+        traderName: master.name,
+        allocationType: 'fixed',
+        allocationValue: 5,
+        leverage: '1x',
+        stopLoss: 100,
+        takeProfit: 100,
+        blindStopLoss: false,
+        derivToken: follower.derivToken,
+        currency: 'USD',
+      })
+      .expect(201);
+
+    expect(response.body.success).toBe(true);
+  });
+
+  it('liquida a operação manual do mestre e abre um contrato próprio para o copiador', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/api/trades')
+      .set('Authorization', `Bearer ${master.jwt}`)
+      .send({
+        contractType: 'R_100',
+        timeType: 'tick',
+        duration: '5t',
+        multiplier: 1,
+        entryValue: 10,
+        tradeType: 'BUY',
+      })
+      .expect(201);
+
+    const tradeId = response.body.id;
+    const contractId = response.body.derivTransactionId;
+    expect(simulator.getContract(contractId)).toBeDefined();
+
+    const trade = await advanceUntil(async () => {
+      const [row] = await dataSource.query(
+        `SELECT * FROM trades WHERE id = ? AND status <> 'pending'`,
+        [tradeId],
+      );
+      return row;
+    });
+
+    const contract = simulator.getContract(contractId)!;
+    expect(contract.status).not.toBe('open');
+    expect(trade.status.toLowerCase()).toBe(contract.status);
+    expect(parseFloat(trade.profit)).toBeCloseTo(
+      (contract.sellPrice ?? 0) - contract.buyPrice,
+      2,
+    );
+    expect(parseFloat(trade.entry_spot)).toBeCloseTo(
+      contract.entryTick!.quote,
+      2,
+    );
+    expect(parseFloat(trade.exit_spot)).toBeCloseTo(
+      contract.exitTick!.quote,
+      2,
+    );
+
+    const replicated = await advanceUntil(async () => {
+      const [row] = await dataSource.query(
+        `SELECT * FROM copy_trading_operations
+         WHERE user_id = ? AND trader_operation_id = ? AND result <> 'pending'`,
+        [follower.id, tradeId],
+      );
+      return row;
+    });
+
+    // O copiador tem contrato próprio na conta dele, liquidado de forma independente
+    expect(replicated.contract_id).toBeTruthy();
+    expect(replicated.contract_id).not.toBe(String(contractId));
+    const followerContract = simulator.getContract(replicated.contract_id)!;
+    expect(followerContract).toBeDefined();
+    expect(followerContract.status).not.toBe('open');
+    expect(replicated.result).toBe(
+      followerContract.status === 'won' ? 'win' : 'loss',
+    );
+    expect(parseFloat(replicated.profit)).toBeCloseTo(
+      (followerContract.sellPrice ?? 0) - followerContract.buyPrice,
+      2,
+    );
+    expect(parseFloat(replicated.stake_amount)).toBe(5);
+    expect(parseFloat(replicated.master_buy_price)).toBe(contract.buyPrice);
+    expect(replicated.payout_diff).not.toBeNull();
+    expect(replicated.fill_delay_ms).not.toBeNull();
+  });
+});